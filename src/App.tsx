@@ -8,6 +8,7 @@ import { AuthProvider } from "@/hooks/useAuth";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import Index from "./pages/Index";
 import AuthPage from "./pages/Auth";
+import KioskPage from "./pages/Kiosk";
 import { LandingPage } from "@/components/LandingPage";
 import NotFound from "./pages/NotFound";
 
@@ -28,6 +29,11 @@ const App = () => (
                 <Index />
               </ProtectedRoute>
             } />
+            <Route path="/kiosk" element={
+              <ProtectedRoute requiredPermission="working_hours_manage">
+                <KioskPage />
+              </ProtectedRoute>
+            } />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
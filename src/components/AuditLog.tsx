@@ -0,0 +1,238 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronRight, History, RefreshCw, Search } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { AuditAction, AuditLogEntry } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { AuditChangeList } from "@/components/audit/AuditChangeList";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_SELECT,
+  AUDIT_TABLE_LABELS,
+  AuditTable,
+  describeAuditEntry,
+  fetchProfileNames,
+  ProfileNames
+} from "@/lib/audit";
+
+// Newest entries only; narrow the filters to look further back
+const AUDIT_LOG_LIMIT = 500;
+
+const ACTION_VARIANTS: Record<AuditAction, "default" | "secondary" | "destructive"> = {
+  insert: "default",
+  update: "secondary",
+  delete: "destructive"
+};
+
+export const AuditLog = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [profileNames, setProfileNames] = useState<ProfileNames>({});
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [tableFilter, setTableFilter] = useState("all");
+  const [actionFilter, setActionFilter] = useState("all");
+  const [actorFilter, setActorFilter] = useState("all");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchProfileNames()
+      .then(setProfileNames)
+      .catch(error => console.error('Error fetching profiles:', error));
+  }, []);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [tableFilter, actionFilter, actorFilter, startDate, endDate]);
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select(AUDIT_SELECT)
+        .order('created_at', { ascending: false })
+        .limit(AUDIT_LOG_LIMIT);
+
+      if (tableFilter !== 'all') query = query.eq('table_name', tableFilter);
+      if (actionFilter !== 'all') query = query.eq('action', actionFilter as AuditAction);
+      if (actorFilter !== 'all') query = query.eq('actor_id', actorFilter);
+      if (startDate) query = query.gte('created_at', `${startDate}T00:00:00`);
+      if (endDate) query = query.lte('created_at', `${endDate}T23:59:59`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setEntries((data || []) as unknown as AuditLogEntry[]);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const search = searchTerm.trim().toLowerCase();
+  const filteredEntries = search
+    ? entries.filter(entry => [
+        entry.record_id,
+        describeAuditEntry(entry),
+        entry.profiles?.full_name || '',
+        JSON.stringify(entry.new_data || entry.old_data || {})
+      ].some(text => text.toLowerCase().includes(search)))
+    : entries;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <History className="h-8 w-8 text-blue-600" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+            <p className="text-gray-600">Every change to working hours, rosters, payroll and bank transactions</p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={fetchEntries} disabled={loading}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="lg:col-span-2">
+              <Label>Search</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  placeholder="Record id, change or value"
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Record type</Label>
+              <Select value={tableFilter} onValueChange={setTableFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All records</SelectItem>
+                  {(Object.keys(AUDIT_TABLE_LABELS) as AuditTable[]).map(table => (
+                    <SelectItem key={table} value={table}>{AUDIT_TABLE_LABELS[table]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Action</Label>
+              <Select value={actionFilter} onValueChange={setActionFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                    <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Changed by</Label>
+              <Select value={actorFilter} onValueChange={setActorFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Anyone</SelectItem>
+                  {Object.entries(profileNames)
+                    .sort(([, a], [, b]) => a.localeCompare(b))
+                    .map(([id, name]) => (
+                      <SelectItem key={id} value={id}>{name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label>From</Label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div>
+                <Label>To</Label>
+                <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Changes</span>
+            <span className="text-sm font-normal text-gray-600">
+              {filteredEntries.length} {filteredEntries.length === 1 ? 'entry' : 'entries'}
+              {entries.length === AUDIT_LOG_LIMIT && ` (latest ${AUDIT_LOG_LIMIT})`}
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : filteredEntries.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No changes found</div>
+          ) : (
+            <div className="space-y-2">
+              {filteredEntries.map(entry => {
+                const expanded = expandedId === entry.id;
+                return (
+                  <div key={entry.id} className="border rounded-lg">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      className="w-full flex flex-col md:flex-row md:items-center gap-2 p-3 text-left hover:bg-gray-50"
+                    >
+                      <div className="flex items-center gap-2 flex-1 min-w-0">
+                        {expanded
+                          ? <ChevronDown className="h-4 w-4 shrink-0 text-gray-500" />
+                          : <ChevronRight className="h-4 w-4 shrink-0 text-gray-500" />}
+                        <Badge variant={ACTION_VARIANTS[entry.action]}>{AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                        <span className="text-sm text-gray-600 shrink-0">{AUDIT_TABLE_LABELS[entry.table_name]}</span>
+                        <span className="text-sm font-medium text-gray-900 truncate">{describeAuditEntry(entry)}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 md:text-right">
+                        {entry.profiles?.full_name || 'System'} · {format(parseISO(entry.created_at), 'dd MMM yyyy HH:mm:ss')}
+                      </div>
+                    </button>
+                    {expanded && (
+                      <div className="px-3 pb-3 space-y-2">
+                        <div className="text-xs text-gray-500">Record {entry.record_id}</div>
+                        <AuditChangeList entry={entry} profileNames={profileNames} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
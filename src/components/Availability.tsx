@@ -0,0 +1,95 @@
+import { useState, useEffect } from "react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CalendarCheck } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Profile } from "@/types/database";
+import { useAuth } from "@/hooks/useAuth";
+import { ProfileSelector } from "@/components/common/ProfileSelector";
+import { WeeklyAvailabilityCard } from "@/components/availability/WeeklyAvailabilityCard";
+import { UnavailabilityCard } from "@/components/availability/UnavailabilityCard";
+import { LeaveRequestsCard } from "@/components/availability/LeaveRequestsCard";
+import { LeaveCalendar } from "@/components/availability/LeaveCalendar";
+
+export const Availability = () => {
+  const { profile, hasPermission } = useAuth();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState("");
+  const [activeTab, setActiveTab] = useState("mine");
+
+  const canManage = hasPermission('roster_manage');
+  const canViewTeam = hasPermission('roster_view');
+
+  useEffect(() => {
+    if (profile?.id && !selectedProfileId) setSelectedProfileId(profile.id);
+  }, [profile?.id]);
+
+  useEffect(() => {
+    if (canManage) fetchProfiles();
+  }, [canManage]);
+
+  const fetchProfiles = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('is_active', true)
+        .order('full_name');
+
+      if (error) throw error;
+      setProfiles(data || []);
+    } catch (error) {
+      console.error('Error fetching profiles:', error);
+    }
+  };
+
+  if (!profile || !selectedProfileId) {
+    return <div className="flex justify-center items-center h-64">Loading...</div>;
+  }
+
+  // Leave can only be requested for yourself; managers editing someone else only maintain availability
+  const isOwnProfile = selectedProfileId === profile.id;
+
+  const personalCards = (
+    <div className="space-y-4 sm:space-y-6">
+      {canManage && profiles.length > 0 && (
+        <ProfileSelector
+          profiles={profiles}
+          selectedProfileId={selectedProfileId}
+          onProfileSelect={setSelectedProfileId}
+          label="Team Member"
+          className="max-w-xl"
+        />
+      )}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
+        <WeeklyAvailabilityCard profileId={selectedProfileId} />
+        <UnavailabilityCard profileId={selectedProfileId} />
+      </div>
+      <LeaveRequestsCard profileId={selectedProfileId} canRequest={isOwnProfile} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4 sm:space-y-6 p-2 sm:p-4 lg:p-6">
+      <div className="flex items-center gap-3">
+        <CalendarCheck className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600" />
+        <div>
+          <h1 className="text-xl sm:text-2xl lg:text-3xl font-bold text-gray-900">Availability & Leave</h1>
+          <p className="text-sm sm:text-base text-gray-600">Set when you can work and request time off</p>
+        </div>
+      </div>
+
+      {canViewTeam ? (
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-2 mb-4 sm:mb-6">
+            <TabsTrigger value="mine" className="text-sm">Availability</TabsTrigger>
+            <TabsTrigger value="calendar" className="text-sm">Leave Calendar</TabsTrigger>
+          </TabsList>
+          <TabsContent value="mine">{personalCards}</TabsContent>
+          <TabsContent value="calendar">
+            <LeaveCalendar />
+          </TabsContent>
+        </Tabs>
+      ) : personalCards}
+    </div>
+  );
+};
@@ -6,12 +6,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
-import { Plus, TrendingUp, TrendingDown, Building, DollarSign, Minus, Edit, Trash2, Search, Calendar, Filter } from "lucide-react";
+import { Plus, TrendingUp, TrendingDown, Building, DollarSign, Minus, Edit, Trash2, Search, Calendar, Filter, History } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { supabase } from "@/integrations/supabase/client";
 import { BankAccount, BankTransaction, Profile, Client, Project } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
 import { ProfileSelector } from "@/components/common/ProfileSelector";
+import { AuditHistoryDialog } from "@/components/audit/AuditHistoryDialog";
+import { checkProjectBudgetAlerts } from "@/lib/project-budgets";
 
 export const BankBalance = () => {
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
@@ -34,6 +36,7 @@ export const BankBalance = () => {
   const [isBankDialogOpen, setIsBankDialogOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<BankTransaction | null>(null);
   const [editingBankAccount, setEditingBankAccount] = useState<BankAccount | null>(null);
+  const [historyTransaction, setHistoryTransaction] = useState<BankTransaction | null>(null);
   const { toast } = useToast();
 
   const categoryOptions = [
@@ -258,6 +261,12 @@ export const BankBalance = () => {
         if (error) throw error;
         toast({ title: "Success", description: `${type === 'deposit' ? 'Deposit' : 'Withdrawal'} added successfully` });
       }
+
+      // Withdrawals against a project count towards its budget
+      const affectedProjects = [transactionData.project_id, editingTransaction?.project_id].filter(Boolean) as string[];
+      if (affectedProjects.length > 0) {
+        checkProjectBudgetAlerts(affectedProjects).catch(error => console.error('Error checking budget alerts:', error));
+      }
       
       if (type === 'deposit') {
         setIsDepositDialogOpen(false);
@@ -1207,6 +1216,15 @@ export const BankBalance = () => {
                         </td>
                         <td className="py-3 px-4">
                           <div className="flex items-center gap-2">
+                            <Button 
+                              variant="ghost" 
+                              size="sm" 
+                              onClick={() => setHistoryTransaction(transaction)}
+                              className="text-gray-600 hover:text-gray-700"
+                              title="History"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
                             <Button 
                               variant="ghost" 
                               size="sm" 
@@ -1234,6 +1252,14 @@ export const BankBalance = () => {
           </CardContent>
         </Card>
       </div>
+
+      <AuditHistoryDialog
+        tableName="bank_transactions"
+        recordId={historyTransaction?.id || null}
+        title={`History - ${historyTransaction?.description || 'Transaction'}`}
+        isOpen={!!historyTransaction}
+        onClose={() => setHistoryTransaction(null)}
+      />
     </div>
   );
 };
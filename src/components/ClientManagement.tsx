@@ -34,7 +34,8 @@ export const ClientManagement = () => {
     email: "",
     phone: "",
     company: "",
-    status: "active" as "active" | "inactive"
+    status: "active" as "active" | "inactive",
+    holiday_region: ""
   });
 
   useEffect(() => {
@@ -86,10 +87,12 @@ export const ClientManagement = () => {
     setLoading(true);
 
     try {
+      const clientData = { ...formData, holiday_region: formData.holiday_region.trim() || null };
+
       if (editingClient) {
         const { error } = await supabase
           .from('clients')
-          .update(formData)
+          .update(clientData)
           .eq('id', editingClient.id);
 
         if (error) throw error;
@@ -97,7 +100,7 @@ export const ClientManagement = () => {
       } else {
         const { error } = await supabase
           .from('clients')
-          .insert([formData]);
+          .insert([clientData]);
 
         if (error) throw error;
         toast({ title: "Success", description: "Client added successfully" });
@@ -105,7 +108,7 @@ export const ClientManagement = () => {
 
       setIsDialogOpen(false);
       setEditingClient(null);
-      setFormData({ name: "", email: "", phone: "", company: "", status: "active" });
+      setFormData({ name: "", email: "", phone: "", company: "", status: "active", holiday_region: "" });
       fetchClients();
     } catch (error) {
       console.error('Error saving client:', error);
@@ -126,7 +129,8 @@ export const ClientManagement = () => {
       email: client.email,
       phone: client.phone || "",
       company: client.company,
-      status: client.status
+      status: client.status,
+      holiday_region: client.holiday_region || ""
     });
     setIsDialogOpen(true);
   };
@@ -188,7 +192,7 @@ export const ClientManagement = () => {
           <DialogTrigger asChild>
             <Button className="flex items-center gap-2 w-full sm:w-auto" onClick={() => {
               setEditingClient(null);
-              setFormData({ name: "", email: "", phone: "", company: "", status: "active" });
+              setFormData({ name: "", email: "", phone: "", company: "", status: "active", holiday_region: "" });
             }}>
               <Plus className="h-4 w-4" />
               Add Client
@@ -247,6 +251,15 @@ export const ClientManagement = () => {
                   </SelectContent>
                 </Select>
               </div>
+              <div>
+                <Label htmlFor="holiday_region">Public Holiday Region</Label>
+                <Input
+                  id="holiday_region"
+                  value={formData.holiday_region}
+                  onChange={(e) => setFormData({ ...formData, holiday_region: e.target.value })}
+                  placeholder="e.g. NSW; blank for national holidays only"
+                />
+              </div>
               <Button type="submit" disabled={loading} className="w-full">
                 {loading ? "Saving..." : editingClient ? "Update Client" : "Add Client"}
               </Button>
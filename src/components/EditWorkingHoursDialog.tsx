@@ -7,9 +7,15 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
-import { WorkingHour, Profile, Client, Project, WorkingHoursStatus } from "@/types/database";
+import { WorkingHour, Profile, Client, Project, WorkingHoursStatus, ShiftBreak } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
 import { ProfileSelector } from "@/components/common/ProfileSelector";
+import { calculateShiftHours, formatTimeRange } from "@/lib/time";
+import { recalculateOvertime } from "@/lib/overtime";
+import { findBreakErrors, getUnpaidBreakMinutes } from "@/lib/breaks";
+import { BreakPeriodsField } from "@/components/working-hours/BreakPeriodsField";
+import { useRateCards } from "@/hooks/useRateCards";
+import { describeRateSource, getBillableAmount } from "@/lib/rate-cards";
 
 interface EditWorkingHoursDialogProps {
   workingHour: WorkingHour | null;
@@ -32,6 +38,7 @@ export const EditWorkingHoursDialog = ({
 }: EditWorkingHoursDialogProps) => {
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { getRates } = useRateCards();
 
   const [formData, setFormData] = useState({
     profile_id: "",
@@ -42,11 +49,20 @@ export const EditWorkingHoursDialog = ({
     end_time: "",
     sign_in_time: "",
     sign_out_time: "",
+    break_minutes: 0,
+    breaks: [] as ShiftBreak[],
     hourly_rate: 0,
+    bill_rate: null as number | null,
     notes: "",
     status: "pending" as WorkingHoursStatus
   });
 
+  // Re-prices the entry from the rate cards whenever who, where or when changes
+  const withRates = (data: typeof formData) => {
+    const { pay, bill } = getRates(data, profiles.find(p => p.id === data.profile_id));
+    return { ...data, hourly_rate: pay?.rate || 0, bill_rate: bill?.rate ?? null };
+  };
+
   useEffect(() => {
     if (workingHour) {
       setFormData({
@@ -58,47 +74,39 @@ export const EditWorkingHoursDialog = ({
         end_time: workingHour.end_time,
         sign_in_time: "", // Always start with empty sign in time
         sign_out_time: "", // Always start with empty sign out time
+        break_minutes: workingHour.break_minutes || 0,
+        breaks: workingHour.breaks || [],
         hourly_rate: workingHour.hourly_rate || 0,
+        bill_rate: workingHour.bill_rate ?? null,
         notes: workingHour.notes || "",
         status: workingHour.status
       });
     }
   }, [workingHour]);
 
-  const calculateTotalHours = (startTime: string, endTime: string) => {
-    if (!startTime || !endTime) return 0;
-    
-    const start = new Date(`2000-01-01T${startTime}`);
-    const end = new Date(`2000-01-01T${endTime}`);
-    const diffMs = end.getTime() - start.getTime();
-    const diffHours = diffMs / (1000 * 60 * 60);
-    
-    return Math.max(0, diffHours);
-  };
-
-  const calculateActualHours = (signInTime: string, signOutTime: string) => {
-    if (!signInTime || !signOutTime) return 0;
-    return calculateTotalHours(signInTime, signOutTime);
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!workingHour) return;
 
+    const breakErrors = findBreakErrors(formData.breaks, formData.start_time, formData.end_time);
+    if (breakErrors.length > 0) {
+      toast({ title: "Error", description: breakErrors[0], variant: "destructive" });
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const totalHours = calculateTotalHours(formData.start_time, formData.end_time);
-      const actualHours = calculateActualHours(formData.sign_in_time, formData.sign_out_time);
-      const overtimeHours = Math.max(0, actualHours - totalHours);
+      const totalHours = calculateShiftHours(formData.start_time, formData.end_time, formData.break_minutes);
+      const actualHours = calculateShiftHours(formData.sign_in_time, formData.sign_out_time, formData.break_minutes);
       const payableAmount = actualHours * formData.hourly_rate;
       
       const updateData: any = {
         ...formData,
         total_hours: totalHours,
         actual_hours: actualHours,
-        overtime_hours: overtimeHours,
         payable_amount: payableAmount,
+        billable_amount: getBillableAmount(actualHours || totalHours, formData.bill_rate),
         // Set sign in/out times to null if empty
         sign_in_time: formData.sign_in_time || null,
         sign_out_time: formData.sign_out_time || null
@@ -110,6 +118,9 @@ export const EditWorkingHoursDialog = ({
         .eq('id', workingHour.id);
 
       if (error) throw error;
+
+      // Both the week the entry was in and the week it is in now may have changed
+      await recalculateOvertime([workingHour, formData]);
       
       toast({ 
         title: "Success", 
@@ -132,6 +143,8 @@ export const EditWorkingHoursDialog = ({
 
   if (!workingHour) return null;
 
+  const formRates = getRates(formData, profiles.find(p => p.id === formData.profile_id));
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -143,12 +156,7 @@ export const EditWorkingHoursDialog = ({
             profiles={profiles}
             selectedProfileId={formData.profile_id}
             onProfileSelect={(profileId) => {
-              const profile = profiles.find(p => p.id === profileId);
-              setFormData({ 
-                ...formData, 
-                profile_id: profileId,
-                hourly_rate: profile?.hourly_rate || 0
-              });
+              setFormData(withRates({ ...formData, profile_id: profileId }));
             }}
             label="Select Profile"
             placeholder="Choose a team member"
@@ -157,7 +165,7 @@ export const EditWorkingHoursDialog = ({
           
           <div>
             <Label htmlFor="client_id">Client</Label>
-            <Select value={formData.client_id} onValueChange={(value) => setFormData({ ...formData, client_id: value })}>
+            <Select value={formData.client_id} onValueChange={(value) => setFormData(withRates({ ...formData, client_id: value }))}>
               <SelectTrigger>
                 <SelectValue placeholder="Select client" />
               </SelectTrigger>
@@ -173,7 +181,7 @@ export const EditWorkingHoursDialog = ({
 
           <div>
             <Label htmlFor="project_id">Project</Label>
-            <Select value={formData.project_id} onValueChange={(value) => setFormData({ ...formData, project_id: value })}>
+            <Select value={formData.project_id} onValueChange={(value) => setFormData(withRates({ ...formData, project_id: value }))}>
               <SelectTrigger>
                 <SelectValue placeholder="Select project" />
               </SelectTrigger>
@@ -193,7 +201,7 @@ export const EditWorkingHoursDialog = ({
               id="date"
               type="date"
               value={formData.date}
-              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              onChange={(e) => setFormData(withRates({ ...formData, date: e.target.value }))}
               required
             />
           </div>
@@ -222,7 +230,36 @@ export const EditWorkingHoursDialog = ({
                     required
                   />
                 </div>
+                <div>
+                  <Label htmlFor="break_minutes">Unpaid Break (minutes)</Label>
+                  <Input
+                    id="break_minutes"
+                    type="number"
+                    min="0"
+                    step="5"
+                    value={formData.break_minutes}
+                    onChange={(e) => setFormData({ ...formData, break_minutes: parseInt(e.target.value) || 0 })}
+                    disabled={formData.breaks.length > 0}
+                  />
+                </div>
+              </div>
+              <div className="mt-3">
+                <BreakPeriodsField
+                  breaks={formData.breaks}
+                  startTime={formData.start_time}
+                  endTime={formData.end_time}
+                  onChange={(breaks) => setFormData({
+                    ...formData,
+                    breaks,
+                    break_minutes: breaks.length > 0 ? getUnpaidBreakMinutes(breaks) : formData.break_minutes
+                  })}
+                />
               </div>
+              {formData.start_time && formData.end_time && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {formatTimeRange(formData.start_time, formData.end_time)}: {calculateShiftHours(formData.start_time, formData.end_time, formData.break_minutes)}h paid
+                </p>
+              )}
             </div>
 
             <div className="border-t pt-4">
@@ -251,17 +288,37 @@ export const EditWorkingHoursDialog = ({
               </div>
             </div>
 
-            <div>
-              <Label htmlFor="hourly_rate">Hourly Rate ($)</Label>
-              <Input
-                id="hourly_rate"
-                type="number"
-                step="0.01"
-                min="0"
-                value={formData.hourly_rate}
-                onChange={(e) => setFormData({ ...formData, hourly_rate: parseFloat(e.target.value) || 0 })}
-                required
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="hourly_rate">Hourly Rate ($)</Label>
+                <Input
+                  id="hourly_rate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.hourly_rate}
+                  onChange={(e) => setFormData({ ...formData, hourly_rate: parseFloat(e.target.value) || 0 })}
+                  required
+                />
+                {formRates.pay && formRates.pay.rate === formData.hourly_rate && (
+                  <p className="text-xs text-gray-500 mt-1">{describeRateSource(formRates.pay)}</p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="bill_rate">Bill Rate ($)</Label>
+                <Input
+                  id="bill_rate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.bill_rate ?? ""}
+                  onChange={(e) => setFormData({ ...formData, bill_rate: e.target.value ? parseFloat(e.target.value) : null })}
+                  placeholder="No rate card"
+                />
+                {formRates.bill && formRates.bill.rate === formData.bill_rate && (
+                  <p className="text-xs text-gray-500 mt-1">{describeRateSource(formRates.bill)}</p>
+                )}
+              </div>
             </div>
 
             <div>
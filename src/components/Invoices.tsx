@@ -0,0 +1,371 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DollarSign, Edit, Eye, Plus, Receipt, Send, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { BankAccount, Client, Invoice, InvoiceLineItem, InvoiceStatus, Project } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { toDateString } from "@/lib/time";
+import { isInvoiceOverdue, splitInvoiceByProject } from "@/lib/invoicing";
+import { InvoiceFormDialog } from "@/components/invoices/InvoiceFormDialog";
+import { InvoicePrintView } from "@/components/invoices/InvoicePrintView";
+import { InvoicePaymentDialog } from "@/components/invoices/InvoicePaymentDialog";
+
+const STATUS_COLORS: Record<InvoiceStatus | 'overdue', string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  overdue: 'bg-red-100 text-red-800'
+};
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+export const Invoices = () => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [clientFilter, setClientFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [viewingInvoice, setViewingInvoice] = useState<Invoice | null>(null);
+  const [payingInvoice, setPayingInvoice] = useState<Invoice | null>(null);
+  const [paying, setPaying] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchOptions();
+    fetchInvoices();
+  }, []);
+
+  const fetchOptions = async () => {
+    try {
+      const [clientsResult, projectsResult, bankResult] = await Promise.all([
+        supabase.from('clients').select('*').order('company'),
+        supabase.from('projects').select('*').order('name'),
+        supabase.from('bank_accounts').select('*').is('profile_id', null).order('bank_name')
+      ]);
+
+      if (clientsResult.error) throw clientsResult.error;
+      if (projectsResult.error) throw projectsResult.error;
+      if (bankResult.error) throw bankResult.error;
+
+      setClients((clientsResult.data || []) as Client[]);
+      setProjects((projectsResult.data || []) as Project[]);
+      setBankAccounts((bankResult.data || []) as BankAccount[]);
+    } catch (error) {
+      console.error('Error fetching invoice options:', error);
+    }
+  };
+
+  const fetchInvoices = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .select(`
+          *,
+          clients!invoices_client_id_fkey (id, name, company, email, phone)
+        `)
+        .order('issue_date', { ascending: false })
+        .order('invoice_number', { ascending: false });
+
+      if (error) throw error;
+      setInvoices((data || []) as Invoice[]);
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch invoices",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMarkSent = async (invoice: Invoice) => {
+    try {
+      const { error } = await supabase
+        .from('invoices')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', invoice.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: `${invoice.invoice_number} marked as sent` });
+      fetchInvoices();
+    } catch (error) {
+      console.error('Error marking invoice as sent:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update invoice",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (invoice: Invoice) => {
+    if (!confirm(`Delete draft ${invoice.invoice_number}? Its hours can then be billed again.`)) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('invoices')
+        .delete()
+        .eq('id', invoice.id)
+        .eq('status', 'draft')
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) throw new Error('Only draft invoices can be deleted');
+      toast({ title: "Success", description: "Invoice deleted" });
+      fetchInvoices();
+    } catch (error) {
+      console.error('Error deleting invoice:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete invoice",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleConfirmPayment = async (bankAccountId: string, paymentDate: string) => {
+    if (!payingInvoice) return;
+    const invoice = payingInvoice;
+
+    setPaying(true);
+    try {
+      const { data: lines, error: linesError } = await supabase
+        .from('invoice_line_items')
+        .select('project_id, amount')
+        .eq('invoice_id', invoice.id);
+
+      if (linesError) throw linesError;
+
+      // One deposit per project, so project income shows in the bank reports. The invoice
+      // moves to paid in the same transaction, so its deposits can only be recorded once.
+      const splits = splitInvoiceByProject((lines || []) as Pick<InvoiceLineItem, 'project_id' | 'amount'>[], Number(invoice.total));
+      const { error } = await supabase.rpc('record_invoice_payment', {
+        target_invoice_id: invoice.id,
+        bank_account_id: bankAccountId,
+        payment_date: paymentDate,
+        deposits: splits.map(split => ({
+          project_id: split.project_id,
+          description: splits.length > 1 && split.project_id
+            ? `Payment for ${invoice.invoice_number} from ${invoice.clients?.company} (${projects.find(p => p.id === split.project_id)?.name})`
+            : `Payment for ${invoice.invoice_number} from ${invoice.clients?.company}`,
+          amount: split.amount
+        }))
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: `Payment recorded for ${invoice.invoice_number}` });
+      setPayingInvoice(null);
+      fetchInvoices();
+    } catch (error) {
+      console.error('Error recording invoice payment:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive"
+      });
+    } finally {
+      setPaying(false);
+    }
+  };
+
+  const today = toDateString(new Date());
+  const displayStatus = (invoice: Invoice) => isInvoiceOverdue(invoice, today) ? 'overdue' : invoice.status;
+
+  const filteredInvoices = invoices.filter(invoice =>
+    (clientFilter === 'all' || invoice.client_id === clientFilter)
+    && (statusFilter === 'all' || displayStatus(invoice) === statusFilter || invoice.status === statusFilter));
+
+  const sumTotals = (list: Invoice[]) => list.reduce((sum, invoice) => sum + Number(invoice.total), 0);
+  const outstanding = invoices.filter(invoice => invoice.status === 'sent');
+  const overdue = outstanding.filter(invoice => isInvoiceOverdue(invoice, today));
+  const drafts = invoices.filter(invoice => invoice.status === 'draft');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Receipt className="h-8 w-8 text-blue-600" />
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Invoices</h1>
+            <p className="text-gray-600">Bill clients for approved hours</p>
+          </div>
+        </div>
+        <Button onClick={() => { setEditingInvoice(null); setIsFormOpen(true); }}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Invoice
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-gray-600">Outstanding</div>
+            <div className="text-2xl font-bold">${sumTotals(outstanding).toFixed(2)}</div>
+            <div className="text-xs text-gray-500">{outstanding.length} sent, awaiting payment</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-gray-600">Overdue</div>
+            <div className="text-2xl font-bold text-red-600">${sumTotals(overdue).toFixed(2)}</div>
+            <div className="text-xs text-gray-500">{overdue.length} past the due date</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="text-sm text-gray-600">Drafts</div>
+            <div className="text-2xl font-bold">${sumTotals(drafts).toFixed(2)}</div>
+            <div className="text-xs text-gray-500">{drafts.length} not yet sent</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <CardTitle>All Invoices</CardTitle>
+            <div className="flex gap-2">
+              <Select value={clientFilter} onValueChange={setClientFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All clients</SelectItem>
+                  {clients.map(client => (
+                    <SelectItem key={client.id} value={client.id}>{client.company}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  <SelectItem value="draft">Draft</SelectItem>
+                  <SelectItem value="sent">Sent</SelectItem>
+                  <SelectItem value="overdue">Overdue</SelectItem>
+                  <SelectItem value="paid">Paid</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : filteredInvoices.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No invoices</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-3 font-medium">Invoice</th>
+                    <th className="py-2 pr-3 font-medium">Client</th>
+                    <th className="py-2 pr-3 font-medium">Work period</th>
+                    <th className="py-2 pr-3 font-medium">Due</th>
+                    <th className="py-2 pr-3 font-medium text-right">Total</th>
+                    <th className="py-2 pr-3 font-medium">Status</th>
+                    <th className="py-2 font-medium text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredInvoices.map(invoice => {
+                    const status = displayStatus(invoice);
+                    return (
+                      <tr key={invoice.id} className="border-b last:border-0">
+                        <td className="py-2 pr-3 font-medium">{invoice.invoice_number}</td>
+                        <td className="py-2 pr-3">{invoice.clients?.company}</td>
+                        <td className="py-2 pr-3 whitespace-nowrap">
+                          {formatDate(invoice.period_start)} – {formatDate(invoice.period_end)}
+                        </td>
+                        <td className="py-2 pr-3 whitespace-nowrap">{formatDate(invoice.due_date)}</td>
+                        <td className="py-2 pr-3 text-right font-medium">${Number(invoice.total).toFixed(2)}</td>
+                        <td className="py-2 pr-3">
+                          <Badge className={STATUS_COLORS[status]}>{status}</Badge>
+                        </td>
+                        <td className="py-2">
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => setViewingInvoice(invoice)} title="View and print">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {invoice.status === 'draft' && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => { setEditingInvoice(invoice); setIsFormOpen(true); }}
+                                  title="Edit"
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleMarkSent(invoice)} title="Mark as sent">
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => handleDelete(invoice)} className="text-red-600" title="Delete">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            {invoice.status === 'sent' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setPayingInvoice(invoice)}
+                                className="text-green-600"
+                                title="Record payment"
+                              >
+                                <DollarSign className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <InvoiceFormDialog
+        clients={clients}
+        projects={projects}
+        invoice={editingInvoice}
+        isOpen={isFormOpen}
+        onClose={() => { setIsFormOpen(false); setEditingInvoice(null); }}
+        onSaved={fetchInvoices}
+      />
+
+      <InvoicePrintView
+        invoice={viewingInvoice}
+        isOpen={!!viewingInvoice}
+        onClose={() => setViewingInvoice(null)}
+      />
+
+      <InvoicePaymentDialog
+        invoice={payingInvoice}
+        isOpen={!!payingInvoice}
+        onClose={() => setPayingInvoice(null)}
+        onConfirm={handleConfirmPayment}
+        bankAccounts={bankAccounts}
+        loading={paying}
+      />
+    </div>
+  );
+};
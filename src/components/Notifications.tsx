@@ -3,17 +3,22 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Bell, Check, X, Clock, AlertCircle, CheckCircle2, Users, Calendar, Plus } from "lucide-react";
+import { Bell, Check, X, Clock, AlertCircle, CheckCircle2, Users, Calendar, Plus, Plane, ArrowLeftRight } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { Profile } from "@/types/database";
+import { Profile, Roster } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { NotificationCreateForm } from "./notifications/NotificationCreateForm";
 import { NotificationDateFilter } from "./notifications/NotificationDateFilter";
+import { describeShift, SHIFT_CLAIM_TYPE_LABELS } from "@/lib/open-shifts";
+import { generateRosterWorkingHours } from "@/lib/roster-timesheets";
+import { approveWorkingHours, describeApprovalResult, rejectWorkingHours } from "@/lib/approval-chains";
+import { notifyPermissionHolders } from "@/lib/notifications";
+import { WorkingHoursRejectDialog } from "./working-hours/WorkingHoursRejectDialog";
 
 interface Notification {
   id: string;
-  type: 'working_hours_pending' | 'roster_pending' | 'payroll_due' | 'system' | 'custom';
+  type: 'working_hours_pending' | 'roster_pending' | 'payroll_due' | 'leave_request' | 'shift_claim' | 'timesheet_submission' | 'system' | 'custom';
   title: string;
   message: string;
   data?: any;
@@ -33,8 +38,9 @@ export const Notifications = () => {
   const [isCreateFormOpen, setIsCreateFormOpen] = useState(false);
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
+  const [rejectingNotification, setRejectingNotification] = useState<Notification | null>(null);
   const { toast } = useToast();
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
 
   useEffect(() => {
     if (user) {
@@ -164,18 +170,237 @@ export const Notifications = () => {
     }
   };
 
+  // Approves or rejects the leave request and lets the requester know the outcome
+  const reviewLeaveRequest = async (notification: Notification, status: 'approved' | 'rejected') => {
+    if (!notification.related_id) return;
+
+    const { data: leave, error } = await supabase
+      .from('leave_requests')
+      .update({
+        status,
+        reviewed_by: user?.id,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', notification.related_id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!leave) throw new Error('This leave request has already been reviewed or cancelled');
+
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert({
+        title: `Leave Request ${status === 'approved' ? 'Approved' : 'Rejected'}`,
+        message: `Your leave from ${leave.start_date} to ${leave.end_date} has been ${status}`,
+        type: 'leave_reviewed',
+        recipient_profile_id: leave.profile_id,
+        sender_profile_id: user?.id,
+        related_id: leave.id,
+        action_type: 'none',
+        priority: status === 'approved' ? 'medium' : 'high'
+      });
+
+    if (notificationError) console.error('Failed to send notification:', notificationError);
+  };
+
+  /**
+   * Approves or rejects an open-shift claim or swap. review_shift_claim re-checks the
+   * roster and that the incoming person is free, then rewrites the team in one go.
+   */
+  const reviewShiftClaim = async (notification: Notification, status: 'approved' | 'rejected') => {
+    if (!notification.related_id) return;
+
+    const { data: claim, error } = await supabase
+      .from('shift_claims')
+      .select(`
+        *,
+        rosters!shift_claims_roster_id_fkey (
+          *,
+          projects!rosters_project_id_fkey (id, name)
+        )
+      `)
+      .eq('id', notification.related_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!claim || claim.status !== 'pending') {
+      throw new Error('This shift request has already been reviewed or withdrawn');
+    }
+
+    const roster = claim.rosters as unknown as Roster;
+
+    const { error: reviewError } = await supabase.rpc('review_shift_claim', {
+      target_claim_id: claim.id,
+      decision: status
+    });
+    if (reviewError) throw reviewError;
+
+    if (status === 'approved' && roster.status === 'confirmed') {
+      await generateRosterWorkingHours([roster.id]);
+    }
+
+    // The requester always hears back; for a swap so does the colleague taking the shift
+    const recipientIds = [...new Set([claim.requested_by, claim.profile_id])];
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert(recipientIds.map(recipient_profile_id => ({
+        title: `${SHIFT_CLAIM_TYPE_LABELS[claim.claim_type]} ${status === 'approved' ? 'Approved' : 'Rejected'}`,
+        message: `The ${claim.claim_type === 'swap' ? 'swap' : 'claim'} for ${describeShift(roster)} has been ${status}`,
+        type: 'shift_claim_reviewed',
+        recipient_profile_id,
+        sender_profile_id: user?.id,
+        related_id: roster.id,
+        action_type: 'none' as const,
+        priority: status === 'approved' ? 'medium' as const : 'high' as const
+      })));
+
+    if (notificationError) console.error('Failed to send notification:', notificationError);
+  };
+
+  // Approves the current approval step of a single working hours entry
+  const approveWorkingHourEntry = async (notification: Notification) => {
+    if (!notification.related_id || !profile) return;
+
+    const { data: entry, error } = await supabase
+      .from('working_hours')
+      .select('id, status, client_id, project_id, approval_chain_id, approval_step')
+      .eq('id', notification.related_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!entry || entry.status !== 'pending') throw new Error('These hours have already been reviewed');
+
+    const result = await approveWorkingHours([entry]);
+    if (result.blocked > 0) throw new Error('These hours are waiting on another approver');
+  };
+
+  /**
+   * Approves or rejects a whole submitted week. Approval applies the current approval
+   * step to every entry; the week is approved once all of them are, otherwise approvers
+   * are notified again for the next step. Rejection returns the entries to draft so the
+   * employee can correct and resubmit.
+   */
+  const reviewTimesheetSubmission = async (notification: Notification, status: 'approved' | 'rejected', reason?: string) => {
+    if (!notification.related_id || !profile) return;
+
+    const { data: current, error: currentError } = await supabase
+      .from('timesheet_submissions')
+      .select('*')
+      .eq('id', notification.related_id)
+      .maybeSingle();
+
+    if (currentError) throw currentError;
+    if (!current || current.status !== 'submitted') throw new Error('This timesheet has already been reviewed');
+
+    const { data: entries, error: entriesError } = await supabase
+      .from('working_hours')
+      .select('id, status, client_id, project_id, approval_chain_id, approval_step')
+      .eq('timesheet_submission_id', current.id)
+      .eq('status', 'pending');
+
+    if (entriesError) throw entriesError;
+
+    if (status === 'approved') {
+      const result = await approveWorkingHours(entries || []);
+      if (result.approved + result.advanced === 0 && result.blocked > 0) {
+        throw new Error('This timesheet is waiting on another approver');
+      }
+
+      if (result.advanced > 0 || result.blocked > 0) {
+        await notifyPermissionHolders('working_hours_approve', {
+          title: 'Timesheet Awaiting Next Approval',
+          message: `The timesheet for the week of ${current.week_start} (${current.total_hours}h) needs the next approval step: ${describeApprovalResult(result)}`,
+          type: 'timesheet_submission',
+          sender_profile_id: user?.id,
+          related_id: current.id,
+          action_type: 'approve',
+          priority: 'medium'
+        });
+        return;
+      }
+    } else {
+      await rejectWorkingHours(entries || [], reason || 'Rejected');
+
+      const { error: draftError } = await supabase
+        .from('working_hours')
+        .update({ status: 'draft', timesheet_submission_id: null })
+        .eq('timesheet_submission_id', current.id)
+        .eq('status', 'rejected');
+
+      if (draftError) throw draftError;
+    }
+
+    const { data: submission, error } = await supabase
+      .from('timesheet_submissions')
+      .update({
+        status,
+        reviewed_by: user?.id,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', current.id)
+      .eq('status', 'submitted')
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!submission) throw new Error('This timesheet has already been reviewed');
+
+    const { error: notificationError } = await supabase
+      .from('notifications')
+      .insert({
+        title: `Timesheet ${status === 'approved' ? 'Approved' : 'Rejected'}`,
+        message: status === 'approved'
+          ? `Your timesheet for the week of ${submission.week_start} has been approved`
+          : `Your timesheet for the week of ${submission.week_start} has been rejected: ${reason}. Please correct it and submit again`,
+        type: 'timesheet_reviewed',
+        recipient_profile_id: submission.profile_id,
+        sender_profile_id: user?.id,
+        related_id: submission.id,
+        action_type: 'none',
+        priority: status === 'approved' ? 'medium' : 'high'
+      });
+
+    if (notificationError) console.error('Failed to send notification:', notificationError);
+  };
+
+  const markAsActioned = async (notificationId: string) => {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ 
+        is_actioned: true,
+        is_read: true,
+        actioned_at: new Date().toISOString(),
+        read_at: new Date().toISOString()
+      })
+      .eq('id', notificationId);
+
+    if (error) throw error;
+
+    setNotifications(prev => 
+      prev.map(n => 
+        n.id === notificationId 
+          ? { ...n, is_actioned: true, read: true } 
+          : n
+      )
+    );
+  };
+
   const executeAction = async (notification: Notification) => {
     try {
       let updateData: any = {};
 
       switch (notification.action_type) {
         case 'approve':
-          if (notification.type === 'working_hours_pending' && notification.related_id) {
-            const { error } = await supabase
-              .from('working_hours')
-              .update({ status: 'approved' })
-              .eq('id', notification.related_id);
-            if (error) throw error;
+          if (notification.type === 'working_hours_pending') {
+            await approveWorkingHourEntry(notification);
+          } else if (notification.type === 'leave_request') {
+            await reviewLeaveRequest(notification, 'approved');
+          } else if (notification.type === 'shift_claim') {
+            await reviewShiftClaim(notification, 'approved');
+          } else if (notification.type === 'timesheet_submission') {
+            await reviewTimesheetSubmission(notification, 'approved');
           }
           break;
         
@@ -186,30 +411,12 @@ export const Notifications = () => {
               .update({ status: 'confirmed' })
               .eq('id', notification.related_id);
             if (error) throw error;
+            await generateRosterWorkingHours([notification.related_id]);
           }
           break;
       }
 
-      // Mark notification as actioned
-      const { error } = await supabase
-        .from('notifications')
-        .update({ 
-          is_actioned: true,
-          is_read: true,
-          actioned_at: new Date().toISOString(),
-          read_at: new Date().toISOString()
-        })
-        .eq('id', notification.id);
-
-      if (error) throw error;
-
-      setNotifications(prev => 
-        prev.map(n => 
-          n.id === notification.id 
-            ? { ...n, is_actioned: true, read: true } 
-            : n
-        )
-      );
+      await markAsActioned(notification.id);
 
       toast({ 
         title: "Success", 
@@ -225,14 +432,49 @@ export const Notifications = () => {
     }
   };
 
+  const rejectAction = async (notification: Notification, reason?: string) => {
+    try {
+      if (notification.type === 'leave_request') {
+        await reviewLeaveRequest(notification, 'rejected');
+      } else if (notification.type === 'shift_claim') {
+        await reviewShiftClaim(notification, 'rejected');
+      } else if (notification.type === 'timesheet_submission') {
+        await reviewTimesheetSubmission(notification, 'rejected', reason);
+      }
+
+      await markAsActioned(notification.id);
+
+      toast({ 
+        title: "Success", 
+        description: "Request rejected" 
+      });
+    } catch (error) {
+      console.error('Error rejecting request:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reject request",
+        variant: "destructive"
+      });
+    }
+  };
+
   const getNotificationIcon = (type: string, priority: string) => {
     switch (type) {
       case 'working_hours_pending':
+      case 'timesheet_submission':
+      case 'timesheet_reviewed':
         return <Clock className="h-5 w-5 text-orange-600" />;
       case 'roster_pending':
         return <Calendar className="h-5 w-5 text-blue-600" />;
       case 'payroll_due':
         return <AlertCircle className="h-5 w-5 text-red-600" />;
+      case 'leave_request':
+      case 'leave_reviewed':
+        return <Plane className="h-5 w-5 text-green-600" />;
+      case 'shift_claim':
+      case 'shift_claim_reviewed':
+      case 'shift_swap_proposed':
+        return <ArrowLeftRight className="h-5 w-5 text-indigo-600" />;
       default:
         return <Bell className="h-5 w-5 text-gray-600" />;
     }
@@ -414,6 +656,18 @@ export const Notifications = () => {
                             <Check className="h-4 w-4 mr-1" />
                             {notification.action_type.charAt(0).toUpperCase() + notification.action_type.slice(1)}
                           </Button>
+                          {['leave_request', 'shift_claim', 'timesheet_submission'].includes(notification.type) && (
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => notification.type === 'timesheet_submission'
+                                ? setRejectingNotification(notification)
+                                : rejectAction(notification)}
+                            >
+                              <X className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          )}
                           {!notification.read && (
                             <Button
                               size="sm"
@@ -453,6 +707,16 @@ export const Notifications = () => {
         onSuccess={fetchNotifications}
         currentUserId={user?.id || ""}
       />
+
+      <WorkingHoursRejectDialog
+        isOpen={!!rejectingNotification}
+        description={rejectingNotification?.message || ''}
+        onClose={() => setRejectingNotification(null)}
+        onConfirm={async (reason) => {
+          if (rejectingNotification) await rejectAction(rejectingNotification, reason);
+          setRejectingNotification(null);
+        }}
+      />
     </div>
   );
 };
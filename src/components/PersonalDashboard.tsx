@@ -6,6 +6,11 @@ import { Input } from "@/components/ui/input";
 import { Clock, Calendar, DollarSign, CheckCircle, AlertCircle, TrendingUp, CalendarRange } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { toDateString, todayString } from "@/lib/time";
+import { OpenShiftsCard } from "@/components/shifts/OpenShiftsCard";
+import { ClockInCard } from "@/components/shifts/ClockInCard";
+import { KioskPinCard } from "@/components/kiosk/KioskPinCard";
+import { WeeklyTimesheet } from "@/components/working-hours/WeeklyTimesheet";
 
 export const PersonalDashboard = () => {
   const { profile } = useAuth();
@@ -36,8 +41,8 @@ export const PersonalDashboard = () => {
     const sundayDate = new Date(mondayDate);
     sundayDate.setDate(mondayDate.getDate() + 6);
     
-    setStartDate(mondayDate.toISOString().split('T')[0]);
-    setEndDate(sundayDate.toISOString().split('T')[0]);
+    setStartDate(toDateString(mondayDate));
+    setEndDate(toDateString(sundayDate));
   }, []);
 
   useEffect(() => {
@@ -101,8 +106,8 @@ export const PersonalDashboard = () => {
         }
     }
     
-    setStartDate(start.toISOString().split('T')[0]);
-    setEndDate(end.toISOString().split('T')[0]);
+    setStartDate(toDateString(start));
+    setEndDate(toDateString(end));
   };
 
   const generateShortcutOptions = () => {
@@ -148,12 +153,11 @@ export const PersonalDashboard = () => {
         .lte('date', endDateStr);
 
       // Fetch today's schedule
-      const todayString = new Date().toISOString().split('T')[0];
       const { data: todaySchedule } = await supabase
         .from('working_hours')
         .select('id')
         .eq('profile_id', profile.id)
-        .eq('date', todayString);
+        .eq('date', todayString());
 
       // Use profile hourly rate or default
       const hourlyRate = (profile as any).hourly_rate || 25;
@@ -234,8 +238,8 @@ export const PersonalDashboard = () => {
           clients!working_hours_client_id_fkey(company)
         `)
         .eq('profile_id', profile.id)
-        .gte('date', tomorrow.toISOString().split('T')[0])
-        .lte('date', nextWeek.toISOString().split('T')[0])
+        .gte('date', toDateString(tomorrow))
+        .lte('date', toDateString(nextWeek))
         .order('date', { ascending: true })
         .limit(5);
 
@@ -334,6 +338,8 @@ export const PersonalDashboard = () => {
         </div>
       </div>
 
+      <ClockInCard />
+
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
         {personalDashboardStats.map((stat) => {
           const Icon = stat.icon;
@@ -354,6 +360,8 @@ export const PersonalDashboard = () => {
         })}
       </div>
 
+      <WeeklyTimesheet />
+
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 md:gap-6">
         <Card>
           <CardHeader>
@@ -412,6 +420,10 @@ export const PersonalDashboard = () => {
           </CardContent>
         </Card>
       </div>
+
+      <OpenShiftsCard />
+
+      <KioskPinCard />
     </div>
   );
 };
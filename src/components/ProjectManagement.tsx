@@ -7,11 +7,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Search, Edit, Trash2, FolderOpen } from "lucide-react";
+import { Plus, Search, Edit, Trash2, FolderOpen, MapPin, TrendingDown } from "lucide-react";
 import { ActionDropdown, ActionItem } from "@/components/ui/action-dropdown";
 import { supabase } from "@/integrations/supabase/client";
 import { Project, Client } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
+import { getCurrentPosition } from "@/lib/geofence";
+import { checkProjectBudgetAlerts } from "@/lib/project-budgets";
+import { ProjectFinancialsDialog } from "@/components/projects/ProjectFinancialsDialog";
 import {
   Table,
   TableBody,
@@ -28,6 +31,8 @@ export const ProjectManagement = () => {
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [financialsProject, setFinancialsProject] = useState<Project | null>(null);
   const { toast } = useToast();
 
   const [formData, setFormData] = useState({
@@ -37,7 +42,10 @@ export const ProjectManagement = () => {
     status: "active" as "active" | "completed" | "on-hold",
     start_date: "",
     end_date: "",
-    budget: 0
+    budget: 0,
+    site_latitude: "",
+    site_longitude: "",
+    site_radius_meters: 200
   });
 
   useEffect(() => {
@@ -95,7 +103,9 @@ export const ProjectManagement = () => {
     try {
       const projectData = {
         ...formData,
-        end_date: formData.end_date || null
+        end_date: formData.end_date || null,
+        site_latitude: formData.site_latitude ? parseFloat(formData.site_latitude) : null,
+        site_longitude: formData.site_longitude ? parseFloat(formData.site_longitude) : null
       };
 
       if (editingProject) {
@@ -106,6 +116,11 @@ export const ProjectManagement = () => {
 
         if (error) throw error;
         toast({ title: "Success", description: "Project updated successfully" });
+
+        // A budget change can cross an alert threshold either way
+        if (editingProject.budget !== formData.budget) {
+          checkProjectBudgetAlerts([editingProject.id]).catch(error => console.error('Error checking budget alerts:', error));
+        }
       } else {
         const { error } = await supabase
           .from('projects')
@@ -117,7 +132,7 @@ export const ProjectManagement = () => {
 
       setIsDialogOpen(false);
       setEditingProject(null);
-      setFormData({ name: "", description: "", client_id: "", status: "active", start_date: "", end_date: "", budget: 0 });
+      setFormData({ name: "", description: "", client_id: "", status: "active", start_date: "", end_date: "", budget: 0, site_latitude: "", site_longitude: "", site_radius_meters: 200 });
       fetchProjects();
     } catch (error) {
       console.error('Error saving project:', error);
@@ -131,6 +146,22 @@ export const ProjectManagement = () => {
     }
   };
 
+  const fillCurrentLocation = async () => {
+    setLocating(true);
+    const position = await getCurrentPosition();
+    setLocating(false);
+
+    if (!position) {
+      toast({ title: "Error", description: "Could not get your location", variant: "destructive" });
+      return;
+    }
+    setFormData({
+      ...formData,
+      site_latitude: position.latitude.toFixed(6),
+      site_longitude: position.longitude.toFixed(6)
+    });
+  };
+
   const handleEdit = (project: Project) => {
     setEditingProject(project);
     setFormData({
@@ -140,7 +171,10 @@ export const ProjectManagement = () => {
       status: project.status,
       start_date: project.start_date,
       end_date: project.end_date || "",
-      budget: project.budget
+      budget: project.budget,
+      site_latitude: project.site_latitude?.toString() || "",
+      site_longitude: project.site_longitude?.toString() || "",
+      site_radius_meters: project.site_radius_meters || 200
     });
     setIsDialogOpen(true);
   };
@@ -187,6 +221,11 @@ export const ProjectManagement = () => {
   };
 
   const getActionItems = (project: Project): ActionItem[] => [
+    {
+      label: "Budget",
+      onClick: () => setFinancialsProject(project),
+      icon: <TrendingDown className="h-4 w-4" />
+    },
     {
       label: "Edit",
       onClick: () => handleEdit(project),
@@ -212,7 +251,7 @@ export const ProjectManagement = () => {
           <DialogTrigger asChild>
             <Button className="flex items-center gap-2 w-full sm:w-auto" onClick={() => {
               setEditingProject(null);
-              setFormData({ name: "", description: "", client_id: "", status: "active", start_date: "", end_date: "", budget: 0 });
+              setFormData({ name: "", description: "", client_id: "", status: "active", start_date: "", end_date: "", budget: 0, site_latitude: "", site_longitude: "", site_radius_meters: 200 });
             }}>
               <Plus className="h-4 w-4" />
               Add Project
@@ -301,6 +340,54 @@ export const ProjectManagement = () => {
                   </Select>
                 </div>
               </div>
+              <div className="border rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label className="flex items-center gap-2">
+                    <MapPin className="h-4 w-4" />
+                    Site Location
+                  </Label>
+                  <Button type="button" variant="outline" size="sm" onClick={fillCurrentLocation} disabled={locating}>
+                    {locating ? "Locating..." : "Use my location"}
+                  </Button>
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="site_latitude">Latitude</Label>
+                    <Input
+                      id="site_latitude"
+                      type="number"
+                      step="0.000001"
+                      min="-90"
+                      max="90"
+                      value={formData.site_latitude}
+                      onChange={(e) => setFormData({ ...formData, site_latitude: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="site_longitude">Longitude</Label>
+                    <Input
+                      id="site_longitude"
+                      type="number"
+                      step="0.000001"
+                      min="-180"
+                      max="180"
+                      value={formData.site_longitude}
+                      onChange={(e) => setFormData({ ...formData, site_longitude: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="site_radius_meters">Radius (m)</Label>
+                    <Input
+                      id="site_radius_meters"
+                      type="number"
+                      min="1"
+                      value={formData.site_radius_meters}
+                      onChange={(e) => setFormData({ ...formData, site_radius_meters: parseInt(e.target.value) || 200 })}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">Clock-ins further than the radius from the site are flagged. Leave empty to skip the check.</p>
+              </div>
               <Button type="submit" disabled={loading} className="w-full">
                 {loading ? "Saving..." : editingProject ? "Update Project" : "Add Project"}
               </Button>
@@ -454,6 +541,12 @@ export const ProjectManagement = () => {
           </div>
         </CardContent>
       </Card>
+
+      <ProjectFinancialsDialog
+        project={financialsProject}
+        isOpen={!!financialsProject}
+        onClose={() => setFinancialsProject(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,353 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PartyPopper, Plus, Trash2, Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { PublicHoliday } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  describeHolidayRegion,
+  fetchClientRegions,
+  fetchPublicHolidays,
+  ImportedHoliday,
+  parseIcsHolidays
+} from "@/lib/holidays";
+
+// Select value for holidays that apply to every region
+const ALL_REGIONS = "__all__";
+
+const emptyForm = () => ({ date: "", name: "", region: "" });
+
+export const PublicHolidays = () => {
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [clientRegions, setClientRegions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [regionFilter, setRegionFilter] = useState("all");
+  const [formData, setFormData] = useState(emptyForm());
+  const [importRegion, setImportRegion] = useState("");
+  const [importFileName, setImportFileName] = useState("");
+  const [imported, setImported] = useState<ImportedHoliday[]>([]);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    fetchClientRegions()
+      .then(regions => setClientRegions(Object.values(regions).filter(Boolean) as string[]))
+      .catch(error => console.error('Error fetching client regions:', error));
+  }, []);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [year]);
+
+  const fetchHolidays = async () => {
+    setLoading(true);
+    try {
+      setHolidays(await fetchPublicHolidays(`${year}-01-01`, `${year}-12-31`));
+    } catch (error) {
+      console.error('Error fetching public holidays:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch public holidays",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const regions = [...new Set([
+    ...clientRegions,
+    ...holidays.map(holiday => holiday.region).filter(Boolean) as string[]
+  ])].sort();
+
+  const saveHolidays = async (rows: ImportedHoliday[], region: string) => {
+    const { data, error } = await supabase
+      .from('public_holidays')
+      .upsert(
+        rows.map(row => ({ ...row, region: region.trim() || null, created_by: user?.id })),
+        { onConflict: 'region,date', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (error) throw error;
+    return data?.length || 0;
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.date || !formData.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const added = await saveHolidays([{ date: formData.date, name: formData.name.trim() }], formData.region);
+      toast({
+        title: added ? "Success" : "Already in calendar",
+        description: added ? "Public holiday added" : "That region already has a holiday on this date"
+      });
+      setFormData(emptyForm());
+      fetchHolidays();
+    } catch (error) {
+      console.error('Error adding public holiday:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add public holiday",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const parsed = parseIcsHolidays(await file.text());
+    setImportFileName(file.name);
+    setImported(parsed);
+    if (parsed.length === 0) {
+      toast({
+        title: "Nothing to import",
+        description: "No dated events were found in that file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    setSaving(true);
+    try {
+      const added = await saveHolidays(imported, importRegion);
+      toast({
+        title: "Success",
+        description: `Imported ${added} of ${imported.length} holidays; the rest were already in the calendar`
+      });
+      setImported([]);
+      setImportFileName("");
+      fetchHolidays();
+    } catch (error) {
+      console.error('Error importing public holidays:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import public holidays",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (holiday: PublicHoliday) => {
+    if (!confirm(`Delete ${holiday.name} (${describeHolidayRegion(holiday.region)})?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('public_holidays')
+        .delete()
+        .eq('id', holiday.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Public holiday deleted" });
+      fetchHolidays();
+    } catch (error) {
+      console.error('Error deleting public holiday:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete public holiday",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const filteredHolidays = holidays.filter(holiday =>
+    regionFilter === 'all'
+    || (regionFilter === ALL_REGIONS ? !holiday.region : holiday.region === regionFilter));
+
+  const currentYear = new Date().getFullYear();
+  const years = [currentYear - 1, currentYear, currentYear + 1, currentYear + 2];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <PartyPopper className="h-8 w-8 text-blue-600" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Public Holidays</h1>
+          <p className="text-gray-600">Holiday calendars used for rosters, timesheets and holiday pay rates</p>
+        </div>
+      </div>
+
+      <datalist id="holiday-regions">
+        {regions.map(region => <option key={region} value={region} />)}
+      </datalist>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              Add Holiday
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleAdd} className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="holiday_date">Date</Label>
+                  <Input
+                    id="holiday_date"
+                    type="date"
+                    value={formData.date}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="holiday_region">Region</Label>
+                  <Input
+                    id="holiday_region"
+                    list="holiday-regions"
+                    value={formData.region}
+                    onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+                    placeholder="Blank for all regions"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="holiday_name">Name</Label>
+                <Input
+                  id="holiday_name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Labour Day"
+                  required
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : "Add Holiday"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              Import Calendar
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Import an .ics file, such as a government holiday feed. Days already in the region's calendar are skipped.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="import_file">Calendar file</Label>
+                <Input id="import_file" type="file" accept=".ics,text/calendar" onChange={handleFileChange} />
+              </div>
+              <div>
+                <Label htmlFor="import_region">Region</Label>
+                <Input
+                  id="import_region"
+                  list="holiday-regions"
+                  value={importRegion}
+                  onChange={(e) => setImportRegion(e.target.value)}
+                  placeholder="Blank for all regions"
+                />
+              </div>
+            </div>
+            {imported.length > 0 && (
+              <div className="space-y-2">
+                <div className="text-sm font-medium text-gray-900">
+                  {imported.length} holidays in {importFileName}
+                </div>
+                <div className="max-h-40 overflow-y-auto border rounded-lg divide-y text-sm">
+                  {imported.map(holiday => (
+                    <div key={`${holiday.date}|${holiday.name}`} className="flex justify-between px-3 py-1">
+                      <span>{holiday.name}</span>
+                      <span className="text-gray-600">{format(parseISO(holiday.date), 'EEE dd MMM yyyy')}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setImported([])}>Cancel</Button>
+                  <Button onClick={handleImport} disabled={saving}>
+                    {saving ? "Importing..." : `Import to ${describeHolidayRegion(importRegion.trim())}`}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <CardTitle>Calendar</CardTitle>
+            <div className="flex gap-2">
+              <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {years.map(option => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={regionFilter} onValueChange={setRegionFilter}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Every calendar</SelectItem>
+                  <SelectItem value={ALL_REGIONS}>All regions only</SelectItem>
+                  {regions.map(region => (
+                    <SelectItem key={region} value={region}>{region}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : filteredHolidays.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No public holidays in {year}</div>
+          ) : (
+            <div className="divide-y">
+              {filteredHolidays.map(holiday => (
+                <div key={holiday.id} className="flex items-center justify-between gap-2 py-2">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="w-28 shrink-0 text-sm text-gray-600">
+                      {format(parseISO(holiday.date), 'EEE dd MMM')}
+                    </span>
+                    <span className="font-medium text-gray-900 truncate">{holiday.name}</span>
+                    <Badge variant="outline" className="shrink-0">{describeHolidayRegion(holiday.region)}</Badge>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(holiday)} className="text-red-600">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
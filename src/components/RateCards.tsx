@@ -0,0 +1,518 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BadgeDollarSign, Plus, Search, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Client, Profile, Project, RateCard, UserRole } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { toDateString } from "@/lib/time";
+import {
+  describeRateSource,
+  fetchRateCards,
+  getRateCardLevel,
+  isRateCardEffective,
+  RATE_LEVEL_LABELS,
+  RateLevel,
+  resolveRates
+} from "@/lib/rate-cards";
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Administrator",
+  employee: "Employee",
+  accountant: "Accountant",
+  operation: "Operations",
+  sales_manager: "Sales Manager"
+};
+
+const CARD_LEVEL_OPTIONS: Exclude<RateLevel, 'profile_default'>[] = ['profile_project', 'project_role', 'client'];
+
+const emptyForm = () => ({
+  level: 'client' as Exclude<RateLevel, 'profile_default'>,
+  client_id: "",
+  project_id: "",
+  profile_id: "",
+  role: "" as UserRole | "",
+  pay_rate: "",
+  bill_rate: "",
+  effective_from: toDateString(new Date()),
+  effective_to: "",
+  notes: ""
+});
+
+const optionalNumber = (value: string) => value.trim() ? parseFloat(value) : null;
+
+const formatRate = (rate?: number | null) => rate != null ? `$${Number(rate).toFixed(2)}/hr` : '—';
+
+export const RateCards = () => {
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [clientFilter, setClientFilter] = useState("all");
+  const [formData, setFormData] = useState(emptyForm());
+  const [lookup, setLookup] = useState({ profile_id: "", project_id: "", date: toDateString(new Date()) });
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    fetchOptions();
+    fetchCards();
+  }, []);
+
+  const fetchOptions = async () => {
+    try {
+      const [clientsResult, projectsResult, profilesResult] = await Promise.all([
+        supabase.from('clients').select('*').order('company'),
+        supabase.from('projects').select('*').order('name'),
+        supabase.from('profiles').select('*').eq('is_active', true).order('full_name')
+      ]);
+
+      if (clientsResult.error) throw clientsResult.error;
+      if (projectsResult.error) throw projectsResult.error;
+      if (profilesResult.error) throw profilesResult.error;
+
+      setClients((clientsResult.data || []) as Client[]);
+      setProjects((projectsResult.data || []) as Project[]);
+      setProfiles((profilesResult.data || []) as Profile[]);
+    } catch (error) {
+      console.error('Error fetching rate card options:', error);
+    }
+  };
+
+  const fetchCards = async () => {
+    setLoading(true);
+    try {
+      setRateCards(await fetchRateCards());
+    } catch (error) {
+      console.error('Error fetching rate cards:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch rate cards",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clientName = (id?: string) => clients.find(c => c.id === id)?.company || 'Unknown client';
+  const projectName = (id?: string) => projects.find(p => p.id === id)?.name || 'Unknown project';
+  const profileName = (id?: string) => profiles.find(p => p.id === id)?.full_name || 'Unknown employee';
+
+  const describeScope = (card: RateCard) => {
+    switch (getRateCardLevel(card)) {
+      case 'profile_project':
+        return `${profileName(card.profile_id)} on ${projectName(card.project_id)}`;
+      case 'project_role':
+        return `${card.role ? ROLE_LABELS[card.role] : 'Role'}s on ${projectName(card.project_id)}`;
+      default:
+        return `All work for ${clientName(card.client_id)}`;
+    }
+  };
+
+  const describeDates = (card: RateCard) =>
+    `${format(parseISO(card.effective_from), 'dd MMM yyyy')} – ${card.effective_to ? format(parseISO(card.effective_to), 'dd MMM yyyy') : 'ongoing'}`;
+
+  const cardStatus = (card: RateCard) => {
+    const today = toDateString(new Date());
+    if (isRateCardEffective(card, today)) return { label: 'Current', className: 'bg-green-100 text-green-800' };
+    if (card.effective_from > today) return { label: 'Upcoming', className: 'bg-blue-100 text-blue-800' };
+    return { label: 'Ended', className: 'bg-gray-100 text-gray-600' };
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const needsProject = formData.level !== 'client';
+    const payRate = optionalNumber(formData.pay_rate);
+    const billRate = optionalNumber(formData.bill_rate);
+
+    const problem = !formData.client_id ? "Choose a client"
+      : needsProject && !formData.project_id ? "Choose a project"
+      : formData.level === 'profile_project' && !formData.profile_id ? "Choose an employee"
+      : formData.level === 'project_role' && !formData.role ? "Choose a role"
+      : payRate === null && billRate === null ? "Enter a pay rate, a bill rate or both"
+      : formData.effective_to && formData.effective_to < formData.effective_from ? "The end date is before the start date"
+      : null;
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('rate_cards')
+        .insert({
+          client_id: formData.client_id,
+          project_id: needsProject ? formData.project_id : null,
+          profile_id: formData.level === 'profile_project' ? formData.profile_id : null,
+          role: formData.level === 'project_role' ? formData.role as UserRole : null,
+          pay_rate: payRate,
+          bill_rate: billRate,
+          effective_from: formData.effective_from,
+          effective_to: formData.effective_to || null,
+          notes: formData.notes.trim() || null,
+          created_by: user?.id
+        });
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Rate card saved" });
+      setFormData(emptyForm());
+      fetchCards();
+    } catch (error) {
+      console.error('Error saving rate card:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save rate card",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (card: RateCard) => {
+    if (!confirm(`Delete the rate card for ${describeScope(card)}? Hours already saved keep their rates.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('rate_cards')
+        .delete()
+        .eq('id', card.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Rate card deleted" });
+      fetchCards();
+    } catch (error) {
+      console.error('Error deleting rate card:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete rate card",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const filteredCards = rateCards
+    .filter(card => clientFilter === 'all' || card.client_id === clientFilter)
+    .sort((a, b) =>
+      clientName(a.client_id).localeCompare(clientName(b.client_id))
+      || CARD_LEVEL_OPTIONS.indexOf(getRateCardLevel(a) as typeof CARD_LEVEL_OPTIONS[number])
+        - CARD_LEVEL_OPTIONS.indexOf(getRateCardLevel(b) as typeof CARD_LEVEL_OPTIONS[number])
+      || b.effective_from.localeCompare(a.effective_from));
+
+  const formProjects = projects.filter(p => p.client_id === formData.client_id);
+
+  const lookupProfile = profiles.find(p => p.id === lookup.profile_id);
+  const lookupProject = projects.find(p => p.id === lookup.project_id);
+  const lookupRates = lookupProfile && lookupProject
+    ? resolveRates(
+        rateCards,
+        { profile_id: lookupProfile.id, role: lookupProfile.role, client_id: lookupProject.client_id, project_id: lookupProject.id, date: lookup.date },
+        lookupProfile
+      )
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <BadgeDollarSign className="h-8 w-8 text-blue-600" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Rate Cards</h1>
+          <p className="text-gray-600">Pay and bill rates by client, project, role and employee</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              Add Rate Card
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>Applies to</Label>
+                  <Select
+                    value={formData.level}
+                    onValueChange={(value) => setFormData({ ...formData, level: value as typeof formData.level })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CARD_LEVEL_OPTIONS.map(level => (
+                        <SelectItem key={level} value={level}>{RATE_LEVEL_LABELS[level]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Client</Label>
+                  <Select
+                    value={formData.client_id}
+                    onValueChange={(value) => setFormData({ ...formData, client_id: value, project_id: "" })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select client" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {clients.map(client => (
+                        <SelectItem key={client.id} value={client.id}>{client.company}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {formData.level !== 'client' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label>Project</Label>
+                    <Select
+                      value={formData.project_id}
+                      onValueChange={(value) => setFormData({ ...formData, project_id: value })}
+                      disabled={!formData.client_id}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select project" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {formProjects.map(project => (
+                          <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {formData.level === 'profile_project' ? (
+                    <div>
+                      <Label>Employee</Label>
+                      <Select
+                        value={formData.profile_id}
+                        onValueChange={(value) => setFormData({ ...formData, profile_id: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select employee" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {profiles.map(profile => (
+                            <SelectItem key={profile.id} value={profile.id}>{profile.full_name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <div>
+                      <Label>Role</Label>
+                      <Select
+                        value={formData.role}
+                        onValueChange={(value) => setFormData({ ...formData, role: value as UserRole })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select role" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="rate_pay">Pay rate ($/hr)</Label>
+                  <Input
+                    id="rate_pay"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.pay_rate}
+                    onChange={(e) => setFormData({ ...formData, pay_rate: e.target.value })}
+                    placeholder="Not set"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rate_bill">Bill rate ($/hr)</Label>
+                  <Input
+                    id="rate_bill"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.bill_rate}
+                    onChange={(e) => setFormData({ ...formData, bill_rate: e.target.value })}
+                    placeholder="Not set"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="rate_from">Effective from</Label>
+                  <Input
+                    id="rate_from"
+                    type="date"
+                    value={formData.effective_from}
+                    onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="rate_to">Effective to</Label>
+                  <Input
+                    id="rate_to"
+                    type="date"
+                    value={formData.effective_to}
+                    onChange={(e) => setFormData({ ...formData, effective_to: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="rate_notes">Notes</Label>
+                <Input
+                  id="rate_notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  placeholder="e.g. 2026 contract rates"
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : "Save Rate Card"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Search className="h-5 w-5" />
+              Rate Lookup
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-600">
+              The most specific card in effect on the day sets each rate: the employee on the project, then their
+              role on the project, then the client. Without a card the employee's own hourly rate is paid and
+              nothing is billed. A newer card replaces an older one at the same level from its start date.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <Select value={lookup.profile_id} onValueChange={(value) => setLookup({ ...lookup, profile_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Employee" />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map(profile => (
+                    <SelectItem key={profile.id} value={profile.id}>{profile.full_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={lookup.project_id} onValueChange={(value) => setLookup({ ...lookup, project_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="date"
+                value={lookup.date}
+                onChange={(e) => setLookup({ ...lookup, date: e.target.value })}
+              />
+            </div>
+            {lookupRates && (
+              <div className="border rounded-lg divide-y text-sm">
+                <div className="flex justify-between px-3 py-2">
+                  <span className="text-gray-600">Pay</span>
+                  <span className="text-right">
+                    <span className="font-medium">{formatRate(lookupRates.pay?.rate)}</span>
+                    {lookupRates.pay && <div className="text-xs text-gray-500">{describeRateSource(lookupRates.pay)}</div>}
+                  </span>
+                </div>
+                <div className="flex justify-between px-3 py-2">
+                  <span className="text-gray-600">Bill</span>
+                  <span className="text-right">
+                    <span className="font-medium">{formatRate(lookupRates.bill?.rate)}</span>
+                    {lookupRates.bill && <div className="text-xs text-gray-500">{describeRateSource(lookupRates.bill)}</div>}
+                  </span>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <CardTitle>Rate Cards</CardTitle>
+            <Select value={clientFilter} onValueChange={setClientFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All clients</SelectItem>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={client.id}>{client.company}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : filteredCards.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No rate cards</div>
+          ) : (
+            <div className="divide-y">
+              {filteredCards.map(card => {
+                const status = cardStatus(card);
+                return (
+                  <div key={card.id} className="flex items-center justify-between gap-2 py-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium text-gray-900">{describeScope(card)}</span>
+                        <Badge variant="outline">{RATE_LEVEL_LABELS[getRateCardLevel(card)]}</Badge>
+                        <Badge className={status.className}>{status.label}</Badge>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        Pay {formatRate(card.pay_rate)} • Bill {formatRate(card.bill_rate)} • {describeDates(card)}
+                      </div>
+                      {card.notes && <div className="text-xs text-gray-500">{card.notes}</div>}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(card)} className="text-red-600">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
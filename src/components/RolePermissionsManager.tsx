@@ -9,7 +9,7 @@ import { Badge } from "@/components/ui/badge";
 import { Save, RotateCcw } from "lucide-react";
 
 type Role = 'admin' | 'employee' | 'accountant' | 'operation' | 'sales_manager';
-type Permission = 'dashboard_view' | 'employees_view' | 'employees_manage' | 'clients_view' | 'clients_manage' | 'projects_view' | 'projects_manage' | 'working_hours_view' | 'working_hours_manage' | 'working_hours_approve' | 'roster_view' | 'roster_manage' | 'payroll_view' | 'payroll_manage' | 'payroll_process' | 'bank_balance_view' | 'bank_balance_manage' | 'reports_view' | 'reports_generate' | 'notifications_view';
+type Permission = 'dashboard_view' | 'employees_view' | 'employees_manage' | 'clients_view' | 'clients_manage' | 'projects_view' | 'projects_manage' | 'working_hours_view' | 'working_hours_manage' | 'working_hours_approve' | 'roster_view' | 'roster_manage' | 'payroll_view' | 'payroll_manage' | 'payroll_process' | 'bank_balance_view' | 'bank_balance_manage' | 'reports_view' | 'reports_generate' | 'notifications_view' | 'audit_log_view' | 'public_holidays_manage' | 'rate_cards_manage' | 'invoices_manage' | 'tax_scales_manage' | 'superannuation_manage';
 
 interface RolePermission {
   role: Role;
@@ -50,7 +50,13 @@ export const RolePermissionsManager = () => {
     'bank_balance_manage',
     'reports_view',
     'reports_generate',
-    'notifications_view'
+    'notifications_view',
+    'audit_log_view',
+    'public_holidays_manage',
+    'rate_cards_manage',
+    'invoices_manage',
+    'tax_scales_manage',
+    'superannuation_manage'
   ];
 
   const permissionLabels: Record<Permission, string> = {
@@ -73,7 +79,13 @@ export const RolePermissionsManager = () => {
     bank_balance_manage: "Manage Bank Balance",
     reports_view: "View Reports",
     reports_generate: "Generate Reports",
-    notifications_view: "View Notifications"
+    notifications_view: "View Notifications",
+    audit_log_view: "View Audit Log",
+    public_holidays_manage: "Manage Public Holidays",
+    rate_cards_manage: "Manage Rate Cards",
+    invoices_manage: "Manage Invoices",
+    tax_scales_manage: "Manage Tax Scales",
+    superannuation_manage: "Manage Superannuation"
   };
 
   const roleLabels: Record<Role, string> = {
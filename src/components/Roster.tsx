@@ -14,11 +14,25 @@ import { useToast } from "@/hooks/use-toast";
 import { MultipleProfileSelector } from "@/components/common/MultipleProfileSelector";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { EnhancedRosterCalendarView } from "@/components/roster/EnhancedRosterCalendarView";
+import { RosterBoardView } from "@/components/roster/RosterBoardView";
+import { RosterReconciliation } from "@/components/roster/RosterReconciliation";
 import { RosterWeeklyFilter } from "@/components/roster/RosterWeeklyFilter";
 import { RosterActions } from "@/components/roster/RosterActions";
 import { format, startOfWeek, endOfWeek, isWithinInterval, parseISO } from "date-fns";
 import { RosterEditDialog } from "@/components/roster/RosterEditDialog";
 import { RosterViewDialog } from "@/components/roster/RosterViewDialog";
+import { RosterRecurrenceFields } from "@/components/roster/RosterRecurrenceFields";
+import { RosterCopyWeekDialog } from "@/components/roster/RosterCopyWeekDialog";
+import { RosterTemplatesDialog } from "@/components/roster/RosterTemplatesDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useRosterConflicts } from "@/hooks/useRosterConflicts";
+import { useFatigueCheck } from "@/hooks/useFatigueCheck";
+import { useStaffAvailability } from "@/hooks/useStaffAvailability";
+import { findProfileUnavailability, isBlockingIssue } from "@/lib/availability";
+import { createDefaultRecurrence, generateOccurrenceDates, recurrenceFromForm } from "@/lib/roster-recurrence";
+import { generateRosterWorkingHours, releaseRosterWorkingHours } from "@/lib/roster-timesheets";
+import { useRateCards } from "@/hooks/useRateCards";
+import { calculateShiftHours, daysBetween, formatTimeRange, shiftDateString } from "@/lib/time";
 
 export const RosterComponent = () => {
   const [searchTerm, setSearchTerm] = useState("");
@@ -31,6 +45,7 @@ export const RosterComponent = () => {
   const [activeTab, setActiveTab] = useState("calendar");
   const [currentWeek, setCurrentWeek] = useState(new Date());
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const generateDefaultRosterName = () => {
     const now = new Date();
@@ -56,17 +71,30 @@ export const RosterComponent = () => {
     end_date: "",
     start_time: "",
     end_time: "",
+    break_minutes: 0,
     notes: "",
     status: "pending",
     name: generateDefaultRosterName(),
     expected_profiles: 1,
     per_hour_rate: 0
   });
+  const { getRates } = useRateCards();
+
+  // Pre-fills the rate from the rate cards for the primary (first selected) profile
+  const withRate = (data: typeof formData) => {
+    const profile = profiles.find(p => p.id === data.profile_ids[0]);
+    const { pay } = getRates({ ...data, profile_id: profile?.id }, profile);
+    return pay ? { ...data, per_hour_rate: pay.rate } : data;
+  };
+
+  const [recurrence, setRecurrence] = useState(createDefaultRecurrence());
 
   const [editingRoster, setEditingRoster] = useState<RosterType | null>(null);
   const [viewingRoster, setViewingRoster] = useState<RosterType | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [isCopyWeekOpen, setIsCopyWeekOpen] = useState(false);
+  const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
 
   useEffect(() => {
     fetchRosters();
@@ -87,7 +115,8 @@ export const RosterComponent = () => {
             id,
             profile_id,
             profiles!roster_profiles_profile_id_fkey (id, full_name, role)
-          )
+          ),
+          roster_series!rosters_series_id_fkey (id, name, frequency, interval, by_weekday, start_date, until_date, occurrence_count, exception_dates)
         `)
         .order('created_at', { ascending: false });
 
@@ -97,7 +126,8 @@ export const RosterComponent = () => {
         ...roster,
         clients: Array.isArray(roster.clients) ? roster.clients[0] : roster.clients,
         projects: Array.isArray(roster.projects) ? roster.projects[0] : roster.projects,
-        roster_profiles: roster.roster_profiles || []
+        roster_profiles: roster.roster_profiles || [],
+        roster_series: roster.roster_series || undefined
       }));
       
       setRosters(rostersData as RosterType[]);
@@ -158,16 +188,31 @@ export const RosterComponent = () => {
     }
   };
 
-  const calculateTotalHours = (startTime: string, endTime: string) => {
-    if (!startTime || !endTime) return 0;
-    
-    const start = new Date(`2000-01-01T${startTime}`);
-    const end = new Date(`2000-01-01T${endTime}`);
-    const diffMs = end.getTime() - start.getTime();
-    const diffHours = diffMs / (1000 * 60 * 60);
-    
-    return Math.max(0, diffHours);
-  };
+  // Every roster the create form would produce, used for conflict checks before saving
+  const durationDays = formData.date && formData.end_date ? Math.max(0, daysBetween(formData.date, formData.end_date)) : 0;
+  const rule = recurrenceFromForm(recurrence, formData.date);
+  const occurrenceDates = rule ? generateOccurrenceDates(rule) : formData.date ? [formData.date] : [];
+  const candidateShifts = occurrenceDates.map(date => ({
+    date,
+    end_date: durationDays > 0 ? shiftDateString(date, durationDays) : null,
+    start_time: formData.start_time,
+    end_time: formData.end_time
+  }));
+
+  const { conflicts } = useRosterConflicts(
+    isDialogOpen ? candidateShifts : [],
+    profiles.map(p => p.id)
+  );
+
+  const { schedule: availabilitySchedule } = useStaffAvailability(isDialogOpen ? candidateShifts : []);
+  const unavailability = findProfileUnavailability(candidateShifts, profiles.map(p => p.id), availabilitySchedule);
+
+  // Fatigue limits only warn; the roster can still be saved
+  const { issues: fatigueIssues } = useFatigueCheck(
+    isDialogOpen ? candidateShifts : [],
+    profiles.map(p => p.id),
+    formData.client_id
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -183,7 +228,27 @@ export const RosterComponent = () => {
         return;
       }
 
-      const totalHours = calculateTotalHours(formData.start_time, formData.end_time);
+      const conflictedProfiles = profiles.filter(p => formData.profile_ids.includes(p.id) && conflicts[p.id]?.length);
+      if (conflictedProfiles.length > 0) {
+        toast({
+          title: "Scheduling conflict",
+          description: `${conflictedProfiles.map(p => p.full_name).join(', ')} already ${conflictedProfiles.length === 1 ? 'has' : 'have'} overlapping shifts or logged hours`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const unavailableProfiles = profiles.filter(p => formData.profile_ids.includes(p.id) && unavailability[p.id]?.some(isBlockingIssue));
+      if (unavailableProfiles.length > 0) {
+        toast({
+          title: "Staff unavailable",
+          description: `${unavailableProfiles.map(p => p.full_name).join(', ')} ${unavailableProfiles.length === 1 ? 'is' : 'are'} on leave or unavailable for these dates`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const totalHours = calculateShiftHours(formData.start_time, formData.end_time, formData.break_minutes);
       const selectedClient = clients.find(c => c.id === formData.client_id);
       const selectedProject = projects.find(p => p.id === formData.project_id);
       
@@ -191,45 +256,79 @@ export const RosterComponent = () => {
         ? `${selectedClient.company} - ${selectedProject.name} (${new Date(formData.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })})`
         : "";
       const finalName = formData.name.trim() || defaultName || generateDefaultRosterName();
-      
-      // Create roster with first profile as primary
-      const { data: roster, error: rosterError } = await supabase
-        .from('rosters')
-        .insert({
-          profile_id: formData.profile_ids[0], // Use first selected profile as primary
+
+      const rosterData = {
+        profile_id: formData.profile_ids[0], // Use first selected profile as primary
+        client_id: formData.client_id,
+        project_id: formData.project_id,
+        start_time: formData.start_time,
+        end_time: formData.end_time,
+        break_minutes: formData.break_minutes,
+        total_hours: totalHours,
+        notes: formData.notes,
+        status: formData.status as 'pending' | 'confirmed' | 'cancelled',
+        name: finalName,
+        expected_profiles: formData.expected_profiles,
+        per_hour_rate: formData.per_hour_rate
+      };
+
+      if (rule && occurrenceDates.length === 0) {
+        toast({
+          title: "Error",
+          description: "The repeat rule does not produce any rosters",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // The series, its rosters and their team are written in one transaction.
+      // Multi-day rosters keep the same span on every occurrence of a series.
+      const { data: createdIds, error: rosterError } = await supabase.rpc('create_rosters', {
+        series_fields: rule ? {
+          name: finalName,
           client_id: formData.client_id,
           project_id: formData.project_id,
-          date: formData.date,
-          end_date: formData.end_date || null,
           start_time: formData.start_time,
           end_time: formData.end_time,
-          total_hours: totalHours,
-          notes: formData.notes,
-          status: formData.status as 'pending' | 'confirmed' | 'cancelled',
-          name: finalName,
+          break_minutes: formData.break_minutes,
+          duration_days: durationDays,
           expected_profiles: formData.expected_profiles,
-          per_hour_rate: formData.per_hour_rate
-        })
-        .select()
-        .single();
+          per_hour_rate: formData.per_hour_rate,
+          notes: formData.notes,
+          profile_ids: formData.profile_ids,
+          frequency: rule.frequency,
+          interval: rule.interval,
+          by_weekday: rule.by_weekday,
+          start_date: rule.start_date,
+          until_date: rule.until_date || null,
+          occurrence_count: rule.occurrence_count || null,
+          exception_dates: rule.exception_dates,
+          created_by: user?.id || null
+        } : null,
+        roster_fields: occurrenceDates.map(date => ({
+          ...rosterData,
+          date,
+          end_date: durationDays > 0 ? shiftDateString(date, durationDays) : formData.end_date || null
+        })),
+        team_profile_ids: formData.profile_ids
+      });
 
       if (rosterError) throw rosterError;
+      const createdRosterIds = createdIds || [];
 
-      // Create roster_profiles entries for all selected profiles
-      const rosterProfilesData = formData.profile_ids.map(profileId => ({
-        roster_id: roster.id,
-        profile_id: profileId
-      }));
-
-      const { error: profilesError } = await supabase
-        .from('roster_profiles')
-        .insert(rosterProfilesData);
-
-      if (profilesError) throw profilesError;
+      if (formData.status === 'confirmed') {
+        await generateRosterWorkingHours(createdRosterIds);
+      }
 
-      toast({ title: "Success", description: "Roster created successfully" });
+      toast({
+        title: "Success",
+        description: createdRosterIds.length > 1
+          ? `${createdRosterIds.length} rosters created in series`
+          : "Roster created successfully"
+      });
       
       setIsDialogOpen(false);
+      setRecurrence(createDefaultRecurrence());
       setFormData({
         profile_ids: [],
         client_id: "",
@@ -238,6 +337,7 @@ export const RosterComponent = () => {
         end_date: "",
         start_time: "",
         end_time: "",
+        break_minutes: 0,
         notes: "",
         status: "pending",
         name: generateDefaultRosterName(),
@@ -265,9 +365,16 @@ export const RosterComponent = () => {
         .eq('id', id);
 
       if (error) throw error;
+
+      // A cancelled shift won't be worked, so its unclocked timesheet rows go with it
+      if (status === 'cancelled') await releaseRosterWorkingHours([id]);
+
+      const generated = status === 'confirmed' ? await generateRosterWorkingHours([id]) : 0;
       toast({ 
         title: "Success", 
-        description: `Roster ${status} successfully` 
+        description: generated > 0
+          ? `Roster confirmed; ${generated} timesheet entr${generated !== 1 ? 'ies' : 'y'} created`
+          : `Roster ${status} successfully` 
       });
       fetchRosters();
     } catch (error) {
@@ -281,17 +388,17 @@ export const RosterComponent = () => {
   };
 
   const deleteRoster = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this roster? This will also delete all associated working hours.')) {
+    if (!confirm('Are you sure you want to delete this roster? Timesheet entries nobody has worked yet will be removed with it.')) {
       return;
     }
 
     try {
-      const { error } = await supabase
-        .from('rosters')
-        .delete()
-        .eq('id', id);
+      // Its placeholder hours go with it, and an occurrence is recorded as an exception on
+      // its series, in the same transaction
+      const { error } = await supabase.rpc('delete_roster', { target_roster_id: id });
 
       if (error) throw error;
+
       toast({ 
         title: "Success", 
         description: "Roster deleted successfully" 
@@ -400,18 +507,21 @@ export const RosterComponent = () => {
                 <MultipleProfileSelector
                   profiles={profiles}
                   selectedProfileIds={formData.profile_ids}
-                  onProfileSelect={(profileIds) => setFormData({ ...formData, profile_ids: profileIds })}
+                  onProfileSelect={(profileIds) => setFormData(withRate({ ...formData, profile_ids: profileIds }))}
                   label="Select Team Members"
                   placeholder="Choose team members"
                   showRoleFilter={true}
                   className="border rounded-lg p-3 bg-gray-50"
+                  conflicts={conflicts}
+                  unavailability={unavailability}
+                  fatigue={fatigueIssues}
                 />
               </div>
               
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="client_id" className="text-sm font-medium">Client</Label>
-                  <Select value={formData.client_id} onValueChange={(value) => setFormData({ ...formData, client_id: value })}>
+                  <Select value={formData.client_id} onValueChange={(value) => setFormData(withRate({ ...formData, client_id: value }))}>
                     <SelectTrigger className="mt-1">
                       <SelectValue placeholder="Select client" />
                     </SelectTrigger>
@@ -427,7 +537,7 @@ export const RosterComponent = () => {
 
                 <div>
                   <Label htmlFor="project_id" className="text-sm font-medium">Project</Label>
-                  <Select value={formData.project_id} onValueChange={(value) => setFormData({ ...formData, project_id: value })}>
+                  <Select value={formData.project_id} onValueChange={(value) => setFormData(withRate({ ...formData, project_id: value }))}>
                     <SelectTrigger className="mt-1">
                       <SelectValue placeholder="Select project" />
                     </SelectTrigger>
@@ -449,7 +559,7 @@ export const RosterComponent = () => {
                     id="date"
                     type="date"
                     value={formData.date}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    onChange={(e) => setFormData(withRate({ ...formData, date: e.target.value }))}
                     required
                     className="mt-1"
                   />
@@ -467,6 +577,12 @@ export const RosterComponent = () => {
                 </div>
               </div>
 
+              <RosterRecurrenceFields
+                value={recurrence}
+                onChange={setRecurrence}
+                startDate={formData.date}
+              />
+
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="start_time" className="text-sm font-medium">Start Time</Label>
@@ -490,6 +606,23 @@ export const RosterComponent = () => {
                     className="mt-1"
                   />
                 </div>
+                <div>
+                  <Label htmlFor="break_minutes" className="text-sm font-medium">Unpaid Break (minutes)</Label>
+                  <Input
+                    id="break_minutes"
+                    type="number"
+                    min="0"
+                    step="5"
+                    value={formData.break_minutes}
+                    onChange={(e) => setFormData({ ...formData, break_minutes: parseInt(e.target.value) || 0 })}
+                    className="mt-1"
+                  />
+                </div>
+                {formData.start_time && formData.end_time && (
+                  <div className="flex items-end text-sm text-gray-600 pb-2">
+                    {formatTimeRange(formData.start_time, formData.end_time)}: {calculateShiftHours(formData.start_time, formData.end_time, formData.break_minutes)}h paid per day
+                  </div>
+                )}
               </div>
 
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -607,9 +740,11 @@ export const RosterComponent = () => {
         </CardHeader>
         <CardContent className="p-4 sm:p-6 pt-0">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-2 mb-4 sm:mb-6">
+            <TabsList className="grid w-full grid-cols-4 mb-4 sm:mb-6">
               <TabsTrigger value="calendar" className="text-sm">Calendar View</TabsTrigger>
+              <TabsTrigger value="board" className="text-sm">Board</TabsTrigger>
               <TabsTrigger value="list" className="text-sm">List View</TabsTrigger>
+              <TabsTrigger value="reconcile" className="text-sm">Reconcile</TabsTrigger>
             </TabsList>
             
             <TabsContent value="calendar" className="mt-4 sm:mt-6">
@@ -620,11 +755,22 @@ export const RosterComponent = () => {
                 onView={handleViewRoster}
               />
             </TabsContent>
+
+            <TabsContent value="board" className="mt-4 sm:mt-6">
+              <RosterBoardView
+                rosters={calendarRosters}
+                profiles={profiles}
+                onUpdate={fetchRosters}
+                onView={handleViewRoster}
+              />
+            </TabsContent>
             
             <TabsContent value="list" className="mt-4 sm:mt-6 space-y-4">
               <RosterWeeklyFilter 
                 currentWeek={currentWeek}
                 onWeekChange={setCurrentWeek}
+                onCopyWeek={() => setIsCopyWeekOpen(true)}
+                onOpenTemplates={() => setIsTemplatesOpen(true)}
               />
               
               {/* Mobile-friendly table */}
@@ -681,7 +827,7 @@ export const RosterComponent = () => {
                               </span>
                             )}
                           </span>
-                          <span>{roster.start_time} - {roster.end_time}</span>
+                          <span>{formatTimeRange(roster.start_time, roster.end_time)}</span>
                         </div>
                       </div>
                     </Card>
@@ -735,7 +881,7 @@ export const RosterComponent = () => {
                           </td>
                           <td className="py-3 px-4 text-gray-600">
                             <div className="text-sm">
-                              {roster.start_time} - {roster.end_time}
+                              {formatTimeRange(roster.start_time, roster.end_time)}
                             </div>
                           </td>
                           <td className="py-3 px-4">
@@ -768,6 +914,10 @@ export const RosterComponent = () => {
                 )}
               </div>
             </TabsContent>
+
+            <TabsContent value="reconcile" className="mt-4 sm:mt-6">
+              <RosterReconciliation rosters={rosters} profiles={profiles} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -793,6 +943,26 @@ export const RosterComponent = () => {
           setViewingRoster(null);
         }}
       />
+
+      <RosterCopyWeekDialog
+        rosters={rosters}
+        currentWeek={currentWeek}
+        profiles={profiles}
+        projects={projects}
+        isOpen={isCopyWeekOpen}
+        onClose={() => setIsCopyWeekOpen(false)}
+        onCopied={fetchRosters}
+      />
+
+      <RosterTemplatesDialog
+        rosters={rosters}
+        currentWeek={currentWeek}
+        profiles={profiles}
+        projects={projects}
+        isOpen={isTemplatesOpen}
+        onClose={() => setIsTemplatesOpen(false)}
+        onApplied={fetchRosters}
+      />
     </div>
   );
 };
@@ -1,16 +1,20 @@
 
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calendar, Clock, Users, DollarSign, Building2, FolderOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar, Clock, Users, DollarSign, Building2, FolderOpen, CalendarCheck } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { Roster as RosterType, Profile, Client, Project, WorkingHour } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
+import { closeRosterDay } from "@/lib/roster-timesheets";
+import { formatTimeRange, todayString } from "@/lib/time";
 
 export const RosterReport = () => {
   const [rosters, setRosters] = useState<RosterType[]>([]);
   const [workingHours, setWorkingHours] = useState<WorkingHour[]>([]);
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState(todayString());
   const [loading, setLoading] = useState(true);
+  const [closing, setClosing] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -74,6 +78,29 @@ export const RosterReport = () => {
     }
   };
 
+  const closeDay = async () => {
+    setClosing(true);
+    try {
+      const created = await closeRosterDay(selectedDate);
+      toast({
+        title: "Success",
+        description: created > 0
+          ? `${created} timesheet entr${created !== 1 ? 'ies' : 'y'} created for ${formatDate(selectedDate)}`
+          : "All rostered hours for this day already have timesheet entries"
+      });
+      fetchWorkingHours();
+    } catch (error) {
+      console.error('Error closing day:', error);
+      toast({
+        title: "Error",
+        description: "Failed to generate timesheet entries",
+        variant: "destructive"
+      });
+    } finally {
+      setClosing(false);
+    }
+  };
+
   const getRosterStats = (roster: RosterType) => {
     const rosterWorkingHours = workingHours.filter(wh => wh.roster_id === roster.id);
     const assignedProfiles = roster.roster_profiles?.length || 0;
@@ -107,13 +134,17 @@ export const RosterReport = () => {
             <p className="text-gray-600">Daily roster overview with detailed insights</p>
           </div>
         </div>
-        <div>
+        <div className="flex items-center gap-2">
           <input
             type="date"
             value={selectedDate}
             onChange={(e) => setSelectedDate(e.target.value)}
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
           />
+          <Button variant="outline" onClick={closeDay} disabled={closing}>
+            <CalendarCheck className="h-4 w-4 mr-2" />
+            {closing ? "Closing..." : "Close Day"}
+          </Button>
         </div>
       </div>
 
@@ -144,7 +175,7 @@ export const RosterReport = () => {
                           <div className="flex items-center gap-2 mt-1">
                             <Clock className="h-4 w-4 text-gray-500" />
                             <span className="text-sm text-gray-600">
-                              {roster.start_time} - {roster.end_time}
+                              {formatTimeRange(roster.start_time, roster.end_time)}
                             </span>
                           </div>
                         </div>
@@ -16,7 +16,14 @@ import {
   Menu,
   Shield,
   User,
-  Calculator
+  Calculator,
+  CalendarCheck,
+  History,
+  PartyPopper,
+  BadgeDollarSign,
+  Receipt,
+  Percent,
+  PiggyBank
 } from "lucide-react";
 
 interface SidebarProps {
@@ -103,6 +110,12 @@ export const Sidebar = ({ activeTab, onTabChange, hasPermission, onCollapsedChan
       icon: Calendar,
       permission: "roster_view"
     },
+    { 
+      id: "availability", 
+      label: "Availability & Leave", 
+      icon: CalendarCheck,
+      permission: null // Everyone manages their own availability
+    },
     { 
       id: "payroll", 
       label: "Payroll", 
@@ -127,12 +140,48 @@ export const Sidebar = ({ activeTab, onTabChange, hasPermission, onCollapsedChan
       icon: FileText,
       permission: "reports_view"
     },
+    { 
+      id: "invoices", 
+      label: "Invoices", 
+      icon: Receipt,
+      permission: "invoices_manage"
+    },
     { 
       id: "bank-balance", 
       label: "Bank Balance", 
       icon: Wallet,
       permission: "bank_balance_view"
     },
+    { 
+      id: "audit-log", 
+      label: "Audit Log", 
+      icon: History,
+      permission: "audit_log_view"
+    },
+    { 
+      id: "public-holidays", 
+      label: "Public Holidays", 
+      icon: PartyPopper,
+      permission: "public_holidays_manage"
+    },
+    { 
+      id: "rate-cards", 
+      label: "Rate Cards", 
+      icon: BadgeDollarSign,
+      permission: "rate_cards_manage"
+    },
+    { 
+      id: "tax-scales", 
+      label: "Tax Scales", 
+      icon: Percent,
+      permission: "tax_scales_manage"
+    },
+    { 
+      id: "superannuation", 
+      label: "Superannuation", 
+      icon: PiggyBank,
+      permission: "superannuation_manage"
+    },
     { 
       id: "permissions", 
       label: "Permissions", 
@@ -0,0 +1,476 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Link, PiggyBank, Plus, Trash2, Unlink } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { BankTransaction, SuperAccrual, SuperGuaranteeRate } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { toDateString } from "@/lib/time";
+import {
+  fetchGuaranteeRates,
+  fetchSuperAccruals,
+  fetchSuperPaymentTransactions,
+  getPreviousSuperQuarter,
+  getSuperPaymentCandidates,
+  getSuperQuarter,
+  matchSuperPayment,
+  resolveGuaranteeRate,
+  summariseSuperQuarter
+} from "@/lib/superannuation";
+
+const QUARTERS_SHOWN = 8;
+
+const emptyRateForm = () => ({ percentage: "", effective_from: toDateString(new Date()) });
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+// The current quarter and the ones before it, newest first
+const recentQuarters = () => {
+  const quarters = [getSuperQuarter(toDateString(new Date()))];
+  while (quarters.length < QUARTERS_SHOWN) {
+    quarters.push(getPreviousSuperQuarter(quarters[quarters.length - 1]));
+  }
+  return quarters;
+};
+
+export const Superannuation = () => {
+  const quarters = recentQuarters();
+  const [rates, setRates] = useState<SuperGuaranteeRate[]>([]);
+  const [accruals, setAccruals] = useState<SuperAccrual[]>([]);
+  const [transactions, setTransactions] = useState<BankTransaction[]>([]);
+  const [matchedIds, setMatchedIds] = useState<Set<string>>(new Set());
+  const [quarterStart, setQuarterStart] = useState(quarters[0].start);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rateForm, setRateForm] = useState(emptyRateForm());
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const quarter = quarters.find(q => q.start === quarterStart) || quarters[0];
+
+  useEffect(() => {
+    fetchRates();
+  }, []);
+
+  useEffect(() => {
+    fetchQuarter();
+  }, [quarterStart]);
+
+  const fetchRates = async () => {
+    try {
+      setRates(await fetchGuaranteeRates());
+    } catch (error) {
+      console.error('Error fetching super guarantee rates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch super guarantee rates",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const fetchQuarter = async () => {
+    setLoading(true);
+    try {
+      const [quarterAccruals, payments] = await Promise.all([
+        fetchSuperAccruals(quarter),
+        fetchSuperPaymentTransactions(quarter)
+      ]);
+      setAccruals(quarterAccruals);
+      setTransactions(payments.transactions);
+      setMatchedIds(payments.matchedIds);
+    } catch (error) {
+      console.error('Error fetching super contributions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch super contributions",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const percentage = parseFloat(rateForm.percentage);
+
+    const problem = !Number.isFinite(percentage) || percentage < 0 || percentage > 100 ? "Enter a percentage from 0 to 100"
+      : rates.some(rate => rate.effective_from === rateForm.effective_from) ? "A rate already starts on that date"
+      : null;
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('super_guarantee_rates')
+        .insert({
+          percentage,
+          effective_from: rateForm.effective_from,
+          created_by: user?.id
+        });
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Guarantee rate saved" });
+      setRateForm(emptyRateForm());
+      fetchRates();
+    } catch (error) {
+      console.error('Error saving super guarantee rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save guarantee rate",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRate = async (rate: SuperGuaranteeRate) => {
+    if (!confirm(`Delete the ${Number(rate.percentage)}% rate from ${formatDate(rate.effective_from)}? Accruals already recorded keep their rate.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('super_guarantee_rates')
+        .delete()
+        .eq('id', rate.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Guarantee rate deleted" });
+      fetchRates();
+    } catch (error) {
+      console.error('Error deleting super guarantee rate:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete guarantee rate",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleMatch = async (transaction: BankTransaction) => {
+    const unpaidIds = accruals.filter(a => !a.bank_transaction_id).map(a => a.id);
+    if (unpaidIds.length === 0) return;
+
+    try {
+      await matchSuperPayment(unpaidIds, transaction.id);
+      toast({ title: "Success", description: `Matched ${unpaidIds.length} accruals to the payment on ${formatDate(transaction.date)}` });
+      fetchQuarter();
+    } catch (error) {
+      console.error('Error matching super payment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to match the payment",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleUnmatch = async (transactionId: string) => {
+    try {
+      await matchSuperPayment(accruals.filter(a => a.bank_transaction_id === transactionId).map(a => a.id), null);
+      toast({ title: "Success", description: "Payment unmatched" });
+      fetchQuarter();
+    } catch (error) {
+      console.error('Error unmatching super payment:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unmatch the payment",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const rows = summariseSuperQuarter(accruals)
+    .sort((a, b) => (a.accruals[0].profiles?.full_name || '').localeCompare(b.accruals[0].profiles?.full_name || ''));
+  const totals = rows.reduce(
+    (sum, row) => ({
+      ordinary_time_earnings: sum.ordinary_time_earnings + row.ordinary_time_earnings,
+      amount: sum.amount + row.amount,
+      unpaid: sum.unpaid + row.unpaid
+    }),
+    { ordinary_time_earnings: 0, amount: 0, unpaid: 0 }
+  );
+  const unpaid = Math.round(totals.unpaid * 100) / 100;
+
+  // The withdrawals this quarter's accruals are matched to, with how much of each they cover
+  const matchedPayments = [...new Set(accruals.map(a => a.bank_transaction_id).filter(Boolean) as string[])].map(id => {
+    const covered = accruals.filter(a => a.bank_transaction_id === id);
+    return {
+      transaction: covered[0].bank_transactions,
+      id,
+      amount: covered.reduce((sum, a) => sum + Number(a.amount), 0)
+    };
+  });
+  const candidates = getSuperPaymentCandidates(transactions, quarter, unpaid, matchedIds);
+
+  const today = toDateString(new Date());
+  const currentRate = resolveGuaranteeRate(rates, today);
+  const overdue = unpaid > 0 && quarter.due_date < today;
+
+  const handleExportCSV = () => {
+    const csvContent = [
+      ['Employee', 'Fund', 'Fund ABN', 'Fund USI', 'Member Number', 'Pay Runs', 'Ordinary-Time Earnings', 'Super', 'Unpaid'],
+      ...rows.map(row => {
+        const profile = row.accruals[0].profiles;
+        return [
+          profile?.full_name || 'N/A',
+          profile?.super_fund_name || '',
+          profile?.super_fund_abn || '',
+          profile?.super_fund_usi || '',
+          profile?.super_member_number || '',
+          row.accruals.length.toString(),
+          row.ordinary_time_earnings.toFixed(2),
+          row.amount.toFixed(2),
+          row.unpaid.toFixed(2)
+        ];
+      })
+    ].map(row => row.map(cell => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(',')).join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `super-contributions-${quarter.start}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Success",
+      description: "Super contributions exported successfully"
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <PiggyBank className="h-8 w-8 text-blue-600" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Superannuation</h1>
+          <p className="text-gray-600">Employer contributions accrued each pay run and paid each quarter</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              Guarantee Rates
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Each payroll accrues the rate in effect on the last day of its pay period, applied to pay for
+              ordinary and penalty hours. Overtime and allowances don't attract super.
+              {currentRate !== null ? ` The rate today is ${Number(currentRate)}%.` : ' No rate is in effect today, so nothing accrues.'}
+            </p>
+            <form onSubmit={handleSaveRate} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+              <div>
+                <Label htmlFor="rate_percentage">Percentage</Label>
+                <Input
+                  id="rate_percentage"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={rateForm.percentage}
+                  onChange={(e) => setRateForm({ ...rateForm, percentage: e.target.value })}
+                  placeholder="e.g. 12"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="rate_from">Effective from</Label>
+                <Input
+                  id="rate_from"
+                  type="date"
+                  value={rateForm.effective_from}
+                  onChange={(e) => setRateForm({ ...rateForm, effective_from: e.target.value })}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Add Rate"}
+              </Button>
+            </form>
+            {rates.length > 0 && (
+              <div className="border rounded-lg divide-y text-sm">
+                {rates.map(rate => (
+                  <div key={rate.id} className="flex items-center justify-between px-3 py-1">
+                    <span>
+                      <span className="font-medium">{Number(rate.percentage)}%</span> from {formatDate(rate.effective_from)}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteRate(rate)} className="text-red-600">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Link className="h-5 w-5" />
+              Payments
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-600">Due {formatDate(quarter.due_date)}:</span>
+              <span className="font-medium">{formatMoney(unpaid)} unpaid</span>
+              {overdue && <Badge className="bg-red-100 text-red-800">Overdue</Badge>}
+              {unpaid === 0 && accruals.length > 0 && <Badge className="bg-green-100 text-green-800">Paid</Badge>}
+            </div>
+
+            {matchedPayments.length > 0 && (
+              <div className="border rounded-lg divide-y text-sm">
+                {matchedPayments.map(payment => (
+                  <div key={payment.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{payment.transaction?.description || 'Bank transaction'}</div>
+                      <div className="text-xs text-gray-500">
+                        {payment.transaction && `${formatDate(payment.transaction.date)} • ${formatMoney(Number(payment.transaction.amount))} • `}
+                        covers {formatMoney(payment.amount)}
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleUnmatch(payment.id)}>
+                      <Unlink className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {unpaid > 0 && (
+              candidates.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No unmatched withdrawals between {formatDate(quarter.start)} and a month after the due date.
+                  Record the payment under Bank Balance, then match it here.
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  <div className="text-sm text-gray-600">Match the unpaid accruals to a withdrawal:</div>
+                  <div className="border rounded-lg divide-y text-sm max-h-64 overflow-y-auto">
+                    {candidates.map(transaction => (
+                      <div key={transaction.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                        <div className="min-w-0">
+                          <div className="truncate">{transaction.description}</div>
+                          <div className="text-xs text-gray-500">
+                            {formatDate(transaction.date)} • {formatMoney(Number(transaction.amount))}
+                            {Math.abs(Number(transaction.amount) - unpaid) < 0.005 && (
+                              <span className="text-green-600"> • exact amount</span>
+                            )}
+                          </div>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => handleMatch(transaction)}>
+                          Match
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <CardTitle>Quarterly Contributions</CardTitle>
+            <div className="flex gap-2">
+              <Select value={quarterStart} onValueChange={setQuarterStart}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {quarters.map(q => (
+                    <SelectItem key={q.start} value={q.start}>{q.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleExportCSV} disabled={rows.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : rows.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No super accrued for pay periods ending this quarter</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-gray-600">
+                    <th className="text-left py-2">Employee</th>
+                    <th className="text-left py-2">Fund</th>
+                    <th className="text-right py-2">Pay Runs</th>
+                    <th className="text-right py-2">Ordinary-Time Earnings</th>
+                    <th className="text-right py-2">Super</th>
+                    <th className="text-right py-2">Unpaid</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => {
+                    const profile = row.accruals[0].profiles;
+                    return (
+                      <tr key={row.profile_id} className="border-b border-gray-100">
+                        <td className="py-2">{profile?.full_name || 'Unknown employee'}</td>
+                        <td className="py-2">
+                          {profile?.super_fund_name ? (
+                            <>
+                              <div>{profile.super_fund_name}</div>
+                              {profile.super_member_number && (
+                                <div className="text-xs text-gray-500">Member {profile.super_member_number}</div>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-orange-600">No fund details</span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">{row.accruals.length}</td>
+                        <td className="py-2 text-right">{formatMoney(row.ordinary_time_earnings)}</td>
+                        <td className="py-2 text-right font-medium">{formatMoney(row.amount)}</td>
+                        <td className={`py-2 text-right ${row.unpaid > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                          {formatMoney(row.unpaid)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  <tr className="font-medium">
+                    <td className="py-2" colSpan={3}>Total</td>
+                    <td className="py-2 text-right">{formatMoney(totals.ordinary_time_earnings)}</td>
+                    <td className="py-2 text-right">{formatMoney(totals.amount)}</td>
+                    <td className="py-2 text-right">{formatMoney(unpaid)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,481 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, Percent, Plus, Trash2, Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Profile, TaxScale } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { toDateString } from "@/lib/time";
+import { readSpreadsheet } from "@/lib/timesheet-import";
+import {
+  calculateWithholding,
+  fetchTaxScales,
+  fetchYearToDateTax,
+  getTaxYearStart,
+  parseTaxBrackets,
+  PayFrequency,
+  PERIODS_PER_YEAR,
+  resolveTaxScale
+} from "@/lib/tax-withholding";
+
+const emptyForm = () => ({
+  name: "",
+  effective_from: toDateString(new Date()),
+  tax_free_threshold_claimed: true,
+  no_tfn_rate: "47"
+});
+
+const emptyBracket = () => ({ threshold: "", rate: "" });
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const TaxScales = () => {
+  const [scales, setScales] = useState<TaxScale[]>([]);
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [yearToDateTax, setYearToDateTax] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const [brackets, setBrackets] = useState([emptyBracket()]);
+  const [calculator, setCalculator] = useState({ gross_pay: "", frequency: 'weekly' as PayFrequency, tax_free_threshold_claimed: true });
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const today = toDateString(new Date());
+
+  useEffect(() => {
+    fetchScales();
+    fetchYearToDate();
+  }, []);
+
+  const fetchScales = async () => {
+    setLoading(true);
+    try {
+      setScales(await fetchTaxScales());
+    } catch (error) {
+      console.error('Error fetching tax scales:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch tax scales",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchYearToDate = async () => {
+    try {
+      const [profilesResult, totals] = await Promise.all([
+        supabase.from('profiles').select('*').eq('is_active', true).order('full_name'),
+        fetchYearToDateTax(today)
+      ]);
+
+      if (profilesResult.error) throw profilesResult.error;
+      setProfiles((profilesResult.data || []) as Profile[]);
+      setYearToDateTax(totals);
+    } catch (error) {
+      console.error('Error fetching year to date tax:', error);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = parseTaxBrackets(await readSpreadsheet(file));
+      if (parsed.length === 0) {
+        toast({
+          title: "Nothing to import",
+          description: "No rows with a threshold and a rate were found in that file",
+          variant: "destructive"
+        });
+        return;
+      }
+      setBrackets(parsed.map(bracket => ({ threshold: String(bracket.threshold), rate: String(bracket.rate) })));
+    } catch (error) {
+      console.error('Error reading tax scale file:', error);
+      toast({
+        title: "Error",
+        description: "Could not read that file. Use a .csv or .xlsx export.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateBracket = (index: number, field: 'threshold' | 'rate', value: string) => {
+    setBrackets(brackets.map((bracket, i) => i === index ? { ...bracket, [field]: value } : bracket));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rows = parseTaxBrackets(brackets.map(bracket => [bracket.threshold, bracket.rate]));
+    const thresholds = new Set(rows.map(bracket => bracket.threshold));
+
+    const problem = !formData.name.trim() ? "Enter a name"
+      : rows.length === 0 ? "Add at least one bracket"
+      : thresholds.size < rows.length ? "Two brackets start at the same threshold"
+      : rows.some(bracket => bracket.threshold < 0 || bracket.rate < 0 || bracket.rate > 100) ? "Thresholds and rates cannot be negative, and rates cannot exceed 100%"
+      : null;
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('tax_scales')
+        .insert({
+          name: formData.name.trim(),
+          effective_from: formData.effective_from,
+          tax_free_threshold_claimed: formData.tax_free_threshold_claimed,
+          no_tfn_rate: parseFloat(formData.no_tfn_rate) || 0,
+          created_by: user?.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: bracketsError } = await supabase
+        .from('tax_scale_brackets')
+        .insert(rows.map(bracket => ({ tax_scale_id: data.id, ...bracket })));
+
+      if (bracketsError) {
+        // Don't leave a scale behind that would withhold nothing
+        await supabase.from('tax_scales').delete().eq('id', data.id);
+        throw bracketsError;
+      }
+
+      toast({ title: "Success", description: "Tax scale saved" });
+      setFormData(emptyForm());
+      setBrackets([emptyBracket()]);
+      fetchScales();
+    } catch (error) {
+      console.error('Error saving tax scale:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save tax scale",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (scale: TaxScale) => {
+    if (!confirm(`Delete the tax scale "${scale.name}"? Payrolls already generated keep the tax withheld.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('tax_scales')
+        .delete()
+        .eq('id', scale.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Tax scale deleted" });
+      fetchScales();
+    } catch (error) {
+      console.error('Error deleting tax scale:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete tax scale",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Only the latest scale started for each claim is in effect
+  const inEffect = new Set(
+    [true, false].map(claimed => resolveTaxScale(scales, claimed, today)?.id).filter(Boolean)
+  );
+
+  const calculatorScale = resolveTaxScale(scales, calculator.tax_free_threshold_claimed, today);
+  const calculatorGross = parseFloat(calculator.gross_pay) || 0;
+  const calculatorTax = calculator.gross_pay
+    ? calculateWithholding(calculatorGross, { scale: calculatorScale, frequency: calculator.frequency, hasTaxFileNumber: true })
+    : null;
+
+  const yearToDateRows = profiles
+    .map(profile => ({ profile, tax: yearToDateTax.get(profile.id) || 0 }))
+    .filter(row => row.tax > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Percent className="h-8 w-8 text-blue-600" />
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Tax Scales</h1>
+          <p className="text-gray-600">Progressive tax brackets used to withhold tax from pay</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              Add Tax Scale
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="scale_name">Name</Label>
+                  <Input
+                    id="scale_name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g. 2026–27 resident rates"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="scale_from">Effective from</Label>
+                  <Input
+                    id="scale_from"
+                    type="date"
+                    value={formData.effective_from}
+                    onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>For employees who</Label>
+                  <Select
+                    value={formData.tax_free_threshold_claimed ? "claimed" : "not_claimed"}
+                    onValueChange={(value) => setFormData({ ...formData, tax_free_threshold_claimed: value === "claimed" })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="claimed">Claim the tax-free threshold</SelectItem>
+                      <SelectItem value="not_claimed">Don't claim the tax-free threshold</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="scale_no_tfn">Rate without a TFN (%)</Label>
+                  <Input
+                    id="scale_no_tfn"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData.no_tfn_rate}
+                    onChange={(e) => setFormData({ ...formData, no_tfn_rate: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="scale_file">Upload brackets</Label>
+                <Input id="scale_file" type="file" accept=".csv,.xlsx,text/csv" onChange={handleFileChange} />
+                <p className="text-xs text-gray-500 mt-1">
+                  Two columns: the annual income each bracket starts at and its rate as a percentage.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-sm text-gray-600">
+                  <span>Annual income from ($)</span>
+                  <span>Rate (%)</span>
+                  <span className="w-9" />
+                </div>
+                {brackets.map((bracket, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={bracket.threshold}
+                      onChange={(e) => updateBracket(index, 'threshold', e.target.value)}
+                      placeholder="0"
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="100"
+                      value={bracket.rate}
+                      onChange={(e) => updateBracket(index, 'rate', e.target.value)}
+                      placeholder="0"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setBrackets(brackets.filter((_, i) => i !== index))}
+                      disabled={brackets.length === 1}
+                      className="text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button type="button" variant="outline" size="sm" onClick={() => setBrackets([...brackets, emptyBracket()])}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Bracket
+                </Button>
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : "Save Tax Scale"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Calculator className="h-5 w-5" />
+              Withholding Calculator
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Pay for a week, fortnight or month is annualised, taxed at each bracket's rate from its threshold up
+              to the next, and brought back to the period, rounded to whole dollars. Employees are taxed on the
+              latest scale in effect for their tax-free threshold claim; those without a tax file number are
+              withheld at the scale's no-TFN rate. Without a scale, a flat 10% is withheld.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={calculator.gross_pay}
+                onChange={(e) => setCalculator({ ...calculator, gross_pay: e.target.value })}
+                placeholder="Gross pay"
+              />
+              <Select
+                value={calculator.frequency}
+                onValueChange={(value) => setCalculator({ ...calculator, frequency: value as PayFrequency })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PERIODS_PER_YEAR) as PayFrequency[]).map(frequency => (
+                    <SelectItem key={frequency} value={frequency} className="capitalize">{frequency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={calculator.tax_free_threshold_claimed ? "claimed" : "not_claimed"}
+                onValueChange={(value) => setCalculator({ ...calculator, tax_free_threshold_claimed: value === "claimed" })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="claimed">Threshold claimed</SelectItem>
+                  <SelectItem value="not_claimed">Not claimed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {calculatorTax && (
+              <div className="border rounded-lg divide-y text-sm">
+                <div className="flex justify-between px-3 py-2">
+                  <span className="text-gray-600">{calculatorTax.label}</span>
+                  <span className="font-medium">{formatMoney(calculatorTax.amount)}</span>
+                </div>
+                <div className="flex justify-between px-3 py-2">
+                  <span className="text-gray-600">Take-home before other deductions</span>
+                  <span className="font-medium">{formatMoney(calculatorGross - calculatorTax.amount)}</span>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tax Scales</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : scales.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No tax scales</div>
+          ) : (
+            <div className="divide-y">
+              {scales.map(scale => (
+                <div key={scale.id} className="flex items-start justify-between gap-2 py-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900">{scale.name}</span>
+                      <Badge variant="outline">
+                        {scale.tax_free_threshold_claimed ? 'Tax-free threshold claimed' : 'No tax-free threshold'}
+                      </Badge>
+                      {inEffect.has(scale.id) ? (
+                        <Badge className="bg-green-100 text-green-800">In effect</Badge>
+                      ) : scale.effective_from > today ? (
+                        <Badge className="bg-blue-100 text-blue-800">Upcoming</Badge>
+                      ) : (
+                        <Badge className="bg-gray-100 text-gray-600">Replaced</Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      From {format(parseISO(scale.effective_from), 'dd MMM yyyy')} • {Number(scale.no_tfn_rate)}% without a TFN
+                    </div>
+                    <div className="flex flex-wrap gap-x-3 text-xs text-gray-500">
+                      {[...(scale.tax_scale_brackets || [])]
+                        .sort((a, b) => a.threshold - b.threshold)
+                        .map(bracket => (
+                          <span key={bracket.id}>{formatMoney(Number(bracket.threshold))}+ at {Number(bracket.rate)}%</span>
+                        ))}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(scale)} className="text-red-600">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Tax Withheld Since {format(parseISO(getTaxYearStart(today)), 'dd MMM yyyy')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {yearToDateRows.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No tax withheld this tax year</div>
+          ) : (
+            <div className="divide-y text-sm">
+              {yearToDateRows.map(({ profile, tax }) => (
+                <div key={profile.id} className="flex justify-between py-2">
+                  <span>{profile.full_name}</span>
+                  <span className="font-medium">{formatMoney(tax)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
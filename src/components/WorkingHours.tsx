@@ -5,18 +5,44 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Plus, Clock, CheckCircle, XCircle, DollarSign, Timer, CheckSquare } from "lucide-react";
+import { Plus, Clock, CheckCircle, XCircle, DollarSign, Timer, CheckSquare, MonitorSmartphone, MapPin, ListChecks, Gauge, Upload, BatteryLow } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { WorkingHour, Profile, Client, Project } from "@/types/database";
+import { WorkingHour, Profile, Client, Project, ApprovalChain, ShiftBreak } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { ProfileSelector } from "@/components/common/ProfileSelector";
 import { EditWorkingHoursDialog } from "@/components/EditWorkingHoursDialog";
 import { WorkingHoursFilter } from "@/components/working-hours/WorkingHoursFilter";
 import { WorkingHoursActions } from "@/components/working-hours/WorkingHoursActions";
 import { WorkingHoursViewDialog } from "@/components/working-hours/WorkingHoursViewDialog";
+import { WorkingHoursRejectDialog } from "@/components/working-hours/WorkingHoursRejectDialog";
+import { ApprovalChainsDialog } from "@/components/working-hours/ApprovalChainsDialog";
+import { OvertimeRulesDialog } from "@/components/working-hours/OvertimeRulesDialog";
+import { TimesheetImportDialog } from "@/components/working-hours/TimesheetImportDialog";
+import { FatigueRulesDialog } from "@/components/working-hours/FatigueRulesDialog";
+import { BreakPeriodsField } from "@/components/working-hours/BreakPeriodsField";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { calculateShiftHours, formatTimeRange, toDateString, todayString } from "@/lib/time";
+import { formatAttendanceFlags, getAttendanceFlags } from "@/lib/attendance";
+import { getGeofenceFlags } from "@/lib/geofence";
+import { recalculateOvertime } from "@/lib/overtime";
+import { findBreakErrors, getUnpaidBreakMinutes } from "@/lib/breaks";
+import { FatigueIssue, fetchWorkingHourFatigueIssues } from "@/lib/fatigue";
+import { usePublicHolidays } from "@/hooks/usePublicHolidays";
+import { useRateCards } from "@/hooks/useRateCards";
+import { describeRateSource, getBillableAmount } from "@/lib/rate-cards";
+import {
+  approveWorkingHours,
+  canApproveStep,
+  describeApprovalProgress,
+  describeApprovalResult,
+  fetchApprovalChains,
+  getCurrentStep,
+  rejectWorkingHours,
+  resolveApprovalChain
+} from "@/lib/approval-chains";
 
 export const WorkingHoursComponent = () => {
   const [searchTerm, setSearchTerm] = useState("");
@@ -39,21 +65,39 @@ export const WorkingHoursComponent = () => {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [viewingWorkingHour, setViewingWorkingHour] = useState<WorkingHour | null>(null);
   const [isViewDialogOpen, setIsViewDialogOpen] = useState(false);
+  const [approvalChains, setApprovalChains] = useState<ApprovalChain[]>([]);
+  const [isChainsDialogOpen, setIsChainsDialogOpen] = useState(false);
+  const [isOvertimeDialogOpen, setIsOvertimeDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isFatigueDialogOpen, setIsFatigueDialogOpen] = useState(false);
+  const [fatigueIssues, setFatigueIssues] = useState<Record<string, FatigueIssue[]>>({});
+  const [rejectingWorkingHour, setRejectingWorkingHour] = useState<WorkingHour | null>(null);
   const { toast } = useToast();
+  const { profile, hasPermission } = useAuth();
 
   const [formData, setFormData] = useState({
     profile_id: "",
     client_id: "",
     project_id: "",
-    date: new Date().toISOString().split('T')[0],
+    date: todayString(),
     start_time: "",
     end_time: "",
     sign_in_time: "",
     sign_out_time: "",
+    break_minutes: 0,
+    breaks: [] as ShiftBreak[],
     hourly_rate: 0,
+    bill_rate: null as number | null,
     notes: "",
     status: "pending" as "pending" | "approved" | "rejected" | "paid"
   });
+  const { getRates } = useRateCards();
+
+  // Re-prices the entry from the rate cards whenever who, where or when changes
+  const withRates = (data: typeof formData) => {
+    const { pay, bill } = getRates(data, profiles.find(p => p.id === data.profile_id));
+    return { ...data, hourly_rate: pay?.rate || 0, bill_rate: bill?.rate ?? null };
+  };
 
   // Set default dates to current week
   useEffect(() => {
@@ -65,8 +109,8 @@ export const WorkingHoursComponent = () => {
     const sundayDate = new Date(mondayDate);
     sundayDate.setDate(mondayDate.getDate() + 6);
     
-    setStartDate(mondayDate.toISOString().split('T')[0]);
-    setEndDate(sundayDate.toISOString().split('T')[0]);
+    setStartDate(toDateString(mondayDate));
+    setEndDate(toDateString(sundayDate));
   }, []);
 
   useEffect(() => {
@@ -74,14 +118,21 @@ export const WorkingHoursComponent = () => {
     fetchProfiles();
     fetchClients();
     fetchProjects();
+    loadApprovalChains();
   }, []);
 
+  useEffect(() => {
+    fetchWorkingHourFatigueIssues(workingHours)
+      .then(setFatigueIssues)
+      .catch(error => console.error('Error checking fatigue limits:', error));
+  }, [workingHours]);
+
   // Auto-fill today's date when dialog opens
   useEffect(() => {
     if (isDialogOpen && !editingWorkingHour) {
       setFormData(prev => ({
         ...prev,
-        date: new Date().toISOString().split('T')[0]
+        date: todayString()
       }));
     }
   }, [isDialogOpen, editingWorkingHour]);
@@ -165,30 +216,18 @@ export const WorkingHoursComponent = () => {
     }
   };
 
-  const calculateTotalHours = (startTime: string, endTime: string) => {
-    if (!startTime || !endTime) return 0;
-    
-    const start = new Date(`2000-01-01T${startTime}`);
-    const end = new Date(`2000-01-01T${endTime}`);
-    const diffMs = end.getTime() - start.getTime();
-    const diffHours = diffMs / (1000 * 60 * 60);
-    
-    return Math.max(0, diffHours);
-  };
-
-  const calculateActualHours = (signInTime: string, signOutTime: string) => {
-    if (!signInTime || !signOutTime) return 0;
-    return calculateTotalHours(signInTime, signOutTime);
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    const breakErrors = findBreakErrors(formData.breaks, formData.start_time, formData.end_time);
+    if (breakErrors.length > 0) {
+      toast({ title: "Error", description: breakErrors[0], variant: "destructive" });
+      return;
+    }
     setLoading(true);
 
     try {
-      const totalHours = calculateTotalHours(formData.start_time, formData.end_time);
-      const actualHours = calculateActualHours(formData.sign_in_time, formData.sign_out_time);
-      const overtimeHours = Math.max(0, actualHours - totalHours);
+      const totalHours = calculateShiftHours(formData.start_time, formData.end_time, formData.break_minutes);
+      const actualHours = calculateShiftHours(formData.sign_in_time, formData.sign_out_time, formData.break_minutes);
       const payableAmount = (actualHours || totalHours) * formData.hourly_rate;
       
       const { error } = await supabase
@@ -197,13 +236,14 @@ export const WorkingHoursComponent = () => {
           ...formData,
           total_hours: totalHours,
           actual_hours: actualHours || null,
-          overtime_hours: overtimeHours,
           payable_amount: payableAmount,
+          billable_amount: getBillableAmount(actualHours || totalHours, formData.bill_rate),
           sign_in_time: formData.sign_in_time || null,
           sign_out_time: formData.sign_out_time || null
         });
 
       if (error) throw error;
+      await recalculateOvertime([formData]);
       toast({ title: "Success", description: "Working hours logged successfully" });
       
       setIsDialogOpen(false);
@@ -211,12 +251,15 @@ export const WorkingHoursComponent = () => {
         profile_id: "",
         client_id: "",
         project_id: "",
-        date: new Date().toISOString().split('T')[0],
+        date: todayString(),
         start_time: "",
         end_time: "",
         sign_in_time: "",
         sign_out_time: "",
+        break_minutes: 0,
+        breaks: [],
         hourly_rate: 0,
+        bill_rate: null,
         notes: "",
         status: "pending"
       });
@@ -233,24 +276,55 @@ export const WorkingHoursComponent = () => {
     }
   };
 
-  const updateStatus = async (id: string, status: 'approved' | 'rejected') => {
+  const loadApprovalChains = async () => {
     try {
-      const { error } = await supabase
-        .from('working_hours')
-        .update({ status })
-        .eq('id', id);
+      setApprovalChains(await fetchApprovalChains());
+    } catch (error) {
+      console.error('Error fetching approval chains:', error);
+    }
+  };
 
-      if (error) throw error;
-      toast({ 
-        title: "Success", 
-        description: `Working hours ${status} successfully` 
+  // Whether the signed-in user approves the step this entry is waiting on
+  const canApprove = (wh: WorkingHour) =>
+    !!profile && canApproveStep(getCurrentStep(resolveApprovalChain(approvalChains, wh), wh), profile);
+
+  const approveEntries = async (entries: WorkingHour[]) => {
+    if (!profile) return;
+
+    try {
+      const result = await approveWorkingHours(entries);
+      toast({
+        title: result.approved + result.advanced > 0 ? "Success" : "Nothing approved",
+        description: describeApprovalResult(result),
+        variant: result.approved + result.advanced > 0 ? undefined : "destructive"
+      });
+      setSelectedWorkingHours([]);
+      fetchWorkingHours();
+    } catch (error) {
+      console.error('Error approving working hours:', error);
+      toast({
+        title: "Error",
+        description: "Failed to approve working hours",
+        variant: "destructive"
       });
+    }
+  };
+
+  const rejectEntry = async (reason: string) => {
+    if (!profile || !rejectingWorkingHour) return;
+
+    try {
+      const result = await rejectWorkingHours([rejectingWorkingHour], reason);
+      if (result.blocked > 0) throw new Error('These hours are waiting on another approver');
+
+      toast({ title: "Success", description: "Working hours rejected" });
+      setRejectingWorkingHour(null);
       fetchWorkingHours();
     } catch (error) {
-      console.error('Error updating status:', error);
+      console.error('Error rejecting working hours:', error);
       toast({
         title: "Error",
-        description: "Failed to update status",
+        description: error instanceof Error ? error.message : "Failed to reject working hours",
         variant: "destructive"
       });
     }
@@ -266,12 +340,11 @@ export const WorkingHoursComponent = () => {
       return;
     }
 
-    const idsToApprove = selectedWorkingHours.filter(id => {
-      const wh = filteredWorkingHours.find(w => w.id === id);
-      return wh?.status === 'pending';
-    });
+    const entriesToApprove = filteredWorkingHours.filter(wh =>
+      selectedWorkingHours.includes(wh.id) && wh.status === 'pending'
+    );
     
-    if (idsToApprove.length === 0) {
+    if (entriesToApprove.length === 0) {
       toast({
         title: "No pending hours",
         description: "Selected working hours are not pending approval",
@@ -280,28 +353,7 @@ export const WorkingHoursComponent = () => {
       return;
     }
 
-    try {
-      const { error } = await supabase
-        .from('working_hours')
-        .update({ status: 'approved' })
-        .in('id', idsToApprove);
-
-      if (error) throw error;
-      
-      toast({ 
-        title: "Success", 
-        description: `${idsToApprove.length} working hours approved successfully` 
-      });
-      setSelectedWorkingHours([]);
-      fetchWorkingHours();
-    } catch (error) {
-      console.error('Error bulk approving:', error);
-      toast({
-        title: "Error",
-        description: "Failed to bulk approve working hours",
-        variant: "destructive"
-      });
-    }
+    await approveEntries(entriesToApprove);
   };
 
   const handleEdit = (id: string) => {
@@ -387,6 +439,11 @@ export const WorkingHoursComponent = () => {
     return wh?.status === 'pending';
   }).length;
 
+  const { holidays, getHoliday } = usePublicHolidays(startDate, endDate);
+
+  // Where the form's rates came from, shown while they are unchanged
+  const formRates = getRates(formData, profiles.find(p => p.id === formData.profile_id));
+
   const allSelected = filteredWorkingHours.length > 0 && selectedWorkingHours.length === filteredWorkingHours.length;
   const someSelected = selectedWorkingHours.length > 0;
 
@@ -406,6 +463,36 @@ export const WorkingHoursComponent = () => {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {hasPermission('working_hours_manage') && (
+            <Button variant="outline" className="flex items-center gap-2" onClick={() => setIsChainsDialogOpen(true)}>
+              <ListChecks className="h-4 w-4" />
+              <span className="hidden sm:inline">Approval Chains</span>
+            </Button>
+          )}
+          {hasPermission('working_hours_manage') && (
+            <Button variant="outline" className="flex items-center gap-2" onClick={() => setIsOvertimeDialogOpen(true)}>
+              <Gauge className="h-4 w-4" />
+              <span className="hidden sm:inline">Overtime Rules</span>
+            </Button>
+          )}
+          {hasPermission('working_hours_manage') && (
+            <Button variant="outline" className="flex items-center gap-2" onClick={() => setIsImportDialogOpen(true)}>
+              <Upload className="h-4 w-4" />
+              <span className="hidden sm:inline">Import</span>
+            </Button>
+          )}
+          {hasPermission('working_hours_manage') && (
+            <Button variant="outline" className="flex items-center gap-2" onClick={() => setIsFatigueDialogOpen(true)}>
+              <BatteryLow className="h-4 w-4" />
+              <span className="hidden sm:inline">Fatigue Rules</span>
+            </Button>
+          )}
+          <Button variant="outline" className="flex items-center gap-2" asChild>
+            <a href="/kiosk" target="_blank" rel="noopener noreferrer">
+              <MonitorSmartphone className="h-4 w-4" />
+              <span className="hidden sm:inline">Kiosk</span>
+            </a>
+          </Button>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
               <Button className="flex items-center gap-2 w-full sm:w-auto">
@@ -423,12 +510,7 @@ export const WorkingHoursComponent = () => {
                     profiles={profiles}
                     selectedProfileId={formData.profile_id}
                     onProfileSelect={(profileId) => {
-                      const profile = profiles.find(p => p.id === profileId);
-                      setFormData({ 
-                        ...formData, 
-                        profile_id: profileId,
-                        hourly_rate: profile?.hourly_rate || 0
-                      });
+                      setFormData(withRates({ ...formData, profile_id: profileId }));
                     }}
                     label="Select Profile"
                     placeholder="Choose a team member"
@@ -439,7 +521,7 @@ export const WorkingHoursComponent = () => {
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <div>
                     <Label htmlFor="client_id" className="text-sm font-medium">Client</Label>
-                    <Select value={formData.client_id} onValueChange={(value) => setFormData({ ...formData, client_id: value })}>
+                    <Select value={formData.client_id} onValueChange={(value) => setFormData(withRates({ ...formData, client_id: value }))}>
                       <SelectTrigger className="mt-1">
                         <SelectValue placeholder="Select client" />
                       </SelectTrigger>
@@ -455,7 +537,7 @@ export const WorkingHoursComponent = () => {
 
                   <div>
                     <Label htmlFor="project_id" className="text-sm font-medium">Project</Label>
-                    <Select value={formData.project_id} onValueChange={(value) => setFormData({ ...formData, project_id: value })}>
+                    <Select value={formData.project_id} onValueChange={(value) => setFormData(withRates({ ...formData, project_id: value }))}>
                       <SelectTrigger className="mt-1">
                         <SelectValue placeholder="Select project" />
                       </SelectTrigger>
@@ -476,7 +558,7 @@ export const WorkingHoursComponent = () => {
                     id="date"
                     type="date"
                     value={formData.date}
-                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    onChange={(e) => setFormData(withRates({ ...formData, date: e.target.value }))}
                     required
                     className="mt-1"
                   />
@@ -508,7 +590,37 @@ export const WorkingHoursComponent = () => {
                           className="mt-1"
                         />
                       </div>
+                      <div>
+                        <Label htmlFor="break_minutes" className="text-sm font-medium">Unpaid Break (minutes)</Label>
+                        <Input
+                          id="break_minutes"
+                          type="number"
+                          min="0"
+                          step="5"
+                          value={formData.break_minutes}
+                          onChange={(e) => setFormData({ ...formData, break_minutes: parseInt(e.target.value) || 0 })}
+                          disabled={formData.breaks.length > 0}
+                          className="mt-1"
+                        />
+                      </div>
+                    </div>
+                    <div className="mt-3">
+                      <BreakPeriodsField
+                        breaks={formData.breaks}
+                        startTime={formData.start_time}
+                        endTime={formData.end_time}
+                        onChange={(breaks) => setFormData({
+                          ...formData,
+                          breaks,
+                          break_minutes: breaks.length > 0 ? getUnpaidBreakMinutes(breaks) : formData.break_minutes
+                        })}
+                      />
                     </div>
+                    {formData.start_time && formData.end_time && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        {formatTimeRange(formData.start_time, formData.end_time)}: {calculateShiftHours(formData.start_time, formData.end_time, formData.break_minutes)}h paid
+                      </p>
+                    )}
                   </div>
 
                   <div className="border-t pt-4">
@@ -539,18 +651,39 @@ export const WorkingHoursComponent = () => {
                     </div>
                   </div>
 
-                  <div>
-                    <Label htmlFor="hourly_rate" className="text-sm font-medium">Hourly Rate ($)</Label>
-                    <Input
-                      id="hourly_rate"
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      value={formData.hourly_rate}
-                      onChange={(e) => setFormData({ ...formData, hourly_rate: parseFloat(e.target.value) || 0 })}
-                      required
-                      className="mt-1"
-                    />
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="hourly_rate" className="text-sm font-medium">Hourly Rate ($)</Label>
+                      <Input
+                        id="hourly_rate"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.hourly_rate}
+                        onChange={(e) => setFormData({ ...formData, hourly_rate: parseFloat(e.target.value) || 0 })}
+                        required
+                        className="mt-1"
+                      />
+                      {formRates.pay && formRates.pay.rate === formData.hourly_rate && (
+                        <p className="text-xs text-gray-500 mt-1">{describeRateSource(formRates.pay)}</p>
+                      )}
+                    </div>
+                    <div>
+                      <Label htmlFor="bill_rate" className="text-sm font-medium">Bill Rate ($)</Label>
+                      <Input
+                        id="bill_rate"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.bill_rate ?? ""}
+                        onChange={(e) => setFormData({ ...formData, bill_rate: e.target.value ? parseFloat(e.target.value) : null })}
+                        placeholder="No rate card"
+                        className="mt-1"
+                      />
+                      {formRates.bill && formRates.bill.rate === formData.bill_rate && (
+                        <p className="text-xs text-gray-500 mt-1">{describeRateSource(formRates.bill)}</p>
+                      )}
+                    </div>
                   </div>
 
                   <div>
@@ -648,6 +781,7 @@ export const WorkingHoursComponent = () => {
         profiles={profiles}
         clients={clients}
         projects={projects}
+        holidays={holidays}
       />
 
       <Card>
@@ -685,12 +819,19 @@ export const WorkingHoursComponent = () => {
                           <div className="text-xs text-gray-600">{wh.profiles?.role || 'N/A'}</div>
                         </div>
                       </div>
-                      <Badge variant={
-                        wh.status === "approved" ? "default" : 
-                        wh.status === "pending" ? "secondary" : "outline"
-                      } className="text-xs">
-                        {wh.status}
-                      </Badge>
+                      <div className="text-right">
+                        <Badge variant={
+                          wh.status === "approved" ? "default" : 
+                          wh.status === "pending" ? "secondary" : "outline"
+                        } className="text-xs">
+                          {wh.status}
+                        </Badge>
+                        {describeApprovalProgress(resolveApprovalChain(approvalChains, wh), wh) && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {describeApprovalProgress(resolveApprovalChain(approvalChains, wh), wh)}
+                          </div>
+                        )}
+                      </div>
                     </div>
                     
                     <div className="space-y-2">
@@ -704,11 +845,16 @@ export const WorkingHoursComponent = () => {
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Date:</span>
-                        <span>{new Date(wh.date).toLocaleDateString()}</span>
+                        <span>
+                          {new Date(wh.date).toLocaleDateString()}
+                          {getHoliday(wh.date, wh.client_id) && (
+                            <span className="ml-1 text-xs text-rose-600">({getHoliday(wh.date, wh.client_id)?.name})</span>
+                          )}
+                        </span>
                       </div>
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Scheduled:</span>
-                        <span>{wh.start_time} - {wh.end_time} ({wh.total_hours}h)</span>
+                        <span>{formatTimeRange(wh.start_time, wh.end_time)} ({wh.total_hours}h)</span>
                       </div>
                       {wh.sign_in_time && wh.sign_out_time && (
                         <div className="flex justify-between text-sm">
@@ -716,6 +862,21 @@ export const WorkingHoursComponent = () => {
                           <span>{wh.sign_in_time} - {wh.sign_out_time} ({wh.actual_hours || 0}h)</span>
                         </div>
                       )}
+                      {wh.roster_id && formatAttendanceFlags(getAttendanceFlags(wh)).map(flag => (
+                        <div key={flag} className="text-xs text-orange-600 text-right">{flag}</div>
+                      ))}
+                      {getGeofenceFlags(wh).map(flag => (
+                        <div key={flag} className="flex items-center justify-end gap-1 text-xs text-red-600">
+                          <MapPin className="h-3 w-3" />
+                          {flag}
+                        </div>
+                      ))}
+                      {fatigueIssues[wh.id]?.map(issue => (
+                        <div key={issue.key} className="flex items-center justify-end gap-1 text-xs text-amber-600">
+                          <BatteryLow className="h-3 w-3" />
+                          {issue.label}
+                        </div>
+                      ))}
                       <div className="flex justify-between text-sm">
                         <span className="text-gray-600">Overtime:</span>
                         <span className={`font-medium ${(wh.overtime_hours || 0) > 0 ? 'text-orange-600' : 'text-gray-600'}`}>
@@ -735,7 +896,8 @@ export const WorkingHoursComponent = () => {
                             <Button 
                               size="sm" 
                               variant="outline"
-                              onClick={() => updateStatus(wh.id, "approved")}
+                              onClick={() => approveEntries([wh])}
+                              disabled={!canApprove(wh)}
                               className="text-green-600 hover:text-green-700 p-1 sm:p-2"
                             >
                               <CheckCircle className="h-3 w-3 sm:h-4 sm:w-4" />
@@ -743,7 +905,8 @@ export const WorkingHoursComponent = () => {
                             <Button 
                               size="sm" 
                               variant="outline"
-                              onClick={() => updateStatus(wh.id, "rejected")}
+                              onClick={() => setRejectingWorkingHour(wh)}
+                              disabled={!canApprove(wh)}
                               className="text-red-600 hover:text-red-700 p-1 sm:p-2"
                             >
                               <XCircle className="h-3 w-3 sm:h-4 sm:w-4" />
@@ -810,11 +973,16 @@ export const WorkingHoursComponent = () => {
                     </td>
                     <td className="py-3 px-2 sm:px-4 text-gray-600 text-sm">
                       {new Date(wh.date).toLocaleDateString()}
+                      {getHoliday(wh.date, wh.client_id) && (
+                        <div className="text-xs text-rose-600">{getHoliday(wh.date, wh.client_id)?.name}</div>
+                      )}
                     </td>
                     <td className="py-3 px-2 sm:px-4 text-gray-600">
                       <div className="text-sm">
-                        {wh.start_time} - {wh.end_time}
-                        <div className="text-xs text-gray-500">{wh.total_hours}h</div>
+                        {formatTimeRange(wh.start_time, wh.end_time)}
+                        <div className="text-xs text-gray-500">
+                          {wh.total_hours}h{wh.break_minutes ? ` (${wh.break_minutes}m break)` : ''}
+                        </div>
                       </div>
                     </td>
                     <td className="py-3 px-2 sm:px-4 text-gray-600">
@@ -824,9 +992,26 @@ export const WorkingHoursComponent = () => {
                             {wh.sign_in_time} - {wh.sign_out_time}
                             <div className="text-xs text-gray-500">{wh.actual_hours || 0}h</div>
                           </>
+                        ) : wh.sign_in_time ? (
+                          <span>In {wh.sign_in_time}</span>
                         ) : (
                           <span className="text-gray-400">Not recorded</span>
                         )}
+                        {wh.roster_id && formatAttendanceFlags(getAttendanceFlags(wh)).map(flag => (
+                          <div key={flag} className="text-xs text-orange-600">{flag}</div>
+                        ))}
+                        {getGeofenceFlags(wh).map(flag => (
+                          <div key={flag} className="flex items-center gap-1 text-xs text-red-600">
+                            <MapPin className="h-3 w-3" />
+                            {flag}
+                          </div>
+                        ))}
+                        {fatigueIssues[wh.id]?.map(issue => (
+                          <div key={issue.key} className="flex items-center gap-1 text-xs text-amber-600">
+                            <BatteryLow className="h-3 w-3" />
+                            {issue.label}
+                          </div>
+                        ))}
                       </div>
                     </td>
                     <td className="py-3 px-2 sm:px-4">
@@ -844,9 +1029,14 @@ export const WorkingHoursComponent = () => {
                       <Badge variant={
                         wh.status === "approved" ? "default" : 
                         wh.status === "pending" ? "secondary" : "outline"
-                      } className="text-xs">
+                      } className="text-xs" title={wh.rejection_reason || undefined}>
                         {wh.status}
                       </Badge>
+                      {describeApprovalProgress(resolveApprovalChain(approvalChains, wh), wh) && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {describeApprovalProgress(resolveApprovalChain(approvalChains, wh), wh)}
+                        </div>
+                      )}
                     </td>
                     <td className="py-3 px-2 sm:px-4">
                       <div className="flex items-center gap-1 sm:gap-2">
@@ -855,7 +1045,8 @@ export const WorkingHoursComponent = () => {
                             <Button 
                               size="sm" 
                               variant="outline"
-                              onClick={() => updateStatus(wh.id, "approved")}
+                              onClick={() => approveEntries([wh])}
+                              disabled={!canApprove(wh)}
                               className="text-green-600 hover:text-green-700 p-1 sm:p-2"
                             >
                               <CheckCircle className="h-3 w-3 sm:h-4 sm:w-4" />
@@ -863,7 +1054,8 @@ export const WorkingHoursComponent = () => {
                             <Button 
                               size="sm" 
                               variant="outline"
-                              onClick={() => updateStatus(wh.id, "rejected")}
+                              onClick={() => setRejectingWorkingHour(wh)}
+                              disabled={!canApprove(wh)}
                               className="text-red-600 hover:text-red-700 p-1 sm:p-2"
                             >
                               <XCircle className="h-3 w-3 sm:h-4 sm:w-4" />
@@ -908,12 +1100,53 @@ export const WorkingHoursComponent = () => {
       />
 
       <WorkingHoursViewDialog
-        workingHour={viewingWorkingHour}
+        workingHour={workingHours.find(wh => wh.id === viewingWorkingHour?.id) || viewingWorkingHour}
         isOpen={isViewDialogOpen}
         onClose={() => {
           setIsViewDialogOpen(false);
           setViewingWorkingHour(null);
         }}
+        approvalChains={approvalChains}
+        onUpdate={fetchWorkingHours}
+      />
+
+      <WorkingHoursRejectDialog
+        isOpen={!!rejectingWorkingHour}
+        description={rejectingWorkingHour
+          ? `${rejectingWorkingHour.profiles?.full_name || 'Employee'}, ${rejectingWorkingHour.projects?.name || 'project'} on ${new Date(rejectingWorkingHour.date).toLocaleDateString()} (${rejectingWorkingHour.total_hours}h)`
+          : ''}
+        onClose={() => setRejectingWorkingHour(null)}
+        onConfirm={rejectEntry}
+      />
+
+      <ApprovalChainsDialog
+        clients={clients}
+        projects={projects}
+        profiles={profiles}
+        isOpen={isChainsDialogOpen}
+        onClose={() => setIsChainsDialogOpen(false)}
+        onChanged={loadApprovalChains}
+      />
+
+      <OvertimeRulesDialog
+        clients={clients}
+        isOpen={isOvertimeDialogOpen}
+        onClose={() => setIsOvertimeDialogOpen(false)}
+      />
+
+      <TimesheetImportDialog
+        profiles={profiles}
+        clients={clients}
+        projects={projects}
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+        onImported={fetchWorkingHours}
+      />
+
+      <FatigueRulesDialog
+        clients={clients}
+        isOpen={isFatigueDialogOpen}
+        onClose={() => setIsFatigueDialogOpen(false)}
       />
     </div>
   );
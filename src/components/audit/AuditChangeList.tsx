@@ -0,0 +1,37 @@
+import { AuditLogEntry } from "@/types/database";
+import { formatAuditValue, formatFieldName, getAuditChanges, ProfileNames } from "@/lib/audit";
+
+interface AuditChangeListProps {
+  entry: AuditLogEntry;
+  profileNames: ProfileNames;
+}
+
+// Before and after values for each field an audit entry touched
+export const AuditChangeList = ({ entry, profileNames }: AuditChangeListProps) => {
+  const changes = getAuditChanges(entry);
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <tbody>
+          {changes.map(change => (
+            <tr key={change.field} className="border-b last:border-0 align-top">
+              <td className="py-1 pr-3 text-gray-600 whitespace-nowrap">{formatFieldName(change.field)}</td>
+              {entry.action !== 'insert' && (
+                <td className="py-1 pr-3 text-red-700 line-through break-all">
+                  {formatAuditValue(change.field, change.before, profileNames)}
+                </td>
+              )}
+              {entry.action !== 'delete' && (
+                <td className="py-1 text-green-700 break-all">
+                  {formatAuditValue(change.field, change.after, profileNames)}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
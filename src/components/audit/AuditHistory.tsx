@@ -0,0 +1,71 @@
+import { useState, useEffect } from "react";
+import { History } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { AuditLogEntry } from "@/types/database";
+import { AuditChangeList } from "./AuditChangeList";
+import { AuditTable, describeAuditEntry, fetchProfileNames, fetchRecordHistory, ProfileNames } from "@/lib/audit";
+
+interface AuditHistoryProps {
+  tableName: AuditTable;
+  recordId: string;
+  includeRelated?: boolean;
+}
+
+// Every recorded change to one record, newest first, for the history tab of view dialogs
+export const AuditHistory = ({ tableName, recordId, includeRelated = false }: AuditHistoryProps) => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [profileNames, setProfileNames] = useState<ProfileNames>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchHistory();
+  }, [tableName, recordId, includeRelated]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      const [history, names] = await Promise.all([
+        fetchRecordHistory(tableName, recordId, includeRelated),
+        fetchProfileNames()
+      ]);
+      setEntries(history);
+      setProfileNames(names);
+      setError("");
+    } catch (error) {
+      console.error('Error fetching audit history:', error);
+      setError("Could not load the change history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-500">Loading...</div>;
+  }
+
+  if (error || entries.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <History className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+        {error || 'No changes recorded yet'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.map(entry => (
+        <div key={entry.id} className="p-3 border rounded-lg space-y-2">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+            <span className="font-medium text-sm text-gray-900">{describeAuditEntry(entry)}</span>
+            <span className="text-xs text-gray-500">
+              {entry.profiles?.full_name || 'System'} · {format(parseISO(entry.created_at), 'dd MMM yyyy HH:mm:ss')}
+            </span>
+          </div>
+          <AuditChangeList entry={entry} profileNames={profileNames} />
+        </div>
+      ))}
+    </div>
+  );
+};
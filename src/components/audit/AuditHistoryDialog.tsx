@@ -0,0 +1,27 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { History } from "lucide-react";
+import { AuditTable } from "@/lib/audit";
+import { AuditHistory } from "./AuditHistory";
+
+interface AuditHistoryDialogProps {
+  tableName: AuditTable;
+  recordId: string | null;
+  title: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Change history for records that have no view dialog of their own
+export const AuditHistoryDialog = ({ tableName, recordId, title, isOpen, onClose }: AuditHistoryDialogProps) => (
+  <Dialog open={isOpen} onOpenChange={onClose}>
+    <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          {title}
+        </DialogTitle>
+      </DialogHeader>
+      {recordId && <AuditHistory tableName={tableName} recordId={recordId} />}
+    </DialogContent>
+  </Dialog>
+);
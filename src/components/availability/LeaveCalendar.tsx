@@ -0,0 +1,177 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+  subMonths
+} from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { LeaveRequest, ProfileUnavailability, Profile } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { LEAVE_TYPE_LABELS } from "@/lib/availability";
+import { toDateString } from "@/lib/time";
+
+type UnavailabilityWithProfile = ProfileUnavailability & { profiles?: Pick<Profile, 'id' | 'full_name'> };
+
+interface CalendarEntry {
+  key: string;
+  name: string;
+  label: string;
+  className: string;
+}
+
+export const LeaveCalendar = () => {
+  const [currentMonth, setCurrentMonth] = useState(new Date());
+  const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
+  const [unavailability, setUnavailability] = useState<UnavailabilityWithProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const calendarStart = startOfWeek(startOfMonth(currentMonth), { weekStartsOn: 1 });
+  const calendarEnd = endOfWeek(endOfMonth(currentMonth), { weekStartsOn: 1 });
+  const rangeStart = toDateString(calendarStart);
+  const rangeEnd = toDateString(calendarEnd);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [rangeStart, rangeEnd]);
+
+  const fetchCalendar = async () => {
+    setLoading(true);
+    try {
+      const [leaveResult, unavailabilityResult] = await Promise.all([
+        supabase
+          .from('leave_requests')
+          .select(`
+            *,
+            profiles!leave_requests_profile_id_fkey (id, full_name)
+          `)
+          .in('status', ['pending', 'approved'])
+          .lte('start_date', rangeEnd)
+          .gte('end_date', rangeStart),
+        supabase
+          .from('profile_unavailability')
+          .select(`
+            *,
+            profiles!profile_unavailability_profile_id_fkey (id, full_name)
+          `)
+          .lte('start_date', rangeEnd)
+          .gte('end_date', rangeStart)
+      ]);
+
+      if (leaveResult.error) throw leaveResult.error;
+      if (unavailabilityResult.error) throw unavailabilityResult.error;
+
+      setLeaveRequests((leaveResult.data || []) as unknown as LeaveRequest[]);
+      setUnavailability((unavailabilityResult.data || []) as unknown as UnavailabilityWithProfile[]);
+    } catch (error) {
+      console.error('Error fetching leave calendar:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load leave calendar",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getEntriesForDay = (day: string): CalendarEntry[] => [
+    ...leaveRequests
+      .filter(leave => leave.start_date <= day && leave.end_date >= day)
+      .map(leave => ({
+        key: `leave-${leave.id}`,
+        name: leave.profiles?.full_name || 'Unknown',
+        label: LEAVE_TYPE_LABELS[leave.leave_type],
+        className: leave.status === 'approved'
+          ? 'bg-green-100 text-green-800'
+          : 'bg-amber-100 text-amber-800 border border-dashed border-amber-300'
+      })),
+    ...unavailability
+      .filter(block => block.start_date <= day && block.end_date >= day)
+      .map(block => ({
+        key: `unavailable-${block.id}`,
+        name: block.profiles?.full_name || 'Unknown',
+        label: block.start_time && block.end_time
+          ? `Unavailable ${block.start_time.slice(0, 5)}-${block.end_time.slice(0, 5)}`
+          : 'Unavailable',
+        className: 'bg-gray-100 text-gray-700'
+      }))
+  ];
+
+  const days = eachDayOfInterval({ start: calendarStart, end: calendarEnd });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col space-y-3 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <CalendarDays className="h-5 w-5 text-blue-600" />
+            Team Leave - {format(currentMonth, 'MMMM yyyy')}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setCurrentMonth(subMonths(currentMonth, 1))}>
+              <ChevronLeft className="h-4 w-4" />
+              Previous
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCurrentMonth(new Date())}>
+              Current Month
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCurrentMonth(addMonths(currentMonth, 1))}>
+              Next
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-gray-600 pt-2">
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100" /> Approved leave</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-amber-100 border border-dashed border-amber-300" /> Pending leave</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-gray-100" /> Unavailable</span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center items-center h-32">Loading leave calendar...</div>
+        ) : (
+          <div className="grid grid-cols-7 gap-1">
+            {['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'].map(label => (
+              <div key={label} className="text-center text-xs font-medium text-gray-600 py-1">{label}</div>
+            ))}
+            {days.map(day => {
+              const entries = getEntriesForDay(toDateString(day));
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={`min-h-24 border rounded p-1 ${
+                    isSameMonth(day, currentMonth) ? 'bg-white' : 'bg-gray-50 text-gray-400'
+                  } ${isToday(day) ? 'border-blue-400' : 'border-gray-200'}`}
+                >
+                  <div className="text-xs font-medium mb-1">{format(day, 'd')}</div>
+                  <div className="space-y-1">
+                    {entries.slice(0, 3).map(entry => (
+                      <div key={entry.key} className={`text-[10px] leading-tight rounded px-1 py-0.5 truncate ${entry.className}`} title={`${entry.name}: ${entry.label}`}>
+                        {entry.name}
+                      </div>
+                    ))}
+                    {entries.length > 3 && (
+                      <div className="text-[10px] text-gray-500">+{entries.length - 3} more</div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
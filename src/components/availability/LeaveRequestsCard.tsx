@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plane, Plus } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { LeaveRequest, LeaveType } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { LEAVE_TYPE_LABELS } from "@/lib/availability";
+import { daysBetween } from "@/lib/time";
+import { notifyPermissionHolders } from "@/lib/notifications";
+
+interface LeaveRequestsCardProps {
+  profileId: string;
+  canRequest: boolean;
+}
+
+export const LeaveRequestsCard = ({ profileId, canRequest }: LeaveRequestsCardProps) => {
+  const [requests, setRequests] = useState<LeaveRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState({
+    leave_type: "annual" as LeaveType,
+    start_date: "",
+    end_date: "",
+    reason: ""
+  });
+  const { toast } = useToast();
+  const { profile } = useAuth();
+
+  useEffect(() => {
+    if (profileId) fetchLeaveRequests();
+  }, [profileId]);
+
+  const fetchLeaveRequests = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('leave_requests')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (error) {
+      console.error('Error fetching leave requests:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load leave requests",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const endDate = formData.end_date || formData.start_date;
+    if (endDate < formData.start_date) {
+      toast({
+        title: "Error",
+        description: "End date cannot be before the start date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { data: request, error } = await supabase
+        .from('leave_requests')
+        .insert({
+          profile_id: profileId,
+          leave_type: formData.leave_type,
+          start_date: formData.start_date,
+          end_date: endDate,
+          reason: formData.reason || null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const dateRange = request.start_date === request.end_date
+        ? format(parseISO(request.start_date), 'MMM dd, yyyy')
+        : `${format(parseISO(request.start_date), 'MMM dd')} to ${format(parseISO(request.end_date), 'MMM dd, yyyy')}`;
+
+      const recipients = await notifyPermissionHolders('roster_manage', {
+        title: 'Leave Request',
+        message: `${profile?.full_name || 'A team member'} requested ${LEAVE_TYPE_LABELS[request.leave_type].toLowerCase()} for ${dateRange}${request.reason ? `: ${request.reason}` : ''}`,
+        type: 'leave_request',
+        sender_profile_id: profileId,
+        related_id: request.id,
+        action_type: 'approve',
+        action_data: {
+          profile_id: profileId,
+          leave_type: request.leave_type,
+          start_date: request.start_date,
+          end_date: request.end_date
+        },
+        priority: 'medium'
+      });
+
+      toast({
+        title: "Success",
+        description: recipients > 0
+          ? "Leave request submitted for approval"
+          : "Leave request saved, but no approver could be notified"
+      });
+
+      setFormData({ leave_type: "annual", start_date: "", end_date: "", reason: "" });
+      setIsDialogOpen(false);
+      fetchLeaveRequests();
+    } catch (error) {
+      console.error('Error submitting leave request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to submit leave request",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const cancelRequest = async (id: string) => {
+    if (!confirm('Are you sure you want to cancel this leave request?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('leave_requests')
+        .update({ status: 'cancelled' })
+        .eq('id', id)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Leave request cancelled" });
+      fetchLeaveRequests();
+    } catch (error) {
+      console.error('Error cancelling leave request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel leave request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const getStatusVariant = (status: LeaveRequest['status']) => {
+    switch (status) {
+      case 'approved':
+        return 'default';
+      case 'rejected':
+        return 'destructive';
+      case 'pending':
+        return 'secondary';
+      default:
+        return 'outline';
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Plane className="h-5 w-5 text-green-600" />
+            Leave Requests
+          </CardTitle>
+          {canRequest && (
+            <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Request Leave
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading leave requests...</div>
+        ) : requests.length === 0 ? (
+          <div className="text-sm text-gray-500">No leave requests yet</div>
+        ) : (
+          <div className="space-y-2">
+            {requests.map(request => (
+              <div key={request.id} className="flex items-start justify-between p-3 border rounded">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{LEAVE_TYPE_LABELS[request.leave_type]}</span>
+                    <Badge variant={getStatusVariant(request.status)} className="text-xs">
+                      {request.status}
+                    </Badge>
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {format(parseISO(request.start_date), 'MMM dd, yyyy')} - {format(parseISO(request.end_date), 'MMM dd, yyyy')}
+                    {' '}({daysBetween(request.start_date, request.end_date) + 1} day{request.start_date !== request.end_date ? 's' : ''})
+                  </div>
+                  {request.reason && <div className="text-xs text-gray-500 mt-1">{request.reason}</div>}
+                  {request.review_notes && (
+                    <div className="text-xs text-gray-600 mt-1 italic">Reviewer: {request.review_notes}</div>
+                  )}
+                </div>
+                {canRequest && request.status === 'pending' && (
+                  <Button variant="outline" size="sm" onClick={() => cancelRequest(request.id)}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Request Leave</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>Leave Type</Label>
+              <Select
+                value={formData.leave_type}
+                onValueChange={(leave_type: LeaveType) => setFormData({ ...formData, leave_type })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LEAVE_TYPE_LABELS) as LeaveType[]).map(type => (
+                    <SelectItem key={type} value={type}>{LEAVE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>From</Label>
+                <Input
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label>To</Label>
+                <Input
+                  type="date"
+                  value={formData.end_date}
+                  min={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Reason</Label>
+              <Textarea
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="Optional details for your manager"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "Submitting..." : "Submit Request"}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarOff, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { ProfileUnavailability } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { toDateString } from "@/lib/time";
+
+interface UnavailabilityCardProps {
+  profileId: string;
+}
+
+export const UnavailabilityCard = ({ profileId }: UnavailabilityCardProps) => {
+  const [blocks, setBlocks] = useState<ProfileUnavailability[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState({
+    start_date: "",
+    end_date: "",
+    start_time: "",
+    end_time: "",
+    reason: ""
+  });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (profileId) fetchUnavailability();
+  }, [profileId]);
+
+  const fetchUnavailability = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profile_unavailability')
+        .select('*')
+        .eq('profile_id', profileId)
+        .gte('end_date', toDateString(new Date()))
+        .order('start_date');
+
+      if (error) throw error;
+      setBlocks(data || []);
+    } catch (error) {
+      console.error('Error fetching unavailability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load unavailable dates",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const endDate = formData.end_date || formData.start_date;
+    if (endDate < formData.start_date) {
+      toast({
+        title: "Error",
+        description: "End date cannot be before the start date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // A time range only makes sense when both ends are given; otherwise block the whole day
+    const hasTimes = formData.start_time && formData.end_time;
+
+    try {
+      const { error } = await supabase
+        .from('profile_unavailability')
+        .insert({
+          profile_id: profileId,
+          start_date: formData.start_date,
+          end_date: endDate,
+          start_time: hasTimes ? formData.start_time : null,
+          end_time: hasTimes ? formData.end_time : null,
+          reason: formData.reason || null
+        });
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Unavailable dates added" });
+      setFormData({ start_date: "", end_date: "", start_time: "", end_time: "", reason: "" });
+      fetchUnavailability();
+    } catch (error) {
+      console.error('Error adding unavailability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add unavailable dates",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeBlock = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('profile_unavailability')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      setBlocks(prev => prev.filter(b => b.id !== id));
+    } catch (error) {
+      console.error('Error removing unavailability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove unavailable dates",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const formatRange = (block: ProfileUnavailability) => {
+    const dates = block.start_date === block.end_date
+      ? format(parseISO(block.start_date), 'MMM dd, yyyy')
+      : `${format(parseISO(block.start_date), 'MMM dd')} - ${format(parseISO(block.end_date), 'MMM dd, yyyy')}`;
+    return block.start_time && block.end_time
+      ? `${dates}, ${block.start_time.slice(0, 5)}-${block.end_time.slice(0, 5)}`
+      : `${dates} (all day)`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarOff className="h-5 w-5 text-gray-600" />
+          Unavailable Dates
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <Label>From Date</Label>
+              <Input
+                type="date"
+                value={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label>To Date</Label>
+              <Input
+                type="date"
+                value={formData.end_date}
+                min={formData.start_date}
+                onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>From Time (optional)</Label>
+              <Input
+                type="time"
+                value={formData.start_time}
+                onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>To Time (optional)</Label>
+              <Input
+                type="time"
+                value={formData.end_time}
+                onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <Input
+              placeholder="Reason (optional)"
+              value={formData.reason}
+              onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+            />
+            <Button type="submit">
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </form>
+
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading unavailable dates...</div>
+        ) : blocks.length === 0 ? (
+          <div className="text-sm text-gray-500">No upcoming unavailable dates</div>
+        ) : (
+          <div className="space-y-2">
+            {blocks.map(block => (
+              <div key={block.id} className="flex items-center justify-between p-2 border rounded bg-gray-50">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{formatRange(block)}</div>
+                  {block.reason && <div className="text-xs text-gray-500">{block.reason}</div>}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => removeBlock(block.id)}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarClock, Plus, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { ProfileAvailability } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { WEEKDAY_LABELS } from "@/lib/roster-recurrence";
+
+interface WeeklyAvailabilityCardProps {
+  profileId: string;
+}
+
+// Monday first, matching the roster calendar
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const WeeklyAvailabilityCard = ({ profileId }: WeeklyAvailabilityCardProps) => {
+  const [windows, setWindows] = useState<ProfileAvailability[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState({
+    weekday: "1",
+    start_time: "09:00",
+    end_time: "17:00"
+  });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (profileId) fetchAvailability();
+  }, [profileId]);
+
+  const fetchAvailability = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profile_availability')
+        .select('*')
+        .eq('profile_id', profileId)
+        .order('weekday')
+        .order('start_time');
+
+      if (error) throw error;
+      setWindows(data || []);
+    } catch (error) {
+      console.error('Error fetching availability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load weekly availability",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const addWindow = async () => {
+    if (!formData.start_time || !formData.end_time) return;
+
+    try {
+      const { error } = await supabase
+        .from('profile_availability')
+        .insert({
+          profile_id: profileId,
+          weekday: parseInt(formData.weekday),
+          start_time: formData.start_time,
+          end_time: formData.end_time
+        });
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Availability added" });
+      fetchAvailability();
+    } catch (error) {
+      console.error('Error adding availability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add availability",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeWindow = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('profile_availability')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      setWindows(prev => prev.filter(w => w.id !== id));
+    } catch (error) {
+      console.error('Error removing availability:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove availability",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarClock className="h-5 w-5 text-blue-600" />
+          Weekly Availability
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+          <div>
+            <Label>Day</Label>
+            <Select value={formData.weekday} onValueChange={(weekday) => setFormData({ ...formData, weekday })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAY_ORDER.map(day => (
+                  <SelectItem key={day} value={day.toString()}>{WEEKDAY_LABELS[day]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>From</Label>
+            <Input
+              type="time"
+              value={formData.start_time}
+              onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input
+              type="time"
+              value={formData.end_time}
+              onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+            />
+          </div>
+          <Button onClick={addWindow}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading availability...</div>
+        ) : windows.length === 0 ? (
+          <div className="text-sm text-gray-500">
+            No weekly availability set - available for rostering at any time.
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {WEEKDAY_ORDER.map(day => {
+              const dayWindows = windows.filter(w => w.weekday === day);
+              return (
+                <div key={day} className="flex items-center gap-3 border-b border-gray-100 pb-2">
+                  <span className="w-12 text-sm font-medium text-gray-700">{WEEKDAY_LABELS[day]}</span>
+                  <div className="flex flex-wrap gap-1">
+                    {dayWindows.length === 0 ? (
+                      <span className="text-xs text-gray-400 italic">Unavailable</span>
+                    ) : dayWindows.map(w => (
+                      <Badge key={w.id} variant="secondary" className="text-xs flex items-center gap-1">
+                        {w.start_time.slice(0, 5)} - {w.end_time.slice(0, 5)}
+                        <button type="button" onClick={() => removeWindow(w.id)}>
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,6 +1,6 @@
 
 import { useState, useMemo } from "react";
-import { Search, User, Eye, EyeOff, Check, List } from "lucide-react";
+import { Search, User, Eye, EyeOff, Check, List, AlertTriangle, CalendarOff, BatteryLow } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
@@ -9,6 +9,9 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Badge } from "@/components/ui/badge";
 import { Profile } from "@/types/database";
+import { ScheduleConflict, formatConflict } from "@/lib/roster-conflicts";
+import { AvailabilityIssue, formatAvailabilityIssue, isBlockingIssue } from "@/lib/availability";
+import { FatigueIssue } from "@/lib/fatigue";
 
 interface MultipleProfileSelectorProps {
   profiles: Profile[];
@@ -18,6 +21,9 @@ interface MultipleProfileSelectorProps {
   placeholder?: string;
   showRoleFilter?: boolean;
   className?: string;
+  conflicts?: Record<string, ScheduleConflict[]>;
+  unavailability?: Record<string, AvailabilityIssue[]>;
+  fatigue?: Record<string, FatigueIssue[]>;
 }
 
 export const MultipleProfileSelector = ({
@@ -27,7 +33,10 @@ export const MultipleProfileSelector = ({
   label = "Profiles",
   placeholder = "Select profiles",
   showRoleFilter = true,
-  className = ""
+  className = "",
+  conflicts = {},
+  unavailability = {},
+  fatigue = {}
 }: MultipleProfileSelectorProps) => {
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedRole, setSelectedRole] = useState<string>("all");
@@ -52,6 +61,13 @@ export const MultipleProfileSelector = ({
   }, [profiles, searchTerm, selectedRole]);
 
   const selectedProfiles = profiles.filter(p => selectedProfileIds.includes(p.id));
+  const conflictedSelections = selectedProfiles.filter(p => (conflicts[p.id]?.length || 0) > 0);
+  const unavailableSelections = selectedProfiles.filter(p => (unavailability[p.id]?.length || 0) > 0);
+  const fatiguedSelections = selectedProfiles.filter(p => (fatigue[p.id]?.length || 0) > 0);
+
+  const isUnavailable = (profileId: string) => unavailability[profileId]?.some(isBlockingIssue) || false;
+  // Unavailable profiles stay selected if they already were, but are never bulk-added
+  const selectableProfiles = filteredProfiles.filter(p => selectedProfileIds.includes(p.id) || !isUnavailable(p.id));
 
   const handleProfileToggle = (profileId: string) => {
     const isSelected = selectedProfileIds.includes(profileId);
@@ -63,7 +79,7 @@ export const MultipleProfileSelector = ({
   };
 
   const selectAll = () => {
-    onProfileSelect(filteredProfiles.map(p => p.id));
+    onProfileSelect(selectableProfiles.map(p => p.id));
   };
 
   const clearAll = () => {
@@ -121,7 +137,7 @@ export const MultipleProfileSelector = ({
               {/* Bulk Actions */}
               <div className="flex gap-2">
                 <Button size="sm" variant="outline" onClick={selectAll}>
-                  Select All ({filteredProfiles.length})
+                  Select All ({selectableProfiles.length})
                 </Button>
                 <Button size="sm" variant="outline" onClick={clearAll}>
                   Clear Selection
@@ -130,22 +146,52 @@ export const MultipleProfileSelector = ({
 
               {/* Profile List with Checkboxes */}
               <div className="max-h-48 overflow-y-auto space-y-2">
-                {filteredProfiles.map((profile) => (
-                  <div
-                    key={profile.id}
-                    className="flex items-center space-x-3 p-2 rounded border bg-white hover:bg-gray-50"
-                  >
-                    <Checkbox
-                      checked={selectedProfileIds.includes(profile.id)}
-                      onCheckedChange={() => handleProfileToggle(profile.id)}
-                    />
-                    <User className="h-4 w-4 text-gray-500" />
-                    <div className="flex-1">
-                      <div className="font-medium">{profile.full_name}</div>
-                      <div className="text-sm text-gray-500">{profile.role} • ${profile.hourly_rate || 0}/hr</div>
+                {filteredProfiles.map((profile) => {
+                  const profileConflicts = conflicts[profile.id] || [];
+                  const profileIssues = unavailability[profile.id] || [];
+                  const unavailable = isUnavailable(profile.id);
+                  const isSelected = selectedProfileIds.includes(profile.id);
+                  return (
+                    <div
+                      key={profile.id}
+                      className={`flex items-center space-x-3 p-2 rounded border ${
+                        unavailable ? 'bg-gray-100 border-gray-200 opacity-60' :
+                        profileConflicts.length > 0 ? 'bg-red-50 border-red-200 hover:bg-gray-50' : 'bg-white hover:bg-gray-50'
+                      }`}
+                    >
+                      <Checkbox
+                        checked={isSelected}
+                        disabled={unavailable && !isSelected}
+                        onCheckedChange={() => handleProfileToggle(profile.id)}
+                      />
+                      <User className="h-4 w-4 text-gray-500" />
+                      <div className="flex-1">
+                        <div className="font-medium">{profile.full_name}</div>
+                        <div className="text-sm text-gray-500">{profile.role} • ${profile.hourly_rate || 0}/hr</div>
+                        {profileConflicts.length > 0 && (
+                          <div className="text-xs text-red-600 mt-1">
+                            Busy: {profileConflicts.map(formatConflict).join('; ')}
+                          </div>
+                        )}
+                        {profileIssues.length > 0 && (
+                          <div className={`text-xs mt-1 ${unavailable ? 'text-gray-700' : 'text-amber-600'}`}>
+                            {profileIssues.map(formatAvailabilityIssue).join('; ')}
+                          </div>
+                        )}
+                        {(fatigue[profile.id]?.length || 0) > 0 && (
+                          <div className="text-xs text-orange-600 mt-1">
+                            Fatigue: {fatigue[profile.id].map(issue => issue.label).join('; ')}
+                          </div>
+                        )}
+                      </div>
+                      {profileIssues.length > 0 ? (
+                        <CalendarOff className={`h-4 w-4 shrink-0 ${unavailable ? 'text-gray-500' : 'text-amber-500'}`} />
+                      ) : profileConflicts.length > 0 && (
+                        <AlertTriangle className="h-4 w-4 text-red-500 shrink-0" />
+                      )}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
 
               {filteredProfiles.length === 0 && (
@@ -200,6 +246,48 @@ export const MultipleProfileSelector = ({
           {selectedProfileIds.length} profile{selectedProfileIds.length !== 1 ? 's' : ''} selected
         </div>
       )}
+
+      {conflictedSelections.length > 0 && (
+        <div className="border border-red-200 bg-red-50 rounded-lg p-3 space-y-1">
+          <div className="flex items-center gap-2 text-sm font-medium text-red-700">
+            <AlertTriangle className="h-4 w-4" />
+            {conflictedSelections.length} selected profile{conflictedSelections.length !== 1 ? 's are' : ' is'} already booked
+          </div>
+          {conflictedSelections.map((profile) => (
+            <div key={profile.id} className="text-xs text-red-600">
+              {profile.full_name}: {conflicts[profile.id].map(formatConflict).join('; ')}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {unavailableSelections.length > 0 && (
+        <div className="border border-amber-200 bg-amber-50 rounded-lg p-3 space-y-1">
+          <div className="flex items-center gap-2 text-sm font-medium text-amber-700">
+            <CalendarOff className="h-4 w-4" />
+            {unavailableSelections.length} selected profile{unavailableSelections.length !== 1 ? 's have' : ' has'} leave or availability restrictions
+          </div>
+          {unavailableSelections.map((profile) => (
+            <div key={profile.id} className="text-xs text-amber-700">
+              {profile.full_name}: {unavailability[profile.id].map(formatAvailabilityIssue).join('; ')}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {fatiguedSelections.length > 0 && (
+        <div className="border border-orange-200 bg-orange-50 rounded-lg p-3 space-y-1">
+          <div className="flex items-center gap-2 text-sm font-medium text-orange-700">
+            <BatteryLow className="h-4 w-4" />
+            {fatiguedSelections.length} selected profile{fatiguedSelections.length !== 1 ? 's' : ''} would break fatigue limits
+          </div>
+          {fatiguedSelections.map((profile) => (
+            <div key={profile.id} className="text-xs text-orange-700">
+              {profile.full_name}: {fatigue[profile.id].map(issue => issue.label).join('; ')}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
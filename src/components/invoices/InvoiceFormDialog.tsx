@@ -0,0 +1,523 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Clock, FileText, Plus, Trash2 } from "lucide-react";
+import { addDays, format, parseISO, startOfMonth, endOfMonth, subMonths } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Client, Invoice, InvoiceLineItem, Project } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { toDateString } from "@/lib/time";
+import {
+  BillableEntry,
+  buildInvoiceLines,
+  calculateInvoiceTotals,
+  DEFAULT_PAYMENT_TERMS_DAYS,
+  DEFAULT_TAX_RATE,
+  emptyLine,
+  fetchUninvoicedHours,
+  getLineAmount,
+  InvoiceLineDraft
+} from "@/lib/invoicing";
+
+interface InvoiceFormDialogProps {
+  clients: Client[];
+  projects: Project[];
+  // The draft to edit, or null to raise a new invoice
+  invoice: Invoice | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// Select value for a manual line not tied to a project
+const NO_PROJECT = "none";
+
+const emptyForm = () => {
+  const lastMonth = subMonths(new Date(), 1);
+  const today = new Date();
+  return {
+    client_id: "",
+    period_start: toDateString(startOfMonth(lastMonth)),
+    period_end: toDateString(endOfMonth(lastMonth)),
+    issue_date: toDateString(today),
+    due_date: toDateString(addDays(today, DEFAULT_PAYMENT_TERMS_DAYS)),
+    tax_rate: String(DEFAULT_TAX_RATE),
+    notes: ""
+  };
+};
+
+export const InvoiceFormDialog = ({ clients, projects, invoice, isOpen, onClose, onSaved }: InvoiceFormDialogProps) => {
+  const [formData, setFormData] = useState(emptyForm());
+  const [lines, setLines] = useState<InvoiceLineDraft[]>([]);
+  const [unpriced, setUnpriced] = useState<BillableEntry[]>([]);
+  const [hoursLoaded, setHoursLoaded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setUnpriced([]);
+    setHoursLoaded(false);
+    if (invoice) {
+      setFormData({
+        client_id: invoice.client_id,
+        period_start: invoice.period_start,
+        period_end: invoice.period_end,
+        issue_date: invoice.issue_date,
+        due_date: invoice.due_date,
+        tax_rate: String(invoice.tax_rate),
+        notes: invoice.notes || ""
+      });
+      fetchLines(invoice.id);
+    } else {
+      setFormData(emptyForm());
+      setLines([]);
+    }
+  }, [isOpen, invoice]);
+
+  const fetchLines = async (invoiceId: string) => {
+    setLoading(true);
+    try {
+      const [linesResult, linksResult] = await Promise.all([
+        supabase.from('invoice_line_items').select('*').eq('invoice_id', invoiceId).order('sort_order'),
+        supabase.from('invoice_working_hours').select('line_item_id, working_hour_id').eq('invoice_id', invoiceId)
+      ]);
+
+      if (linesResult.error) throw linesResult.error;
+      if (linksResult.error) throw linksResult.error;
+
+      setLines(((linesResult.data || []) as InvoiceLineItem[]).map(line => ({
+        id: line.id,
+        project_id: line.project_id || null,
+        description: line.description,
+        quantity: Number(line.quantity),
+        unit_price: Number(line.unit_price),
+        working_hour_ids: (linksResult.data || []).filter(link => link.line_item_id === line.id).map(link => link.working_hour_id)
+      })));
+    } catch (error) {
+      console.error('Error fetching invoice lines:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch invoice lines",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadHours = async () => {
+    if (!formData.client_id) {
+      toast({ title: "Error", description: "Choose a client first", variant: "destructive" });
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { entries, billRates } = await fetchUninvoicedHours(formData.client_id, formData.period_start, formData.period_end);
+      const built = buildInvoiceLines(entries, billRates);
+      // Reloading replaces the unsaved hour lines and keeps manual and saved ones
+      setLines(current => [...current.filter(line => line.id || line.working_hour_ids.length === 0), ...built.lines]);
+      setUnpriced(built.unpriced);
+      setHoursLoaded(true);
+      if (entries.length === 0) {
+        toast({ title: "No hours", description: "There are no approved hours left to bill for this client and period" });
+      }
+    } catch (error) {
+      console.error('Error loading billable hours:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load approved hours",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<InvoiceLineDraft>) =>
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const taxRate = parseFloat(formData.tax_rate) || 0;
+  const totals = calculateInvoiceTotals(lines, taxRate);
+
+  const lineRow = (line: InvoiceLineDraft, index: number) => ({
+    project_id: line.project_id || null,
+    description: line.description.trim(),
+    quantity: line.quantity,
+    unit_price: line.unit_price,
+    amount: getLineAmount(line),
+    sort_order: index
+  });
+
+  // Inserts the new lines with the hours they bill
+  const insertLines = async (invoiceId: string) => {
+    const newLines = lines.map((line, index) => ({ line, index })).filter(({ line }) => !line.id);
+    if (newLines.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('invoice_line_items')
+      .insert(newLines.map(({ line, index }) => ({ ...lineRow(line, index), invoice_id: invoiceId })))
+      .select('id, sort_order');
+
+    if (error) throw error;
+
+    const links = newLines.flatMap(({ line, index }) => {
+      const lineItemId = data?.find(row => row.sort_order === index)?.id;
+      return lineItemId
+        ? line.working_hour_ids.map(working_hour_id => ({ invoice_id: invoiceId, line_item_id: lineItemId, working_hour_id }))
+        : [];
+    });
+    if (links.length === 0) return;
+
+    const { error: linkError } = await supabase.from('invoice_working_hours').insert(links);
+    if (linkError) throw linkError;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const problem = !formData.client_id ? "Choose a client"
+      : formData.period_end < formData.period_start ? "The period ends before it starts"
+      : formData.due_date < formData.issue_date ? "The due date is before the issue date"
+      : lines.length === 0 ? "Add at least one line"
+      : lines.some(line => !line.description.trim()) ? "Every line needs a description"
+      : null;
+    if (problem) {
+      toast({ title: "Error", description: problem, variant: "destructive" });
+      return;
+    }
+
+    const invoiceData = {
+      client_id: formData.client_id,
+      period_start: formData.period_start,
+      period_end: formData.period_end,
+      issue_date: formData.issue_date,
+      due_date: formData.due_date,
+      tax_rate: taxRate,
+      ...totals,
+      notes: formData.notes.trim() || null
+    };
+
+    setSaving(true);
+    try {
+      if (invoice) {
+        const { error } = await supabase
+          .from('invoices')
+          .update({ ...invoiceData, updated_at: new Date().toISOString() })
+          .eq('id', invoice.id);
+        if (error) throw error;
+
+        // Removing a line frees the hours it billed
+        const keptIds = lines.filter(line => line.id).map(line => line.id as string);
+        const { data: savedLines, error: savedError } = await supabase
+          .from('invoice_line_items')
+          .select('id')
+          .eq('invoice_id', invoice.id);
+        if (savedError) throw savedError;
+
+        const removedIds = (savedLines || []).map(line => line.id).filter(id => !keptIds.includes(id));
+        if (removedIds.length > 0) {
+          const { error: deleteError } = await supabase.from('invoice_line_items').delete().in('id', removedIds);
+          if (deleteError) throw deleteError;
+        }
+
+        for (const [index, line] of lines.entries()) {
+          if (!line.id) continue;
+          const { error: lineError } = await supabase.from('invoice_line_items').update(lineRow(line, index)).eq('id', line.id);
+          if (lineError) throw lineError;
+        }
+
+        await insertLines(invoice.id);
+      } else {
+        const { data, error } = await supabase
+          .from('invoices')
+          .insert({ ...invoiceData, created_by: user?.id })
+          .select('id')
+          .single();
+        if (error) throw error;
+
+        try {
+          await insertLines(data.id);
+        } catch (lineError) {
+          // Hours billed elsewhere in the meantime fail the link; drop the half-made invoice
+          await supabase.from('invoices').delete().eq('id', data.id);
+          throw lineError;
+        }
+      }
+
+      toast({ title: "Success", description: invoice ? "Invoice updated" : "Draft invoice created" });
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error saving invoice:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save invoice. Some hours may already be on another invoice.",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const clientProjects = projects.filter(p => p.client_id === formData.client_id);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm sm:max-w-4xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            {invoice ? `Edit ${invoice.invoice_number}` : "New Invoice"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <Label>Client</Label>
+              <Select
+                value={formData.client_id}
+                onValueChange={(value) => {
+                  setFormData({ ...formData, client_id: value });
+                  setLines([]);
+                  setUnpriced([]);
+                  setHoursLoaded(false);
+                }}
+                disabled={!!invoice}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select client" />
+                </SelectTrigger>
+                <SelectContent>
+                  {clients.map(client => (
+                    <SelectItem key={client.id} value={client.id}>{client.company}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="invoice_period_start">Hours from</Label>
+              <Input
+                id="invoice_period_start"
+                type="date"
+                value={formData.period_start}
+                onChange={(e) => setFormData({ ...formData, period_start: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="invoice_period_end">Hours to</Label>
+              <Input
+                id="invoice_period_end"
+                type="date"
+                value={formData.period_end}
+                onChange={(e) => setFormData({ ...formData, period_end: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="invoice_issue_date">Issue date</Label>
+              <Input
+                id="invoice_issue_date"
+                type="date"
+                value={formData.issue_date}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  issue_date: e.target.value,
+                  due_date: e.target.value ? toDateString(addDays(parseISO(e.target.value), DEFAULT_PAYMENT_TERMS_DAYS)) : formData.due_date
+                })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="invoice_due_date">Due date</Label>
+              <Input
+                id="invoice_due_date"
+                type="date"
+                value={formData.due_date}
+                onChange={(e) => setFormData({ ...formData, due_date: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="invoice_tax_rate">Tax (%)</Label>
+              <Input
+                id="invoice_tax_rate"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.tax_rate}
+                onChange={(e) => setFormData({ ...formData, tax_rate: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" onClick={loadHours} disabled={loading || !formData.client_id}>
+              <Clock className="h-4 w-4 mr-2" />
+              {loading ? "Loading..." : hoursLoaded ? "Reload Approved Hours" : "Load Approved Hours"}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setLines([...lines, emptyLine()])}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Line
+            </Button>
+          </div>
+
+          {unpriced.length > 0 && (
+            <div className="flex items-start gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                {unpriced.length} approved {unpriced.length === 1 ? 'entry has' : 'entries have'} no bill rate
+                ({unpriced.map(entry => format(parseISO(entry.date), 'dd MMM')).join(', ')}) and {unpriced.length === 1 ? 'was' : 'were'} left
+                off. Add a rate card for the client or project, then reload the hours.
+              </span>
+            </div>
+          )}
+
+          <div className="border rounded-lg overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="text-left p-2 font-medium">Description</th>
+                  <th className="text-left p-2 font-medium w-40">Project</th>
+                  <th className="text-right p-2 font-medium w-24">Qty / Hours</th>
+                  <th className="text-right p-2 font-medium w-28">Unit price</th>
+                  <th className="text-right p-2 font-medium w-28">Amount</th>
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody>
+                {lines.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-center p-6 text-gray-500">
+                      Load the approved hours or add a line
+                    </td>
+                  </tr>
+                ) : lines.map((line, index) => {
+                  const billsHours = line.working_hour_ids.length > 0;
+                  return (
+                    <tr key={line.id || `new-${index}`} className="border-t align-top">
+                      <td className="p-2">
+                        <Input
+                          value={line.description}
+                          onChange={(e) => updateLine(index, { description: e.target.value })}
+                          aria-label="Line description"
+                        />
+                        {billsHours && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {line.working_hour_ids.length} approved {line.working_hour_ids.length === 1 ? 'entry' : 'entries'}
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {billsHours ? (
+                          <div className="py-2 text-gray-700">{projects.find(p => p.id === line.project_id)?.name || '—'}</div>
+                        ) : (
+                          <Select
+                            value={line.project_id || NO_PROJECT}
+                            onValueChange={(value) => updateLine(index, { project_id: value === NO_PROJECT ? null : value })}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_PROJECT}>No project</SelectItem>
+                              {clientProjects.map(project => (
+                                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          className="text-right"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                          disabled={billsHours}
+                          title={billsHours ? "Billed hours come from the approved timesheets" : undefined}
+                          aria-label="Quantity"
+                        />
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          className="text-right"
+                          value={line.unit_price}
+                          onChange={(e) => updateLine(index, { unit_price: parseFloat(e.target.value) || 0 })}
+                          aria-label="Unit price"
+                        />
+                      </td>
+                      <td className="p-2 text-right py-4 font-medium">${getLineAmount(line).toFixed(2)}</td>
+                      <td className="p-2">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                          className="text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-4 justify-between">
+            <div className="flex-1">
+              <Label htmlFor="invoice_notes">Notes</Label>
+              <Textarea
+                id="invoice_notes"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                placeholder="Payment details or a message for the client"
+                rows={3}
+              />
+            </div>
+            <div className="sm:w-64 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Subtotal</span>
+                <span>${totals.subtotal.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Tax ({taxRate}%)</span>
+                <span>${totals.tax_amount.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between border-t pt-1 text-base font-semibold">
+                <span>Total</span>
+                <span>${totals.total.toFixed(2)}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || loading}>
+              {saving ? "Saving..." : invoice ? "Save Changes" : "Save Draft"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, DollarSign } from "lucide-react";
+import type { BankAccount, Invoice } from "@/types/database";
+import { toDateString } from "@/lib/time";
+
+interface InvoicePaymentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (bankAccountId: string, paymentDate: string) => void;
+  invoice: Invoice | null;
+  bankAccounts: BankAccount[];
+  loading: boolean;
+}
+
+export const InvoicePaymentDialog = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  invoice,
+  bankAccounts,
+  loading
+}: InvoicePaymentDialogProps) => {
+  const [selectedBankAccount, setSelectedBankAccount] = useState<string>("");
+  const [paymentDate, setPaymentDate] = useState(toDateString(new Date()));
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedBankAccount(bankAccounts[0]?.id || "");
+      setPaymentDate(toDateString(new Date()));
+    }
+  }, [isOpen, bankAccounts]);
+
+  if (!invoice) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5 text-green-600" />
+            Record Payment
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <div className="flex justify-between items-center mb-2">
+              <span className="font-medium">Invoice:</span>
+              <span>{invoice.invoice_number}</span>
+            </div>
+            <div className="flex justify-between items-center mb-2">
+              <span className="font-medium">Client:</span>
+              <span>{invoice.clients?.company || 'Unknown'}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="font-medium">Amount:</span>
+              <span className="text-lg font-bold text-green-600">${Number(invoice.total).toLocaleString()}</span>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="payment-bank-account">Paid into</Label>
+            <Select value={selectedBankAccount} onValueChange={setSelectedBankAccount}>
+              <SelectTrigger id="payment-bank-account">
+                <SelectValue placeholder="Choose a bank account" />
+              </SelectTrigger>
+              <SelectContent>
+                {bankAccounts.map((account) => (
+                  <SelectItem key={account.id} value={account.id}>
+                    <div className="flex flex-col">
+                      <span className="font-medium">{account.bank_name}</span>
+                      <span className="text-sm text-gray-600">
+                        {account.account_number} - {account.account_holder_name}
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="payment-date">Payment date</Label>
+            <Input
+              id="payment-date"
+              type="date"
+              value={paymentDate}
+              onChange={(e) => setPaymentDate(e.target.value)}
+            />
+          </div>
+
+          {bankAccounts.length === 0 && (
+            <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+              <AlertCircle className="h-4 w-4 text-yellow-600" />
+              <span className="text-sm text-yellow-700">
+                No bank accounts available. Please add a bank account first.
+              </span>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+            <AlertCircle className="h-4 w-4 text-blue-600" />
+            <span className="text-sm text-blue-700">
+              This records a deposit for each project on the invoice and marks it paid.
+            </span>
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={onClose} disabled={loading}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => onConfirm(selectedBankAccount, paymentDate)}
+              disabled={!selectedBankAccount || !paymentDate || loading || bankAccounts.length === 0}
+            >
+              {loading ? "Processing..." : "Record Payment"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
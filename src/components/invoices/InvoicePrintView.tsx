@@ -0,0 +1,149 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { FileText, Printer } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Invoice, InvoiceLineItem } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+
+interface InvoicePrintViewProps {
+  invoice: Invoice | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'dd MMM yyyy');
+
+// The invoice as the client sees it. Printing to PDF from the browser gives the PDF copy.
+export const InvoicePrintView = ({ invoice, isOpen, onClose }: InvoicePrintViewProps) => {
+  const [lines, setLines] = useState<InvoiceLineItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (invoice && isOpen) {
+      fetchLines();
+    }
+  }, [invoice, isOpen]);
+
+  const fetchLines = async () => {
+    if (!invoice) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('invoice_line_items')
+        .select(`
+          *,
+          projects!invoice_line_items_project_id_fkey (id, name)
+        `)
+        .eq('invoice_id', invoice.id)
+        .order('sort_order');
+
+      if (error) throw error;
+      setLines((data || []) as InvoiceLineItem[]);
+    } catch (error) {
+      console.error('Error fetching invoice lines:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch invoice lines",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!invoice) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm sm:max-w-4xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              {invoice.invoice_number}
+            </DialogTitle>
+            <Button variant="outline" size="sm" onClick={() => window.print()} className="print:hidden">
+              <Printer className="h-4 w-4 mr-2" />
+              Print / Save PDF
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <div className="bg-white p-4 sm:p-8 space-y-6">
+          <div className="flex flex-col sm:flex-row justify-between gap-4 border-b-2 border-gray-800 pb-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-800">TAX INVOICE</h1>
+              <p className="text-gray-600">{invoice.invoice_number}</p>
+            </div>
+            <div className="text-sm space-y-1 sm:text-right">
+              <div><span className="text-gray-600">Issued:</span> {formatDate(invoice.issue_date)}</div>
+              <div><span className="text-gray-600">Due:</span> <span className="font-semibold">{formatDate(invoice.due_date)}</span></div>
+              <div><span className="text-gray-600">Work period:</span> {formatDate(invoice.period_start)} – {formatDate(invoice.period_end)}</div>
+            </div>
+          </div>
+
+          <div className="text-sm">
+            <div className="text-gray-600 uppercase text-xs font-semibold mb-1">Bill to</div>
+            <div className="font-semibold text-gray-900">{invoice.clients?.company}</div>
+            {invoice.clients?.name && <div>{invoice.clients.name}</div>}
+            {invoice.clients?.email && <div>{invoice.clients.email}</div>}
+            {invoice.clients?.phone && <div>{invoice.clients.phone}</div>}
+          </div>
+
+          {loading ? (
+            <div className="text-center py-8 text-gray-500">Loading...</div>
+          ) : (
+            <table className="w-full border-collapse border border-gray-300 text-sm">
+              <thead>
+                <tr className="bg-gray-100">
+                  <th className="border border-gray-300 py-2 px-3 text-left font-semibold">Description</th>
+                  <th className="border border-gray-300 py-2 px-3 text-right font-semibold">Qty / Hours</th>
+                  <th className="border border-gray-300 py-2 px-3 text-right font-semibold">Unit Price ($)</th>
+                  <th className="border border-gray-300 py-2 px-3 text-right font-semibold">Amount ($)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map(line => (
+                  <tr key={line.id}>
+                    <td className="border border-gray-300 py-2 px-3">{line.description}</td>
+                    <td className="border border-gray-300 py-2 px-3 text-right">{Number(line.quantity).toFixed(2)}</td>
+                    <td className="border border-gray-300 py-2 px-3 text-right">{Number(line.unit_price).toFixed(2)}</td>
+                    <td className="border border-gray-300 py-2 px-3 text-right">{Number(line.amount).toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={3} className="border border-gray-300 py-2 px-3 text-right">Subtotal</td>
+                  <td className="border border-gray-300 py-2 px-3 text-right">{Number(invoice.subtotal).toFixed(2)}</td>
+                </tr>
+                <tr>
+                  <td colSpan={3} className="border border-gray-300 py-2 px-3 text-right">Tax ({Number(invoice.tax_rate)}%)</td>
+                  <td className="border border-gray-300 py-2 px-3 text-right">{Number(invoice.tax_amount).toFixed(2)}</td>
+                </tr>
+                <tr className="bg-gray-200 font-semibold">
+                  <td colSpan={3} className="border border-gray-300 py-2 px-3 text-right">TOTAL DUE</td>
+                  <td className="border border-gray-300 py-2 px-3 text-right">${Number(invoice.total).toFixed(2)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          )}
+
+          {invoice.notes && (
+            <div className="text-sm whitespace-pre-line border-t pt-4">{invoice.notes}</div>
+          )}
+
+          {invoice.status === 'paid' && invoice.paid_at && (
+            <div className="text-center text-green-700 font-semibold border-2 border-green-600 rounded py-2">
+              PAID {formatDate(invoice.paid_at.split('T')[0])}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
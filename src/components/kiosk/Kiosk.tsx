@@ -0,0 +1,62 @@
+import { useState, useEffect } from "react";
+import { Clock } from "lucide-react";
+import { format } from "date-fns";
+import { KioskPinPad } from "./KioskPinPad";
+import { KioskShiftList } from "./KioskShiftList";
+
+// Back to the PIN pad when someone walks away without tapping Done
+const IDLE_TIMEOUT_MS = 30000;
+
+// Shared clock-in screen: staff enter their PIN, then clock in or out of today's rosters
+export const Kiosk = () => {
+  const [now, setNow] = useState(new Date());
+  const [identified, setIdentified] = useState<{ profile_id: string; full_name: string } | null>(null);
+  const [lastActivity, setLastActivity] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (identified && now.getTime() - lastActivity > IDLE_TIMEOUT_MS) {
+      setIdentified(null);
+    }
+  }, [now, identified, lastActivity]);
+
+  return (
+    <div
+      className="min-h-screen bg-gray-50 flex flex-col"
+      onPointerDown={() => setLastActivity(Date.now())}
+    >
+      <header className="flex items-center justify-between p-4 md:p-6 bg-white border-b">
+        <div className="flex items-center gap-3">
+          <Clock className="h-8 w-8 text-blue-600" />
+          <h1 className="text-2xl font-bold text-gray-900">Clock In / Out</h1>
+        </div>
+        <div className="text-right">
+          <div className="text-3xl font-bold text-gray-900 tabular-nums">{format(now, 'HH:mm:ss')}</div>
+          <div className="text-sm text-gray-600">{format(now, 'EEEE, MMMM d')}</div>
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        {identified ? (
+          <KioskShiftList
+            key={identified.profile_id}
+            profileId={identified.profile_id}
+            fullName={identified.full_name}
+            onDone={() => setIdentified(null)}
+          />
+        ) : (
+          <KioskPinPad
+            onIdentified={(profile) => {
+              setLastActivity(Date.now());
+              setIdentified(profile);
+            }}
+          />
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+// Issues staff the PIN they use at the clock-in kiosk. PINs are picked by the database
+// so that nobody can probe which PINs are taken; a new one is shown only once.
+export const KioskPinCard = () => {
+  const { profile } = useAuth();
+  const [hasPin, setHasPin] = useState(false);
+  const [issuedPin, setIssuedPin] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (profile?.id) fetchPinStatus();
+  }, [profile?.id]);
+
+  const fetchPinStatus = async () => {
+    if (!profile?.id) return;
+
+    const { data, error } = await supabase.rpc('has_kiosk_pin', { target_profile_id: profile.id });
+    if (error) {
+      console.error('Error checking kiosk PIN:', error);
+      return;
+    }
+    setHasPin(!!data);
+  };
+
+  const handleIssue = async () => {
+    if (!profile?.id) return;
+    if (hasPin && !confirm('Get a new PIN? Your current PIN will stop working.')) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('issue_kiosk_pin', { target_profile_id: profile.id });
+      if (error) throw error;
+
+      setIssuedPin(data);
+      setHasPin(true);
+    } catch (error) {
+      console.error('Error issuing kiosk PIN:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to issue kiosk PIN",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Clock-in PIN
+          {hasPin && <Badge variant="outline" className="text-green-700 border-green-200">Set</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          {issuedPin ? (
+            <div className="flex-1">
+              <div className="text-sm text-gray-600">Your new PIN</div>
+              <div className="text-3xl font-mono font-bold tracking-widest text-gray-900">{issuedPin}</div>
+              <p className="text-xs text-gray-500 mt-1">Note it down now, it won't be shown again.</p>
+            </div>
+          ) : (
+            <p className="flex-1 text-sm text-gray-600">
+              {hasPin ? 'You have a PIN. If you have forgotten it, get a new one.' : 'Get a PIN to clock in and out at the kiosk.'}
+            </p>
+          )}
+          <Button onClick={handleIssue} disabled={saving}>
+            {saving ? "Issuing..." : hasPin ? "Get New PIN" : "Get PIN"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Delete } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+
+interface KioskPinPadProps {
+  onIdentified: (profile: { profile_id: string; full_name: string }) => void;
+}
+
+const MAX_PIN_LENGTH = 8;
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+export const KioskPinPad = ({ onIdentified }: KioskPinPadProps) => {
+  const [pin, setPin] = useState("");
+  const [checking, setChecking] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const press = (digit: string) => {
+    setMessage("");
+    setPin(current => (current.length < MAX_PIN_LENGTH ? current + digit : current));
+  };
+
+  const handleSubmit = async () => {
+    if (pin.length < 4) return;
+
+    setChecking(true);
+    try {
+      const { data, error } = await supabase.rpc('identify_kiosk_pin', { pin });
+      if (error) throw error;
+
+      if (!data || data.length === 0) {
+        setMessage("PIN not recognised");
+        return;
+      }
+      onIdentified(data[0]);
+    } catch (error) {
+      console.error('Error checking kiosk PIN:', error);
+      setMessage(error instanceof Error ? error.message : "Could not check PIN");
+    } finally {
+      setPin("");
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-xs mx-auto space-y-6">
+      <div className="text-center">
+        <p className="text-lg text-gray-700">Enter your PIN</p>
+        <div className="flex justify-center gap-3 mt-4 h-4">
+          {Array.from({ length: Math.max(pin.length, 4) }, (_, i) => (
+            <span
+              key={i}
+              className={`h-4 w-4 rounded-full border-2 border-blue-600 ${i < pin.length ? 'bg-blue-600' : ''}`}
+            />
+          ))}
+        </div>
+        <p className="text-sm text-red-600 mt-3 h-5">{message}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {KEYS.map(key => (
+          <Button key={key} variant="outline" className="h-16 text-2xl" onClick={() => press(key)} disabled={checking}>
+            {key}
+          </Button>
+        ))}
+        <Button variant="outline" className="h-16" onClick={() => setPin(pin.slice(0, -1))} disabled={checking}>
+          <Delete className="h-6 w-6" />
+        </Button>
+        <Button variant="outline" className="h-16 text-2xl" onClick={() => press('0')} disabled={checking}>
+          0
+        </Button>
+        <Button className="h-16 text-lg" onClick={handleSubmit} disabled={checking || pin.length < 4}>
+          {checking ? "..." : "Enter"}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LogIn, LogOut, CheckCircle2, AlertTriangle } from "lucide-react";
+import { ClockResult, ClockShift, useClockShifts } from "@/hooks/useClockShifts";
+import { formatAttendanceFlags, getAttendanceFlags } from "@/lib/attendance";
+import { formatTimeRange } from "@/lib/time";
+
+interface KioskShiftListProps {
+  profileId: string;
+  fullName: string;
+  onDone: () => void;
+}
+
+export const KioskShiftList = ({ profileId, fullName, onDone }: KioskShiftListProps) => {
+  const { shifts, loading, error: loadError, today, clockIn, clockOut } = useClockShifts(profileId);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [result, setResult] = useState<ClockResult | null>(null);
+  const [actionError, setActionError] = useState("");
+
+  const error = actionError || loadError;
+
+  // The kiosk is a fixed device on site, so no position is captured
+  const handleClock = async (shift: ClockShift, action: 'in' | 'out') => {
+    setSavingKey(shift.key);
+    setActionError("");
+    try {
+      setResult(action === 'in' ? await clockIn(shift) : await clockOut(shift));
+    } catch (error) {
+      console.error(`Error clocking ${action}:`, error);
+      setActionError(error instanceof Error ? error.message : `Failed to clock ${action}`);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="text-center space-y-4">
+        <CheckCircle2 className="h-16 w-16 text-green-600 mx-auto" />
+        <p className="text-2xl font-semibold text-gray-900">{result.text}</p>
+        {result.flags.map(flag => (
+          <p key={flag} className="flex items-center justify-center gap-2 text-orange-700">
+            <AlertTriangle className="h-4 w-4" />
+            {flag}
+          </p>
+        ))}
+        <Button size="lg" onClick={onDone}>Done</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-lg mx-auto space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xl font-semibold text-gray-900">Hi {fullName}</p>
+        <Button variant="outline" onClick={onDone}>Not you?</Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500">Loading your shifts...</div>
+      ) : shifts.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">You're not rostered on today</div>
+      ) : (
+        <div className="space-y-3">
+          {shifts.map(shift => {
+            const wh = shift.workingHour;
+            const flags = wh ? formatAttendanceFlags(getAttendanceFlags(wh)) : [];
+            return (
+              <div key={shift.key} className="p-4 border rounded-lg bg-white space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium text-gray-900">{shift.label}</div>
+                    <div className="text-sm text-gray-600">
+                      {shift.date !== today && 'Yesterday '}
+                      {formatTimeRange(shift.start_time, shift.end_time)}
+                    </div>
+                  </div>
+                  {wh?.sign_in_time && (
+                    <Badge variant="outline">
+                      In {wh.sign_in_time.slice(0, 5)}{wh.sign_out_time && ` · Out ${wh.sign_out_time.slice(0, 5)}`}
+                    </Badge>
+                  )}
+                </div>
+                {flags.map(flag => (
+                  <p key={flag} className="text-xs text-orange-700">{flag}</p>
+                ))}
+                {!wh?.sign_in_time ? (
+                  <Button className="w-full h-12" onClick={() => handleClock(shift, 'in')} disabled={savingKey !== null}>
+                    <LogIn className="h-5 w-5 mr-2" />
+                    Clock In
+                  </Button>
+                ) : !wh.sign_out_time ? (
+                  <Button className="w-full h-12" variant="secondary" onClick={() => handleClock(shift, 'out')} disabled={savingKey !== null}>
+                    <LogOut className="h-5 w-5 mr-2" />
+                    Clock Out
+                  </Button>
+                ) : (
+                  <p className="text-sm text-green-700 text-center">Shift complete</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
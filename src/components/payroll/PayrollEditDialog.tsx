@@ -6,10 +6,42 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Checkbox } from "@/components/ui/checkbox";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Clock, ChevronDown, ChevronUp, Zap, Link } from "lucide-react";
-import type { Payroll as PayrollType, WorkingHour, PayrollWorkingHours } from "@/types/database";
+import { AlertTriangle, ChevronDown, ChevronUp, Link, Plus, RefreshCw, Trash2 } from "lucide-react";
+import type {
+  Payroll as PayrollType,
+  PayrollLineItemType,
+  Profile,
+  SalaryTemplate,
+  SuperGuaranteeRate,
+  TaxScale,
+  WorkingHour
+} from "@/types/database";
+import {
+  calculatePayroll,
+  fetchPayrollLineItems,
+  fetchSalaryTemplates,
+  PAYROLL_ITEM_TYPE_LABELS,
+  PayrollEntry,
+  PayrollItemDraft,
+  resolveSalaryTemplate,
+  updatePayroll
+} from "@/lib/payroll";
+import { fetchTaxScales, getWithholdingInput, MISSING_TAX_SCALE_NOTE } from "@/lib/tax-withholding";
+import { fetchGuaranteeRates, resolveGuaranteeRate } from "@/lib/superannuation";
+
+type PayrollProfile = Pick<Profile, 'id' | 'hourly_rate' | 'tax_file_number' | 'tax_free_threshold_claimed'>;
+
+// What the pay is worked out from besides the form, loaded when the dialog opens
+interface PayrollEditInputs {
+  profile: PayrollProfile;
+  linkedWorkingHours: WorkingHour[];
+  templates: SalaryTemplate[];
+  taxScales: TaxScale[];
+  guaranteeRates: SuperGuaranteeRate[];
+}
 
 interface PayrollEditDialogProps {
   payroll: PayrollType | null;
@@ -20,16 +52,17 @@ interface PayrollEditDialogProps {
 
 export const PayrollEditDialog = ({ payroll, isOpen, onClose, onSuccess }: PayrollEditDialogProps) => {
   const [loading, setLoading] = useState(false);
-  const [linkedWorkingHours, setLinkedWorkingHours] = useState<WorkingHour[]>([]);
+  // Saving replaces the payroll's line items, so it waits until they have loaded
+  const [inputs, setInputs] = useState<PayrollEditInputs | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
   const [isWorkingHoursPreviewOpen, setIsWorkingHoursPreviewOpen] = useState(false);
+  const [lineItems, setLineItems] = useState<PayrollItemDraft[]>([]);
+  // Hours and rate are only entered for payrolls with no linked working hours
   const [formData, setFormData] = useState({
     pay_period_start: "",
     pay_period_end: "",
     total_hours: 0,
     hourly_rate: 0,
-    gross_pay: 0,
-    deductions: 0,
-    net_pay: 0,
     status: 'pending' as 'pending' | 'approved' | 'paid'
   });
   const { toast } = useToast();
@@ -42,117 +75,140 @@ export const PayrollEditDialog = ({ payroll, isOpen, onClose, onSuccess }: Payro
         pay_period_end: payroll.pay_period_end,
         total_hours: payroll.total_hours,
         hourly_rate: payroll.hourly_rate,
-        gross_pay: payroll.gross_pay,
-        deductions: payroll.deductions,
-        net_pay: payroll.net_pay,
         status: payroll.status
       });
-      
-      // Fetch the actually linked working hours from the new table
-      fetchLinkedWorkingHours();
+      setLineItems([]);
+      setInputs(null);
+      fetchInputs();
     }
   }, [payroll, isOpen]);
 
-  const fetchLinkedWorkingHours = async () => {
+  const fetchInputs = async () => {
     if (!payroll) return;
-    
+
+    setLoadFailed(false);
     try {
-      const { data, error } = await supabase
-        .from('payroll_working_hours')
-        .select(`
-          *,
-          working_hours!inner (
-            *,
-            clients!working_hours_client_id_fkey (id, name, company, email, status, created_at, updated_at),
-            projects!working_hours_project_id_fkey (id, name)
-          )
-        `)
-        .eq('payroll_id', payroll.id)
-        .order('working_hours.date', { ascending: false });
-
-      if (error) throw error;
-      
-      // Extract the working hours from the linked records
-      const workingHours = (data || []).map((item: PayrollWorkingHours & { working_hours: WorkingHour }) => item.working_hours);
-      setLinkedWorkingHours(workingHours);
-      setIsWorkingHoursPreviewOpen(workingHours.length > 0);
+      const [linkedWorkingHours, items, profile, templates, taxScales, guaranteeRates] = await Promise.all([
+        fetchLinkedWorkingHours(payroll.id),
+        fetchPayrollLineItems([payroll.id]),
+        fetchProfile(payroll.profile_id),
+        fetchSalaryTemplates(),
+        fetchTaxScales(),
+        fetchGuaranteeRates()
+      ]);
+
+      setLineItems(items.map(({ type, description, amount, taxable, is_recurring }) =>
+        ({ type, description, amount: Number(amount), taxable, is_recurring })));
+      setInputs({ profile, linkedWorkingHours, templates, taxScales, guaranteeRates });
+      setIsWorkingHoursPreviewOpen(linkedWorkingHours.length > 0);
     } catch (error) {
-      console.error('Error fetching linked working hours:', error);
+      console.error('Error fetching payroll details:', error);
+      setLoadFailed(true);
       toast({
-        title: "Warning",
-        description: "Could not fetch linked working hours",
+        title: "Error",
+        description: "Could not load this payroll's line items and working hours",
         variant: "destructive"
       });
     }
   };
 
+  const fetchLinkedWorkingHours = async (payrollId: string) => {
+    const { data, error } = await supabase
+      .from('payroll_working_hours')
+      .select(`
+        *,
+        working_hours!inner (
+          *,
+          clients!working_hours_client_id_fkey (id, name, company, email, status, created_at, updated_at),
+          projects!working_hours_project_id_fkey (id, name)
+        )
+      `)
+      .eq('payroll_id', payrollId)
+      .order('working_hours.date', { ascending: false });
+
+    if (error) throw error;
+
+    // Extract the working hours from the linked records
+    return ((data || []) as unknown as { working_hours: WorkingHour }[]).map(item => item.working_hours);
+  };
+
+  const fetchProfile = async (profileId: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, hourly_rate, tax_file_number, tax_free_threshold_claimed')
+      .eq('id', profileId)
+      .single();
+
+    if (error) throw error;
+    return data as PayrollProfile;
+  };
+
+  // The linked hours are paid by their stored breakdowns; without any, the entered hours are paid at the entered rate
+  const entries: PayrollEntry[] = inputs && inputs.linkedWorkingHours.length > 0
+    ? inputs.linkedWorkingHours
+    : [{
+      id: 'entered',
+      total_hours: Number(formData.total_hours),
+      actual_hours: null,
+      hourly_rate: Number(formData.hourly_rate),
+      overtime_breakdown: null
+    }];
+  const template = inputs && payroll
+    ? inputs.templates.find(t => t.id === payroll.salary_template_id)
+      || resolveSalaryTemplate(inputs.templates, payroll.profile_id, inputs.linkedWorkingHours)
+    : null;
+  const tax = inputs && formData.pay_period_start && formData.pay_period_end
+    ? getWithholdingInput(inputs.taxScales, inputs.profile, formData.pay_period_start, formData.pay_period_end)
+    : undefined;
+  // Hours can still be shown without a tax scale, but pay can't be worked out or saved
+  const missingTaxScale = !!tax && !tax.scale;
+  const calculation = inputs ? calculatePayroll({
+    profile: inputs.profile,
+    entries,
+    template,
+    items: lineItems.map(item => ({ ...item, amount: Number(item.amount) })),
+    tax: missingTaxScale ? undefined : tax,
+    superGuaranteePercentage: formData.pay_period_end ? resolveGuaranteeRate(inputs.guaranteeRates, formData.pay_period_end) : null
+  }) : null;
+  const hasLinkedHours = !!inputs && inputs.linkedWorkingHours.length > 0;
+
   const handleInputChange = (field: string, value: string | number) => {
-    setFormData(prev => {
-      const updated = { ...prev, [field]: value };
-      
-      // Recalculate gross pay and net pay when relevant fields change
-      if (field === 'total_hours' || field === 'hourly_rate') {
-        const totalHours = field === 'total_hours' ? Number(value) : updated.total_hours;
-        const hourlyRate = field === 'hourly_rate' ? Number(value) : updated.hourly_rate;
-        updated.gross_pay = totalHours * hourlyRate;
-        updated.net_pay = updated.gross_pay - updated.deductions;
-      }
-      
-      if (field === 'deductions') {
-        updated.net_pay = updated.gross_pay - Number(value);
-      }
-      
-      if (field === 'gross_pay') {
-        updated.net_pay = Number(value) - updated.deductions;
-      }
-      
-      return updated;
-    });
+    setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  const recalculateFromLinkedWorkingHours = () => {
-    if (linkedWorkingHours.length > 0) {
-      const totalHours = linkedWorkingHours.reduce((sum, wh) => sum + wh.total_hours, 0);
-      const avgHourlyRate = linkedWorkingHours.reduce((sum, wh) => sum + (wh.hourly_rate || 0), 0) / linkedWorkingHours.length;
-      const grossPay = totalHours * avgHourlyRate;
-      
-      setFormData(prev => ({
-        ...prev,
-        total_hours: totalHours,
-        hourly_rate: avgHourlyRate,
-        gross_pay: grossPay,
-        net_pay: grossPay - prev.deductions
-      }));
+  const handleLineItemChange = (index: number, changes: Partial<PayrollItemDraft>) => {
+    setLineItems(prev => prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
 
-      toast({
-        title: "Recalculated",
-        description: `Payroll recalculated from ${linkedWorkingHours.length} linked working hours`
-      });
-    }
+  const addLineItem = () => {
+    setLineItems(prev => [...prev, { type: 'allowance', description: '', amount: 0, taxable: true, is_recurring: false }]);
+  };
+
+  const removeLineItem = (index: number) => {
+    setLineItems(prev => prev.filter((_, i) => i !== index));
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!payroll) return;
+    if (!payroll || !calculation || missingTaxScale) return;
+
+    const items = lineItems.map(item => ({ ...item, description: item.description.trim(), amount: Number(item.amount) }));
+    if (items.some(item => !item.description || !(item.amount > 0))) {
+      toast({
+        title: "Error",
+        description: "Each line item needs a description and an amount above zero",
+        variant: "destructive"
+      });
+      return;
+    }
 
     setLoading(true);
     try {
-      const { error } = await supabase
-        .from('payroll')
-        .update({
-          pay_period_start: formData.pay_period_start,
-          pay_period_end: formData.pay_period_end,
-          total_hours: Number(formData.total_hours),
-          hourly_rate: Number(formData.hourly_rate),
-          gross_pay: Number(formData.gross_pay),
-          deductions: Number(formData.deductions),
-          net_pay: Number(formData.net_pay),
-          status: formData.status,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', payroll.id);
-
-      if (error) throw error;
+      await updatePayroll(payroll.id, {
+        pay_period_start: formData.pay_period_start,
+        pay_period_end: formData.pay_period_end,
+        status: formData.status
+      }, items, calculation);
 
       toast({
         title: "Success",
@@ -165,7 +221,7 @@ export const PayrollEditDialog = ({ payroll, isOpen, onClose, onSuccess }: Payro
       console.error('Error updating payroll:', error);
       toast({
         title: "Error",
-        description: "Failed to update payroll record",
+        description: error instanceof Error ? error.message : "Failed to update payroll record",
         variant: "destructive"
       });
     } finally {
@@ -184,7 +240,7 @@ export const PayrollEditDialog = ({ payroll, isOpen, onClose, onSuccess }: Payro
         
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-            <div className="flex items-center gap-3 mb-2">
+            <div className="flex items-center gap-3">
               <div className="h-10 w-10 bg-blue-600 rounded-full flex items-center justify-center">
                 <span className="font-medium text-white">
                   {payroll.profiles?.full_name?.split(' ').map(n => n[0]).join('') || 'U'}
@@ -195,20 +251,18 @@ export const PayrollEditDialog = ({ payroll, isOpen, onClose, onSuccess }: Payro
                 <p className="text-sm text-blue-700">{payroll.profiles?.role}</p>
               </div>
             </div>
-            {linkedWorkingHours.length > 0 && (
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={recalculateFromLinkedWorkingHours}
-                className="w-full flex items-center gap-2"
-              >
-                <Zap className="h-4 w-4" />
-                Recalculate from Linked Working Hours ({linkedWorkingHours.length} entries)
-              </Button>
-            )}
           </div>
 
+          {loadFailed && (
+            <div className="flex items-center justify-between gap-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+              This payroll's line items and working hours could not be loaded, so it can't be saved yet.
+              <Button type="button" variant="outline" size="sm" onClick={fetchInputs} className="flex items-center gap-1 shrink-0">
+                <RefreshCw className="h-4 w-4" />
+                Retry
+              </Button>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <Label htmlFor="pay_period_start">Pay Period Start</Label>
@@ -234,80 +288,147 @@ export const PayrollEditDialog = ({ payroll, isOpen, onClose, onSuccess }: Payro
 
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="total_hours">Total Hours</Label>
+              <Label htmlFor="total_hours">{hasLinkedHours ? 'Total Hours (from linked hours)' : 'Total Hours'}</Label>
               <Input
                 id="total_hours"
                 type="number"
                 step="0.01"
-                value={formData.total_hours}
+                value={hasLinkedHours ? calculation?.total_hours : formData.total_hours}
                 onChange={(e) => handleInputChange('total_hours', e.target.value)}
+                readOnly={hasLinkedHours}
+                className={hasLinkedHours ? "bg-gray-50" : ""}
                 required
               />
             </div>
             <div>
-              <Label htmlFor="hourly_rate">Hourly Rate</Label>
+              <Label htmlFor="hourly_rate">{hasLinkedHours ? 'Average Hourly Rate (from linked hours)' : 'Hourly Rate'}</Label>
               <Input
                 id="hourly_rate"
                 type="number"
                 step="0.01"
-                value={formData.hourly_rate}
+                value={hasLinkedHours ? calculation?.hourly_rate : formData.hourly_rate}
                 onChange={(e) => handleInputChange('hourly_rate', e.target.value)}
+                readOnly={hasLinkedHours}
+                className={hasLinkedHours ? "bg-gray-50" : ""}
                 required
               />
             </div>
           </div>
 
-          <div className="grid grid-cols-3 gap-4">
-            <div>
-              <Label htmlFor="gross_pay">Gross Pay</Label>
-              <Input
-                id="gross_pay"
-                type="number"
-                step="0.01"
-                value={formData.gross_pay}
-                onChange={(e) => handleInputChange('gross_pay', e.target.value)}
-                required
-              />
-            </div>
-            <div>
-              <Label htmlFor="deductions">Deductions</Label>
-              <Input
-                id="deductions"
-                type="number"
-                step="0.01"
-                value={formData.deductions}
-                onChange={(e) => handleInputChange('deductions', e.target.value)}
-                required
-              />
-            </div>
-            <div>
-              <Label htmlFor="net_pay">Net Pay</Label>
-              <Input
-                id="net_pay"
-                type="number"
-                step="0.01"
-                value={formData.net_pay}
-                readOnly
-                className="bg-gray-100"
-              />
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Line Items</Label>
+              <Button type="button" variant="outline" size="sm" onClick={addLineItem} className="flex items-center gap-1">
+                <Plus className="h-4 w-4" />
+                Add Item
+              </Button>
             </div>
+            {lineItems.length === 0 ? (
+              <p className="text-sm text-gray-500">No earnings, allowances, reimbursements or deductions beyond pay for hours</p>
+            ) : (
+              lineItems.map((item, index) => (
+                <div key={index} className="border rounded-lg p-3 space-y-2">
+                  <div className="grid grid-cols-1 sm:grid-cols-[140px_1fr_110px_auto] gap-2">
+                    <Select
+                      value={item.type}
+                      onValueChange={(value: PayrollLineItemType) => handleLineItemChange(index, {
+                        type: value,
+                        // Reimbursements are never taxed, and deductions are after tax unless marked otherwise
+                        taxable: value === 'earning' || value === 'allowance'
+                      })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(PAYROLL_ITEM_TYPE_LABELS) as PayrollLineItemType[]).map(type => (
+                          <SelectItem key={type} value={type}>{PAYROLL_ITEM_TYPE_LABELS[type]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Description"
+                      value={item.description}
+                      onChange={(e) => handleLineItemChange(index, { description: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Amount"
+                      value={item.amount}
+                      onChange={(e) => handleLineItemChange(index, { amount: Number(e.target.value) })}
+                    />
+                    <Button type="button" variant="ghost" size="sm" onClick={() => removeLineItem(index)} title="Remove item">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    {item.type !== 'reimbursement' && (
+                      <label className="flex items-center gap-2">
+                        <Checkbox
+                          checked={item.taxable}
+                          onCheckedChange={(checked) => handleLineItemChange(index, { taxable: checked === true })}
+                        />
+                        {item.type === 'deduction' ? 'Before tax' : 'Taxable'}
+                      </label>
+                    )}
+                    <label className="flex items-center gap-2">
+                      <Checkbox
+                        checked={item.is_recurring}
+                        onCheckedChange={(checked) => handleLineItemChange(index, { is_recurring: checked === true })}
+                      />
+                      Recurring on later payrolls
+                    </label>
+                  </div>
+                </div>
+              ))
+            )}
           </div>
 
-          {/* Real-time calculation preview */}
-          {formData.total_hours > 0 && formData.hourly_rate > 0 && (
-            <div className="bg-gray-50 p-3 rounded">
+          {missingTaxScale && (
+            <div className="flex items-center gap-2 p-2 bg-orange-50 border border-orange-200 rounded text-sm text-orange-700">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {MISSING_TAX_SCALE_NOTE}
+            </div>
+          )}
+
+          {calculation && !missingTaxScale && (
+            <div className="bg-gray-50 p-3 rounded space-y-1">
+              {template && <div className="text-sm text-gray-600">Salary template: {template.name}</div>}
+              {calculation.lines.map(line => (
+                <div key={`${line.kind}-${line.label}-${line.rate}`} className="flex justify-between text-sm">
+                  <span>
+                    {line.label}
+                    {line.hours !== null && ` (${line.hours}h × $${line.rate?.toFixed(2)})`}
+                  </span>
+                  <span className={line.kind === 'deduction' || line.kind === 'tax' ? 'text-red-600' : ''}>
+                    {line.kind === 'deduction' || line.kind === 'tax' ? '-' : ''}${line.amount.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+              <div className="flex justify-between text-sm border-t pt-1">
+                <span>Gross Pay:</span>
+                <span>${calculation.gross_pay.toFixed(2)}</span>
+              </div>
               <div className="flex justify-between text-sm">
-                <span>Calculated Gross Pay:</span>
-                <span>${(formData.total_hours * formData.hourly_rate).toFixed(2)}</span>
+                <span>Tax:</span>
+                <span>-${calculation.tax_withheld.toFixed(2)}</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span>Deductions:</span>
-                <span>-${formData.deductions.toFixed(2)}</span>
+                <span>-${calculation.deductions.toFixed(2)}</span>
               </div>
               <div className="flex justify-between font-medium">
-                <span>Calculated Net Pay:</span>
-                <span>${(formData.total_hours * formData.hourly_rate - formData.deductions).toFixed(2)}</span>
+                <span>Net Pay:</span>
+                <span>${calculation.net_pay.toFixed(2)}</span>
               </div>
+              {calculation.super_guarantee_percentage !== null && (
+                <div className="flex justify-between text-sm text-gray-600">
+                  <span>Employer super ({Number(calculation.super_guarantee_percentage)}% of ${calculation.ordinary_time_earnings.toFixed(2)}):</span>
+                  <span>${calculation.super_contribution.toFixed(2)}</span>
+                </div>
+              )}
             </div>
           )}
 
@@ -325,13 +446,13 @@ export const PayrollEditDialog = ({ payroll, isOpen, onClose, onSuccess }: Payro
             </Select>
           </div>
 
-          {linkedWorkingHours.length > 0 && (
+          {hasLinkedHours && (
             <Collapsible open={isWorkingHoursPreviewOpen} onOpenChange={setIsWorkingHoursPreviewOpen}>
               <CollapsibleTrigger asChild>
                 <Button type="button" variant="outline" className="w-full justify-between">
                   <span className="flex items-center gap-2">
                     <Link className="h-4 w-4" />
-                    Linked Working Hours ({linkedWorkingHours.length} entries)
+                    Linked Working Hours ({inputs.linkedWorkingHours.length} entries)
                   </span>
                   {isWorkingHoursPreviewOpen ? (
                     <ChevronUp className="h-4 w-4" />
@@ -343,7 +464,7 @@ export const PayrollEditDialog = ({ payroll, isOpen, onClose, onSuccess }: Payro
               <CollapsibleContent className="mt-3">
                 <div className="border rounded-lg p-4">
                   <div className="max-h-40 overflow-y-auto space-y-2">
-                    {linkedWorkingHours.map((wh) => (
+                    {inputs.linkedWorkingHours.map((wh) => (
                       <div key={wh.id} className="flex justify-between items-center text-sm bg-green-50 p-2 rounded border border-green-200">
                         <div>
                           <span className="font-medium">{new Date(wh.date).toLocaleDateString()}</span>
@@ -371,7 +492,7 @@ export const PayrollEditDialog = ({ payroll, isOpen, onClose, onSuccess }: Payro
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button type="submit" disabled={loading}>
+            <Button type="submit" disabled={loading || !calculation || missingTaxScale}>
               {loading ? "Updating..." : "Update Payroll"}
             </Button>
           </div>
@@ -7,9 +7,21 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Plus, Clock, ChevronDown, ChevronUp, Zap, AlertTriangle, Link } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import type { Profile, WorkingHour } from "@/types/database";
+import type { PayrollLineItem, Profile, SalaryTemplate, SuperGuaranteeRate, TaxScale, WorkingHour } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
 import { ProfileSelector } from "@/components/common/ProfileSelector";
+import {
+  calculatePayroll,
+  createPayroll,
+  fetchPayrollHours,
+  fetchRecurringPayrollItems,
+  fetchSalaryTemplates,
+  MISSING_TEMPLATE_NOTE,
+  PayrollItemDraft,
+  resolveSalaryTemplate
+} from "@/lib/payroll";
+import { fetchTaxScales, getWithholdingInput, MISSING_TAX_SCALE_NOTE } from "@/lib/tax-withholding";
+import { fetchGuaranteeRates, resolveGuaranteeRate } from "@/lib/superannuation";
 
 interface PayrollQuickGenerateProps {
   profiles: Profile[];
@@ -42,15 +54,27 @@ export const PayrollQuickGenerate = ({
     profile_id: "",
     pay_period_start: "",
     pay_period_end: "",
-    total_hours: 0,
-    hourly_rate: 0,
-    gross_pay: 0,
     deductions: 0,
-    net_pay: 0,
     status: "pending" as const
   });
 
   const [previewWorkingHours, setPreviewWorkingHours] = useState<WorkingHourWithLinkStatus[]>([]);
+  const [salaryTemplates, setSalaryTemplates] = useState<SalaryTemplate[]>([]);
+  const [taxScales, setTaxScales] = useState<TaxScale[]>([]);
+  const [guaranteeRates, setGuaranteeRates] = useState<SuperGuaranteeRate[]>([]);
+  const [recurringItems, setRecurringItems] = useState<PayrollLineItem[]>([]);
+
+  useEffect(() => {
+    fetchSalaryTemplates()
+      .then(setSalaryTemplates)
+      .catch(error => console.error('Error fetching salary templates:', error));
+    fetchTaxScales()
+      .then(setTaxScales)
+      .catch(error => console.error('Error fetching tax scales:', error));
+    fetchGuaranteeRates()
+      .then(setGuaranteeRates)
+      .catch(error => console.error('Error fetching super guarantee rates:', error));
+  }, []);
 
   // Auto-fill form when preSelectedProfile is provided
   useEffect(() => {
@@ -63,25 +87,14 @@ export const PayrollQuickGenerate = ({
         const startDate = dates[0]?.toISOString().split('T')[0];
         const endDate = dates[dates.length - 1]?.toISOString().split('T')[0];
         
-        // Calculate totals
-        const totalHours = profileWorkingHours.reduce((sum, wh) => sum + wh.total_hours, 0);
-        const avgHourlyRate = profileWorkingHours.length > 0 
-          ? profileWorkingHours.reduce((sum, wh) => sum + (wh.hourly_rate || 0), 0) / profileWorkingHours.length
-          : preSelectedProfile.hourly_rate || 0;
-
         setFormData({
           profile_id: preSelectedProfile.id,
           pay_period_start: startDate || "",
           pay_period_end: endDate || "",
-          total_hours: totalHours,
-          hourly_rate: avgHourlyRate,
-          gross_pay: 0,
           deductions: 0,
-          net_pay: 0,
           status: "pending"
         });
         
-        checkWorkingHoursLinkStatus(profileWorkingHours);
         setIsWorkingHoursPreviewOpen(true);
       }
     }
@@ -113,28 +126,22 @@ export const PayrollQuickGenerate = ({
     }
   };
 
-  const calculatePayroll = (hours: number, rate: number, deductions: number) => {
-    const gross = hours * rate;
-    const net = gross - deductions;
-    return { gross, net };
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (missingTaxScale) return;
     setLoading(true);
 
     try {
-      const { gross, net } = calculatePayroll(formData.total_hours, formData.hourly_rate, formData.deductions);
-      
-      const { error } = await supabase
-        .from('payroll')
-        .insert([{
-          ...formData,
-          gross_pay: gross,
-          net_pay: net
-        }]);
-
-      if (error) throw error;
+      await createPayroll([{
+        payroll: {
+          profile_id: formData.profile_id,
+          pay_period_start: formData.pay_period_start,
+          pay_period_end: formData.pay_period_end,
+          status: formData.status
+        },
+        items,
+        calculation
+      }]);
       toast({ title: "Success", description: "Payroll record created successfully. Working hours have been automatically linked." });
       
       if (!isInDialog) {
@@ -144,11 +151,7 @@ export const PayrollQuickGenerate = ({
         profile_id: "",
         pay_period_start: "",
         pay_period_end: "",
-        total_hours: 0,
-        hourly_rate: 0,
-        gross_pay: 0,
         deductions: 0,
-        net_pay: 0,
         status: "pending"
       });
       setPreviewWorkingHours([]);
@@ -157,7 +160,7 @@ export const PayrollQuickGenerate = ({
       console.error('Error creating payroll:', error);
       toast({
         title: "Error",
-        description: "Failed to create payroll record",
+        description: error instanceof Error ? error.message : "Failed to create payroll record",
         variant: "destructive"
       });
     } finally {
@@ -165,28 +168,27 @@ export const PayrollQuickGenerate = ({
     }
   };
 
+  // The period's approved hours come from the database with their overtime worked out
+  // again, so the payroll pays the same breakdowns as every other payroll screen
   useEffect(() => {
-    if (formData.profile_id && formData.pay_period_start && formData.pay_period_end && !preSelectedProfile) {
-      const profileWorkingHours = workingHours.filter(wh => 
-        wh.profile_id === formData.profile_id &&
-        wh.date >= formData.pay_period_start &&
-        wh.date <= formData.pay_period_end
-      );
-
-      const totalHours = profileWorkingHours.reduce((sum, wh) => sum + wh.total_hours, 0);
-      const avgHourlyRate = profileWorkingHours.length > 0 
-        ? profileWorkingHours.reduce((sum, wh) => sum + (wh.hourly_rate || 0), 0) / profileWorkingHours.length
-        : 0;
-
-      setFormData(prev => ({
-        ...prev,
-        total_hours: totalHours,
-        hourly_rate: avgHourlyRate
-      }));
-      
-      checkWorkingHoursLinkStatus(profileWorkingHours);
-    }
-  }, [formData.profile_id, formData.pay_period_start, formData.pay_period_end, workingHours, preSelectedProfile]);
+    setPreviewWorkingHours([]);
+    if (!formData.profile_id || !formData.pay_period_start || !formData.pay_period_end) return;
+
+    fetchPayrollHours(formData.profile_id, formData.pay_period_start, formData.pay_period_end)
+      .then(checkWorkingHoursLinkStatus)
+      .catch(error => console.error('Error fetching payroll hours:', error));
+  }, [formData.profile_id, formData.pay_period_start, formData.pay_period_end]);
+
+  // Recurring line items carry over from the employee's last payroll
+  const itemsProfileId = preSelectedProfile?.id || formData.profile_id;
+  useEffect(() => {
+    setRecurringItems([]);
+    if (!itemsProfileId || !formData.pay_period_start) return;
+
+    fetchRecurringPayrollItems([itemsProfileId], formData.pay_period_start)
+      .then(recurring => setRecurringItems(recurring.get(itemsProfileId) || []))
+      .catch(error => console.error('Error fetching recurring line items:', error));
+  }, [itemsProfileId, formData.pay_period_start]);
 
   const buttonText = preSelectedProfile ? "Quick Generate" : "Create Payroll";
   const buttonIcon = preSelectedProfile ? <Zap className="h-4 w-4" /> : <Plus className="h-4 w-4" />;
@@ -194,6 +196,29 @@ export const PayrollQuickGenerate = ({
   const availableHours = previewWorkingHours.filter(wh => !wh.isLinkedToPayroll);
   const linkedHours = previewWorkingHours.filter(wh => wh.isLinkedToPayroll);
 
+  // Hours already on another payroll are not paid again; extra deductions come on top of the usual ones
+  const items: PayrollItemDraft[] = [
+    ...recurringItems,
+    ...(formData.deductions > 0
+      ? [{ type: 'deduction' as const, description: 'Additional deductions', amount: formData.deductions, taxable: false, is_recurring: false }]
+      : [])
+  ];
+  const selectedProfile = preSelectedProfile || profiles.find(p => p.id === formData.profile_id);
+  const template = resolveSalaryTemplate(salaryTemplates, formData.profile_id, availableHours);
+  const tax = selectedProfile && formData.pay_period_start && formData.pay_period_end
+    ? getWithholdingInput(taxScales, selectedProfile, formData.pay_period_start, formData.pay_period_end)
+    : undefined;
+  // Hours can still be shown without a tax scale, but not pay
+  const missingTaxScale = !!tax && !tax.scale;
+  const calculation = calculatePayroll({
+    profile: selectedProfile || { id: formData.profile_id, hourly_rate: 0 },
+    entries: availableHours,
+    template,
+    tax: missingTaxScale ? undefined : tax,
+    superGuaranteePercentage: formData.pay_period_end ? resolveGuaranteeRate(guaranteeRates, formData.pay_period_end) : null,
+    items
+  });
+
   const formContent = (
     <form onSubmit={handleSubmit} className="space-y-4">
       {!preSelectedProfile && (
@@ -253,7 +278,7 @@ export const PayrollQuickGenerate = ({
             id="total_hours"
             type="number"
             step="0.5"
-            value={formData.total_hours}
+            value={calculation.total_hours}
             readOnly
             className="bg-gray-50"
           />
@@ -264,7 +289,7 @@ export const PayrollQuickGenerate = ({
             id="hourly_rate"
             type="number"
             step="0.01"
-            value={formData.hourly_rate}
+            value={calculation.hourly_rate}
             readOnly
             className="bg-gray-50"
           />
@@ -272,7 +297,7 @@ export const PayrollQuickGenerate = ({
       </div>
 
       <div>
-        <Label htmlFor="deductions">Deductions</Label>
+        <Label htmlFor="deductions">Additional Deductions</Label>
         <Input
           id="deductions"
           type="number"
@@ -282,20 +307,59 @@ export const PayrollQuickGenerate = ({
         />
       </div>
 
-      {formData.total_hours > 0 && formData.hourly_rate > 0 && (
-        <div className="bg-gray-50 p-3 rounded">
-          <div className="flex justify-between text-sm">
+      {calculation.total_hours > 0 && (
+        template ? (
+          <div className="text-sm text-gray-600">Salary template: {template.name}</div>
+        ) : (
+          <div className="flex items-center gap-2 p-2 bg-orange-50 border border-orange-200 rounded text-sm text-orange-700">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            No salary template applies to this employee. {MISSING_TEMPLATE_NOTE}
+          </div>
+        )
+      )}
+
+      {missingTaxScale && (
+        <div className="flex items-center gap-2 p-2 bg-orange-50 border border-orange-200 rounded text-sm text-orange-700">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {MISSING_TAX_SCALE_NOTE}
+        </div>
+      )}
+
+      {calculation.total_hours > 0 && !missingTaxScale && (
+        <div className="bg-gray-50 p-3 rounded space-y-1">
+          {calculation.lines.map(line => (
+            <div key={`${line.kind}-${line.label}-${line.rate}`} className="flex justify-between text-sm">
+              <span>
+                {line.label}
+                {line.hours !== null && ` (${line.hours}h × $${line.rate?.toFixed(2)})`}
+              </span>
+              <span className={line.kind === 'deduction' || line.kind === 'tax' ? 'text-red-600' : ''}>
+                {line.kind === 'deduction' || line.kind === 'tax' ? '-' : ''}${line.amount.toFixed(2)}
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-between text-sm border-t pt-1">
             <span>Gross Pay:</span>
-            <span>${(formData.total_hours * formData.hourly_rate).toFixed(2)}</span>
+            <span>${calculation.gross_pay.toFixed(2)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span>Tax:</span>
+            <span>-${calculation.tax_withheld.toFixed(2)}</span>
           </div>
           <div className="flex justify-between text-sm">
             <span>Deductions:</span>
-            <span>-${formData.deductions.toFixed(2)}</span>
+            <span>-${calculation.deductions.toFixed(2)}</span>
           </div>
           <div className="flex justify-between font-medium">
             <span>Net Pay:</span>
-            <span>${(formData.total_hours * formData.hourly_rate - formData.deductions).toFixed(2)}</span>
+            <span>${calculation.net_pay.toFixed(2)}</span>
           </div>
+          {calculation.super_guarantee_percentage !== null && (
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Employer super ({Number(calculation.super_guarantee_percentage)}% of ${calculation.ordinary_time_earnings.toFixed(2)}):</span>
+              <span>${calculation.super_contribution.toFixed(2)}</span>
+            </div>
+          )}
         </div>
       )}
 
@@ -359,7 +423,7 @@ export const PayrollQuickGenerate = ({
         </Collapsible>
       )}
 
-      <Button type="submit" disabled={loading} className="w-full">
+      <Button type="submit" disabled={loading || missingTaxScale} className="w-full">
         {loading ? "Creating..." : buttonText}
       </Button>
     </form>
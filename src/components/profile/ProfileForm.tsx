@@ -39,6 +39,11 @@ export const ProfileForm = ({ isOpen, onClose, onSubmit, editingProfile, loading
     hourly_rate: 0,
     salary: 0,
     tax_file_number: "",
+    tax_free_threshold_claimed: true,
+    super_fund_name: "",
+    super_fund_abn: "",
+    super_fund_usi: "",
+    super_member_number: "",
     start_date: getCurrentDate(), // Set current date as default
     password: "" // Add password field for new users only
   });
@@ -56,6 +61,11 @@ export const ProfileForm = ({ isOpen, onClose, onSubmit, editingProfile, loading
         hourly_rate: editingProfile.hourly_rate || 0,
         salary: editingProfile.salary || 0,
         tax_file_number: editingProfile.tax_file_number || "",
+        tax_free_threshold_claimed: editingProfile.tax_free_threshold_claimed ?? true,
+        super_fund_name: editingProfile.super_fund_name || "",
+        super_fund_abn: editingProfile.super_fund_abn || "",
+        super_fund_usi: editingProfile.super_fund_usi || "",
+        super_member_number: editingProfile.super_member_number || "",
         start_date: editingProfile.start_date || getCurrentDate(),
         password: "" // Don't show password for existing users
       });
@@ -71,6 +81,11 @@ export const ProfileForm = ({ isOpen, onClose, onSubmit, editingProfile, loading
         hourly_rate: 0,
         salary: 0,
         tax_file_number: "",
+        tax_free_threshold_claimed: true,
+        super_fund_name: "",
+        super_fund_abn: "",
+        super_fund_usi: "",
+        super_member_number: "",
         start_date: getCurrentDate(), // Always use current date for new profiles
         password: ""
       });
@@ -321,6 +336,62 @@ export const ProfileForm = ({ isOpen, onClose, onSubmit, editingProfile, loading
                 placeholder="Enter TFN"
               />
             </div>
+
+            <div>
+              <Label htmlFor="tax_free_threshold_claimed">Tax-free Threshold Claimed</Label>
+              <Select 
+                value={formData.tax_free_threshold_claimed ? "yes" : "no"} 
+                onValueChange={(value) => setFormData({ ...formData, tax_free_threshold_claimed: value === "yes" })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="yes">Yes</SelectItem>
+                  <SelectItem value="no">No</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="super_fund_name">Super Fund</Label>
+              <Input
+                id="super_fund_name"
+                value={formData.super_fund_name}
+                onChange={(e) => setFormData({ ...formData, super_fund_name: e.target.value })}
+                placeholder="Fund name"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="super_fund_abn">Super Fund ABN</Label>
+              <Input
+                id="super_fund_abn"
+                value={formData.super_fund_abn}
+                onChange={(e) => setFormData({ ...formData, super_fund_abn: e.target.value })}
+                placeholder="Enter ABN"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="super_fund_usi">Super Fund USI</Label>
+              <Input
+                id="super_fund_usi"
+                value={formData.super_fund_usi}
+                onChange={(e) => setFormData({ ...formData, super_fund_usi: e.target.value })}
+                placeholder="Unique superannuation identifier"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="super_member_number">Super Member Number</Label>
+              <Input
+                id="super_member_number"
+                value={formData.super_member_number}
+                onChange={(e) => setFormData({ ...formData, super_member_number: e.target.value })}
+                placeholder="Enter member number"
+              />
+            </div>
           </div>
 
           <div>
@@ -0,0 +1,217 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, Bell, TrendingDown } from "lucide-react";
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Project, ProjectBudgetAlert } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { toDateString } from "@/lib/time";
+import { BUDGET_THRESHOLDS, checkProjectBudgetAlerts, fetchProjectFinancials, getBudgetUsage, ProjectFinancials } from "@/lib/project-budgets";
+
+interface ProjectFinancialsDialogProps {
+  project: Project | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const usageColor = (usage: number | null) =>
+  usage === null ? 'text-gray-600' : usage >= 100 ? 'text-red-600' : usage >= 75 ? 'text-orange-600' : 'text-green-600';
+
+export const ProjectFinancialsDialog = ({ project, isOpen, onClose }: ProjectFinancialsDialogProps) => {
+  const [financials, setFinancials] = useState<ProjectFinancials | null>(null);
+  const [alerts, setAlerts] = useState<ProjectBudgetAlert[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (project && isOpen) {
+      fetchFinancials();
+    }
+  }, [project, isOpen]);
+
+  const fetchAlerts = async (projectId: string) => {
+    const { data, error } = await supabase
+      .from('project_budget_alerts')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('threshold');
+
+    if (error) throw error;
+    setAlerts((data || []) as ProjectBudgetAlert[]);
+  };
+
+  const fetchFinancials = async () => {
+    if (!project) return;
+
+    setLoading(true);
+    setFinancials(null);
+    try {
+      setFinancials(await fetchProjectFinancials(project, toDateString(new Date())));
+      // Catch up on alerts for costs changed outside the app's usual paths
+      await checkProjectBudgetAlerts([project.id]).catch(error => console.error('Error checking budget alerts:', error));
+      await fetchAlerts(project.id);
+    } catch (error) {
+      console.error('Error fetching project financials:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch project financials",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!project) return null;
+
+  const usage = financials ? getBudgetUsage(financials.spent, financials.budget) : null;
+  const forecastUsage = financials ? getBudgetUsage(financials.forecast, financials.budget) : null;
+  const chartData = (financials?.burnDown || []).map(point => ({ ...point, label: format(parseISO(point.date), 'dd MMM yy') }));
+
+  const breakdown = financials ? [
+    { label: 'Labour paid through payroll', amount: financials.payrollLabour },
+    { label: 'Labour approved, not yet on payroll', amount: financials.unpaidLabour },
+    { label: 'Other project expenses', amount: financials.expenses }
+  ] : [];
+  const forecastBreakdown = financials ? [
+    { label: 'Hours awaiting approval', amount: financials.pendingLabour },
+    { label: 'Rostered shifts still to come', amount: financials.rosteredLabour }
+  ] : [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm sm:max-w-4xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingDown className="h-5 w-5" />
+            {project.name} – Budget
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading || !financials ? (
+          <div className="text-center py-8 text-gray-500">Loading...</div>
+        ) : (
+          <div className="space-y-4">
+            {financials.budget <= 0 && (
+              <div className="flex items-center gap-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                This project has no budget set, so spending cannot be tracked against it.
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-sm text-gray-600">Budget</div>
+                  <div className="text-xl font-bold">{formatMoney(financials.budget)}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-sm text-gray-600">Spent</div>
+                  <div className="text-xl font-bold">{formatMoney(financials.spent)}</div>
+                  {usage !== null && <div className={`text-xs ${usageColor(usage)}`}>{usage.toFixed(1)}% of budget</div>}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-sm text-gray-600">Remaining</div>
+                  <div className={`text-xl font-bold ${financials.budget - financials.spent < 0 ? 'text-red-600' : ''}`}>
+                    {formatMoney(financials.budget - financials.spent)}
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <div className="text-sm text-gray-600">Forecast at completion</div>
+                  <div className="text-xl font-bold">{formatMoney(financials.forecast)}</div>
+                  {forecastUsage !== null && (
+                    <div className={`text-xs ${usageColor(forecastUsage)}`}>
+                      {forecastUsage > 100
+                        ? `${formatMoney(financials.forecast - financials.budget)} over budget`
+                        : `${forecastUsage.toFixed(1)}% of budget`}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {usage !== null && (
+              <div className="space-y-1">
+                <Progress value={Math.min(usage, 100)} />
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>0%</span>
+                  {BUDGET_THRESHOLDS.map(threshold => (
+                    <span key={threshold} className={usage >= threshold ? usageColor(threshold) : ''}>{threshold}%</span>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <Card>
+              <CardContent className="p-4">
+                <div className="font-medium mb-2">Burn-down</div>
+                {chartData.length <= 1 ? (
+                  <div className="text-center py-8 text-gray-500">No costs recorded yet</div>
+                ) : (
+                  <ResponsiveContainer width="100%" height={250}>
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                      <YAxis fontSize={12} />
+                      <Tooltip formatter={(value: number) => formatMoney(value)} />
+                      <Legend />
+                      <ReferenceLine y={0} stroke="#dc2626" />
+                      <Line type="stepAfter" dataKey="remaining" name="Budget remaining" stroke="#2563eb" strokeWidth={2} dot={false} connectNulls />
+                      <Line type="stepAfter" dataKey="forecast" name="Forecast" stroke="#f97316" strokeWidth={2} strokeDasharray="5 5" dot={false} connectNulls />
+                    </LineChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="border rounded-lg divide-y text-sm">
+                <div className="px-3 py-2 font-medium bg-gray-50">Spent</div>
+                {breakdown.map(item => (
+                  <div key={item.label} className="flex justify-between px-3 py-2">
+                    <span className="text-gray-600">{item.label}</span>
+                    <span>{formatMoney(item.amount)}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="border rounded-lg divide-y text-sm">
+                <div className="px-3 py-2 font-medium bg-gray-50">Still to come</div>
+                {forecastBreakdown.map(item => (
+                  <div key={item.label} className="flex justify-between px-3 py-2">
+                    <span className="text-gray-600">{item.label}</span>
+                    <span>{formatMoney(item.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {alerts.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Bell className="h-4 w-4 text-gray-500" />
+                <span className="text-gray-600">Alerts sent:</span>
+                {alerts.map(alert => (
+                  <Badge key={alert.id} variant="outline" className={usageColor(alert.threshold)}>
+                    {alert.threshold}% on {format(parseISO(alert.created_at), 'dd MMM yyyy')}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -5,10 +5,17 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { CalendarDays, Clock, Users, DollarSign, ChevronLeft, ChevronRight } from "lucide-react";
-import { Roster as RosterType } from "@/types/database";
+import { CalendarDays, Clock, Users, DollarSign, ChevronLeft, ChevronRight, Repeat, AlertTriangle, CalendarOff, PartyPopper } from "lucide-react";
+import { PublicHoliday, Roster as RosterType } from "@/types/database";
 import { format, startOfWeek, endOfWeek, addWeeks, subWeeks, isWithinInterval, parseISO } from "date-fns";
 import { RosterActions } from "./RosterActions";
+import { describeRecurrence } from "@/lib/roster-recurrence";
+import { RosterConflictReportDialog } from "./RosterConflictReportDialog";
+import { useStaffAvailability } from "@/hooks/useStaffAvailability";
+import { findProfileUnavailability, formatAvailabilityIssue, isBlockingIssue } from "@/lib/availability";
+import { usePublicHolidays } from "@/hooks/usePublicHolidays";
+import { describeHolidayRegion } from "@/lib/holidays";
+import { daysBetween, shiftDateString, toDateString } from "@/lib/time";
 
 interface EnhancedRosterCalendarViewProps {
   rosters: RosterType[];
@@ -19,6 +26,7 @@ interface EnhancedRosterCalendarViewProps {
 
 export const EnhancedRosterCalendarView = ({ rosters, onEdit, onDelete, onView }: EnhancedRosterCalendarViewProps) => {
   const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [isConflictReportOpen, setIsConflictReportOpen] = useState(false);
 
   const weekStart = startOfWeek(currentWeek, { weekStartsOn: 1 }); // Monday
   const weekEnd = endOfWeek(currentWeek, { weekStartsOn: 1 }); // Sunday
@@ -39,6 +47,23 @@ export const EnhancedRosterCalendarView = ({ rosters, onEdit, onDelete, onView }
            (rosterStartDate <= weekStart && rosterEndDate >= weekEnd);
   });
 
+  const { schedule: availabilitySchedule } = useStaffAvailability(
+    weekRosters.filter(roster => roster.status !== 'cancelled')
+  );
+
+  const { holidays, getHoliday } = usePublicHolidays(toDateString(weekStart), toDateString(weekEnd));
+
+  // Holidays falling on the roster's days this week in its client's region
+  const getRosterHolidays = (roster: RosterType) => {
+    const lastDate = roster.end_date || roster.date;
+    const found: PublicHoliday[] = [];
+    for (let i = 0; i <= daysBetween(roster.date, lastDate); i++) {
+      const holiday = getHoliday(shiftDateString(roster.date, i), roster.client_id);
+      if (holiday) found.push(holiday);
+    }
+    return found;
+  };
+
   const formatTime = (time: string) => {
     const [hours, minutes] = time.split(':');
     const hour = parseInt(hours, 10);
@@ -96,9 +121,30 @@ export const EnhancedRosterCalendarView = ({ rosters, onEdit, onDelete, onView }
               <span className="sm:inline">Next</span>
               <ChevronRight className="h-4 w-4" />
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsConflictReportOpen(true)}
+              className="flex-1 sm:flex-none"
+            >
+              <AlertTriangle className="h-4 w-4 text-orange-600" />
+              <span className="sm:inline">Conflicts</span>
+            </Button>
           </div>
         </div>
 
+        {holidays.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-rose-50 border border-rose-200">
+            <PartyPopper className="h-4 w-4 text-rose-600 shrink-0" />
+            <span className="text-sm font-medium text-rose-800">Public holidays this week:</span>
+            {holidays.map(holiday => (
+              <Badge key={holiday.id} variant="outline" className="text-xs bg-white text-rose-700 border-rose-200">
+                {format(parseISO(holiday.date), 'EEE dd MMM')} · {holiday.name} ({describeHolidayRegion(holiday.region)})
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {/* Mobile-optimized roster cards */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
           {weekRosters.map((roster) => {
@@ -106,9 +152,19 @@ export const EnhancedRosterCalendarView = ({ rosters, onEdit, onDelete, onView }
             const expectedProfiles = roster.expected_profiles || 1;
             const progressPercentage = expectedProfiles > 0 ? (assignedProfiles / expectedProfiles) * 100 : 0;
             const estimatedValue = roster.total_hours * (roster.per_hour_rate || 0);
+            const unavailability = roster.status === 'cancelled' ? {} : findProfileUnavailability(
+              [roster],
+              roster.roster_profiles?.map(rp => rp.profile_id) || [],
+              availabilitySchedule
+            );
+            const unavailableAssignments = roster.roster_profiles?.filter(rp => unavailability[rp.profile_id]?.length) || [];
+            const rosterHolidays = getRosterHolidays(roster);
 
             return (
-              <Card key={roster.id} className="border-l-4 border-l-blue-500 hover:shadow-md transition-shadow">
+              <Card
+                key={roster.id}
+                className={`border-l-4 ${rosterHolidays.length > 0 ? 'border-l-rose-500' : 'border-l-blue-500'} hover:shadow-md transition-shadow`}
+              >
                 <CardContent className="p-4 sm:p-5">
                   <div className="space-y-3 sm:space-y-4">
                     {/* Mobile-friendly header */}
@@ -117,10 +173,38 @@ export const EnhancedRosterCalendarView = ({ rosters, onEdit, onDelete, onView }
                         <h4 className="font-semibold text-sm sm:text-base text-gray-900 line-clamp-2 leading-tight">
                           {roster.name || 'Unnamed Roster'}
                         </h4>
-                        <div className="mt-1">
+                        <div className="mt-1 flex flex-wrap gap-1">
                           <Badge variant="outline" className="text-xs font-medium bg-blue-50 text-blue-700 border-blue-200">
                             {getDateRange(roster)}
                           </Badge>
+                          {roster.series_id && (
+                            <Tooltip>
+                              <TooltipTrigger>
+                                <Badge variant="outline" className="text-xs font-medium bg-indigo-50 text-indigo-700 border-indigo-200 flex items-center gap-1">
+                                  <Repeat className="h-3 w-3" />
+                                  Series
+                                </Badge>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p>{roster.roster_series ? describeRecurrence(roster.roster_series) : 'Repeating roster'}</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
+                          {rosterHolidays.length > 0 && (
+                            <Tooltip>
+                              <TooltipTrigger>
+                                <Badge variant="outline" className="text-xs font-medium bg-rose-50 text-rose-700 border-rose-200 flex items-center gap-1">
+                                  <PartyPopper className="h-3 w-3" />
+                                  Public holiday
+                                </Badge>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                {rosterHolidays.map(holiday => (
+                                  <p key={holiday.id}>{format(parseISO(holiday.date), 'EEE dd MMM')}: {holiday.name}</p>
+                                ))}
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-start gap-2 shrink-0">
@@ -189,6 +273,29 @@ export const EnhancedRosterCalendarView = ({ rosters, onEdit, onDelete, onView }
                           <span className="text-xs text-gray-500 italic">No assignments yet</span>
                         )}
                       </div>
+                      {unavailableAssignments.length > 0 && (
+                        <Tooltip>
+                          <TooltipTrigger className="w-full text-left">
+                            <div className={`flex items-center gap-1 text-xs rounded px-2 py-1 ${
+                              unavailableAssignments.some(rp => unavailability[rp.profile_id].some(isBlockingIssue))
+                                ? 'bg-red-50 text-red-700'
+                                : 'bg-amber-50 text-amber-700'
+                            }`}>
+                              <CalendarOff className="h-3 w-3 shrink-0" />
+                              <span className="truncate">
+                                {unavailableAssignments.length} assigned {unavailableAssignments.length === 1 ? 'member' : 'members'} unavailable
+                              </span>
+                            </div>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {unavailableAssignments.map(rp => (
+                              <p key={rp.id}>
+                                {rp.profiles?.full_name || 'Unknown'}: {unavailability[rp.profile_id].map(formatAvailabilityIssue).join('; ')}
+                              </p>
+                            ))}
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
                     </div>
 
                     {/* Mobile-optimized financial & stats grid */}
@@ -272,6 +379,14 @@ export const EnhancedRosterCalendarView = ({ rosters, onEdit, onDelete, onView }
             <p className="text-sm">Navigate to different weeks or create new rosters</p>
           </div>
         )}
+
+        <RosterConflictReportDialog
+          rosters={weekRosters}
+          weekStart={weekStart}
+          weekEnd={weekEnd}
+          isOpen={isConflictReportOpen}
+          onClose={() => setIsConflictReportOpen(false)}
+        />
       </div>
     </TooltipProvider>
   );
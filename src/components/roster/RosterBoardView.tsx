@@ -0,0 +1,422 @@
+import { useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { LayoutGrid, Lock } from "lucide-react";
+import { Roster as RosterType, Profile } from "@/types/database";
+import { addDays, endOfWeek, format, isToday, parseISO, startOfWeek } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useStaffAvailability } from "@/hooks/useStaffAvailability";
+import { RosterWeeklyFilter } from "./RosterWeeklyFilter";
+import { ShiftWindow, findProfileConflicts, formatConflict } from "@/lib/roster-conflicts";
+import { findProfileUnavailability, formatAvailabilityIssue, isBlockingIssue } from "@/lib/availability";
+import { BoardGesture, getBoardBlockReason, getShiftBarPosition, moveRosterDates, resizeShift } from "@/lib/roster-board";
+import { getOpenSlots } from "@/lib/open-shifts";
+import { generateRosterWorkingHours, refreshRosterWorkingHours, releaseRosterWorkingHours } from "@/lib/roster-timesheets";
+import { MINUTES_PER_DAY, calculateShiftHours, crossesMidnight, daysBetween, formatTimeRange, shiftDateString, toDateString } from "@/lib/time";
+
+interface RosterBoardViewProps {
+  rosters: RosterType[];
+  profiles: Profile[];
+  onUpdate: () => void;
+  onView: (roster: RosterType) => void;
+}
+
+interface DragState {
+  rosterId: string;
+  fromProfileId: string | null;
+  fromDate: string;
+}
+
+interface ResizePreview {
+  rosterId: string;
+  start_time: string;
+  end_time: string;
+}
+
+// The open-shifts row uses a null profile id
+const cellKey = (profileId: string | null, date: string) => `${profileId || 'open'}-${date}`;
+
+export const RosterBoardView = ({ rosters, profiles, onUpdate, onView }: RosterBoardViewProps) => {
+  const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [dragging, setDragging] = useState<DragState | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [resizePreview, setResizePreview] = useState<ResizePreview | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const resizingRef = useRef(false);
+  const { toast } = useToast();
+
+  const weekStart = startOfWeek(currentWeek, { weekStartsOn: 1 });
+  const weekEnd = endOfWeek(currentWeek, { weekStartsOn: 1 });
+  const days = Array.from({ length: 7 }, (_, i) => toDateString(addDays(weekStart, i)));
+
+  const lastDay = (roster: RosterType) => roster.end_date && roster.end_date > roster.date ? roster.end_date : roster.date;
+
+  const weekRosters = rosters.filter(roster => roster.date <= days[6] && lastDay(roster) >= shiftDateString(days[0], -1));
+
+  // One window spanning the whole week, so moves within it can be checked without refetching
+  const { schedule: availabilitySchedule } = useStaffAvailability([
+    { date: days[0], end_date: days[6], start_time: '00:00', end_time: '23:59' }
+  ]);
+
+  const rejectGesture = (roster: RosterType, gesture: BoardGesture) => {
+    const reason = getBoardBlockReason(roster, gesture);
+    if (reason) {
+      toast({ title: "Can't change shift", description: reason, variant: "destructive" });
+    }
+    return !!reason;
+  };
+
+  // Blocks the change when any of the profiles would be double-booked or is unavailable
+  const validateShift = (roster: RosterType, shift: ShiftWindow, profileIds: string[]) => {
+    if (profileIds.length === 0) return true;
+
+    const conflicts = findProfileConflicts([shift], profileIds, rosters, [], [roster.id]);
+    const unavailability = findProfileUnavailability([shift], profileIds, availabilitySchedule);
+    const nameOf = (profileId: string) => profiles.find(p => p.id === profileId)?.full_name || 'Unknown';
+
+    const problems = profileIds.flatMap(profileId => [
+      ...(conflicts[profileId] || []).map(c => `${nameOf(profileId)} is booked on ${formatConflict(c)}`),
+      ...(unavailability[profileId] || []).filter(isBlockingIssue).map(i => `${nameOf(profileId)}: ${formatAvailabilityIssue(i)}`)
+    ]);
+
+    if (problems.length > 0) {
+      toast({
+        title: "Scheduling conflict",
+        description: problems.slice(0, 3).join('; ') + (problems.length > 3 ? ` and ${problems.length - 3} more` : ''),
+        variant: "destructive"
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const updateRoster = async (roster: RosterType, fields: Record<string, unknown>) => {
+    // The lock check is repeated in the query in case the roster was locked since loading
+    const { data, error } = await supabase
+      .from('rosters')
+      .update(fields)
+      .eq('id', roster.id)
+      .eq('is_locked', false)
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) throw new Error('Roster is locked or no longer exists');
+  };
+
+  const handleDrop = async (profileId: string | null, date: string) => {
+    const drag = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!drag) return;
+
+    const roster = rosters.find(r => r.id === drag.rosterId);
+    if (!roster) return;
+
+    const changesRow = drag.fromProfileId !== profileId;
+    const dayOffset = daysBetween(drag.fromDate, date);
+    if (!changesRow && dayOffset === 0) return;
+
+    if (dayOffset !== 0 && rejectGesture(roster, 'move')) return;
+    if (changesRow && rejectGesture(roster, 'assign')) return;
+
+    const assignedIds = roster.roster_profiles?.map(rp => rp.profile_id) || [];
+    if (changesRow && profileId && assignedIds.includes(profileId)) {
+      toast({
+        title: "Already assigned",
+        description: `${profiles.find(p => p.id === profileId)?.full_name || 'This person'} is already on this roster`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const dates = dayOffset !== 0 ? moveRosterDates(roster, shiftDateString(roster.date, dayOffset)) : null;
+    const remainingIds = assignedIds.filter(id => !(changesRow && id === drag.fromProfileId));
+    const finalIds = changesRow && profileId ? [...remainingIds, profileId] : remainingIds;
+    const shift = { ...roster, ...(dates || {}) };
+
+    // A new date affects everyone on the roster; a reassignment only the incoming person
+    if (!validateShift(roster, shift, dates ? finalIds : profileId && changesRow ? [profileId] : [])) return;
+
+    setSavingId(roster.id);
+    try {
+      const rosterFields: Record<string, unknown> = { ...(dates || {}) };
+      if (changesRow && drag.fromProfileId === roster.profile_id && finalIds.length > 0) {
+        rosterFields.profile_id = profileId || finalIds[0];
+      }
+      if (Object.keys(rosterFields).length > 0) {
+        await updateRoster(roster, rosterFields);
+      }
+
+      if (changesRow && drag.fromProfileId) {
+        const { error } = await supabase
+          .from('roster_profiles')
+          .delete()
+          .eq('roster_id', roster.id)
+          .eq('profile_id', drag.fromProfileId);
+        if (error) throw error;
+        await releaseRosterWorkingHours([roster.id], [drag.fromProfileId]);
+      }
+
+      if (changesRow && profileId) {
+        const { error } = await supabase
+          .from('roster_profiles')
+          .insert({ roster_id: roster.id, profile_id: profileId });
+        if (error) throw error;
+        if (roster.status === 'confirmed') await generateRosterWorkingHours([roster.id]);
+      }
+
+      // Placeholders for the old days would otherwise stay behind after a move
+      if (dates) await refreshRosterWorkingHours([roster.id], roster.status === 'confirmed');
+
+      toast({
+        title: "Success",
+        description: dates && !changesRow
+          ? `Shift moved to ${format(parseISO(dates.date), 'EEE MMM dd')}`
+          : profileId ? "Shift assigned" : "Shift moved to open shifts"
+      });
+      onUpdate();
+    } catch (error) {
+      console.error('Error updating roster from board:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update roster",
+        variant: "destructive"
+      });
+      onUpdate();
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const saveTimes = async (roster: RosterType, times: { start_time: string; end_time: string }) => {
+    const assignedIds = roster.roster_profiles?.map(rp => rp.profile_id) || [];
+    if (!validateShift(roster, { ...roster, ...times }, assignedIds)) return;
+
+    setSavingId(roster.id);
+    try {
+      await updateRoster(roster, {
+        ...times,
+        total_hours: calculateShiftHours(times.start_time, times.end_time, roster.break_minutes)
+      });
+      toast({ title: "Success", description: `Shift changed to ${formatTimeRange(times.start_time, times.end_time)}` });
+      onUpdate();
+    } catch (error) {
+      console.error('Error resizing roster:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change shift times",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const startResize = (e: React.PointerEvent<HTMLDivElement>, roster: RosterType, edge: 'start' | 'end') => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (rejectGesture(roster, 'resize')) return;
+
+    const track = e.currentTarget.closest('[data-board-track]');
+    const width = track?.getBoundingClientRect().width || 0;
+    if (width === 0) return;
+
+    resizingRef.current = true;
+    const originX = e.clientX;
+    const compute = (clientX: number) =>
+      resizeShift(roster.start_time, roster.end_time, edge, ((clientX - originX) / width) * MINUTES_PER_DAY);
+
+    const handleMove = (event: PointerEvent) => {
+      setResizePreview({ rosterId: roster.id, ...compute(event.clientX) });
+    };
+    const handleUp = (event: PointerEvent) => {
+      window.removeEventListener('pointermove', handleMove);
+      resizingRef.current = false;
+      setResizePreview(null);
+
+      const next = compute(event.clientX);
+      if (next.start_time !== roster.start_time.slice(0, 5) || next.end_time !== roster.end_time.slice(0, 5)) {
+        saveTimes(roster, next);
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp, { once: true });
+  };
+
+  const getCellRosters = (profileId: string | null, date: string) =>
+    weekRosters.filter(roster => {
+      if (roster.date > date || lastDay(roster) < date) return false;
+      if (profileId) return roster.roster_profiles?.some(rp => rp.profile_id === profileId) || false;
+      return roster.status !== 'cancelled' && getOpenSlots(roster) > 0;
+    });
+
+  // Overnight shifts from the previous day spill into the start of this cell
+  const getOvernightRosters = (profileId: string | null, date: string) =>
+    getCellRosters(profileId, shiftDateString(date, -1)).filter(roster =>
+      lastDay(roster) < date && crossesMidnight(roster.start_time, roster.end_time)
+    );
+
+  const getBarColor = (roster: RosterType) => {
+    if (roster.is_locked || roster.status === 'cancelled') return 'bg-gray-300';
+    if (roster.status === 'confirmed') return 'bg-green-500';
+    return 'bg-blue-500';
+  };
+
+  const renderShift = (roster: RosterType, profileId: string | null, date: string) => {
+    const preview = resizePreview?.rosterId === roster.id ? resizePreview : null;
+    const startTime = preview?.start_time || roster.start_time;
+    const endTime = preview?.end_time || roster.end_time;
+    const position = getShiftBarPosition(startTime, endTime);
+    const frozen = roster.is_locked || roster.status === 'cancelled';
+    const timesFixed = !!getBoardBlockReason(roster, 'resize');
+    const openSlots = getOpenSlots(roster);
+
+    return (
+      <div
+        key={roster.id}
+        draggable={!frozen && savingId !== roster.id}
+        onDragStart={(e) => {
+          if (resizingRef.current) {
+            e.preventDefault();
+            return;
+          }
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', roster.id);
+          setDragging({ rosterId: roster.id, fromProfileId: profileId, fromDate: date });
+        }}
+        onDragEnd={() => {
+          setDragging(null);
+          setDropTarget(null);
+        }}
+        onClick={() => onView(roster)}
+        title={`${roster.name || roster.projects?.name || 'Roster'}\n${formatTimeRange(startTime, endTime)} - ${roster.status}${roster.is_locked ? ' (locked)' : ''}`}
+        className={`rounded border bg-white px-1 pt-0.5 pb-1 text-[10px] leading-tight shadow-sm ${
+          frozen ? 'opacity-60 cursor-not-allowed' : 'cursor-grab hover:border-blue-400'
+        } ${savingId === roster.id ? 'animate-pulse' : ''} ${roster.status === 'cancelled' ? 'line-through' : ''}`}
+      >
+        <div className="flex items-center gap-1">
+          {roster.is_locked && <Lock className="h-2.5 w-2.5 shrink-0 text-gray-500" />}
+          <span className="truncate font-medium text-gray-900">{roster.name || roster.projects?.name || 'Roster'}</span>
+          {!profileId && <span className="ml-auto shrink-0 text-orange-600">{openSlots} open</span>}
+        </div>
+        <div className="text-gray-500">{formatTimeRange(startTime, endTime)}</div>
+        <div data-board-track className="relative mt-0.5 h-2 rounded bg-gray-100">
+          <div
+            className={`absolute top-0 h-2 rounded ${getBarColor(roster)}`}
+            style={{ left: `${position.left}%`, width: `${Math.max(position.width, 1)}%` }}
+          >
+            {!timesFixed && (
+              <>
+                <div
+                  className="absolute -left-0.5 top-0 h-2 w-1.5 cursor-ew-resize rounded-l bg-black/20"
+                  onPointerDown={(e) => startResize(e, roster, 'start')}
+                  onClick={(e) => e.stopPropagation()}
+                />
+                <div
+                  className="absolute -right-0.5 top-0 h-2 w-1.5 cursor-ew-resize rounded-r bg-black/20"
+                  onPointerDown={(e) => startResize(e, roster, 'end')}
+                  onClick={(e) => e.stopPropagation()}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderCell = (profileId: string | null, date: string) => {
+    const key = cellKey(profileId, date);
+    const overnight = getOvernightRosters(profileId, date);
+
+    return (
+      <div
+        key={key}
+        onDragOver={(e) => {
+          if (!dragging) return;
+          e.preventDefault();
+          if (dropTarget !== key) setDropTarget(key);
+        }}
+        onDragLeave={() => {
+          if (dropTarget === key) setDropTarget(null);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          handleDrop(profileId, date);
+        }}
+        className={`min-h-14 space-y-1 border-b border-r p-1 ${
+          dropTarget === key ? 'bg-blue-50 ring-2 ring-inset ring-blue-300' : isToday(parseISO(date)) ? 'bg-blue-50/40' : ''
+        }`}
+      >
+        {overnight.map(roster => {
+          const position = getShiftBarPosition(roster.start_time, roster.end_time, 'overnight');
+          return (
+            <div key={`overnight-${roster.id}`} className="relative h-2 rounded bg-gray-100" title={`${roster.name || 'Roster'} continues until ${roster.end_time.slice(0, 5)}`}>
+              <div
+                className={`absolute top-0 h-2 rounded opacity-60 ${getBarColor(roster)}`}
+                style={{ left: `${position.left}%`, width: `${position.width}%` }}
+              />
+            </div>
+          );
+        })}
+        {getCellRosters(profileId, date).map(roster => renderShift(roster, profileId, date))}
+      </div>
+    );
+  };
+
+  const rows: { id: string | null; label: string; detail?: string }[] = [
+    { id: null, label: 'Open shifts', detail: 'Unfilled slots' },
+    ...profiles.map(profile => ({ id: profile.id, label: profile.full_name, detail: profile.role }))
+  ];
+
+  return (
+    <div className="space-y-4">
+      <RosterWeeklyFilter currentWeek={currentWeek} onWeekChange={setCurrentWeek} />
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+        <span className="flex items-center gap-1">
+          <LayoutGrid className="h-3 w-3" />
+          Drag shifts between people and days; drag the ends of a bar to change its times
+        </span>
+        <span className="flex items-center gap-1"><span className="h-2 w-3 rounded bg-blue-500" /> Pending</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-3 rounded bg-green-500" /> Confirmed</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-3 rounded bg-gray-300" /> Locked or cancelled</span>
+      </div>
+
+      <div className="overflow-x-auto rounded border-l border-t">
+        <div
+          className="grid min-w-[1100px]"
+          style={{ gridTemplateColumns: '180px repeat(7, minmax(130px, 1fr))' }}
+        >
+          <div className="border-b border-r bg-gray-50 p-2 text-xs font-medium text-gray-600">
+            {format(weekStart, 'MMM dd')} - {format(weekEnd, 'MMM dd')}
+          </div>
+          {days.map(day => (
+            <div key={day} className="border-b border-r bg-gray-50 p-2">
+              <div className="text-xs font-medium text-gray-900">{format(parseISO(day), 'EEE dd')}</div>
+              <div className="mt-1 flex justify-between text-[9px] text-gray-400">
+                <span>0</span><span>6</span><span>12</span><span>18</span><span>24</span>
+              </div>
+            </div>
+          ))}
+
+          {rows.map(row => (
+            <div key={row.id || 'open'} className="contents">
+              <div className={`border-b border-r p-2 ${row.id ? '' : 'bg-orange-50'}`}>
+                <div className="truncate text-sm font-medium text-gray-900">{row.label}</div>
+                {row.detail && (
+                  row.id
+                    ? <div className="truncate text-xs text-gray-500">{row.detail}</div>
+                    : <Badge variant="outline" className="mt-1 text-[10px] text-orange-700 border-orange-200">{row.detail}</Badge>
+                )}
+              </div>
+              {days.map(day => renderCell(row.id, day))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Roster as RosterType, WorkingHour } from "@/types/database";
+import { findRosterConflicts, formatConflict } from "@/lib/roster-conflicts";
+
+interface RosterConflictReportDialogProps {
+  rosters: RosterType[];
+  weekStart: Date;
+  weekEnd: Date;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const RosterConflictReportDialog = ({ rosters, weekStart, weekEnd, isOpen, onClose }: RosterConflictReportDialogProps) => {
+  const [workingHours, setWorkingHours] = useState<WorkingHour[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const startDate = format(weekStart, 'yyyy-MM-dd');
+  const endDate = format(weekEnd, 'yyyy-MM-dd');
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchWorkingHours = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('working_hours')
+          .select(`
+            id, profile_id, roster_id, date, start_time, end_time, sign_in_time, sign_out_time, status,
+            projects!working_hours_project_id_fkey (id, name)
+          `)
+          .neq('status', 'rejected')
+          .gte('date', startDate)
+          .lte('date', endDate);
+
+        if (error) throw error;
+        setWorkingHours((data || []) as unknown as WorkingHour[]);
+      } catch (error) {
+        console.error('Error fetching working hours for conflict report:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchWorkingHours();
+  }, [isOpen, startDate, endDate]);
+
+  const conflicts = findRosterConflicts(rosters, workingHours);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-600" />
+            Conflict Report: {format(weekStart, 'MMM dd')} - {format(weekEnd, 'MMM dd, yyyy')}
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-32">Checking schedule...</div>
+        ) : conflicts.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <CheckCircle className="h-8 w-8 mx-auto mb-2 text-green-500" />
+            <p className="text-sm">No double-bookings found for this week</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Team Member</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Roster</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Conflicts With</th>
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Type</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conflicts.map((item, index) => (
+                  <tr key={`${item.roster.id}-${item.conflict.id}-${item.profile_id}-${index}`} className="border-b border-gray-100">
+                    <td className="py-3 px-4 font-medium text-gray-900">{item.profile_name}</td>
+                    <td className="py-3 px-4 text-sm text-gray-600">
+                      <div>{item.roster.name || 'Unnamed Roster'}</div>
+                      <div className="text-xs text-gray-500">
+                        {format(parseISO(item.roster.date), 'MMM dd')}, {item.roster.start_time.slice(0, 5)}-{item.roster.end_time.slice(0, 5)}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4 text-sm text-gray-600">{formatConflict(item.conflict)}</td>
+                    <td className="py-3 px-4">
+                      <Badge variant={item.conflict.source === 'roster' ? 'destructive' : 'secondary'} className="text-xs">
+                        {item.conflict.source === 'roster' ? 'Double-booked' : 'Logged hours'}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,102 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy } from "lucide-react";
+import { addWeeks, format, parseISO, startOfWeek } from "date-fns";
+import { Roster as RosterType, Profile, Project } from "@/types/database";
+import { RosterDraftPreview } from "./RosterDraftPreview";
+import { buildWeekCopy } from "@/lib/roster-templates";
+import { shiftDateString, toDateString } from "@/lib/time";
+
+interface RosterCopyWeekDialogProps {
+  rosters: RosterType[];
+  currentWeek: Date;
+  profiles: Profile[];
+  projects: Project[];
+  isOpen: boolean;
+  onClose: () => void;
+  onCopied: () => void;
+}
+
+export const RosterCopyWeekDialog = ({ rosters, currentWeek, profiles, projects, isOpen, onClose, onCopied }: RosterCopyWeekDialogProps) => {
+  const sourceWeekStart = toDateString(startOfWeek(currentWeek, { weekStartsOn: 1 }));
+  const [targetDate, setTargetDate] = useState("");
+
+  useEffect(() => {
+    if (isOpen) setTargetDate(toDateString(addWeeks(parseISO(sourceWeekStart), 1)));
+  }, [isOpen, sourceWeekStart]);
+
+  // Any day picked stands for the week it falls in
+  const targetWeekStart = targetDate ? toDateString(startOfWeek(parseISO(targetDate), { weekStartsOn: 1 })) : '';
+  const sameWeek = targetWeekStart === sourceWeekStart;
+  const copy = targetWeekStart && !sameWeek
+    ? buildWeekCopy(rosters, sourceWeekStart, targetWeekStart)
+    : { drafts: [], skippedCancelled: 0, skippedSeries: 0 };
+
+  const formatWeek = (weekStart: string) =>
+    `${format(parseISO(weekStart), 'MMM dd')} - ${format(parseISO(shiftDateString(weekStart, 6)), 'MMM dd, yyyy')}`;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm sm:max-w-2xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Copy Week
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div>
+              <Label className="text-sm font-medium">From week</Label>
+              <div className="mt-2 text-gray-700">{formatWeek(sourceWeekStart)}</div>
+            </div>
+            <div>
+              <Label htmlFor="target_week" className="text-sm font-medium">To week containing</Label>
+              <Input
+                id="target_week"
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+                className="mt-1"
+              />
+              {targetWeekStart && !sameWeek && (
+                <div className="text-xs text-gray-500 mt-1">{formatWeek(targetWeekStart)}</div>
+              )}
+            </div>
+          </div>
+
+          {sameWeek && (
+            <p className="text-sm text-red-600">Choose a different week to copy into</p>
+          )}
+
+          {(copy.skippedCancelled > 0 || copy.skippedSeries > 0) && (
+            <p className="text-xs text-gray-500">
+              Skipping {[
+                copy.skippedCancelled > 0 && `${copy.skippedCancelled} cancelled`,
+                copy.skippedSeries > 0 && `${copy.skippedSeries} repeating (already generated by their series)`
+              ].filter(Boolean).join(' and ')} rosters
+            </p>
+          )}
+
+          {isOpen && targetWeekStart && !sameWeek && (
+            <RosterDraftPreview
+              key={targetWeekStart}
+              drafts={copy.drafts}
+              profiles={profiles}
+              projects={projects}
+              submitLabel="Copy Rosters"
+              onCreated={() => {
+                onClose();
+                onCopied();
+              }}
+              onCancel={onClose}
+            />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, CalendarOff } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Profile, Project } from "@/types/database";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useRosterConflicts } from "@/hooks/useRosterConflicts";
+import { useStaffAvailability } from "@/hooks/useStaffAvailability";
+import { findProfileConflicts, formatConflict } from "@/lib/roster-conflicts";
+import { findProfileUnavailability, formatAvailabilityIssue, isBlockingIssue } from "@/lib/availability";
+import { RosterDraft, draftToRosterFields } from "@/lib/roster-templates";
+import { formatTimeRange } from "@/lib/time";
+
+interface RosterDraftPreviewProps {
+  drafts: RosterDraft[];
+  profiles: Profile[];
+  projects: Project[];
+  submitLabel: string;
+  onCreated: () => void;
+  onCancel: () => void;
+}
+
+// Lists the rosters about to be created with any double-bookings or unavailability
+// they would cause, then saves them with each one's team in a single transaction.
+export const RosterDraftPreview = ({ drafts, profiles, projects, submitLabel, onCreated, onCancel }: RosterDraftPreviewProps) => {
+  const [dropConflicted, setDropConflicted] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const allProfileIds = [...new Set(drafts.flatMap(d => d.profile_ids))];
+  const { rosters, workingHours, loading } = useRosterConflicts(drafts, allProfileIds);
+  const { schedule } = useStaffAvailability(drafts);
+
+  const nameOf = (profileId: string) => profiles.find(p => p.id === profileId)?.full_name || 'Unknown';
+
+  const issuesByDraft = Object.fromEntries(drafts.map(draft => {
+    const conflicts = findProfileConflicts([draft], draft.profile_ids, rosters, workingHours);
+    const unavailability = findProfileUnavailability([draft], draft.profile_ids, schedule);
+    const issues = draft.profile_ids.flatMap(profileId => [
+      ...(conflicts[profileId] || []).map(c => ({ profileId, text: `${nameOf(profileId)} already booked: ${formatConflict(c)}` })),
+      ...(unavailability[profileId] || []).filter(isBlockingIssue).map(i => ({ profileId, text: `${nameOf(profileId)}: ${formatAvailabilityIssue(i)}` }))
+    ]);
+    return [draft.key, issues];
+  }));
+
+  const conflictCount = drafts.filter(d => issuesByDraft[d.key].length > 0).length;
+
+  const teamFor = (draft: RosterDraft) => {
+    if (!dropConflicted) return draft.profile_ids;
+    const conflicted = new Set(issuesByDraft[draft.key].map(i => i.profileId));
+    return draft.profile_ids.filter(id => !conflicted.has(id));
+  };
+
+  const handleCreate = async () => {
+    if (drafts.length === 0) return;
+
+    setSaving(true);
+    try {
+      const { data: created, error } = await supabase.rpc('create_roster_drafts', {
+        drafts: drafts.map(draft => draftToRosterFields(draft, teamFor(draft)))
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `${created?.length || 0} rosters created${conflictCount > 0 ? ` (${conflictCount} with conflicts${dropConflicted ? ', conflicting staff left unassigned' : ''})` : ''}`
+      });
+      onCreated();
+    } catch (error) {
+      console.error('Error creating rosters:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create rosters",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-700">{drafts.length} rosters to create</span>
+        {loading ? (
+          <span className="text-gray-500">Checking conflicts...</span>
+        ) : conflictCount > 0 ? (
+          <Badge variant="destructive" className="flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            {conflictCount} with conflicts
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="text-green-700 border-green-200">No conflicts</Badge>
+        )}
+      </div>
+
+      <div className="max-h-80 overflow-y-auto space-y-2">
+        {drafts.map(draft => {
+          const issues = issuesByDraft[draft.key];
+          return (
+            <div key={draft.key} className={`p-2 border rounded text-sm ${issues.length > 0 ? 'border-red-200 bg-red-50' : ''}`}>
+              <div className="flex justify-between gap-2">
+                <span className="font-medium text-gray-900 truncate">
+                  {draft.name || projects.find(p => p.id === draft.project_id)?.name || 'Roster'}
+                </span>
+                <span className="text-gray-600 shrink-0">
+                  {format(parseISO(draft.date), 'EEE MMM dd')} {formatTimeRange(draft.start_time, draft.end_time)}
+                </span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {draft.profile_ids.length > 0 ? draft.profile_ids.map(nameOf).join(', ') : 'No team assigned'}
+              </div>
+              {issues.map(issue => (
+                <div key={issue.text} className="flex items-center gap-1 text-xs text-red-700 mt-1">
+                  <CalendarOff className="h-3 w-3 shrink-0" />
+                  {issue.text}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+        {drafts.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">Nothing to create</p>
+        )}
+      </div>
+
+      {conflictCount > 0 && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="drop_conflicted"
+            checked={dropConflicted}
+            onCheckedChange={(checked) => setDropConflicted(checked as boolean)}
+          />
+          <Label htmlFor="drop_conflicted" className="text-sm">Leave conflicting staff unassigned</Label>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={handleCreate} disabled={saving || loading || drafts.length === 0}>
+          {saving ? "Creating..." : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
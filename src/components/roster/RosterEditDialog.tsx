@@ -6,10 +6,19 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Repeat } from "lucide-react";
 import { Roster as RosterType, Profile, Client, Project } from "@/types/database";
 import { MultipleProfileSelector } from "@/components/common/MultipleProfileSelector";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useRosterConflicts } from "@/hooks/useRosterConflicts";
+import { useStaffAvailability } from "@/hooks/useStaffAvailability";
+import { findProfileUnavailability, isBlockingIssue } from "@/lib/availability";
+import { describeRecurrence, getEditedOccurrences, SeriesEditScope, SeriesOccurrence } from "@/lib/roster-recurrence";
+import { refreshRosterWorkingHours } from "@/lib/roster-timesheets";
+import { useRateCards } from "@/hooks/useRateCards";
+import { calculateShiftHours, daysBetween, formatTimeRange, shiftDateString } from "@/lib/time";
 
 interface RosterEditDialogProps {
   roster: RosterType | null;
@@ -32,6 +41,8 @@ export const RosterEditDialog = ({
 }: RosterEditDialogProps) => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  const [scope, setScope] = useState<SeriesEditScope>('occurrence');
+  const [seriesOccurrences, setSeriesOccurrences] = useState<SeriesOccurrence[]>([]);
   
   const [formData, setFormData] = useState({
     name: '',
@@ -42,11 +53,20 @@ export const RosterEditDialog = ({
     end_date: '',
     start_time: '',
     end_time: '',
+    break_minutes: 0,
     notes: '',
     status: 'pending' as 'pending' | 'confirmed' | 'cancelled',
     expected_profiles: 1,
     per_hour_rate: 0
   });
+  const { getRates } = useRateCards();
+
+  // Pre-fills the rate from the rate cards for the primary (first selected) profile
+  const withRate = (data: typeof formData) => {
+    const profile = profiles.find(p => p.id === data.profile_ids[0]);
+    const { pay } = getRates({ ...data, profile_id: profile?.id }, profile);
+    return pay ? { ...data, per_hour_rate: pay.rate } : data;
+  };
 
   useEffect(() => {
     if (roster && isOpen) {
@@ -59,75 +79,217 @@ export const RosterEditDialog = ({
         end_date: roster.end_date || '',
         start_time: roster.start_time || '',
         end_time: roster.end_time || '',
+        break_minutes: roster.break_minutes || 0,
         notes: roster.notes || '',
         status: roster.status || 'pending',
         expected_profiles: roster.expected_profiles || 1,
         per_hour_rate: roster.per_hour_rate || 0
       });
+      setScope('occurrence');
+      setSeriesOccurrences([]);
+      if (roster.series_id) fetchSeriesOccurrences(roster.series_id);
     }
   }, [roster, isOpen]);
 
-  const calculateTotalHours = (startTime: string, endTime: string) => {
-    if (!startTime || !endTime) return 0;
-    
-    const start = new Date(`2000-01-01T${startTime}`);
-    const end = new Date(`2000-01-01T${endTime}`);
-    const diffMs = end.getTime() - start.getTime();
-    const diffHours = diffMs / (1000 * 60 * 60);
-    
-    return Math.max(0, diffHours);
+  const fetchSeriesOccurrences = async (seriesId: string) => {
+    const { data, error } = await supabase
+      .from('rosters')
+      .select('id, date, is_locked')
+      .eq('series_id', seriesId);
+
+    if (error) {
+      console.error('Error fetching series rosters:', error);
+      return;
+    }
+    setSeriesOccurrences(data || []);
+  };
+
+  const editedShift = {
+    date: formData.date,
+    end_date: formData.end_date || null,
+    start_time: formData.start_time,
+    end_time: formData.end_time
+  };
+
+  // A series edit moves every occurrence it applies to, so all of them are checked
+  const seriesScope = roster?.series_id && scope !== 'occurrence' ? scope : null;
+  const editedShifts = roster && seriesScope
+    ? getEditedOccurrences(seriesOccurrences, seriesScope, roster.date, editedShift)
+    : [editedShift];
+  const editedRosterIds = roster ? [roster.id, ...(seriesScope ? seriesOccurrences.map(o => o.id) : [])] : [];
+
+  const { conflicts } = useRosterConflicts(
+    isOpen && roster ? editedShifts : [],
+    profiles.map(p => p.id),
+    editedRosterIds
+  );
+
+  const { schedule: availabilitySchedule } = useStaffAvailability(isOpen && roster ? editedShifts : []);
+  const unavailability = findProfileUnavailability(editedShifts, profiles.map(p => p.id), availabilitySchedule);
+
+  // Applies the edited fields to several occurrences of the roster's series in one transaction.
+  // "This and following" splits the series at this occurrence so earlier rosters keep the old template.
+  const updateSeriesOccurrences = async (rosterFields: Record<string, unknown>) => {
+    if (!roster?.series_id || !seriesScope) return 0;
+
+    const dayShift = daysBetween(roster.date, formData.date);
+    const durationDays = formData.end_date ? Math.max(0, daysBetween(formData.date, formData.end_date)) : 0;
+
+    const { data: series, error: seriesError } = await supabase
+      .from('roster_series')
+      .select('*')
+      .eq('id', roster.series_id)
+      .single();
+
+    if (seriesError) throw seriesError;
+
+    const { data: seriesRosters, error: rostersError } = await supabase
+      .from('rosters')
+      .select('id, date, is_locked')
+      .eq('series_id', roster.series_id);
+
+    if (rostersError) throw rostersError;
+
+    const editedRosters = getEditedOccurrences(seriesRosters || [], seriesScope, roster.date, {
+      date: formData.date,
+      end_date: formData.end_date || null,
+      start_time: formData.start_time,
+      end_time: formData.end_time
+    });
+    const scopedRosters = (seriesRosters || []).filter(r => seriesScope === 'series' || r.date >= roster.date);
+    const seriesTemplate = {
+      name: formData.name,
+      client_id: formData.client_id,
+      project_id: formData.project_id,
+      start_time: formData.start_time,
+      end_time: formData.end_time,
+      break_minutes: formData.break_minutes,
+      duration_days: durationDays,
+      expected_profiles: formData.expected_profiles,
+      per_hour_rate: formData.per_hour_rate,
+      notes: formData.notes,
+      profile_ids: formData.profile_ids
+    };
+
+    const occurrenceDate = roster.series_occurrence_date || roster.date;
+    const splits = seriesScope === 'following' && occurrenceDate > series.start_date;
+    const lastDate = scopedRosters.reduce((latest, r) => (r.date > latest ? r.date : latest), roster.date);
+
+    const { error } = await supabase.rpc('update_rosters', {
+      roster_changes: editedRosters.map(({ id, date, end_date }) => ({ ...rosterFields, id, date, end_date })),
+      team_profile_ids: formData.profile_ids,
+      target_series_id: series.id,
+      // The old series ends the day before the split; the new one takes the rest
+      series_changes: splits
+        ? {
+            until_date: shiftDateString(occurrenceDate, -1),
+            occurrence_count: null,
+            exception_dates: series.exception_dates.filter(date => date < occurrenceDate)
+          }
+        : {
+            ...seriesTemplate,
+            start_date: shiftDateString(series.start_date, dayShift),
+            until_date: series.until_date ? shiftDateString(series.until_date, dayShift) : null,
+            exception_dates: series.exception_dates.map(date => shiftDateString(date, dayShift))
+          },
+      split_fields: splits
+        ? {
+            ...seriesTemplate,
+            start_date: shiftDateString(occurrenceDate, dayShift),
+            until_date: shiftDateString(lastDate, dayShift),
+            occurrence_count: null,
+            exception_dates: series.exception_dates
+              .filter(date => date >= occurrenceDate)
+              .map(date => shiftDateString(date, dayShift))
+          }
+        : null
+    });
+
+    if (error) throw error;
+
+    await refreshRosterWorkingHours(editedRosters.map(r => r.id), formData.status === 'confirmed');
+
+    return scopedRosters.length - editedRosters.length;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!roster) return;
     
+    const conflictedProfiles = profiles.filter(p => formData.profile_ids.includes(p.id) && conflicts[p.id]?.length);
+    if (conflictedProfiles.length > 0) {
+      toast({
+        title: "Scheduling conflict",
+        description: `${conflictedProfiles.map(p => p.full_name).join(', ')} already ${conflictedProfiles.length === 1 ? 'has' : 'have'} overlapping shifts or logged hours`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const unavailableProfiles = profiles.filter(p => formData.profile_ids.includes(p.id) && unavailability[p.id]?.some(isBlockingIssue));
+    if (unavailableProfiles.length > 0) {
+      toast({
+        title: "Staff unavailable",
+        description: `${unavailableProfiles.map(p => p.full_name).join(', ')} ${unavailableProfiles.length === 1 ? 'is' : 'are'} on leave or unavailable for these dates`,
+        variant: "destructive"
+      });
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const totalHours = calculateTotalHours(formData.start_time, formData.end_time);
-      
-      // Update roster
-      const { error: rosterError } = await supabase
-        .from('rosters')
-        .update({
-          name: formData.name,
-          client_id: formData.client_id,
-          project_id: formData.project_id,
-          date: formData.date,
-          end_date: formData.end_date || null,
-          start_time: formData.start_time,
-          end_time: formData.end_time,
-          total_hours: totalHours,
-          notes: formData.notes,
-          status: formData.status,
-          expected_profiles: formData.expected_profiles,
-          per_hour_rate: formData.per_hour_rate
-        })
-        .eq('id', roster.id);
-
-      if (rosterError) throw rosterError;
+      const totalHours = calculateShiftHours(formData.start_time, formData.end_time, formData.break_minutes);
+      const rosterFields = {
+        name: formData.name,
+        client_id: formData.client_id,
+        project_id: formData.project_id,
+        start_time: formData.start_time,
+        end_time: formData.end_time,
+        break_minutes: formData.break_minutes,
+        total_hours: totalHours,
+        notes: formData.notes,
+        status: formData.status,
+        expected_profiles: formData.expected_profiles,
+        per_hour_rate: formData.per_hour_rate
+      };
 
-      // Update roster profiles
-      await supabase
-        .from('roster_profiles')
-        .delete()
-        .eq('roster_id', roster.id);
+      if (seriesScope) {
+        const skipped = await updateSeriesOccurrences(rosterFields);
+        toast({
+          title: "Success",
+          description: skipped > 0
+            ? `Series updated; ${skipped} locked roster${skipped !== 1 ? 's were' : ' was'} left unchanged`
+            : "Series updated successfully"
+        });
+        onSave();
+        onClose();
+        return;
+      }
 
-      if (formData.profile_ids.length > 0) {
-        const rosterProfilesData = formData.profile_ids.map(profileId => ({
-          roster_id: roster.id,
-          profile_id: profileId
-        }));
+      // The roster and its team are saved together
+      const { error: rosterError } = await supabase.rpc('update_rosters', {
+        roster_changes: [{
+          ...rosterFields,
+          id: roster.id,
+          date: formData.date,
+          end_date: formData.end_date || null
+        }],
+        team_profile_ids: formData.profile_ids
+      });
 
-        const { error: profilesError } = await supabase
-          .from('roster_profiles')
-          .insert(rosterProfilesData);
+      if (rosterError) throw rosterError;
 
-        if (profilesError) throw profilesError;
-      }
+      // Unclocked timesheet rows are rebuilt from the saved roster, dropping anyone taken
+      // off it; rows already clocked, submitted or approved keep what was worked
+      const generated = await refreshRosterWorkingHours([roster.id], formData.status === 'confirmed');
 
-      toast({ title: "Success", description: "Roster updated successfully" });
+      toast({
+        title: "Success",
+        description: generated > 0
+          ? `Roster updated; ${generated} pending timesheet entr${generated !== 1 ? 'ies' : 'y'} brought in line`
+          : "Roster updated successfully"
+      });
       onSave();
       onClose();
     } catch (error) {
@@ -151,6 +313,36 @@ export const RosterEditDialog = ({
           <DialogTitle className="text-lg sm:text-xl">Edit Roster</DialogTitle>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
+          {roster.series_id && (
+            <div className="border rounded-lg p-3 bg-blue-50 space-y-3">
+              <div className="flex items-center gap-2 text-sm text-blue-900">
+                <Repeat className="h-4 w-4" />
+                <span className="font-medium">Part of a repeating series</span>
+                {roster.roster_series && (
+                  <span className="text-blue-700">({describeRecurrence(roster.roster_series)})</span>
+                )}
+              </div>
+              <RadioGroup
+                value={scope}
+                onValueChange={(value: SeriesEditScope) => setScope(value)}
+                className="grid grid-cols-1 sm:grid-cols-3 gap-2"
+              >
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="occurrence" />
+                  This occurrence
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="following" />
+                  This and following
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <RadioGroupItem value="series" />
+                  Whole series
+                </label>
+              </RadioGroup>
+            </div>
+          )}
+
           <div>
             <Label htmlFor="name" className="text-sm font-medium">Roster Name</Label>
             <Input
@@ -166,18 +358,20 @@ export const RosterEditDialog = ({
             <MultipleProfileSelector
               profiles={profiles}
               selectedProfileIds={formData.profile_ids}
-              onProfileSelect={(profileIds) => setFormData({ ...formData, profile_ids: profileIds })}
+              onProfileSelect={(profileIds) => setFormData(withRate({ ...formData, profile_ids: profileIds }))}
               label="Select Team Members"
               placeholder="Choose team members"
               showRoleFilter={true}
               className="border rounded-lg p-3 bg-gray-50"
+              conflicts={conflicts}
+              unavailability={unavailability}
             />
           </div>
           
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div>
               <Label htmlFor="client_id" className="text-sm font-medium">Client</Label>
-              <Select value={formData.client_id} onValueChange={(value) => setFormData({ ...formData, client_id: value })}>
+              <Select value={formData.client_id} onValueChange={(value) => setFormData(withRate({ ...formData, client_id: value }))}>
                 <SelectTrigger className="mt-1">
                   <SelectValue placeholder="Select client" />
                 </SelectTrigger>
@@ -193,7 +387,7 @@ export const RosterEditDialog = ({
 
             <div>
               <Label htmlFor="project_id" className="text-sm font-medium">Project</Label>
-              <Select value={formData.project_id} onValueChange={(value) => setFormData({ ...formData, project_id: value })}>
+              <Select value={formData.project_id} onValueChange={(value) => setFormData(withRate({ ...formData, project_id: value }))}>
                 <SelectTrigger className="mt-1">
                   <SelectValue placeholder="Select project" />
                 </SelectTrigger>
@@ -215,7 +409,7 @@ export const RosterEditDialog = ({
                 id="date"
                 type="date"
                 value={formData.date}
-                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                onChange={(e) => setFormData(withRate({ ...formData, date: e.target.value }))}
                 required
                 className="mt-1"
               />
@@ -256,6 +450,23 @@ export const RosterEditDialog = ({
                 className="mt-1"
               />
             </div>
+            <div>
+              <Label htmlFor="break_minutes" className="text-sm font-medium">Unpaid Break (minutes)</Label>
+              <Input
+                id="break_minutes"
+                type="number"
+                min="0"
+                step="5"
+                value={formData.break_minutes}
+                onChange={(e) => setFormData({ ...formData, break_minutes: parseInt(e.target.value) || 0 })}
+                className="mt-1"
+              />
+            </div>
+            {formData.start_time && formData.end_time && (
+              <div className="flex items-end text-sm text-gray-600 pb-2">
+                {formatTimeRange(formData.start_time, formData.end_time)}: {calculateShiftHours(formData.start_time, formData.end_time, formData.break_minutes)}h paid per day
+              </div>
+            )}
           </div>
 
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -0,0 +1,144 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Scale } from "lucide-react";
+import { startOfWeek } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Roster as RosterType, Profile, WorkingHour } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { RosterWeeklyFilter } from "./RosterWeeklyFilter";
+import { reconcileHours } from "@/lib/roster-timesheets";
+import { shiftDateString, toDateString } from "@/lib/time";
+
+interface RosterReconciliationProps {
+  rosters: RosterType[];
+  profiles: Profile[];
+}
+
+export const RosterReconciliation = ({ rosters, profiles }: RosterReconciliationProps) => {
+  const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [workingHours, setWorkingHours] = useState<WorkingHour[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const weekStart = toDateString(startOfWeek(currentWeek, { weekStartsOn: 1 }));
+  const weekEnd = shiftDateString(weekStart, 6);
+
+  useEffect(() => {
+    fetchWorkingHours();
+  }, [weekStart]);
+
+  const fetchWorkingHours = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('working_hours')
+        .select('*')
+        .gte('date', weekStart)
+        .lte('date', weekEnd);
+
+      if (error) throw error;
+      setWorkingHours((data || []) as WorkingHour[]);
+    } catch (error) {
+      console.error('Error fetching working hours:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch working hours",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const nameOf = (profileId: string) => profiles.find(p => p.id === profileId)?.full_name || 'Unknown';
+
+  const rows = reconcileHours(rosters, workingHours, weekStart, weekEnd)
+    .sort((a, b) => nameOf(a.profile_id).localeCompare(nameOf(b.profile_id)));
+
+  const totals = rows.reduce(
+    (sum, row) => ({ rostered: sum.rostered + row.rosteredHours, actual: sum.actual + row.actualHours }),
+    { rostered: 0, actual: 0 }
+  );
+
+  const varianceClass = (variance: number) =>
+    Math.abs(variance) < 0.01 ? 'text-gray-600' : variance > 0 ? 'text-orange-600' : 'text-red-600';
+
+  const formatVariance = (variance: number) =>
+    `${variance > 0 ? '+' : ''}${variance.toFixed(1)}h`;
+
+  return (
+    <div className="space-y-4">
+      <RosterWeeklyFilter currentWeek={currentWeek} onWeekChange={setCurrentWeek} />
+
+      <div className="grid grid-cols-3 gap-3">
+        <div className="p-3 border rounded-lg text-center">
+          <div className="text-lg font-bold text-blue-600">{totals.rostered.toFixed(1)}h</div>
+          <p className="text-xs text-gray-500">Rostered</p>
+        </div>
+        <div className="p-3 border rounded-lg text-center">
+          <div className="text-lg font-bold text-purple-600">{totals.actual.toFixed(1)}h</div>
+          <p className="text-xs text-gray-500">Actual</p>
+        </div>
+        <div className="p-3 border rounded-lg text-center">
+          <div className={`text-lg font-bold ${varianceClass(totals.actual - totals.rostered)}`}>
+            {formatVariance(totals.actual - totals.rostered)}
+          </div>
+          <p className="text-xs text-gray-500">Variance</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-500">Loading...</div>
+      ) : rows.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <Scale className="h-8 w-8 mx-auto mb-2 text-gray-400" />
+          No rostered or logged hours this week
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-600">
+                <th className="py-2 pr-4 font-medium">Employee</th>
+                <th className="py-2 pr-4 font-medium text-right">Rostered</th>
+                <th className="py-2 pr-4 font-medium text-right">Actual</th>
+                <th className="py-2 pr-4 font-medium text-right">Variance</th>
+                <th className="py-2 font-medium">Issues</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.profile_id} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-medium text-gray-900">{nameOf(row.profile_id)}</td>
+                  <td className="py-2 pr-4 text-right">
+                    {row.rosteredHours.toFixed(1)}h
+                    <span className="text-xs text-gray-500 ml-1">({row.rosteredShifts})</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right">
+                    {row.actualHours.toFixed(1)}h
+                    <span className="text-xs text-gray-500 ml-1">({row.loggedShifts})</span>
+                  </td>
+                  <td className={`py-2 pr-4 text-right font-medium ${varianceClass(row.variance)}`}>
+                    {formatVariance(row.variance)}
+                  </td>
+                  <td className="py-2">
+                    <div className="flex flex-wrap gap-1">
+                      {row.missingShifts > 0 && (
+                        <Badge variant="destructive">{row.missingShifts} without timesheet</Badge>
+                      )}
+                      {row.unrosteredHours > 0 && (
+                        <Badge variant="outline" className="text-orange-700 border-orange-200">
+                          {row.unrosteredHours.toFixed(1)}h unrostered
+                        </Badge>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
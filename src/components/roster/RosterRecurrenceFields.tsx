@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Repeat, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import {
+  RecurrenceFormValue,
+  WEEKDAY_LABELS,
+  MAX_SERIES_OCCURRENCES,
+  describeRecurrence,
+  generateOccurrenceDates,
+  recurrenceFromForm
+} from "@/lib/roster-recurrence";
+
+interface RosterRecurrenceFieldsProps {
+  value: RecurrenceFormValue;
+  onChange: (value: RecurrenceFormValue) => void;
+  startDate: string;
+}
+
+export const RosterRecurrenceFields = ({ value, onChange, startDate }: RosterRecurrenceFieldsProps) => {
+  const [exceptionInput, setExceptionInput] = useState("");
+
+  const rule = recurrenceFromForm(value, startDate);
+  const occurrences = rule ? generateOccurrenceDates(rule) : [];
+  const isWeekly = value.frequency === 'weekly' || value.frequency === 'fortnightly';
+
+  const toggleWeekday = (day: number) => {
+    const by_weekday = value.by_weekday.includes(day)
+      ? value.by_weekday.filter(d => d !== day)
+      : [...value.by_weekday, day];
+    onChange({ ...value, by_weekday });
+  };
+
+  const addException = () => {
+    if (!exceptionInput || value.exception_dates.includes(exceptionInput)) return;
+    onChange({ ...value, exception_dates: [...value.exception_dates, exceptionInput].sort() });
+    setExceptionInput("");
+  };
+
+  const removeException = (date: string) => {
+    onChange({ ...value, exception_dates: value.exception_dates.filter(d => d !== date) });
+  };
+
+  return (
+    <div className="border rounded-lg p-3 bg-gray-50 space-y-3">
+      <div className="flex items-center gap-2">
+        <Repeat className="h-4 w-4 text-blue-600" />
+        <Label className="text-sm font-medium">Repeat</Label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <Select
+          value={value.frequency}
+          onValueChange={(frequency: RecurrenceFormValue['frequency']) => onChange({ ...value, frequency })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Does not repeat" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+            <SelectItem value="fortnightly">Fortnightly</SelectItem>
+            <SelectItem value="monthly">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {value.frequency !== 'none' && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="recurrence_interval" className="text-sm text-gray-600 shrink-0">Every</Label>
+            <Input
+              id="recurrence_interval"
+              type="number"
+              min="1"
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: parseInt(e.target.value) || 1 })}
+              className="w-20"
+            />
+            <span className="text-sm text-gray-600">
+              {value.frequency === 'daily' ? 'day(s)' : value.frequency === 'monthly' ? 'month(s)' : value.frequency === 'fortnightly' ? 'fortnight(s)' : 'week(s)'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {value.frequency !== 'none' && (
+        <>
+          {isWeekly && (
+            <div className="flex flex-wrap gap-3">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <label key={label} className="flex items-center gap-1 text-sm">
+                  <Checkbox
+                    checked={value.by_weekday.includes(day)}
+                    onCheckedChange={() => toggleWeekday(day)}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Select
+              value={value.end_type}
+              onValueChange={(end_type: RecurrenceFormValue['end_type']) => onChange({ ...value, end_type })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">Ends after</SelectItem>
+                <SelectItem value="until">Ends on date</SelectItem>
+              </SelectContent>
+            </Select>
+            {value.end_type === 'count' ? (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="1"
+                  max={MAX_SERIES_OCCURRENCES}
+                  value={value.occurrence_count}
+                  onChange={(e) => onChange({ ...value, occurrence_count: parseInt(e.target.value) || 1 })}
+                  className="w-24"
+                />
+                <span className="text-sm text-gray-600">occurrences</span>
+              </div>
+            ) : (
+              <Input
+                type="date"
+                value={value.until_date}
+                min={startDate}
+                onChange={(e) => onChange({ ...value, until_date: e.target.value })}
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Skip Dates</Label>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={exceptionInput}
+                min={startDate}
+                onChange={(e) => setExceptionInput(e.target.value)}
+              />
+              <Button type="button" variant="outline" onClick={addException}>
+                Add
+              </Button>
+            </div>
+            {value.exception_dates.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {value.exception_dates.map((date) => (
+                  <Badge key={date} variant="secondary" className="text-xs flex items-center gap-1">
+                    {format(parseISO(date), 'MMM dd, yyyy')}
+                    <button type="button" onClick={() => removeException(date)}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="text-xs text-gray-600">
+            {rule && occurrences.length > 0 ? (
+              <>
+                {describeRecurrence(rule)} — {occurrences.length} roster{occurrences.length !== 1 ? 's' : ''} from{' '}
+                {format(parseISO(occurrences[0]), 'MMM dd')} to {format(parseISO(occurrences[occurrences.length - 1]), 'MMM dd, yyyy')}
+              </>
+            ) : (
+              <span className="text-orange-600">
+                {startDate ? 'No occurrences match this rule' : 'Pick a start date to preview occurrences'}
+              </span>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
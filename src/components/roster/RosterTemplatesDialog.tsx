@@ -0,0 +1,276 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { LayoutTemplate, Trash2, X, ArrowLeft } from "lucide-react";
+import { format, parseISO, startOfWeek } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Roster as RosterType, RosterTemplate, Profile, Project } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { RosterDraftPreview } from "./RosterDraftPreview";
+import { rosterToTemplateShift, templateShiftToDraft } from "@/lib/roster-templates";
+import { formatTimeRange, shiftDateString, toDateString } from "@/lib/time";
+
+interface RosterTemplatesDialogProps {
+  rosters: RosterType[];
+  currentWeek: Date;
+  profiles: Profile[];
+  projects: Project[];
+  isOpen: boolean;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const RosterTemplatesDialog = ({ rosters, currentWeek, profiles, projects, isOpen, onClose, onApplied }: RosterTemplatesDialogProps) => {
+  const [templates, setTemplates] = useState<RosterTemplate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [applying, setApplying] = useState<RosterTemplate | null>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const weekStart = toDateString(startOfWeek(currentWeek, { weekStartsOn: 1 }));
+  const weekEnd = shiftDateString(weekStart, 6);
+  const weekRosters = rosters.filter(r => r.date >= weekStart && r.date <= weekEnd && r.status !== 'cancelled');
+
+  useEffect(() => {
+    if (isOpen) {
+      setApplying(null);
+      fetchTemplates();
+    }
+  }, [isOpen]);
+
+  const fetchTemplates = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('roster_templates')
+        .select(`
+          *,
+          roster_template_shifts!roster_template_shifts_template_id_fkey (
+            *,
+            clients!roster_template_shifts_client_id_fkey (id, company),
+            projects!roster_template_shifts_project_id_fkey (id, name)
+          )
+        `)
+        .order('name');
+
+      if (error) throw error;
+      setTemplates((data || []).map(template => ({
+        ...template,
+        roster_template_shifts: [...(template.roster_template_shifts || [])]
+          .sort((a, b) => a.day_offset - b.day_offset || a.start_time.localeCompare(b.start_time))
+      })) as unknown as RosterTemplate[]);
+    } catch (error) {
+      console.error('Error fetching roster templates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch roster templates",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveWeek = async () => {
+    if (!templateName.trim() || weekRosters.length === 0) return;
+
+    setSaving(true);
+    try {
+      const { data: template, error } = await supabase
+        .from('roster_templates')
+        .insert({ name: templateName.trim(), created_by: user?.id })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const { error: shiftsError } = await supabase
+        .from('roster_template_shifts')
+        .insert(weekRosters.map(roster => ({ ...rosterToTemplateShift(roster, weekStart), template_id: template.id })));
+
+      if (shiftsError) throw shiftsError;
+
+      toast({ title: "Success", description: `Template saved with ${weekRosters.length} shifts` });
+      setTemplateName("");
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error saving roster template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save roster template",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: RosterTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('roster_templates')
+        .delete()
+        .eq('id', template.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Template deleted" });
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error deleting roster template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete roster template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRemoveShift = async (shiftId: string) => {
+    try {
+      const { error } = await supabase
+        .from('roster_template_shifts')
+        .delete()
+        .eq('id', shiftId);
+
+      if (error) throw error;
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error removing template shift:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove shift from template",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const nameOf = (profileId: string) => profiles.find(p => p.id === profileId)?.full_name || 'Unknown';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm sm:max-w-2xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="h-5 w-5" />
+            {applying ? `Apply "${applying.name}"` : 'Roster Templates'}
+          </DialogTitle>
+        </DialogHeader>
+
+        {applying ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">
+                Week of {format(parseISO(weekStart), 'MMM dd')} - {format(parseISO(weekEnd), 'MMM dd, yyyy')}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => setApplying(null)}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+            </div>
+            <RosterDraftPreview
+              key={`${applying.id}-${weekStart}`}
+              drafts={(applying.roster_template_shifts || []).map(shift => templateShiftToDraft(shift, weekStart))}
+              profiles={profiles}
+              projects={projects}
+              submitLabel="Create Rosters"
+              onCreated={() => {
+                onClose();
+                onApplied();
+              }}
+              onCancel={() => setApplying(null)}
+            />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="p-3 border rounded-lg space-y-2">
+              <Label htmlFor="template_name" className="text-sm font-medium">Save this week as a template</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="template_name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="Template name"
+                />
+                <Button onClick={handleSaveWeek} disabled={saving || !templateName.trim() || weekRosters.length === 0}>
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                {weekRosters.length} rosters in the week of {format(parseISO(weekStart), 'MMM dd')}, cancelled ones excluded
+              </p>
+            </div>
+
+            {loading ? (
+              <div className="text-center py-4 text-sm text-gray-500">Loading...</div>
+            ) : templates.length === 0 ? (
+              <div className="text-center py-4 text-sm text-gray-500">No templates yet</div>
+            ) : (
+              <div className="space-y-3">
+                {templates.map(template => (
+                  <div key={template.id} className="p-3 border rounded-lg space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 truncate">{template.name}</div>
+                        {template.description && (
+                          <div className="text-xs text-gray-500">{template.description}</div>
+                        )}
+                      </div>
+                      <div className="flex gap-2 shrink-0">
+                        <Button
+                          size="sm"
+                          onClick={() => setApplying(template)}
+                          disabled={!template.roster_template_shifts?.length}
+                        >
+                          Apply to this week
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDeleteTemplate(template)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      {template.roster_template_shifts?.map(shift => (
+                        <div key={shift.id} className="flex items-center justify-between gap-2 text-xs bg-gray-50 rounded px-2 py-1">
+                          <div className="min-w-0">
+                            <span className="font-medium">{DAY_LABELS[shift.day_offset]}</span>{' '}
+                            {formatTimeRange(shift.start_time, shift.end_time)}{' '}
+                            {shift.name || shift.projects?.name}
+                            {shift.clients?.company && <span className="text-gray-500"> · {shift.clients.company}</span>}
+                            <div className="text-gray-500 truncate">
+                              {shift.profile_ids.length > 0 ? shift.profile_ids.map(nameOf).join(', ') : 'No default team'}
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            <Badge variant="outline">{shift.expected_profiles || 1} staff</Badge>
+                            <span>${shift.per_hour_rate || 0}/hr</span>
+                            <button
+                              type="button"
+                              className="text-gray-400 hover:text-red-600"
+                              onClick={() => handleRemoveShift(shift.id)}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,15 +1,17 @@
 
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { ChevronLeft, ChevronRight, Copy, LayoutTemplate } from "lucide-react";
 import { format, startOfWeek, endOfWeek, addWeeks, subWeeks } from "date-fns";
 
 interface RosterWeeklyFilterProps {
   currentWeek: Date;
   onWeekChange: (week: Date) => void;
+  onCopyWeek?: () => void;
+  onOpenTemplates?: () => void;
 }
 
-export const RosterWeeklyFilter = ({ currentWeek, onWeekChange }: RosterWeeklyFilterProps) => {
+export const RosterWeeklyFilter = ({ currentWeek, onWeekChange, onCopyWeek, onOpenTemplates }: RosterWeeklyFilterProps) => {
   const weekStart = startOfWeek(currentWeek, { weekStartsOn: 1 }); // Monday
   const weekEnd = endOfWeek(currentWeek, { weekStartsOn: 1 }); // Sunday
 
@@ -25,7 +27,19 @@ export const RosterWeeklyFilter = ({ currentWeek, onWeekChange }: RosterWeeklyFi
           Week of {format(weekStart, 'MMM dd')} - {format(weekEnd, 'MMM dd, yyyy')}
         </span>
       </div>
-      <div className="flex items-center gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {onOpenTemplates && (
+          <Button variant="outline" size="sm" onClick={onOpenTemplates}>
+            <LayoutTemplate className="h-4 w-4" />
+            Templates
+          </Button>
+        )}
+        {onCopyWeek && (
+          <Button variant="outline" size="sm" onClick={onCopyWeek}>
+            <Copy className="h-4 w-4" />
+            Copy Week
+          </Button>
+        )}
         <Button
           variant="outline"
           size="sm"
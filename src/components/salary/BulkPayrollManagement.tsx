@@ -10,6 +10,17 @@ import { Plus, Zap, Users, Play } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { BulkPayroll, Profile } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
+import {
+  calculatePayroll,
+  createPayroll,
+  fetchPayrollHours,
+  fetchRecurringPayrollItems,
+  fetchSalaryTemplates,
+  MISSING_TEMPLATE_NOTE,
+  resolveSalaryTemplate
+} from "@/lib/payroll";
+import { fetchTaxScales, getWithholdingInput } from "@/lib/tax-withholding";
+import { fetchGuaranteeRates, resolveGuaranteeRate } from "@/lib/superannuation";
 
 interface BulkPayrollManagementProps {
   bulkPayrolls: BulkPayroll[];
@@ -92,6 +103,9 @@ export const BulkPayrollManagement = ({ bulkPayrolls, profiles, onRefresh }: Bul
   const processBulkPayroll = async (bulkPayrollId: string) => {
     setLoading(true);
     try {
+      const bulkPayroll = bulkPayrolls.find(b => b.id === bulkPayrollId);
+      if (!bulkPayroll) throw new Error('Bulk payroll not found');
+
       // Update status to processing
       await supabase
         .from('bulk_payroll')
@@ -106,36 +120,42 @@ export const BulkPayrollManagement = ({ bulkPayrolls, profiles, onRefresh }: Bul
 
       if (error) throw error;
 
-      // Process each item (simplified logic)
+      // Pay each employee for their approved hours in the bulk payroll's period
+      const [templates, taxScales, guaranteeRates] = await Promise.all([fetchSalaryTemplates(), fetchTaxScales(), fetchGuaranteeRates()]);
       let processedCount = 0;
+      let totalAmount = 0;
+      let withoutTemplate = 0;
+      const recurring = await fetchRecurringPayrollItems(items.map(item => item.profile_id), bulkPayroll.pay_period_start);
       for (const item of items) {
         try {
-          // Calculate payroll for this profile
-          // This is a simplified version - you'd want more sophisticated logic
-          const hourlyRate = item.profiles?.hourly_rate || 0;
-          const totalHours = 40; // Example: 40 hours per week
-          const grossPay = totalHours * hourlyRate;
-          const deductions = grossPay * 0.1;
-          const netPay = grossPay - deductions;
+          if (!item.profiles) throw new Error('Employee profile not found');
+
+          const entries = await fetchPayrollHours(item.profile_id, bulkPayroll.pay_period_start, bulkPayroll.pay_period_end);
+          if (entries.length === 0) throw new Error('No approved hours in the pay period');
+
+          const template = resolveSalaryTemplate(templates, item.profile_id, entries);
+          if (!template) withoutTemplate++;
+          const recurringItems = recurring.get(item.profile_id) || [];
+          const calculation = calculatePayroll({
+            profile: item.profiles,
+            entries,
+            template,
+            items: recurringItems,
+            tax: getWithholdingInput(taxScales, item.profiles, bulkPayroll.pay_period_start, bulkPayroll.pay_period_end),
+            superGuaranteePercentage: resolveGuaranteeRate(guaranteeRates, bulkPayroll.pay_period_end)
+          });
 
           // Create individual payroll record
-          const { data: payroll, error: payrollError } = await supabase
-            .from('payroll')
-            .insert([{
+          const [payroll] = await createPayroll([{
+            payroll: {
               profile_id: item.profile_id,
-              pay_period_start: formData.pay_period_start,
-              pay_period_end: formData.pay_period_end,
-              total_hours: totalHours,
-              hourly_rate: hourlyRate,
-              gross_pay: grossPay,
-              deductions: deductions,
-              net_pay: netPay,
+              pay_period_start: bulkPayroll.pay_period_start,
+              pay_period_end: bulkPayroll.pay_period_end,
               status: 'pending'
-            }])
-            .select()
-            .single();
-
-          if (payrollError) throw payrollError;
+            },
+            items: recurringItems,
+            calculation
+          }]);
 
           // Update bulk item
           await supabase
@@ -147,6 +167,7 @@ export const BulkPayrollManagement = ({ bulkPayrolls, profiles, onRefresh }: Bul
             .eq('id', item.id);
 
           processedCount++;
+          totalAmount += calculation.net_pay;
         } catch (itemError) {
           console.error('Error processing item:', itemError);
           await supabase
@@ -164,11 +185,16 @@ export const BulkPayrollManagement = ({ bulkPayrolls, profiles, onRefresh }: Bul
         .from('bulk_payroll')
         .update({ 
           status: 'completed',
-          processed_records: processedCount 
+          processed_records: processedCount,
+          total_amount: totalAmount
         })
         .eq('id', bulkPayrollId);
 
-      toast({ title: "Success", description: `Processed ${processedCount} payroll records` });
+      toast({
+        title: "Success",
+        description: `Processed ${processedCount} payroll records`
+          + (withoutTemplate > 0 ? `. ${withoutTemplate} had no salary template: ${MISSING_TEMPLATE_NOTE}` : '')
+      });
       onRefresh();
     } catch (error: any) {
       console.error('Error processing bulk payroll:', error);
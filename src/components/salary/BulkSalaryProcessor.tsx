@@ -11,6 +11,17 @@ import { supabase } from "@/integrations/supabase/client";
 import { BulkPayroll, Profile } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
 import { EnhancedProfileSelector } from "./EnhancedProfileSelector";
+import {
+  calculatePayroll,
+  createPayroll,
+  fetchPayrollHours,
+  fetchRecurringPayrollItems,
+  fetchSalaryTemplates,
+  MISSING_TEMPLATE_NOTE,
+  resolveSalaryTemplate
+} from "@/lib/payroll";
+import { fetchTaxScales, getWithholdingInput } from "@/lib/tax-withholding";
+import { fetchGuaranteeRates, resolveGuaranteeRate } from "@/lib/superannuation";
 
 interface BulkSalaryProcessorProps {
   bulkPayrolls: BulkPayroll[];
@@ -76,54 +87,41 @@ export const BulkSalaryProcessor = ({ bulkPayrolls, profiles, onRefresh }: BulkS
       if (itemsError) throw itemsError;
 
       // Process payrolls one by one
+      const [templates, taxScales, guaranteeRates] = await Promise.all([fetchSalaryTemplates(), fetchTaxScales(), fetchGuaranteeRates()]);
       let processedCount = 0;
       let totalAmount = 0;
+      let withoutTemplate = 0;
+      const recurring = await fetchRecurringPayrollItems(selectedProfileIds, bulkData.pay_period_start);
 
       for (const profileId of selectedProfileIds) {
         try {
-          // Get working hours for this profile using the individual working hour rates
-          const { data: workingHours } = await supabase
-            .from('working_hours')
-            .select('*, profiles(*)')
-            .eq('profile_id', profileId)
-            .eq('status', 'approved')
-            .gte('date', bulkData.pay_period_start)
-            .lte('date', bulkData.pay_period_end);
-
           const profile = profiles.find(p => p.id === profileId);
-          if (!profile || !workingHours) continue;
-
-          // Calculate using individual working hours rates instead of profile rate
-          let totalHours = 0;
-          let grossPay = 0;
+          if (!profile) continue;
 
-          for (const wh of workingHours) {
-            totalHours += wh.total_hours;
-            // Use the hourly_rate from each working hour record
-            grossPay += wh.total_hours * (wh.hourly_rate || 0);
-          }
-
-          const deductions = grossPay * 0.1; // 10% deductions
-          const netPay = grossPay - deductions;
+          const entries = await fetchPayrollHours(profileId, bulkData.pay_period_start, bulkData.pay_period_end);
+          const template = resolveSalaryTemplate(templates, profileId, entries);
+          if (!template) withoutTemplate++;
+          const recurringItems = recurring.get(profileId) || [];
+          const calculation = calculatePayroll({
+            profile,
+            entries,
+            template,
+            items: recurringItems,
+            tax: getWithholdingInput(taxScales, profile, bulkData.pay_period_start, bulkData.pay_period_end),
+            superGuaranteePercentage: resolveGuaranteeRate(guaranteeRates, bulkData.pay_period_end)
+          });
 
           // Create payroll record
-          const { data: payrollData, error: payrollError } = await supabase
-            .from('payroll')
-            .insert([{
+          const [payrollData] = await createPayroll([{
+            payroll: {
               profile_id: profileId,
               pay_period_start: bulkData.pay_period_start,
               pay_period_end: bulkData.pay_period_end,
-              total_hours: totalHours,
-              hourly_rate: workingHours.length > 0 ? workingHours[0].hourly_rate || 0 : 0, // Use rate from first working hour
-              gross_pay: grossPay,
-              deductions: deductions,
-              net_pay: netPay,
-              status: 'pending' as const
-            }])
-            .select()
-            .single();
-
-          if (payrollError) throw payrollError;
+              status: 'pending'
+            },
+            items: recurringItems,
+            calculation
+          }]);
 
           // Update bulk payroll item
           await supabase
@@ -136,7 +134,7 @@ export const BulkSalaryProcessor = ({ bulkPayrolls, profiles, onRefresh }: BulkS
             .eq('profile_id', profileId);
 
           processedCount++;
-          totalAmount += netPay;
+          totalAmount += calculation.net_pay;
           
           // Update progress
           const progress = (processedCount / selectedProfileIds.length) * 100;
@@ -169,6 +167,7 @@ export const BulkSalaryProcessor = ({ bulkPayrolls, profiles, onRefresh }: BulkS
       toast({
         title: "Success",
         description: `Bulk payroll completed. Processed ${processedCount} out of ${selectedProfileIds.length} records.`
+          + (withoutTemplate > 0 ? ` ${withoutTemplate} had no salary template: ${MISSING_TEMPLATE_NOTE}` : '')
       });
 
       // Reset form
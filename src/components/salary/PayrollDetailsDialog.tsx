@@ -1,13 +1,25 @@
 
 import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Printer, Download, DollarSign, Calendar, User, Building, Clock, FileText } from "lucide-react";
-import { Payroll, Profile, BankAccount, WorkingHour } from "@/types/database";
+import { Payroll, PayrollLineItem, Profile, BankAccount, WorkingHour, SalaryTemplate, SuperAccrual } from "@/types/database";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { AuditHistory } from "@/components/audit/AuditHistory";
+import { fetchYearToDateTax } from "@/lib/tax-withholding";
+import { fetchPayrollLineItems, PAYROLL_ITEM_TYPE_LABELS, summarisePayrollItems } from "@/lib/payroll";
+
+// How a line item reads on the payslip, noting what is left out of or taken before tax
+const describeLineItem = (item: PayrollLineItem) => {
+  const note = item.type === 'deduction'
+    ? (item.taxable ? ' (before tax)' : '')
+    : item.type !== 'reimbursement' && !item.taxable ? ' (non-taxable)' : '';
+  return `${PAYROLL_ITEM_TYPE_LABELS[item.type]}: ${item.description}${note}`;
+};
 
 interface PayrollDetailsDialogProps {
   payroll: Payroll | null;
@@ -24,6 +36,10 @@ export const PayrollDetailsDialog = ({
   const [profile, setProfile] = useState<Profile | null>(null);
   const [bankAccount, setBankAccount] = useState<BankAccount | null>(null);
   const [workingHours, setWorkingHours] = useState<WorkingHour[]>([]);
+  const [salaryTemplate, setSalaryTemplate] = useState<SalaryTemplate | null>(null);
+  const [yearToDateTax, setYearToDateTax] = useState<number | null>(null);
+  const [superAccrual, setSuperAccrual] = useState<SuperAccrual | null>(null);
+  const [lineItems, setLineItems] = useState<PayrollLineItem[]>([]);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
@@ -60,6 +76,36 @@ export const PayrollDetailsDialog = ({
         setBankAccount(bankData);
       }
 
+      // The salary template the pay was worked out with, if any
+      setSalaryTemplate(null);
+      if (payroll.salary_template_id) {
+        const { data: templateData, error: templateError } = await supabase
+          .from('salary_templates')
+          .select('*')
+          .eq('id', payroll.salary_template_id)
+          .maybeSingle();
+
+        if (templateError) throw templateError;
+        setSalaryTemplate(templateData as SalaryTemplate | null);
+      }
+
+      // Tax withheld this tax year up to and including this pay period
+      const yearToDate = await fetchYearToDateTax(payroll.pay_period_end, [payroll.profile_id]);
+      setYearToDateTax(yearToDate.get(payroll.profile_id) ?? 0);
+
+      // The employer's super contribution accrued with this payroll, if any
+      const { data: accrualData, error: accrualError } = await supabase
+        .from('super_accruals')
+        .select('*')
+        .eq('payroll_id', payroll.id)
+        .maybeSingle();
+
+      if (accrualError) throw accrualError;
+      setSuperAccrual(accrualData as SuperAccrual | null);
+
+      // Earnings, allowances, reimbursements and deductions itemised on the payroll
+      setLineItems(await fetchPayrollLineItems([payroll.id]));
+
       // Fetch working hours for the pay period
       const { data: hoursData, error: hoursError } = await supabase
         .from('working_hours')
@@ -115,8 +161,18 @@ export const PayrollDetailsDialog = ({
     });
   };
 
+  const additions = lineItems.filter(item => item.type === 'earning' || item.type === 'allowance');
+  const itemDeductions = lineItems.filter(item => item.type === 'deduction');
+  const reimbursements = lineItems.filter(item => item.type === 'reimbursement');
+  // Deductions not itemised, such as the salary template's percentage
+  const otherDeductions = payroll
+    ? Math.round((payroll.deductions - summarisePayrollItems(lineItems).deductions) * 100) / 100
+    : 0;
+
   const generatePayrollContent = () => {
     if (!payroll || !profile) return '';
+    const formatItems = (items: PayrollLineItem[], sign: string) =>
+      items.map(item => `${describeLineItem(item)}: ${sign}$${Number(item.amount).toFixed(2)}`).join('\n');
     
     return `
 PAYSLIP
@@ -140,9 +196,17 @@ PAYMENT DETAILS
 ---------------
 Total Hours: ${payroll.total_hours}
 Hourly Rate: $${payroll.hourly_rate.toFixed(2)}
+Salary Template: ${salaryTemplate?.name || 'None'}
+${formatItems(additions, '')}
 Gross Pay: $${payroll.gross_pay.toFixed(2)}
-Deductions: $${payroll.deductions.toFixed(2)}
+Tax Withheld: $${(payroll.tax_withheld || 0).toFixed(2)}
+${formatItems(itemDeductions, '-')}
+Other Deductions: $${otherDeductions.toFixed(2)}
+${formatItems(reimbursements, '+')}
 Net Pay: $${payroll.net_pay.toFixed(2)}
+${yearToDateTax !== null ? `Tax Withheld Year to Date: $${yearToDateTax.toFixed(2)}` : ''}
+${superAccrual ? `Employer Super (${Number(superAccrual.guarantee_percentage)}%): $${Number(superAccrual.amount).toFixed(2)}` : ''}
+${profile.super_fund_name ? `Super Fund: ${profile.super_fund_name}${profile.super_member_number ? ` (member ${profile.super_member_number})` : ''}` : ''}
 
 BANK ACCOUNT INFORMATION
 ------------------------
@@ -221,222 +285,282 @@ This is an automatically generated payslip.
           </div>
         </DialogHeader>
 
-        <div className="space-y-6 print:space-y-4" id="payroll-content">
-          {/* Header */}
-          <div className="text-center border-b-2 border-gray-800 pb-4 print:pb-2">
-            <h1 className="text-3xl font-bold text-gray-800 print:text-2xl">PAYSLIP</h1>
-            <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-gray-600">
-              <div>Pay Period: {new Date(payroll.pay_period_start).toLocaleDateString()} - {new Date(payroll.pay_period_end).toLocaleDateString()}</div>
-              <div>Pay Date: {new Date().toLocaleDateString()}</div>
-              <div>Payslip ID: {payroll.id.slice(0, 8)}</div>
-            </div>
-          </div>
-
-          {/* Employee Information */}
-          <Card className="print:shadow-none print:border">
-            <CardHeader className="print:pb-2">
-              <CardTitle className="flex items-center gap-2 text-lg print:text-base">
-                <User className="h-5 w-5" />
-                Employee Information
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 print:gap-2">
-              <div>
-                <div className="text-sm text-gray-600">Full Name</div>
-                <div className="font-medium">{profile?.full_name}</div>
-              </div>
-              <div>
-                <div className="text-sm text-gray-600">Email</div>
-                <div className="font-medium">{profile?.email}</div>
-              </div>
-              <div>
-                <div className="text-sm text-gray-600">Role</div>
-                <div className="font-medium capitalize">{profile?.role}</div>
-              </div>
-              <div>
-                <div className="text-sm text-gray-600">Employment Type</div>
-                <div className="font-medium capitalize">{profile?.employment_type}</div>
-              </div>
-              {profile?.phone && (
-                <div>
-                  <div className="text-sm text-gray-600">Phone</div>
-                  <div className="font-medium">{profile.phone}</div>
-                </div>
-              )}
-              {profile?.full_address && (
-                <div className="md:col-span-2">
-                  <div className="text-sm text-gray-600">Address</div>
-                  <div className="font-medium">{profile.full_address}</div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Payment Summary */}
-          <Card className="print:shadow-none print:border">
-            <CardHeader className="print:pb-2">
-              <CardTitle className="flex items-center gap-2 text-lg print:text-base">
-                <DollarSign className="h-5 w-5" />
-                Payment Summary
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 print:gap-2 mb-4">
-                <div className="text-center p-3 bg-blue-50 rounded print:bg-gray-50">
-                  <div className="text-sm text-gray-600">Total Hours</div>
-                  <div className="text-xl font-bold text-blue-600">{payroll.total_hours}</div>
-                </div>
-                <div className="text-center p-3 bg-green-50 rounded print:bg-gray-50">
-                  <div className="text-sm text-gray-600">Hourly Rate</div>
-                  <div className="text-xl font-bold text-green-600">${payroll.hourly_rate.toFixed(2)}</div>
-                </div>
-                <div className="text-center p-3 bg-purple-50 rounded print:bg-gray-50">
-                  <div className="text-sm text-gray-600">Gross Pay</div>
-                  <div className="text-xl font-bold text-purple-600">${payroll.gross_pay.toFixed(2)}</div>
-                </div>
-                <div className="text-center p-3 bg-orange-50 rounded print:bg-gray-50">
-                  <div className="text-sm text-gray-600">Net Pay</div>
-                  <div className="text-xl font-bold text-orange-600">${payroll.net_pay.toFixed(2)}</div>
-                </div>
-              </div>
-              
-              <Separator className="my-4" />
-              
-              <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Gross Pay</span>
-                  <span className="font-medium">${payroll.gross_pay.toFixed(2)}</span>
-                </div>
-                <div className="flex justify-between text-red-600">
-                  <span>Total Deductions</span>
-                  <span className="font-medium">-${payroll.deductions.toFixed(2)}</span>
-                </div>
-                <Separator />
-                <div className="flex justify-between text-lg font-bold">
-                  <span>Net Pay</span>
-                  <span className="text-green-600">${payroll.net_pay.toFixed(2)}</span>
+        <Tabs defaultValue="details">
+          <TabsList className="grid w-full grid-cols-2 print:hidden">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <div className="space-y-6 print:space-y-4" id="payroll-content">
+              {/* Header */}
+              <div className="text-center border-b-2 border-gray-800 pb-4 print:pb-2">
+                <h1 className="text-3xl font-bold text-gray-800 print:text-2xl">PAYSLIP</h1>
+                <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-gray-600">
+                  <div>Pay Period: {new Date(payroll.pay_period_start).toLocaleDateString()} - {new Date(payroll.pay_period_end).toLocaleDateString()}</div>
+                  <div>Pay Date: {new Date().toLocaleDateString()}</div>
+                  <div>Payslip ID: {payroll.id.slice(0, 8)}</div>
                 </div>
               </div>
-            </CardContent>
-          </Card>
-
-          {/* Bank Account Information */}
-          {bankAccount && (
-            <Card className="print:shadow-none print:border">
-              <CardHeader className="print:pb-2">
-                <CardTitle className="flex items-center gap-2 text-lg print:text-base">
-                  <Building className="h-5 w-5" />
-                  Bank Account Details
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 print:gap-2">
-                <div>
-                  <div className="text-sm text-gray-600">Bank Name</div>
-                  <div className="font-medium">{bankAccount.bank_name}</div>
-                </div>
-                <div>
-                  <div className="text-sm text-gray-600">Account Number</div>
-                  <div className="font-medium">{bankAccount.account_number}</div>
-                </div>
-                <div>
-                  <div className="text-sm text-gray-600">Account Holder</div>
-                  <div className="font-medium">{bankAccount.account_holder_name}</div>
-                </div>
-                {bankAccount.bsb_code && (
+
+              {/* Employee Information */}
+              <Card className="print:shadow-none print:border">
+                <CardHeader className="print:pb-2">
+                  <CardTitle className="flex items-center gap-2 text-lg print:text-base">
+                    <User className="h-5 w-5" />
+                    Employee Information
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 print:gap-2">
+                  <div>
+                    <div className="text-sm text-gray-600">Full Name</div>
+                    <div className="font-medium">{profile?.full_name}</div>
+                  </div>
                   <div>
-                    <div className="text-sm text-gray-600">BSB Code</div>
-                    <div className="font-medium">{bankAccount.bsb_code}</div>
+                    <div className="text-sm text-gray-600">Email</div>
+                    <div className="font-medium">{profile?.email}</div>
                   </div>
-                )}
-                {bankAccount.swift_code && (
-                  <div className="md:col-span-2">
-                    <div className="text-sm text-gray-600">SWIFT Code</div>
-                    <div className="font-medium">{bankAccount.swift_code}</div>
+                  <div>
+                    <div className="text-sm text-gray-600">Role</div>
+                    <div className="font-medium capitalize">{profile?.role}</div>
                   </div>
-                )}
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Working Hours Breakdown */}
-          {workingHours.length > 0 && (
-            <Card className="print:shadow-none print:border">
-              <CardHeader className="print:pb-2">
-                <CardTitle className="flex items-center gap-2 text-lg print:text-base">
-                  <Clock className="h-5 w-5" />
-                  Working Hours Breakdown ({workingHours.length} entries)
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="overflow-x-auto">
-                  <table className="w-full text-sm">
-                    <thead>
-                      <tr className="border-b border-gray-200">
-                        <th className="text-left py-2 px-2 font-medium text-gray-600">Date</th>
-                        <th className="text-left py-2 px-2 font-medium text-gray-600">Client</th>
-                        <th className="text-left py-2 px-2 font-medium text-gray-600">Project</th>
-                        <th className="text-right py-2 px-2 font-medium text-gray-600">Hours</th>
-                        <th className="text-right py-2 px-2 font-medium text-gray-600">Rate</th>
-                        <th className="text-right py-2 px-2 font-medium text-gray-600">Amount</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {workingHours.map((wh) => (
-                        <tr key={wh.id} className="border-b border-gray-100">
-                          <td className="py-2 px-2">{new Date(wh.date).toLocaleDateString()}</td>
-                          <td className="py-2 px-2">{wh.clients?.company || 'N/A'}</td>
-                          <td className="py-2 px-2">{wh.projects?.name || 'N/A'}</td>
-                          <td className="py-2 px-2 text-right">{wh.total_hours}h</td>
-                          <td className="py-2 px-2 text-right">${(wh.hourly_rate || 0).toFixed(2)}</td>
-                          <td className="py-2 px-2 text-right font-medium">${(wh.total_hours * (wh.hourly_rate || 0)).toFixed(2)}</td>
-                        </tr>
-                      ))}
-                    </tbody>
-                    <tfoot>
-                      <tr className="border-t-2 border-gray-300 font-bold">
-                        <td colSpan={3} className="py-2 px-2 text-right">TOTALS:</td>
-                        <td className="py-2 px-2 text-right">{workingHours.reduce((sum, wh) => sum + wh.total_hours, 0)}h</td>
-                        <td className="py-2 px-2 text-right">-</td>
-                        <td className="py-2 px-2 text-right">${workingHours.reduce((sum, wh) => sum + (wh.total_hours * (wh.hourly_rate || 0)), 0).toFixed(2)}</td>
-                      </tr>
-                    </tfoot>
-                  </table>
-                </div>
-              </CardContent>
-            </Card>
-          )}
-
-          {/* Status and Footer */}
-          <Card className="print:shadow-none print:border">
-            <CardContent className="pt-6 print:pt-4">
-              <div className="flex justify-between items-center mb-4">
-                <div>
-                  <div className="text-sm text-gray-600">Payment Status</div>
-                  <div className={`text-lg font-bold capitalize ${
-                    payroll.status === 'paid' 
-                      ? 'text-green-600' 
-                      : payroll.status === 'approved'
-                      ? 'text-blue-600'
-                      : 'text-yellow-600'
-                  }`}>
-                    {payroll.status}
+                  <div>
+                    <div className="text-sm text-gray-600">Employment Type</div>
+                    <div className="font-medium capitalize">{profile?.employment_type}</div>
+                  </div>
+                  {profile?.phone && (
+                    <div>
+                      <div className="text-sm text-gray-600">Phone</div>
+                      <div className="font-medium">{profile.phone}</div>
+                    </div>
+                  )}
+                  {profile?.full_address && (
+                    <div className="md:col-span-2">
+                      <div className="text-sm text-gray-600">Address</div>
+                      <div className="font-medium">{profile.full_address}</div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Payment Summary */}
+              <Card className="print:shadow-none print:border">
+                <CardHeader className="print:pb-2">
+                  <CardTitle className="flex items-center gap-2 text-lg print:text-base">
+                    <DollarSign className="h-5 w-5" />
+                    Payment Summary
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 print:gap-2 mb-4">
+                    <div className="text-center p-3 bg-blue-50 rounded print:bg-gray-50">
+                      <div className="text-sm text-gray-600">Total Hours</div>
+                      <div className="text-xl font-bold text-blue-600">{payroll.total_hours}</div>
+                    </div>
+                    <div className="text-center p-3 bg-green-50 rounded print:bg-gray-50">
+                      <div className="text-sm text-gray-600">Hourly Rate</div>
+                      <div className="text-xl font-bold text-green-600">${payroll.hourly_rate.toFixed(2)}</div>
+                    </div>
+                    <div className="text-center p-3 bg-purple-50 rounded print:bg-gray-50">
+                      <div className="text-sm text-gray-600">Gross Pay</div>
+                      <div className="text-xl font-bold text-purple-600">${payroll.gross_pay.toFixed(2)}</div>
+                    </div>
+                    <div className="text-center p-3 bg-orange-50 rounded print:bg-gray-50">
+                      <div className="text-sm text-gray-600">Net Pay</div>
+                      <div className="text-xl font-bold text-orange-600">${payroll.net_pay.toFixed(2)}</div>
+                    </div>
                   </div>
-                </div>
-                <div className="text-right">
-                  <div className="text-sm text-gray-600">Generated On</div>
-                  <div className="font-medium">{new Date(payroll.created_at).toLocaleDateString()}</div>
-                </div>
-              </div>
               
-              <Separator />
+                  <Separator className="my-4" />
               
-              <div className="mt-4 text-center text-xs text-gray-500">
-                <p>This is a computer-generated payslip. Please verify all details and contact HR for any discrepancies.</p>
-                <p className="mt-1">Employee copy - retain for your records</p>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+                  <div className="space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Salary Template</span>
+                      {salaryTemplate ? (
+                        <span className="font-medium">{salaryTemplate.name}</span>
+                      ) : (
+                        <span className="text-orange-600">None – only tax withheld</span>
+                      )}
+                    </div>
+                    {additions.map(item => (
+                      <div key={item.id} className="flex justify-between">
+                        <span className="text-gray-600">{describeLineItem(item)}</span>
+                        <span>${Number(item.amount).toFixed(2)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Gross Pay</span>
+                      <span className="font-medium">${payroll.gross_pay.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between text-red-600">
+                      <span>Tax Withheld</span>
+                      <span className="font-medium">-${(payroll.tax_withheld || 0).toFixed(2)}</span>
+                    </div>
+                    {itemDeductions.map(item => (
+                      <div key={item.id} className="flex justify-between text-red-600">
+                        <span>{describeLineItem(item)}</span>
+                        <span className="font-medium">-${Number(item.amount).toFixed(2)}</span>
+                      </div>
+                    ))}
+                    {(otherDeductions !== 0 || itemDeductions.length === 0) && (
+                      <div className="flex justify-between text-red-600">
+                        <span>Other Deductions</span>
+                        <span className="font-medium">-${otherDeductions.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {reimbursements.map(item => (
+                      <div key={item.id} className="flex justify-between text-green-700">
+                        <span>{describeLineItem(item)}</span>
+                        <span className="font-medium">+${Number(item.amount).toFixed(2)}</span>
+                      </div>
+                    ))}
+                    <Separator />
+                    <div className="flex justify-between text-lg font-bold">
+                      <span>Net Pay</span>
+                      <span className="text-green-600">${payroll.net_pay.toFixed(2)}</span>
+                    </div>
+                    {yearToDateTax !== null && (
+                      <div className="flex justify-between text-gray-600">
+                        <span>Tax withheld this tax year</span>
+                        <span>${yearToDateTax.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {superAccrual && (
+                      <div className="flex justify-between text-gray-600">
+                        <span>
+                          Employer super ({Number(superAccrual.guarantee_percentage)}%)
+                          {profile?.super_fund_name && ` to ${profile.super_fund_name}`}
+                        </span>
+                        <span>${Number(superAccrual.amount).toFixed(2)}</span>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Bank Account Information */}
+              {bankAccount && (
+                <Card className="print:shadow-none print:border">
+                  <CardHeader className="print:pb-2">
+                    <CardTitle className="flex items-center gap-2 text-lg print:text-base">
+                      <Building className="h-5 w-5" />
+                      Bank Account Details
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4 print:gap-2">
+                    <div>
+                      <div className="text-sm text-gray-600">Bank Name</div>
+                      <div className="font-medium">{bankAccount.bank_name}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-gray-600">Account Number</div>
+                      <div className="font-medium">{bankAccount.account_number}</div>
+                    </div>
+                    <div>
+                      <div className="text-sm text-gray-600">Account Holder</div>
+                      <div className="font-medium">{bankAccount.account_holder_name}</div>
+                    </div>
+                    {bankAccount.bsb_code && (
+                      <div>
+                        <div className="text-sm text-gray-600">BSB Code</div>
+                        <div className="font-medium">{bankAccount.bsb_code}</div>
+                      </div>
+                    )}
+                    {bankAccount.swift_code && (
+                      <div className="md:col-span-2">
+                        <div className="text-sm text-gray-600">SWIFT Code</div>
+                        <div className="font-medium">{bankAccount.swift_code}</div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Working Hours Breakdown */}
+              {workingHours.length > 0 && (
+                <Card className="print:shadow-none print:border">
+                  <CardHeader className="print:pb-2">
+                    <CardTitle className="flex items-center gap-2 text-lg print:text-base">
+                      <Clock className="h-5 w-5" />
+                      Working Hours Breakdown ({workingHours.length} entries)
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b border-gray-200">
+                            <th className="text-left py-2 px-2 font-medium text-gray-600">Date</th>
+                            <th className="text-left py-2 px-2 font-medium text-gray-600">Client</th>
+                            <th className="text-left py-2 px-2 font-medium text-gray-600">Project</th>
+                            <th className="text-right py-2 px-2 font-medium text-gray-600">Hours</th>
+                            <th className="text-right py-2 px-2 font-medium text-gray-600">Rate</th>
+                            <th className="text-right py-2 px-2 font-medium text-gray-600">Amount</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {workingHours.map((wh) => (
+                            <tr key={wh.id} className="border-b border-gray-100">
+                              <td className="py-2 px-2">{new Date(wh.date).toLocaleDateString()}</td>
+                              <td className="py-2 px-2">{wh.clients?.company || 'N/A'}</td>
+                              <td className="py-2 px-2">{wh.projects?.name || 'N/A'}</td>
+                              <td className="py-2 px-2 text-right">{wh.total_hours}h</td>
+                              <td className="py-2 px-2 text-right">${(wh.hourly_rate || 0).toFixed(2)}</td>
+                              <td className="py-2 px-2 text-right font-medium">${(wh.total_hours * (wh.hourly_rate || 0)).toFixed(2)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                        <tfoot>
+                          <tr className="border-t-2 border-gray-300 font-bold">
+                            <td colSpan={3} className="py-2 px-2 text-right">TOTALS:</td>
+                            <td className="py-2 px-2 text-right">{workingHours.reduce((sum, wh) => sum + wh.total_hours, 0)}h</td>
+                            <td className="py-2 px-2 text-right">-</td>
+                            <td className="py-2 px-2 text-right">${workingHours.reduce((sum, wh) => sum + (wh.total_hours * (wh.hourly_rate || 0)), 0).toFixed(2)}</td>
+                          </tr>
+                        </tfoot>
+                      </table>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Status and Footer */}
+              <Card className="print:shadow-none print:border">
+                <CardContent className="pt-6 print:pt-4">
+                  <div className="flex justify-between items-center mb-4">
+                    <div>
+                      <div className="text-sm text-gray-600">Payment Status</div>
+                      <div className={`text-lg font-bold capitalize ${
+                        payroll.status === 'paid' 
+                          ? 'text-green-600' 
+                          : payroll.status === 'approved'
+                          ? 'text-blue-600'
+                          : 'text-yellow-600'
+                      }`}>
+                        {payroll.status}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="text-sm text-gray-600">Generated On</div>
+                      <div className="font-medium">{new Date(payroll.created_at).toLocaleDateString()}</div>
+                    </div>
+                  </div>
+              
+                  <Separator />
+              
+                  <div className="mt-4 text-center text-xs text-gray-500">
+                    <p>This is a computer-generated payslip. Please verify all details and contact HR for any discrepancies.</p>
+                    <p className="mt-1">Employee copy - retain for your records</p>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="history">
+            <AuditHistory tableName="payroll" recordId={payroll.id} />
+          </TabsContent>
+        </Tabs>
 
         <style>{`
           @media print {
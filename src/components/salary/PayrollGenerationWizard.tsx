@@ -8,9 +8,21 @@ import { Calculator, DollarSign, AlertTriangle, RefreshCw, ChevronDown, ChevronU
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { supabase } from "@/integrations/supabase/client";
-import { Profile, WorkingHour, Payroll } from "@/types/database";
+import { Profile, WorkingHour, Payroll, PayrollLineItem, SalaryTemplate, SuperGuaranteeRate, TaxScale } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
 import { EnhancedProfileSelector } from "./EnhancedProfileSelector";
+import { recalculateOvertime } from "@/lib/overtime";
+import {
+  calculatePayroll,
+  createPayroll,
+  fetchRecurringPayrollItems,
+  fetchSalaryTemplates,
+  MISSING_TEMPLATE_NOTE,
+  PayrollCalculation,
+  resolveSalaryTemplate
+} from "@/lib/payroll";
+import { fetchTaxScales, getWithholdingInput } from "@/lib/tax-withholding";
+import { fetchGuaranteeRates, resolveGuaranteeRate } from "@/lib/superannuation";
 
 interface PayrollGenerationWizardProps {
   profiles: Profile[];
@@ -18,6 +30,15 @@ interface PayrollGenerationWizardProps {
   onRefresh: () => void;
 }
 
+interface PayrollPreview {
+  profile: Profile;
+  template: SalaryTemplate | null;
+  // Carried over from the employee's last payroll
+  recurringItems: PayrollLineItem[];
+  payroll: PayrollCalculation;
+  workingHours: WorkingHour[];
+}
+
 export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: PayrollGenerationWizardProps) => {
   const [selectedProfileIds, setSelectedProfileIds] = useState<string[]>([]);
   const [dateRange, setDateRange] = useState({
@@ -27,8 +48,12 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
   const [loading, setLoading] = useState(false);
   const [filterLoading, setFilterLoading] = useState(false);
   const [step, setStep] = useState(1);
-  const [payrollPreview, setPayrollPreview] = useState<any[]>([]);
+  const [payrollPreview, setPayrollPreview] = useState<PayrollPreview[]>([]);
+  const [profilesWithoutTaxScale, setProfilesWithoutTaxScale] = useState<Profile[]>([]);
   const [existingPayrolls, setExistingPayrolls] = useState<Payroll[]>([]);
+  const [salaryTemplates, setSalaryTemplates] = useState<SalaryTemplate[]>([]);
+  const [taxScales, setTaxScales] = useState<TaxScale[]>([]);
+  const [guaranteeRates, setGuaranteeRates] = useState<SuperGuaranteeRate[]>([]);
   const [filteredProfiles, setFilteredProfiles] = useState<Profile[]>([]);
   const [filteredWorkingHours, setFilteredWorkingHours] = useState<WorkingHour[]>([]);
   const [overlappingPayrolls, setOverlappingPayrolls] = useState<string[]>([]);
@@ -38,6 +63,7 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
 
   useEffect(() => {
     fetchExistingPayrolls();
+    fetchTemplates();
   }, []);
 
   useEffect(() => {
@@ -50,9 +76,10 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
       checkForOverlappingPayrolls();
     } else {
       setPayrollPreview([]);
+      setProfilesWithoutTaxScale([]);
       setOverlappingPayrolls([]);
     }
-  }, [selectedProfileIds, filteredWorkingHours, existingPayrolls]);
+  }, [selectedProfileIds, filteredWorkingHours, existingPayrolls, salaryTemplates, taxScales, guaranteeRates]);
 
   const reloadFilteredData = async () => {
     try {
@@ -61,30 +88,41 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
       console.log('Reloading filtered data with:', { dateRange });
       
       // Fetch only approved working hours based on date range
-      const { data: workingHoursData, error: whError } = await supabase
-        .from('working_hours')
-        .select(`
-          *,
-          profiles!working_hours_profile_id_fkey (id, full_name, role, hourly_rate, employment_type),
-          clients!working_hours_client_id_fkey (id, name, company),
-          projects!working_hours_project_id_fkey (id, name)
-        `)
-        .gte('date', dateRange.start)
-        .lte('date', dateRange.end)
-        .eq('status', 'approved')
-        .order('date', { ascending: false });
-
-      if (whError) {
-        console.error('Error fetching working hours:', whError);
-        throw whError;
+      const fetchApprovedHours = async () => {
+        const { data, error } = await supabase
+          .from('working_hours')
+          .select(`
+            *,
+            profiles!working_hours_profile_id_fkey (id, full_name, role, hourly_rate, employment_type),
+            clients!working_hours_client_id_fkey (id, name, company),
+            projects!working_hours_project_id_fkey (id, name)
+          `)
+          .gte('date', dateRange.start)
+          .lte('date', dateRange.end)
+          .eq('status', 'approved')
+          .order('date', { ascending: false });
+
+        if (error) {
+          console.error('Error fetching working hours:', error);
+          throw error;
+        }
+        return data || [];
+      };
+
+      // Overtime is worked out again in the database with today's rules and public
+      // holidays, so holidays added after the hours were approved still get their loading
+      let workingHoursData = await fetchApprovedHours();
+      if (workingHoursData.length > 0) {
+        await recalculateOvertime(workingHoursData);
+        workingHoursData = await fetchApprovedHours();
       }
 
-      console.log('Fetched approved working hours:', workingHoursData?.length || 0);
+      console.log('Fetched approved working hours:', workingHoursData.length);
 
-      const typedWorkingHours = (workingHoursData || []).map(wh => ({
+      const typedWorkingHours = workingHoursData.map(wh => ({
         ...wh,
         status: wh.status as 'approved'
-      })) as WorkingHour[];
+      })) as unknown as WorkingHour[];
 
       setFilteredWorkingHours(typedWorkingHours);
 
@@ -130,6 +168,17 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
     }
   };
 
+  const fetchTemplates = async () => {
+    try {
+      const [templates, scales, rates] = await Promise.all([fetchSalaryTemplates(), fetchTaxScales(), fetchGuaranteeRates()]);
+      setSalaryTemplates(templates);
+      setTaxScales(scales);
+      setGuaranteeRates(rates);
+    } catch (error) {
+      console.error('Error fetching salary templates, tax scales and super rates:', error);
+    }
+  };
+
   const checkForOverlappingPayrolls = () => {
     const overlapping: string[] = [];
 
@@ -154,7 +203,9 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
   const generatePayrollPreview = async () => {
     try {
       setLoading(true);
-      const preview: any[] = [];
+      const preview: PayrollPreview[] = [];
+      const withoutTaxScale: Profile[] = [];
+      const recurring = await fetchRecurringPayrollItems(selectedProfileIds, dateRange.start);
 
       for (const profileId of selectedProfileIds) {
         const profile = filteredProfiles.find(p => p.id === profileId);
@@ -165,39 +216,31 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
           wh.profile_id === profileId
         );
 
-        const totalHours = profileHours.reduce((sum, wh) => sum + wh.total_hours, 0);
-        const overtimeHours = profileHours.reduce((sum, wh) => sum + (wh.overtime_hours || 0), 0);
-        const regularHours = totalHours - overtimeHours;
-        
-        // Calculate average hourly rate from working hours
-        const totalPayableAmount = profileHours.reduce((sum, wh) => sum + (wh.hourly_rate || 0) * wh.total_hours, 0);
-        const averageRate = totalHours > 0 ? totalPayableAmount / totalHours : 0;
-        
-        const regularPay = regularHours * averageRate;
-        const overtimePay = overtimeHours * averageRate * 1.5;
-        const grossPay = regularPay + overtimePay;
-        
-        const deductions = grossPay * 0.1;
-        const netPay = grossPay - deductions;
-
-        if (totalHours > 0) {
-          preview.push({
-            profile,
-            totalHours,
-            regularHours,
-            overtimeHours,
-            hourlyRate: averageRate,
-            regularPay,
-            overtimePay,
-            grossPay,
-            deductions,
-            netPay,
-            workingHours: profileHours
-          });
+        // Without a tax scale their pay can't be worked out, so they are left out of the run
+        const tax = getWithholdingInput(taxScales, profile, dateRange.start, dateRange.end);
+        if (!tax.scale) {
+          if (profileHours.length > 0) withoutTaxScale.push(profile);
+          continue;
+        }
+
+        const template = resolveSalaryTemplate(salaryTemplates, profileId, profileHours);
+        const recurringItems = recurring.get(profileId) || [];
+        const payroll = calculatePayroll({
+          profile,
+          entries: profileHours,
+          template,
+          items: recurringItems,
+          tax,
+          superGuaranteePercentage: resolveGuaranteeRate(guaranteeRates, dateRange.end)
+        });
+
+        if (payroll.total_hours > 0) {
+          preview.push({ profile, template, recurringItems, payroll, workingHours: profileHours });
         }
       }
 
       setPayrollPreview(preview);
+      setProfilesWithoutTaxScale(withoutTaxScale);
     } catch (error) {
       console.error('Error generating payroll preview:', error);
     } finally {
@@ -221,33 +264,19 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
   const generatePayroll = async () => {
     try {
       setLoading(true);
-      const payrollRecords = [];
-
-      for (const preview of payrollPreview) {
-        const payrollData = {
+      const createdPayrolls = await createPayroll(payrollPreview.map(preview => ({
+        payroll: {
           profile_id: preview.profile.id,
           pay_period_start: dateRange.start,
           pay_period_end: dateRange.end,
-          total_hours: preview.totalHours,
-          hourly_rate: preview.hourlyRate,
-          gross_pay: preview.grossPay,
-          deductions: preview.deductions,
-          net_pay: preview.netPay,
-          status: 'pending' as const,
+          status: 'pending',
           bank_account_id: null
-        };
-
-        payrollRecords.push(payrollData);
-      }
-
-      const { data: createdPayrolls, error } = await supabase
-        .from('payroll')
-        .insert(payrollRecords)
-        .select('*');
-
-      if (error) throw error;
+        },
+        items: preview.recurringItems,
+        calculation: preview.payroll
+      })));
 
-      if (createdPayrolls) {
+      if (createdPayrolls.length > 0) {
         const notifications = createdPayrolls.map(payroll => ({
           title: 'New Payroll Created',
           message: `Your payroll for period ${payroll.pay_period_start} to ${payroll.pay_period_end} has been created. Net amount: $${payroll.net_pay.toFixed(2)}`,
@@ -269,12 +298,13 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
 
       toast({
         title: "Success",
-        description: `Generated ${payrollRecords.length} payroll records successfully`
+        description: `Generated ${createdPayrolls.length} payroll records successfully`
       });
 
       setSelectedProfileIds([]);
       setStep(1);
       setPayrollPreview([]);
+      setProfilesWithoutTaxScale([]);
       setOverlappingPayrolls([]);
       onRefresh();
     } catch (error: any) {
@@ -289,10 +319,11 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
     }
   };
 
-  const totalPreviewAmount = payrollPreview.reduce((sum, p) => sum + p.netPay, 0);
+  const totalPreviewAmount = payrollPreview.reduce((sum, p) => sum + p.payroll.net_pay, 0);
   const totalEmployees = payrollPreview.length;
-  const totalHoursSum = payrollPreview.reduce((sum, p) => sum + p.totalHours, 0);
-  const totalGrossPay = payrollPreview.reduce((sum, p) => sum + p.grossPay, 0);
+  const totalHoursSum = payrollPreview.reduce((sum, p) => sum + p.payroll.total_hours, 0);
+  const totalGrossPay = payrollPreview.reduce((sum, p) => sum + p.payroll.gross_pay, 0);
+  const previewsWithoutTemplate = payrollPreview.filter(p => !p.template);
 
   return (
     <div className="space-y-4 sm:space-y-6 p-2 sm:p-4">
@@ -524,6 +555,41 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
                 </Card>
               </div>
 
+              {previewsWithoutTemplate.length > 0 && (
+                <div className="p-3 sm:p-4 border border-orange-200 bg-orange-50 rounded-lg">
+                  <div className="flex items-center gap-2 text-orange-800 mb-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <span className="font-medium text-sm sm:text-base">Missing Salary Templates</span>
+                  </div>
+                  <p className="text-xs sm:text-sm text-orange-700 mb-2">
+                    No salary template applies to these employees. {MISSING_TEMPLATE_NOTE}
+                  </p>
+                  <ul className="text-xs sm:text-sm text-orange-700 space-y-1">
+                    {previewsWithoutTemplate.map(preview => (
+                      <li key={preview.profile.id}>• {preview.profile.full_name}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {profilesWithoutTaxScale.length > 0 && (
+                <div className="p-3 sm:p-4 border border-orange-200 bg-orange-50 rounded-lg">
+                  <div className="flex items-center gap-2 text-orange-800 mb-2">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    <span className="font-medium text-sm sm:text-base">No Tax Scale In Effect</span>
+                  </div>
+                  <p className="text-xs sm:text-sm text-orange-700 mb-2">
+                    No tax scale matches these employees for the period, so they are left out of this run.
+                    Upload the current scales under Tax Scales, then generate their payroll.
+                  </p>
+                  <ul className="text-xs sm:text-sm text-orange-700 space-y-1">
+                    {profilesWithoutTaxScale.map(profile => (
+                      <li key={profile.id}>• {profile.full_name}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {payrollPreview.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
                   <p className="text-sm sm:text-base">No approved working hours found for the selected period and profiles.</p>
@@ -539,8 +605,10 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
                           <th className="text-left py-3 px-4 font-medium text-gray-600">Hours</th>
                           <th className="text-left py-3 px-4 font-medium text-gray-600">Avg Rate</th>
                           <th className="text-left py-3 px-4 font-medium text-gray-600">Gross Pay</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Tax</th>
                           <th className="text-left py-3 px-4 font-medium text-gray-600">Deductions</th>
                           <th className="text-left py-3 px-4 font-medium text-gray-600">Net Pay</th>
+                          <th className="text-left py-3 px-4 font-medium text-gray-600">Super</th>
                         </tr>
                       </thead>
                       <tbody>
@@ -550,21 +618,32 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
                               <div>
                                 <div className="font-medium">{preview.profile.full_name}</div>
                                 <div className="text-sm text-gray-600">{preview.profile.role}</div>
+                                <div className={`text-xs ${preview.template ? 'text-gray-500' : 'text-orange-600'}`}>
+                                  {preview.template ? `Template: ${preview.template.name}` : 'No salary template'}
+                                </div>
+                                {preview.recurringItems.length > 0 && (
+                                  <div className="text-xs text-gray-500">
+                                    Recurring: {preview.recurringItems.map(item => item.description).join(', ')}
+                                  </div>
+                                )}
                               </div>
                             </td>
                             <td className="py-3 px-4">
                               <div className="text-sm">
-                                <div>Regular: {preview.regularHours.toFixed(1)}h</div>
-                                {preview.overtimeHours > 0 && (
-                                  <div className="text-orange-600">Overtime: {preview.overtimeHours.toFixed(1)}h</div>
-                                )}
-                                <div className="font-medium">Total: {preview.totalHours.toFixed(1)}h</div>
+                                {preview.payroll.lines.filter(line => line.hours !== null).map(line => (
+                                  <div key={`${line.label}-${line.rate}`} className={line.kind === 'overtime' ? 'text-orange-600' : line.kind === 'penalty' ? 'text-purple-600' : ''}>
+                                    {line.label}: {line.hours?.toFixed(1)}h @ ${line.rate?.toFixed(2)}
+                                  </div>
+                                ))}
+                                <div className="font-medium">Total: {preview.payroll.total_hours.toFixed(1)}h</div>
                               </div>
                             </td>
-                            <td className="py-3 px-4">${preview.hourlyRate.toFixed(2)}/hr</td>
-                            <td className="py-3 px-4">${preview.grossPay.toFixed(2)}</td>
-                            <td className="py-3 px-4 text-red-600">${preview.deductions.toFixed(2)}</td>
-                            <td className="py-3 px-4 font-bold text-green-600">${preview.netPay.toFixed(2)}</td>
+                            <td className="py-3 px-4">${preview.payroll.hourly_rate.toFixed(2)}/hr</td>
+                            <td className="py-3 px-4">${preview.payroll.gross_pay.toFixed(2)}</td>
+                            <td className="py-3 px-4 text-red-600">${preview.payroll.tax_withheld.toFixed(2)}</td>
+                            <td className="py-3 px-4 text-red-600">${preview.payroll.deductions.toFixed(2)}</td>
+                            <td className="py-3 px-4 font-bold text-green-600">${preview.payroll.net_pay.toFixed(2)}</td>
+                            <td className="py-3 px-4 text-gray-600">${preview.payroll.super_contribution.toFixed(2)}</td>
                           </tr>
                         ))}
                       </tbody>
@@ -583,23 +662,38 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
                                 {preview.profile.full_name}
                               </h4>
                               <p className="text-xs sm:text-sm text-gray-600">{preview.profile.role}</p>
+                              <p className={`text-xs ${preview.template ? 'text-gray-500' : 'text-orange-600'}`}>
+                                {preview.template ? `Template: ${preview.template.name}` : 'No salary template'}
+                              </p>
+                              {preview.recurringItems.length > 0 && (
+                                <p className="text-xs text-gray-500">
+                                  Recurring: {preview.recurringItems.map(item => item.description).join(', ')}
+                                </p>
+                              )}
                             </div>
 
                             {/* Hours breakdown */}
+                            <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                              {preview.payroll.lines.filter(line => line.hours !== null).map(line => (
+                                <span key={`${line.label}-${line.rate}`} className={line.kind === 'overtime' ? 'text-orange-600' : line.kind === 'penalty' ? 'text-purple-600' : 'text-gray-700'}>
+                                  {line.label}: {line.hours?.toFixed(1)}h @ ${line.rate?.toFixed(2)}
+                                </span>
+                              ))}
+                            </div>
                             <div className="grid grid-cols-3 gap-2 text-xs">
                               <div className="text-center p-2 bg-blue-50 rounded">
                                 <div className="text-blue-600 font-medium">Regular</div>
-                                <div className="font-semibold text-blue-700">{preview.regularHours.toFixed(1)}h</div>
+                                <div className="font-semibold text-blue-700">{preview.payroll.ordinary_hours.toFixed(1)}h</div>
                               </div>
-                              {preview.overtimeHours > 0 && (
+                              {preview.payroll.overtime_hours > 0 && (
                                 <div className="text-center p-2 bg-orange-50 rounded">
                                   <div className="text-orange-600 font-medium">Overtime</div>
-                                  <div className="font-semibold text-orange-700">{preview.overtimeHours.toFixed(1)}h</div>
+                                  <div className="font-semibold text-orange-700">{preview.payroll.overtime_hours.toFixed(1)}h</div>
                                 </div>
                               )}
                               <div className="text-center p-2 bg-purple-50 rounded">
                                 <div className="text-purple-600 font-medium">Total</div>
-                                <div className="font-semibold text-purple-700">{preview.totalHours.toFixed(1)}h</div>
+                                <div className="font-semibold text-purple-700">{preview.payroll.total_hours.toFixed(1)}h</div>
                               </div>
                             </div>
 
@@ -607,21 +701,26 @@ export const PayrollGenerationWizard = ({ profiles, workingHours, onRefresh }: P
                             <div className="grid grid-cols-4 gap-2 text-xs pt-2 border-t">
                               <div className="text-center">
                                 <div className="text-gray-600">Rate</div>
-                                <div className="font-semibold">${preview.hourlyRate.toFixed(2)}</div>
+                                <div className="font-semibold">${preview.payroll.hourly_rate.toFixed(2)}</div>
                               </div>
                               <div className="text-center">
                                 <div className="text-gray-600">Gross</div>
-                                <div className="font-semibold text-purple-700">${preview.grossPay.toFixed(2)}</div>
+                                <div className="font-semibold text-purple-700">${preview.payroll.gross_pay.toFixed(2)}</div>
                               </div>
                               <div className="text-center">
-                                <div className="text-gray-600">Deduct</div>
-                                <div className="font-semibold text-red-600">${preview.deductions.toFixed(2)}</div>
+                                <div className="text-gray-600">Tax + Deduct</div>
+                                <div className="font-semibold text-red-600">
+                                  ${(preview.payroll.tax_withheld + preview.payroll.deductions).toFixed(2)}
+                                </div>
                               </div>
                               <div className="text-center">
                                 <div className="text-gray-600">Net</div>
-                                <div className="font-semibold text-green-600">${preview.netPay.toFixed(2)}</div>
+                                <div className="font-semibold text-green-600">${preview.payroll.net_pay.toFixed(2)}</div>
                               </div>
                             </div>
+                            <div className="text-xs text-gray-500">
+                              Employer super: ${preview.payroll.super_contribution.toFixed(2)}
+                            </div>
                           </div>
                         </CardContent>
                       </Card>
@@ -8,8 +8,19 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Plus, Search, Calculator } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { Payroll, Profile, WorkingHour, Client, Project, BankAccount } from "@/types/database";
+import { Payroll, Profile, Client, Project, BankAccount } from "@/types/database";
 import { useToast } from "@/hooks/use-toast";
+import {
+  calculatePayroll,
+  createPayroll,
+  fetchPayrollHours,
+  fetchRecurringPayrollItems,
+  fetchSalaryTemplates,
+  MISSING_TEMPLATE_NOTE,
+  resolveSalaryTemplate
+} from "@/lib/payroll";
+import { fetchTaxScales, getWithholdingInput } from "@/lib/tax-withholding";
+import { fetchGuaranteeRates, resolveGuaranteeRate } from "@/lib/superannuation";
 
 interface PayrollManagementProps {
   payrolls: Payroll[];
@@ -18,7 +29,6 @@ interface PayrollManagementProps {
 }
 
 export const PayrollManagement = ({ payrolls, profiles, onRefresh }: PayrollManagementProps) => {
-  const [workingHours, setWorkingHours] = useState<WorkingHour[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [bankAccounts, setBankAccounts] = useState<BankAccount[]>([]);
@@ -40,24 +50,16 @@ export const PayrollManagement = ({ payrolls, profiles, onRefresh }: PayrollMana
 
   const fetchAdditionalData = async () => {
     try {
-      const [hoursRes, clientsRes, projectsRes, banksRes] = await Promise.all([
-        supabase.from('working_hours').select(`
-          *,
-          profiles (id, full_name, email, role, avatar_url, is_active, phone, employment_type, hourly_rate, salary, tax_file_number, start_date, created_at, updated_at),
-          clients (id, name, email, phone, company, status, created_at, updated_at),
-          projects (id, name, description, client_id, status, start_date, end_date, budget, created_at, updated_at)
-        `).eq('status', 'approved'),
+      const [clientsRes, projectsRes, banksRes] = await Promise.all([
         supabase.from('clients').select('*').eq('status', 'active'),
         supabase.from('projects').select('*').eq('status', 'active'),
         supabase.from('bank_accounts').select('*')
       ]);
 
-      if (hoursRes.error) throw hoursRes.error;
       if (clientsRes.error) throw clientsRes.error;
       if (projectsRes.error) throw projectsRes.error;
       if (banksRes.error) throw banksRes.error;
 
-      setWorkingHours(hoursRes.data as WorkingHour[]);
       setClients(clientsRes.data as Client[]);
       setProjects(projectsRes.data as Project[]);
       setBankAccounts(banksRes.data as BankAccount[]);
@@ -71,36 +73,46 @@ export const PayrollManagement = ({ payrolls, profiles, onRefresh }: PayrollMana
     setLoading(true);
 
     try {
-      const relevantHours = workingHours.filter(wh => 
-        wh.profile_id === formData.profile_id &&
-        wh.date >= formData.pay_period_start &&
-        wh.date <= formData.pay_period_end
-      );
-
-      const totalHours = relevantHours.reduce((sum, wh) => sum + wh.total_hours, 0);
       const profile = profiles.find(p => p.id === formData.profile_id);
-      const hourlyRate = profile?.hourly_rate || 0;
-      const grossPay = totalHours * hourlyRate;
-      const deductions = grossPay * 0.1;
-      const netPay = grossPay - deductions;
+      if (!profile) throw new Error('Employee not found');
 
-      const payrollData = {
-        profile_id: formData.profile_id,
-        pay_period_start: formData.pay_period_start,
-        pay_period_end: formData.pay_period_end,
-        total_hours: totalHours,
-        hourly_rate: hourlyRate,
-        gross_pay: grossPay,
-        deductions: deductions,
-        net_pay: netPay,
-        bank_account_id: formData.bank_account_id || null,
-        status: 'pending' as const
-      };
+      const [entries, templates, taxScales, guaranteeRates, recurring] = await Promise.all([
+        fetchPayrollHours(profile.id, formData.pay_period_start, formData.pay_period_end),
+        fetchSalaryTemplates(),
+        fetchTaxScales(),
+        fetchGuaranteeRates(),
+        fetchRecurringPayrollItems([profile.id], formData.pay_period_start)
+      ]);
+      const template = resolveSalaryTemplate(templates, profile.id, entries);
+      const recurringItems = recurring.get(profile.id) || [];
+      const calculation = calculatePayroll({
+        profile,
+        entries,
+        template,
+        items: recurringItems,
+        tax: getWithholdingInput(taxScales, profile, formData.pay_period_start, formData.pay_period_end),
+        superGuaranteePercentage: resolveGuaranteeRate(guaranteeRates, formData.pay_period_end)
+      });
 
-      const { error } = await supabase.from('payroll').insert([payrollData]);
-      if (error) throw error;
+      await createPayroll([{
+        payroll: {
+          profile_id: formData.profile_id,
+          pay_period_start: formData.pay_period_start,
+          pay_period_end: formData.pay_period_end,
+          bank_account_id: formData.bank_account_id || null,
+          status: 'pending'
+        },
+        items: recurringItems,
+        calculation
+      }]);
 
       toast({ title: "Success", description: "Payroll created successfully" });
+      if (!template) {
+        toast({
+          title: "Warning",
+          description: `No salary template applies to ${profile.full_name}. ${MISSING_TEMPLATE_NOTE}`
+        });
+      }
       setIsDialogOpen(false);
       setFormData({ profile_id: "", pay_period_start: "", pay_period_end: "", bank_account_id: "" });
       onRefresh();
@@ -1,7 +1,9 @@
 
-import { Payroll } from "@/types/database";
+import { useEffect, useState } from "react";
+import { Payroll, PayrollLineItem } from "@/types/database";
 import { Button } from "@/components/ui/button";
 import { Printer } from "lucide-react";
+import { fetchPayrollLineItems, PAYROLL_ITEM_TYPE_LABELS, summarisePayrollItems } from "@/lib/payroll";
 
 interface SalarySheetPrintViewProps {
   payrolls: Payroll[];
@@ -9,12 +11,26 @@ interface SalarySheetPrintViewProps {
 }
 
 export const SalarySheetPrintView = ({ payrolls, period }: SalarySheetPrintViewProps) => {
+  const [lineItems, setLineItems] = useState<PayrollLineItem[]>([]);
+
+  // Line items are listed under each employee; the sheet still prints without them
+  useEffect(() => {
+    fetchPayrollLineItems(payrolls.map(p => p.id))
+      .then(setLineItems)
+      .catch(error => console.error('Error fetching payroll line items:', error));
+  }, [payrolls]);
+
   const handlePrint = () => {
     window.print();
   };
 
+  const getLineItems = (payrollId: string) => lineItems.filter(item => item.payroll_id === payrollId);
+  const getReimbursements = (payrollId: string) => summarisePayrollItems(getLineItems(payrollId)).reimbursements;
+
   const totalGrossPay = payrolls.reduce((sum, p) => sum + p.gross_pay, 0);
+  const totalTax = payrolls.reduce((sum, p) => sum + (p.tax_withheld || 0), 0);
   const totalDeductions = payrolls.reduce((sum, p) => sum + p.deductions, 0);
+  const totalReimbursements = payrolls.reduce((sum, p) => sum + getReimbursements(p.id), 0);
   const totalNetPay = payrolls.reduce((sum, p) => sum + p.net_pay, 0);
   const totalHours = payrolls.reduce((sum, p) => sum + p.total_hours, 0);
 
@@ -67,7 +83,9 @@ export const SalarySheetPrintView = ({ payrolls, period }: SalarySheetPrintViewP
               <th className="border border-gray-300 py-2 px-3 text-center text-sm font-semibold">Hours</th>
               <th className="border border-gray-300 py-2 px-3 text-center text-sm font-semibold">Rate ($/hr)</th>
               <th className="border border-gray-300 py-2 px-3 text-right text-sm font-semibold">Gross Pay ($)</th>
+              <th className="border border-gray-300 py-2 px-3 text-right text-sm font-semibold">Tax ($)</th>
               <th className="border border-gray-300 py-2 px-3 text-right text-sm font-semibold">Deductions ($)</th>
+              <th className="border border-gray-300 py-2 px-3 text-right text-sm font-semibold">Reimbursements ($)</th>
               <th className="border border-gray-300 py-2 px-3 text-right text-sm font-semibold">Net Pay ($)</th>
               <th className="border border-gray-300 py-2 px-3 text-center text-sm font-semibold">Status</th>
             </tr>
@@ -78,6 +96,12 @@ export const SalarySheetPrintView = ({ payrolls, period }: SalarySheetPrintViewP
                 <td className="border border-gray-300 py-2 px-3 text-sm">{index + 1}</td>
                 <td className="border border-gray-300 py-2 px-3 text-sm font-medium">
                   {payroll.profiles?.full_name || 'N/A'}
+                  {getLineItems(payroll.id).map(item => (
+                    <div key={item.id} className="text-xs font-normal text-gray-600">
+                      {PAYROLL_ITEM_TYPE_LABELS[item.type]}: {item.description}{' '}
+                      {item.type === 'deduction' ? '-' : '+'}${Number(item.amount).toFixed(2)}
+                    </div>
+                  ))}
                 </td>
                 <td className="border border-gray-300 py-2 px-3 text-sm">
                   {payroll.profiles?.role || 'N/A'}
@@ -91,9 +115,15 @@ export const SalarySheetPrintView = ({ payrolls, period }: SalarySheetPrintViewP
                 <td className="border border-gray-300 py-2 px-3 text-right text-sm">
                   {payroll.gross_pay.toFixed(2)}
                 </td>
+                <td className="border border-gray-300 py-2 px-3 text-right text-sm text-red-600">
+                  {(payroll.tax_withheld || 0).toFixed(2)}
+                </td>
                 <td className="border border-gray-300 py-2 px-3 text-right text-sm text-red-600">
                   {payroll.deductions.toFixed(2)}
                 </td>
+                <td className="border border-gray-300 py-2 px-3 text-right text-sm">
+                  {getReimbursements(payroll.id).toFixed(2)}
+                </td>
                 <td className="border border-gray-300 py-2 px-3 text-right text-sm font-semibold">
                   {payroll.net_pay.toFixed(2)}
                 </td>
@@ -121,9 +151,15 @@ export const SalarySheetPrintView = ({ payrolls, period }: SalarySheetPrintViewP
               <td className="border border-gray-300 py-2 px-3 text-right text-sm">
                 {totalGrossPay.toFixed(2)}
               </td>
+              <td className="border border-gray-300 py-2 px-3 text-right text-sm">
+                {totalTax.toFixed(2)}
+              </td>
               <td className="border border-gray-300 py-2 px-3 text-right text-sm">
                 {totalDeductions.toFixed(2)}
               </td>
+              <td className="border border-gray-300 py-2 px-3 text-right text-sm">
+                {totalReimbursements.toFixed(2)}
+              </td>
               <td className="border border-gray-300 py-2 px-3 text-right text-sm font-bold">
                 {totalNetPay.toFixed(2)}
               </td>
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LogIn, LogOut, MapPin } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { ClockShift, useClockShifts } from "@/hooks/useClockShifts";
+import { getCurrentPosition, hasSiteLocation } from "@/lib/geofence";
+import { formatTimeRange } from "@/lib/time";
+
+// Clock in and out of today's rostered shifts from your own device, recording where you were
+export const ClockInCard = () => {
+  const { profile } = useAuth();
+  const { shifts, loading, today, clockIn, clockOut } = useClockShifts(profile?.id);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const handleClock = async (shift: ClockShift, action: 'in' | 'out') => {
+    setSavingKey(shift.key);
+    try {
+      const position = await getCurrentPosition();
+      const result = action === 'in' ? await clockIn(shift, position) : await clockOut(shift, position);
+
+      toast({
+        title: result.flags.length > 0 ? "Recorded with warnings" : "Success",
+        description: [
+          result.text,
+          ...result.flags,
+          !position && hasSiteLocation(shift.project) && 'Location unavailable, so the site check was skipped'
+        ].filter(Boolean).join('. '),
+        variant: result.flags.length > 0 ? "destructive" : undefined
+      });
+    } catch (error) {
+      console.error(`Error clocking ${action}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to clock ${action}`,
+        variant: "destructive"
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  if (!loading && shifts.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Clock In / Out
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500 text-center py-4">Loading...</p>
+        ) : (
+          <div className="space-y-3">
+            {shifts.map(shift => {
+              const wh = shift.workingHour;
+              return (
+                <div key={shift.key} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 border rounded-lg">
+                  <div>
+                    <div className="font-medium text-gray-900">{shift.label}</div>
+                    <div className="text-sm text-gray-600">
+                      {shift.date !== today && 'Yesterday '}
+                      {formatTimeRange(shift.start_time, shift.end_time)}
+                      {wh?.sign_in_time && ` · In ${wh.sign_in_time.slice(0, 5)}`}
+                      {wh?.sign_out_time && ` · Out ${wh.sign_out_time.slice(0, 5)}`}
+                    </div>
+                  </div>
+                  {!wh?.sign_in_time ? (
+                    <Button size="sm" onClick={() => handleClock(shift, 'in')} disabled={savingKey !== null}>
+                      <LogIn className="h-4 w-4 mr-1" />
+                      {savingKey === shift.key ? "Locating..." : "Clock In"}
+                    </Button>
+                  ) : !wh.sign_out_time ? (
+                    <Button size="sm" variant="secondary" onClick={() => handleClock(shift, 'out')} disabled={savingKey !== null}>
+                      <LogOut className="h-4 w-4 mr-1" />
+                      {savingKey === shift.key ? "Locating..." : "Clock Out"}
+                    </Button>
+                  ) : (
+                    <Badge variant="outline" className="text-green-700 border-green-200">Done</Badge>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,409 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeftRight, CalendarPlus, Hand } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Profile, Roster, ShiftClaim } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { ProfileSelector } from "@/components/common/ProfileSelector";
+import { findProfileConflicts, formatConflict } from "@/lib/roster-conflicts";
+import { describeShift, getOpenSlots, isOpenShift } from "@/lib/open-shifts";
+import { notifyPermissionHolders } from "@/lib/notifications";
+import { shiftDateString, todayString } from "@/lib/time";
+
+// How far ahead employees can see and claim shifts
+const LOOKAHEAD_DAYS = 14;
+
+export const OpenShiftsCard = () => {
+  const { profile } = useAuth();
+  const [rosters, setRosters] = useState<Roster[]>([]);
+  const [pendingClaims, setPendingClaims] = useState<ShiftClaim[]>([]);
+  const [colleagues, setColleagues] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+  const [swapRoster, setSwapRoster] = useState<Roster | null>(null);
+  const [swapForm, setSwapForm] = useState({ profile_id: "", notes: "" });
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (profile?.id) {
+      fetchShifts();
+      fetchColleagues();
+    }
+  }, [profile?.id]);
+
+  const fetchShifts = async () => {
+    if (!profile?.id) return;
+
+    try {
+      const today = todayString();
+      const [rostersResult, claimsResult] = await Promise.all([
+        supabase
+          .from('rosters')
+          .select(`
+            *,
+            clients!rosters_client_id_fkey (id, company),
+            projects!rosters_project_id_fkey (id, name),
+            roster_profiles!roster_profiles_roster_id_fkey (id, profile_id)
+          `)
+          .neq('status', 'cancelled')
+          .gte('date', today)
+          .lte('date', shiftDateString(today, LOOKAHEAD_DAYS))
+          .order('date')
+          .order('start_time'),
+        supabase
+          .from('shift_claims')
+          .select('*')
+          .eq('requested_by', profile.id)
+          .eq('status', 'pending')
+      ]);
+
+      if (rostersResult.error) throw rostersResult.error;
+      if (claimsResult.error) throw claimsResult.error;
+
+      setRosters((rostersResult.data || []) as unknown as Roster[]);
+      setPendingClaims((claimsResult.data || []) as ShiftClaim[]);
+    } catch (error) {
+      console.error('Error fetching open shifts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load open shifts",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchColleagues = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .eq('is_active', true)
+        .neq('id', profile?.id)
+        .order('full_name');
+
+      if (error) throw error;
+      setColleagues(data || []);
+    } catch (error) {
+      console.error('Error fetching colleagues:', error);
+    }
+  };
+
+  const isMine = (roster: Roster) => roster.roster_profiles?.some(rp => rp.profile_id === profile?.id) || false;
+  const today = todayString();
+  const openShifts = rosters.filter(roster => isOpenShift(roster, today) && !isMine(roster));
+  const myShifts = rosters.filter(roster => isMine(roster) && !roster.is_locked);
+  const pendingFor = (rosterId: string) => pendingClaims.find(claim => claim.roster_id === rosterId);
+
+  // Only rosters are visible to staff here, so logged hours are checked again by the manager
+  const findClash = (roster: Roster, profileId: string) => {
+    const conflicts = findProfileConflicts([roster], [profileId], rosters, [], [roster.id])[profileId];
+    return conflicts?.length ? formatConflict(conflicts[0]) : null;
+  };
+
+  const claimShift = async (roster: Roster) => {
+    if (!profile?.id) return;
+
+    const clash = findClash(roster, profile.id);
+    if (clash) {
+      toast({
+        title: "Scheduling conflict",
+        description: `You are already rostered on ${clash}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmittingId(roster.id);
+    try {
+      const { data: claim, error } = await supabase
+        .from('shift_claims')
+        .insert({
+          roster_id: roster.id,
+          claim_type: 'claim',
+          profile_id: profile.id,
+          requested_by: profile.id
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const recipients = await notifyPermissionHolders('roster_manage', {
+        title: 'Open Shift Claim',
+        message: `${profile.full_name || 'A team member'} wants to pick up ${describeShift(roster)}`,
+        type: 'shift_claim',
+        sender_profile_id: profile.id,
+        related_id: claim.id,
+        action_type: 'approve',
+        action_data: {
+          roster_id: roster.id,
+          claim_type: 'claim',
+          profile_id: profile.id
+        },
+        priority: 'medium'
+      });
+
+      toast({
+        title: "Success",
+        description: recipients > 0
+          ? "Shift claimed, waiting for manager approval"
+          : "Shift claim saved, but no manager could be notified"
+      });
+      fetchShifts();
+    } catch (error) {
+      console.error('Error claiming shift:', error);
+      toast({
+        title: "Error",
+        description: "Failed to claim shift",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const openSwapDialog = (roster: Roster) => {
+    setSwapRoster(roster);
+    setSwapForm({ profile_id: "", notes: "" });
+  };
+
+  const requestSwap = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile?.id || !swapRoster) return;
+
+    const colleague = colleagues.find(c => c.id === swapForm.profile_id);
+    if (!colleague) {
+      toast({
+        title: "Error",
+        description: "Please choose a colleague to take the shift",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (swapRoster.roster_profiles?.some(rp => rp.profile_id === colleague.id)) {
+      toast({
+        title: "Already assigned",
+        description: `${colleague.full_name} is already on this shift`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const clash = findClash(swapRoster, colleague.id);
+    if (clash) {
+      toast({
+        title: "Scheduling conflict",
+        description: `${colleague.full_name} is already rostered on ${clash}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmittingId(swapRoster.id);
+    try {
+      const { data: claim, error } = await supabase
+        .from('shift_claims')
+        .insert({
+          roster_id: swapRoster.id,
+          claim_type: 'swap',
+          profile_id: colleague.id,
+          replaces_profile_id: profile.id,
+          requested_by: profile.id,
+          notes: swapForm.notes || null
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const shift = describeShift(swapRoster);
+      const recipients = await notifyPermissionHolders('roster_manage', {
+        title: 'Shift Swap Request',
+        message: `${profile.full_name || 'A team member'} wants ${colleague.full_name} to take ${shift}${swapForm.notes ? `: ${swapForm.notes}` : ''}`,
+        type: 'shift_claim',
+        sender_profile_id: profile.id,
+        related_id: claim.id,
+        action_type: 'approve',
+        action_data: {
+          roster_id: swapRoster.id,
+          claim_type: 'swap',
+          profile_id: colleague.id,
+          replaces_profile_id: profile.id
+        },
+        priority: 'medium'
+      });
+
+      const { error: notificationError } = await supabase
+        .from('notifications')
+        .insert({
+          title: 'Shift Swap Proposed',
+          message: `${profile.full_name || 'A colleague'} has asked for you to take ${shift}. A manager will confirm the change.`,
+          type: 'shift_swap_proposed',
+          recipient_profile_id: colleague.id,
+          sender_profile_id: profile.id,
+          related_id: claim.id,
+          action_type: 'none',
+          priority: 'medium'
+        });
+
+      if (notificationError) console.error('Failed to send notification:', notificationError);
+
+      toast({
+        title: "Success",
+        description: recipients > 0
+          ? "Swap requested, waiting for manager approval"
+          : "Swap request saved, but no manager could be notified"
+      });
+      setSwapRoster(null);
+      fetchShifts();
+    } catch (error) {
+      console.error('Error requesting shift swap:', error);
+      toast({
+        title: "Error",
+        description: "Failed to request shift swap",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const cancelRequest = async (claim: ShiftClaim) => {
+    try {
+      const { error } = await supabase
+        .from('shift_claims')
+        .update({ status: 'cancelled' })
+        .eq('id', claim.id)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Request withdrawn" });
+      fetchShifts();
+    } catch (error) {
+      console.error('Error cancelling shift request:', error);
+      toast({
+        title: "Error",
+        description: "Failed to withdraw request",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderShift = (roster: Roster, action: React.ReactNode) => (
+    <div key={roster.id} className="flex flex-col md:flex-row md:justify-between md:items-center gap-2 p-3 bg-gray-50 rounded-lg">
+      <div className="min-w-0">
+        <p className="font-medium truncate">{describeShift(roster)}</p>
+        <p className="text-sm text-gray-600 truncate">
+          {roster.clients?.company || 'No Client'} • {roster.total_hours}h
+          {roster.per_hour_rate ? ` • $${roster.per_hour_rate}/hr` : ''}
+        </p>
+      </div>
+      <div className="flex items-center gap-2 shrink-0">{action}</div>
+    </div>
+  );
+
+  const renderPending = (claim: ShiftClaim) => (
+    <>
+      <Badge variant="secondary" className="text-xs">{claim.claim_type === 'swap' ? 'Swap requested' : 'Requested'}</Badge>
+      <Button variant="ghost" size="sm" onClick={() => cancelRequest(claim)}>Withdraw</Button>
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+          <CalendarPlus className="h-5 w-5 text-blue-600" />
+          Open Shifts
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <p className="text-sm text-gray-500 text-center py-4">Loading shifts...</p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {openShifts.map(roster => {
+                const claim = pendingFor(roster.id);
+                return renderShift(roster, claim ? renderPending(claim) : (
+                  <>
+                    <Badge variant="outline" className="text-xs text-orange-700 border-orange-200">
+                      {getOpenSlots(roster)} open
+                    </Badge>
+                    <Button size="sm" onClick={() => claimShift(roster)} disabled={submittingId === roster.id}>
+                      <Hand className="h-4 w-4 mr-1" />
+                      Claim
+                    </Button>
+                  </>
+                ));
+              })}
+              {openShifts.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-4">No open shifts in the next {LOOKAHEAD_DAYS} days</p>
+              )}
+            </div>
+
+            {myShifts.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium text-gray-700">My upcoming shifts</h4>
+                {myShifts.map(roster => {
+                  const claim = pendingFor(roster.id);
+                  return renderShift(roster, claim ? renderPending(claim) : (
+                    <Button variant="outline" size="sm" onClick={() => openSwapDialog(roster)} disabled={submittingId === roster.id}>
+                      <ArrowLeftRight className="h-4 w-4 mr-1" />
+                      Swap
+                    </Button>
+                  ));
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!swapRoster} onOpenChange={(open) => !open && setSwapRoster(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Swap Shift</DialogTitle>
+          </DialogHeader>
+          {swapRoster && (
+            <form onSubmit={requestSwap} className="space-y-4">
+              <p className="text-sm text-gray-600">{describeShift(swapRoster)}</p>
+              <ProfileSelector
+                profiles={colleagues}
+                selectedProfileId={swapForm.profile_id}
+                onProfileSelect={(profileId) => setSwapForm({ ...swapForm, profile_id: profileId })}
+                label="Colleague taking the shift"
+                placeholder="Choose a colleague"
+              />
+              <div>
+                <Label>Notes</Label>
+                <Textarea
+                  value={swapForm.notes}
+                  onChange={(e) => setSwapForm({ ...swapForm, notes: e.target.value })}
+                  placeholder="Optional message for your manager"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setSwapRoster(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={submittingId === swapRoster.id}>
+                  Request Swap
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,329 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListChecks, Plus, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { ApprovalChain, Client, Profile, Project, UserRole } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { describeApprover, describeChainScope, fetchApprovalChains, getChainSteps } from "@/lib/approval-chains";
+
+interface ApprovalChainsDialogProps {
+  clients: Client[];
+  projects: Project[];
+  profiles: Profile[];
+  isOpen: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: "admin", label: "Admin" },
+  { value: "operation", label: "Operation" },
+  { value: "accountant", label: "Accountant" },
+  { value: "sales_manager", label: "Sales Manager" },
+  { value: "employee", label: "Employee" }
+];
+
+// Step approvers are stored as "role:<role>", "profile:<id>" or "any" in the form
+interface StepForm {
+  name: string;
+  approver: string;
+}
+
+const emptyForm = () => ({
+  name: "",
+  client_id: "all",
+  project_id: "all",
+  steps: [{ name: "Site supervisor", approver: "any" }] as StepForm[]
+});
+
+export const ApprovalChainsDialog = ({ clients, projects, profiles, isOpen, onClose, onChanged }: ApprovalChainsDialogProps) => {
+  const [chains, setChains] = useState<ApprovalChain[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(emptyForm());
+      fetchChains();
+    }
+  }, [isOpen]);
+
+  const fetchChains = async () => {
+    setLoading(true);
+    try {
+      setChains(await fetchApprovalChains());
+    } catch (error) {
+      console.error('Error fetching approval chains:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch approval chains",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateStep = (index: number, changes: Partial<StepForm>) => {
+    setFormData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => i === index ? { ...step, ...changes } : step)
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const steps = formData.steps.filter(step => step.name.trim());
+    if (!formData.name.trim() || steps.length === 0) {
+      toast({ title: "Error", description: "Give the chain a name and at least one step", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const project = projects.find(p => p.id === formData.project_id);
+      const { data: chain, error } = await supabase
+        .from('approval_chains')
+        .insert({
+          name: formData.name.trim(),
+          client_id: project?.client_id || (formData.client_id !== 'all' ? formData.client_id : null),
+          project_id: project?.id || null,
+          created_by: user?.id
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      const { error: stepsError } = await supabase
+        .from('approval_chain_steps')
+        .insert(steps.map((step, index) => {
+          const [kind, value] = step.approver.split(':');
+          return {
+            chain_id: chain.id,
+            step_order: index + 1,
+            name: step.name.trim(),
+            approver_role: kind === 'role' ? value as UserRole : null,
+            approver_profile_id: kind === 'profile' ? value : null
+          };
+        }));
+
+      if (stepsError) throw stepsError;
+
+      toast({ title: "Success", description: "Approval chain saved" });
+      setFormData(emptyForm());
+      fetchChains();
+      onChanged();
+    } catch (error) {
+      console.error('Error saving approval chain:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save approval chain",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (chain: ApprovalChain, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('approval_chains')
+        .update({ is_active: isActive })
+        .eq('id', chain.id);
+
+      if (error) throw error;
+      fetchChains();
+      onChanged();
+    } catch (error) {
+      console.error('Error updating approval chain:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update approval chain",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (chain: ApprovalChain) => {
+    if (!confirm(`Delete the "${chain.name}" approval chain? Hours part way through it will restart on the next matching chain.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('approval_chains')
+        .delete()
+        .eq('id', chain.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Approval chain deleted" });
+      fetchChains();
+      onChanged();
+    } catch (error) {
+      console.error('Error deleting approval chain:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete approval chain",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const clientProjects = projects.filter(p => formData.client_id === 'all' || p.client_id === formData.client_id);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm sm:max-w-2xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Approval Chains
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Hours go through every step of the most specific active chain: a project chain, then a client chain,
+            then the chain for all working hours. Without a chain, hours are approved in one step.
+          </p>
+
+          {loading ? (
+            <div className="text-center py-4 text-gray-500">Loading...</div>
+          ) : chains.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">No approval chains yet</div>
+          ) : (
+            <div className="space-y-2">
+              {chains.map(chain => (
+                <div key={chain.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <div className="font-medium text-gray-900">{chain.name}</div>
+                      <div className="text-xs text-gray-600">{describeChainScope(chain)}</div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={chain.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(chain, checked)}
+                        aria-label="Active"
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(chain)} className="text-red-600">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {getChainSteps(chain).map(step => (
+                      <Badge key={step.id} variant="outline">
+                        {step.step_order}. {step.name} ({describeApprover(step)})
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="p-3 border rounded-lg space-y-3">
+            <Label className="text-sm font-medium">New approval chain</Label>
+            <Input
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Chain name, e.g. Site hours"
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Select
+                value={formData.client_id}
+                onValueChange={(value) => setFormData({ ...formData, client_id: value, project_id: 'all' })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All clients" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All clients</SelectItem>
+                  {clients.map(client => (
+                    <SelectItem key={client.id} value={client.id}>{client.company}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={formData.project_id}
+                onValueChange={(value) => setFormData({ ...formData, project_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All projects" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All projects</SelectItem>
+                  {clientProjects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              {formData.steps.map((step, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="text-sm text-gray-600 w-5">{index + 1}.</span>
+                  <Input
+                    value={step.name}
+                    onChange={(e) => updateStep(index, { name: e.target.value })}
+                    placeholder="Step name"
+                  />
+                  <Select value={step.approver} onValueChange={(value) => updateStep(index, { approver: value })}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Any approver</SelectItem>
+                      {ROLE_OPTIONS.map(role => (
+                        <SelectItem key={role.value} value={`role:${role.value}`}>Role: {role.label}</SelectItem>
+                      ))}
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.id} value={`profile:${profile.id}`}>{profile.full_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFormData(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))}
+                    disabled={formData.steps.length === 1}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setFormData(prev => ({ ...prev, steps: [...prev.steps, { name: "", approver: "any" }] }))}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Step
+              </Button>
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save Chain"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,80 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Coffee, Plus, Trash2 } from "lucide-react";
+import { ShiftBreak } from "@/types/database";
+import { emptyBreak, findBreakErrors, getUnpaidBreakMinutes } from "@/lib/breaks";
+
+interface BreakPeriodsFieldProps {
+  breaks: ShiftBreak[];
+  startTime: string;
+  endTime: string;
+  onChange: (breaks: ShiftBreak[]) => void;
+}
+
+// Lists the breaks taken during a shift, each marked paid or unpaid
+export const BreakPeriodsField = ({ breaks, startTime, endTime, onChange }: BreakPeriodsFieldProps) => {
+  const errors = findBreakErrors(breaks, startTime, endTime);
+
+  const updateBreak = (index: number, changes: Partial<ShiftBreak>) =>
+    onChange(breaks.map((b, i) => (i === index ? { ...b, ...changes } : b)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium flex items-center gap-1">
+          <Coffee className="h-4 w-4" />
+          Breaks
+        </Label>
+        <Button type="button" variant="outline" size="sm" onClick={() => onChange([...breaks, emptyBreak()])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Break
+        </Button>
+      </div>
+
+      {breaks.map((b, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            type="time"
+            value={b.start_time}
+            onChange={(e) => updateBreak(index, { start_time: e.target.value })}
+            aria-label="Break start"
+          />
+          <Input
+            type="time"
+            value={b.end_time}
+            onChange={(e) => updateBreak(index, { end_time: e.target.value })}
+            aria-label="Break end"
+          />
+          <div className="flex items-center gap-1 shrink-0">
+            <Switch
+              checked={b.paid}
+              onCheckedChange={(checked) => updateBreak(index, { paid: checked })}
+              aria-label="Paid break"
+            />
+            <span className="text-xs text-gray-600 w-12">{b.paid ? 'Paid' : 'Unpaid'}</span>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(breaks.filter((_, i) => i !== index))}
+            className="text-red-600"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      {breaks.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {getUnpaidBreakMinutes(breaks)} unpaid minutes come off the paid hours
+        </p>
+      )}
+      {errors.map(error => (
+        <p key={error} className="text-xs text-red-600">{error}</p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BatteryLow, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Client, FatigueRule } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_FATIGUE_LIMITS, fetchFatigueRules } from "@/lib/fatigue";
+
+interface FatigueRulesDialogProps {
+  clients: Client[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Select value for the rule that applies to every client without its own
+const DEFAULT_RULE = "default";
+
+const emptyForm = () => ({
+  client_id: DEFAULT_RULE,
+  max_shift_hours: String(DEFAULT_FATIGUE_LIMITS.max_shift_hours),
+  min_rest_hours: String(DEFAULT_FATIGUE_LIMITS.min_rest_hours),
+  max_consecutive_days: String(DEFAULT_FATIGUE_LIMITS.max_consecutive_days)
+});
+
+export const FatigueRulesDialog = ({ clients, isOpen, onClose }: FatigueRulesDialogProps) => {
+  const [rules, setRules] = useState<FatigueRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(emptyForm());
+      fetchRules();
+    }
+  }, [isOpen]);
+
+  const fetchRules = async () => {
+    setLoading(true);
+    try {
+      setRules(await fetchFatigueRules());
+    } catch (error) {
+      console.error('Error fetching fatigue rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch fatigue rules",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clientName = (clientId?: string) =>
+    clientId ? clients.find(c => c.id === clientId)?.company || 'Unknown client' : 'All other clients';
+
+  // Picking a client that already has a rule loads it for editing
+  const selectClient = (clientId: string) => {
+    const rule = rules.find(r => (r.client_id || DEFAULT_RULE) === clientId);
+    setFormData(rule ? {
+      client_id: clientId,
+      max_shift_hours: String(rule.max_shift_hours),
+      min_rest_hours: String(rule.min_rest_hours),
+      max_consecutive_days: String(rule.max_consecutive_days)
+    } : { ...emptyForm(), client_id: clientId });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const maxShiftHours = parseFloat(formData.max_shift_hours);
+    const minRestHours = parseFloat(formData.min_rest_hours);
+    const maxConsecutiveDays = parseInt(formData.max_consecutive_days);
+    if (!(maxShiftHours > 0) || !(minRestHours >= 0) || !(maxConsecutiveDays > 0)) {
+      toast({ title: "Error", description: "Enter a shift length, rest and number of days", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('fatigue_rules')
+        .upsert({
+          client_id: formData.client_id !== DEFAULT_RULE ? formData.client_id : null,
+          max_shift_hours: maxShiftHours,
+          min_rest_hours: minRestHours,
+          max_consecutive_days: maxConsecutiveDays,
+          created_by: user?.id,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'client_id' });
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Fatigue rule saved" });
+      setFormData(emptyForm());
+      fetchRules();
+    } catch (error) {
+      console.error('Error saving fatigue rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save fatigue rule",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: FatigueRule) => {
+    if (!confirm(`Delete the fatigue rule for ${clientName(rule.client_id)}?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('fatigue_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Fatigue rule deleted" });
+      fetchRules();
+    } catch (error) {
+      console.error('Error deleting fatigue rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete fatigue rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const numberField = (field: Exclude<keyof ReturnType<typeof emptyForm>, 'client_id'>, label: string, step: string) => (
+    <div>
+      <Label htmlFor={`fatigue_${field}`} className="text-xs">{label}</Label>
+      <Input
+        id={`fatigue_${field}`}
+        type="number"
+        step={step}
+        min="0"
+        value={formData[field]}
+        onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+      />
+    </div>
+  );
+
+  const sortedRules = [...rules].sort((a, b) => (a.client_id ? 1 : 0) - (b.client_id ? 1 : 0));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm sm:max-w-xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BatteryLow className="h-5 w-5" />
+            Fatigue Rules
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Rosters and timesheets are flagged when a shift runs longer than the maximum, when someone gets
+            less rest than the minimum between shifts, or works more days in a row than allowed. A client's
+            own rule replaces the default for its shifts. Without any rule, the limits are{" "}
+            {DEFAULT_FATIGUE_LIMITS.max_shift_hours}h shifts, {DEFAULT_FATIGUE_LIMITS.min_rest_hours}h rest
+            and {DEFAULT_FATIGUE_LIMITS.max_consecutive_days} days in a row.
+          </p>
+
+          {loading ? (
+            <div className="text-center py-4 text-gray-500">Loading...</div>
+          ) : sortedRules.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">No fatigue rules yet</div>
+          ) : (
+            <div className="space-y-2">
+              {sortedRules.map(rule => (
+                <div key={rule.id} className="p-3 border rounded-lg flex items-center justify-between gap-2">
+                  <div className="space-y-1">
+                    <div className="font-medium text-gray-900">{clientName(rule.client_id)}</div>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline">Max {rule.max_shift_hours}h shift</Badge>
+                      <Badge variant="outline">Min {rule.min_rest_hours}h rest</Badge>
+                      <Badge variant="outline">Max {rule.max_consecutive_days} days in a row</Badge>
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)} className="text-red-600">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="p-3 border rounded-lg space-y-3">
+            <Label className="text-sm font-medium">Set limits</Label>
+            <Select value={formData.client_id} onValueChange={selectClient}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_RULE}>Default (all other clients)</SelectItem>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={client.id}>{client.company}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="grid grid-cols-3 gap-2">
+              {numberField("max_shift_hours", "Max shift hours", "0.5")}
+              {numberField("min_rest_hours", "Min rest hours", "0.5")}
+              {numberField("max_consecutive_days", "Max days in a row", "1")}
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save Limits"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,299 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gauge, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Client, EmploymentType, OvertimeRule } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { describeOvertimeScope, fetchOvertimeRules, formatMultiplier } from "@/lib/overtime";
+
+interface OvertimeRulesDialogProps {
+  clients: Client[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EMPLOYMENT_TYPE_OPTIONS: { value: EmploymentType; label: string }[] = [
+  { value: "full-time", label: "Full-time" },
+  { value: "part-time", label: "Part-time" },
+  { value: "casual", label: "Casual" }
+];
+
+// Numbers are kept as strings while editing; blank thresholds and penalty rates are stored as null
+const emptyForm = () => ({
+  name: "",
+  employment_type: "all",
+  client_id: "all",
+  daily_threshold: "8",
+  weekly_threshold: "38",
+  tier_one_hours: "2",
+  tier_one_multiplier: "1.5",
+  tier_two_multiplier: "2",
+  saturday_multiplier: "",
+  sunday_multiplier: "",
+  public_holiday_multiplier: ""
+});
+
+const optionalNumber = (value: string) => value.trim() ? parseFloat(value) : null;
+
+const describeRule = (rule: OvertimeRule) => [
+  rule.daily_threshold ? `Over ${rule.daily_threshold}h a day` : null,
+  rule.weekly_threshold ? `Over ${rule.weekly_threshold}h a week` : null,
+  (rule.daily_threshold || rule.weekly_threshold)
+    ? `${formatMultiplier(rule.tier_one_multiplier)} for ${rule.tier_one_hours}h, then ${formatMultiplier(rule.tier_two_multiplier)}`
+    : 'No overtime',
+  rule.saturday_multiplier ? `Saturday ${formatMultiplier(rule.saturday_multiplier)}` : null,
+  rule.sunday_multiplier ? `Sunday ${formatMultiplier(rule.sunday_multiplier)}` : null,
+  rule.public_holiday_multiplier ? `Public holiday ${formatMultiplier(rule.public_holiday_multiplier)}` : null
+].filter(Boolean) as string[];
+
+export const OvertimeRulesDialog = ({ clients, isOpen, onClose }: OvertimeRulesDialogProps) => {
+  const [rules, setRules] = useState<OvertimeRule[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState(emptyForm());
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(emptyForm());
+      fetchRules();
+    }
+  }, [isOpen]);
+
+  const fetchRules = async () => {
+    setLoading(true);
+    try {
+      setRules(await fetchOvertimeRules());
+    } catch (error) {
+      console.error('Error fetching overtime rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch overtime rules",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) {
+      toast({ title: "Error", description: "Give the rule a name", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('overtime_rules')
+        .insert({
+          name: formData.name.trim(),
+          employment_type: formData.employment_type !== 'all' ? formData.employment_type as EmploymentType : null,
+          client_id: formData.client_id !== 'all' ? formData.client_id : null,
+          daily_threshold: optionalNumber(formData.daily_threshold),
+          weekly_threshold: optionalNumber(formData.weekly_threshold),
+          tier_one_hours: parseFloat(formData.tier_one_hours) || 0,
+          tier_one_multiplier: parseFloat(formData.tier_one_multiplier) || 1,
+          tier_two_multiplier: parseFloat(formData.tier_two_multiplier) || 1,
+          saturday_multiplier: optionalNumber(formData.saturday_multiplier),
+          sunday_multiplier: optionalNumber(formData.sunday_multiplier),
+          public_holiday_multiplier: optionalNumber(formData.public_holiday_multiplier),
+          created_by: user?.id
+        });
+
+      if (error) throw error;
+
+      toast({ title: "Success", description: "Overtime rule saved" });
+      setFormData(emptyForm());
+      fetchRules();
+    } catch (error) {
+      console.error('Error saving overtime rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save overtime rule",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (rule: OvertimeRule, isActive: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('overtime_rules')
+        .update({ is_active: isActive })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      fetchRules();
+    } catch (error) {
+      console.error('Error updating overtime rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update overtime rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = async (rule: OvertimeRule) => {
+    if (!confirm(`Delete the "${rule.name}" overtime rule?`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('overtime_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Overtime rule deleted" });
+      fetchRules();
+    } catch (error) {
+      console.error('Error deleting overtime rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete overtime rule",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const numberField = (field: keyof ReturnType<typeof emptyForm>, label: string, placeholder = "") => (
+    <div>
+      <Label htmlFor={`overtime_${field}`} className="text-xs">{label}</Label>
+      <Input
+        id={`overtime_${field}`}
+        type="number"
+        step="0.25"
+        min="0"
+        value={formData[field]}
+        onChange={(e) => setFormData({ ...formData, [field]: e.target.value })}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm sm:max-w-2xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Overtime Rules
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Each entry uses the most specific active rule: one for its client and the employee's employment type,
+            then the client, then the employment type, then a rule for everyone. Without a rule, hours beyond
+            the rostered shift are overtime at 1.5×. Changes apply to hours saved or approved afterwards.
+          </p>
+
+          {loading ? (
+            <div className="text-center py-4 text-gray-500">Loading...</div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-4 text-gray-500">No overtime rules yet</div>
+          ) : (
+            <div className="space-y-2">
+              {rules.map(rule => (
+                <div key={rule.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <div className="font-medium text-gray-900">{rule.name}</div>
+                      <div className="text-xs text-gray-600 capitalize">{describeOvertimeScope(rule)}</div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => handleToggleActive(rule, checked)}
+                        aria-label="Active"
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(rule)} className="text-red-600">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {describeRule(rule).map(text => (
+                      <Badge key={text} variant="outline">{text}</Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSave} className="p-3 border rounded-lg space-y-3">
+            <Label className="text-sm font-medium">New overtime rule</Label>
+            <Input
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              placeholder="Rule name, e.g. Casual site award"
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Select
+                value={formData.employment_type}
+                onValueChange={(value) => setFormData({ ...formData, employment_type: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All employment types" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All employment types</SelectItem>
+                  {EMPLOYMENT_TYPE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={formData.client_id}
+                onValueChange={(value) => setFormData({ ...formData, client_id: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All clients" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All clients</SelectItem>
+                  {clients.map(client => (
+                    <SelectItem key={client.id} value={client.id}>{client.company}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+              {numberField("daily_threshold", "Daily hours", "None")}
+              {numberField("weekly_threshold", "Weekly hours", "None")}
+              {numberField("tier_one_multiplier", "First rate")}
+              {numberField("tier_one_hours", "First rate hours")}
+              {numberField("tier_two_multiplier", "Then rate")}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {numberField("saturday_multiplier", "Saturday rate", "None")}
+              {numberField("sunday_multiplier", "Sunday rate", "None")}
+              {numberField("public_holiday_multiplier", "Public holiday rate", "None")}
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving}>
+                {saving ? "Saving..." : "Save Rule"}
+              </Button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
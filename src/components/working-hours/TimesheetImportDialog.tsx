@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Upload } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Client, Profile, Project } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { formatTimeRange } from "@/lib/time";
+import { recalculateOvertime } from "@/lib/overtime";
+import {
+  buildImportRows,
+  ColumnMapping,
+  getImportableRows,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportCell,
+  ImportField,
+  ImportRow,
+  markDuplicates,
+  readSpreadsheet
+} from "@/lib/timesheet-import";
+
+interface TimesheetImportDialogProps {
+  profiles: Profile[];
+  clients: Client[];
+  projects: Project[];
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+// Select value for fields that are not in the file
+const NOT_MAPPED = "none";
+
+export const TimesheetImportDialog = ({ profiles, clients, projects, isOpen, onClose, onImported }: TimesheetImportDialogProps) => {
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<ImportCell[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [preview, setPreview] = useState<ImportRow[] | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName("");
+      setHeaders([]);
+      setDataRows([]);
+      setMapping(null);
+      setPreview(null);
+    }
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const [headerRow = [], ...rows] = await readSpreadsheet(file);
+      if (rows.length === 0) {
+        toast({
+          title: "Nothing to import",
+          description: "The file needs a header row and at least one row of hours",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const fileHeaders = headerRow.map((cell, column) => String(cell ?? '').trim() || `Column ${column + 1}`);
+      setFileName(file.name);
+      setHeaders(fileHeaders);
+      setDataRows(rows);
+      setMapping(guessColumnMapping(fileHeaders));
+      setPreview(null);
+    } catch (error) {
+      console.error('Error reading timesheet file:', error);
+      toast({
+        title: "Error",
+        description: "Could not read that file. Use a .csv or .xlsx export.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) });
+    setPreview(null);
+  };
+
+  const handleCheck = async () => {
+    if (!mapping) return;
+
+    setChecking(true);
+    try {
+      const rows = buildImportRows(dataRows, mapping, { profiles, clients, projects });
+      const valid = rows.filter(row => row.values).map(row => row.values!);
+
+      // Existing entries for the same people and dates, to catch hours already logged
+      let existing: { profile_id: string; project_id: string; date: string; start_time: string }[] = [];
+      if (valid.length > 0) {
+        const dates = valid.map(values => values.date).sort();
+        const { data, error } = await supabase
+          .from('working_hours')
+          .select('profile_id, project_id, date, start_time')
+          .in('profile_id', [...new Set(valid.map(values => values.profile_id))])
+          .gte('date', dates[0])
+          .lte('date', dates[dates.length - 1]);
+
+        if (error) throw error;
+        existing = data || [];
+      }
+
+      setPreview(markDuplicates(rows, existing));
+    } catch (error) {
+      console.error('Error checking timesheet import:', error);
+      toast({
+        title: "Error",
+        description: "Failed to check the import against existing hours",
+        variant: "destructive"
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const rows = getImportableRows(preview);
+    if (rows.length === 0) return;
+
+    setImporting(true);
+    try {
+      const { error } = await supabase
+        .from('working_hours')
+        .insert(rows);
+
+      if (error) throw error;
+      await recalculateOvertime(rows);
+
+      const skipped = preview.length - rows.length;
+      toast({
+        title: "Success",
+        description: `Imported ${rows.length} entries${skipped ? `; skipped ${skipped} with errors or duplicates` : ''}`
+      });
+      onImported();
+      onClose();
+    } catch (error) {
+      console.error('Error importing working hours:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import working hours. Nothing was saved.",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const missingFields = mapping
+    ? IMPORT_FIELDS.filter(({ field }) => ['profile', 'project', 'date'].includes(field) && mapping[field] === null)
+    : [];
+  const hasTimes = mapping && ((mapping.start_time !== null && mapping.end_time !== null) || mapping.hours !== null);
+
+  const readyCount = preview?.filter(row => row.values && !row.duplicate).length || 0;
+  const duplicateCount = preview?.filter(row => row.duplicate).length || 0;
+  const errorCount = preview?.filter(row => !row.values).length || 0;
+
+  const profileName = (id: string) => profiles.find(p => p.id === id)?.full_name || 'Unknown';
+  const projectName = (id: string) => projects.find(p => p.id === id)?.name || 'Unknown';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm sm:max-w-4xl max-h-[90vh] overflow-y-auto mx-2 sm:mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import Timesheets
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="timesheet_file">Timesheet file</Label>
+            <Input id="timesheet_file" type="file" accept=".csv,.xlsx,text/csv" onChange={handleFileChange} />
+            <p className="text-xs text-gray-600 mt-1">
+              A .csv or .xlsx export with a header row. Only the first sheet of a workbook is read.
+              Dates are read day first, as in 19/10/2026.
+            </p>
+          </div>
+
+          {mapping && (
+            <div className="p-3 border rounded-lg space-y-3">
+              <div className="text-sm font-medium text-gray-900">
+                Columns in {fileName} ({dataRows.length} rows)
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {IMPORT_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <Label className="text-xs">{label}</Label>
+                    <Select
+                      value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                      onValueChange={(value) => updateMapping(field, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                        {headers.map((header, column) => (
+                          <SelectItem key={column} value={String(column)}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {(missingFields.length > 0 || !hasTimes) && (
+                <div className="text-sm text-red-600">
+                  {missingFields.length > 0 && `Choose columns for ${missingFields.map(f => f.label).join(', ')}. `}
+                  {!hasTimes && 'Choose start and end time columns, or an hours column.'}
+                </div>
+              )}
+              <div className="flex justify-end">
+                <Button onClick={handleCheck} disabled={checking || missingFields.length > 0 || !hasTimes}>
+                  {checking ? "Checking..." : "Check Rows"}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2">
+                <Badge className="bg-green-100 text-green-800">{readyCount} ready</Badge>
+                <Badge className="bg-yellow-100 text-yellow-800">{duplicateCount} duplicates</Badge>
+                <Badge className="bg-red-100 text-red-800">{errorCount} with errors</Badge>
+              </div>
+              <div className="max-h-80 overflow-y-auto border rounded-lg divide-y text-sm">
+                {preview.map(row => (
+                  <div key={row.rowNumber} className="flex items-start gap-3 px-3 py-2">
+                    <span className="w-12 shrink-0 text-gray-500">Row {row.rowNumber}</span>
+                    <div className="flex-1 min-w-0 space-y-1">
+                      {row.values ? (
+                        <div className="flex flex-wrap gap-x-3">
+                          <span className="font-medium text-gray-900">{profileName(row.values.profile_id)}</span>
+                          <span className="text-gray-600">{projectName(row.values.project_id)}</span>
+                          <span className="text-gray-600">{format(parseISO(row.values.date), 'EEE dd MMM yyyy')}</span>
+                          <span className="text-gray-600">
+                            {formatTimeRange(row.values.start_time, row.values.end_time)} ({row.values.total_hours}h)
+                          </span>
+                        </div>
+                      ) : (
+                        row.errors.map(error => (
+                          <div key={error} className="text-red-600">{error}</div>
+                        ))
+                      )}
+                      {row.duplicate && (
+                        <div className="text-yellow-700">Already logged for this employee, project, date and start time</div>
+                      )}
+                      {row.warnings.map(warning => (
+                        <div key={warning} className="flex items-center gap-1 text-xs text-amber-700">
+                          <AlertTriangle className="h-3 w-3 shrink-0" />
+                          {warning}
+                        </div>
+                      ))}
+                    </div>
+                    <Badge
+                      variant="outline"
+                      className={!row.values ? "text-red-700" : row.duplicate ? "text-yellow-700" : "text-green-700"}
+                    >
+                      {!row.values ? "Error" : row.duplicate ? "Duplicate" : "Ready"}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-600">
+                Ready rows are saved together as pending hours. Rows with errors or duplicates are skipped.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleImport} disabled={importing || readyCount === 0}>
+              {importing ? "Importing..." : `Import ${readyCount} Entries`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
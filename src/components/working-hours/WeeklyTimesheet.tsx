@@ -0,0 +1,363 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, Lock, Plus, Save, Send } from "lucide-react";
+import { format, parseISO, startOfWeek } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Project, TimesheetSubmission, WorkingHour } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { RosterWeeklyFilter } from "@/components/roster/RosterWeeklyFilter";
+import { notifyPermissionHolders } from "@/lib/notifications";
+import {
+  buildTimesheetRows,
+  diffTimesheet,
+  getCellValue,
+  getRowTotal,
+  getWeekDays,
+  hasTimesheetChanges,
+  isEditableCell,
+  TimesheetRow,
+  TimesheetValues,
+  timesheetRowKey,
+  validateTimesheetValues
+} from "@/lib/timesheets";
+import { shiftDateString, toDateString } from "@/lib/time";
+
+const SUBMISSION_BADGES: Record<TimesheetSubmission['status'], { label: string; className: string }> = {
+  submitted: { label: 'Submitted', className: 'bg-yellow-100 text-yellow-800' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected - please correct and resubmit', className: 'bg-red-100 text-red-800' }
+};
+
+// Employees fill in a week of hours per client/project, save drafts and submit the week for approval
+export const WeeklyTimesheet = () => {
+  const { profile } = useAuth();
+  const [currentWeek, setCurrentWeek] = useState(new Date());
+  const [entries, setEntries] = useState<WorkingHour[]>([]);
+  const [submission, setSubmission] = useState<TimesheetSubmission | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [extraRows, setExtraRows] = useState<Pick<TimesheetRow, 'client_id' | 'project_id' | 'label'>[]>([]);
+  const [values, setValues] = useState<TimesheetValues>({});
+  const [newProjectId, setNewProjectId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const weekStart = toDateString(startOfWeek(currentWeek, { weekStartsOn: 1 }));
+  const weekEnd = shiftDateString(weekStart, 6);
+  const days = getWeekDays(weekStart);
+
+  useEffect(() => {
+    fetchProjects();
+  }, []);
+
+  useEffect(() => {
+    if (profile?.id) {
+      setExtraRows([]);
+      fetchWeek();
+    }
+  }, [profile?.id, weekStart]);
+
+  const fetchProjects = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select(`
+          *,
+          clients!projects_client_id_fkey (id, company)
+        `)
+        .eq('status', 'active')
+        .order('name');
+
+      if (error) throw error;
+      setProjects((data || []) as unknown as Project[]);
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
+  };
+
+  const fetchWeek = async () => {
+    if (!profile?.id) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('working_hours')
+        .select(`
+          *,
+          clients!working_hours_client_id_fkey (id, company),
+          projects!working_hours_project_id_fkey (id, name)
+        `)
+        .eq('profile_id', profile.id)
+        .gte('date', weekStart)
+        .lte('date', weekEnd)
+        .order('date');
+
+      if (error) throw error;
+
+      const { data: submissionData, error: submissionError } = await supabase
+        .from('timesheet_submissions')
+        .select('*')
+        .eq('profile_id', profile.id)
+        .eq('week_start', weekStart)
+        .maybeSingle();
+
+      if (submissionError) throw submissionError;
+
+      setEntries((data || []) as unknown as WorkingHour[]);
+      setSubmission(submissionData as TimesheetSubmission | null);
+      setValues({});
+    } catch (error) {
+      console.error('Error fetching timesheet:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch timesheet",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rows = buildTimesheetRows(entries, extraRows);
+  const locked = submission?.status === 'submitted' || submission?.status === 'approved';
+  const availableProjects = projects.filter(p => !rows.some(row => row.key === timesheetRowKey(p.client_id, p.id)));
+  const weekTotal = Math.round(rows.reduce((sum, row) => sum + getRowTotal(row, days, values), 0) * 100) / 100;
+
+  const setCellValue = (rowKey: string, date: string, value: string) => {
+    setValues(prev => ({ ...prev, [rowKey]: { ...prev[rowKey], [date]: value } }));
+  };
+
+  const addRow = () => {
+    const project = projects.find(p => p.id === newProjectId);
+    if (!project) return;
+
+    setExtraRows(prev => [...prev, {
+      client_id: project.client_id,
+      project_id: project.id,
+      label: [project.clients?.company, project.name].filter(Boolean).join(' - ')
+    }]);
+    setNewProjectId("");
+  };
+
+  // Writes the typed hours as drafts; returns false when nothing could be saved
+  const saveChanges = async () => {
+    if (!profile?.id) return false;
+
+    const validationError = validateTimesheetValues(values);
+    if (validationError) {
+      toast({ title: "Error", description: validationError, variant: "destructive" });
+      return false;
+    }
+
+    const changes = diffTimesheet(rows, values);
+    if (!hasTimesheetChanges(changes)) return true;
+
+    // Saved together; the server costs each draft at the rate card or employee's rate
+    const { error } = await supabase.rpc('save_timesheet_drafts', changes);
+    if (error) throw error;
+
+    return true;
+  };
+
+  const handleSaveDraft = async () => {
+    setSaving(true);
+    try {
+      if (await saveChanges()) {
+        toast({ title: "Success", description: "Timesheet draft saved" });
+        fetchWeek();
+      }
+    } catch (error) {
+      console.error('Error saving timesheet:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save timesheet",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * Saves the grid, then submits every draft and unsubmitted pending entry for the week
+   * under one submission and sends approvers a single notification for the whole week.
+   */
+  const handleSubmitWeek = async () => {
+    if (!profile?.id) return;
+
+    setSaving(true);
+    try {
+      if (!(await saveChanges())) return;
+
+      const { data, error } = await supabase.rpc('submit_timesheet_week', { target_week_start: weekStart });
+      if (error) throw error;
+
+      const [saved] = data || [];
+      const totalHours = saved.total_hours;
+
+      const weekLabel = format(parseISO(weekStart), 'MMM dd, yyyy');
+      const recipients = await notifyPermissionHolders('working_hours_approve', {
+        title: 'Timesheet Submitted',
+        message: `${profile.full_name || 'A team member'} submitted ${totalHours}h over ${saved.entry_count} entries for the week of ${weekLabel}`,
+        type: 'timesheet_submission',
+        sender_profile_id: profile.id,
+        related_id: saved.submission_id,
+        action_type: 'approve',
+        action_data: {
+          profile_id: profile.id,
+          week_start: weekStart,
+          total_hours: totalHours
+        },
+        priority: 'medium'
+      });
+
+      toast({
+        title: "Success",
+        description: recipients > 0
+          ? "Timesheet submitted for approval"
+          : "Timesheet submitted, but no approver could be notified"
+      });
+      fetchWeek();
+    } catch (error) {
+      console.error('Error submitting timesheet:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit timesheet",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cellTitle = (cellEntries: WorkingHour[] = []) => {
+    if (isEditableCell(cellEntries)) return undefined;
+    if (cellEntries.some(wh => wh.roster_id)) return 'From a rostered shift';
+    return `Already ${cellEntries[0].status}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg md:text-xl flex flex-wrap items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          My Timesheet
+          {submission && (
+            <Badge className={SUBMISSION_BADGES[submission.status].className}>
+              {SUBMISSION_BADGES[submission.status].label}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <RosterWeeklyFilter currentWeek={currentWeek} onWeekChange={setCurrentWeek} />
+
+        {loading ? (
+          <p className="text-sm text-gray-500 text-center py-4">Loading...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-600">
+                    <th className="py-2 pr-4 font-medium">Client / Project</th>
+                    {days.map(date => (
+                      <th key={date} className="py-2 px-1 font-medium text-center">
+                        {format(parseISO(date), 'EEE')}
+                        <div className="text-xs font-normal text-gray-500">{format(parseISO(date), 'dd/MM')}</div>
+                      </th>
+                    ))}
+                    <th className="py-2 pl-2 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.key} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-medium text-gray-900 min-w-40">{row.label}</td>
+                      {days.map(date => {
+                        const cellEntries = row.entries[date];
+                        const editable = !locked && isEditableCell(cellEntries);
+                        return (
+                          <td key={date} className="py-2 px-1">
+                            <Input
+                              type="number"
+                              inputMode="decimal"
+                              min="0"
+                              max="24"
+                              step="0.25"
+                              className="w-16 text-center px-1"
+                              value={values[row.key]?.[date] ?? getCellValue(cellEntries)}
+                              onChange={(e) => setCellValue(row.key, date, e.target.value)}
+                              disabled={!editable || saving}
+                              title={cellTitle(cellEntries)}
+                            />
+                          </td>
+                        );
+                      })}
+                      <td className="py-2 pl-2 text-right font-medium">{getRowTotal(row, days, values).toFixed(2)}h</td>
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={days.length + 2} className="py-4 text-center text-gray-500">
+                        No hours this week. Add a project to start your timesheet.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+              {locked ? (
+                <p className="text-sm text-gray-600 flex items-center gap-2">
+                  <Lock className="h-4 w-4" />
+                  This week has been {submission?.status} and can no longer be changed
+                </p>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Select value={newProjectId} onValueChange={setNewProjectId}>
+                    <SelectTrigger className="w-full md:w-64">
+                      <SelectValue placeholder="Add a project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableProjects.map(project => (
+                        <SelectItem key={project.id} value={project.id}>
+                          {[project.clients?.company, project.name].filter(Boolean).join(' - ')}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={addRow} disabled={!newProjectId}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2 justify-end">
+                <span className="text-sm font-medium text-gray-700 mr-2">Week total: {weekTotal.toFixed(2)}h</span>
+                {!locked && (
+                  <>
+                    <Button variant="outline" size="sm" onClick={handleSaveDraft} disabled={saving}>
+                      <Save className="h-4 w-4 mr-1" />
+                      Save Draft
+                    </Button>
+                    <Button size="sm" onClick={handleSubmitWeek} disabled={saving || rows.length === 0}>
+                      <Send className="h-4 w-4 mr-1" />
+                      {saving ? "Saving..." : submission?.status === 'rejected' ? "Resubmit Week" : "Submit Week"}
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
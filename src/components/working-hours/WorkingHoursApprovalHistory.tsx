@@ -0,0 +1,173 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { History, MessageSquare, RotateCcw, XCircle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { ApprovalChain, WorkingHour, WorkingHoursApproval } from "@/types/database";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  commentOnWorkingHours,
+  describeApprovalProgress,
+  describeApprover,
+  getChainSteps,
+  resolveApprovalChain,
+  resubmitWorkingHours
+} from "@/lib/approval-chains";
+
+interface WorkingHoursApprovalHistoryProps {
+  workingHour: WorkingHour;
+  approvalChains: ApprovalChain[];
+  onUpdate?: () => void;
+}
+
+const ACTION_LABELS: Record<WorkingHoursApproval['action'], { label: string; className: string }> = {
+  approved: { label: 'Approved', className: 'text-green-700' },
+  rejected: { label: 'Rejected', className: 'text-red-700' },
+  resubmitted: { label: 'Resubmitted', className: 'text-blue-700' },
+  commented: { label: 'Commented', className: 'text-gray-700' }
+};
+
+// Where an entry is in its approval chain, what has happened to it so far, and comments
+export const WorkingHoursApprovalHistory = ({ workingHour, approvalChains, onUpdate }: WorkingHoursApprovalHistoryProps) => {
+  const [history, setHistory] = useState<WorkingHoursApproval[]>([]);
+  const [comment, setComment] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { profile } = useAuth();
+
+  const chain = resolveApprovalChain(approvalChains, workingHour);
+  const progress = describeApprovalProgress(chain, workingHour);
+
+  useEffect(() => {
+    setComment("");
+    fetchHistory();
+  }, [workingHour.id]);
+
+  const fetchHistory = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('working_hours_approvals')
+        .select(`
+          *,
+          profiles!working_hours_approvals_actor_profile_id_fkey (id, full_name)
+        `)
+        .eq('working_hour_id', workingHour.id)
+        .order('created_at');
+
+      if (error) throw error;
+      setHistory((data || []) as unknown as WorkingHoursApproval[]);
+    } catch (error) {
+      console.error('Error fetching approval history:', error);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, success: string) => {
+    setSaving(true);
+    try {
+      await action();
+      toast({ title: "Success", description: success });
+      setComment("");
+      fetchHistory();
+      onUpdate?.();
+    } catch (error) {
+      console.error('Error updating approval:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update approval",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComment = () => {
+    if (!profile || !comment.trim()) return;
+    runAction(() => commentOnWorkingHours(workingHour.id, profile, comment.trim()), "Comment added");
+  };
+
+  const handleResubmit = () => {
+    if (!profile) return;
+    runAction(() => resubmitWorkingHours(workingHour.id, comment.trim()), "Hours resubmitted for approval");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Approval
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {chain && (
+          <div className="text-sm">
+            <div className="text-gray-600">{chain.name}</div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+              {getChainSteps(chain).map((step, index) => (
+                <span
+                  key={step.id}
+                  className={index < (workingHour.approval_step || 0) ? 'text-green-700' : 'text-gray-500'}
+                >
+                  {step.step_order}. {step.name} ({describeApprover(step)})
+                </span>
+              ))}
+            </div>
+            {progress && <div className="font-medium text-gray-900 mt-1">Waiting on {progress}</div>}
+          </div>
+        )}
+
+        {workingHour.status === 'rejected' && workingHour.rejection_reason && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-800">
+            <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{workingHour.rejection_reason}</span>
+          </div>
+        )}
+
+        {history.length > 0 ? (
+          <div className="space-y-2">
+            {history.map(item => (
+              <div key={item.id} className="text-sm border-l-2 pl-3">
+                <div className="flex flex-wrap items-center gap-x-2">
+                  <span className={`font-medium ${ACTION_LABELS[item.action].className}`}>
+                    {ACTION_LABELS[item.action].label}
+                    {item.step_name && ` at ${item.step_name}`}
+                  </span>
+                  <span className="text-gray-600">by {item.profiles?.full_name || 'Unknown'}</span>
+                  <span className="text-xs text-gray-500">{format(parseISO(item.created_at), 'dd MMM yyyy HH:mm')}</span>
+                </div>
+                {item.comment && <p className="text-gray-700">{item.comment}</p>}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No approval activity yet</p>
+        )}
+
+        <div className="space-y-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={workingHour.status === 'rejected' ? "What was corrected?" : "Add a comment"}
+            rows={2}
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={handleComment} disabled={saving || !comment.trim()}>
+              <MessageSquare className="h-4 w-4 mr-1" />
+              Comment
+            </Button>
+            {workingHour.status === 'rejected' && (
+              <Button size="sm" onClick={handleResubmit} disabled={saving}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Resubmit
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
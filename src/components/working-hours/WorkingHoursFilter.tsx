@@ -4,8 +4,11 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Search, Calendar, Filter } from "lucide-react";
-import { Profile, Client, Project } from "@/types/database";
+import { Search, Calendar, Filter, PartyPopper } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { Profile, Client, Project, PublicHoliday } from "@/types/database";
+import { toDateString } from "@/lib/time";
+import { describeHolidayRegion } from "@/lib/holidays";
 
 interface WorkingHoursFilterProps {
   searchTerm: string;
@@ -27,6 +30,7 @@ interface WorkingHoursFilterProps {
   profiles: Profile[];
   clients: Client[];
   projects: Project[];
+  holidays?: PublicHoliday[];
 }
 
 export const WorkingHoursFilter = ({
@@ -48,7 +52,8 @@ export const WorkingHoursFilter = ({
   setDateShortcut,
   profiles,
   clients,
-  projects
+  projects,
+  holidays = []
 }: WorkingHoursFilterProps) => {
   const handleDateShortcut = (shortcut: string) => {
     setDateShortcut(shortcut);
@@ -102,8 +107,8 @@ export const WorkingHoursFilter = ({
         }
     }
     
-    setStartDate(start.toISOString().split('T')[0]);
-    setEndDate(end.toISOString().split('T')[0]);
+    setStartDate(toDateString(start));
+    setEndDate(toDateString(end));
   };
 
   const generateShortcutOptions = () => {
@@ -245,6 +250,7 @@ export const WorkingHoursFilter = ({
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Status</SelectItem>
+                      <SelectItem value="draft">Draft</SelectItem>
                       <SelectItem value="pending">Pending</SelectItem>
                       <SelectItem value="approved">Approved</SelectItem>
                       <SelectItem value="rejected">Rejected</SelectItem>
@@ -257,6 +263,28 @@ export const WorkingHoursFilter = ({
           </PopoverContent>
         </Popover>
       </div>
+
+      {holidays.length > 0 && (
+        <div className="w-full flex flex-wrap items-center gap-2 text-sm">
+          <PartyPopper className="h-4 w-4 text-rose-600" />
+          <span className="text-gray-600">Public holidays in range:</span>
+          {holidays.map(holiday => (
+            <button
+              key={holiday.id}
+              type="button"
+              onClick={() => {
+                setDateShortcut("");
+                setStartDate(holiday.date);
+                setEndDate(holiday.date);
+              }}
+              className="px-2 py-0.5 rounded-full border border-rose-200 bg-rose-50 text-xs text-rose-700 hover:bg-rose-100"
+              title={`Show ${holiday.name} only (${describeHolidayRegion(holiday.region)})`}
+            >
+              {format(parseISO(holiday.date), 'dd MMM')} · {holiday.name}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { XCircle } from "lucide-react";
+
+interface WorkingHoursRejectDialogProps {
+  isOpen: boolean;
+  description: string;
+  onClose: () => void;
+  onConfirm: (reason: string) => Promise<void>;
+}
+
+// Asks for the reason before hours are rejected; the employee sees it when correcting them
+export const WorkingHoursRejectDialog = ({ isOpen, description, onClose, onConfirm }: WorkingHoursRejectDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setReason("");
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setSaving(true);
+    try {
+      await onConfirm(reason.trim());
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <XCircle className="h-5 w-5 text-red-600" />
+            Reject Hours
+          </DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-600">{description}</p>
+          <div>
+            <Label htmlFor="rejection_reason">Reason</Label>
+            <Textarea
+              id="rejection_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="What needs to be corrected?"
+              rows={3}
+              required
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+            <Button type="submit" variant="destructive" disabled={saving || !reason.trim()}>
+              {saving ? "Rejecting..." : "Reject"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,19 +1,38 @@
 
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Clock, User, Building, Calendar, DollarSign, Timer } from "lucide-react";
-import { WorkingHour } from "@/types/database";
+import { Clock, User, Building, Calendar, DollarSign, Timer, AlertTriangle, MapPin } from "lucide-react";
+import { ApprovalChain, WorkingHour } from "@/types/database";
+import { formatAttendanceFlags, getAttendanceFlags } from "@/lib/attendance";
+import { getGeofenceFlags } from "@/lib/geofence";
+import { formatBreak } from "@/lib/breaks";
+import { formatMultiplier } from "@/lib/overtime";
+import { WorkingHoursApprovalHistory } from "./WorkingHoursApprovalHistory";
+import { AuditHistory } from "@/components/audit/AuditHistory";
 
 interface WorkingHoursViewDialogProps {
   workingHour: WorkingHour | null;
   isOpen: boolean;
   onClose: () => void;
+  approvalChains?: ApprovalChain[];
+  onUpdate?: () => void;
 }
 
-export const WorkingHoursViewDialog = ({ workingHour, isOpen, onClose }: WorkingHoursViewDialogProps) => {
+export const WorkingHoursViewDialog = ({ workingHour, isOpen, onClose, approvalChains = [], onUpdate }: WorkingHoursViewDialogProps) => {
   if (!workingHour) return null;
 
+  const attendanceFlags = workingHour.roster_id ? formatAttendanceFlags(getAttendanceFlags(workingHour)) : [];
+  const geofenceFlags = getGeofenceFlags(workingHour);
+
+  const formatPosition = (latitude?: number, longitude?: number, accuracy?: number) =>
+    latitude != null && longitude != null
+      ? `${latitude.toFixed(5)}, ${longitude.toFixed(5)}${accuracy != null ? ` (±${Math.round(accuracy)}m)` : ''}`
+      : null;
+  const signInPosition = formatPosition(workingHour.sign_in_latitude, workingHour.sign_in_longitude, workingHour.sign_in_accuracy_meters);
+  const signOutPosition = formatPosition(workingHour.sign_out_latitude, workingHour.sign_out_longitude, workingHour.sign_out_accuracy_meters);
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -24,148 +43,227 @@ export const WorkingHoursViewDialog = ({ workingHour, isOpen, onClose }: Working
           </DialogTitle>
         </DialogHeader>
         
-        <div className="space-y-6">
-          {/* Header Info */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm text-gray-600 flex items-center gap-1">
-                  <User className="h-4 w-4" />
-                  Employee
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="font-medium">{workingHour.profiles?.full_name || 'N/A'}</div>
-                <div className="text-sm text-gray-600">{workingHour.profiles?.role || 'N/A'}</div>
-              </CardContent>
-            </Card>
+        <Tabs defaultValue="details">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <div className="space-y-6">
+              {/* Header Info */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-gray-600 flex items-center gap-1">
+                      <User className="h-4 w-4" />
+                      Employee
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="font-medium">{workingHour.profiles?.full_name || 'N/A'}</div>
+                    <div className="text-sm text-gray-600">{workingHour.profiles?.role || 'N/A'}</div>
+                  </CardContent>
+                </Card>
             
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm text-gray-600 flex items-center gap-1">
-                  <Building className="h-4 w-4" />
-                  Client & Project
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="font-medium">{workingHour.clients?.company || 'N/A'}</div>
-                <div className="text-sm text-gray-600">{workingHour.projects?.name || 'N/A'}</div>
-              </CardContent>
-            </Card>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-gray-600 flex items-center gap-1">
+                      <Building className="h-4 w-4" />
+                      Client & Project
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="font-medium">{workingHour.clients?.company || 'N/A'}</div>
+                    <div className="text-sm text-gray-600">{workingHour.projects?.name || 'N/A'}</div>
+                  </CardContent>
+                </Card>
             
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-sm text-gray-600 flex items-center gap-1">
-                  <Calendar className="h-4 w-4" />
-                  Date & Status
-                </CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="font-medium">{new Date(workingHour.date).toLocaleDateString()}</div>
-                <Badge variant={
-                  workingHour.status === "approved" ? "default" : 
-                  workingHour.status === "pending" ? "secondary" : 
-                  workingHour.status === "paid" ? "default" : "outline"
-                }>
-                  {workingHour.status}
-                </Badge>
-              </CardContent>
-            </Card>
-          </div>
+                <Card>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm text-gray-600 flex items-center gap-1">
+                      <Calendar className="h-4 w-4" />
+                      Date & Status
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="font-medium">{new Date(workingHour.date).toLocaleDateString()}</div>
+                    <Badge variant={
+                      workingHour.status === "approved" ? "default" : 
+                      workingHour.status === "pending" ? "secondary" : 
+                      workingHour.status === "paid" ? "default" : "outline"
+                    }>
+                      {workingHour.status}
+                    </Badge>
+                  </CardContent>
+                </Card>
+              </div>
 
-          {/* Time Details */}
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <Timer className="h-5 w-5" />
-                  Scheduled Hours
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Start Time:</span>
-                  <span className="font-medium">{workingHour.start_time}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">End Time:</span>
-                  <span className="font-medium">{workingHour.end_time}</span>
-                </div>
-                <div className="flex justify-between border-t pt-2">
-                  <span className="text-gray-600">Total Hours:</span>
-                  <span className="font-medium text-blue-600">{workingHour.total_hours}h</span>
-                </div>
-              </CardContent>
-            </Card>
+              {/* Time Details */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Timer className="h-5 w-5" />
+                      Scheduled Hours
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Start Time:</span>
+                      <span className="font-medium">{workingHour.start_time}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">End Time:</span>
+                      <span className="font-medium">{workingHour.end_time}</span>
+                    </div>
+                    {workingHour.breaks && workingHour.breaks.length > 0 ? (
+                      workingHour.breaks.map((b, index) => (
+                        <div key={index} className="flex justify-between">
+                          <span className="text-gray-600">Break:</span>
+                          <span className="font-medium">{formatBreak(b)}</span>
+                        </div>
+                      ))
+                    ) : (workingHour.break_minutes || 0) > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Unpaid Break:</span>
+                        <span className="font-medium">{workingHour.break_minutes}m</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between border-t pt-2">
+                      <span className="text-gray-600">Total Hours:</span>
+                      <span className="font-medium text-blue-600">{workingHour.total_hours}h</span>
+                    </div>
+                  </CardContent>
+                </Card>
 
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center gap-2">
-                  <Clock className="h-5 w-5" />
-                  Actual Hours
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Sign In:</span>
-                  <span className="font-medium">{workingHour.sign_in_time || 'Not recorded'}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-gray-600">Sign Out:</span>
-                  <span className="font-medium">{workingHour.sign_out_time || 'Not recorded'}</span>
-                </div>
-                <div className="flex justify-between border-t pt-2">
-                  <span className="text-gray-600">Actual Hours:</span>
-                  <span className="font-medium text-green-600">{workingHour.actual_hours || workingHour.total_hours}h</span>
-                </div>
-                {(workingHour.overtime_hours || 0) > 0 && (
-                  <div className="flex justify-between">
-                    <span className="text-gray-600">Overtime:</span>
-                    <span className="font-medium text-orange-600">{workingHour.overtime_hours}h</span>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Clock className="h-5 w-5" />
+                      Actual Hours
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Sign In:</span>
+                      <span className="font-medium">{workingHour.sign_in_time || 'Not recorded'}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Sign Out:</span>
+                      <span className="font-medium">{workingHour.sign_out_time || 'Not recorded'}</span>
+                    </div>
+                    <div className="flex justify-between border-t pt-2">
+                      <span className="text-gray-600">Actual Hours:</span>
+                      <span className="font-medium text-green-600">{workingHour.actual_hours || workingHour.total_hours}h</span>
+                    </div>
+                    {(workingHour.overtime_hours || 0) > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Overtime:</span>
+                        <span className="font-medium text-orange-600">{workingHour.overtime_hours}h</span>
+                      </div>
+                    )}
+                    {attendanceFlags.map(flag => (
+                      <div key={flag} className="flex items-center gap-2 text-sm text-orange-700">
+                        <AlertTriangle className="h-4 w-4" />
+                        {flag} against the roster
+                      </div>
+                    ))}
+                    {(signInPosition || signOutPosition) && (
+                      <div className="border-t pt-2 space-y-1 text-sm">
+                        {signInPosition && (
+                          <div className="flex justify-between gap-2">
+                            <span className="text-gray-600">Sign In Location:</span>
+                            <span className="font-medium text-right">{signInPosition}</span>
+                          </div>
+                        )}
+                        {signOutPosition && (
+                          <div className="flex justify-between gap-2">
+                            <span className="text-gray-600">Sign Out Location:</span>
+                            <span className="font-medium text-right">{signOutPosition}</span>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {geofenceFlags.map(flag => (
+                      <div key={flag} className="flex items-center gap-2 text-sm text-red-700">
+                        <MapPin className="h-4 w-4" />
+                        {flag}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Payment Details */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <DollarSign className="h-5 w-5" />
+                    Payment Details
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-blue-600">${workingHour.hourly_rate || 0}</div>
+                      <div className="text-sm text-gray-600">Hourly Rate</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-green-600">{workingHour.actual_hours || workingHour.total_hours}h</div>
+                      <div className="text-sm text-gray-600">Billable Hours</div>
+                    </div>
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-purple-600">${(workingHour.payable_amount || 0).toFixed(2)}</div>
+                      <div className="text-sm text-gray-600">Total Amount</div>
+                    </div>
                   </div>
-                )}
-              </CardContent>
-            </Card>
-          </div>
+                  {workingHour.overtime_breakdown && (
+                    <div className="border-t mt-4 pt-3 space-y-1 text-sm">
+                      <div className="text-gray-600">Paid under {workingHour.overtime_breakdown.rule_name}</div>
+                      {workingHour.overtime_breakdown.lines.map(line => (
+                        <div key={line.label} className="flex justify-between">
+                          <span className={line.kind === 'overtime' ? 'text-orange-600' : 'text-gray-700'}>{line.label}</span>
+                          <span className="font-medium">
+                            {line.hours}h × ${workingHour.hourly_rate || 0} × {formatMultiplier(line.multiplier)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {workingHour.bill_rate != null && (
+                    <div className="border-t mt-4 pt-3 flex justify-between text-sm">
+                      <span className="text-gray-600">Billed to client at ${workingHour.bill_rate}/hr</span>
+                      <span className="font-medium">${(workingHour.billable_amount || 0).toFixed(2)}</span>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
 
-          {/* Payment Details */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg flex items-center gap-2">
-                <DollarSign className="h-5 w-5" />
-                Payment Details
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-blue-600">${workingHour.hourly_rate || 0}</div>
-                  <div className="text-sm text-gray-600">Hourly Rate</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-green-600">{workingHour.actual_hours || workingHour.total_hours}h</div>
-                  <div className="text-sm text-gray-600">Billable Hours</div>
-                </div>
-                <div className="text-center">
-                  <div className="text-2xl font-bold text-purple-600">${(workingHour.payable_amount || 0).toFixed(2)}</div>
-                  <div className="text-sm text-gray-600">Total Amount</div>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+              {/* Notes */}
+              {workingHour.notes && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Notes</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-gray-700">{workingHour.notes}</p>
+                  </CardContent>
+                </Card>
+              )}
+
+              <WorkingHoursApprovalHistory
+                workingHour={workingHour}
+                approvalChains={approvalChains}
+                onUpdate={onUpdate}
+              />
+            </div>
+          </TabsContent>
 
-          {/* Notes */}
-          {workingHour.notes && (
-            <Card>
-              <CardHeader>
-                <CardTitle className="text-lg">Notes</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-gray-700">{workingHour.notes}</p>
-              </CardContent>
-            </Card>
-          )}
-        </div>
+          <TabsContent value="history">
+            <AuditHistory tableName="working_hours" recordId={workingHour.id} />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,161 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Project, Roster, WorkingHour } from "@/types/database";
+import { formatAttendanceFlags, getAttendanceFlags } from "@/lib/attendance";
+import { CapturedPosition, formatGeofenceFlag, positionParams } from "@/lib/geofence";
+import { browserTimeZone, shiftDateString, todayString } from "@/lib/time";
+
+export interface ClockShift {
+  key: string;
+  roster?: Roster;
+  workingHour?: WorkingHour;
+  project?: Project;
+  label: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+}
+
+export interface ClockResult {
+  text: string;
+  flags: string[];
+}
+
+const PROJECT_FIELDS = 'id, name, site_latitude, site_longitude, site_radius_meters';
+
+/**
+ * Today's rostered shifts for one person plus any overnight shift from yesterday still
+ * waiting to clock out, with clock in/out actions. Used by the kiosk and the personal
+ * dashboard; the dashboard also passes the device position for the site geofence.
+ */
+export const useClockShifts = (profileId?: string) => {
+  const [shifts, setShifts] = useState<ClockShift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const today = todayString();
+
+  useEffect(() => {
+    if (profileId) fetchShifts();
+  }, [profileId]);
+
+  const fetchShifts = async () => {
+    if (!profileId) return;
+
+    setLoading(true);
+    try {
+      const { data: rosters, error: rostersError } = await supabase
+        .from('rosters')
+        .select(`
+          *,
+          projects!rosters_project_id_fkey (${PROJECT_FIELDS}),
+          roster_profiles!inner (id, profile_id)
+        `)
+        .eq('roster_profiles.profile_id', profileId)
+        .neq('status', 'cancelled')
+        .lte('date', today)
+        .or(`end_date.gte.${today},date.eq.${today}`)
+        .order('start_time');
+
+      if (rostersError) throw rostersError;
+
+      // Yesterday's rows are only needed for overnight shifts still waiting to clock out
+      const { data: hours, error: hoursError } = await supabase
+        .from('working_hours')
+        .select(`
+          *,
+          projects!working_hours_project_id_fkey (${PROJECT_FIELDS})
+        `)
+        .eq('profile_id', profileId)
+        .gte('date', shiftDateString(today, -1))
+        .lte('date', today)
+        .not('roster_id', 'is', null);
+
+      if (hoursError) throw hoursError;
+
+      const workingHours = (hours || []) as unknown as WorkingHour[];
+      const rosterShifts: ClockShift[] = ((rosters || []) as unknown as Roster[]).map(roster => ({
+        key: roster.id,
+        roster,
+        workingHour: workingHours.find(wh => wh.roster_id === roster.id && wh.date === today),
+        project: roster.projects,
+        label: roster.name || roster.projects?.name || 'Shift',
+        date: today,
+        start_time: roster.start_time,
+        end_time: roster.end_time
+      }));
+
+      const openOvernight: ClockShift[] = workingHours
+        .filter(wh => wh.date < today && wh.sign_in_time && !wh.sign_out_time)
+        .map(wh => ({
+          key: wh.id,
+          workingHour: wh,
+          project: wh.projects,
+          label: wh.projects?.name || 'Shift',
+          date: wh.date,
+          start_time: wh.start_time,
+          end_time: wh.end_time
+        }));
+
+      setShifts([...openOvernight, ...rosterShifts]);
+      setError("");
+    } catch (error) {
+      console.error('Error fetching shifts to clock:', error);
+      setError("Could not load your shifts");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The server checks the roster, stamps the time and measures the distance from the site
+  const clockIn = async (shift: ClockShift, position: CapturedPosition | null = null): Promise<ClockResult> => {
+    const rosterId = shift.roster?.id || shift.workingHour?.roster_id;
+    if (!profileId || !rosterId) throw new Error('This shift cannot be clocked');
+
+    const { data, error } = await supabase.rpc('clock_in_shift', {
+      target_roster_id: rosterId,
+      target_profile_id: profileId,
+      time_zone: browserTimeZone(),
+      ...positionParams(position)
+    });
+
+    if (error) throw error;
+    const [clocked] = data || [];
+    const now = clocked.clocked_time.slice(0, 5);
+
+    await fetchShifts();
+    return {
+      text: `Clocked in at ${now}`,
+      flags: [
+        ...formatAttendanceFlags(getAttendanceFlags({ ...shift, sign_in_time: now, sign_out_time: undefined })),
+        ...(clocked.outside_geofence ? [formatGeofenceFlag('sign_in', clocked.distance_meters)] : [])
+      ]
+    };
+  };
+
+  const clockOut = async (shift: ClockShift, position: CapturedPosition | null = null): Promise<ClockResult> => {
+    const workingHour = shift.workingHour;
+    if (!workingHour?.sign_in_time) throw new Error('Clock in before clocking out');
+
+    const { data, error } = await supabase.rpc('clock_out_shift', {
+      target_working_hours_id: workingHour.id,
+      time_zone: browserTimeZone(),
+      ...positionParams(position)
+    });
+
+    if (error) throw error;
+    const [clocked] = data || [];
+    const now = clocked.clocked_time.slice(0, 5);
+
+    await fetchShifts();
+    return {
+      text: `Clocked out at ${now} - ${clocked.actual_hours}h worked`,
+      flags: [
+        ...formatAttendanceFlags(getAttendanceFlags({ ...workingHour, sign_out_time: now })),
+        ...(clocked.outside_geofence ? [formatGeofenceFlag('sign_out', clocked.distance_meters)] : [])
+      ]
+    };
+  };
+
+  return { shifts, loading, error, today, clockIn, clockOut };
+};
@@ -0,0 +1,74 @@
+import { useState, useEffect } from "react";
+import { FatigueRule } from "@/types/database";
+import { ShiftWindow, getShiftDateRange } from "@/lib/roster-conflicts";
+import {
+  FatigueShift,
+  fetchFatigueRules,
+  fetchFatigueSchedule,
+  findProfileFatigueIssues,
+  getFatigueLookaround
+} from "@/lib/fatigue";
+import { shiftDateString } from "@/lib/time";
+
+// Loads the fatigue rules and everyone's rosters and logged hours around the candidate
+// shifts, and reports which of the given profiles would break a fatigue limit by working
+// them. The shifts are treated as the given client's.
+export const useFatigueCheck = (
+  shifts: ShiftWindow[],
+  profileIds: string[],
+  clientId?: string | null
+) => {
+  const [rules, setRules] = useState<FatigueRule[]>([]);
+  const [schedule, setSchedule] = useState<FatigueShift[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const validShifts = shifts.filter(s => s.date && s.start_time && s.end_time);
+  const { rangeStart, rangeEnd } = getShiftDateRange(validShifts);
+
+  useEffect(() => {
+    if (!rangeStart || !rangeEnd) {
+      setSchedule([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchSchedule = async () => {
+      setLoading(true);
+      try {
+        const fatigueRules = await fetchFatigueRules();
+        const lookaround = getFatigueLookaround(fatigueRules);
+        const fatigueSchedule = await fetchFatigueSchedule(
+          null,
+          shiftDateString(rangeStart, -lookaround),
+          shiftDateString(rangeEnd, lookaround),
+          true
+        );
+
+        if (!cancelled) {
+          setRules(fatigueRules);
+          setSchedule(fatigueSchedule);
+        }
+      } catch (error) {
+        console.error('Error fetching schedule for fatigue check:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSchedule();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeStart, rangeEnd]);
+
+  const issues = findProfileFatigueIssues(
+    validShifts.map(shift => ({ ...shift, client_id: clientId })),
+    profileIds,
+    schedule,
+    rules
+  );
+
+  return { issues, loading };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect } from "react";
+import { PublicHoliday } from "@/types/database";
+import { createHolidayLookup, fetchClientRegions, fetchPublicHolidays, HolidayLookup, noHolidays } from "@/lib/holidays";
+
+// Loads the public holidays between two dates in every region, with a lookup that
+// matches them against a client's region.
+export const usePublicHolidays = (startDate: string, endDate: string) => {
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [getHoliday, setGetHoliday] = useState<HolidayLookup>(() => noHolidays);
+
+  useEffect(() => {
+    if (!startDate || !endDate) {
+      setHolidays([]);
+      setGetHoliday(() => noHolidays);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadHolidays = async () => {
+      try {
+        const [holidayList, clientRegions] = await Promise.all([
+          fetchPublicHolidays(startDate, endDate),
+          fetchClientRegions()
+        ]);
+
+        if (!cancelled) {
+          setHolidays(holidayList);
+          setGetHoliday(() => createHolidayLookup(holidayList, clientRegions));
+        }
+      } catch (error) {
+        console.error('Error fetching public holidays:', error);
+      }
+    };
+
+    loadHolidays();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [startDate, endDate]);
+
+  return { holidays, getHoliday };
+};
@@ -0,0 +1,20 @@
+import { useState, useEffect } from "react";
+import { Profile, RateCard } from "@/types/database";
+import { RateSubject, fetchRateCards, resolveRates } from "@/lib/rate-cards";
+
+// Loads the rate cards once, for forms that pre-fill pay and bill rates as the employee,
+// project or date change
+export const useRateCards = () => {
+  const [rateCards, setRateCards] = useState<RateCard[]>([]);
+
+  useEffect(() => {
+    fetchRateCards()
+      .then(setRateCards)
+      .catch(error => console.error('Error fetching rate cards:', error));
+  }, []);
+
+  const getRates = (subject: RateSubject, profile?: Pick<Profile, 'hourly_rate' | 'role'> | null) =>
+    resolveRates(rateCards, { ...subject, role: profile?.role }, profile);
+
+  return { rateCards, getRates };
+};
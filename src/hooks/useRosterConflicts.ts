@@ -0,0 +1,75 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Roster, WorkingHour } from "@/types/database";
+import { ShiftWindow, findProfileConflicts, getShiftDateRange } from "@/lib/roster-conflicts";
+
+// Loads the rosters and logged hours around the candidate shifts and reports
+// which of the given profiles would be double-booked by them. The loaded schedule is
+// returned too for callers that need to check shifts one at a time.
+export const useRosterConflicts = (shifts: ShiftWindow[], profileIds: string[], excludeRosterIds: string[] = []) => {
+  const [rosters, setRosters] = useState<Roster[]>([]);
+  const [workingHours, setWorkingHours] = useState<WorkingHour[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const validShifts = shifts.filter(s => s.date && s.start_time && s.end_time);
+  const { rangeStart, rangeEnd } = getShiftDateRange(validShifts);
+
+  useEffect(() => {
+    if (!rangeStart || !rangeEnd) {
+      setRosters([]);
+      setWorkingHours([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchSchedule = async () => {
+      setLoading(true);
+      try {
+        const [rostersResult, workingHoursResult] = await Promise.all([
+          supabase
+            .from('rosters')
+            .select(`
+              id, name, date, end_date, start_time, end_time, status,
+              projects!rosters_project_id_fkey (id, name),
+              roster_profiles!roster_profiles_roster_id_fkey (id, profile_id)
+            `)
+            .neq('status', 'cancelled')
+            .lte('date', rangeEnd)
+            .or(`end_date.gte.${rangeStart},and(end_date.is.null,date.gte.${rangeStart})`),
+          supabase
+            .from('working_hours')
+            .select(`
+              id, profile_id, roster_id, date, start_time, end_time, sign_in_time, sign_out_time, status,
+              projects!working_hours_project_id_fkey (id, name)
+            `)
+            .neq('status', 'rejected')
+            .gte('date', rangeStart)
+            .lte('date', rangeEnd)
+        ]);
+
+        if (rostersResult.error) throw rostersResult.error;
+        if (workingHoursResult.error) throw workingHoursResult.error;
+
+        if (!cancelled) {
+          setRosters((rostersResult.data || []) as unknown as Roster[]);
+          setWorkingHours((workingHoursResult.data || []) as unknown as WorkingHour[]);
+        }
+      } catch (error) {
+        console.error('Error fetching schedule for conflict check:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSchedule();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeStart, rangeEnd]);
+
+  const conflicts = findProfileConflicts(validShifts, profileIds, rosters, workingHours, excludeRosterIds);
+
+  return { conflicts, loading, rosters, workingHours };
+};
@@ -0,0 +1,69 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { LeaveRequest, ProfileAvailability, ProfileUnavailability } from "@/types/database";
+import { ShiftWindow, getShiftDateRange } from "@/lib/roster-conflicts";
+import { AvailabilitySchedule, createEmptyAvailabilitySchedule } from "@/lib/availability";
+
+// Loads weekly availability, one-off unavailability and leave overlapping the given
+// shifts; pass the result to findProfileUnavailability to check individual profiles.
+export const useStaffAvailability = (shifts: ShiftWindow[]) => {
+  const [schedule, setSchedule] = useState<AvailabilitySchedule>(createEmptyAvailabilitySchedule);
+  const [loading, setLoading] = useState(false);
+
+  const { rangeStart, rangeEnd } = getShiftDateRange(shifts);
+
+  useEffect(() => {
+    if (!rangeStart || !rangeEnd) {
+      setSchedule(createEmptyAvailabilitySchedule());
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchAvailability = async () => {
+      setLoading(true);
+      try {
+        const [availabilityResult, unavailabilityResult, leaveResult] = await Promise.all([
+          supabase
+            .from('profile_availability')
+            .select('*'),
+          supabase
+            .from('profile_unavailability')
+            .select('*')
+            .lte('start_date', rangeEnd)
+            .gte('end_date', rangeStart),
+          supabase
+            .from('leave_requests')
+            .select('*')
+            .in('status', ['pending', 'approved'])
+            .lte('start_date', rangeEnd)
+            .gte('end_date', rangeStart)
+        ]);
+
+        if (availabilityResult.error) throw availabilityResult.error;
+        if (unavailabilityResult.error) throw unavailabilityResult.error;
+        if (leaveResult.error) throw leaveResult.error;
+
+        if (!cancelled) {
+          setSchedule({
+            availability: (availabilityResult.data || []) as ProfileAvailability[],
+            unavailability: (unavailabilityResult.data || []) as ProfileUnavailability[],
+            leaveRequests: (leaveResult.data || []) as LeaveRequest[]
+          });
+        }
+      } catch (error) {
+        console.error('Error fetching staff availability:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchAvailability();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rangeStart, rangeEnd]);
+
+  return { schedule, loading };
+};
@@ -9,6 +9,153 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      approval_chain_steps: {
+        Row: {
+          approver_profile_id: string | null
+          approver_role: Database["public"]["Enums"]["user_role"] | null
+          chain_id: string
+          created_at: string
+          id: string
+          name: string
+          step_order: number
+        }
+        Insert: {
+          approver_profile_id?: string | null
+          approver_role?: Database["public"]["Enums"]["user_role"] | null
+          chain_id: string
+          created_at?: string
+          id?: string
+          name: string
+          step_order: number
+        }
+        Update: {
+          approver_profile_id?: string | null
+          approver_role?: Database["public"]["Enums"]["user_role"] | null
+          chain_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+          step_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chain_steps_approver_profile_id_fkey"
+            columns: ["approver_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_chain_steps_chain_id_fkey"
+            columns: ["chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      approval_chains: {
+        Row: {
+          client_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          project_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          project_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          project_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_chains_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_chains_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "approval_chains_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      audit_log: {
+        Row: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_id: string | null
+          changed_fields: string[] | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          related_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["audit_action"]
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          related_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["audit_action"]
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          related_id?: string | null
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bank_accounts: {
         Row: {
           account_holder_name: string
@@ -69,6 +216,7 @@ export type Database = {
           date: string
           description: string
           id: string
+          invoice_id: string | null
           profile_id: string | null
           project_id: string | null
           type: Database["public"]["Enums"]["bank_transaction_type"]
@@ -83,6 +231,7 @@ export type Database = {
           date?: string
           description: string
           id?: string
+          invoice_id?: string | null
           profile_id?: string | null
           project_id?: string | null
           type: Database["public"]["Enums"]["bank_transaction_type"]
@@ -97,6 +246,7 @@ export type Database = {
           date?: string
           description?: string
           id?: string
+          invoice_id?: string | null
           profile_id?: string | null
           project_id?: string | null
           type?: Database["public"]["Enums"]["bank_transaction_type"]
@@ -117,6 +267,13 @@ export type Database = {
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bank_transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bank_transactions_profile_id_fkey"
             columns: ["profile_id"]
@@ -247,6 +404,7 @@ export type Database = {
           company: string
           created_at: string
           email: string
+          holiday_region: string | null
           id: string
           name: string
           phone: string | null
@@ -257,6 +415,7 @@ export type Database = {
           company: string
           created_at?: string
           email: string
+          holiday_region?: string | null
           id?: string
           name: string
           phone?: string | null
@@ -267,6 +426,7 @@ export type Database = {
           company?: string
           created_at?: string
           email?: string
+          holiday_region?: string | null
           id?: string
           name?: string
           phone?: string | null
@@ -311,529 +471,1769 @@ export type Database = {
         }
         Relationships: []
       }
-      notification_permissions: {
+      fatigue_rules: {
         Row: {
-          can_create_bulk_notifications: boolean
-          can_create_notifications: boolean
+          client_id: string | null
           created_at: string
+          created_by: string | null
           id: string
-          profile_id: string
+          max_consecutive_days: number
+          max_shift_hours: number
+          min_rest_hours: number
+          updated_at: string
         }
         Insert: {
-          can_create_bulk_notifications?: boolean
-          can_create_notifications?: boolean
+          client_id?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
-          profile_id: string
+          max_consecutive_days?: number
+          max_shift_hours?: number
+          min_rest_hours?: number
+          updated_at?: string
         }
         Update: {
-          can_create_bulk_notifications?: boolean
-          can_create_notifications?: boolean
+          client_id?: string | null
           created_at?: string
+          created_by?: string | null
           id?: string
-          profile_id?: string
+          max_consecutive_days?: number
+          max_shift_hours?: number
+          min_rest_hours?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "notification_permissions_profile_id_fkey"
-            columns: ["profile_id"]
+            foreignKeyName: "fatigue_rules_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "fatigue_rules_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      notifications: {
+      invoice_line_items: {
         Row: {
-          action_data: Json | null
-          action_type:
-            | Database["public"]["Enums"]["notification_action_type"]
-            | null
-          actioned_at: string | null
+          amount: number
           created_at: string
+          description: string
           id: string
-          is_actioned: boolean
-          is_read: boolean
-          message: string
-          priority: Database["public"]["Enums"]["notification_priority"] | null
-          read_at: string | null
-          recipient_profile_id: string
-          related_id: string | null
-          sender_profile_id: string | null
-          title: string
-          type: string
+          invoice_id: string
+          project_id: string | null
+          quantity: number
+          sort_order: number
+          unit_price: number
         }
         Insert: {
-          action_data?: Json | null
-          action_type?:
-            | Database["public"]["Enums"]["notification_action_type"]
-            | null
-          actioned_at?: string | null
+          amount?: number
           created_at?: string
+          description: string
           id?: string
-          is_actioned?: boolean
-          is_read?: boolean
-          message: string
-          priority?: Database["public"]["Enums"]["notification_priority"] | null
-          read_at?: string | null
-          recipient_profile_id: string
-          related_id?: string | null
-          sender_profile_id?: string | null
-          title: string
-          type: string
+          invoice_id: string
+          project_id?: string | null
+          quantity?: number
+          sort_order?: number
+          unit_price?: number
         }
         Update: {
-          action_data?: Json | null
-          action_type?:
-            | Database["public"]["Enums"]["notification_action_type"]
-            | null
-          actioned_at?: string | null
+          amount?: number
           created_at?: string
+          description?: string
           id?: string
-          is_actioned?: boolean
-          is_read?: boolean
-          message?: string
-          priority?: Database["public"]["Enums"]["notification_priority"] | null
-          read_at?: string | null
-          recipient_profile_id?: string
-          related_id?: string | null
-          sender_profile_id?: string | null
-          title?: string
-          type?: string
+          invoice_id?: string
+          project_id?: string | null
+          quantity?: number
+          sort_order?: number
+          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "notifications_recipient_profile_id_fkey"
-            columns: ["recipient_profile_id"]
+            foreignKeyName: "invoice_line_items_invoice_id_fkey"
+            columns: ["invoice_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "notifications_sender_profile_id_fkey"
-            columns: ["sender_profile_id"]
+            foreignKeyName: "invoice_line_items_project_id_fkey"
+            columns: ["project_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "projects"
             referencedColumns: ["id"]
           },
         ]
       }
-      payroll: {
+      invoice_working_hours: {
         Row: {
-          bank_account_id: string | null
           created_at: string
-          deductions: number
-          gross_pay: number
-          hourly_rate: number
           id: string
-          net_pay: number
-          pay_period_end: string
-          pay_period_start: string
-          profile_id: string
-          status: Database["public"]["Enums"]["payroll_status"] | null
-          total_hours: number
-          updated_at: string
+          invoice_id: string
+          line_item_id: string
+          working_hour_id: string
         }
         Insert: {
-          bank_account_id?: string | null
           created_at?: string
-          deductions?: number
-          gross_pay?: number
-          hourly_rate?: number
           id?: string
-          net_pay?: number
-          pay_period_end: string
-          pay_period_start: string
-          profile_id: string
-          status?: Database["public"]["Enums"]["payroll_status"] | null
-          total_hours?: number
-          updated_at?: string
+          invoice_id: string
+          line_item_id: string
+          working_hour_id: string
         }
         Update: {
-          bank_account_id?: string | null
           created_at?: string
-          deductions?: number
-          gross_pay?: number
-          hourly_rate?: number
           id?: string
-          net_pay?: number
-          pay_period_end?: string
-          pay_period_start?: string
-          profile_id?: string
-          status?: Database["public"]["Enums"]["payroll_status"] | null
-          total_hours?: number
-          updated_at?: string
+          invoice_id?: string
+          line_item_id?: string
+          working_hour_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "payroll_bank_account_id_fkey"
-            columns: ["bank_account_id"]
+            foreignKeyName: "invoice_working_hours_invoice_id_fkey"
+            columns: ["invoice_id"]
             isOneToOne: false
-            referencedRelation: "bank_accounts"
+            referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payroll_profile_id_fkey"
-            columns: ["profile_id"]
+            foreignKeyName: "invoice_working_hours_line_item_id_fkey"
+            columns: ["line_item_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "invoice_line_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_working_hours_working_hour_id_fkey"
+            columns: ["working_hour_id"]
+            isOneToOne: true
+            referencedRelation: "working_hours"
             referencedColumns: ["id"]
           },
         ]
       }
-      payroll_working_hours: {
+      invoices: {
         Row: {
+          client_id: string
           created_at: string
+          created_by: string | null
+          due_date: string
           id: string
-          payroll_id: string
-          working_hours_id: string
+          invoice_number: string
+          issue_date: string
+          notes: string | null
+          paid_at: string | null
+          paid_bank_account_id: string | null
+          period_end: string
+          period_start: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["invoice_status"]
+          subtotal: number
+          tax_amount: number
+          tax_rate: number
+          total: number
+          updated_at: string
         }
         Insert: {
+          client_id: string
           created_at?: string
+          created_by?: string | null
+          due_date: string
           id?: string
-          payroll_id: string
-          working_hours_id: string
+          invoice_number?: string
+          issue_date?: string
+          notes?: string | null
+          paid_at?: string | null
+          paid_bank_account_id?: string | null
+          period_end: string
+          period_start: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          total?: number
+          updated_at?: string
         }
         Update: {
+          client_id?: string
           created_at?: string
+          created_by?: string | null
+          due_date?: string
           id?: string
-          payroll_id?: string
-          working_hours_id?: string
+          invoice_number?: string
+          issue_date?: string
+          notes?: string | null
+          paid_at?: string | null
+          paid_bank_account_id?: string | null
+          period_end?: string
+          period_start?: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["invoice_status"]
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number
+          total?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "payroll_working_hours_payroll_id_fkey"
-            columns: ["payroll_id"]
+            foreignKeyName: "invoices_client_id_fkey"
+            columns: ["client_id"]
             isOneToOne: false
-            referencedRelation: "payroll"
+            referencedRelation: "clients"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "payroll_working_hours_working_hours_id_fkey"
-            columns: ["working_hours_id"]
-            isOneToOne: true
+            foreignKeyName: "invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_paid_bank_account_id_fkey"
+            columns: ["paid_bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kiosk_pins: {
+        Row: {
+          pin_hash: string
+          profile_id: string
+          updated_at: string
+        }
+        Insert: {
+          pin_hash: string
+          profile_id: string
+          updated_at?: string
+        }
+        Update: {
+          pin_hash?: string
+          profile_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kiosk_pins_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leave_requests: {
+        Row: {
+          created_at: string
+          end_date: string
+          id: string
+          leave_type: Database["public"]["Enums"]["leave_type"]
+          profile_id: string
+          reason: string | null
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: Database["public"]["Enums"]["leave_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          id?: string
+          leave_type?: Database["public"]["Enums"]["leave_type"]
+          profile_id: string
+          reason?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          status?: Database["public"]["Enums"]["leave_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          id?: string
+          leave_type?: Database["public"]["Enums"]["leave_type"]
+          profile_id?: string
+          reason?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          status?: Database["public"]["Enums"]["leave_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "leave_requests_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "leave_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_permissions: {
+        Row: {
+          can_create_bulk_notifications: boolean
+          can_create_notifications: boolean
+          created_at: string
+          id: string
+          profile_id: string
+        }
+        Insert: {
+          can_create_bulk_notifications?: boolean
+          can_create_notifications?: boolean
+          created_at?: string
+          id?: string
+          profile_id: string
+        }
+        Update: {
+          can_create_bulk_notifications?: boolean
+          can_create_notifications?: boolean
+          created_at?: string
+          id?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_permissions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          action_data: Json | null
+          action_type:
+            | Database["public"]["Enums"]["notification_action_type"]
+            | null
+          actioned_at: string | null
+          created_at: string
+          id: string
+          is_actioned: boolean
+          is_read: boolean
+          message: string
+          priority: Database["public"]["Enums"]["notification_priority"] | null
+          read_at: string | null
+          recipient_profile_id: string
+          related_id: string | null
+          sender_profile_id: string | null
+          title: string
+          type: string
+        }
+        Insert: {
+          action_data?: Json | null
+          action_type?:
+            | Database["public"]["Enums"]["notification_action_type"]
+            | null
+          actioned_at?: string | null
+          created_at?: string
+          id?: string
+          is_actioned?: boolean
+          is_read?: boolean
+          message: string
+          priority?: Database["public"]["Enums"]["notification_priority"] | null
+          read_at?: string | null
+          recipient_profile_id: string
+          related_id?: string | null
+          sender_profile_id?: string | null
+          title: string
+          type: string
+        }
+        Update: {
+          action_data?: Json | null
+          action_type?:
+            | Database["public"]["Enums"]["notification_action_type"]
+            | null
+          actioned_at?: string | null
+          created_at?: string
+          id?: string
+          is_actioned?: boolean
+          is_read?: boolean
+          message?: string
+          priority?: Database["public"]["Enums"]["notification_priority"] | null
+          read_at?: string | null
+          recipient_profile_id?: string
+          related_id?: string | null
+          sender_profile_id?: string | null
+          title?: string
+          type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_recipient_profile_id_fkey"
+            columns: ["recipient_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_sender_profile_id_fkey"
+            columns: ["sender_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overtime_rules: {
+        Row: {
+          client_id: string | null
+          created_at: string
+          created_by: string | null
+          daily_threshold: number | null
+          employment_type: Database["public"]["Enums"]["employment_type"] | null
+          id: string
+          is_active: boolean
+          name: string
+          public_holiday_multiplier: number | null
+          saturday_multiplier: number | null
+          sunday_multiplier: number | null
+          tier_one_hours: number
+          tier_one_multiplier: number
+          tier_two_multiplier: number
+          updated_at: string
+          weekly_threshold: number | null
+        }
+        Insert: {
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          daily_threshold?: number | null
+          employment_type?:
+            | Database["public"]["Enums"]["employment_type"]
+            | null
+          id?: string
+          is_active?: boolean
+          name: string
+          public_holiday_multiplier?: number | null
+          saturday_multiplier?: number | null
+          sunday_multiplier?: number | null
+          tier_one_hours?: number
+          tier_one_multiplier?: number
+          tier_two_multiplier?: number
+          updated_at?: string
+          weekly_threshold?: number | null
+        }
+        Update: {
+          client_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          daily_threshold?: number | null
+          employment_type?:
+            | Database["public"]["Enums"]["employment_type"]
+            | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          public_holiday_multiplier?: number | null
+          saturday_multiplier?: number | null
+          sunday_multiplier?: number | null
+          tier_one_hours?: number
+          tier_one_multiplier?: number
+          tier_two_multiplier?: number
+          updated_at?: string
+          weekly_threshold?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "overtime_rules_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overtime_rules_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll: {
+        Row: {
+          bank_account_id: string | null
+          created_at: string
+          deductions: number
+          gross_pay: number
+          hourly_rate: number
+          id: string
+          net_pay: number
+          pay_period_end: string
+          pay_period_start: string
+          profile_id: string
+          salary_template_id: string | null
+          status: Database["public"]["Enums"]["payroll_status"] | null
+          tax_scale_id: string | null
+          tax_withheld: number
+          total_hours: number
+          updated_at: string
+        }
+        Insert: {
+          bank_account_id?: string | null
+          created_at?: string
+          deductions?: number
+          gross_pay?: number
+          hourly_rate?: number
+          id?: string
+          net_pay?: number
+          pay_period_end: string
+          pay_period_start: string
+          profile_id: string
+          salary_template_id?: string | null
+          status?: Database["public"]["Enums"]["payroll_status"] | null
+          tax_scale_id?: string | null
+          tax_withheld?: number
+          total_hours?: number
+          updated_at?: string
+        }
+        Update: {
+          bank_account_id?: string | null
+          created_at?: string
+          deductions?: number
+          gross_pay?: number
+          hourly_rate?: number
+          id?: string
+          net_pay?: number
+          pay_period_end?: string
+          pay_period_start?: string
+          profile_id?: string
+          salary_template_id?: string | null
+          status?: Database["public"]["Enums"]["payroll_status"] | null
+          tax_scale_id?: string | null
+          tax_withheld?: number
+          total_hours?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_salary_template_id_fkey"
+            columns: ["salary_template_id"]
+            isOneToOne: false
+            referencedRelation: "salary_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_tax_scale_id_fkey"
+            columns: ["tax_scale_id"]
+            isOneToOne: false
+            referencedRelation: "tax_scales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_line_items: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string
+          id: string
+          is_recurring: boolean
+          payroll_id: string
+          sort_order: number
+          taxable: boolean
+          type: Database["public"]["Enums"]["payroll_line_item_type"]
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description: string
+          id?: string
+          is_recurring?: boolean
+          payroll_id: string
+          sort_order?: number
+          taxable?: boolean
+          type: Database["public"]["Enums"]["payroll_line_item_type"]
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string
+          id?: string
+          is_recurring?: boolean
+          payroll_id?: string
+          sort_order?: number
+          taxable?: boolean
+          type?: Database["public"]["Enums"]["payroll_line_item_type"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_line_items_payroll_id_fkey"
+            columns: ["payroll_id"]
+            isOneToOne: false
+            referencedRelation: "payroll"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_working_hours: {
+        Row: {
+          created_at: string
+          id: string
+          payroll_id: string
+          working_hours_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          payroll_id: string
+          working_hours_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          payroll_id?: string
+          working_hours_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_working_hours_payroll_id_fkey"
+            columns: ["payroll_id"]
+            isOneToOne: false
+            referencedRelation: "payroll"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_working_hours_working_hours_id_fkey"
+            columns: ["working_hours_id"]
+            isOneToOne: true
             referencedRelation: "working_hours"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      profile_availability: {
+        Row: {
+          created_at: string
+          end_time: string
+          id: string
+          notes: string | null
+          profile_id: string
+          start_time: string
+          updated_at: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string
+          end_time: string
+          id?: string
+          notes?: string | null
+          profile_id: string
+          start_time: string
+          updated_at?: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string
+          end_time?: string
+          id?: string
+          notes?: string | null
+          profile_id?: string
+          start_time?: string
+          updated_at?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_availability_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_unavailability: {
+        Row: {
+          created_at: string
+          end_date: string
+          end_time: string | null
+          id: string
+          profile_id: string
+          reason: string | null
+          start_date: string
+          start_time: string | null
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          end_time?: string | null
+          id?: string
+          profile_id: string
+          reason?: string | null
+          start_date: string
+          start_time?: string | null
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          end_time?: string | null
+          id?: string
+          profile_id?: string
+          reason?: string | null
+          start_date?: string
+          start_time?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_unavailability_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          email: string
+          employment_type: Database["public"]["Enums"]["employment_type"] | null
+          full_address: string | null
+          full_name: string
+          hourly_rate: number | null
+          id: string
+          is_active: boolean | null
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          salary: number | null
+          start_date: string | null
+          super_fund_abn: string | null
+          super_fund_name: string | null
+          super_fund_usi: string | null
+          super_member_number: string | null
+          tax_file_number: string | null
+          tax_free_threshold_claimed: boolean
+          updated_at: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email: string
+          employment_type?:
+            | Database["public"]["Enums"]["employment_type"]
+            | null
+          full_address?: string | null
+          full_name: string
+          hourly_rate?: number | null
+          id: string
+          is_active?: boolean | null
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          salary?: number | null
+          start_date?: string | null
+          super_fund_abn?: string | null
+          super_fund_name?: string | null
+          super_fund_usi?: string | null
+          super_member_number?: string | null
+          tax_file_number?: string | null
+          tax_free_threshold_claimed?: boolean
+          updated_at?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          email?: string
+          employment_type?:
+            | Database["public"]["Enums"]["employment_type"]
+            | null
+          full_address?: string | null
+          full_name?: string
+          hourly_rate?: number | null
+          id?: string
+          is_active?: boolean | null
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          salary?: number | null
+          start_date?: string | null
+          super_fund_abn?: string | null
+          super_fund_name?: string | null
+          super_fund_usi?: string | null
+          super_member_number?: string | null
+          tax_file_number?: string | null
+          tax_free_threshold_claimed?: boolean
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      project_budget_alerts: {
+        Row: {
+          budget: number
+          created_at: string
+          id: string
+          project_id: string
+          spent: number
+          threshold: number
+        }
+        Insert: {
+          budget: number
+          created_at?: string
+          id?: string
+          project_id: string
+          spent: number
+          threshold: number
+        }
+        Update: {
+          budget?: number
+          created_at?: string
+          id?: string
+          project_id?: string
+          spent?: number
+          threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_budget_alerts_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          budget: number | null
+          client_id: string
+          created_at: string
+          description: string | null
+          end_date: string | null
+          id: string
+          name: string
+          site_latitude: number | null
+          site_longitude: number | null
+          site_radius_meters: number
+          start_date: string
+          status: Database["public"]["Enums"]["project_status"] | null
+          updated_at: string
+        }
+        Insert: {
+          budget?: number | null
+          client_id: string
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          name: string
+          site_latitude?: number | null
+          site_longitude?: number | null
+          site_radius_meters?: number
+          start_date: string
+          status?: Database["public"]["Enums"]["project_status"] | null
+          updated_at?: string
+        }
+        Update: {
+          budget?: number | null
+          client_id?: string
+          created_at?: string
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          name?: string
+          site_latitude?: number | null
+          site_longitude?: number | null
+          site_radius_meters?: number
+          start_date?: string
+          status?: Database["public"]["Enums"]["project_status"] | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      public_holidays: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          date: string
+          id: string
+          name: string
+          region: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          date: string
+          id?: string
+          name: string
+          region?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          date?: string
+          id?: string
+          name?: string
+          region?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_holidays_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_cards: {
+        Row: {
+          bill_rate: number | null
+          client_id: string
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          effective_to: string | null
+          id: string
+          notes: string | null
+          pay_rate: number | null
+          profile_id: string | null
+          project_id: string | null
+          role: Database["public"]["Enums"]["user_role"] | null
+          updated_at: string
+        }
+        Insert: {
+          bill_rate?: number | null
+          client_id: string
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          effective_to?: string | null
+          id?: string
+          notes?: string | null
+          pay_rate?: number | null
+          profile_id?: string | null
+          project_id?: string | null
+          role?: Database["public"]["Enums"]["user_role"] | null
+          updated_at?: string
+        }
+        Update: {
+          bill_rate?: number | null
+          client_id?: string
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          effective_to?: string | null
+          id?: string
+          notes?: string | null
+          pay_rate?: number | null
+          profile_id?: string | null
+          project_id?: string | null
+          role?: Database["public"]["Enums"]["user_role"] | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_cards_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_cards_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_cards_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_cards_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
         Row: {
-          avatar_url: string | null
+          id: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Insert: {
+          id?: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["user_role"]
+        }
+        Update: {
+          id?: string
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["user_role"]
+        }
+        Relationships: []
+      }
+      roster_profiles: {
+        Row: {
+          created_at: string
+          id: string
+          profile_id: string
+          roster_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          profile_id: string
+          roster_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          profile_id?: string
+          roster_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roster_profiles_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_profiles_roster_id_fkey"
+            columns: ["roster_id"]
+            isOneToOne: false
+            referencedRelation: "rosters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roster_series: {
+        Row: {
+          break_minutes: number
+          by_weekday: number[]
+          client_id: string
+          created_at: string
+          created_by: string | null
+          duration_days: number
+          end_time: string
+          exception_dates: string[]
+          expected_profiles: number | null
+          frequency: Database["public"]["Enums"]["roster_recurrence_frequency"]
+          id: string
+          interval: number
+          name: string | null
+          notes: string | null
+          occurrence_count: number | null
+          per_hour_rate: number | null
+          profile_ids: string[]
+          project_id: string
+          start_date: string
+          start_time: string
+          until_date: string | null
+          updated_at: string
+        }
+        Insert: {
+          break_minutes?: number
+          by_weekday?: number[]
+          client_id: string
+          created_at?: string
+          created_by?: string | null
+          duration_days?: number
+          end_time: string
+          exception_dates?: string[]
+          expected_profiles?: number | null
+          frequency: Database["public"]["Enums"]["roster_recurrence_frequency"]
+          id?: string
+          interval?: number
+          name?: string | null
+          notes?: string | null
+          occurrence_count?: number | null
+          per_hour_rate?: number | null
+          profile_ids?: string[]
+          project_id: string
+          start_date: string
+          start_time: string
+          until_date?: string | null
+          updated_at?: string
+        }
+        Update: {
+          break_minutes?: number
+          by_weekday?: number[]
+          client_id?: string
+          created_at?: string
+          created_by?: string | null
+          duration_days?: number
+          end_time?: string
+          exception_dates?: string[]
+          expected_profiles?: number | null
+          frequency?: Database["public"]["Enums"]["roster_recurrence_frequency"]
+          id?: string
+          interval?: number
+          name?: string | null
+          notes?: string | null
+          occurrence_count?: number | null
+          per_hour_rate?: number | null
+          profile_ids?: string[]
+          project_id?: string
+          start_date?: string
+          start_time?: string
+          until_date?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roster_series_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_series_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_series_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roster_template_shifts: {
+        Row: {
+          break_minutes: number
+          client_id: string
+          created_at: string
+          day_offset: number
+          duration_days: number
+          end_time: string
+          expected_profiles: number | null
+          id: string
+          name: string | null
+          notes: string | null
+          per_hour_rate: number | null
+          profile_ids: string[]
+          project_id: string
+          start_time: string
+          template_id: string
+        }
+        Insert: {
+          break_minutes?: number
+          client_id: string
+          created_at?: string
+          day_offset: number
+          duration_days?: number
+          end_time: string
+          expected_profiles?: number | null
+          id?: string
+          name?: string | null
+          notes?: string | null
+          per_hour_rate?: number | null
+          profile_ids?: string[]
+          project_id: string
+          start_time: string
+          template_id: string
+        }
+        Update: {
+          break_minutes?: number
+          client_id?: string
+          created_at?: string
+          day_offset?: number
+          duration_days?: number
+          end_time?: string
+          expected_profiles?: number | null
+          id?: string
+          name?: string | null
+          notes?: string | null
+          per_hour_rate?: number | null
+          profile_ids?: string[]
+          project_id?: string
+          start_time?: string
+          template_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roster_template_shifts_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_template_shifts_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roster_template_shifts_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "roster_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roster_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roster_templates_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rosters: {
+        Row: {
+          break_minutes: number
+          client_id: string
           created_at: string | null
-          email: string
-          employment_type: Database["public"]["Enums"]["employment_type"] | null
-          full_address: string | null
-          full_name: string
-          hourly_rate: number | null
+          date: string
+          end_date: string | null
+          end_time: string
+          expected_profiles: number | null
           id: string
-          is_active: boolean | null
-          phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          salary: number | null
-          start_date: string | null
-          tax_file_number: string | null
+          is_editable: boolean | null
+          is_locked: boolean | null
+          name: string | null
+          notes: string | null
+          per_hour_rate: number | null
+          profile_id: string | null
+          project_id: string
+          series_id: string | null
+          series_occurrence_date: string | null
+          start_time: string
+          status: Database["public"]["Enums"]["roster_status"] | null
+          total_hours: number
           updated_at: string | null
         }
         Insert: {
-          avatar_url?: string | null
+          break_minutes?: number
+          client_id: string
           created_at?: string | null
-          email: string
-          employment_type?:
-            | Database["public"]["Enums"]["employment_type"]
-            | null
-          full_address?: string | null
-          full_name: string
-          hourly_rate?: number | null
-          id: string
-          is_active?: boolean | null
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          salary?: number | null
-          start_date?: string | null
-          tax_file_number?: string | null
+          date: string
+          end_date?: string | null
+          end_time: string
+          expected_profiles?: number | null
+          id?: string
+          is_editable?: boolean | null
+          is_locked?: boolean | null
+          name?: string | null
+          notes?: string | null
+          per_hour_rate?: number | null
+          profile_id?: string | null
+          project_id: string
+          series_id?: string | null
+          series_occurrence_date?: string | null
+          start_time: string
+          status?: Database["public"]["Enums"]["roster_status"] | null
+          total_hours: number
           updated_at?: string | null
         }
         Update: {
-          avatar_url?: string | null
+          break_minutes?: number
+          client_id?: string
           created_at?: string | null
-          email?: string
-          employment_type?:
-            | Database["public"]["Enums"]["employment_type"]
-            | null
-          full_address?: string | null
-          full_name?: string
-          hourly_rate?: number | null
+          date?: string
+          end_date?: string | null
+          end_time?: string
+          expected_profiles?: number | null
           id?: string
-          is_active?: boolean | null
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          salary?: number | null
-          start_date?: string | null
-          tax_file_number?: string | null
+          is_editable?: boolean | null
+          is_locked?: boolean | null
+          name?: string | null
+          notes?: string | null
+          per_hour_rate?: number | null
+          profile_id?: string | null
+          project_id?: string
+          series_id?: string | null
+          series_occurrence_date?: string | null
+          start_time?: string
+          status?: Database["public"]["Enums"]["roster_status"] | null
+          total_hours?: number
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "rosters_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rosters_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rosters_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rosters_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "roster_series"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      projects: {
+      salary_templates: {
         Row: {
-          budget: number | null
-          client_id: string
+          bank_account_id: string | null
+          base_hourly_rate: number | null
+          client_id: string | null
           created_at: string
+          deduction_percentage: number | null
           description: string | null
-          end_date: string | null
           id: string
+          is_active: boolean | null
           name: string
-          start_date: string
-          status: Database["public"]["Enums"]["project_status"] | null
+          overtime_multiplier: number | null
+          profile_id: string | null
+          project_id: string | null
           updated_at: string
         }
         Insert: {
-          budget?: number | null
-          client_id: string
+          bank_account_id?: string | null
+          base_hourly_rate?: number | null
+          client_id?: string | null
           created_at?: string
+          deduction_percentage?: number | null
           description?: string | null
-          end_date?: string | null
           id?: string
+          is_active?: boolean | null
           name: string
-          start_date: string
-          status?: Database["public"]["Enums"]["project_status"] | null
+          overtime_multiplier?: number | null
+          profile_id?: string | null
+          project_id?: string | null
           updated_at?: string
         }
         Update: {
-          budget?: number | null
-          client_id?: string
+          bank_account_id?: string | null
+          base_hourly_rate?: number | null
+          client_id?: string | null
           created_at?: string
+          deduction_percentage?: number | null
           description?: string | null
-          end_date?: string | null
           id?: string
+          is_active?: boolean | null
           name?: string
-          start_date?: string
-          status?: Database["public"]["Enums"]["project_status"] | null
+          overtime_multiplier?: number | null
+          profile_id?: string | null
+          project_id?: string | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "projects_client_id_fkey"
+            foreignKeyName: "salary_templates_bank_account_id_fkey"
+            columns: ["bank_account_id"]
+            isOneToOne: false
+            referencedRelation: "bank_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "salary_templates_client_id_fkey"
             columns: ["client_id"]
             isOneToOne: false
             referencedRelation: "clients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "salary_templates_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "salary_templates_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      role_permissions: {
+      shift_claims: {
         Row: {
+          claim_type: Database["public"]["Enums"]["shift_claim_type"]
+          created_at: string
           id: string
-          permission: Database["public"]["Enums"]["app_permission"]
-          role: Database["public"]["Enums"]["user_role"]
+          notes: string | null
+          profile_id: string
+          replaces_profile_id: string | null
+          requested_by: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          roster_id: string
+          status: Database["public"]["Enums"]["shift_claim_status"]
+          updated_at: string
         }
         Insert: {
+          claim_type?: Database["public"]["Enums"]["shift_claim_type"]
+          created_at?: string
           id?: string
-          permission: Database["public"]["Enums"]["app_permission"]
-          role: Database["public"]["Enums"]["user_role"]
+          notes?: string | null
+          profile_id: string
+          replaces_profile_id?: string | null
+          requested_by: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          roster_id: string
+          status?: Database["public"]["Enums"]["shift_claim_status"]
+          updated_at?: string
         }
         Update: {
+          claim_type?: Database["public"]["Enums"]["shift_claim_type"]
+          created_at?: string
           id?: string
-          permission?: Database["public"]["Enums"]["app_permission"]
-          role?: Database["public"]["Enums"]["user_role"]
+          notes?: string | null
+          profile_id?: string
+          replaces_profile_id?: string | null
+          requested_by?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          roster_id?: string
+          status?: Database["public"]["Enums"]["shift_claim_status"]
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "shift_claims_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_claims_replaces_profile_id_fkey"
+            columns: ["replaces_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_claims_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_claims_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shift_claims_roster_id_fkey"
+            columns: ["roster_id"]
+            isOneToOne: false
+            referencedRelation: "rosters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      super_accruals: {
+        Row: {
+          amount: number
+          bank_transaction_id: string | null
+          created_at: string
+          guarantee_percentage: number
+          id: string
+          ordinary_time_earnings: number
+          pay_period_end: string
+          payroll_id: string
+          profile_id: string
+        }
+        Insert: {
+          amount?: number
+          bank_transaction_id?: string | null
+          created_at?: string
+          guarantee_percentage: number
+          id?: string
+          ordinary_time_earnings?: number
+          pay_period_end: string
+          payroll_id: string
+          profile_id: string
+        }
+        Update: {
+          amount?: number
+          bank_transaction_id?: string | null
+          created_at?: string
+          guarantee_percentage?: number
+          id?: string
+          ordinary_time_earnings?: number
+          pay_period_end?: string
+          payroll_id?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "super_accruals_bank_transaction_id_fkey"
+            columns: ["bank_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "bank_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "super_accruals_payroll_id_fkey"
+            columns: ["payroll_id"]
+            isOneToOne: true
+            referencedRelation: "payroll"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "super_accruals_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      roster_profiles: {
+      super_guarantee_rates: {
         Row: {
           created_at: string
+          created_by: string | null
+          effective_from: string
           id: string
-          profile_id: string
-          roster_id: string
+          percentage: number
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
+          effective_from: string
           id?: string
-          profile_id: string
-          roster_id: string
+          percentage: number
         }
         Update: {
           created_at?: string
+          created_by?: string | null
+          effective_from?: string
           id?: string
-          profile_id?: string
-          roster_id?: string
+          percentage?: number
         }
         Relationships: [
           {
-            foreignKeyName: "roster_profiles_profile_id_fkey"
-            columns: ["profile_id"]
+            foreignKeyName: "super_guarantee_rates_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "roster_profiles_roster_id_fkey"
-            columns: ["roster_id"]
-            isOneToOne: false
-            referencedRelation: "rosters"
-            referencedColumns: ["id"]
-          },
         ]
       }
-      rosters: {
+      tax_scale_brackets: {
         Row: {
-          client_id: string
-          created_at: string | null
-          date: string
-          end_date: string | null
-          end_time: string
-          expected_profiles: number | null
           id: string
-          is_editable: boolean | null
-          is_locked: boolean | null
-          name: string | null
-          notes: string | null
-          per_hour_rate: number | null
-          profile_id: string
-          project_id: string
-          start_time: string
-          status: Database["public"]["Enums"]["roster_status"] | null
-          total_hours: number
-          updated_at: string | null
+          rate: number
+          tax_scale_id: string
+          threshold: number
         }
         Insert: {
-          client_id: string
-          created_at?: string | null
-          date: string
-          end_date?: string | null
-          end_time: string
-          expected_profiles?: number | null
           id?: string
-          is_editable?: boolean | null
-          is_locked?: boolean | null
-          name?: string | null
-          notes?: string | null
-          per_hour_rate?: number | null
-          profile_id: string
-          project_id: string
-          start_time: string
-          status?: Database["public"]["Enums"]["roster_status"] | null
-          total_hours: number
-          updated_at?: string | null
+          rate: number
+          tax_scale_id: string
+          threshold: number
         }
         Update: {
-          client_id?: string
-          created_at?: string | null
-          date?: string
-          end_date?: string | null
-          end_time?: string
-          expected_profiles?: number | null
           id?: string
-          is_editable?: boolean | null
-          is_locked?: boolean | null
-          name?: string | null
-          notes?: string | null
-          per_hour_rate?: number | null
-          profile_id?: string
-          project_id?: string
-          start_time?: string
-          status?: Database["public"]["Enums"]["roster_status"] | null
-          total_hours?: number
-          updated_at?: string | null
+          rate?: number
+          tax_scale_id?: string
+          threshold?: number
         }
         Relationships: [
           {
-            foreignKeyName: "rosters_client_id_fkey"
-            columns: ["client_id"]
-            isOneToOne: false
-            referencedRelation: "clients"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "rosters_profile_id_fkey"
-            columns: ["profile_id"]
-            isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "rosters_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "tax_scale_brackets_tax_scale_id_fkey"
+            columns: ["tax_scale_id"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "tax_scales"
             referencedColumns: ["id"]
           },
         ]
       }
-      salary_templates: {
+      tax_scales: {
         Row: {
-          bank_account_id: string | null
-          base_hourly_rate: number | null
-          client_id: string | null
           created_at: string
-          deduction_percentage: number | null
-          description: string | null
+          created_by: string | null
+          effective_from: string
           id: string
-          is_active: boolean | null
           name: string
-          overtime_multiplier: number | null
-          profile_id: string | null
-          project_id: string | null
+          no_tfn_rate: number
+          tax_free_threshold_claimed: boolean
           updated_at: string
         }
         Insert: {
-          bank_account_id?: string | null
-          base_hourly_rate?: number | null
-          client_id?: string | null
           created_at?: string
-          deduction_percentage?: number | null
-          description?: string | null
+          created_by?: string | null
+          effective_from: string
           id?: string
-          is_active?: boolean | null
           name: string
-          overtime_multiplier?: number | null
-          profile_id?: string | null
-          project_id?: string | null
+          no_tfn_rate?: number
+          tax_free_threshold_claimed?: boolean
           updated_at?: string
         }
         Update: {
-          bank_account_id?: string | null
-          base_hourly_rate?: number | null
-          client_id?: string | null
           created_at?: string
-          deduction_percentage?: number | null
-          description?: string | null
+          created_by?: string | null
+          effective_from?: string
           id?: string
-          is_active?: boolean | null
           name?: string
-          overtime_multiplier?: number | null
-          profile_id?: string | null
-          project_id?: string | null
+          no_tfn_rate?: number
+          tax_free_threshold_claimed?: boolean
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "salary_templates_bank_account_id_fkey"
-            columns: ["bank_account_id"]
-            isOneToOne: false
-            referencedRelation: "bank_accounts"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "salary_templates_client_id_fkey"
-            columns: ["client_id"]
+            foreignKeyName: "tax_scales_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "clients"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      timesheet_submissions: {
+        Row: {
+          created_at: string
+          entry_count: number
+          id: string
+          profile_id: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: Database["public"]["Enums"]["timesheet_submission_status"]
+          submitted_at: string
+          total_hours: number
+          updated_at: string
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          entry_count?: number
+          id?: string
+          profile_id: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["timesheet_submission_status"]
+          submitted_at?: string
+          total_hours?: number
+          updated_at?: string
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          entry_count?: number
+          id?: string
+          profile_id?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: Database["public"]["Enums"]["timesheet_submission_status"]
+          submitted_at?: string
+          total_hours?: number
+          updated_at?: string
+          week_start?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "salary_templates_profile_id_fkey"
+            foreignKeyName: "timesheet_submissions_profile_id_fkey"
             columns: ["profile_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "salary_templates_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "timesheet_submissions_reviewed_by_fkey"
+            columns: ["reviewed_by"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
@@ -841,6 +2241,12 @@ export type Database = {
       working_hours: {
         Row: {
           actual_hours: number | null
+          approval_chain_id: string | null
+          approval_step: number
+          bill_rate: number | null
+          billable_amount: number | null
+          break_minutes: number
+          breaks: Json
           client_id: string
           created_at: string
           date: string
@@ -848,20 +2254,41 @@ export type Database = {
           hourly_rate: number | null
           id: string
           notes: string | null
+          overtime_breakdown: Json | null
           overtime_hours: number | null
           payable_amount: number | null
           profile_id: string
           project_id: string
+          rejection_reason: string | null
           roster_id: string | null
+          sign_in_accuracy_meters: number | null
+          sign_in_at: string | null
+          sign_in_distance_meters: number | null
+          sign_in_latitude: number | null
+          sign_in_longitude: number | null
+          sign_in_outside_geofence: boolean
           sign_in_time: string | null
+          sign_out_accuracy_meters: number | null
+          sign_out_at: string | null
+          sign_out_distance_meters: number | null
+          sign_out_latitude: number | null
+          sign_out_longitude: number | null
+          sign_out_outside_geofence: boolean
           sign_out_time: string | null
           start_time: string
           status: Database["public"]["Enums"]["working_hours_status"]
+          timesheet_submission_id: string | null
           total_hours: number
           updated_at: string
         }
         Insert: {
           actual_hours?: number | null
+          approval_chain_id?: string | null
+          approval_step?: number
+          bill_rate?: number | null
+          billable_amount?: number | null
+          break_minutes?: number
+          breaks?: Json
           client_id: string
           created_at?: string
           date: string
@@ -869,20 +2296,41 @@ export type Database = {
           hourly_rate?: number | null
           id?: string
           notes?: string | null
+          overtime_breakdown?: Json | null
           overtime_hours?: number | null
           payable_amount?: number | null
           profile_id: string
           project_id: string
+          rejection_reason?: string | null
           roster_id?: string | null
+          sign_in_accuracy_meters?: number | null
+          sign_in_at?: string | null
+          sign_in_distance_meters?: number | null
+          sign_in_latitude?: number | null
+          sign_in_longitude?: number | null
+          sign_in_outside_geofence?: boolean
           sign_in_time?: string | null
+          sign_out_accuracy_meters?: number | null
+          sign_out_at?: string | null
+          sign_out_distance_meters?: number | null
+          sign_out_latitude?: number | null
+          sign_out_longitude?: number | null
+          sign_out_outside_geofence?: boolean
           sign_out_time?: string | null
           start_time: string
           status?: Database["public"]["Enums"]["working_hours_status"]
+          timesheet_submission_id?: string | null
           total_hours: number
           updated_at?: string
         }
         Update: {
           actual_hours?: number | null
+          approval_chain_id?: string | null
+          approval_step?: number
+          bill_rate?: number | null
+          billable_amount?: number | null
+          break_minutes?: number
+          breaks?: Json
           client_id?: string
           created_at?: string
           date?: string
@@ -890,19 +2338,41 @@ export type Database = {
           hourly_rate?: number | null
           id?: string
           notes?: string | null
+          overtime_breakdown?: Json | null
           overtime_hours?: number | null
           payable_amount?: number | null
           profile_id?: string
           project_id?: string
+          rejection_reason?: string | null
           roster_id?: string | null
+          sign_in_accuracy_meters?: number | null
+          sign_in_at?: string | null
+          sign_in_distance_meters?: number | null
+          sign_in_latitude?: number | null
+          sign_in_longitude?: number | null
+          sign_in_outside_geofence?: boolean
           sign_in_time?: string | null
+          sign_out_accuracy_meters?: number | null
+          sign_out_at?: string | null
+          sign_out_distance_meters?: number | null
+          sign_out_latitude?: number | null
+          sign_out_longitude?: number | null
+          sign_out_outside_geofence?: boolean
           sign_out_time?: string | null
           start_time?: string
           status?: Database["public"]["Enums"]["working_hours_status"]
+          timesheet_submission_id?: string | null
           total_hours?: number
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "working_hours_approval_chain_id_fkey"
+            columns: ["approval_chain_id"]
+            isOneToOne: false
+            referencedRelation: "approval_chains"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "working_hours_client_id_fkey"
             columns: ["client_id"]
@@ -931,6 +2401,61 @@ export type Database = {
             referencedRelation: "rosters"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "working_hours_timesheet_submission_id_fkey"
+            columns: ["timesheet_submission_id"]
+            isOneToOne: false
+            referencedRelation: "timesheet_submissions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      working_hours_approvals: {
+        Row: {
+          action: Database["public"]["Enums"]["working_hours_approval_action"]
+          actor_profile_id: string
+          comment: string | null
+          created_at: string
+          id: string
+          step_name: string | null
+          step_order: number | null
+          working_hour_id: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["working_hours_approval_action"]
+          actor_profile_id: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          step_name?: string | null
+          step_order?: number | null
+          working_hour_id: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["working_hours_approval_action"]
+          actor_profile_id?: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          step_name?: string | null
+          step_order?: number | null
+          working_hour_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "working_hours_approvals_actor_profile_id_fkey"
+            columns: ["actor_profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "working_hours_approvals_working_hour_id_fkey"
+            columns: ["working_hour_id"]
+            isOneToOne: false
+            referencedRelation: "working_hours"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -938,6 +2463,66 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      approve_working_hours: {
+        Args: { entry_ids: string[]; comment?: string | null }
+        Returns: {
+          approved: number
+          advanced: number
+          blocked: number
+        }[]
+      }
+      clock_in_shift: {
+        Args: {
+          target_roster_id: string
+          target_profile_id: string
+          time_zone: string
+          latitude?: number | null
+          longitude?: number | null
+          accuracy_meters?: number | null
+        }
+        Returns: {
+          working_hours_id: string
+          clocked_time: string
+          distance_meters: number | null
+          outside_geofence: boolean | null
+        }[]
+      }
+      clock_out_shift: {
+        Args: {
+          target_working_hours_id: string
+          time_zone: string
+          latitude?: number | null
+          longitude?: number | null
+          accuracy_meters?: number | null
+        }
+        Returns: {
+          working_hours_id: string
+          clocked_time: string
+          actual_hours: number
+          distance_meters: number | null
+          outside_geofence: boolean | null
+        }[]
+      }
+      create_payroll: {
+        Args: { payrolls: Json }
+        Returns: Database["public"]["Tables"]["payroll"]["Row"][]
+      }
+      create_roster_drafts: {
+        Args: { drafts: Json }
+        Returns: string[]
+      }
+      create_rosters: {
+        Args: {
+          series_fields: Json | null
+          roster_fields: Json
+          team_profile_ids: string[]
+        }
+        Returns: string[]
+      }
+      delete_roster: {
+        Args: { target_roster_id: string }
+        Returns: undefined
+      }
       get_role_permissions: {
         Args: { user_role: Database["public"]["Enums"]["user_role"] }
         Returns: {
@@ -948,6 +2533,10 @@ export type Database = {
         Args: { user_id: string }
         Returns: Database["public"]["Enums"]["user_role"]
       }
+      has_kiosk_pin: {
+        Args: { target_profile_id: string }
+        Returns: boolean
+      }
       has_permission: {
         Args: {
           user_id: string
@@ -955,6 +2544,52 @@ export type Database = {
         }
         Returns: boolean
       }
+      identify_kiosk_pin: {
+        Args: { pin: string }
+        Returns: {
+          profile_id: string
+          full_name: string
+        }[]
+      }
+      issue_kiosk_pin: {
+        Args: { target_profile_id: string }
+        Returns: string
+      }
+      recalculate_overtime: {
+        Args: { target_profile_id: string; week_date: string }
+        Returns: undefined
+      }
+      record_invoice_payment: {
+        Args: {
+          target_invoice_id: string
+          bank_account_id: string
+          payment_date: string
+          deposits: Json
+        }
+        Returns: undefined
+      }
+      reject_working_hours: {
+        Args: { entry_ids: string[]; reason: string }
+        Returns: {
+          rejected: number
+          blocked: number
+        }[]
+      }
+      replace_payroll_line_items: {
+        Args: { target_payroll_id: string; items: Json }
+        Returns: undefined
+      }
+      resubmit_working_hours: {
+        Args: { target_entry_id: string; comment?: string | null }
+        Returns: undefined
+      }
+      review_shift_claim: {
+        Args: {
+          target_claim_id: string
+          decision: Database["public"]["Enums"]["shift_claim_status"]
+        }
+        Returns: undefined
+      }
       role_has_permission: {
         Args: {
           user_role: Database["public"]["Enums"]["user_role"]
@@ -962,6 +2597,41 @@ export type Database = {
         }
         Returns: boolean
       }
+      save_timesheet_drafts: {
+        Args: {
+          inserts: Json
+          updates: Json
+          deletes: string[]
+        }
+        Returns: undefined
+      }
+      submit_timesheet_week: {
+        Args: { target_week_start: string }
+        Returns: {
+          submission_id: string
+          total_hours: number
+          entry_count: number
+        }[]
+      }
+      update_payroll: {
+        Args: {
+          target_payroll_id: string
+          changes: Json
+          items: Json
+          accrual: Json
+        }
+        Returns: undefined
+      }
+      update_rosters: {
+        Args: {
+          roster_changes: Json
+          team_profile_ids: string[]
+          target_series_id?: string | null
+          series_changes?: Json | null
+          split_fields?: Json | null
+        }
+        Returns: string | null
+      }
     }
     Enums: {
       app_permission:
@@ -985,11 +2655,21 @@ export type Database = {
         | "reports_view"
         | "reports_generate"
         | "notifications_view"
+        | "audit_log_view"
+        | "public_holidays_manage"
+        | "rate_cards_manage"
+        | "invoices_manage"
+        | "tax_scales_manage"
+        | "superannuation_manage"
+      audit_action: "insert" | "update" | "delete"
       bank_transaction_type: "deposit" | "withdrawal"
       bulk_payroll_item_status: "pending" | "processed" | "failed"
       bulk_payroll_status: "draft" | "processing" | "completed" | "failed"
       client_status: "active" | "inactive"
       employment_type: "full-time" | "part-time" | "casual"
+      invoice_status: "draft" | "sent" | "paid"
+      leave_status: "pending" | "approved" | "rejected" | "cancelled"
+      leave_type: "annual" | "sick" | "personal" | "unpaid" | "other"
       notification_action_type:
         | "approve"
         | "confirm"
@@ -998,9 +2678,22 @@ export type Database = {
         | "reject"
         | "none"
       notification_priority: "low" | "medium" | "high"
+      payroll_line_item_type:
+        | "earning"
+        | "allowance"
+        | "reimbursement"
+        | "deduction"
       payroll_status: "pending" | "approved" | "paid"
       project_status: "active" | "completed" | "on-hold"
+      roster_recurrence_frequency:
+        | "daily"
+        | "weekly"
+        | "fortnightly"
+        | "monthly"
       roster_status: "pending" | "confirmed" | "cancelled"
+      shift_claim_status: "pending" | "approved" | "rejected" | "cancelled"
+      shift_claim_type: "claim" | "swap"
+      timesheet_submission_status: "submitted" | "approved" | "rejected"
       transaction_category:
         | "income"
         | "expense"
@@ -1020,7 +2713,17 @@ export type Database = {
         | "accountant"
         | "operation"
         | "sales_manager"
-      working_hours_status: "pending" | "approved" | "rejected" | "paid"
+      working_hours_approval_action:
+        | "approved"
+        | "rejected"
+        | "resubmitted"
+        | "commented"
+      working_hours_status:
+        | "draft"
+        | "pending"
+        | "approved"
+        | "rejected"
+        | "paid"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -1157,12 +2860,22 @@ export const Constants = {
         "reports_view",
         "reports_generate",
         "notifications_view",
+        "audit_log_view",
+        "public_holidays_manage",
+        "rate_cards_manage",
+        "invoices_manage",
+        "tax_scales_manage",
+        "superannuation_manage",
       ],
+      audit_action: ["insert", "update", "delete"],
       bank_transaction_type: ["deposit", "withdrawal"],
       bulk_payroll_item_status: ["pending", "processed", "failed"],
       bulk_payroll_status: ["draft", "processing", "completed", "failed"],
       client_status: ["active", "inactive"],
       employment_type: ["full-time", "part-time", "casual"],
+      invoice_status: ["draft", "sent", "paid"],
+      leave_status: ["pending", "approved", "rejected", "cancelled"],
+      leave_type: ["annual", "sick", "personal", "unpaid", "other"],
       notification_action_type: [
         "approve",
         "confirm",
@@ -1172,9 +2885,19 @@ export const Constants = {
         "none",
       ],
       notification_priority: ["low", "medium", "high"],
+      payroll_line_item_type: [
+        "earning",
+        "allowance",
+        "reimbursement",
+        "deduction",
+      ],
       payroll_status: ["pending", "approved", "paid"],
       project_status: ["active", "completed", "on-hold"],
+      roster_recurrence_frequency: ["daily", "weekly", "fortnightly", "monthly"],
       roster_status: ["pending", "confirmed", "cancelled"],
+      shift_claim_status: ["pending", "approved", "rejected", "cancelled"],
+      shift_claim_type: ["claim", "swap"],
+      timesheet_submission_status: ["submitted", "approved", "rejected"],
       transaction_category: [
         "income",
         "expense",
@@ -1196,7 +2919,19 @@ export const Constants = {
         "operation",
         "sales_manager",
       ],
-      working_hours_status: ["pending", "approved", "rejected", "paid"],
+      working_hours_approval_action: [
+        "approved",
+        "rejected",
+        "resubmitted",
+        "commented",
+      ],
+      working_hours_status: [
+        "draft",
+        "pending",
+        "approved",
+        "rejected",
+        "paid",
+      ],
     },
   },
 } as const
@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ApprovalChain, ApprovalChainStep, UserRole, WorkingHour } from "@/types/database";
+import { checkProjectBudgetAlerts } from "@/lib/project-budgets";
+
+// Multi-level approval for working hours. An entry's approval_step is the number of
+// chain steps already approved; it stays pending until the last step approves it.
+// Entries with no chain are approved in a single step, as before chains existed.
+
+export interface ApprovalActor {
+  id: string;
+  role: UserRole;
+}
+
+export interface ApprovalResult {
+  approved: number;
+  advanced: number;
+  blocked: number;
+}
+
+type ApprovalEntry = Pick<WorkingHour,
+  'id' | 'status' | 'client_id' | 'project_id' | 'approval_chain_id' | 'approval_step'>;
+
+export const getChainSteps = (chain?: ApprovalChain | null) =>
+  [...(chain?.approval_chain_steps || [])].sort((a, b) => a.step_order - b.step_order);
+
+export const describeChainScope = (chain: ApprovalChain) =>
+  chain.projects?.name
+    ? `Project: ${chain.projects.name}`
+    : chain.clients?.company ? `Client: ${chain.clients.company}` : 'All working hours';
+
+/**
+ * The chain for an entry: the one it started on if it is part way through, otherwise the
+ * most specific active chain (project, then client, then the default with neither set).
+ */
+export const resolveApprovalChain = (chains: ApprovalChain[], entry: ApprovalEntry) => {
+  if (entry.approval_chain_id) {
+    const started = chains.find(chain => chain.id === entry.approval_chain_id);
+    if (started) return started;
+  }
+
+  const active = chains.filter(chain => chain.is_active);
+  return active.find(chain => chain.project_id && chain.project_id === entry.project_id)
+    || active.find(chain => !chain.project_id && chain.client_id && chain.client_id === entry.client_id)
+    || active.find(chain => !chain.project_id && !chain.client_id)
+    || null;
+};
+
+// The step waiting for approval, or null when the entry has no chain left to go through
+export const getCurrentStep = (chain: ApprovalChain | null, entry: ApprovalEntry) =>
+  getChainSteps(chain)[entry.approval_step || 0] || null;
+
+// Whether the actor approves the step, for showing the right actions; the database
+// makes the same check when hours are approved or rejected
+export const canApproveStep = (step: ApprovalChainStep | null, actor: ApprovalActor) => {
+  if (!step) return true;
+  if (step.approver_profile_id) return step.approver_profile_id === actor.id;
+  if (step.approver_role) return step.approver_role === actor.role;
+  return true;
+};
+
+export const describeApprover = (step: ApprovalChainStep) =>
+  step.profiles?.full_name || (step.approver_role ? step.approver_role.replace('_', ' ') : 'Any approver');
+
+// "Step 2 of 3: Operations manager" for pending entries on a chain
+export const describeApprovalProgress = (chain: ApprovalChain | null, entry: ApprovalEntry) => {
+  const steps = getChainSteps(chain);
+  const step = getCurrentStep(chain, entry);
+  if (entry.status !== 'pending' || !step) return null;
+  return `Step ${(entry.approval_step || 0) + 1} of ${steps.length}: ${step.name}`;
+};
+
+export const fetchApprovalChains = async () => {
+  const { data, error } = await supabase
+    .from('approval_chains')
+    .select(`
+      *,
+      clients!approval_chains_client_id_fkey (id, company),
+      projects!approval_chains_project_id_fkey (id, name),
+      approval_chain_steps!approval_chain_steps_chain_id_fkey (
+        *,
+        profiles!approval_chain_steps_approver_profile_id_fkey (id, full_name)
+      )
+    `)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as unknown as ApprovalChain[];
+};
+
+/**
+ * Approves the current step of each pending entry the signed-in user may approve.
+ * Entries on their last step become approved, the rest move on to the next step.
+ * Entries waiting on someone else are counted as blocked and left alone. The database
+ * checks who may approve each step and records the history with the update.
+ */
+export const approveWorkingHours = async (
+  entries: Pick<WorkingHour, 'id' | 'project_id'>[],
+  comment?: string
+): Promise<ApprovalResult> => {
+  if (entries.length === 0) return { approved: 0, advanced: 0, blocked: 0 };
+
+  const { data, error } = await supabase.rpc('approve_working_hours', {
+    entry_ids: entries.map(entry => entry.id),
+    comment: comment || null
+  });
+
+  if (error) throw error;
+  const result = data?.[0] || { approved: 0, advanced: 0, blocked: 0 };
+
+  // Approved hours count against the project budget. An alert failing must not undo the approval.
+  if (result.approved > 0) {
+    await checkProjectBudgetAlerts(entries.map(entry => entry.project_id))
+      .catch(error => console.error('Error checking budget alerts:', error));
+  }
+
+  return result;
+};
+
+// Rejects pending entries at their current step, recording why
+export const rejectWorkingHours = async (entries: Pick<WorkingHour, 'id'>[], reason: string): Promise<ApprovalResult> => {
+  if (entries.length === 0) return { approved: 0, advanced: 0, blocked: 0 };
+
+  const { data, error } = await supabase.rpc('reject_working_hours', {
+    entry_ids: entries.map(entry => entry.id),
+    reason
+  });
+
+  if (error) throw error;
+  return { approved: 0, advanced: 0, blocked: data?.[0]?.blocked || 0 };
+};
+
+// Sends a rejected entry back to the start of the approval chain
+export const resubmitWorkingHours = async (entryId: string, comment?: string) => {
+  const { error } = await supabase.rpc('resubmit_working_hours', {
+    target_entry_id: entryId,
+    comment: comment || null
+  });
+  if (error) throw error;
+};
+
+export const commentOnWorkingHours = async (entryId: string, actor: ApprovalActor, comment: string) => {
+  const { error } = await supabase.from('working_hours_approvals').insert({
+    working_hour_id: entryId,
+    action: 'commented',
+    comment,
+    actor_profile_id: actor.id
+  });
+  if (error) throw error;
+};
+
+export const describeApprovalResult = (result: ApprovalResult) => [
+  result.approved > 0 && `${result.approved} approved`,
+  result.advanced > 0 && `${result.advanced} moved to the next approval step`,
+  result.blocked > 0 && `${result.blocked} waiting on another approver`
+].filter(Boolean).join(', ') || 'Nothing was approved';
@@ -0,0 +1,40 @@
+import { WorkingHour } from "@/types/database";
+import { MINUTES_PER_DAY, timeToMinutes } from "@/lib/time";
+
+// Clock-in/out against the rostered times held on a working_hours row. start_time and
+// end_time are what was rostered; sign_in_time and sign_out_time what actually happened.
+
+// Minutes either side of a rostered time that still count as on time
+export const ATTENDANCE_GRACE_MINUTES = 5;
+
+type AttendanceTimes = Pick<WorkingHour, 'start_time' | 'end_time' | 'sign_in_time' | 'sign_out_time'>;
+
+export interface AttendanceFlags {
+  lateMinutes: number;
+  earlyMinutes: number;
+}
+
+/**
+ * Minutes from one wall-clock time to another, taking the nearest way round midnight,
+ * so 23:50 -> 00:10 is +20 and 00:10 -> 23:50 is -20.
+ */
+export const signedMinutesBetween = (from: string, to: string) => {
+  const half = MINUTES_PER_DAY / 2;
+  const diff = timeToMinutes(to) - timeToMinutes(from);
+  return ((((diff + half) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY) - half;
+};
+
+// How late the start and how early the finish were, beyond the grace period; 0 when on time
+export const getAttendanceFlags = (times: AttendanceTimes): AttendanceFlags => {
+  const late = times.sign_in_time ? signedMinutesBetween(times.start_time, times.sign_in_time) : 0;
+  const early = times.sign_out_time ? signedMinutesBetween(times.sign_out_time, times.end_time) : 0;
+  return {
+    lateMinutes: late > ATTENDANCE_GRACE_MINUTES ? late : 0,
+    earlyMinutes: early > ATTENDANCE_GRACE_MINUTES ? early : 0
+  };
+};
+
+export const formatAttendanceFlags = ({ lateMinutes, earlyMinutes }: AttendanceFlags) => [
+  lateMinutes > 0 && `Started ${lateMinutes}m late`,
+  earlyMinutes > 0 && `Finished ${earlyMinutes}m early`
+].filter(Boolean) as string[];
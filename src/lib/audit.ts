@@ -0,0 +1,112 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AuditLogEntry } from "@/types/database";
+
+// Reading the audit trail written by the audit_row_change trigger. Entries hold the whole
+// row before and after the change as JSON, so everything here works on plain records.
+
+export type AuditTable = AuditLogEntry['table_name'];
+
+export const AUDIT_TABLE_LABELS: Record<AuditTable, string> = {
+  working_hours: 'Working hours',
+  rosters: 'Roster',
+  roster_profiles: 'Roster staff',
+  payroll: 'Payroll',
+  bank_transactions: 'Bank transaction'
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditLogEntry['action'], string> = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted'
+};
+
+// Bookkeeping columns that change with every save and say nothing about the edit
+const HIDDEN_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+// Columns holding a profile id, shown as the person's name
+const PROFILE_FIELDS = new Set(['profile_id', 'replaces_profile_id', 'reviewed_by', 'created_by', 'requested_by', 'approver_profile_id']);
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type ProfileNames = Record<string, string>;
+
+export const formatFieldName = (field: string) =>
+  field.replace(/_/g, ' ').replace(/^./, c => c.toUpperCase());
+
+export const formatAuditValue = (field: string, value: unknown, names: ProfileNames = {}) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && PROFILE_FIELDS.has(field)) return names[value] || value;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * The fields an entry touched. Updates list only the changed fields; inserts and deletes
+ * list every field that had a value, so a deleted row can still be read in full.
+ */
+export const getAuditChanges = (entry: AuditLogEntry): AuditChange[] => {
+  const before = entry.old_data || {};
+  const after = entry.new_data || {};
+
+  const fields = entry.action === 'update'
+    ? entry.changed_fields || []
+    : Object.keys(entry.action === 'insert' ? after : before)
+        .filter(field => (entry.action === 'insert' ? after : before)[field] != null);
+
+  return fields
+    .filter(field => !HIDDEN_FIELDS.has(field))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+};
+
+// One-line summary, calling out status transitions since those matter most
+export const describeAuditEntry = (entry: AuditLogEntry) => {
+  if (entry.action !== 'update') {
+    return `${AUDIT_ACTION_LABELS[entry.action]} ${AUDIT_TABLE_LABELS[entry.table_name].toLowerCase()}`;
+  }
+
+  const changes = getAuditChanges(entry);
+  const status = changes.find(change => change.field === 'status');
+  if (status) {
+    const others = changes.length - 1;
+    return `Status ${status.before} → ${status.after}${others > 0 ? ` and ${others} other change${others === 1 ? '' : 's'}` : ''}`;
+  }
+  return `Changed ${changes.map(change => formatFieldName(change.field).toLowerCase()).join(', ')}`;
+};
+
+export const AUDIT_SELECT = `
+  *,
+  profiles!audit_log_actor_id_fkey (id, full_name)
+`;
+
+/**
+ * History of one record, newest first. includeRelated also returns changes to child rows,
+ * such as staff being added to or removed from a roster.
+ */
+export const fetchRecordHistory = async (tableName: AuditTable, recordId: string, includeRelated = false) => {
+  let query = supabase
+    .from('audit_log')
+    .select(AUDIT_SELECT)
+    .order('created_at', { ascending: false });
+
+  query = includeRelated
+    ? query.or(`and(table_name.eq.${tableName},record_id.eq.${recordId}),related_id.eq.${recordId}`)
+    : query.eq('table_name', tableName).eq('record_id', recordId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as AuditLogEntry[];
+};
+
+export const fetchProfileNames = async (): Promise<ProfileNames> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, full_name');
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(profile => [profile.id, profile.full_name || 'Unknown']));
+};
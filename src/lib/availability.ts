@@ -0,0 +1,140 @@
+import { format, parseISO } from "date-fns";
+import { LeaveRequest, LeaveType, ProfileAvailability, ProfileUnavailability } from "@/types/database";
+import { ShiftWindow, shiftsOverlap } from "@/lib/roster-conflicts";
+import { WEEKDAY_LABELS } from "@/lib/roster-recurrence";
+import { getShiftMinutes, shiftDateString, timeToMinutes } from "@/lib/time";
+
+export interface AvailabilitySchedule {
+  availability: ProfileAvailability[];
+  unavailability: ProfileUnavailability[];
+  leaveRequests: LeaveRequest[];
+}
+
+export interface AvailabilityIssue {
+  profile_id: string;
+  kind: 'leave' | 'pending_leave' | 'unavailable' | 'outside_availability';
+  key: string;
+  label: string;
+  date: string;
+}
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  annual: 'Annual Leave',
+  sick: 'Sick Leave',
+  personal: 'Personal Leave',
+  unpaid: 'Unpaid Leave',
+  other: 'Other Leave'
+};
+
+export const createEmptyAvailabilitySchedule = (): AvailabilitySchedule => ({
+  availability: [],
+  unavailability: [],
+  leaveRequests: []
+});
+
+// Pending leave is only a warning; everything else means the person should not be rostered
+export const isBlockingIssue = (issue: AvailabilityIssue) => issue.kind !== 'pending_leave';
+
+// Minutes from midnight of the start day, so overnight windows run past 1440
+const windowMinutes = (start: string, end: string) => {
+  const startMinutes = timeToMinutes(start);
+  return { start: startMinutes, end: startMinutes + getShiftMinutes(start, end) };
+};
+
+const shiftDays = (shift: ShiftWindow) => {
+  const days: string[] = [];
+  const last = shift.end_date && shift.end_date > shift.date ? shift.end_date : shift.date;
+  for (let day = shift.date; day <= last; day = shiftDateString(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+/**
+ * Works out which of the given profiles cannot (or may not) work the candidate shifts:
+ * approved leave and one-off unavailability block, pending leave warns, and a shift that
+ * falls outside someone's recurring weekly availability is flagged. Profiles with no
+ * weekly availability recorded are assumed to be available at any time.
+ */
+export const findProfileUnavailability = (
+  shifts: ShiftWindow[],
+  profileIds: string[],
+  schedule: AvailabilitySchedule
+): Record<string, AvailabilityIssue[]> => {
+  const issues: Record<string, AvailabilityIssue[]> = {};
+  const wanted = new Set(profileIds);
+
+  const add = (issue: AvailabilityIssue) => {
+    const existing = issues[issue.profile_id] || [];
+    if (existing.some(i => i.key === issue.key)) return;
+    issues[issue.profile_id] = [...existing, issue];
+  };
+
+  const validShifts = shifts.filter(s => s.date && s.start_time && s.end_time);
+
+  validShifts.forEach(shift => {
+    const shiftWindow = windowMinutes(shift.start_time, shift.end_time);
+
+    shiftDays(shift).forEach(day => {
+      schedule.leaveRequests.forEach(leave => {
+        if (!wanted.has(leave.profile_id)) return;
+        if (leave.status !== 'approved' && leave.status !== 'pending') return;
+        if (day < leave.start_date || day > leave.end_date) return;
+
+        const approved = leave.status === 'approved';
+        add({
+          profile_id: leave.profile_id,
+          kind: approved ? 'leave' : 'pending_leave',
+          key: `leave-${leave.id}`,
+          label: `${LEAVE_TYPE_LABELS[leave.leave_type] || 'Leave'}${approved ? '' : ' (pending)'}`,
+          date: day
+        });
+      });
+
+      schedule.unavailability.forEach(block => {
+        if (!wanted.has(block.profile_id)) return;
+        if (day < block.start_date || day > block.end_date) return;
+
+        if (block.start_time && block.end_time) {
+          const blockWindow = { date: day, start_time: block.start_time, end_time: block.end_time };
+          if (!shiftsOverlap({ ...shift, date: day, end_date: null }, blockWindow)) return;
+        }
+
+        add({
+          profile_id: block.profile_id,
+          kind: 'unavailable',
+          key: `unavailable-${block.id}`,
+          label: block.reason ? `Unavailable - ${block.reason}` : 'Unavailable',
+          date: day
+        });
+      });
+
+      const weekday = parseISO(day).getDay();
+      profileIds.forEach(profileId => {
+        const windows = schedule.availability.filter(a => a.profile_id === profileId);
+        if (windows.length === 0) return;
+
+        const fits = windows.some(a => {
+          if (a.weekday !== weekday) return false;
+          const available = windowMinutes(a.start_time, a.end_time);
+          return available.start <= shiftWindow.start && shiftWindow.end <= available.end;
+        });
+
+        if (!fits) {
+          add({
+            profile_id: profileId,
+            kind: 'outside_availability',
+            key: `availability-${weekday}`,
+            label: `Not available ${WEEKDAY_LABELS[weekday]} ${shift.start_time.slice(0, 5)}-${shift.end_time.slice(0, 5)}`,
+            date: day
+          });
+        }
+      });
+    });
+  });
+
+  return issues;
+};
+
+export const formatAvailabilityIssue = (issue: AvailabilityIssue) =>
+  `${issue.label} (${format(parseISO(issue.date), 'MMM dd')})`;
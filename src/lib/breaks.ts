@@ -0,0 +1,49 @@
+import { ShiftBreak } from "@/types/database";
+import { getShiftMinutes, formatTimeRange, timeToMinutes } from "@/lib/time";
+
+// Break periods within a shift. Unpaid breaks come off the paid hours; break_minutes on
+// an entry is kept as their total so existing pay calculations still apply.
+
+export const emptyBreak = (): ShiftBreak => ({ start_time: '', end_time: '', paid: false });
+
+export const getUnpaidBreakMinutes = (breaks: ShiftBreak[] = []) =>
+  breaks
+    .filter(b => !b.paid && b.start_time && b.end_time)
+    .reduce((sum, b) => sum + getShiftMinutes(b.start_time, b.end_time), 0);
+
+export const formatBreak = (b: ShiftBreak) =>
+  `${formatTimeRange(b.start_time, b.end_time)} ${b.paid ? 'paid' : 'unpaid'} (${getShiftMinutes(b.start_time, b.end_time)}m)`;
+
+// Minutes from the shift start, so breaks after midnight on an overnight shift sort last
+const offsetFromStart = (shiftStart: string, time: string) => getShiftMinutes(shiftStart, time);
+
+/**
+ * Problems with the breaks entered for a shift: missing times, breaks that start or end
+ * outside the shift, and breaks that overlap each other.
+ */
+export const findBreakErrors = (breaks: ShiftBreak[], startTime: string, endTime: string) => {
+  const errors: string[] = [];
+  if (breaks.some(b => !b.start_time || !b.end_time)) errors.push('Every break needs a start and end time');
+  if (!startTime || !endTime) return errors;
+
+  const shiftLength = getShiftMinutes(startTime, endTime);
+  const windows = breaks
+    .filter(b => b.start_time && b.end_time)
+    .map(b => {
+      const start = offsetFromStart(startTime, b.start_time);
+      return { b, start, end: start + getShiftMinutes(b.start_time, b.end_time) };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  windows.forEach(({ b, start, end }, index) => {
+    if (timeToMinutes(b.start_time) === timeToMinutes(b.end_time)) {
+      errors.push(`Break ${formatTimeRange(b.start_time, b.end_time)} has no length`);
+    } else if (end > shiftLength) {
+      errors.push(`Break ${formatTimeRange(b.start_time, b.end_time)} is outside the shift`);
+    } else if (index > 0 && start < windows[index - 1].end) {
+      errors.push(`Break ${formatTimeRange(b.start_time, b.end_time)} overlaps another break`);
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,275 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { FatigueRule, Roster, WorkingHour } from "@/types/database";
+import { ShiftWindow, workingHourWindow } from "@/lib/roster-conflicts";
+import { getShiftInterval, shiftDateString } from "@/lib/time";
+
+// Fatigue checks on a person's shifts: none longer than the maximum shift, enough rest
+// between one shift and the next, and no more than a set number of days in a row.
+// They only warn; nothing stops a roster or timesheet being saved.
+
+export type FatigueLimits = Pick<FatigueRule, 'max_shift_hours' | 'min_rest_hours' | 'max_consecutive_days'>;
+
+// Used when no fatigue rule has been saved
+export const DEFAULT_FATIGUE_LIMITS: FatigueLimits = {
+  max_shift_hours: 12,
+  min_rest_hours: 10,
+  max_consecutive_days: 6
+};
+
+export interface FatigueShift extends ShiftWindow {
+  id: string;
+  profile_id: string;
+  client_id?: string | null;
+}
+
+export interface FatigueIssue {
+  profile_id: string;
+  kind: 'shift_length' | 'rest_gap' | 'consecutive_days';
+  key: string;
+  label: string;
+  date: string;
+}
+
+interface WorkedPeriod {
+  shift: FatigueShift;
+  date: string;
+  start: number;
+  end: number;
+  limits: FatigueLimits;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
+const formatDay = (date: string) => format(parseISO(date), 'MMM dd');
+
+// A client's own rule, else the default rule, else the built-in limits
+export const resolveFatigueLimits = (rules: FatigueRule[], clientId?: string | null): FatigueLimits =>
+  rules.find(rule => clientId && rule.client_id === clientId)
+  || rules.find(rule => !rule.client_id)
+  || DEFAULT_FATIGUE_LIMITS;
+
+// Days either side of the shifts being checked that must be loaded to find every run of days
+export const getFatigueLookaround = (rules: FatigueRule[]) =>
+  Math.max(DEFAULT_FATIGUE_LIMITS.max_consecutive_days, ...rules.map(rule => rule.max_consecutive_days));
+
+// One period per day a shift runs; multi-day rosters repeat their daily window
+const getWorkedPeriods = (shift: FatigueShift, limits: FatigueLimits): WorkedPeriod[] => {
+  if (!shift.date || !shift.start_time || !shift.end_time) return [];
+
+  const lastDay = shift.end_date && shift.end_date > shift.date ? shift.end_date : shift.date;
+  const periods: WorkedPeriod[] = [];
+  for (let day = shift.date; day <= lastDay; day = shiftDateString(day, 1)) {
+    const { start, end } = getShiftInterval(day, shift.start_time, shift.end_time);
+    periods.push({ shift, date: day, start: start.getTime(), end: end.getTime(), limits });
+  }
+  return periods;
+};
+
+/**
+ * Checks every profile's shifts against the fatigue limits for each shift's client and
+ * returns the issues found, keyed by shift id. A short rest is reported on both shifts
+ * either side of it, and a long run of days on every shift in the run. Overlapping
+ * shifts are left to the roster conflict checks.
+ */
+export const checkFatigue = (shifts: FatigueShift[], rules: FatigueRule[]): Record<string, FatigueIssue[]> => {
+  const issues: Record<string, FatigueIssue[]> = {};
+
+  const add = (shiftId: string, issue: FatigueIssue) => {
+    const existing = issues[shiftId] || [];
+    if (existing.some(i => i.key === issue.key)) return;
+    issues[shiftId] = [...existing, issue];
+  };
+
+  const byProfile = shifts.reduce<Record<string, FatigueShift[]>>((groups, shift) => {
+    (groups[shift.profile_id] = groups[shift.profile_id] || []).push(shift);
+    return groups;
+  }, {});
+
+  Object.entries(byProfile).forEach(([profileId, profileShifts]) => {
+    const periods = profileShifts
+      .flatMap(shift => getWorkedPeriods(shift, resolveFatigueLimits(rules, shift.client_id)))
+      .sort((a, b) => a.start - b.start);
+
+    periods.forEach(period => {
+      const hours = (period.end - period.start) / HOUR_MS;
+      if (hours > period.limits.max_shift_hours) {
+        add(period.shift.id, {
+          profile_id: profileId,
+          kind: 'shift_length',
+          key: `shift_length|${period.date}`,
+          label: `${formatHours(hours)} shift on ${formatDay(period.date)} (max ${formatHours(period.limits.max_shift_hours)})`,
+          date: period.date
+        });
+      }
+    });
+
+    // Rest runs from the latest finish so far to the next start
+    let previous: WorkedPeriod | null = null;
+    periods.forEach(period => {
+      if (previous && period.start >= previous.end) {
+        const rest = (period.start - previous.end) / HOUR_MS;
+        const minimum = period.limits.min_rest_hours;
+        if (rest < minimum) {
+          const issue: FatigueIssue = {
+            profile_id: profileId,
+            kind: 'rest_gap',
+            key: `rest_gap|${previous.start}|${period.start}`,
+            label: `Only ${formatHours(rest)} rest between ${formatDay(previous.date)} and ${formatDay(period.date)} shifts (min ${formatHours(minimum)})`,
+            date: period.date
+          };
+          add(previous.shift.id, issue);
+          add(period.shift.id, issue);
+        }
+      }
+      if (!previous || period.end > previous.end) previous = period;
+    });
+
+    const days = [...new Set(periods.map(period => period.date))].sort();
+    let runStart = 0;
+    days.forEach((day, index) => {
+      const runEnds = index === days.length - 1 || days[index + 1] !== shiftDateString(day, 1);
+      if (!runEnds) return;
+
+      const run = days.slice(runStart, index + 1);
+      periods
+        .filter(period => run.includes(period.date) && run.length > period.limits.max_consecutive_days)
+        .forEach(period => add(period.shift.id, {
+          profile_id: profileId,
+          kind: 'consecutive_days',
+          key: `consecutive_days|${run[0]}`,
+          label: `${run.length} days in a row from ${formatDay(run[0])} (max ${period.limits.max_consecutive_days})`,
+          date: run[0]
+        }));
+      runStart = index + 1;
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Fatigue issues the candidate shifts (e.g. a roster being created) would cause for each
+ * of the given profiles, alongside what they are already rostered or have logged.
+ */
+export const findProfileFatigueIssues = (
+  candidates: (ShiftWindow & { client_id?: string | null })[],
+  profileIds: string[],
+  schedule: FatigueShift[],
+  rules: FatigueRule[]
+): Record<string, FatigueIssue[]> => {
+  const validCandidates = candidates.filter(c => c.date && c.start_time && c.end_time);
+  if (validCandidates.length === 0) return {};
+
+  const result: Record<string, FatigueIssue[]> = {};
+  profileIds.forEach(profileId => {
+    const candidateShifts = validCandidates.map((candidate, index) => ({
+      ...candidate,
+      id: `candidate-${index}`,
+      profile_id: profileId
+    }));
+    const issues = checkFatigue(
+      [...schedule.filter(shift => shift.profile_id === profileId), ...candidateShifts],
+      rules
+    );
+
+    const found = candidateShifts
+      .flatMap(shift => issues[shift.id] || [])
+      .filter((issue, index, all) => all.findIndex(i => i.key === issue.key) === index);
+    if (found.length > 0) result[profileId] = found;
+  });
+
+  return result;
+};
+
+export const fetchFatigueRules = async () => {
+  const { data, error } = await supabase
+    .from('fatigue_rules')
+    .select('*');
+
+  if (error) throw error;
+  return (data || []) as FatigueRule[];
+};
+
+/**
+ * Logged hours, and optionally rosters, between two dates as shifts to check. Logged hours
+ * use the times actually worked, and a roster someone has logged hours against is left
+ * out for them so the shift is not counted twice. Pass null to load every profile.
+ */
+export const fetchFatigueSchedule = async (
+  profileIds: string[] | null,
+  rangeStart: string,
+  rangeEnd: string,
+  includeRosters = false
+): Promise<FatigueShift[]> => {
+  let workingHoursQuery = supabase
+    .from('working_hours')
+    .select('id, profile_id, client_id, roster_id, date, start_time, end_time, sign_in_time, sign_out_time, status')
+    .neq('status', 'rejected')
+    .gte('date', rangeStart)
+    .lte('date', rangeEnd);
+  if (profileIds) workingHoursQuery = workingHoursQuery.in('profile_id', profileIds);
+
+  const { data: workingHoursData, error: workingHoursError } = await workingHoursQuery;
+  if (workingHoursError) throw workingHoursError;
+
+  const workingHours = (workingHoursData || []) as WorkingHour[];
+  const shifts: FatigueShift[] = workingHours.map(workingHour => ({
+    ...workingHourWindow(workingHour),
+    id: workingHour.id,
+    profile_id: workingHour.profile_id,
+    client_id: workingHour.client_id
+  }));
+
+  if (!includeRosters) return shifts;
+
+  const { data: rosterData, error: rosterError } = await supabase
+    .from('rosters')
+    .select(`
+      id, client_id, date, end_date, start_time, end_time, status,
+      roster_profiles!roster_profiles_roster_id_fkey (id, profile_id)
+    `)
+    .neq('status', 'cancelled')
+    .lte('date', rangeEnd)
+    .or(`end_date.gte.${rangeStart},and(end_date.is.null,date.gte.${rangeStart})`);
+  if (rosterError) throw rosterError;
+
+  const logged = new Set(workingHours.filter(wh => wh.roster_id).map(wh => `${wh.roster_id}|${wh.profile_id}`));
+  const wanted = profileIds ? new Set(profileIds) : null;
+
+  ((rosterData || []) as unknown as Roster[]).forEach(roster => {
+    roster.roster_profiles?.forEach(rp => {
+      if (wanted && !wanted.has(rp.profile_id)) return;
+      if (logged.has(`${roster.id}|${rp.profile_id}`)) return;
+      shifts.push({
+        id: roster.id,
+        profile_id: rp.profile_id,
+        client_id: roster.client_id,
+        date: roster.date,
+        end_date: roster.end_date,
+        start_time: roster.start_time,
+        end_time: roster.end_time
+      });
+    });
+  });
+
+  return shifts;
+};
+
+// Fatigue issues for logged hours, keyed by entry id, checked against everything else the
+// same people logged in the days around them
+export const fetchWorkingHourFatigueIssues = async (entries: Pick<WorkingHour, 'profile_id' | 'date'>[]) => {
+  if (entries.length === 0) return {};
+
+  const rules = await fetchFatigueRules();
+  const lookaround = getFatigueLookaround(rules);
+  const dates = entries.map(entry => entry.date).sort();
+  const schedule = await fetchFatigueSchedule(
+    [...new Set(entries.map(entry => entry.profile_id))],
+    shiftDateString(dates[0], -lookaround),
+    shiftDateString(dates[dates.length - 1], lookaround)
+  );
+  return checkFatigue(schedule, rules);
+};
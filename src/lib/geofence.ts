@@ -0,0 +1,53 @@
+import { Project, WorkingHour } from "@/types/database";
+
+// Site geofences for clocking in and out. Positions come from the browser Geolocation
+// API, whose accuracy is a radius in metres around the reported point. The server works
+// out the distance from the site when clocking (see clock_in_shift): a reading only
+// counts as outside when even the near edge of its accuracy circle is beyond the radius.
+
+export interface CapturedPosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+export const hasSiteLocation = (project?: Pick<Project, 'site_latitude' | 'site_longitude'> | null) =>
+  project?.site_latitude != null && project?.site_longitude != null;
+
+// Arguments for the clocking functions; without a position no location is recorded
+export const positionParams = (position: CapturedPosition | null) => ({
+  latitude: position?.latitude ?? null,
+  longitude: position?.longitude ?? null,
+  accuracy_meters: position?.accuracy ?? null
+});
+
+const formatDistance = (meters?: number | null) =>
+  meters == null ? '' : meters >= 1000 ? ` (${(meters / 1000).toFixed(1)}km from site)` : ` (${Math.round(meters)}m from site)`;
+
+export const formatGeofenceFlag = (event: 'sign_in' | 'sign_out', distance?: number | null) =>
+  `Clocked ${event === 'sign_in' ? 'in' : 'out'} outside the site${formatDistance(distance)}`;
+
+type GeofenceFlagFields = Pick<WorkingHour,
+  'sign_in_outside_geofence' | 'sign_in_distance_meters' | 'sign_out_outside_geofence' | 'sign_out_distance_meters'>;
+
+export const getGeofenceFlags = (workingHour: GeofenceFlagFields) => [
+  workingHour.sign_in_outside_geofence && formatGeofenceFlag('sign_in', workingHour.sign_in_distance_meters),
+  workingHour.sign_out_outside_geofence && formatGeofenceFlag('sign_out', workingHour.sign_out_distance_meters)
+].filter(Boolean) as string[];
+
+/**
+ * The device's current position, or null when location is unavailable or refused.
+ * Clocking still goes ahead without one; the entry simply has no location recorded.
+ */
+export const getCurrentPosition = (timeoutMs = 10000): Promise<CapturedPosition | null> =>
+  new Promise(resolve => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => resolve({ latitude: coords.latitude, longitude: coords.longitude, accuracy: coords.accuracy }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 30000 }
+    );
+  });
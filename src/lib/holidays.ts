@@ -0,0 +1,105 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PublicHoliday } from "@/types/database";
+import { daysBetween, shiftDateString } from "@/lib/time";
+
+// Public holiday calendars. Holidays without a region apply to every client; regional
+// ones only to clients with a matching holiday_region.
+
+export interface ImportedHoliday {
+  date: string;
+  name: string;
+}
+
+// The holiday, if any, on a date for the given client's region
+export type HolidayLookup = (date: string, clientId?: string | null) => PublicHoliday | undefined;
+
+export const noHolidays: HolidayLookup = () => undefined;
+
+const unescapeIcsText = (text: string) =>
+  text.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+// "20261225" or "20261225T000000Z" as a calendar date
+const icsDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Holidays from an iCalendar (.ics) file, one per day. All-day events spanning several
+ * days are split into each day; recurrence rules are not expanded, so calendars should
+ * list each year's dates, as government holiday feeds do.
+ */
+export const parseIcsHolidays = (ics: string): ImportedHoliday[] => {
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays = new Map<string, ImportedHoliday>();
+  let event: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      return;
+    }
+    if (line === 'END:VEVENT') {
+      const start = event?.DTSTART ? icsDate(event.DTSTART) : null;
+      const end = event?.DTEND ? icsDate(event.DTEND) : null;
+      const name = event?.SUMMARY ? unescapeIcsText(event.SUMMARY) : '';
+      if (start && name) {
+        // All-day DTEND is exclusive; a missing or same-day end is a single day
+        const days = end ? Math.max(1, daysBetween(start, end)) : 1;
+        for (let i = 0; i < days; i++) {
+          const date = shiftDateString(start, i);
+          holidays.set(`${date}|${name}`, { date, name });
+        }
+      }
+      event = null;
+      return;
+    }
+    if (!event) return;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    // Drop parameters such as DTSTART;VALUE=DATE
+    const key = line.slice(0, separator).split(';')[0].toUpperCase();
+    event[key] = line.slice(separator + 1);
+  });
+
+  return [...holidays.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const describeHolidayRegion = (region?: string | null) => region || 'All regions';
+
+export const createHolidayLookup = (
+  holidays: PublicHoliday[],
+  clientRegions: Record<string, string | null>
+): HolidayLookup => (date, clientId) => {
+  const region = clientId ? clientRegions[clientId] : null;
+  return holidays.find(holiday => holiday.date === date && (!holiday.region || holiday.region === region));
+};
+
+// Holidays in a date range grouped by date, for calendars that show every region
+export const groupHolidaysByDate = (holidays: PublicHoliday[]) =>
+  holidays.reduce<Record<string, PublicHoliday[]>>((groups, holiday) => {
+    (groups[holiday.date] = groups[holiday.date] || []).push(holiday);
+    return groups;
+  }, {});
+
+export const fetchPublicHolidays = async (startDate: string, endDate: string) => {
+  const { data, error } = await supabase
+    .from('public_holidays')
+    .select('*')
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('date');
+
+  if (error) throw error;
+  return (data || []) as PublicHoliday[];
+};
+
+export const fetchClientRegions = async () => {
+  const { data, error } = await supabase
+    .from('clients')
+    .select('id, holiday_region');
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(client => [client.id, client.holiday_region]));
+};
@@ -0,0 +1,142 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Invoice, InvoiceLineItem, Project, WorkingHour } from "@/types/database";
+import { getWorkedHours } from "@/lib/overtime";
+import { fetchBillRates } from "@/lib/rate-cards";
+
+// Client invoices from approved hours. Hours are grouped into one line per project and
+// bill rate; other charges are added as manual lines. Tax is a percentage of the subtotal.
+
+export const DEFAULT_TAX_RATE = 10;
+export const DEFAULT_PAYMENT_TERMS_DAYS = 14;
+
+// Hours that can be billed: approved, including those already paid to staff
+const BILLABLE_STATUSES: WorkingHour['status'][] = ['approved', 'paid'];
+
+export type BillableEntry = Pick<WorkingHour, 'id' | 'profile_id' | 'client_id' | 'project_id' | 'date' | 'total_hours' | 'actual_hours' | 'bill_rate'> & {
+  projects?: Pick<Project, 'name'>;
+};
+
+// A line item before it is saved. Lines billing hours carry their working hour ids.
+export interface InvoiceLineDraft {
+  id?: string;
+  project_id: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  working_hour_ids: string[];
+}
+
+export const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+export const getLineAmount = (line: Pick<InvoiceLineDraft, 'quantity' | 'unit_price'>) =>
+  roundCurrency((line.quantity || 0) * (line.unit_price || 0));
+
+export const emptyLine = (): InvoiceLineDraft => ({
+  project_id: null,
+  description: "",
+  quantity: 1,
+  unit_price: 0,
+  working_hour_ids: []
+});
+
+/**
+ * One line per project and bill rate. Entries without a bill rate are returned as
+ * unpriced and left off the invoice, so they can be billed once a rate card covers them.
+ */
+export const buildInvoiceLines = (entries: BillableEntry[], billRates: Map<string, number | null>) => {
+  const groups = new Map<string, { project_id: string; name: string; rate: number; hours: number; ids: string[] }>();
+  const unpriced: BillableEntry[] = [];
+
+  entries.forEach(entry => {
+    const rate = billRates.get(entry.id) ?? entry.bill_rate ?? null;
+    if (rate == null) {
+      unpriced.push(entry);
+      return;
+    }
+    const key = `${entry.project_id}|${rate}`;
+    const group = groups.get(key)
+      || { project_id: entry.project_id, name: entry.projects?.name || 'Project', rate: Number(rate), hours: 0, ids: [] };
+    group.hours += getWorkedHours(entry);
+    group.ids.push(entry.id);
+    groups.set(key, group);
+  });
+
+  const sorted = [...groups.values()].sort((a, b) => a.name.localeCompare(b.name) || b.rate - a.rate);
+  const lines: InvoiceLineDraft[] = sorted.map(group => {
+    const projectHasSeveralRates = sorted.filter(g => g.project_id === group.project_id).length > 1;
+    return {
+      project_id: group.project_id,
+      description: projectHasSeveralRates ? `${group.name} – labour at $${group.rate.toFixed(2)}/hr` : `${group.name} – labour`,
+      quantity: roundCurrency(group.hours),
+      unit_price: group.rate,
+      working_hour_ids: group.ids
+    };
+  });
+
+  return { lines, unpriced };
+};
+
+export const calculateInvoiceTotals = (lines: Pick<InvoiceLineDraft, 'quantity' | 'unit_price'>[], taxRate: number) => {
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + getLineAmount(line), 0));
+  const tax_amount = roundCurrency(subtotal * (taxRate || 0) / 100);
+  return { subtotal, tax_amount, total: roundCurrency(subtotal + tax_amount) };
+};
+
+/**
+ * Splits the invoice total between its projects, tax included, for the payment deposits.
+ * Lines without a project share one split. Rounding is settled on the last split so the
+ * splits add up to the total.
+ */
+export const splitInvoiceByProject = (lines: Pick<InvoiceLineItem, 'project_id' | 'amount'>[], total: number) => {
+  const subtotals = new Map<string | null, number>();
+  lines.forEach(line => {
+    const key = line.project_id || null;
+    subtotals.set(key, (subtotals.get(key) || 0) + Number(line.amount));
+  });
+
+  const subtotal = [...subtotals.values()].reduce((sum, amount) => sum + amount, 0);
+  const entries = [...subtotals.entries()].filter(([, amount]) => amount !== 0);
+  if (entries.length === 0 || subtotal === 0) return [{ project_id: null, amount: roundCurrency(total) }];
+
+  let allocated = 0;
+  return entries.map(([project_id, amount], index) => {
+    const share = index === entries.length - 1
+      ? roundCurrency(total - allocated)
+      : roundCurrency(total * amount / subtotal);
+    allocated += share;
+    return { project_id, amount: share };
+  });
+};
+
+export const isInvoiceOverdue = (invoice: Pick<Invoice, 'status' | 'due_date'>, today: string) =>
+  invoice.status === 'sent' && invoice.due_date < today;
+
+/**
+ * The client's approved hours in the period not yet on an invoice, with the bill rate
+ * each was saved with or the rate card in effect on its date.
+ */
+export const fetchUninvoicedHours = async (clientId: string, periodStart: string, periodEnd: string) => {
+  const { data, error } = await supabase
+    .from('working_hours')
+    .select('id, profile_id, client_id, project_id, date, total_hours, actual_hours, bill_rate, projects!working_hours_project_id_fkey (name)')
+    .eq('client_id', clientId)
+    .in('status', BILLABLE_STATUSES)
+    .gte('date', periodStart)
+    .lte('date', periodEnd)
+    .order('date');
+
+  if (error) throw error;
+  const entries = (data || []) as BillableEntry[];
+  if (entries.length === 0) return { entries, billRates: new Map<string, number | null>() };
+
+  const { data: invoiced, error: invoicedError } = await supabase
+    .from('invoice_working_hours')
+    .select('working_hour_id')
+    .in('working_hour_id', entries.map(entry => entry.id));
+
+  if (invoicedError) throw invoicedError;
+  const invoicedIds = new Set((invoiced || []).map(link => link.working_hour_id));
+  const uninvoiced = entries.filter(entry => !invoicedIds.has(entry.id));
+
+  return { entries: uninvoiced, billRates: await fetchBillRates(uninvoiced) };
+};
@@ -0,0 +1,44 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+type AppPermission = Database["public"]["Enums"]["app_permission"];
+type NotificationInsert = Database["public"]["Tables"]["notifications"]["Insert"];
+
+// Active profiles whose role grants the permission, i.e. who can act on a request
+export const fetchProfileIdsWithPermission = async (permission: AppPermission) => {
+  const { data: roles, error: rolesError } = await supabase
+    .from('role_permissions')
+    .select('role')
+    .eq('permission', permission);
+
+  if (rolesError) throw rolesError;
+  if (!roles || roles.length === 0) return [];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id')
+    .eq('is_active', true)
+    .in('role', roles.map(r => r.role));
+
+  if (profilesError) throw profilesError;
+  return (profiles || []).map(p => p.id);
+};
+
+/**
+ * Sends the same notification to everyone holding the permission. Returns the number
+ * of recipients so callers can warn when nobody is able to act on it.
+ */
+export const notifyPermissionHolders = async (
+  permission: AppPermission,
+  notification: Omit<NotificationInsert, 'recipient_profile_id'>
+) => {
+  const recipientIds = await fetchProfileIdsWithPermission(permission);
+  if (recipientIds.length === 0) return 0;
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert(recipientIds.map(recipient_profile_id => ({ ...notification, recipient_profile_id })));
+
+  if (error) throw error;
+  return recipientIds.length;
+};
@@ -0,0 +1,20 @@
+import { format, parseISO } from "date-fns";
+import { Roster, ShiftClaimType } from "@/types/database";
+import { formatTimeRange } from "@/lib/time";
+
+// Open shifts are upcoming rosters with fewer people assigned than expected. Employees
+// can claim a place on one, or hand a shift they are rostered on to a colleague.
+
+export const SHIFT_CLAIM_TYPE_LABELS: Record<ShiftClaimType, string> = {
+  claim: 'Shift claim',
+  swap: 'Shift swap'
+};
+
+export const getOpenSlots = (roster: Roster) =>
+  Math.max(0, (roster.expected_profiles || 1) - (roster.roster_profiles?.length || 0));
+
+export const isOpenShift = (roster: Roster, today: string) =>
+  !roster.is_locked && roster.status !== 'cancelled' && roster.date >= today && getOpenSlots(roster) > 0;
+
+export const describeShift = (roster: Pick<Roster, 'name' | 'date' | 'start_time' | 'end_time' | 'projects'>) =>
+  `${roster.name || roster.projects?.name || 'Shift'} on ${format(parseISO(roster.date), 'EEE MMM dd')}, ${formatTimeRange(roster.start_time, roster.end_time)}`;
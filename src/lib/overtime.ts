@@ -0,0 +1,95 @@
+import { parseISO, startOfWeek } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { OvertimeBreakdown, OvertimeLine, OvertimeRule, WorkingHour } from "@/types/database";
+import { toDateString } from "@/lib/time";
+
+// Overtime and penalty rates for working hours. Ordinary hours are counted across each
+// Monday-Sunday week, so whether an entry is overtime depends on the profile's other
+// entries that week. The database works the breakdowns out for whole weeks at a time
+// (recalculate_overtime) and stores them on the entries; everything here reads the
+// stored breakdowns rather than working them out again.
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+export const formatMultiplier = (multiplier: number) => `${Number(multiplier.toFixed(2))}×`;
+
+export const getWeekStart = (date: string) => toDateString(startOfWeek(parseISO(date), { weekStartsOn: 1 }));
+
+// Hours actually worked, falling back to the rostered hours until the entry is clocked
+export const getWorkedHours = (entry: Pick<WorkingHour, 'total_hours' | 'actual_hours'>) =>
+  entry.actual_hours || entry.total_hours || 0;
+
+export const describeOvertimeScope = (rule: OvertimeRule) => [
+  rule.employment_type ? rule.employment_type.replace('-', ' ') : null,
+  rule.clients?.company ?? null
+].filter(Boolean).join(', ') || 'Everyone';
+
+const LINE_ORDER: OvertimeLine['kind'][] = ['ordinary', 'penalty', 'overtime'];
+
+// Lines with the same label added together, dropping any with no hours
+const mergeLines = (lines: OvertimeLine[]) => {
+  const merged = new Map<string, OvertimeLine>();
+  lines.filter(l => l.hours > 0).forEach(l => {
+    const existing = merged.get(l.label);
+    merged.set(l.label, existing ? { ...existing, hours: roundHours(existing.hours + l.hours) } : { ...l });
+  });
+  return [...merged.values()].sort((a, b) =>
+    LINE_ORDER.indexOf(a.kind) - LINE_ORDER.indexOf(b.kind) || a.multiplier - b.multiplier);
+};
+
+export const getOvertimeHours = (breakdown: OvertimeBreakdown) =>
+  roundHours(breakdown.lines.filter(l => l.kind === 'overtime').reduce((sum, l) => sum + l.hours, 0));
+
+// Hours weighted by their multipliers; multiply by the hourly rate for the pay
+export const getWeightedHours = (breakdown: OvertimeBreakdown) =>
+  breakdown.lines.reduce((sum, l) => sum + l.hours * l.multiplier, 0);
+
+// The stored breakdown; entries the database hasn't worked out, such as drafts, are all ordinary hours
+export const getEntryBreakdown = (entry: Pick<WorkingHour, 'total_hours' | 'actual_hours' | 'overtime_breakdown'>): OvertimeBreakdown =>
+  entry.overtime_breakdown || {
+    rule_id: null,
+    rule_name: 'Ordinary hours',
+    lines: mergeLines([{ kind: 'ordinary', label: 'Ordinary', hours: roundHours(getWorkedHours(entry)), multiplier: 1 }])
+  };
+
+// Every line of several breakdowns, e.g. a pay period, with matching lines added together
+export const combineBreakdownLines = (breakdowns: OvertimeBreakdown[]) =>
+  mergeLines(breakdowns.flatMap(b => b.lines));
+
+export const fetchOvertimeRules = async () => {
+  const { data, error } = await supabase
+    .from('overtime_rules')
+    .select(`
+      *,
+      clients!overtime_rules_client_id_fkey (id, company)
+    `)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as unknown as OvertimeRule[];
+};
+
+// Each profile's Monday-Sunday weeks touched by the given entries
+const groupByWeek = (changed: Pick<WorkingHour, 'profile_id' | 'date'>[]) => {
+  const weeks = new Map<string, { profileId: string; weekStart: string }>();
+  changed.forEach(({ profile_id, date }) => {
+    const weekStart = getWeekStart(date);
+    weeks.set(`${profile_id}|${weekStart}`, { profileId: profile_id, weekStart });
+  });
+  return weeks;
+};
+
+/**
+ * Works out and stores the breakdown, overtime hours and payable amount of every entry in
+ * the weeks touched by the given entries, along with the billable amount at the entry's
+ * bill rate (filled from the rate cards when it has none). Billed hours are not loaded
+ * for overtime. The database does the work (recalculate_overtime) so the same figures
+ * are stored whoever made the change, including staff clocking and submitting their own
+ * hours; only rows whose figures changed are updated.
+ */
+export const recalculateOvertime = async (changed: Pick<WorkingHour, 'profile_id' | 'date'>[]) => {
+  for (const { profileId, weekStart } of groupByWeek(changed).values()) {
+    const { error } = await supabase.rpc('recalculate_overtime', { target_profile_id: profileId, week_date: weekStart });
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { calculatePayroll, PayrollEntry, PayrollInput, PayrollTemplate } from "@/lib/payroll";
+import { MISSING_TAX_SCALE_NOTE } from "@/lib/tax-withholding";
+import { OvertimeBreakdown, TaxScale } from "@/types/database";
+
+const profile = { id: 'alex', hourly_rate: 25 };
+
+// A flat 20% on all income, so withholding is easy to follow
+const scale: TaxScale = {
+  id: 'flat-scale',
+  name: 'Flat',
+  effective_from: '2026-07-01',
+  tax_free_threshold_claimed: true,
+  no_tfn_rate: 47,
+  created_at: '2026-07-01T00:00:00Z',
+  updated_at: '2026-07-01T00:00:00Z',
+  tax_scale_brackets: [{ id: 'all', tax_scale_id: 'flat-scale', threshold: 0, rate: 20 }]
+};
+
+// Rostered for 8 hours, worked 10, stored as the database breaks it down without an overtime rule
+const rosteredEntry: PayrollEntry = {
+  id: 'monday',
+  total_hours: 8,
+  actual_hours: 10,
+  hourly_rate: 30,
+  overtime_breakdown: {
+    rule_id: null,
+    rule_name: 'Rostered hours',
+    lines: [
+      { kind: 'ordinary', label: 'Ordinary', hours: 8, multiplier: 1 },
+      { kind: 'overtime', label: 'Overtime 1.5×', hours: 2, multiplier: 1.5 }
+    ]
+  }
+};
+
+const template: PayrollTemplate = {
+  id: 'casual',
+  name: 'Casual',
+  base_hourly_rate: 28,
+  overtime_multiplier: null,
+  deduction_percentage: 0.1
+};
+
+describe('calculatePayroll', () => {
+  it('pays hours by the breakdown stored on the entry', () => {
+    const payroll = calculatePayroll({ profile, entries: [rosteredEntry] });
+
+    expect(payroll.lines).toEqual([
+      { kind: 'ordinary', label: 'Ordinary', hours: 8, rate: 30, amount: 240 },
+      { kind: 'overtime', label: 'Overtime 1.5×', hours: 2, rate: 45, amount: 90 }
+    ]);
+    expect(payroll).toMatchObject({
+      total_hours: 10,
+      ordinary_hours: 8,
+      overtime_hours: 2,
+      hourly_rate: 30,
+      ordinary_pay: 240,
+      overtime_pay: 90,
+      gross_pay: 330,
+      net_pay: 330
+    });
+  });
+
+  it('pays each line of an overtime rule breakdown at its multiplier', () => {
+    const breakdown: OvertimeBreakdown = {
+      rule_id: 'award',
+      rule_name: 'Award',
+      lines: [
+        { kind: 'ordinary', label: 'Ordinary', hours: 7.6, multiplier: 1 },
+        { kind: 'overtime', label: 'Overtime 1.5×', hours: 2, multiplier: 1.5 },
+        { kind: 'overtime', label: 'Overtime 2×', hours: 1, multiplier: 2 }
+      ]
+    };
+    const entry = { ...rosteredEntry, actual_hours: 10.6, hourly_rate: 40, overtime_breakdown: breakdown };
+    const payroll = calculatePayroll({ profile, entries: [entry] });
+
+    expect(payroll.ordinary_pay).toBe(304);
+    expect(payroll.overtime_pay).toBe(200);
+    expect(payroll.overtime_hours).toBe(3);
+    expect(payroll.gross_pay).toBe(504);
+  });
+
+  it('takes the template deduction as a fraction of gross pay', () => {
+    const payroll = calculatePayroll({ profile, entries: [rosteredEntry], template });
+
+    expect(payroll.lines).toContainEqual({ kind: 'deduction', label: 'Deductions (10%)', hours: null, rate: null, amount: 33 });
+    expect(payroll.deductions).toBe(33);
+    expect(payroll.net_pay).toBe(297);
+    expect(payroll.template_id).toBe('casual');
+  });
+
+  it("pays hours beyond the roster at the template's overtime multiplier", () => {
+    const payroll = calculatePayroll({ profile, entries: [rosteredEntry], template: { ...template, overtime_multiplier: 2 } });
+
+    expect(payroll.lines).toContainEqual({ kind: 'overtime', label: 'Overtime 2×', hours: 2, rate: 60, amount: 120 });
+    expect(payroll.gross_pay).toBe(360);
+  });
+
+  it('pays hours with no stored breakdown as ordinary hours', () => {
+    const payroll = calculatePayroll({ profile, entries: [{ ...rosteredEntry, overtime_breakdown: null }] });
+
+    expect(payroll.lines).toEqual([{ kind: 'ordinary', label: 'Ordinary', hours: 10, rate: 30, amount: 300 }]);
+    expect(payroll.overtime_hours).toBe(0);
+  });
+
+  it('falls back to the template rate and then the profile rate for hours without one', () => {
+    const unrated = { ...rosteredEntry, actual_hours: 8, hourly_rate: 0, overtime_breakdown: null };
+
+    expect(calculatePayroll({ profile, entries: [unrated], template }).gross_pay).toBe(224);
+    expect(calculatePayroll({ profile, entries: [unrated] }).gross_pay).toBe(200);
+  });
+
+  it('adds allowances, takes off deductions and pays reimbursements on top of net pay', () => {
+    const payroll = calculatePayroll({
+      profile,
+      entries: [rosteredEntry],
+      items: [
+        { type: 'allowance', description: 'Tool allowance', amount: 50, taxable: true },
+        { type: 'deduction', description: 'Salary sacrifice', amount: 15, taxable: true },
+        { type: 'reimbursement', description: 'Parking', amount: 20, taxable: false }
+      ],
+      tax: { scale, frequency: 'weekly', hasTaxFileNumber: true },
+      superGuaranteePercentage: 11.5
+    });
+
+    expect(payroll.additional_earnings).toBe(50);
+    expect(payroll.gross_pay).toBe(380);
+    // Hours pay plus the taxable allowance, less the pre-tax deduction
+    expect(payroll.taxable_pay).toBe(365);
+    expect(payroll.tax_withheld).toBe(73);
+    expect(payroll.deductions).toBe(15);
+    expect(payroll.reimbursements).toBe(20);
+    expect(payroll.net_pay).toBe(312);
+    // Super is on ordinary time earnings only
+    expect(payroll.super_contribution).toBe(27.6);
+  });
+
+  it('refuses to work out tax without a tax scale', () => {
+    expect(() => calculatePayroll({
+      profile,
+      entries: [rosteredEntry],
+      tax: { scale: null, frequency: 'weekly', hasTaxFileNumber: false }
+    })).toThrow(MISSING_TAX_SCALE_NOTE);
+  });
+
+  it('gives the same payslip for the same inputs', () => {
+    const input: PayrollInput = {
+      profile,
+      entries: [rosteredEntry, { ...rosteredEntry, id: 'tuesday', actual_hours: 7.5, overtime_breakdown: null }],
+      template,
+      items: [{ type: 'earning', description: 'Bonus', amount: 100, taxable: true }],
+      tax: { scale, frequency: 'weekly', hasTaxFileNumber: true },
+      superGuaranteePercentage: 11.5
+    };
+
+    expect(calculatePayroll(input)).toEqual(calculatePayroll(structuredClone(input)));
+  });
+});
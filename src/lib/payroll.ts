@@ -0,0 +1,390 @@
+import { supabase } from "@/integrations/supabase/client";
+import { OvertimeBreakdown, OvertimeLine, Payroll, PayrollLineItem, PayrollLineItemType, Profile, SalaryTemplate, WorkingHour } from "@/types/database";
+import { formatMultiplier, getEntryBreakdown, getWorkedHours, recalculateOvertime } from "@/lib/overtime";
+import { calculateWithholding, WithholdingInput } from "@/lib/tax-withholding";
+
+// Pay for a period worked out the same way on every payroll screen. Hours are paid by
+// their overtime breakdowns at each entry's hourly rate, then line items are added, tax
+// withheld and other deductions taken off. The employer's super contribution is worked
+// out alongside but is not part of the pay. Only the fetch helpers at the end touch the
+// database.
+
+// Taken off gross pay, besides tax, when no salary template sets a deduction percentage
+export const DEFAULT_DEDUCTION_PERCENTAGE = 0;
+
+export type PayrollEntry = Pick<WorkingHour,
+  'id' | 'total_hours' | 'actual_hours' | 'hourly_rate' | 'overtime_breakdown'>;
+
+export type PayrollTemplate = Pick<SalaryTemplate,
+  'id' | 'name' | 'base_hourly_rate' | 'overtime_multiplier' | 'deduction_percentage'>;
+
+export type TemplateEntry = Pick<WorkingHour, 'client_id' | 'project_id' | 'total_hours' | 'actual_hours'>;
+
+// A line item as the calculation needs it, whether saved on a payroll or not yet
+export type PayrollItem = Pick<PayrollLineItem, 'type' | 'description' | 'amount' | 'taxable'>;
+
+// A line item as entered, before it is saved on a payroll
+export type PayrollItemDraft = PayrollItem & Pick<PayrollLineItem, 'is_recurring'>;
+
+export const PAYROLL_ITEM_TYPE_LABELS: Record<PayrollLineItemType, string> = {
+  earning: 'Earning',
+  allowance: 'Allowance',
+  reimbursement: 'Reimbursement',
+  deduction: 'Deduction'
+};
+
+export interface PayrollLine {
+  kind: OvertimeLine['kind'] | PayrollLineItemType | 'tax';
+  label: string;
+  hours: number | null;
+  // The hourly rate with the line's multiplier applied
+  rate: number | null;
+  amount: number;
+}
+
+export interface PayrollInput {
+  profile: Pick<Profile, 'id' | 'hourly_rate'>;
+  entries: PayrollEntry[];
+  template?: PayrollTemplate | null;
+  items?: PayrollItem[];
+  // Tax is only withheld when given
+  tax?: WithholdingInput;
+  // The super guarantee percentage; no super accrues without one
+  superGuaranteePercentage?: number | null;
+}
+
+export interface PayrollCalculation {
+  lines: PayrollLine[];
+  total_hours: number;
+  ordinary_hours: number;
+  overtime_hours: number;
+  // Average hourly rate over the hours worked, before any multipliers
+  hourly_rate: number;
+  ordinary_pay: number;
+  overtime_pay: number;
+  // Earning and allowance items
+  additional_earnings: number;
+  gross_pay: number;
+  // The pay tax is withheld from
+  taxable_pay: number;
+  tax_withheld: number;
+  // Deductions other than tax
+  deductions: number;
+  reimbursements: number;
+  net_pay: number;
+  // Pay for ordinary and penalty hours, which super is worked out on
+  ordinary_time_earnings: number;
+  super_guarantee_percentage: number | null;
+  super_contribution: number;
+  template_id: string | null;
+  tax_scale_id: string | null;
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+const sumAmounts = (lines: PayrollLine[]) => roundCurrency(lines.reduce((sum, l) => sum + l.amount, 0));
+
+const EARNING_ORDER: PayrollLine['kind'][] = ['ordinary', 'penalty', 'overtime'];
+
+/**
+ * What line items add to the pay for hours worked. Earnings and allowances are part of
+ * gross pay, reimbursements are paid on top of net pay, and taxable items move the pay
+ * tax is withheld from: up for additions, down for deductions taken before tax.
+ */
+export const summarisePayrollItems = (items: PayrollItem[]) => {
+  const total = (filter: (item: PayrollItem) => boolean) =>
+    roundCurrency(items.filter(filter).reduce((sum, item) => sum + Number(item.amount), 0));
+  return {
+    additional_earnings: total(item => item.type === 'earning' || item.type === 'allowance'),
+    reimbursements: total(item => item.type === 'reimbursement'),
+    deductions: total(item => item.type === 'deduction'),
+    taxable_adjustment: roundCurrency(
+      total(item => item.taxable && item.type !== 'deduction') - total(item => item.taxable && item.type === 'deduction')
+    )
+  };
+};
+
+// The entry's own rate, then the template's base rate, then the profile's rate
+export const getPayrollRate = (entry: PayrollEntry, input: Pick<PayrollInput, 'profile' | 'template'>) =>
+  entry.hourly_rate || input.template?.base_hourly_rate || input.profile.hourly_rate || 0;
+
+// Hours beyond the roster with no overtime rule are paid at the template's multiplier, if any
+const applyTemplateMultiplier = (breakdown: OvertimeBreakdown, template?: PayrollTemplate | null): OvertimeBreakdown => {
+  if (breakdown.rule_id || !template?.overtime_multiplier) return breakdown;
+  const multiplier = template.overtime_multiplier;
+  return {
+    ...breakdown,
+    lines: breakdown.lines.map(l => l.kind === 'overtime'
+      ? { ...l, label: `Overtime ${formatMultiplier(multiplier)}`, multiplier }
+      : l)
+  };
+};
+
+export const calculatePayroll = (input: PayrollInput): PayrollCalculation => {
+  const { entries, template } = input;
+  const earnings = new Map<string, PayrollLine>();
+  let totalHours = 0;
+  let ratedHours = 0;
+
+  entries.forEach(entry => {
+    const rate = getPayrollRate(entry, input);
+    const breakdown = applyTemplateMultiplier(getEntryBreakdown(entry), template);
+    const worked = getWorkedHours(entry);
+    totalHours += worked;
+    ratedHours += worked * rate;
+
+    breakdown.lines.forEach(l => {
+      const lineRate = rate * l.multiplier;
+      const key = `${l.label}|${lineRate}`;
+      const existing = earnings.get(key);
+      earnings.set(key, {
+        kind: l.kind,
+        label: l.label,
+        hours: (existing?.hours || 0) + l.hours,
+        rate: lineRate,
+        amount: (existing?.amount || 0) + l.hours * lineRate
+      });
+    });
+  });
+
+  const earningLines = [...earnings.values()]
+    .filter(l => l.hours)
+    .map(l => ({ ...l, hours: roundHours(l.hours || 0), amount: roundCurrency(l.amount) }))
+    .sort((a, b) => EARNING_ORDER.indexOf(a.kind) - EARNING_ORDER.indexOf(b.kind) || (a.rate || 0) - (b.rate || 0));
+
+  const items = (input.items || []).filter(item => Number(item.amount));
+  const itemLines = (types: PayrollLineItemType[]): PayrollLine[] => items
+    .filter(item => types.includes(item.type))
+    .map(item => ({ kind: item.type, label: item.description, hours: null, rate: null, amount: roundCurrency(Number(item.amount)) }));
+  const additionLines = itemLines(['earning', 'allowance']);
+  const reimbursementLines = itemLines(['reimbursement']);
+  const itemSummary = summarisePayrollItems(items);
+
+  const hoursPay = sumAmounts(earningLines);
+  const grossPay = sumAmounts([...earningLines, ...additionLines]);
+  const taxablePay = Math.max(0, roundCurrency(hoursPay + itemSummary.taxable_adjustment));
+  // Templates hold the deduction as a fraction of gross pay, e.g. 0.1 for 10%
+  const percentage = template?.deduction_percentage != null
+    ? template.deduction_percentage * 100
+    : DEFAULT_DEDUCTION_PERCENTAGE;
+  const percentageLine: PayrollLine = {
+    kind: 'deduction',
+    label: `Deductions (${Number(percentage.toFixed(2))}%)`,
+    hours: null,
+    rate: null,
+    amount: roundCurrency(grossPay * percentage / 100)
+  };
+  const deductionLines = [percentageLine, ...itemLines(['deduction'])].filter(l => l.amount);
+
+  const withholding = input.tax ? calculateWithholding(taxablePay, input.tax) : null;
+  const taxLines: PayrollLine[] = withholding
+    ? [{ kind: 'tax', label: withholding.label, hours: null, rate: null, amount: roundCurrency(withholding.amount) }]
+    : [];
+
+  const overtimeLines = earningLines.filter(l => l.kind === 'overtime');
+  const overtimeHours = roundHours(overtimeLines.reduce((sum, l) => sum + (l.hours || 0), 0));
+  const taxWithheld = sumAmounts(taxLines);
+  const deductions = sumAmounts(deductionLines);
+  const reimbursements = sumAmounts(reimbursementLines);
+  const ordinaryPay = sumAmounts(earningLines.filter(l => l.kind !== 'overtime'));
+  const superPercentage = input.superGuaranteePercentage ?? null;
+
+  return {
+    lines: [...earningLines, ...additionLines, ...taxLines, ...deductionLines, ...reimbursementLines],
+    total_hours: roundHours(totalHours),
+    ordinary_hours: roundHours(totalHours - overtimeHours),
+    overtime_hours: overtimeHours,
+    hourly_rate: totalHours > 0 ? roundCurrency(ratedHours / totalHours) : 0,
+    ordinary_pay: ordinaryPay,
+    overtime_pay: sumAmounts(overtimeLines),
+    additional_earnings: sumAmounts(additionLines),
+    gross_pay: grossPay,
+    taxable_pay: taxablePay,
+    tax_withheld: taxWithheld,
+    deductions,
+    reimbursements,
+    net_pay: roundCurrency(grossPay - taxWithheld - deductions + reimbursements),
+    ordinary_time_earnings: ordinaryPay,
+    super_guarantee_percentage: superPercentage,
+    super_contribution: superPercentage ? roundCurrency(ordinaryPay * superPercentage / 100) : 0,
+    template_id: template?.id ?? null,
+    tax_scale_id: withholding?.tax_scale_id ?? null
+  };
+};
+
+// The figures stored on a payroll row, along with the template and tax scale used
+export const getPayrollAmounts = (calculation: PayrollCalculation) => ({
+  total_hours: calculation.total_hours,
+  hourly_rate: calculation.hourly_rate,
+  gross_pay: calculation.gross_pay,
+  tax_withheld: calculation.tax_withheld,
+  deductions: calculation.deductions,
+  net_pay: calculation.net_pay,
+  salary_template_id: calculation.template_id,
+  tax_scale_id: calculation.tax_scale_id
+});
+
+const templateMatchesEntry = (template: SalaryTemplate, entry: TemplateEntry) =>
+  (!template.client_id || template.client_id === entry.client_id)
+  && (!template.project_id || template.project_id === entry.project_id);
+
+// A template naming the profile is more specific than one naming a project, then a client
+const getTemplateSpecificity = (template: SalaryTemplate) =>
+  (template.profile_id ? 4 : 0) + (template.project_id ? 2 : 0) + (template.client_id ? 1 : 0);
+
+/**
+ * The template a profile's pay period is worked out with: the most specific active
+ * template for the profile, or for a client or project some of the hours were worked
+ * on. Between equally specific templates, the one covering more of the hours wins.
+ */
+export const resolveSalaryTemplate = (templates: SalaryTemplate[], profileId: string, entries: TemplateEntry[]) => {
+  const candidates = templates
+    .filter(template => template.is_active && (!template.profile_id || template.profile_id === profileId))
+    .map(template => ({
+      template,
+      specificity: getTemplateSpecificity(template),
+      hours: entries.filter(entry => templateMatchesEntry(template, entry)).reduce((sum, entry) => sum + getWorkedHours(entry), 0)
+    }))
+    .filter(candidate => candidate.hours > 0 || (!candidate.template.client_id && !candidate.template.project_id))
+    .sort((a, b) => b.specificity - a.specificity || b.hours - a.hours);
+
+  return candidates[0]?.template || null;
+};
+
+// Shown wherever a profile's pay is worked out without a template
+export const MISSING_TEMPLATE_NOTE =
+  "Only tax is withheld, and the profile's hourly rate fills in for hours without a rate.";
+
+export const fetchSalaryTemplates = async () => {
+  const { data, error } = await supabase
+    .from('salary_templates')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) throw error;
+  return (data || []) as SalaryTemplate[];
+};
+
+/**
+ * A profile's approved hours in a pay period. Their overtime is worked out again in the
+ * database under the current rules and public holidays first, so every screen pays the
+ * same stored breakdowns.
+ */
+export const fetchPayrollHours = async (profileId: string, periodStart: string, periodEnd: string) => {
+  const fetchHours = async () => {
+    const { data, error } = await supabase
+      .from('working_hours')
+      .select('*')
+      .eq('profile_id', profileId)
+      .eq('status', 'approved')
+      .gte('date', periodStart)
+      .lte('date', periodEnd);
+
+    if (error) throw error;
+    return (data || []) as unknown as WorkingHour[];
+  };
+
+  const entries = await fetchHours();
+  if (entries.length === 0) return entries;
+
+  await recalculateOvertime(entries);
+  return fetchHours();
+};
+
+export const fetchPayrollLineItems = async (payrollIds: string[]) => {
+  if (payrollIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('payroll_line_items')
+    .select('*')
+    .in('payroll_id', payrollIds)
+    .order('sort_order');
+
+  if (error) throw error;
+  return (data || []) as PayrollLineItem[];
+};
+
+/**
+ * The recurring line items on each profile's latest payroll ending before the date, to
+ * carry onto the next one. A profile whose latest payroll has none gets none, so taking
+ * an item off one payroll stops it recurring.
+ */
+export const fetchRecurringPayrollItems = async (profileIds: string[], before: string) => {
+  const recurring = new Map<string, PayrollLineItem[]>();
+  if (profileIds.length === 0) return recurring;
+
+  const { data, error } = await supabase
+    .from('payroll')
+    .select('id, profile_id')
+    .in('profile_id', profileIds)
+    .lt('pay_period_end', before)
+    .order('pay_period_end', { ascending: false });
+
+  if (error) throw error;
+
+  const latest = new Map<string, string>();
+  (data || []).forEach(payroll => {
+    if (!latest.has(payroll.profile_id)) latest.set(payroll.profile_id, payroll.id);
+  });
+
+  const items = await fetchPayrollLineItems([...latest.values()]);
+  latest.forEach((payrollId, profileId) => {
+    recurring.set(profileId, items.filter(item => item.payroll_id === payrollId && item.is_recurring));
+  });
+  return recurring;
+};
+
+const toLineItemRows = (items: PayrollItemDraft[]) =>
+  items.map(({ type, description, amount, taxable, is_recurring }) => ({ type, description, amount, taxable, is_recurring }));
+
+// The super accrued on a payroll, or null when no guarantee percentage applies
+const toSuperAccrual = (calculation: PayrollCalculation) => calculation.super_guarantee_percentage == null ? null : {
+  ordinary_time_earnings: calculation.ordinary_time_earnings,
+  guarantee_percentage: calculation.super_guarantee_percentage,
+  amount: calculation.super_contribution
+};
+
+/**
+ * Saves an edited payroll's period and status with the amounts worked out for it, its
+ * line items and its super accrual in one transaction.
+ */
+export const updatePayroll = async (
+  payrollId: string,
+  changes: Pick<Payroll, 'pay_period_start' | 'pay_period_end' | 'status'>,
+  items: PayrollItemDraft[],
+  calculation: PayrollCalculation
+) => {
+  const { error } = await supabase.rpc('update_payroll', {
+    target_payroll_id: payrollId,
+    changes: { ...changes, ...getPayrollAmounts(calculation) },
+    items: toLineItemRows(items),
+    accrual: toSuperAccrual(calculation)
+  });
+
+  if (error) throw error;
+};
+
+export interface PayrollDraft {
+  payroll: Pick<Payroll, 'profile_id' | 'pay_period_start' | 'pay_period_end' | 'status'> & Partial<Pick<Payroll, 'bank_account_id'>>;
+  items: PayrollItemDraft[];
+  calculation: PayrollCalculation;
+}
+
+/**
+ * Creates payrolls with the amounts worked out for them, their line items and their
+ * super accruals in one transaction, so either all of them are created or none are.
+ * Returns the created payrolls in the order given.
+ */
+export const createPayroll = async (drafts: PayrollDraft[]) => {
+  const { data, error } = await supabase.rpc('create_payroll', {
+    payrolls: drafts.map(({ payroll, items, calculation }) => ({
+      ...payroll,
+      ...getPayrollAmounts(calculation),
+      items: toLineItemRows(items),
+      accrual: toSuperAccrual(calculation)
+    }))
+  });
+
+  if (error) throw error;
+  return (data || []) as Payroll[];
+};
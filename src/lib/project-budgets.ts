@@ -0,0 +1,316 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Payroll, Project, Roster, WorkingHour } from "@/types/database";
+import { getWorkedHours } from "@/lib/overtime";
+import { fetchRateCards } from "@/lib/rate-cards";
+import { buildRosterWorkingHours } from "@/lib/roster-timesheets";
+import { notifyPermissionHolders } from "@/lib/notifications";
+
+// Project spending against budget. Labour is the payable amount of the project's approved
+// hours, scaled to the gross pay of the payroll that paid them, so adjustments made in
+// payroll show up on the project. Other costs are withdrawals recorded against the project.
+// The forecast adds hours awaiting approval and the cost of the rosters still to come.
+
+export const BUDGET_THRESHOLDS = [75, 90, 100];
+
+const COSTED_STATUSES: WorkingHour['status'][] = ['approved', 'paid'];
+const PAID_PAYROLL_STATUSES: Payroll['status'][] = ['approved', 'paid'];
+
+export type CostEntry = Pick<WorkingHour, 'id' | 'profile_id' | 'date' | 'status' | 'total_hours' | 'actual_hours' | 'hourly_rate' | 'payable_amount'>;
+export type PayrollPeriod = Pick<Payroll, 'id' | 'profile_id' | 'pay_period_start' | 'pay_period_end' | 'gross_pay'>;
+
+export interface ProjectCostEvent {
+  date: string;
+  amount: number;
+}
+
+export interface BurnDownPoint {
+  date: string;
+  remaining?: number;
+  forecast?: number;
+}
+
+export interface ProjectFinancials {
+  budget: number;
+  // Approved hours covered by a payroll, at the payroll's gross pay
+  payrollLabour: number;
+  // Approved hours not yet on a payroll, at their payable amount
+  unpaidLabour: number;
+  expenses: number;
+  spent: number;
+  // Hours entered but not yet approved
+  pendingLabour: number;
+  rosteredLabour: number;
+  forecast: number;
+  burnDown: BurnDownPoint[];
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export const getEntryCost = (entry: CostEntry) =>
+  entry.payable_amount ?? round(getWorkedHours(entry) * (entry.hourly_rate || 0));
+
+export const getBudgetUsage = (spent: number, budget: number) => (budget > 0 ? (spent / budget) * 100 : null);
+
+export const getReachedThresholds = (spent: number, budget: number) => {
+  const usage = getBudgetUsage(spent, budget);
+  return usage === null ? [] : BUDGET_THRESHOLDS.filter(threshold => usage >= threshold);
+};
+
+const findPayroll = (entry: CostEntry, payrolls: PayrollPeriod[]) =>
+  payrolls.find(p => p.profile_id === entry.profile_id && p.pay_period_start <= entry.date && p.pay_period_end >= entry.date);
+
+/**
+ * The cost of each approved project entry. An entry inside a payroll's period gets the
+ * payroll's gross pay shared across all that person's approved hours in the period (on any
+ * project) by payable amount; other entries cost their payable amount.
+ */
+export const allocateLabourCosts = (projectEntries: CostEntry[], payrolls: PayrollPeriod[], profileEntries: CostEntry[]) => {
+  const costs = new Map<string, { cost: number; payroll_id: string | null }>();
+
+  projectEntries
+    .filter(entry => COSTED_STATUSES.includes(entry.status))
+    .forEach(entry => {
+      const payroll = findPayroll(entry, payrolls);
+      const entryCost = getEntryCost(entry);
+      if (!payroll) {
+        costs.set(entry.id, { cost: entryCost, payroll_id: null });
+        return;
+      }
+
+      const periodCost = profileEntries
+        .filter(other => other.profile_id === payroll.profile_id && findPayroll(other, [payroll]) && COSTED_STATUSES.includes(other.status))
+        .reduce((sum, other) => sum + getEntryCost(other), 0);
+      costs.set(entry.id, {
+        cost: periodCost > 0 ? round(Number(payroll.gross_pay) * entryCost / periodCost) : entryCost,
+        payroll_id: payroll.id
+      });
+    });
+
+  return costs;
+};
+
+const sumEvents = (events: ProjectCostEvent[]) => round(events.reduce((sum, event) => sum + event.amount, 0));
+
+const accumulate = (events: ProjectCostEvent[]) => {
+  const byDate = new Map<string, number>();
+  events.forEach(event => byDate.set(event.date, (byDate.get(event.date) || 0) + event.amount));
+  return [...byDate.entries()].sort(([a], [b]) => a.localeCompare(b));
+};
+
+/**
+ * Budget remaining after each day with spending, then the forecast from today through the
+ * last rostered day. The today point carries both values so the two lines join up.
+ */
+export const buildBurnDown = (
+  budget: number,
+  startDate: string,
+  spentEvents: ProjectCostEvent[],
+  forecastEvents: ProjectCostEvent[],
+  today: string
+): BurnDownPoint[] => {
+  const points: BurnDownPoint[] = [{ date: startDate < today ? startDate : today, remaining: budget }];
+  let remaining = budget;
+
+  accumulate(spentEvents.filter(event => event.date <= today)).forEach(([date, amount]) => {
+    remaining = round(remaining - amount);
+    const last = points[points.length - 1];
+    if (last.date === date) last.remaining = remaining;
+    else points.push({ date, remaining });
+  });
+
+  const last = points[points.length - 1];
+  const todayPoint = last.date === today ? last : { date: today, remaining };
+  if (todayPoint !== last) points.push(todayPoint);
+  if (forecastEvents.length === 0) return points;
+
+  let forecast = remaining;
+  accumulate(forecastEvents.map(event => ({ ...event, date: event.date < today ? today : event.date })))
+    .forEach(([date, amount]) => {
+      forecast = round(forecast - amount);
+      if (date === today) todayPoint.forecast = forecast;
+      else points.push({ date, forecast });
+    });
+  todayPoint.forecast ??= remaining;
+
+  return points;
+};
+
+type ProjectCosts = Awaited<ReturnType<typeof fetchProjectCosts>>;
+
+export const getProjectSpent = (costs: ProjectCosts) =>
+  round([...costs.labour.values()].reduce((sum, allocated) => sum + allocated.cost, 0) + sumEvents(costs.expenses));
+
+export const summarizeProjectFinancials = (
+  project: Pick<Project, 'budget' | 'start_date'>,
+  costs: ProjectCosts,
+  rosteredEvents: ProjectCostEvent[],
+  today: string
+): ProjectFinancials => {
+  const labourEvents: ProjectCostEvent[] = [];
+  let payrollLabour = 0;
+  let unpaidLabour = 0;
+  costs.entries.forEach(entry => {
+    const allocated = costs.labour.get(entry.id);
+    if (!allocated) return;
+    labourEvents.push({ date: entry.date, amount: allocated.cost });
+    if (allocated.payroll_id) payrollLabour += allocated.cost;
+    else unpaidLabour += allocated.cost;
+  });
+
+  const pendingEvents = costs.entries
+    .filter(entry => !COSTED_STATUSES.includes(entry.status))
+    .map(entry => ({ date: entry.date, amount: getEntryCost(entry) }));
+
+  const budget = Number(project.budget) || 0;
+  const spent = getProjectSpent(costs);
+  const pendingLabour = sumEvents(pendingEvents);
+  const rosteredLabour = sumEvents(rosteredEvents);
+
+  return {
+    budget,
+    payrollLabour: round(payrollLabour),
+    unpaidLabour: round(unpaidLabour),
+    expenses: sumEvents(costs.expenses),
+    spent,
+    pendingLabour,
+    rosteredLabour,
+    forecast: round(spent + pendingLabour + rosteredLabour),
+    burnDown: buildBurnDown(budget, project.start_date || today, [...labourEvents, ...costs.expenses], [...pendingEvents, ...rosteredEvents], today)
+  };
+};
+
+const COST_ENTRY_COLUMNS = 'id, profile_id, date, status, total_hours, actual_hours, hourly_rate, payable_amount';
+
+// The project's hours with their labour cost, and its expenses
+export const fetchProjectCosts = async (projectId: string) => {
+  const [hoursResult, expensesResult] = await Promise.all([
+    supabase.from('working_hours').select(COST_ENTRY_COLUMNS).eq('project_id', projectId).neq('status', 'rejected'),
+    supabase.from('bank_transactions').select('date, amount').eq('project_id', projectId).eq('type', 'withdrawal')
+  ]);
+
+  if (hoursResult.error) throw hoursResult.error;
+  if (expensesResult.error) throw expensesResult.error;
+
+  const entries = (hoursResult.data || []) as CostEntry[];
+  const expenses = (expensesResult.data || []).map(t => ({ date: t.date, amount: Number(t.amount) }));
+  const costed = entries.filter(entry => COSTED_STATUSES.includes(entry.status));
+  if (costed.length === 0) return { entries, labour: allocateLabourCosts(entries, [], []), expenses };
+
+  const dates = costed.map(entry => entry.date).sort();
+  const { data: payrolls, error: payrollError } = await supabase
+    .from('payroll')
+    .select('id, profile_id, pay_period_start, pay_period_end, gross_pay')
+    .in('profile_id', [...new Set(costed.map(entry => entry.profile_id))])
+    .in('status', PAID_PAYROLL_STATUSES)
+    .lte('pay_period_start', dates[dates.length - 1])
+    .gte('pay_period_end', dates[0]);
+
+  if (payrollError) throw payrollError;
+  if (!payrolls || payrolls.length === 0) return { entries, labour: allocateLabourCosts(entries, [], []), expenses };
+
+  // Everything the payrolls paid for, to share their gross pay out
+  const { data: profileEntries, error: profileError } = await supabase
+    .from('working_hours')
+    .select(COST_ENTRY_COLUMNS)
+    .in('profile_id', [...new Set(payrolls.map(p => p.profile_id))])
+    .in('status', COSTED_STATUSES)
+    .gte('date', payrolls.map(p => p.pay_period_start).sort()[0])
+    .lte('date', payrolls.map(p => p.pay_period_end).sort().reverse()[0]);
+
+  if (profileError) throw profileError;
+  return { entries, labour: allocateLabourCosts(entries, payrolls, (profileEntries || []) as CostEntry[]), expenses };
+};
+
+// The cost of rostered shifts from today on that have no timesheet rows yet
+export const fetchRosteredCosts = async (projectId: string, today: string): Promise<ProjectCostEvent[]> => {
+  const { data: rosters, error } = await supabase
+    .from('rosters')
+    .select(`
+      *,
+      roster_profiles!roster_profiles_roster_id_fkey (id, profile_id)
+    `)
+    .eq('project_id', projectId)
+    .neq('status', 'cancelled')
+    .or(`end_date.gte.${today},and(end_date.is.null,date.gte.${today})`);
+
+  if (error) throw error;
+  if (!rosters || rosters.length === 0) return [];
+
+  const profileIds = [...new Set(rosters.flatMap(r => [r.profile_id, ...(r.roster_profiles || []).map(rp => rp.profile_id)]))];
+  const [existingResult, profilesResult, rateCards] = await Promise.all([
+    supabase.from('working_hours').select('roster_id, profile_id, date').in('roster_id', rosters.map(r => r.id)),
+    supabase.from('profiles').select('id, role').in('id', profileIds),
+    fetchRateCards()
+  ]);
+
+  if (existingResult.error) throw existingResult.error;
+  if (profilesResult.error) throw profilesResult.error;
+
+  const roles = Object.fromEntries((profilesResult.data || []).map(p => [p.id, p.role]));
+  return (rosters as Roster[])
+    .flatMap(roster => buildRosterWorkingHours(roster, existingResult.data || [], undefined, rateCards, roles))
+    .filter(row => row.date >= today)
+    .map(row => ({ date: row.date, amount: row.payable_amount || 0 }));
+};
+
+export const fetchProjectFinancials = async (project: Pick<Project, 'id' | 'budget' | 'start_date'>, today: string) => {
+  const [costs, rostered] = await Promise.all([
+    fetchProjectCosts(project.id),
+    fetchRosteredCosts(project.id, today)
+  ]);
+  return summarizeProjectFinancials(project, costs, rostered, today);
+};
+
+/**
+ * Notifies project managers when a project's spending first reaches 75, 90 or 100% of its
+ * budget. Each threshold is sent once; thresholds the project has dropped back below are
+ * cleared so they can be sent again. Returns the number of alerts raised.
+ */
+export const checkProjectBudgetAlerts = async (projectIds: string[]) => {
+  let raised = 0;
+
+  for (const projectId of [...new Set(projectIds)].filter(Boolean)) {
+    const { data: project, error } = await supabase
+      .from('projects')
+      .select('id, name, budget')
+      .eq('id', projectId)
+      .single();
+
+    if (error) throw error;
+    const budget = Number(project.budget) || 0;
+    if (budget <= 0) continue;
+
+    const spent = getProjectSpent(await fetchProjectCosts(projectId));
+    const reached = getReachedThresholds(spent, budget);
+
+    let clear = supabase.from('project_budget_alerts').delete().eq('project_id', projectId);
+    if (reached.length > 0) clear = clear.not('threshold', 'in', `(${reached.join(',')})`);
+    const { error: clearError } = await clear;
+    if (clearError) throw clearError;
+    if (reached.length === 0) continue;
+
+    // The unique (project_id, threshold) key keeps a concurrent check from sending twice
+    const { data: inserted, error: insertError } = await supabase
+      .from('project_budget_alerts')
+      .upsert(reached.map(threshold => ({ project_id: projectId, threshold, budget, spent })), { onConflict: 'project_id,threshold', ignoreDuplicates: true })
+      .select('threshold');
+
+    if (insertError) throw insertError;
+    if (!inserted || inserted.length === 0) continue;
+
+    const threshold = Math.max(...inserted.map(alert => alert.threshold));
+    const usage = Math.round(getBudgetUsage(spent, budget) || 0);
+    await notifyPermissionHolders('projects_manage', {
+      title: threshold >= 100 ? 'Project Over Budget' : 'Project Budget Alert',
+      message: `${project.name} has used ${usage}% of its $${budget.toLocaleString()} budget ($${spent.toLocaleString()} spent)`,
+      type: 'project_budget',
+      related_id: projectId,
+      action_type: 'none',
+      action_data: { project_id: projectId, threshold, budget, spent },
+      priority: threshold >= 90 ? 'high' : 'medium'
+    });
+    raised++;
+  }
+
+  return raised;
+};
@@ -0,0 +1,120 @@
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Profile, RateCard, UserRole, WorkingHour } from "@/types/database";
+
+// Pay and bill rates from rate cards. For each rate the most specific card in effect on
+// the day wins: employee on the project, then role on the project, then the client. The
+// employee's own hourly_rate is the pay rate when no card sets one; there is no default
+// bill rate.
+
+export type RateLevel = 'profile_project' | 'project_role' | 'client' | 'profile_default';
+
+export const RATE_LEVEL_LABELS: Record<RateLevel, string> = {
+  profile_project: 'Employee on project',
+  project_role: 'Role on project',
+  client: 'Client',
+  profile_default: "Employee's hourly rate"
+};
+
+// Most specific first
+const CARD_LEVELS: Exclude<RateLevel, 'profile_default'>[] = ['profile_project', 'project_role', 'client'];
+
+export interface RateSubject {
+  profile_id?: string | null;
+  role?: UserRole | null;
+  client_id?: string | null;
+  project_id?: string | null;
+  date: string;
+}
+
+export interface ResolvedRate {
+  rate: number;
+  level: RateLevel;
+  card?: RateCard;
+}
+
+export const getRateCardLevel = (card: Pick<RateCard, 'profile_id' | 'project_id'>): RateLevel =>
+  card.profile_id ? 'profile_project' : card.project_id ? 'project_role' : 'client';
+
+export const isRateCardEffective = (card: Pick<RateCard, 'effective_from' | 'effective_to'>, date: string) =>
+  card.effective_from <= date && (!card.effective_to || card.effective_to >= date);
+
+const matchesSubject = (card: RateCard, subject: RateSubject) => {
+  switch (getRateCardLevel(card)) {
+    case 'profile_project':
+      return card.profile_id === subject.profile_id && card.project_id === subject.project_id;
+    case 'project_role':
+      return card.project_id === subject.project_id && card.role === subject.role;
+    default:
+      return card.client_id === subject.client_id;
+  }
+};
+
+/**
+ * The card setting the given rate for the subject on its date. Within a level the card
+ * with the latest effective_from wins, so a new card takes over from the old one.
+ */
+export const resolveRate = (cards: RateCard[], subject: RateSubject, field: 'pay_rate' | 'bill_rate'): ResolvedRate | null => {
+  if (!subject.date) return null;
+
+  for (const level of CARD_LEVELS) {
+    const card = cards
+      .filter(c => c[field] != null && getRateCardLevel(c) === level && isRateCardEffective(c, subject.date) && matchesSubject(c, subject))
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+    if (card) return { rate: Number(card[field]), level, card };
+  }
+  return null;
+};
+
+export const resolveRates = (
+  cards: RateCard[],
+  subject: RateSubject,
+  profile?: Pick<Profile, 'hourly_rate'> | null
+) => ({
+  pay: resolveRate(cards, subject, 'pay_rate')
+    || (profile?.hourly_rate != null ? { rate: profile.hourly_rate, level: 'profile_default' as const } : null),
+  bill: resolveRate(cards, subject, 'bill_rate')
+});
+
+export const describeRateSource = (resolved: ResolvedRate) =>
+  resolved.card
+    ? `${RATE_LEVEL_LABELS[resolved.level]} rate card from ${format(parseISO(resolved.card.effective_from), 'dd MMM yyyy')}`
+    : RATE_LEVEL_LABELS[resolved.level];
+
+export const getBillableAmount = (hours: number, billRate?: number | null) =>
+  billRate == null ? null : Math.round(hours * billRate * 100) / 100;
+
+export const fetchRateCards = async () => {
+  const { data, error } = await supabase
+    .from('rate_cards')
+    .select('*')
+    .order('effective_from', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as RateCard[];
+};
+
+/**
+ * The bill rate for each entry: the one it was saved with, or for entries saved without
+ * one (such as hours clocked or entered by staff), the rate card in effect on its date.
+ */
+export const fetchBillRates = async (
+  entries: Pick<WorkingHour, 'id' | 'profile_id' | 'client_id' | 'project_id' | 'date' | 'bill_rate'>[]
+) => {
+  const billRates = new Map<string, number | null>();
+  const missing = entries.filter(entry => entry.bill_rate == null);
+  entries.forEach(entry => billRates.set(entry.id, entry.bill_rate ?? null));
+  if (missing.length === 0) return billRates;
+
+  const [cards, { data: profiles, error }] = await Promise.all([
+    fetchRateCards(),
+    supabase.from('profiles').select('id, role').in('id', [...new Set(missing.map(entry => entry.profile_id))])
+  ]);
+  if (error) throw error;
+
+  missing.forEach(entry => {
+    const role = profiles?.find(p => p.id === entry.profile_id)?.role;
+    billRates.set(entry.id, resolveRate(cards, { ...entry, role }, 'bill_rate')?.rate ?? null);
+  });
+  return billRates;
+};
@@ -0,0 +1,74 @@
+import { Roster } from "@/types/database";
+import { MINUTES_PER_DAY, daysBetween, getShiftMinutes, minutesToTime, shiftDateString, timeToMinutes } from "@/lib/time";
+
+// Pure helpers for the drag-and-drop roster board: which gestures a roster allows,
+// and what a drag or resize turns its dates and times into.
+
+export type BoardGesture = 'assign' | 'move' | 'resize';
+
+export const BOARD_SNAP_MINUTES = 15;
+
+/**
+ * Why a roster cannot take the given gesture, or null when it can. Locked and cancelled
+ * rosters are frozen; confirmed rosters keep their agreed date and times but can still
+ * have open slots filled or staff swapped.
+ */
+export const getBoardBlockReason = (roster: Roster, gesture: BoardGesture) => {
+  if (roster.is_locked) return 'This roster is locked';
+  if (roster.status === 'cancelled') return 'Cancelled rosters cannot be changed';
+  if (roster.status === 'confirmed' && gesture !== 'assign') {
+    return 'Set the roster back to pending before changing its date or times';
+  }
+  return null;
+};
+
+// Multi-day rosters keep their span when dragged to a new start day
+export const moveRosterDates = (roster: Roster, date: string) => {
+  const offset = daysBetween(roster.date, date);
+  return {
+    date,
+    end_date: roster.end_date ? shiftDateString(roster.end_date, offset) : null
+  };
+};
+
+const snap = (minutes: number) => Math.round(minutes / BOARD_SNAP_MINUTES) * BOARD_SNAP_MINUTES;
+
+/**
+ * New start and end times after dragging one edge of a shift by deltaMinutes, snapped
+ * to the board grid. The shift keeps at least one snap interval and stays under a day;
+ * pushing the end past midnight makes it an overnight shift.
+ */
+export const resizeShift = (startTime: string, endTime: string, edge: 'start' | 'end', deltaMinutes: number) => {
+  const start = timeToMinutes(startTime);
+  const length = getShiftMinutes(startTime, endTime);
+  const maxLength = MINUTES_PER_DAY - BOARD_SNAP_MINUTES;
+  const delta = snap(deltaMinutes);
+
+  if (edge === 'end') {
+    const newLength = Math.min(maxLength, Math.max(BOARD_SNAP_MINUTES, length + delta));
+    return { start_time: startTime.slice(0, 5), end_time: minutesToTime(start + newLength) };
+  }
+
+  // The start edge can't move past midnight of the roster's own day
+  const end = start + length;
+  const newStart = Math.max(0, Math.min(end - BOARD_SNAP_MINUTES, start + delta, MINUTES_PER_DAY - BOARD_SNAP_MINUTES));
+  const newLength = Math.min(maxLength, end - newStart);
+  return { start_time: minutesToTime(newStart), end_time: minutesToTime(newStart + newLength) };
+};
+
+/**
+ * Horizontal placement of a shift inside a day cell, as percentages of the day. An
+ * overnight shift is cut at midnight and continues from 00:00 in the next day's cell.
+ */
+export const getShiftBarPosition = (startTime: string, endTime: string, segment: 'first' | 'overnight' = 'first') => {
+  const start = timeToMinutes(startTime);
+  const end = start + getShiftMinutes(startTime, endTime);
+
+  const from = segment === 'first' ? start : 0;
+  const to = segment === 'first' ? Math.min(end, MINUTES_PER_DAY) : Math.max(0, end - MINUTES_PER_DAY);
+
+  return {
+    left: (from / MINUTES_PER_DAY) * 100,
+    width: (Math.max(to - from, 0) / MINUTES_PER_DAY) * 100
+  };
+};
@@ -0,0 +1,183 @@
+import { format, parseISO } from "date-fns";
+import { Roster, WorkingHour } from "@/types/database";
+import { getShiftInterval, shiftDateString } from "@/lib/time";
+
+export interface ShiftWindow {
+  date: string;
+  end_date?: string | null;
+  start_time: string;
+  end_time: string;
+}
+
+export interface ScheduleConflict {
+  profile_id: string;
+  source: 'roster' | 'working_hours';
+  id: string;
+  label: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+}
+
+export interface RosterConflictPair {
+  profile_id: string;
+  profile_name: string;
+  roster: Roster;
+  conflict: ScheduleConflict;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Expands a shift into absolute time intervals, one per day it runs.
+ * Multi-day rosters repeat their daily window from date to end_date, and an
+ * end time before the start time is treated as finishing the next day.
+ */
+export const getShiftIntervals = (shift: ShiftWindow): Interval[] => {
+  if (!shift.date || !shift.start_time || !shift.end_time) return [];
+
+  const lastDay = shift.end_date && shift.end_date > shift.date ? shift.end_date : shift.date;
+  const intervals: Interval[] = [];
+
+  for (let day = shift.date; day <= lastDay; day = shiftDateString(day, 1)) {
+    const { start, end } = getShiftInterval(day, shift.start_time, shift.end_time);
+    intervals.push({ start: start.getTime(), end: end.getTime() });
+  }
+
+  return intervals;
+};
+
+/**
+ * Date range (yyyy-MM-dd) that needs loading to check the given shifts, padded by a
+ * day either side so shifts crossing midnight are caught. Empty strings when no shift
+ * has a date yet.
+ */
+export const getShiftDateRange = (shifts: ShiftWindow[]) => {
+  const validShifts = shifts.filter(s => s.date && s.start_time && s.end_time);
+  if (validShifts.length === 0) return { rangeStart: '', rangeEnd: '' };
+
+  const startDates = validShifts.map(s => s.date).sort();
+  const endDates = validShifts.map(s => (s.end_date && s.end_date > s.date ? s.end_date : s.date)).sort();
+
+  return {
+    rangeStart: shiftDateString(startDates[0], -1),
+    rangeEnd: shiftDateString(endDates[endDates.length - 1], 1)
+  };
+};
+
+export const shiftsOverlap = (a: ShiftWindow, b: ShiftWindow) => {
+  const aIntervals = getShiftIntervals(a);
+  const bIntervals = getShiftIntervals(b);
+  return aIntervals.some(x => bIntervals.some(y => x.start < y.end && y.start < x.end));
+};
+
+// Logged hours are compared on the times actually worked when they were recorded
+export const workingHourWindow = (workingHour: WorkingHour): ShiftWindow => ({
+  date: workingHour.date,
+  start_time: workingHour.sign_in_time || workingHour.start_time,
+  end_time: workingHour.sign_out_time || workingHour.end_time
+});
+
+const rosterConflict = (profileId: string, roster: Roster): ScheduleConflict => ({
+  profile_id: profileId,
+  source: 'roster',
+  id: roster.id,
+  label: roster.name || roster.projects?.name || 'Roster',
+  date: roster.date,
+  start_time: roster.start_time,
+  end_time: roster.end_time
+});
+
+const workingHourConflict = (workingHour: WorkingHour): ScheduleConflict => {
+  const window = workingHourWindow(workingHour);
+  return {
+    profile_id: workingHour.profile_id,
+    source: 'working_hours',
+    id: workingHour.id,
+    label: `Logged hours${workingHour.projects?.name ? ` - ${workingHour.projects.name}` : ''}`,
+    date: window.date,
+    start_time: window.start_time,
+    end_time: window.end_time
+  };
+};
+
+/**
+ * Checks the given profiles against existing rosters and logged hours for one or more
+ * candidate shifts. Cancelled rosters, rejected hours and anything belonging to the
+ * excluded rosters (e.g. the roster being edited) are ignored.
+ */
+export const findProfileConflicts = (
+  shifts: ShiftWindow[],
+  profileIds: string[],
+  rosters: Roster[],
+  workingHours: WorkingHour[],
+  excludeRosterIds: string[] = []
+): Record<string, ScheduleConflict[]> => {
+  const conflicts: Record<string, ScheduleConflict[]> = {};
+  const excluded = new Set(excludeRosterIds);
+  const wanted = new Set(profileIds);
+
+  const add = (conflict: ScheduleConflict) => {
+    const existing = conflicts[conflict.profile_id] || [];
+    if (existing.some(c => c.source === conflict.source && c.id === conflict.id)) return;
+    conflicts[conflict.profile_id] = [...existing, conflict];
+  };
+
+  rosters.forEach(roster => {
+    if (excluded.has(roster.id) || roster.status === 'cancelled') return;
+    if (!shifts.some(shift => shiftsOverlap(shift, roster))) return;
+
+    roster.roster_profiles?.forEach(rp => {
+      if (wanted.has(rp.profile_id)) add(rosterConflict(rp.profile_id, roster));
+    });
+  });
+
+  workingHours.forEach(workingHour => {
+    if (!wanted.has(workingHour.profile_id) || workingHour.status === 'rejected') return;
+    if (workingHour.roster_id && excluded.has(workingHour.roster_id)) return;
+    if (shifts.some(shift => shiftsOverlap(shift, workingHourWindow(workingHour)))) {
+      add(workingHourConflict(workingHour));
+    }
+  });
+
+  return conflicts;
+};
+
+/**
+ * Finds every double-booking among a set of rosters (e.g. one week of the calendar),
+ * plus overlaps with hours logged against a different roster or none at all.
+ * Each roster/roster pair is reported once.
+ */
+export const findRosterConflicts = (rosters: Roster[], workingHours: WorkingHour[]): RosterConflictPair[] => {
+  const active = rosters.filter(r => r.status !== 'cancelled');
+  const pairs: RosterConflictPair[] = [];
+
+  active.forEach((roster, index) => {
+    roster.roster_profiles?.forEach(rp => {
+      const profileName = rp.profiles?.full_name || 'Unknown';
+
+      active.slice(index + 1).forEach(other => {
+        if (!other.roster_profiles?.some(orp => orp.profile_id === rp.profile_id)) return;
+        if (shiftsOverlap(roster, other)) {
+          pairs.push({ profile_id: rp.profile_id, profile_name: profileName, roster, conflict: rosterConflict(rp.profile_id, other) });
+        }
+      });
+
+      workingHours.forEach(workingHour => {
+        if (workingHour.profile_id !== rp.profile_id || workingHour.status === 'rejected') return;
+        if (workingHour.roster_id === roster.id) return;
+        if (shiftsOverlap(roster, workingHourWindow(workingHour))) {
+          pairs.push({ profile_id: rp.profile_id, profile_name: profileName, roster, conflict: workingHourConflict(workingHour) });
+        }
+      });
+    });
+  });
+
+  return pairs;
+};
+
+export const formatConflict = (conflict: ScheduleConflict) =>
+  `${conflict.label} (${format(parseISO(conflict.date), 'MMM dd')}, ${conflict.start_time.slice(0, 5)}-${conflict.end_time.slice(0, 5)})`;
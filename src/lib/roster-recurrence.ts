@@ -0,0 +1,177 @@
+import { addDays, addMonths, differenceInCalendarWeeks, format, parseISO } from "date-fns";
+import { RosterRecurrenceFrequency, RosterSeries } from "@/types/database";
+import { daysBetween, shiftDateString, toDateString } from "@/lib/time";
+
+export type RecurrenceRule = Pick<
+  RosterSeries,
+  'frequency' | 'interval' | 'by_weekday' | 'start_date' | 'until_date' | 'occurrence_count' | 'exception_dates'
+>;
+
+export interface RecurrenceFormValue {
+  frequency: 'none' | RosterRecurrenceFrequency;
+  interval: number;
+  by_weekday: number[];
+  end_type: 'until' | 'count';
+  until_date: string;
+  occurrence_count: number;
+  exception_dates: string[];
+}
+
+// Hard stop so an open-ended rule can never materialise an unbounded number of rosters
+export const MAX_SERIES_OCCURRENCES = 366;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const createDefaultRecurrence = (): RecurrenceFormValue => ({
+  frequency: 'none',
+  interval: 1,
+  by_weekday: [],
+  end_type: 'count',
+  until_date: '',
+  occurrence_count: 4,
+  exception_dates: []
+});
+
+export const recurrenceFromForm = (form: RecurrenceFormValue, startDate: string): RecurrenceRule | null => {
+  if (form.frequency === 'none' || !startDate) return null;
+
+  return {
+    frequency: form.frequency,
+    interval: Math.max(1, form.interval || 1),
+    by_weekday: form.frequency === 'weekly' || form.frequency === 'fortnightly' ? form.by_weekday : [],
+    start_date: startDate,
+    until_date: form.end_type === 'until' ? form.until_date || undefined : undefined,
+    occurrence_count: form.end_type === 'count' ? form.occurrence_count || undefined : undefined,
+    exception_dates: form.exception_dates
+  };
+};
+
+/**
+ * Expands a recurrence rule into the list of occurrence dates (yyyy-MM-dd).
+ * Like RRULE, COUNT is applied before exception dates are removed, so an
+ * excluded date still uses up one of the occurrences.
+ */
+export const generateOccurrenceDates = (rule: RecurrenceRule): string[] => {
+  const start = parseISO(rule.start_date);
+  const until = rule.until_date ? parseISO(rule.until_date) : null;
+  const limit = Math.min(rule.occurrence_count || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const interval = Math.max(1, rule.interval || 1);
+  const candidates: Date[] = [];
+
+  if (!until && !rule.occurrence_count) return [];
+
+  const accept = (date: Date) => {
+    if (until && date > until) return false;
+    candidates.push(date);
+    return candidates.length < limit;
+  };
+
+  switch (rule.frequency) {
+    case 'daily': {
+      for (let step = 0; ; step++) {
+        const date = addDays(start, step * interval);
+        if (until && date > until) break;
+        if (!accept(date)) break;
+      }
+      break;
+    }
+
+    case 'weekly':
+    case 'fortnightly': {
+      const weekStep = interval * (rule.frequency === 'fortnightly' ? 2 : 1);
+      const weekdays = rule.by_weekday.length > 0 ? rule.by_weekday : [start.getDay()];
+      // Walk day by day; bounded by the occurrence limit spread over the widest possible gap
+      const maxDays = limit * 7 * weekStep + 7;
+      for (let offset = 0; offset <= maxDays; offset++) {
+        const date = addDays(start, offset);
+        if (until && date > until) break;
+        const weekIndex = differenceInCalendarWeeks(date, start, { weekStartsOn: 1 });
+        if (weekIndex % weekStep !== 0 || !weekdays.includes(date.getDay())) continue;
+        if (!accept(date)) break;
+      }
+      break;
+    }
+
+    case 'monthly': {
+      const dayOfMonth = start.getDate();
+      for (let step = 0; step < limit * 12; step++) {
+        const date = addMonths(start, step * interval);
+        if (until && date > until) break;
+        // Months without this day (e.g. the 31st) are skipped rather than clamped
+        if (date.getDate() !== dayOfMonth) continue;
+        if (!accept(date)) break;
+      }
+      break;
+    }
+  }
+
+  const exceptions = new Set(rule.exception_dates);
+  return candidates.map(toDateString).filter(date => !exceptions.has(date));
+};
+
+export const describeRecurrence = (rule: Pick<RecurrenceRule, 'frequency' | 'interval' | 'by_weekday' | 'until_date' | 'occurrence_count'>) => {
+  const interval = Math.max(1, rule.interval || 1);
+  const weekdays = [...rule.by_weekday].sort().map(day => WEEKDAY_LABELS[day]).join(', ');
+
+  let description: string;
+  switch (rule.frequency) {
+    case 'daily':
+      description = interval === 1 ? 'Daily' : `Every ${interval} days`;
+      break;
+    case 'weekly':
+      description = interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+      if (weekdays) description += ` on ${weekdays}`;
+      break;
+    case 'fortnightly':
+      description = interval === 1 ? 'Fortnightly' : `Every ${interval * 2} weeks`;
+      if (weekdays) description += ` on ${weekdays}`;
+      break;
+    case 'monthly':
+      description = interval === 1 ? 'Monthly' : `Every ${interval} months`;
+      break;
+  }
+
+  if (rule.until_date) {
+    description += ` until ${format(parseISO(rule.until_date), 'MMM dd, yyyy')}`;
+  } else if (rule.occurrence_count) {
+    description += `, ${rule.occurrence_count} times`;
+  }
+
+  return description;
+};
+
+export type SeriesEditScope = 'occurrence' | 'following' | 'series';
+
+export interface SeriesOccurrence {
+  id: string;
+  date: string;
+  is_locked?: boolean | null;
+}
+
+/**
+ * Where each roster a series edit applies to lands once it is saved: moved by as many
+ * days as the edited occurrence was moved, with the edited times and span. "This and
+ * following" starts at the edited occurrence's original date; locked rosters never move.
+ */
+export const getEditedOccurrences = (
+  occurrences: SeriesOccurrence[],
+  scope: Exclude<SeriesEditScope, 'occurrence'>,
+  originalDate: string,
+  edit: { date: string; end_date?: string | null; start_time: string; end_time: string }
+) => {
+  const dayShift = daysBetween(originalDate, edit.date);
+  const durationDays = edit.end_date ? Math.max(0, daysBetween(edit.date, edit.end_date)) : 0;
+
+  return occurrences
+    .filter(occurrence => !occurrence.is_locked && (scope === 'series' || occurrence.date >= originalDate))
+    .map(occurrence => {
+      const date = shiftDateString(occurrence.date, dayShift);
+      return {
+        id: occurrence.id,
+        date,
+        end_date: durationDays > 0 ? shiftDateString(date, durationDays) : null,
+        start_time: edit.start_time,
+        end_time: edit.end_time
+      };
+    });
+};
@@ -0,0 +1,137 @@
+import { Database } from "@/integrations/supabase/types";
+import { Roster, RosterTemplateShift } from "@/types/database";
+import { getRosterTeam } from "@/lib/roster-timesheets";
+import { calculateShiftHours, daysBetween, shiftDateString } from "@/lib/time";
+
+type RosterInsert = Database["public"]["Tables"]["rosters"]["Insert"];
+type TemplateShiftInsert = Database["public"]["Tables"]["roster_template_shifts"]["Insert"];
+
+/**
+ * A roster that has not been saved yet, produced by copying a week or applying a
+ * template. profile_id is the roster's primary profile and profile_ids the team that
+ * gets roster_profiles rows.
+ */
+export interface RosterDraft {
+  key: string;
+  name: string;
+  client_id: string;
+  project_id: string;
+  date: string;
+  end_date: string | null;
+  start_time: string;
+  end_time: string;
+  break_minutes: number;
+  expected_profiles: number;
+  per_hour_rate: number;
+  notes: string;
+  profile_id: string | null;
+  profile_ids: string[];
+}
+
+export interface WeekCopy {
+  drafts: RosterDraft[];
+  skippedCancelled: number;
+  skippedSeries: number;
+}
+
+const spanDays = (date: string, endDate?: string | null) =>
+  endDate && endDate > date ? daysBetween(date, endDate) : 0;
+
+const rosterToDraft = (roster: Roster, date: string): RosterDraft => {
+  const duration = spanDays(roster.date, roster.end_date);
+  return {
+    key: `${roster.id}-${date}`,
+    name: roster.name || '',
+    client_id: roster.client_id,
+    project_id: roster.project_id,
+    date,
+    end_date: duration > 0 ? shiftDateString(date, duration) : null,
+    start_time: roster.start_time,
+    end_time: roster.end_time,
+    break_minutes: roster.break_minutes || 0,
+    expected_profiles: roster.expected_profiles || 1,
+    per_hour_rate: roster.per_hour_rate || 0,
+    notes: roster.notes || '',
+    profile_id: roster.profile_id,
+    profile_ids: getRosterTeam(roster)
+  };
+};
+
+/**
+ * Copies every roster starting in the source week onto the same weekday of the target
+ * week. Cancelled rosters are left behind, and so are series occurrences because their
+ * series already generates the later weeks.
+ */
+export const buildWeekCopy = (rosters: Roster[], sourceWeekStart: string, targetWeekStart: string): WeekCopy => {
+  const sourceWeekEnd = shiftDateString(sourceWeekStart, 6);
+  const offset = daysBetween(sourceWeekStart, targetWeekStart);
+  const inWeek = rosters.filter(r => r.date >= sourceWeekStart && r.date <= sourceWeekEnd);
+
+  const cancelled = inWeek.filter(r => r.status === 'cancelled');
+  const series = inWeek.filter(r => r.status !== 'cancelled' && r.series_id);
+  const copyable = inWeek.filter(r => r.status !== 'cancelled' && !r.series_id);
+
+  return {
+    drafts: copyable
+      .sort((a, b) => a.date.localeCompare(b.date) || a.start_time.localeCompare(b.start_time))
+      .map(roster => rosterToDraft(roster, shiftDateString(roster.date, offset))),
+    skippedCancelled: cancelled.length,
+    skippedSeries: series.length
+  };
+};
+
+export const rosterToTemplateShift = (roster: Roster, weekStart: string): Omit<TemplateShiftInsert, 'template_id'> => ({
+  day_offset: daysBetween(weekStart, roster.date),
+  name: roster.name || null,
+  client_id: roster.client_id,
+  project_id: roster.project_id,
+  start_time: roster.start_time,
+  end_time: roster.end_time,
+  break_minutes: roster.break_minutes || 0,
+  duration_days: spanDays(roster.date, roster.end_date),
+  expected_profiles: roster.expected_profiles || 1,
+  per_hour_rate: roster.per_hour_rate || 0,
+  notes: roster.notes || null,
+  profile_ids: roster.roster_profiles?.map(rp => rp.profile_id) || []
+});
+
+// Template shifts without a default team are created without anyone assigned
+export const templateShiftToDraft = (shift: RosterTemplateShift, weekStart: string): RosterDraft => {
+  const date = shiftDateString(weekStart, shift.day_offset);
+  return {
+    key: `${shift.id}-${date}`,
+    name: shift.name || '',
+    client_id: shift.client_id,
+    project_id: shift.project_id,
+    date,
+    end_date: shift.duration_days > 0 ? shiftDateString(date, shift.duration_days) : null,
+    start_time: shift.start_time,
+    end_time: shift.end_time,
+    break_minutes: shift.break_minutes || 0,
+    expected_profiles: shift.expected_profiles || 1,
+    per_hour_rate: shift.per_hour_rate || 0,
+    notes: shift.notes || '',
+    profile_id: shift.profile_ids[0] || null,
+    profile_ids: shift.profile_ids
+  };
+};
+
+// What create_roster_drafts needs for a draft: its roster row and the team to assign.
+// The primary profile is only kept when it is still on that team.
+export const draftToRosterFields = (draft: RosterDraft, profileIds: string[]): RosterInsert & { profile_ids: string[] } => ({
+  name: draft.name || null,
+  client_id: draft.client_id,
+  project_id: draft.project_id,
+  profile_id: draft.profile_id,
+  profile_ids: profileIds,
+  date: draft.date,
+  end_date: draft.end_date,
+  start_time: draft.start_time,
+  end_time: draft.end_time,
+  break_minutes: draft.break_minutes,
+  total_hours: calculateShiftHours(draft.start_time, draft.end_time, draft.break_minutes),
+  expected_profiles: draft.expected_profiles,
+  per_hour_rate: draft.per_hour_rate,
+  notes: draft.notes || null,
+  status: 'pending'
+});
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { reconcileHours } from "@/lib/roster-timesheets";
+import { Roster, WorkingHour } from "@/types/database";
+
+const roster = {
+  id: 'roster-1',
+  profile_id: 'alex',
+  client_id: 'client-1',
+  project_id: 'project-1',
+  date: '2026-10-19',
+  end_date: '2026-10-20',
+  start_time: '09:00',
+  end_time: '17:00',
+  total_hours: 8,
+  status: 'confirmed',
+  roster_profiles: [{ profile_id: 'alex' }]
+} as Roster;
+
+const row = (overrides: Partial<WorkingHour>) => ({
+  id: `${overrides.date}-${overrides.profile_id}`,
+  roster_id: roster.id,
+  profile_id: 'alex',
+  client_id: roster.client_id,
+  project_id: roster.project_id,
+  start_time: roster.start_time,
+  end_time: roster.end_time,
+  total_hours: 8,
+  status: 'pending',
+  ...overrides
+}) as WorkingHour;
+
+describe('reconcileHours', () => {
+  it('treats unclocked generated rows as missing shifts', () => {
+    const [alex] = reconcileHours([roster], [
+      row({ date: '2026-10-19' }),
+      row({ date: '2026-10-20' })
+    ], '2026-10-19', '2026-10-25');
+
+    expect(alex).toMatchObject({ rosteredShifts: 2, loggedShifts: 0, actualHours: 0, missingShifts: 2, variance: -16 });
+  });
+
+  it('counts rows once they are clocked or approved', () => {
+    const [alex] = reconcileHours([roster], [
+      row({ date: '2026-10-19', sign_in_time: '09:05', sign_out_time: '16:35', actual_hours: 7.5 }),
+      row({ date: '2026-10-20', status: 'approved' })
+    ], '2026-10-19', '2026-10-25');
+
+    expect(alex).toMatchObject({ loggedShifts: 2, actualHours: 15.5, missingShifts: 0, variance: -0.5 });
+  });
+});
@@ -0,0 +1,258 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { RateCard, Roster, UserRole, WorkingHour } from "@/types/database";
+import { calculateShiftHours, shiftDateString } from "@/lib/time";
+import { recalculateOvertime } from "@/lib/overtime";
+import { fetchRateCards, resolveRate } from "@/lib/rate-cards";
+
+type WorkingHourInsert = Database["public"]["Tables"]["working_hours"]["Insert"];
+
+type WorkingHourKey = Pick<WorkingHour, 'roster_id' | 'profile_id' | 'date'>;
+
+// Everyone working the roster; rosters saved before roster_profiles existed only have a primary profile
+export const getRosterTeam = (roster: Pick<Roster, 'profile_id' | 'roster_profiles'>) => {
+  const team = roster.roster_profiles?.map(rp => rp.profile_id) || [];
+  if (team.length > 0) return team;
+  return roster.profile_id ? [roster.profile_id] : [];
+};
+
+// Each day a roster runs, from date to end_date inclusive
+export const getRosterDays = (roster: Pick<Roster, 'date' | 'end_date'>) => {
+  const lastDay = roster.end_date && roster.end_date > roster.date ? roster.end_date : roster.date;
+  const days: string[] = [];
+  for (let day = roster.date; day <= lastDay; day = shiftDateString(day, 1)) {
+    days.push(day);
+  }
+  return days;
+};
+
+const keyOf = (rosterId: string, profileId: string, date: string) => `${rosterId}|${profileId}|${date}`;
+
+/**
+ * Pending timesheet rows for a roster, one per team member per rostered day, at the
+ * roster's times and per-hour rate. A rate card for the member on the project, or their
+ * role on the project, replaces the roster's rate. Rows that already exist are left out
+ * so generation can run as often as needed. Pass onlyDate to generate a single day.
+ */
+export const buildRosterWorkingHours = (
+  roster: Roster,
+  existing: WorkingHourKey[],
+  onlyDate?: string,
+  rateCards: RateCard[] = [],
+  roles: Record<string, UserRole> = {}
+): WorkingHourInsert[] => {
+  if (roster.status === 'cancelled') return [];
+
+  const existingKeys = new Set(existing.map(wh => keyOf(wh.roster_id || '', wh.profile_id, wh.date)));
+  const days = getRosterDays(roster).filter(day => !onlyDate || day === onlyDate);
+  const breakMinutes = roster.break_minutes || 0;
+  const totalHours = calculateShiftHours(roster.start_time, roster.end_time, breakMinutes);
+
+  const rateFor = (profileId: string, date: string) => {
+    const card = resolveRate(rateCards, { ...roster, profile_id: profileId, role: roles[profileId], date }, 'pay_rate');
+    return card && card.level !== 'client' ? card.rate : roster.per_hour_rate || card?.rate || 0;
+  };
+
+  return days.flatMap(date =>
+    getRosterTeam(roster)
+      .filter(profileId => !existingKeys.has(keyOf(roster.id, profileId, date)))
+      .map(profileId => ({ profileId, rate: rateFor(profileId, date) }))
+      .map(({ profileId, rate }) => ({
+        roster_id: roster.id,
+        profile_id: profileId,
+        client_id: roster.client_id,
+        project_id: roster.project_id,
+        date,
+        start_time: roster.start_time,
+        end_time: roster.end_time,
+        break_minutes: breakMinutes,
+        total_hours: totalHours,
+        hourly_rate: rate,
+        payable_amount: totalHours * rate,
+        status: 'pending' as const
+      }))
+  );
+};
+
+/**
+ * Creates the missing timesheet rows for the given rosters and returns how many were
+ * added. Existing rows, including ones already edited or approved, are never touched.
+ * The new rows count towards their week, so its overtime is worked out again.
+ */
+export const generateRosterWorkingHours = async (rosterIds: string[], onlyDate?: string) => {
+  if (rosterIds.length === 0) return 0;
+
+  const { data: rosters, error: rostersError } = await supabase
+    .from('rosters')
+    .select(`
+      *,
+      roster_profiles!roster_profiles_roster_id_fkey (id, profile_id)
+    `)
+    .in('id', rosterIds);
+
+  if (rostersError) throw rostersError;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('working_hours')
+    .select('roster_id, profile_id, date')
+    .in('roster_id', rosterIds);
+
+  if (existingError) throw existingError;
+
+  const rosterList = (rosters || []) as unknown as Roster[];
+  const team = [...new Set(rosterList.flatMap(getRosterTeam))];
+  const [rateCards, { data: profiles, error: profilesError }] = await Promise.all([
+    fetchRateCards(),
+    supabase.from('profiles').select('id, role').in('id', team)
+  ]);
+
+  if (profilesError) throw profilesError;
+
+  const roles = Object.fromEntries((profiles || []).map(p => [p.id, p.role]));
+  const rows = rosterList
+    .flatMap(roster => buildRosterWorkingHours(roster, (existing || []) as WorkingHourKey[], onlyDate, rateCards, roles));
+
+  if (rows.length === 0) return 0;
+
+  // The unique (roster_id, profile_id, date) key absorbs a concurrent run doing the same
+  const { data: created, error } = await supabase
+    .from('working_hours')
+    .upsert(rows, { onConflict: 'roster_id,profile_id,date', ignoreDuplicates: true })
+    .select('profile_id, date');
+
+  if (error) throw error;
+  if (created?.length) await recalculateOvertime(created);
+  return created?.length || 0;
+};
+
+/**
+ * Closing a day creates the missing timesheet rows for that day of every roster that
+ * ran on it, including multi-day rosters that started earlier. Returns how many rows
+ * were created.
+ */
+export const closeRosterDay = async (date: string) => {
+  const { data, error } = await supabase
+    .from('rosters')
+    .select('id')
+    .neq('status', 'cancelled')
+    .lte('date', date)
+    .or(`end_date.gte.${date},date.eq.${date}`);
+
+  if (error) throw error;
+  return generateRosterWorkingHours((data || []).map(r => r.id), date);
+};
+
+/**
+ * A generated row nobody has worked on yet: still pending, never clocked and not part of
+ * a submitted timesheet or approval chain. Only these follow later roster changes;
+ * anything past this stage is someone's record of the shift and is left alone.
+ */
+export const isRosterPlaceholder = (
+  wh: Pick<WorkingHour, 'roster_id' | 'status' | 'sign_in_time' | 'actual_hours' | 'timesheet_submission_id' | 'approval_chain_id'>
+) =>
+  !!wh.roster_id &&
+  wh.status === 'pending' &&
+  !wh.sign_in_time &&
+  wh.actual_hours == null &&
+  !wh.timesheet_submission_id &&
+  !wh.approval_chain_id;
+
+/**
+ * Drops the placeholder rows generated for the given rosters, or only those of the given
+ * people when someone is taken off a roster, and works out their weeks' overtime again.
+ */
+export const releaseRosterWorkingHours = async (rosterIds: string[], profileIds?: string[]) => {
+  if (rosterIds.length === 0 || profileIds?.length === 0) return;
+
+  let query = supabase
+    .from('working_hours')
+    .delete()
+    .in('roster_id', rosterIds)
+    .eq('status', 'pending')
+    .is('sign_in_time', null)
+    .is('actual_hours', null)
+    .is('timesheet_submission_id', null)
+    .is('approval_chain_id', null);
+
+  if (profileIds) query = query.in('profile_id', profileIds);
+
+  const { data: released, error } = await query.select('profile_id, date');
+  if (error) throw error;
+  if (released?.length) await recalculateOvertime(released);
+};
+
+/**
+ * Rebuilds the placeholder rows of rosters whose days, times, rate or team changed, so
+ * they match the roster again. Rosters no longer confirmed only lose their placeholders.
+ * Returns how many rows were created.
+ */
+export const refreshRosterWorkingHours = async (rosterIds: string[], confirmed: boolean) => {
+  await releaseRosterWorkingHours(rosterIds);
+  return confirmed ? generateRosterWorkingHours(rosterIds) : 0;
+};
+
+export interface HoursReconciliation {
+  profile_id: string;
+  rosteredShifts: number;
+  rosteredHours: number;
+  loggedShifts: number;
+  actualHours: number;
+  unrosteredHours: number;
+  missingShifts: number;
+  variance: number;
+}
+
+/**
+ * Rostered against actual hours per person between two dates. Rostered hours come from
+ * non-cancelled rosters; actual hours from working_hours that weren't rejected, using
+ * the signed hours when recorded. Generated placeholders nobody has clocked don't count
+ * as worked, so a rostered day with no row or only a placeholder counts as missing, and
+ * hours logged outside any roster as unrostered.
+ */
+export const reconcileHours = (
+  rosters: Roster[],
+  workingHours: WorkingHour[],
+  rangeStart: string,
+  rangeEnd: string
+): HoursReconciliation[] => {
+  const rows: Record<string, HoursReconciliation> = {};
+  const rowFor = (profileId: string) => rows[profileId] ||= {
+    profile_id: profileId,
+    rosteredShifts: 0,
+    rosteredHours: 0,
+    loggedShifts: 0,
+    actualHours: 0,
+    unrosteredHours: 0,
+    missingShifts: 0,
+    variance: 0
+  };
+
+  const logged = workingHours.filter(wh =>
+    wh.status !== 'rejected' && !isRosterPlaceholder(wh) && wh.date >= rangeStart && wh.date <= rangeEnd
+  );
+  const loggedKeys = new Set(logged.filter(wh => wh.roster_id).map(wh => keyOf(wh.roster_id!, wh.profile_id, wh.date)));
+
+  rosters.filter(r => r.status !== 'cancelled').forEach(roster => {
+    const hours = calculateShiftHours(roster.start_time, roster.end_time, roster.break_minutes || 0);
+    getRosterDays(roster)
+      .filter(day => day >= rangeStart && day <= rangeEnd)
+      .forEach(day => {
+        getRosterTeam(roster).forEach(profileId => {
+          const row = rowFor(profileId);
+          row.rosteredShifts += 1;
+          row.rosteredHours += hours;
+          if (!loggedKeys.has(keyOf(roster.id, profileId, day))) row.missingShifts += 1;
+        });
+      });
+  });
+
+  logged.forEach(wh => {
+    const row = rowFor(wh.profile_id);
+    const hours = wh.actual_hours ?? wh.total_hours;
+    row.loggedShifts += 1;
+    row.actualHours += hours;
+    if (!wh.roster_id) row.unrosteredHours += hours;
+  });
+
+  return Object.values(rows).map(row => ({ ...row, variance: row.actualHours - row.rosteredHours }));
+};
@@ -0,0 +1,140 @@
+import { addMonths, format, parseISO, startOfQuarter, endOfQuarter } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { BankTransaction, SuperAccrual, SuperGuaranteeRate } from "@/types/database";
+import { toDateString } from "@/lib/time";
+
+// Employer super contributions. Each payroll accrues the guarantee percentage of its
+// ordinary-time earnings, and the accruals are paid to the funds each calendar quarter,
+// by the 28th of the month after it ends.
+
+export interface SuperQuarter {
+  start: string;
+  end: string;
+  due_date: string;
+  label: string;
+}
+
+export interface SuperQuarterRow {
+  profile_id: string;
+  ordinary_time_earnings: number;
+  amount: number;
+  // Accrued but not yet matched to the payment that paid it
+  unpaid: number;
+  accruals: SuperAccrual[];
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+// The latest percentage in effect on the date, or null before the first rate
+export const resolveGuaranteeRate = (rates: SuperGuaranteeRate[], date: string) =>
+  rates
+    .filter(rate => rate.effective_from <= date)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0]?.percentage ?? null;
+
+export const getSuperQuarter = (date: string): SuperQuarter => {
+  const start = startOfQuarter(parseISO(date));
+  const end = endOfQuarter(start);
+  return {
+    start: toDateString(start),
+    end: toDateString(end),
+    due_date: `${format(addMonths(start, 3), 'yyyy-MM')}-28`,
+    label: `${format(start, 'MMM')}–${format(end, 'MMM yyyy')}`
+  };
+};
+
+// The quarter before the given one
+export const getPreviousSuperQuarter = (quarter: SuperQuarter) =>
+  getSuperQuarter(toDateString(addMonths(parseISO(quarter.start), -3)));
+
+// Each employee's accruals for the quarter, with what is still to be paid
+export const summariseSuperQuarter = (accruals: SuperAccrual[]): SuperQuarterRow[] => {
+  const rows = new Map<string, SuperQuarterRow>();
+  accruals.forEach(accrual => {
+    const row = rows.get(accrual.profile_id)
+      || { profile_id: accrual.profile_id, ordinary_time_earnings: 0, amount: 0, unpaid: 0, accruals: [] };
+    row.ordinary_time_earnings = roundCurrency(row.ordinary_time_earnings + Number(accrual.ordinary_time_earnings));
+    row.amount = roundCurrency(row.amount + Number(accrual.amount));
+    if (!accrual.bank_transaction_id) row.unpaid = roundCurrency(row.unpaid + Number(accrual.amount));
+    row.accruals.push(accrual);
+    rows.set(accrual.profile_id, row);
+  });
+  return [...rows.values()];
+};
+
+// Payments made up to a month late are still offered for matching
+const getLatestPaymentDate = (quarter: SuperQuarter) => toDateString(addMonths(parseISO(quarter.due_date), 1));
+
+/**
+ * Withdrawals that could have paid a quarter's contributions: those made from the start
+ * of the quarter to a month after the due date, closest in amount to what is unpaid first.
+ * Withdrawals already matched to other accruals are left out.
+ */
+export const getSuperPaymentCandidates = (
+  transactions: BankTransaction[],
+  quarter: SuperQuarter,
+  unpaid: number,
+  matchedIds: Set<string>
+) => {
+  const latest = getLatestPaymentDate(quarter);
+  return transactions
+    .filter(t => t.type === 'withdrawal' && t.date >= quarter.start && t.date <= latest && !matchedIds.has(t.id))
+    .sort((a, b) => Math.abs(Number(a.amount) - unpaid) - Math.abs(Number(b.amount) - unpaid) || a.date.localeCompare(b.date));
+};
+
+export const fetchGuaranteeRates = async () => {
+  const { data, error } = await supabase
+    .from('super_guarantee_rates')
+    .select('*')
+    .order('effective_from', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as SuperGuaranteeRate[];
+};
+
+export const fetchSuperAccruals = async (quarter: SuperQuarter) => {
+  const { data, error } = await supabase
+    .from('super_accruals')
+    .select('*, profiles (*), bank_transactions (*)')
+    .gte('pay_period_end', quarter.start)
+    .lte('pay_period_end', quarter.end)
+    .order('pay_period_end');
+
+  if (error) throw error;
+  return (data || []) as unknown as SuperAccrual[];
+};
+
+/**
+ * Withdrawals that could have paid the quarter, with the ids of those already matched
+ * to accruals in any quarter.
+ */
+export const fetchSuperPaymentTransactions = async (quarter: SuperQuarter) => {
+  const { data, error } = await supabase
+    .from('bank_transactions')
+    .select('*')
+    .eq('type', 'withdrawal')
+    .gte('date', quarter.start)
+    .lte('date', getLatestPaymentDate(quarter))
+    .order('date');
+
+  if (error) throw error;
+  const transactions = (data || []) as BankTransaction[];
+  if (transactions.length === 0) return { transactions, matchedIds: new Set<string>() };
+
+  const { data: matched, error: matchedError } = await supabase
+    .from('super_accruals')
+    .select('bank_transaction_id')
+    .in('bank_transaction_id', transactions.map(t => t.id));
+
+  if (matchedError) throw matchedError;
+  return { transactions, matchedIds: new Set((matched || []).map(row => row.bank_transaction_id as string)) };
+};
+
+// Links the accruals to the withdrawal that paid them, or unlinks them with null
+export const matchSuperPayment = async (accrualIds: string[], bankTransactionId: string | null) => {
+  const { error } = await supabase
+    .from('super_accruals')
+    .update({ bank_transaction_id: bankTransactionId })
+    .in('id', accrualIds);
+
+  if (error) throw error;
+};
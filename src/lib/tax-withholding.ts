@@ -0,0 +1,141 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Profile, TaxScale, TaxScaleBracket } from "@/types/database";
+import { ImportCell } from "@/lib/timesheet-import";
+
+// Tax withheld from pay under the uploaded tax scales. A scale's brackets are marginal
+// rates on annual income, so a period's gross pay is annualised, taxed and brought back
+// to the period. Tax years run from 1 July, as Australian withholding does.
+
+export type PayFrequency = 'weekly' | 'fortnightly' | 'monthly';
+
+export const PERIODS_PER_YEAR: Record<PayFrequency, number> = {
+  weekly: 52,
+  fortnightly: 26,
+  monthly: 12
+};
+
+// Pay can't be worked out without a scale, so there is no flat rate to fall back on
+export const MISSING_TAX_SCALE_NOTE =
+  "No tax scale is in effect for the pay date. Upload the current scales under Tax Scales before paying this employee.";
+
+export interface WithholdingInput {
+  // With its brackets loaded
+  scale: TaxScale | null;
+  frequency: PayFrequency;
+  hasTaxFileNumber: boolean;
+}
+
+export interface Withholding {
+  label: string;
+  amount: number;
+  tax_scale_id: string | null;
+}
+
+// Periods of up to a week are weekly, up to a fortnight fortnightly, and longer ones monthly
+export const getPayFrequency = (periodStart: string, periodEnd: string): PayFrequency => {
+  const days = differenceInCalendarDays(parseISO(periodEnd), parseISO(periodStart)) + 1;
+  return days <= 7 ? 'weekly' : days <= 14 ? 'fortnightly' : 'monthly';
+};
+
+// Each bracket's rate applies from its threshold up to the next one
+export const getAnnualTax = (annualIncome: number, brackets: Pick<TaxScaleBracket, 'threshold' | 'rate'>[]) => {
+  const sorted = [...brackets].sort((a, b) => a.threshold - b.threshold);
+  return sorted.reduce((tax, bracket, index) => {
+    const upper = sorted[index + 1]?.threshold ?? Infinity;
+    const taxed = Math.min(annualIncome, upper) - bracket.threshold;
+    return taxed > 0 ? tax + taxed * bracket.rate / 100 : tax;
+  }, 0);
+};
+
+// The latest scale in effect on the date for employees with the same tax-free threshold claim
+export const resolveTaxScale = (scales: TaxScale[], taxFreeThresholdClaimed: boolean, date: string) =>
+  scales
+    .filter(scale => scale.tax_free_threshold_claimed === taxFreeThresholdClaimed && scale.effective_from <= date)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0] || null;
+
+export const getWithholdingInput = (
+  scales: TaxScale[],
+  profile: Pick<Profile, 'tax_file_number' | 'tax_free_threshold_claimed'>,
+  periodStart: string,
+  periodEnd: string
+): WithholdingInput => ({
+  scale: resolveTaxScale(scales, profile.tax_free_threshold_claimed ?? true, periodEnd),
+  frequency: getPayFrequency(periodStart, periodEnd),
+  hasTaxFileNumber: !!profile.tax_file_number?.trim()
+});
+
+/**
+ * Tax withheld from a period's gross pay. Amounts worked out on a scale are rounded to
+ * whole dollars, as in the published withholding tables. Throws when no scale is in effect.
+ */
+export const calculateWithholding = (grossPay: number, { scale, frequency, hasTaxFileNumber }: WithholdingInput): Withholding => {
+  if (!scale) throw new Error(MISSING_TAX_SCALE_NOTE);
+  if (grossPay <= 0) return { label: 'Tax withheld', amount: 0, tax_scale_id: scale.id };
+  if (!hasTaxFileNumber) {
+    return {
+      label: `Tax withheld (no TFN, ${Number(scale.no_tfn_rate)}%)`,
+      amount: Math.round(grossPay * scale.no_tfn_rate / 100),
+      tax_scale_id: scale.id
+    };
+  }
+
+  const periods = PERIODS_PER_YEAR[frequency];
+  return {
+    label: `Tax withheld (${scale.name}, ${frequency})`,
+    amount: Math.round(getAnnualTax(grossPay * periods, scale.tax_scale_brackets || []) / periods),
+    tax_scale_id: scale.id
+  };
+};
+
+const parseAmount = (value: ImportCell) =>
+  typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[$,%\s]/g, ''));
+
+/**
+ * Brackets from an uploaded sheet: each row's first two cells are the annual income the
+ * bracket starts at and its rate as a percentage. Rows without both, such as headers, are
+ * skipped.
+ */
+export const parseTaxBrackets = (rows: ImportCell[][]) =>
+  rows
+    .map(row => ({ threshold: parseAmount(row[0]), rate: parseAmount(row[1]) }))
+    .filter(bracket => Number.isFinite(bracket.threshold) && Number.isFinite(bracket.rate))
+    .sort((a, b) => a.threshold - b.threshold);
+
+// 1 July on or before the date
+export const getTaxYearStart = (date: string) => {
+  const [year, month] = date.split('-').map(Number);
+  return `${month >= 7 ? year : year - 1}-07-01`;
+};
+
+export const fetchTaxScales = async () => {
+  const { data, error } = await supabase
+    .from('tax_scales')
+    .select('*, tax_scale_brackets (*)')
+    .order('effective_from', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as TaxScale[];
+};
+
+/**
+ * Tax withheld from each employee so far this tax year, by payrolls ending between
+ * 1 July and the date. Employees with no payrolls are left out.
+ */
+export const fetchYearToDateTax = async (date: string, profileIds?: string[]) => {
+  let query = supabase
+    .from('payroll')
+    .select('profile_id, tax_withheld')
+    .gte('pay_period_end', getTaxYearStart(date))
+    .lte('pay_period_end', date);
+  if (profileIds) query = query.in('profile_id', profileIds);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const totals = new Map<string, number>();
+  (data || []).forEach(row => {
+    totals.set(row.profile_id, Math.round(((totals.get(row.profile_id) || 0) + Number(row.tax_withheld)) * 100) / 100);
+  });
+  return totals;
+};
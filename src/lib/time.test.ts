@@ -0,0 +1,91 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  calculateShiftHours,
+  daysBetween,
+  getShiftInterval,
+  getShiftMinutes,
+  shiftDateString,
+  toDateString,
+  zonedDateTime
+} from "@/lib/time";
+
+// US Eastern time moves forward an hour on 8 March 2026 and back on 1 November 2026
+const DST_ZONE = 'America/New_York';
+
+describe('getShiftMinutes', () => {
+  it('counts a shift that crosses midnight through to the next day', () => {
+    expect(getShiftMinutes('22:00', '06:00')).toBe(480);
+  });
+
+  it('treats equal start and end times as an empty shift', () => {
+    expect(getShiftMinutes('09:00', '09:00')).toBe(0);
+  });
+
+  it('accepts times with seconds as stored by Postgres', () => {
+    expect(getShiftMinutes('08:30:00', '17:00:00')).toBe(510);
+  });
+});
+
+describe('calculateShiftHours', () => {
+  it('pays an overnight shift less its break', () => {
+    expect(calculateShiftHours('22:00', '06:00')).toBe(8);
+    expect(calculateShiftHours('22:00', '06:00', 30)).toBe(7.5);
+  });
+
+  it('never goes below zero when the break is longer than the shift', () => {
+    expect(calculateShiftHours('09:00', '10:00', 90)).toBe(0);
+  });
+
+  it('pays nothing when the start and end times are equal', () => {
+    expect(calculateShiftHours('09:00', '09:00')).toBe(0);
+    expect(calculateShiftHours('09:00', '09:00', 30)).toBe(0);
+  });
+
+  it('ignores negative breaks', () => {
+    expect(calculateShiftHours('09:00', '17:00', -30)).toBe(8);
+  });
+});
+
+describe('zonedDateTime', () => {
+  it('uses the offset in effect on each side of a daylight saving change', () => {
+    expect(zonedDateTime('2026-03-07', '12:00', DST_ZONE).toISOString()).toBe('2026-03-07T17:00:00.000Z');
+    expect(zonedDateTime('2026-03-08', '12:00', DST_ZONE).toISOString()).toBe('2026-03-08T16:00:00.000Z');
+    expect(zonedDateTime('2026-11-01', '12:00', DST_ZONE).toISOString()).toBe('2026-11-01T17:00:00.000Z');
+  });
+
+  it('makes an overnight shift an hour shorter when the clocks go forward', () => {
+    const { start, end } = getShiftInterval('2026-03-07', '22:00', '06:00', DST_ZONE);
+    expect(start.toISOString()).toBe('2026-03-08T03:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-08T10:00:00.000Z');
+  });
+
+  it('makes an overnight shift an hour longer when the clocks go back', () => {
+    const { start, end } = getShiftInterval('2026-10-31', '22:00', '06:00', DST_ZONE);
+    expect((end.getTime() - start.getTime()) / 3600000).toBe(9);
+  });
+});
+
+describe('calendar dates in a zone with daylight saving', () => {
+  const originalTimeZone = process.env.TZ;
+
+  beforeAll(() => {
+    process.env.TZ = DST_ZONE;
+  });
+
+  afterAll(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  it('keeps the local date of times either side of the change', () => {
+    expect(toDateString(zonedDateTime('2026-03-08', '00:30'))).toBe('2026-03-08');
+    expect(toDateString(zonedDateTime('2026-03-08', '23:30'))).toBe('2026-03-08');
+    expect(toDateString(zonedDateTime('2026-11-01', '23:30'))).toBe('2026-11-01');
+  });
+
+  it('moves whole calendar days across the change', () => {
+    expect(shiftDateString('2026-03-07', 1)).toBe('2026-03-08');
+    expect(shiftDateString('2026-03-08', 1)).toBe('2026-03-09');
+    expect(shiftDateString('2026-11-02', -1)).toBe('2026-11-01');
+    expect(daysBetween('2026-03-07', '2026-03-09')).toBe(2);
+  });
+});
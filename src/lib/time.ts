@@ -0,0 +1,128 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+
+// Shared time and duration helpers for rosters and timesheets. Times are "HH:mm" or
+// "HH:mm:ss" wall-clock strings as stored in Postgres TIME columns, dates are
+// "yyyy-MM-dd" calendar dates. A shift whose end time is earlier than its start time
+// finishes on the following day.
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (minutes: number) => {
+  const normalised = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(normalised / 60)).padStart(2, '0')}:${String(normalised % 60).padStart(2, '0')}`;
+};
+
+export const crossesMidnight = (startTime: string, endTime: string) =>
+  timeToMinutes(endTime) < timeToMinutes(startTime);
+
+/**
+ * Length of a shift in minutes before breaks. 22:00-06:00 is 480 minutes; identical
+ * start and end times are treated as an empty shift rather than a full day.
+ */
+export const getShiftMinutes = (startTime: string, endTime: string) => {
+  if (!startTime || !endTime) return 0;
+  const start = timeToMinutes(startTime);
+  const end = timeToMinutes(endTime);
+  return end >= start ? end - start : end + MINUTES_PER_DAY - start;
+};
+
+// Paid hours for a shift, less unpaid break minutes, rounded to the cent-hour
+export const calculateShiftHours = (startTime: string, endTime: string, breakMinutes = 0) => {
+  const minutes = Math.max(0, getShiftMinutes(startTime, endTime) - Math.max(0, breakMinutes || 0));
+  return Math.round((minutes / 60) * 100) / 100;
+};
+
+export const formatTimeRange = (startTime: string, endTime: string) =>
+  `${startTime.slice(0, 5)}-${endTime.slice(0, 5)}${crossesMidnight(startTime, endTime) ? ' (+1)' : ''}`;
+
+/* Calendar dates */
+
+// Local calendar date; unlike toISOString() this does not shift to UTC
+export const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const shiftDateString = (date: string, days: number) => toDateString(addDays(parseISO(date), days));
+
+export const daysBetween = (from: string, to: string) => differenceInCalendarDays(parseISO(to), parseISO(from));
+
+const zonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value || 0);
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second')
+  };
+};
+
+/**
+ * Calendar date of an instant as seen in the given IANA time zone, e.g. the work date
+ * of a clock-in made from another site. Defaults to the browser's zone.
+ */
+export const dateStringInTimeZone = (instant: Date, timeZone?: string) => {
+  if (!timeZone) return toDateString(instant);
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export const todayString = (timeZone?: string) => dateStringInTimeZone(new Date(), timeZone);
+
+// The browser's IANA time zone, sent with clock-ins so the server records local times
+export const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * The instant a wall-clock date and time occur in the given time zone (the browser's
+ * zone when omitted). Handles daylight saving changes, unlike adding fixed hours.
+ */
+export const zonedDateTime = (date: string, time: string, timeZone?: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const minutes = timeToMinutes(time);
+
+  if (!timeZone) {
+    return new Date(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  }
+
+  // Guess as if the wall time were UTC, then correct by the zone's offset at that instant
+  const asUtc = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  const offsetAt = (instant: number) => {
+    const parts = zonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - instant;
+  };
+  const firstGuess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(firstGuess));
+};
+
+/**
+ * Absolute start and end of one day's shift. The end rolls onto the next calendar day
+ * when the shift crosses midnight.
+ */
+export const getShiftInterval = (date: string, startTime: string, endTime: string, timeZone?: string) => {
+  const endDate = crossesMidnight(startTime, endTime) ? shiftDateString(date, 1) : date;
+  return {
+    start: zonedDateTime(date, startTime, timeZone),
+    end: zonedDateTime(endDate, endTime, timeZone)
+  };
+};
+
+// Minutes between two timestamps (ISO strings or Dates), never negative
+export const minutesBetween = (from: Date | string, to: Date | string) => {
+  const start = typeof from === 'string' ? new Date(from) : from;
+  const end = typeof to === 'string' ? new Date(to) : to;
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+};
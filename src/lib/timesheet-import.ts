@@ -0,0 +1,400 @@
+import { readSheet } from "read-excel-file/browser";
+import { Database } from "@/integrations/supabase/types";
+import { Client, Profile, Project, WorkingHour } from "@/types/database";
+import { calculateShiftHours, minutesToTime, toDateString } from "@/lib/time";
+import { draftTimes } from "@/lib/timesheets";
+
+type WorkingHourInsert = Database["public"]["Tables"]["working_hours"]["Insert"];
+
+// Importing working hours from client site-sheets. The file is read into rows of cells,
+// columns are mapped to working_hours fields, names are matched to profiles, clients and
+// projects, and every row is validated before anything is saved.
+
+export type ImportCell = string | number | boolean | Date | null;
+
+export type ImportField =
+  | 'profile' | 'client' | 'project' | 'date' | 'start_time' | 'end_time' | 'break_minutes'
+  | 'hours' | 'sign_in_time' | 'sign_out_time' | 'hourly_rate' | 'notes';
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'profile', label: 'Employee', aliases: ['employee', 'name', 'staff', 'worker', 'full name', 'profile'] },
+  { field: 'client', label: 'Client', aliases: ['client', 'company', 'customer'] },
+  { field: 'project', label: 'Project', aliases: ['project', 'site', 'job'] },
+  { field: 'date', label: 'Date', aliases: ['date', 'day', 'work date', 'shift date'] },
+  { field: 'start_time', label: 'Start time', aliases: ['start', 'start time', 'from', 'time in'] },
+  { field: 'end_time', label: 'End time', aliases: ['end', 'end time', 'finish', 'to', 'time out'] },
+  { field: 'break_minutes', label: 'Break (minutes)', aliases: ['break', 'break minutes', 'breaks', 'lunch'] },
+  { field: 'hours', label: 'Hours', aliases: ['hours', 'total hours', 'total', 'hrs'] },
+  { field: 'sign_in_time', label: 'Sign in', aliases: ['sign in', 'signed in', 'clock in', 'actual start'] },
+  { field: 'sign_out_time', label: 'Sign out', aliases: ['sign out', 'signed out', 'clock out', 'actual finish'] },
+  { field: 'hourly_rate', label: 'Hourly rate', aliases: ['rate', 'hourly rate', 'pay rate'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'comments', 'comment', 'description'] }
+];
+
+// Names scoring below this are treated as not found rather than guessed
+export const MIN_MATCH_SCORE = 0.75;
+
+export interface NameMatch {
+  id: string;
+  name: string;
+  score: number;
+}
+
+export interface ImportRow {
+  rowNumber: number;
+  values: WorkingHourInsert | null;
+  profile: NameMatch | null;
+  project: NameMatch | null;
+  errors: string[];
+  // Names that only matched approximately, so the preview can ask for a second look
+  warnings: string[];
+  duplicate: boolean;
+}
+
+export interface ImportLookups {
+  profiles: Pick<Profile, 'id' | 'full_name' | 'hourly_rate'>[];
+  clients: Pick<Client, 'id' | 'company' | 'name'>[];
+  projects: Pick<Project, 'id' | 'name' | 'client_id'>[];
+}
+
+/* Reading files */
+
+/**
+ * Rows of a CSV file. Handles quoted cells containing delimiters, quotes and line breaks,
+ * and uses whichever of comma, semicolon or tab appears most in the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// The first sheet of an .xlsx workbook, or a CSV file, as rows of cells
+export const readSpreadsheet = async (file: File): Promise<ImportCell[][]> => {
+  if (/\.xlsx$/i.test(file.name)) {
+    const rows = await readSheet(file);
+    return rows
+      .map(row => row.map(value => value as ImportCell))
+      .filter(row => row.some(value => value !== null && String(value).trim() !== ''));
+  }
+  return parseCsv(await file.text());
+};
+
+/* Matching */
+
+export const normaliseName = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const levenshtein = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How alike two names are, from 0 to 1. Word order is ignored, so "Smith, John" matches
+ * "John Smith", and a typo or two still scores highly.
+ */
+export const nameSimilarity = (a: string, b: string) => {
+  const left = normaliseName(a).split(' ').sort().join(' ');
+  const right = normaliseName(b).split(' ').sort().join(' ');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+};
+
+export const findBestMatch = (value: string, options: { id: string; names: string[] }[]): NameMatch | null => {
+  let best: NameMatch | null = null;
+  options.forEach(option => {
+    option.names.filter(Boolean).forEach(name => {
+      const score = nameSimilarity(value, name);
+      if (!best || score > best.score) best = { id: option.id, name, score };
+    });
+  });
+  return best && (best as NameMatch).score >= MIN_MATCH_SCORE ? best : null;
+};
+
+// Maps each field to the column whose header looks most like one of its names
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = Object.fromEntries(IMPORT_FIELDS.map(({ field }) => [field, null])) as ColumnMapping;
+  const used = new Set<number>();
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    let bestColumn: number | null = null;
+    let bestScore = MIN_MATCH_SCORE;
+    headers.forEach((header, column) => {
+      if (used.has(column)) return;
+      const score = Math.max(...aliases.map(alias => nameSimilarity(header, alias)));
+      if (score > bestScore || (score === 1 && bestScore < 1)) {
+        bestColumn = column;
+        bestScore = score;
+      }
+    });
+    if (bestColumn !== null) {
+      mapping[field] = bestColumn;
+      used.add(bestColumn);
+    }
+  });
+
+  return mapping;
+};
+
+/* Cell values */
+
+const cellText = (cell: ImportCell | undefined) =>
+  cell === null || cell === undefined ? '' : cell instanceof Date ? cell.toISOString() : String(cell).trim();
+
+// Spreadsheet serial day numbers count from 30 Dec 1899
+const fromSerialDate = (serial: number) =>
+  toDateString(new Date(1899, 11, 30 + Math.floor(serial)));
+
+/**
+ * A calendar date from a cell: a spreadsheet date, yyyy-mm-dd, or day-first dd/mm/yyyy
+ * as used on Australian site-sheets. Returns null when the value is not a real date.
+ */
+export const parseImportDate = (cell: ImportCell | undefined): string | null => {
+  if (cell instanceof Date) {
+    return Number.isNaN(cell.getTime()) ? null : cell.toISOString().slice(0, 10);
+  }
+  if (typeof cell === 'number') return cell > 0 ? fromSerialDate(cell) : null;
+
+  const text = cellText(cell);
+  let year: number, month: number, day: number;
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/))) {
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateString(date);
+};
+
+/**
+ * A wall-clock time from a cell: a spreadsheet time, "8:30", "08:30:00", "0830",
+ * "8am" or "5:30 pm". Returns "HH:mm", or null when the value is not a time.
+ */
+export const parseImportTime = (cell: ImportCell | undefined): string | null => {
+  // Time-only cells come back as dates on 30 Dec 1899 in UTC
+  if (cell instanceof Date) {
+    return Number.isNaN(cell.getTime()) ? null : minutesToTime(cell.getUTCHours() * 60 + cell.getUTCMinutes());
+  }
+  if (typeof cell === 'number') {
+    const fraction = cell % 1;
+    return cell >= 0 ? minutesToTime(Math.round(fraction * 24 * 60)) : null;
+  }
+
+  const text = cellText(cell).toLowerCase().replace(/\s+/g, '');
+  const match = text.match(/^(\d{1,2}):?(\d{2})?(?::\d{2})?(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] || 0);
+  if (match[3] === 'pm' && hours < 12) hours += 12;
+  if (match[3] === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return null;
+  return minutesToTime(hours * 60 + minutes);
+};
+
+const parseImportNumber = (cell: ImportCell | undefined) => {
+  if (typeof cell === 'number') return cell;
+  const text = cellText(cell).replace(/[$,\s]/g, '');
+  if (!text) return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+};
+
+/* Rows */
+
+const describeMatch = (kind: string, value: string, match: NameMatch) =>
+  match.score < 1 ? `${kind} "${value}" matched to ${match.name}` : null;
+
+/**
+ * Turns the data rows of a file into working_hours inserts, collecting everything wrong
+ * with each row. Rows without errors have values; the rest have values of null.
+ */
+export const buildImportRows = (
+  rows: ImportCell[][],
+  mapping: ColumnMapping,
+  lookups: ImportLookups,
+  firstRowNumber = 2
+): ImportRow[] => {
+  const profileOptions = lookups.profiles.map(p => ({ id: p.id, names: [p.full_name] }));
+  const clientOptions = lookups.clients.map(c => ({ id: c.id, names: [c.company, c.name] }));
+
+  return rows.map((cells, index) => {
+    const get = (field: ImportField) => mapping[field] === null ? undefined : cells[mapping[field]!];
+    const text = (field: ImportField) => cellText(get(field));
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const profileName = text('profile');
+    const profile = profileName ? findBestMatch(profileName, profileOptions) : null;
+    if (!profileName) errors.push('Employee is missing');
+    else if (!profile) errors.push(`No employee matches "${profileName}"`);
+    else warnings.push(describeMatch('Employee', profileName, profile) || '');
+
+    const clientName = text('client');
+    const client = clientName ? findBestMatch(clientName, clientOptions) : null;
+    if (clientName && !client) errors.push(`No client matches "${clientName}"`);
+    else if (client) warnings.push(describeMatch('Client', clientName, client) || '');
+
+    // Projects are matched within the client when there is one
+    const projectName = text('project');
+    const projectOptions = lookups.projects
+      .filter(p => !client || p.client_id === client.id)
+      .map(p => ({ id: p.id, names: [p.name] }));
+    const project = projectName ? findBestMatch(projectName, projectOptions) : null;
+    if (!projectName) errors.push('Project is missing');
+    else if (!project) errors.push(`No project${client ? ` for ${client.name}` : ''} matches "${projectName}"`);
+    else warnings.push(describeMatch('Project', projectName, project) || '');
+
+    const date = parseImportDate(get('date'));
+    if (!date) errors.push(text('date') ? `"${text('date')}" is not a date` : 'Date is missing');
+
+    const breakMinutes = parseImportNumber(get('break_minutes')) ?? 0;
+    if (breakMinutes < 0) errors.push('Break cannot be negative');
+
+    const startTime = parseImportTime(get('start_time'));
+    const endTime = parseImportTime(get('end_time'));
+    const hours = parseImportNumber(get('hours'));
+    let times: { start_time: string; end_time: string } | null = null;
+
+    if (startTime && endTime) {
+      times = { start_time: startTime, end_time: endTime };
+    } else if (text('start_time') || text('end_time')) {
+      errors.push('Start and end times must both be valid times');
+    } else if (hours !== null && hours > 0 && hours < 24) {
+      // Only a number of hours: log it as a shift from the usual draft start
+      times = draftTimes(hours);
+    } else {
+      errors.push('Needs start and end times, or hours');
+    }
+
+    const signIn = parseImportTime(get('sign_in_time'));
+    const signOut = parseImportTime(get('sign_out_time'));
+    if ((text('sign_in_time') && !signIn) || (text('sign_out_time') && !signOut)) {
+      errors.push('Sign in and out must be valid times');
+    }
+
+    const rate = parseImportNumber(get('hourly_rate'));
+    if (text('hourly_rate') && rate === null) errors.push(`"${text('hourly_rate')}" is not a rate`);
+
+    const totalHours = times ? calculateShiftHours(times.start_time, times.end_time, breakMinutes) : 0;
+    if (times && totalHours <= 0) errors.push('Shift has no hours after the break');
+
+    const projectRecord = lookups.projects.find(p => p.id === project?.id);
+    const hourlyRate = rate ?? lookups.profiles.find(p => p.id === profile?.id)?.hourly_rate ?? 0;
+    const actualHours = signIn && signOut ? calculateShiftHours(signIn, signOut, breakMinutes) : null;
+
+    const values: WorkingHourInsert | null = errors.length === 0 && profile && projectRecord && date && times
+      ? {
+          profile_id: profile.id,
+          client_id: projectRecord.client_id,
+          project_id: projectRecord.id,
+          date,
+          start_time: times.start_time,
+          end_time: times.end_time,
+          break_minutes: breakMinutes,
+          total_hours: totalHours,
+          sign_in_time: signIn,
+          sign_out_time: signOut,
+          actual_hours: actualHours,
+          hourly_rate: hourlyRate,
+          payable_amount: (actualHours || totalHours) * hourlyRate,
+          notes: text('notes') || null,
+          status: 'pending'
+        }
+      : null;
+
+    return {
+      rowNumber: firstRowNumber + index,
+      values,
+      profile,
+      project,
+      errors,
+      warnings: warnings.filter(Boolean),
+      duplicate: false
+    };
+  });
+};
+
+const entryKey = (entry: Pick<WorkingHour, 'profile_id' | 'project_id' | 'date' | 'start_time'>) =>
+  `${entry.profile_id}|${entry.project_id}|${entry.date}|${entry.start_time.slice(0, 5)}`;
+
+/**
+ * Flags rows that repeat an existing entry, or an earlier row of the same file: the same
+ * employee on the same project, date and start time.
+ */
+export const markDuplicates = (
+  rows: ImportRow[],
+  existing: Pick<WorkingHour, 'profile_id' | 'project_id' | 'date' | 'start_time'>[]
+) => {
+  const seen = new Set(existing.map(entryKey));
+  return rows.map(row => {
+    if (!row.values) return row;
+    const key = entryKey(row.values as Pick<WorkingHour, 'profile_id' | 'project_id' | 'date' | 'start_time'>);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...row, duplicate };
+  });
+};
+
+export const getImportableRows = (rows: ImportRow[]) =>
+  rows.filter(row => row.values && !row.duplicate).map(row => row.values!);
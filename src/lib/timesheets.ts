@@ -0,0 +1,146 @@
+import { WorkingHour } from "@/types/database";
+import { minutesToTime, shiftDateString, timeToMinutes } from "@/lib/time";
+
+// Weekly timesheet grid: one row per client/project, one column per day Monday to Sunday.
+// Each cell is the hours worked there that day. Hours typed into the grid are stored as
+// draft working_hours starting at DRAFT_START_TIME; entries from rosters, the kiosk or
+// already submitted are shown in the grid but can only be changed by an approver.
+// Drafts are saved through save_timesheet_drafts, which works out their hours and pay.
+
+export const DRAFT_START_TIME = '09:00';
+// A draft has to start and finish within 24 hours of DRAFT_START_TIME
+export const MAX_CELL_HOURS = 24;
+
+export interface TimesheetRow {
+  key: string;
+  client_id: string;
+  project_id: string;
+  label: string;
+  // Entries per date for this row
+  entries: Record<string, WorkingHour[]>;
+}
+
+// The only fields staff send for a draft; the server works out hours, rate and amount
+export type DraftTimes = {
+  start_time: string;
+  end_time: string;
+};
+
+export interface TimesheetChanges {
+  inserts: (DraftTimes & { project_id: string; date: string })[];
+  updates: (DraftTimes & { id: string })[];
+  deletes: string[];
+}
+
+// Typed hours per row key, then per date
+export type TimesheetValues = Record<string, Record<string, string>>;
+
+export const timesheetRowKey = (clientId: string, projectId: string) => `${clientId}|${projectId}`;
+
+export const getWeekDays = (weekStart: string) =>
+  Array.from({ length: 7 }, (_, i) => shiftDateString(weekStart, i));
+
+const sumHours = (entries: WorkingHour[] = []) =>
+  Math.round(entries.reduce((sum, wh) => sum + (wh.total_hours || 0), 0) * 100) / 100;
+
+// Only an empty cell or a single hand-entered draft can be typed over
+export const isEditableCell = (entries: WorkingHour[] = []) =>
+  entries.length === 0 || (entries.length === 1 && entries[0].status === 'draft' && !entries[0].roster_id);
+
+/**
+ * Groups a week's entries into grid rows. Extra rows the employee has added but not yet
+ * filled in are kept so they stay on screen between saves.
+ */
+export const buildTimesheetRows = (
+  entries: WorkingHour[],
+  extraRows: Pick<TimesheetRow, 'client_id' | 'project_id' | 'label'>[] = []
+): TimesheetRow[] => {
+  const rows = new Map<string, TimesheetRow>();
+
+  const rowFor = (clientId: string, projectId: string, label: string) => {
+    const key = timesheetRowKey(clientId, projectId);
+    if (!rows.has(key)) {
+      rows.set(key, { key, client_id: clientId, project_id: projectId, label, entries: {} });
+    }
+    return rows.get(key)!;
+  };
+
+  entries.forEach(wh => {
+    const label = [wh.clients?.company, wh.projects?.name].filter(Boolean).join(' - ') || 'Unknown project';
+    const row = rowFor(wh.client_id, wh.project_id, label);
+    row.entries[wh.date] = [...(row.entries[wh.date] || []), wh];
+  });
+  extraRows.forEach(extra => rowFor(extra.client_id, extra.project_id, extra.label));
+
+  return Array.from(rows.values()).sort((a, b) => a.label.localeCompare(b.label));
+};
+
+// What a cell shows before the employee types anything
+export const getCellValue = (entries: WorkingHour[] = []) => {
+  const hours = sumHours(entries);
+  return hours > 0 ? String(hours) : '';
+};
+
+export const getRowTotal = (row: TimesheetRow, days: string[], values: TimesheetValues) =>
+  Math.round(days.reduce((sum, date) => {
+    const value = values[row.key]?.[date];
+    return sum + (value !== undefined ? parseFloat(value) || 0 : sumHours(row.entries[date]));
+  }, 0) * 100) / 100;
+
+// Returns the first problem with the typed hours, or null when they can be saved
+export const validateTimesheetValues = (values: TimesheetValues) => {
+  for (const days of Object.values(values)) {
+    for (const value of Object.values(days)) {
+      if (value.trim() === '') continue;
+      const hours = Number(value);
+      if (!Number.isFinite(hours) || hours < 0 || hours >= MAX_CELL_HOURS) {
+        return `Hours must be at least 0 and less than ${MAX_CELL_HOURS} a day`;
+      }
+    }
+  }
+  return null;
+};
+
+export const draftTimes = (hours: number): DraftTimes => ({
+  start_time: DRAFT_START_TIME,
+  end_time: minutesToTime(timeToMinutes(DRAFT_START_TIME) + Math.round(hours * 60))
+});
+
+/**
+ * Turns the typed values into the working_hours changes needed to save them as drafts.
+ * Cleared cells delete their draft, unchanged cells and locked cells are left alone.
+ */
+export const diffTimesheet = (rows: TimesheetRow[], values: TimesheetValues): TimesheetChanges => {
+  const changes: TimesheetChanges = { inserts: [], updates: [], deletes: [] };
+
+  rows.forEach(row => {
+    Object.entries(values[row.key] || {}).forEach(([date, value]) => {
+      const entries = row.entries[date] || [];
+      if (!isEditableCell(entries)) return;
+
+      const hours = Math.round((parseFloat(value) || 0) * 100) / 100;
+      const existing = entries[0];
+
+      if (hours <= 0) {
+        if (existing) changes.deletes.push(existing.id);
+        return;
+      }
+      if (existing && existing.total_hours === hours) return;
+
+      if (existing) {
+        changes.updates.push({ ...draftTimes(hours), id: existing.id });
+      } else {
+        changes.inserts.push({ ...draftTimes(hours), project_id: row.project_id, date });
+      }
+    });
+  });
+
+  return changes;
+};
+
+export const hasTimesheetChanges = (changes: TimesheetChanges) =>
+  changes.inserts.length + changes.updates.length + changes.deletes.length > 0;
+
+// Entries that go into a submission: drafts plus pending hours not yet part of one
+export const getSubmittableEntries = (entries: WorkingHour[]) =>
+  entries.filter(wh => wh.status === 'draft' || (wh.status === 'pending' && !wh.timesheet_submission_id));
@@ -16,6 +16,13 @@ import { RolePermissionsManager } from "@/components/RolePermissionsManager";
 import { UserMenu } from "@/components/UserMenu";
 import { RoleDashboardRouter } from "@/components/RoleDashboardRouter";
 import { RosterReport } from "@/components/RosterReport";
+import { Availability } from "@/components/Availability";
+import { AuditLog } from "@/components/AuditLog";
+import { PublicHolidays } from "@/components/PublicHolidays";
+import { RateCards } from "@/components/RateCards";
+import { TaxScales } from "@/components/TaxScales";
+import { Superannuation } from "@/components/Superannuation";
+import { Invoices } from "@/components/Invoices";
 import { useAuth } from "@/hooks/useAuth";
 
 const Index = () => {
@@ -41,6 +48,8 @@ const Index = () => {
         return <RosterComponent />;
       case "roster-report":
         return <RosterReport />;
+      case "availability":
+        return <Availability />;
       case "payroll":
         return <PayrollComponent />;
       case "salary":
@@ -53,6 +62,18 @@ const Index = () => {
         return <BankBalance />;
       case "permissions":
         return <RolePermissionsManager />;
+      case "audit-log":
+        return <AuditLog />;
+      case "public-holidays":
+        return <PublicHolidays />;
+      case "rate-cards":
+        return <RateCards />;
+      case "tax-scales":
+        return <TaxScales />;
+      case "superannuation":
+        return <Superannuation />;
+      case "invoices":
+        return <Invoices />;
       default:
         return <Dashboard />;
     }
@@ -0,0 +1,7 @@
+import { Kiosk } from "@/components/kiosk/Kiosk";
+
+const KioskPage = () => {
+  return <Kiosk />;
+};
+
+export default KioskPage;
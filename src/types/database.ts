@@ -12,6 +12,11 @@ export interface Profile {
   hourly_rate?: number;
   salary?: number;
   tax_file_number?: string;
+  tax_free_threshold_claimed?: boolean;
+  super_fund_name?: string;
+  super_fund_abn?: string;
+  super_fund_usi?: string;
+  super_member_number?: string;
   start_date?: string;
   created_at: string;
   updated_at: string;
@@ -24,6 +29,7 @@ export interface Client {
   phone?: string;
   company: string;
   status: 'active' | 'inactive';
+  holiday_region?: string;
   created_at: string;
   updated_at: string;
 }
@@ -37,6 +43,9 @@ export interface Project {
   start_date: string;
   end_date?: string;
   budget: number;
+  site_latitude?: number;
+  site_longitude?: number;
+  site_radius_meters?: number;
   created_at: string;
   updated_at: string;
   clients?: Client;
@@ -51,17 +60,38 @@ export interface WorkingHour {
   start_time: string;
   end_time: string;
   total_hours: number;
-  status: 'pending' | 'approved' | 'rejected' | 'paid';
+  status: 'draft' | 'pending' | 'approved' | 'rejected' | 'paid';
   roster_id?: string;
+  timesheet_submission_id?: string;
+  approval_chain_id?: string;
+  approval_step?: number;
+  rejection_reason?: string;
   created_at: string;
   updated_at: string;
   sign_in_time?: string;
   sign_out_time?: string;
+  sign_in_at?: string;
+  sign_out_at?: string;
   actual_hours?: number;
   overtime_hours?: number;
+  overtime_breakdown?: OvertimeBreakdown | null;
   hourly_rate?: number;
   payable_amount?: number;
+  bill_rate?: number;
+  billable_amount?: number;
+  break_minutes?: number;
+  breaks?: ShiftBreak[];
   notes?: string;
+  sign_in_latitude?: number;
+  sign_in_longitude?: number;
+  sign_in_accuracy_meters?: number;
+  sign_in_distance_meters?: number;
+  sign_in_outside_geofence?: boolean;
+  sign_out_latitude?: number;
+  sign_out_longitude?: number;
+  sign_out_accuracy_meters?: number;
+  sign_out_distance_meters?: number;
+  sign_out_outside_geofence?: boolean;
   profiles?: Profile;
   clients?: Client;
   projects?: Project;
@@ -94,6 +124,7 @@ export interface BankTransaction {
   project_id?: string;
   profile_id?: string;
   bank_account_id?: string;
+  invoice_id?: string;
   clients?: Client;
   projects?: Project;
   profiles?: Profile;
@@ -110,13 +141,14 @@ export interface RosterProfile {
 
 export interface Roster {
   id: string;
-  profile_id: string;
+  profile_id: string | null;
   client_id: string;
   project_id: string;
   date: string;
   start_time: string;
   end_time: string;
   total_hours: number;
+  break_minutes?: number;
   status: 'pending' | 'confirmed' | 'cancelled';
   notes?: string;
   is_locked: boolean;
@@ -127,10 +159,68 @@ export interface Roster {
   per_hour_rate?: number;
   is_editable?: boolean;
   end_date?: string;
+  series_id?: string;
+  series_occurrence_date?: string;
   profiles?: Profile;
   clients?: Client;
   projects?: Project;
   roster_profiles?: RosterProfile[];
+  roster_series?: RosterSeries;
+}
+
+export interface RosterSeries {
+  id: string;
+  name?: string;
+  client_id: string;
+  project_id: string;
+  start_time: string;
+  end_time: string;
+  duration_days: number;
+  break_minutes?: number;
+  expected_profiles?: number;
+  per_hour_rate?: number;
+  notes?: string;
+  profile_ids: string[];
+  frequency: 'daily' | 'weekly' | 'fortnightly' | 'monthly';
+  interval: number;
+  by_weekday: number[];
+  start_date: string;
+  until_date?: string;
+  occurrence_count?: number;
+  exception_dates: string[];
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RosterTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  roster_template_shifts?: RosterTemplateShift[];
+}
+
+export interface RosterTemplateShift {
+  id: string;
+  template_id: string;
+  day_offset: number;
+  name?: string;
+  client_id: string;
+  project_id: string;
+  start_time: string;
+  end_time: string;
+  break_minutes: number;
+  duration_days: number;
+  expected_profiles?: number;
+  per_hour_rate?: number;
+  notes?: string;
+  profile_ids: string[];
+  created_at: string;
+  clients?: Client;
+  projects?: Project;
 }
 
 export interface Payroll {
@@ -143,12 +233,30 @@ export interface Payroll {
   gross_pay: number;
   deductions: number;
   net_pay: number;
+  tax_withheld: number;
   status: 'pending' | 'approved' | 'paid';
   created_at: string;
   updated_at: string;
   bank_account_id?: string;
+  salary_template_id?: string;
+  tax_scale_id?: string;
   profiles?: Profile;
   bank_accounts?: BankAccount;
+  salary_templates?: SalaryTemplate;
+  payroll_line_items?: PayrollLineItem[];
+}
+
+export interface PayrollLineItem {
+  id: string;
+  payroll_id: string;
+  type: PayrollLineItemType;
+  description: string;
+  amount: number;
+  // Counts towards taxed pay, or for a deduction comes off it before tax
+  taxable: boolean;
+  is_recurring: boolean;
+  sort_order: number;
+  created_at: string;
 }
 
 export interface PayrollWorkingHours {
@@ -233,6 +341,302 @@ export interface Notification {
   actioned_at?: string;
 }
 
+export interface ProfileAvailability {
+  id: string;
+  profile_id: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfileUnavailability {
+  id: string;
+  profile_id: string;
+  start_date: string;
+  end_date: string;
+  start_time?: string;
+  end_time?: string;
+  reason?: string;
+  created_at: string;
+}
+
+export interface LeaveRequest {
+  id: string;
+  profile_id: string;
+  leave_type: 'annual' | 'sick' | 'personal' | 'unpaid' | 'other';
+  start_date: string;
+  end_date: string;
+  reason?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_notes?: string;
+  created_at: string;
+  updated_at: string;
+  profiles?: Profile;
+}
+
+export interface ShiftClaim {
+  id: string;
+  roster_id: string;
+  claim_type: 'claim' | 'swap';
+  profile_id: string;
+  replaces_profile_id?: string;
+  requested_by: string;
+  notes?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_notes?: string;
+  created_at: string;
+  updated_at: string;
+  rosters?: Roster;
+  profiles?: Profile;
+}
+
+export interface TimesheetSubmission {
+  id: string;
+  profile_id: string;
+  week_start: string;
+  status: 'submitted' | 'approved' | 'rejected';
+  total_hours: number;
+  entry_count: number;
+  submitted_at: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  created_at: string;
+  updated_at: string;
+  profiles?: Profile;
+}
+
+export interface PublicHoliday {
+  id: string;
+  date: string;
+  name: string;
+  region?: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface OvertimeRule {
+  id: string;
+  name: string;
+  employment_type?: EmploymentType;
+  client_id?: string;
+  daily_threshold?: number;
+  weekly_threshold?: number;
+  tier_one_hours: number;
+  tier_one_multiplier: number;
+  tier_two_multiplier: number;
+  saturday_multiplier?: number;
+  sunday_multiplier?: number;
+  public_holiday_multiplier?: number;
+  is_active: boolean;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  clients?: Client;
+}
+
+// One way of paying part of an entry's hours, e.g. 2h of overtime at 1.5x. This and
+// OvertimeBreakdown are type aliases so rows with the JSON column still cast to WorkingHour.
+export type OvertimeLine = {
+  kind: OvertimeLineKind;
+  label: string;
+  hours: number;
+  multiplier: number;
+};
+
+// Stored on working_hours.overtime_breakdown; rule_id is null for the rostered-hours fallback
+export type OvertimeBreakdown = {
+  rule_id: string | null;
+  rule_name: string;
+  lines: OvertimeLine[];
+};
+
+// A break within a shift, stored on working_hours.breaks. A type alias for the same
+// reason as OvertimeLine.
+export type ShiftBreak = {
+  start_time: string;
+  end_time: string;
+  paid: boolean;
+};
+
+// Fatigue limits; the rule without a client applies to every client without its own
+export interface FatigueRule {
+  id: string;
+  client_id?: string;
+  max_shift_hours: number;
+  min_rest_hours: number;
+  max_consecutive_days: number;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Pay and bill rates from a date: for one employee on a project, a role on a project, or
+// (with neither) the whole client
+export interface RateCard {
+  id: string;
+  client_id: string;
+  project_id?: string;
+  profile_id?: string;
+  role?: UserRole;
+  pay_rate?: number;
+  bill_rate?: number;
+  effective_from: string;
+  effective_to?: string;
+  notes?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  clients?: Client;
+  projects?: Project;
+  profiles?: Profile;
+}
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  client_id: string;
+  period_start: string;
+  period_end: string;
+  issue_date: string;
+  due_date: string;
+  status: InvoiceStatus;
+  tax_rate: number;
+  subtotal: number;
+  tax_amount: number;
+  total: number;
+  notes?: string;
+  sent_at?: string;
+  paid_at?: string;
+  paid_bank_account_id?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  clients?: Client;
+  invoice_line_items?: InvoiceLineItem[];
+}
+
+export interface InvoiceLineItem {
+  id: string;
+  invoice_id: string;
+  project_id?: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  sort_order: number;
+  created_at: string;
+  projects?: Project;
+}
+
+// A budget threshold a project's spending has reached, recorded so it is notified once
+export interface ProjectBudgetAlert {
+  id: string;
+  project_id: string;
+  threshold: number;
+  budget: number;
+  spent: number;
+  created_at: string;
+}
+
+export interface TaxScale {
+  id: string;
+  name: string;
+  effective_from: string;
+  tax_free_threshold_claimed: boolean;
+  no_tfn_rate: number;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  tax_scale_brackets?: TaxScaleBracket[];
+}
+
+export interface TaxScaleBracket {
+  id: string;
+  tax_scale_id: string;
+  threshold: number;
+  rate: number;
+}
+
+export interface SuperGuaranteeRate {
+  id: string;
+  percentage: number;
+  effective_from: string;
+  created_by?: string;
+  created_at: string;
+}
+
+export interface SuperAccrual {
+  id: string;
+  payroll_id: string;
+  profile_id: string;
+  pay_period_end: string;
+  ordinary_time_earnings: number;
+  guarantee_percentage: number;
+  amount: number;
+  bank_transaction_id?: string;
+  created_at: string;
+  profiles?: Profile;
+  bank_transactions?: BankTransaction;
+}
+
+export interface ApprovalChain {
+  id: string;
+  name: string;
+  client_id?: string;
+  project_id?: string;
+  is_active: boolean;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+  clients?: Client;
+  projects?: Project;
+  approval_chain_steps?: ApprovalChainStep[];
+}
+
+export interface ApprovalChainStep {
+  id: string;
+  chain_id: string;
+  step_order: number;
+  name: string;
+  approver_role?: UserRole;
+  approver_profile_id?: string;
+  created_at: string;
+  profiles?: Profile;
+}
+
+export interface WorkingHoursApproval {
+  id: string;
+  working_hour_id: string;
+  action: 'approved' | 'rejected' | 'resubmitted' | 'commented';
+  step_order?: number;
+  step_name?: string;
+  comment?: string;
+  actor_profile_id: string;
+  created_at: string;
+  profiles?: Profile;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  table_name: 'working_hours' | 'rosters' | 'roster_profiles' | 'payroll' | 'bank_transactions';
+  record_id: string;
+  related_id?: string;
+  action: 'insert' | 'update' | 'delete';
+  old_data?: Record<string, unknown>;
+  new_data?: Record<string, unknown>;
+  changed_fields?: string[];
+  actor_id?: string;
+  created_at: string;
+  profiles?: Profile;
+}
+
 export interface NotificationPermission {
   id: string;
   profile_id: string;
@@ -243,14 +647,25 @@ export interface NotificationPermission {
 
 // Enum type definitions for better type safety
 export type PayrollStatus = 'pending' | 'approved' | 'paid';
+export type PayrollLineItemType = 'earning' | 'allowance' | 'reimbursement' | 'deduction';
 export type BulkPayrollStatus = 'draft' | 'processing' | 'completed' | 'failed';
 export type BulkPayrollItemStatus = 'pending' | 'processed' | 'failed';
 export type ClientStatus = 'active' | 'inactive';
 export type ProjectStatus = 'active' | 'completed' | 'on-hold';
 export type RosterStatus = 'pending' | 'confirmed' | 'cancelled';
-export type WorkingHoursStatus = 'pending' | 'approved' | 'rejected' | 'paid';
+export type RosterRecurrenceFrequency = 'daily' | 'weekly' | 'fortnightly' | 'monthly';
+export type LeaveType = 'annual' | 'sick' | 'personal' | 'unpaid' | 'other';
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type ShiftClaimType = 'claim' | 'swap';
+export type ShiftClaimStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type WorkingHoursStatus = 'draft' | 'pending' | 'approved' | 'rejected' | 'paid';
+export type TimesheetSubmissionStatus = 'submitted' | 'approved' | 'rejected';
+export type WorkingHoursApprovalAction = 'approved' | 'rejected' | 'resubmitted' | 'commented';
+export type AuditAction = 'insert' | 'update' | 'delete';
+export type OvertimeLineKind = 'ordinary' | 'penalty' | 'overtime';
 export type NotificationActionType = 'approve' | 'confirm' | 'grant' | 'cancel' | 'reject' | 'none';
 export type NotificationPriority = 'low' | 'medium' | 'high';
+export type InvoiceStatus = 'draft' | 'sent' | 'paid';
 export type BankTransactionType = 'deposit' | 'withdrawal';
 export type TransactionCategory = 'income' | 'expense' | 'transfer' | 'salary' | 'equipment' | 'materials' | 'travel' | 'office' | 'utilities' | 'marketing' | 'opening_balance' | 'other';
 export type UserRole = 'admin' | 'employee' | 'accountant' | 'operation' | 'sales_manager';
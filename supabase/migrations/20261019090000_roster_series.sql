@@ -0,0 +1,46 @@
+-- Recurring roster series: a series stores the shift template and the
+-- recurrence rule, and every occurrence is materialised as a normal roster row.
+
+CREATE TYPE public.roster_recurrence_frequency AS ENUM ('daily', 'weekly', 'fortnightly', 'monthly');
+
+CREATE TABLE public.roster_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  duration_days INTEGER NOT NULL DEFAULT 0,
+  expected_profiles INTEGER DEFAULT 1,
+  per_hour_rate NUMERIC(10,2) DEFAULT 0,
+  notes TEXT,
+  profile_ids UUID[] NOT NULL DEFAULT '{}',
+  frequency public.roster_recurrence_frequency NOT NULL,
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval > 0),
+  by_weekday SMALLINT[] NOT NULL DEFAULT '{}',
+  start_date DATE NOT NULL,
+  until_date DATE,
+  occurrence_count INTEGER CHECK (occurrence_count IS NULL OR occurrence_count > 0),
+  exception_dates DATE[] NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT roster_series_has_end CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL)
+);
+
+ALTER TABLE public.rosters
+  ADD COLUMN series_id UUID REFERENCES public.roster_series(id) ON DELETE SET NULL,
+  ADD COLUMN series_occurrence_date DATE;
+
+CREATE INDEX idx_rosters_series_id ON public.rosters(series_id);
+
+ALTER TABLE public.roster_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Roster viewers can read roster series"
+  ON public.roster_series FOR SELECT
+  USING (public.has_permission(auth.uid(), 'roster_view'));
+
+CREATE POLICY "Roster managers can manage roster series"
+  ON public.roster_series FOR ALL
+  USING (public.has_permission(auth.uid(), 'roster_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'roster_manage'));
@@ -0,0 +1,93 @@
+-- Staff availability and leave: recurring weekly availability windows, one-off
+-- unavailability declared by the employee, and leave requests that go through
+-- the notifications approval flow.
+
+CREATE TYPE public.leave_type AS ENUM ('annual', 'sick', 'personal', 'unpaid', 'other');
+CREATE TYPE public.leave_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+
+-- When a profile has any rows here they are only available inside these windows;
+-- a profile without rows is treated as available at any time.
+CREATE TABLE public.profile_availability (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One-off blocks of time; null times mean the whole day
+CREATE TABLE public.profile_unavailability (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT profile_unavailability_dates CHECK (end_date >= start_date)
+);
+
+CREATE TABLE public.leave_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  leave_type public.leave_type NOT NULL DEFAULT 'annual',
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  status public.leave_status NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT leave_requests_dates CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_profile_availability_profile_id ON public.profile_availability(profile_id);
+CREATE INDEX idx_profile_unavailability_dates ON public.profile_unavailability(start_date, end_date);
+CREATE INDEX idx_leave_requests_dates ON public.leave_requests(start_date, end_date);
+
+ALTER TABLE public.profile_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.profile_unavailability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff and roster viewers can read availability"
+  ON public.profile_availability FOR SELECT
+  USING (profile_id = auth.uid() OR public.has_permission(auth.uid(), 'roster_view'));
+
+CREATE POLICY "Staff and roster managers can manage availability"
+  ON public.profile_availability FOR ALL
+  USING (profile_id = auth.uid() OR public.has_permission(auth.uid(), 'roster_manage'))
+  WITH CHECK (profile_id = auth.uid() OR public.has_permission(auth.uid(), 'roster_manage'));
+
+CREATE POLICY "Staff and roster viewers can read unavailability"
+  ON public.profile_unavailability FOR SELECT
+  USING (profile_id = auth.uid() OR public.has_permission(auth.uid(), 'roster_view'));
+
+CREATE POLICY "Staff and roster managers can manage unavailability"
+  ON public.profile_unavailability FOR ALL
+  USING (profile_id = auth.uid() OR public.has_permission(auth.uid(), 'roster_manage'))
+  WITH CHECK (profile_id = auth.uid() OR public.has_permission(auth.uid(), 'roster_manage'));
+
+CREATE POLICY "Staff and roster viewers can read leave requests"
+  ON public.leave_requests FOR SELECT
+  USING (profile_id = auth.uid() OR public.has_permission(auth.uid(), 'roster_view'));
+
+CREATE POLICY "Staff can request leave"
+  ON public.leave_requests FOR INSERT
+  WITH CHECK (profile_id = auth.uid() AND status = 'pending');
+
+-- Employees may only withdraw their own pending requests; reviewing is for roster managers
+CREATE POLICY "Staff can cancel pending leave"
+  ON public.leave_requests FOR UPDATE
+  USING (profile_id = auth.uid() AND status = 'pending')
+  WITH CHECK (profile_id = auth.uid() AND status IN ('pending', 'cancelled'));
+
+CREATE POLICY "Roster managers can review leave"
+  ON public.leave_requests FOR UPDATE
+  USING (public.has_permission(auth.uid(), 'roster_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'roster_manage'));
@@ -0,0 +1,11 @@
+-- Unpaid break time for rostered shifts and logged hours. Paid hours are the
+-- shift length (which may cross midnight) less these minutes.
+
+ALTER TABLE public.rosters
+  ADD COLUMN break_minutes INTEGER NOT NULL DEFAULT 0 CHECK (break_minutes >= 0);
+
+ALTER TABLE public.roster_series
+  ADD COLUMN break_minutes INTEGER NOT NULL DEFAULT 0 CHECK (break_minutes >= 0);
+
+ALTER TABLE public.working_hours
+  ADD COLUMN break_minutes INTEGER NOT NULL DEFAULT 0 CHECK (break_minutes >= 0);
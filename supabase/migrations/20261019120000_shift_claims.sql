@@ -0,0 +1,81 @@
+-- Open-shift marketplace: employees claim unfilled places on upcoming rosters, or hand
+-- one of their own shifts to a colleague. Roster managers approve each request from
+-- their notifications, which is when roster_profiles is written.
+
+CREATE TYPE public.shift_claim_type AS ENUM ('claim', 'swap');
+CREATE TYPE public.shift_claim_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+
+-- profile_id is who ends up on the roster. For a swap, replaces_profile_id is the
+-- rostered employee giving the shift away and is also the one who asked for it.
+CREATE TABLE public.shift_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  roster_id UUID NOT NULL REFERENCES public.rosters(id) ON DELETE CASCADE,
+  claim_type public.shift_claim_type NOT NULL DEFAULT 'claim',
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  replaces_profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  requested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  notes TEXT,
+  status public.shift_claim_status NOT NULL DEFAULT 'pending',
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT shift_claims_swap_target CHECK (
+    (claim_type = 'claim' AND replaces_profile_id IS NULL)
+    OR (claim_type = 'swap' AND replaces_profile_id IS NOT NULL AND replaces_profile_id <> profile_id)
+  )
+);
+
+-- Only one open request per person per roster
+CREATE UNIQUE INDEX idx_shift_claims_pending
+  ON public.shift_claims(roster_id, profile_id)
+  WHERE status = 'pending';
+CREATE INDEX idx_shift_claims_roster_id ON public.shift_claims(roster_id);
+
+ALTER TABLE public.shift_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff involved and roster viewers can read shift claims"
+  ON public.shift_claims FOR SELECT
+  USING (
+    requested_by = auth.uid()
+    OR profile_id = auth.uid()
+    OR replaces_profile_id = auth.uid()
+    OR public.has_permission(auth.uid(), 'roster_view')
+  );
+
+CREATE POLICY "Staff can request shifts"
+  ON public.shift_claims FOR INSERT
+  WITH CHECK (
+    requested_by = auth.uid()
+    AND status = 'pending'
+    AND (
+      (claim_type = 'claim' AND profile_id = auth.uid())
+      OR (claim_type = 'swap' AND replaces_profile_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Staff can cancel pending shift requests"
+  ON public.shift_claims FOR UPDATE
+  USING (requested_by = auth.uid() AND status = 'pending')
+  WITH CHECK (requested_by = auth.uid() AND status IN ('pending', 'cancelled'));
+
+CREATE POLICY "Roster managers can review shift claims"
+  ON public.shift_claims FOR UPDATE
+  USING (public.has_permission(auth.uid(), 'roster_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'roster_manage'));
+
+-- Everyone needs to see upcoming rosters and who is on them to find open shifts
+CREATE POLICY "Staff can read upcoming rosters"
+  ON public.rosters FOR SELECT
+  USING (auth.uid() IS NOT NULL AND date >= CURRENT_DATE AND status <> 'cancelled');
+
+CREATE POLICY "Staff can read upcoming roster assignments"
+  ON public.roster_profiles FOR SELECT
+  USING (
+    auth.uid() IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.rosters r
+      WHERE r.id = roster_id AND r.date >= CURRENT_DATE AND r.status <> 'cancelled'
+    )
+  );
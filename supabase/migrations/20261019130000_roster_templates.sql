@@ -0,0 +1,53 @@
+-- Roster templates: a named set of shifts laid out over a Monday-based week that can
+-- be stamped onto any week, e.g. a standard site roster saved from a good week.
+
+CREATE TABLE public.roster_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- day_offset counts from Monday (0) to Sunday (6); profile_ids is the default team
+CREATE TABLE public.roster_template_shifts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.roster_templates(id) ON DELETE CASCADE,
+  day_offset SMALLINT NOT NULL CHECK (day_offset BETWEEN 0 AND 6),
+  name TEXT,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  break_minutes INTEGER NOT NULL DEFAULT 0 CHECK (break_minutes >= 0),
+  duration_days INTEGER NOT NULL DEFAULT 0,
+  expected_profiles INTEGER DEFAULT 1,
+  per_hour_rate NUMERIC(10,2) DEFAULT 0,
+  notes TEXT,
+  profile_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_roster_template_shifts_template_id ON public.roster_template_shifts(template_id);
+
+ALTER TABLE public.roster_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.roster_template_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Roster viewers can read roster templates"
+  ON public.roster_templates FOR SELECT
+  USING (public.has_permission(auth.uid(), 'roster_view'));
+
+CREATE POLICY "Roster managers can manage roster templates"
+  ON public.roster_templates FOR ALL
+  USING (public.has_permission(auth.uid(), 'roster_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'roster_manage'));
+
+CREATE POLICY "Roster viewers can read roster template shifts"
+  ON public.roster_template_shifts FOR SELECT
+  USING (public.has_permission(auth.uid(), 'roster_view'));
+
+CREATE POLICY "Roster managers can manage roster template shifts"
+  ON public.roster_template_shifts FOR ALL
+  USING (public.has_permission(auth.uid(), 'roster_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'roster_manage'));
@@ -0,0 +1,7 @@
+-- Timesheet rows generated from rosters: one per assigned profile per rostered day.
+-- The unique key lets generation be re-run (on confirm and again when the day is
+-- closed) without duplicating rows. Manually logged hours have no roster_id and,
+-- since NULLs never collide, are unaffected.
+
+CREATE UNIQUE INDEX working_hours_roster_profile_date_key
+  ON public.working_hours (roster_id, profile_id, date);
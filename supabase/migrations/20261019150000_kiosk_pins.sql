@@ -0,0 +1,87 @@
+-- Clock-in kiosk: staff identify at a shared device with a short PIN. Only bcrypt hashes
+-- are stored and the table has no policies, so PINs are set and checked exclusively
+-- through the functions below. The kiosk itself runs signed in as an account holding
+-- working_hours_manage, which is what stamps the sign in/out times.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE public.kiosk_pins (
+  profile_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.kiosk_pins ENABLE ROW LEVEL SECURITY;
+
+-- Staff set their own PIN; employee managers can set anyone's. A PIN alone identifies
+-- someone, so it must not match another active profile's.
+CREATE OR REPLACE FUNCTION public.set_kiosk_pin(target_profile_id UUID, pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF target_profile_id <> auth.uid() AND NOT public.has_permission(auth.uid(), 'employees_manage') THEN
+    RAISE EXCEPTION 'Not allowed to set this PIN';
+  END IF;
+
+  IF pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.kiosk_pins kp
+    JOIN public.profiles p ON p.id = kp.profile_id
+    WHERE kp.profile_id <> target_profile_id
+      AND p.is_active
+      AND kp.pin_hash = crypt(pin, kp.pin_hash)
+  ) THEN
+    RAISE EXCEPTION 'This PIN is already in use, choose another';
+  END IF;
+
+  INSERT INTO public.kiosk_pins (profile_id, pin_hash, updated_at)
+  VALUES (target_profile_id, crypt(pin, gen_salt('bf')), now())
+  ON CONFLICT (profile_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash, updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_kiosk_pin(target_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.kiosk_pins WHERE profile_id = target_profile_id)
+    AND (target_profile_id = auth.uid() OR public.has_permission(auth.uid(), 'employees_view'));
+$$;
+
+-- Returns the active profile the PIN belongs to, or no row
+CREATE OR REPLACE FUNCTION public.identify_kiosk_pin(pin TEXT)
+RETURNS TABLE (profile_id UUID, full_name TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'working_hours_manage') THEN
+    RAISE EXCEPTION 'This device is not set up as a clock-in kiosk';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.full_name
+  FROM public.kiosk_pins kp
+  JOIN public.profiles p ON p.id = kp.profile_id
+  WHERE p.is_active
+    AND kp.pin_hash = crypt(pin, kp.pin_hash)
+  LIMIT 1;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_kiosk_pin(UUID, TEXT) FROM anon;
+REVOKE ALL ON FUNCTION public.has_kiosk_pin(UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.identify_kiosk_pin(TEXT) FROM anon;
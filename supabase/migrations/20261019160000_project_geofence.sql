@@ -0,0 +1,30 @@
+-- Geofenced clock-in. Projects get the site location staff are expected to clock in
+-- from; working_hours keep the browser position captured at clock in and out, its
+-- distance from the site at that moment, and whether it fell outside the geofence.
+
+ALTER TABLE public.projects
+  ADD COLUMN site_latitude NUMERIC(9,6) CHECK (site_latitude BETWEEN -90 AND 90),
+  ADD COLUMN site_longitude NUMERIC(9,6) CHECK (site_longitude BETWEEN -180 AND 180),
+  ADD COLUMN site_radius_meters INTEGER NOT NULL DEFAULT 200 CHECK (site_radius_meters > 0);
+
+ALTER TABLE public.working_hours
+  ADD COLUMN sign_in_latitude NUMERIC(9,6),
+  ADD COLUMN sign_in_longitude NUMERIC(9,6),
+  ADD COLUMN sign_in_accuracy_meters NUMERIC(10,2),
+  ADD COLUMN sign_in_distance_meters NUMERIC(10,2),
+  ADD COLUMN sign_in_outside_geofence BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN sign_out_latitude NUMERIC(9,6),
+  ADD COLUMN sign_out_longitude NUMERIC(9,6),
+  ADD COLUMN sign_out_accuracy_meters NUMERIC(10,2),
+  ADD COLUMN sign_out_distance_meters NUMERIC(10,2),
+  ADD COLUMN sign_out_outside_geofence BOOLEAN NOT NULL DEFAULT false;
+
+-- Staff clock themselves in and out of their own rostered shifts from the dashboard
+CREATE POLICY "Staff can clock into their rostered shifts"
+  ON public.working_hours FOR INSERT
+  WITH CHECK (profile_id = auth.uid() AND roster_id IS NOT NULL AND status = 'pending');
+
+CREATE POLICY "Staff can clock their own pending hours"
+  ON public.working_hours FOR UPDATE
+  USING (profile_id = auth.uid() AND status = 'pending')
+  WITH CHECK (profile_id = auth.uid() AND status = 'pending');
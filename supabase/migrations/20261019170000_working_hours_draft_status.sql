@@ -0,0 +1,4 @@
+-- Timesheet entries an employee is still working on. Kept in its own migration because
+-- a new enum value cannot be used in the transaction that adds it.
+
+ALTER TYPE public.working_hours_status ADD VALUE IF NOT EXISTS 'draft' BEFORE 'pending';
@@ -0,0 +1,70 @@
+-- Weekly timesheet sign-off. Employees keep their week's entries as drafts, then submit
+-- the whole week at once: the entries move to pending, are tied to the submission and
+-- can no longer be changed by the employee. Approvers approve or reject the week from a
+-- single notification; a rejected week goes back to draft for correction.
+
+CREATE TYPE public.timesheet_submission_status AS ENUM ('submitted', 'approved', 'rejected');
+
+CREATE TABLE public.timesheet_submissions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL,
+  status public.timesheet_submission_status NOT NULL DEFAULT 'submitted',
+  total_hours NUMERIC(10,2) NOT NULL DEFAULT 0,
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  reviewed_by UUID REFERENCES public.profiles(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Weeks run Monday to Sunday
+  CONSTRAINT timesheet_submissions_week_start_monday CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+  CONSTRAINT timesheet_submissions_profile_week_key UNIQUE (profile_id, week_start)
+);
+
+ALTER TABLE public.working_hours
+  ADD COLUMN timesheet_submission_id UUID REFERENCES public.timesheet_submissions(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_working_hours_timesheet_submission_id ON public.working_hours(timesheet_submission_id);
+
+ALTER TABLE public.timesheet_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff and timesheet viewers can read submissions"
+  ON public.timesheet_submissions FOR SELECT
+  USING (profile_id = auth.uid() OR public.has_permission(auth.uid(), 'working_hours_view'));
+
+CREATE POLICY "Staff can submit their own weeks"
+  ON public.timesheet_submissions FOR INSERT
+  WITH CHECK (profile_id = auth.uid() AND status = 'submitted');
+
+-- Resubmitting a rejected week reuses its row
+CREATE POLICY "Staff can resubmit rejected weeks"
+  ON public.timesheet_submissions FOR UPDATE
+  USING (profile_id = auth.uid() AND status = 'rejected')
+  WITH CHECK (profile_id = auth.uid() AND status = 'submitted');
+
+CREATE POLICY "Approvers can review submissions"
+  ON public.timesheet_submissions FOR UPDATE
+  USING (public.has_permission(auth.uid(), 'working_hours_approve'));
+
+-- Employees manage their own drafts
+CREATE POLICY "Staff can add draft hours"
+  ON public.working_hours FOR INSERT
+  WITH CHECK (profile_id = auth.uid() AND status = 'draft');
+
+CREATE POLICY "Staff can edit or submit draft hours"
+  ON public.working_hours FOR UPDATE
+  USING (profile_id = auth.uid() AND status = 'draft')
+  WITH CHECK (profile_id = auth.uid() AND status IN ('draft', 'pending'));
+
+CREATE POLICY "Staff can delete draft hours"
+  ON public.working_hours FOR DELETE
+  USING (profile_id = auth.uid() AND status = 'draft');
+
+-- Submitted weeks are locked: clocking only touches entries not yet submitted
+DROP POLICY "Staff can clock their own pending hours" ON public.working_hours;
+
+CREATE POLICY "Staff can clock their own pending hours"
+  ON public.working_hours FOR UPDATE
+  USING (profile_id = auth.uid() AND status = 'pending' AND timesheet_submission_id IS NULL)
+  WITH CHECK (profile_id = auth.uid() AND status = 'pending');
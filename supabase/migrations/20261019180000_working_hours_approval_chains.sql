@@ -0,0 +1,105 @@
+-- Multi-level approval for working hours. An approval chain is an ordered list of steps,
+-- each approved by a role or a named person (e.g. site supervisor, then operations
+-- manager). A chain can apply to everything, to one client or to one project; the most
+-- specific active chain is used. Entries stay pending until the last step approves them,
+-- and every approval, rejection, resubmission and comment is kept as history.
+
+CREATE TYPE public.working_hours_approval_action AS ENUM ('approved', 'rejected', 'resubmitted', 'commented');
+
+CREATE TABLE public.approval_chains (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.approval_chain_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  chain_id UUID NOT NULL REFERENCES public.approval_chains(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL CHECK (step_order > 0),
+  name TEXT NOT NULL,
+  -- Either may be set; with neither, anyone who can approve hours can approve the step
+  approver_role public.user_role,
+  approver_profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT approval_chain_steps_chain_order_key UNIQUE (chain_id, step_order)
+);
+
+-- approval_step counts the steps already approved. The chain is recorded on the first
+-- approval so later edits to the chain do not move entries already part way through it.
+ALTER TABLE public.working_hours
+  ADD COLUMN approval_chain_id UUID REFERENCES public.approval_chains(id) ON DELETE SET NULL,
+  ADD COLUMN approval_step INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN rejection_reason TEXT;
+
+CREATE TABLE public.working_hours_approvals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  working_hour_id UUID NOT NULL REFERENCES public.working_hours(id) ON DELETE CASCADE,
+  action public.working_hours_approval_action NOT NULL,
+  step_order INTEGER,
+  step_name TEXT,
+  comment TEXT,
+  actor_profile_id UUID NOT NULL REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_approval_chain_steps_chain_id ON public.approval_chain_steps(chain_id);
+CREATE INDEX idx_working_hours_approvals_working_hour_id ON public.working_hours_approvals(working_hour_id);
+
+ALTER TABLE public.approval_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.approval_chain_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.working_hours_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Timesheet viewers can read approval chains"
+  ON public.approval_chains FOR SELECT
+  USING (public.has_permission(auth.uid(), 'working_hours_view'));
+
+CREATE POLICY "Timesheet managers can manage approval chains"
+  ON public.approval_chains FOR ALL
+  USING (public.has_permission(auth.uid(), 'working_hours_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'working_hours_manage'));
+
+CREATE POLICY "Timesheet viewers can read approval chain steps"
+  ON public.approval_chain_steps FOR SELECT
+  USING (public.has_permission(auth.uid(), 'working_hours_view'));
+
+CREATE POLICY "Timesheet managers can manage approval chain steps"
+  ON public.approval_chain_steps FOR ALL
+  USING (public.has_permission(auth.uid(), 'working_hours_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'working_hours_manage'));
+
+CREATE POLICY "Staff and timesheet viewers can read approval history"
+  ON public.working_hours_approvals FOR SELECT
+  USING (
+    public.has_permission(auth.uid(), 'working_hours_view')
+    OR EXISTS (
+      SELECT 1 FROM public.working_hours wh
+      WHERE wh.id = working_hour_id AND wh.profile_id = auth.uid()
+    )
+  );
+
+-- Approvers record any action; staff can comment on and resubmit their own entries
+CREATE POLICY "Approvers and staff can record approval history"
+  ON public.working_hours_approvals FOR INSERT
+  WITH CHECK (
+    actor_profile_id = auth.uid()
+    AND (
+      public.has_permission(auth.uid(), 'working_hours_approve')
+      OR (
+        action IN ('resubmitted', 'commented')
+        AND EXISTS (
+          SELECT 1 FROM public.working_hours wh
+          WHERE wh.id = working_hour_id AND wh.profile_id = auth.uid()
+        )
+      )
+    )
+  );
+
+CREATE POLICY "Staff can resubmit their rejected hours"
+  ON public.working_hours FOR UPDATE
+  USING (profile_id = auth.uid() AND status = 'rejected')
+  WITH CHECK (profile_id = auth.uid() AND status = 'pending' AND approval_step = 0);
@@ -0,0 +1,105 @@
+-- Audit trail for timesheets, rosters, payroll and bank transactions. A trigger on each
+-- table records every insert, update and delete with the row before and after, the
+-- fields that changed and the signed-in user who made the change. Entries are written
+-- only by the trigger and are never updated or deleted from the app.
+
+CREATE TYPE public.audit_action AS ENUM ('insert', 'update', 'delete');
+
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  -- Parent record for child tables, e.g. the roster a roster_profiles row belongs to
+  related_id UUID,
+  action public.audit_action NOT NULL,
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[],
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_record ON public.audit_log(table_name, record_id);
+CREATE INDEX idx_audit_log_related_id ON public.audit_log(related_id);
+CREATE INDEX idx_audit_log_actor_id ON public.audit_log(actor_id);
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+
+-- Optional trigger argument: the column holding the parent record's id
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  row_data JSONB := COALESCE(new_row, old_row);
+  related_column TEXT := TG_ARGV[0];
+  changed TEXT[];
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO changed
+    FROM jsonb_each(new_row) n
+    WHERE n.key <> 'updated_at' AND n.value IS DISTINCT FROM old_row -> n.key;
+
+    -- Saving a row without changing anything is not worth recording
+    IF changed IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, related_id, action, old_data, new_data, changed_fields, actor_id)
+  VALUES (
+    TG_TABLE_NAME,
+    (row_data ->> 'id')::uuid,
+    CASE WHEN related_column IS NOT NULL THEN (row_data ->> related_column)::uuid END,
+    lower(TG_OP)::public.audit_action,
+    old_row,
+    new_row,
+    changed,
+    auth.uid()
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_working_hours
+  AFTER INSERT OR UPDATE OR DELETE ON public.working_hours
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_rosters
+  AFTER INSERT OR UPDATE OR DELETE ON public.rosters
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_roster_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON public.roster_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change('roster_id');
+
+CREATE TRIGGER audit_payroll
+  AFTER INSERT OR UPDATE OR DELETE ON public.payroll
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_bank_transactions
+  AFTER INSERT OR UPDATE OR DELETE ON public.bank_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Anyone who can see a record can see its history; the audit screen sees everything
+CREATE POLICY "Record viewers and auditors can read the audit log"
+  ON public.audit_log FOR SELECT
+  USING (
+    public.has_permission(auth.uid(), 'audit_log_view')
+    OR (table_name = 'working_hours' AND public.has_permission(auth.uid(), 'working_hours_view'))
+    OR (table_name IN ('rosters', 'roster_profiles') AND public.has_permission(auth.uid(), 'roster_view'))
+    OR (table_name = 'payroll' AND public.has_permission(auth.uid(), 'payroll_view'))
+    OR (table_name = 'bank_transactions' AND public.has_permission(auth.uid(), 'bank_balance_view'))
+  );
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', 'audit_log_view'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.role_permissions WHERE role = 'admin' AND permission = 'audit_log_view'
+);
@@ -0,0 +1,41 @@
+-- Configurable overtime. A rule sets daily and weekly ordinary-hour thresholds, two tiers
+-- of overtime multipliers (the first tier_one_hours of overtime in a day, then the rest)
+-- and penalty rates for Saturdays, Sundays and public holidays. Rules can apply to an
+-- employment type, a client, both or everything; the most specific active rule is used.
+
+CREATE TABLE public.overtime_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  employment_type public.employment_type,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  -- Null thresholds mean no daily or no weekly overtime
+  daily_threshold NUMERIC(5,2) CHECK (daily_threshold > 0),
+  weekly_threshold NUMERIC(5,2) CHECK (weekly_threshold > 0),
+  tier_one_hours NUMERIC(5,2) NOT NULL DEFAULT 2 CHECK (tier_one_hours >= 0),
+  tier_one_multiplier NUMERIC(4,2) NOT NULL DEFAULT 1.5 CHECK (tier_one_multiplier >= 1),
+  tier_two_multiplier NUMERIC(4,2) NOT NULL DEFAULT 2 CHECK (tier_two_multiplier >= 1),
+  -- Null penalty rates mean the day is paid like any other
+  saturday_multiplier NUMERIC(4,2) CHECK (saturday_multiplier >= 1),
+  sunday_multiplier NUMERIC(4,2) CHECK (sunday_multiplier >= 1),
+  public_holiday_multiplier NUMERIC(4,2) CHECK (public_holiday_multiplier >= 1),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- How each entry's hours are paid: ordinary, penalty and overtime lines with their
+-- multipliers, worked out across the whole week so weekly thresholds apply
+ALTER TABLE public.working_hours
+  ADD COLUMN overtime_breakdown JSONB;
+
+ALTER TABLE public.overtime_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Timesheet viewers can read overtime rules"
+  ON public.overtime_rules FOR SELECT
+  USING (public.has_permission(auth.uid(), 'working_hours_view'));
+
+CREATE POLICY "Timesheet managers can manage overtime rules"
+  ON public.overtime_rules FOR ALL
+  USING (public.has_permission(auth.uid(), 'working_hours_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'working_hours_manage'));
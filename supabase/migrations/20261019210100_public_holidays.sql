@@ -0,0 +1,38 @@
+-- Public holiday calendars. A holiday with no region applies everywhere; one with a
+-- region applies to clients whose holiday_region matches, so state or local holidays
+-- only load the shifts worked for clients in that region. Overtime rules pay hours on
+-- these dates at their public holiday rate.
+
+CREATE TABLE public.public_holidays (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  date DATE NOT NULL,
+  name TEXT NOT NULL,
+  region TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Re-importing a calendar skips the days it already has
+  CONSTRAINT public_holidays_region_date_key UNIQUE NULLS NOT DISTINCT (region, date)
+);
+
+CREATE INDEX idx_public_holidays_date ON public.public_holidays(date);
+
+ALTER TABLE public.clients
+  ADD COLUMN holiday_region TEXT;
+
+ALTER TABLE public.public_holidays ENABLE ROW LEVEL SECURITY;
+
+-- Rosters, timesheets and payroll all need the calendar, so any signed-in user can read it
+CREATE POLICY "Signed-in users can read public holidays"
+  ON public.public_holidays FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Holiday managers can manage public holidays"
+  ON public.public_holidays FOR ALL
+  USING (public.has_permission(auth.uid(), 'public_holidays_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'public_holidays_manage'));
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', 'public_holidays_manage'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.role_permissions WHERE role = 'admin' AND permission = 'public_holidays_manage'
+);
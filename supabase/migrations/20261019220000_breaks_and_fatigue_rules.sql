@@ -0,0 +1,32 @@
+-- Break periods and fatigue limits. Each working hours entry can list its breaks with
+-- whether they are paid; break_minutes stays the total of the unpaid ones so pay is
+-- worked out as before. Fatigue rules set the longest shift, the shortest rest between
+-- shifts and the most consecutive days worked. The row with no client is the default
+-- and a client's own row replaces it for that client's shifts.
+
+ALTER TABLE public.working_hours
+  ADD COLUMN breaks JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE TABLE public.fatigue_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  max_shift_hours NUMERIC(4,2) NOT NULL DEFAULT 12 CHECK (max_shift_hours > 0),
+  min_rest_hours NUMERIC(4,2) NOT NULL DEFAULT 10 CHECK (min_rest_hours >= 0),
+  max_consecutive_days INTEGER NOT NULL DEFAULT 6 CHECK (max_consecutive_days > 0),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT fatigue_rules_client_id_key UNIQUE NULLS NOT DISTINCT (client_id)
+);
+
+ALTER TABLE public.fatigue_rules ENABLE ROW LEVEL SECURITY;
+
+-- Roster planners and timesheet approvers both check shifts against the limits
+CREATE POLICY "Signed-in users can read fatigue rules"
+  ON public.fatigue_rules FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Timesheet managers can manage fatigue rules"
+  ON public.fatigue_rules FOR ALL
+  USING (public.has_permission(auth.uid(), 'working_hours_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'working_hours_manage'));
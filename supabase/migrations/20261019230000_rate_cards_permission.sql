@@ -0,0 +1,4 @@
+-- Permission for maintaining pay and bill rate cards. Kept in its own migration
+-- because a new enum value cannot be used in the transaction that adds it.
+
+ALTER TYPE public.app_permission ADD VALUE IF NOT EXISTS 'rate_cards_manage';
@@ -0,0 +1,60 @@
+-- Rate cards: what an hour is paid to the worker and billed to the client, from a date.
+-- A card is for one employee on a project, one role on a project, or a whole client.
+-- The most specific card in effect on the day wins, and an employee's own hourly_rate is
+-- the pay rate when no card applies. Forms are pre-filled from the cards, and each entry
+-- keeps the rates it was saved with.
+
+CREATE TABLE public.rate_cards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  client_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id) ON DELETE CASCADE,
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role public.user_role,
+  -- Either rate may be left to a less specific card
+  pay_rate NUMERIC(10,2) CHECK (pay_rate >= 0),
+  bill_rate NUMERIC(10,2) CHECK (bill_rate >= 0),
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT rate_cards_scope_check CHECK (
+    (profile_id IS NOT NULL AND project_id IS NOT NULL AND role IS NULL)
+    OR (profile_id IS NULL AND project_id IS NOT NULL AND role IS NOT NULL)
+    OR (profile_id IS NULL AND project_id IS NULL AND role IS NULL)
+  ),
+  CONSTRAINT rate_cards_rate_check CHECK (pay_rate IS NOT NULL OR bill_rate IS NOT NULL),
+  CONSTRAINT rate_cards_dates_check CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX idx_rate_cards_client_id ON public.rate_cards(client_id);
+
+-- The bill rate each entry was saved with, and its hours at that rate
+ALTER TABLE public.working_hours
+  ADD COLUMN bill_rate NUMERIC(10,2),
+  ADD COLUMN billable_amount NUMERIC(10,2);
+
+ALTER TABLE public.rate_cards ENABLE ROW LEVEL SECURITY;
+
+-- Bill rates are commercial, so only the people who price hours and rosters can read them
+CREATE POLICY "Rate setters can read rate cards"
+  ON public.rate_cards FOR SELECT
+  USING (
+    public.has_permission(auth.uid(), 'rate_cards_manage')
+    OR public.has_permission(auth.uid(), 'working_hours_manage')
+    OR public.has_permission(auth.uid(), 'working_hours_approve')
+    OR public.has_permission(auth.uid(), 'roster_manage')
+    OR public.has_permission(auth.uid(), 'payroll_manage')
+  );
+
+CREATE POLICY "Rate card managers can manage rate cards"
+  ON public.rate_cards FOR ALL
+  USING (public.has_permission(auth.uid(), 'rate_cards_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'rate_cards_manage'));
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', 'rate_cards_manage'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.role_permissions WHERE role = 'admin' AND permission = 'rate_cards_manage'
+);
@@ -0,0 +1,90 @@
+-- Client invoices raised from approved working hours. Hours are grouped into line items by
+-- project and bill rate, and each hour is linked to the invoice that billed it so it cannot
+-- be billed twice. Deleting a draft invoice frees its hours. Payment is recorded as deposits
+-- in bank_transactions, one per project on the invoice.
+
+CREATE TYPE public.invoice_status AS ENUM ('draft', 'sent', 'paid');
+
+CREATE SEQUENCE public.invoice_number_seq;
+
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_number TEXT NOT NULL UNIQUE
+    DEFAULT 'INV-' || lpad(nextval('public.invoice_number_seq')::text, 5, '0'),
+  client_id UUID NOT NULL REFERENCES public.clients(id),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE NOT NULL,
+  status public.invoice_status NOT NULL DEFAULT 'draft',
+  -- Percentage applied to the subtotal
+  tax_rate NUMERIC(5,2) NOT NULL DEFAULT 10 CHECK (tax_rate >= 0),
+  subtotal NUMERIC(12,2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  paid_bank_account_id UUID REFERENCES public.bank_accounts(id),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT invoices_period_check CHECK (period_end >= period_start),
+  CONSTRAINT invoices_due_date_check CHECK (due_date >= issue_date)
+);
+
+CREATE INDEX idx_invoices_client_id ON public.invoices(client_id);
+
+CREATE TABLE public.invoice_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES public.projects(id),
+  description TEXT NOT NULL,
+  quantity NUMERIC(10,2) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(10,2) NOT NULL DEFAULT 0,
+  amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_line_items_invoice_id ON public.invoice_line_items(invoice_id);
+
+-- The hours each line item bills. An hour can be on one invoice only.
+CREATE TABLE public.invoice_working_hours (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  line_item_id UUID NOT NULL REFERENCES public.invoice_line_items(id) ON DELETE CASCADE,
+  working_hour_id UUID NOT NULL UNIQUE REFERENCES public.working_hours(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_working_hours_invoice_id ON public.invoice_working_hours(invoice_id);
+
+-- The deposits recording an invoice's payment
+ALTER TABLE public.bank_transactions
+  ADD COLUMN invoice_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL;
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_line_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_working_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Invoice managers can manage invoices"
+  ON public.invoices FOR ALL
+  USING (public.has_permission(auth.uid(), 'invoices_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'invoices_manage'));
+
+CREATE POLICY "Invoice managers can manage invoice line items"
+  ON public.invoice_line_items FOR ALL
+  USING (public.has_permission(auth.uid(), 'invoices_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'invoices_manage'));
+
+CREATE POLICY "Invoice managers can manage invoiced hours"
+  ON public.invoice_working_hours FOR ALL
+  USING (public.has_permission(auth.uid(), 'invoices_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'invoices_manage'));
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', 'invoices_manage'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.role_permissions WHERE role = 'admin' AND permission = 'invoices_manage'
+);
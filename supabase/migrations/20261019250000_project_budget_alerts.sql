@@ -0,0 +1,38 @@
+-- Budget alerts sent for a project, one per threshold (75, 90 and 100 percent of budget),
+-- so each is notified once. An alert is cleared when spending drops back below its
+-- threshold, for example after the budget is raised, so it can fire again.
+
+CREATE TABLE public.project_budget_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  threshold INTEGER NOT NULL CHECK (threshold IN (75, 90, 100)),
+  budget NUMERIC(12,2) NOT NULL,
+  spent NUMERIC(12,2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (project_id, threshold)
+);
+
+ALTER TABLE public.project_budget_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Alerts are raised by whoever changes project costs: approving hours, recording
+-- expenses or editing the project
+CREATE POLICY "Project cost editors can read budget alerts"
+  ON public.project_budget_alerts FOR SELECT
+  USING (
+    public.has_permission(auth.uid(), 'projects_manage')
+    OR public.has_permission(auth.uid(), 'working_hours_approve')
+    OR public.has_permission(auth.uid(), 'bank_balance_manage')
+  );
+
+CREATE POLICY "Project cost editors can manage budget alerts"
+  ON public.project_budget_alerts FOR ALL
+  USING (
+    public.has_permission(auth.uid(), 'projects_manage')
+    OR public.has_permission(auth.uid(), 'working_hours_approve')
+    OR public.has_permission(auth.uid(), 'bank_balance_manage')
+  )
+  WITH CHECK (
+    public.has_permission(auth.uid(), 'projects_manage')
+    OR public.has_permission(auth.uid(), 'working_hours_approve')
+    OR public.has_permission(auth.uid(), 'bank_balance_manage')
+  );
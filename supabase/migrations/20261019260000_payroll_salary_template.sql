@@ -0,0 +1,6 @@
+-- The salary template a payroll was worked out with. Kept when the template is later
+-- edited; cleared if it is deleted, leaving the payroll's figures as they were.
+ALTER TABLE public.payroll
+  ADD COLUMN salary_template_id UUID REFERENCES public.salary_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_payroll_salary_template_id ON public.payroll(salary_template_id);
@@ -0,0 +1,71 @@
+-- Tax withheld from pay. A scale gives the marginal rate on annual income from each
+-- threshold up. A period's gross pay is annualised (52 weeks, 26 fortnights or 12
+-- months), taxed on the scale and brought back to the period. Each scale is for
+-- employees who have, or have not, claimed the tax-free threshold, and the latest one
+-- in effect on the last day of the pay period is used.
+
+CREATE TABLE public.tax_scales (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  effective_from DATE NOT NULL,
+  tax_free_threshold_claimed BOOLEAN NOT NULL DEFAULT true,
+  -- Withheld from employees who have not given a tax file number, whatever they earn
+  no_tfn_rate NUMERIC(5,2) NOT NULL DEFAULT 47 CHECK (no_tfn_rate >= 0 AND no_tfn_rate <= 100),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.tax_scale_brackets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tax_scale_id UUID NOT NULL REFERENCES public.tax_scales(id) ON DELETE CASCADE,
+  threshold NUMERIC(12,2) NOT NULL CHECK (threshold >= 0),
+  rate NUMERIC(5,2) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+  UNIQUE (tax_scale_id, threshold)
+);
+
+CREATE INDEX idx_tax_scale_brackets_tax_scale_id ON public.tax_scale_brackets(tax_scale_id);
+
+ALTER TABLE public.profiles
+  ADD COLUMN tax_free_threshold_claimed BOOLEAN NOT NULL DEFAULT true;
+
+-- Tax is kept apart from the payroll's other deductions
+ALTER TABLE public.payroll
+  ADD COLUMN tax_withheld NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN tax_scale_id UUID REFERENCES public.tax_scales(id) ON DELETE SET NULL;
+
+ALTER TABLE public.tax_scales ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_scale_brackets ENABLE ROW LEVEL SECURITY;
+
+-- Anyone running payroll reads the scales; only tax scale managers change them
+CREATE POLICY "Payroll staff can read tax scales"
+  ON public.tax_scales FOR SELECT
+  USING (
+    public.has_permission(auth.uid(), 'tax_scales_manage')
+    OR public.has_permission(auth.uid(), 'payroll_manage')
+    OR public.has_permission(auth.uid(), 'payroll_process')
+  );
+
+CREATE POLICY "Tax scale managers can manage tax scales"
+  ON public.tax_scales FOR ALL
+  USING (public.has_permission(auth.uid(), 'tax_scales_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'tax_scales_manage'));
+
+CREATE POLICY "Payroll staff can read tax scale brackets"
+  ON public.tax_scale_brackets FOR SELECT
+  USING (
+    public.has_permission(auth.uid(), 'tax_scales_manage')
+    OR public.has_permission(auth.uid(), 'payroll_manage')
+    OR public.has_permission(auth.uid(), 'payroll_process')
+  );
+
+CREATE POLICY "Tax scale managers can manage tax scale brackets"
+  ON public.tax_scale_brackets FOR ALL
+  USING (public.has_permission(auth.uid(), 'tax_scales_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'tax_scales_manage'));
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', 'tax_scales_manage'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.role_permissions WHERE role = 'admin' AND permission = 'tax_scales_manage'
+);
@@ -0,0 +1,85 @@
+-- Employer superannuation contributions. The guarantee percentage in effect on the last
+-- day of a pay period is applied to the period's ordinary-time earnings (pay for ordinary
+-- and penalty hours, without overtime or allowances), and each generated payroll records
+-- what was accrued. Contributions are paid quarterly; the withdrawal that paid them is
+-- linked to each accrual it covers.
+
+CREATE TABLE public.super_guarantee_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  percentage NUMERIC(5,2) NOT NULL CHECK (percentage >= 0 AND percentage <= 100),
+  effective_from DATE NOT NULL UNIQUE,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.super_guarantee_rates (percentage, effective_from)
+VALUES (11.5, '2024-07-01'), (12, '2025-07-01');
+
+-- The fund each employee's contributions are paid to
+ALTER TABLE public.profiles
+  ADD COLUMN super_fund_name TEXT,
+  ADD COLUMN super_fund_abn TEXT,
+  ADD COLUMN super_fund_usi TEXT,
+  ADD COLUMN super_member_number TEXT;
+
+CREATE TABLE public.super_accruals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payroll_id UUID NOT NULL UNIQUE REFERENCES public.payroll(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES public.profiles(id),
+  -- Copied from the payroll so quarters can be reported without it
+  pay_period_end DATE NOT NULL,
+  ordinary_time_earnings NUMERIC(10,2) NOT NULL DEFAULT 0,
+  guarantee_percentage NUMERIC(5,2) NOT NULL,
+  amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  bank_transaction_id UUID REFERENCES public.bank_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_super_accruals_pay_period_end ON public.super_accruals(pay_period_end);
+CREATE INDEX idx_super_accruals_profile_id ON public.super_accruals(profile_id);
+CREATE INDEX idx_super_accruals_bank_transaction_id ON public.super_accruals(bank_transaction_id);
+
+ALTER TABLE public.super_guarantee_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.super_accruals ENABLE ROW LEVEL SECURITY;
+
+-- Anyone running payroll reads the rates and records accruals; only superannuation
+-- managers change rates or match payments
+CREATE POLICY "Payroll staff can read guarantee rates"
+  ON public.super_guarantee_rates FOR SELECT
+  USING (
+    public.has_permission(auth.uid(), 'superannuation_manage')
+    OR public.has_permission(auth.uid(), 'payroll_manage')
+    OR public.has_permission(auth.uid(), 'payroll_process')
+  );
+
+CREATE POLICY "Superannuation managers can manage guarantee rates"
+  ON public.super_guarantee_rates FOR ALL
+  USING (public.has_permission(auth.uid(), 'superannuation_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'superannuation_manage'));
+
+CREATE POLICY "Payroll staff can read super accruals"
+  ON public.super_accruals FOR SELECT
+  USING (
+    public.has_permission(auth.uid(), 'superannuation_manage')
+    OR public.has_permission(auth.uid(), 'payroll_manage')
+    OR public.has_permission(auth.uid(), 'payroll_process')
+  );
+
+CREATE POLICY "Payroll staff can record super accruals"
+  ON public.super_accruals FOR INSERT
+  WITH CHECK (
+    public.has_permission(auth.uid(), 'superannuation_manage')
+    OR public.has_permission(auth.uid(), 'payroll_manage')
+    OR public.has_permission(auth.uid(), 'payroll_process')
+  );
+
+CREATE POLICY "Superannuation managers can manage super accruals"
+  ON public.super_accruals FOR ALL
+  USING (public.has_permission(auth.uid(), 'superannuation_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'superannuation_manage'));
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', 'superannuation_manage'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.role_permissions WHERE role = 'admin' AND permission = 'superannuation_manage'
+);
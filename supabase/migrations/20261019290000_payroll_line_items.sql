@@ -0,0 +1,45 @@
+-- Itemised earnings, allowances, reimbursements and deductions on a payroll, on top of
+-- the pay for hours worked. Earnings and allowances add to gross pay; reimbursements are
+-- paid on top of net pay without being part of gross; deductions come off net pay. A
+-- taxable earning, allowance or reimbursement counts towards the pay tax is withheld
+-- from, and a taxable deduction comes off it before tax, as salary sacrifice does.
+-- Recurring items are carried onto the employee's next payroll.
+
+CREATE TYPE public.payroll_line_item_type AS ENUM ('earning', 'allowance', 'reimbursement', 'deduction');
+
+CREATE TABLE public.payroll_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  payroll_id UUID NOT NULL REFERENCES public.payroll(id) ON DELETE CASCADE,
+  type public.payroll_line_item_type NOT NULL,
+  description TEXT NOT NULL,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount >= 0),
+  taxable BOOLEAN NOT NULL DEFAULT true,
+  is_recurring BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payroll_line_items_payroll_id ON public.payroll_line_items(payroll_id);
+
+ALTER TABLE public.payroll_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Payroll viewers can read payroll line items"
+  ON public.payroll_line_items FOR SELECT
+  USING (
+    public.has_permission(auth.uid(), 'payroll_view')
+    OR EXISTS (
+      SELECT 1 FROM public.payroll
+      WHERE payroll.id = payroll_line_items.payroll_id AND payroll.profile_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Payroll staff can manage payroll line items"
+  ON public.payroll_line_items FOR ALL
+  USING (
+    public.has_permission(auth.uid(), 'payroll_manage')
+    OR public.has_permission(auth.uid(), 'payroll_process')
+  )
+  WITH CHECK (
+    public.has_permission(auth.uid(), 'payroll_manage')
+    OR public.has_permission(auth.uid(), 'payroll_process')
+  );
@@ -0,0 +1,149 @@
+-- Saving a series touches the series row, its occurrence rosters and their team. These
+-- functions make each save a single transaction so a failure part way through cannot
+-- leave a series without rosters or a truncated series without its follow-on. They run
+-- as the caller, so the usual roster policies still apply.
+
+-- Creates rosters, optionally as a new series, and assigns the team to each of them.
+-- Returns the ids of the created rosters.
+CREATE OR REPLACE FUNCTION public.create_rosters(
+  series_fields JSONB,
+  roster_fields JSONB,
+  team_profile_ids UUID[]
+)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_series_id UUID;
+BEGIN
+  IF series_fields IS NOT NULL THEN
+    INSERT INTO public.roster_series (
+      name, client_id, project_id, start_time, end_time, break_minutes, duration_days,
+      expected_profiles, per_hour_rate, notes, profile_ids, frequency, interval, by_weekday,
+      start_date, until_date, occurrence_count, exception_dates, created_by
+    )
+    SELECT
+      s.name, s.client_id, s.project_id, s.start_time, s.end_time, s.break_minutes, s.duration_days,
+      s.expected_profiles, s.per_hour_rate, s.notes, s.profile_ids, s.frequency, s.interval, s.by_weekday,
+      s.start_date, s.until_date, s.occurrence_count, s.exception_dates, s.created_by
+    FROM jsonb_populate_record(NULL::public.roster_series, series_fields) s
+    RETURNING id INTO new_series_id;
+  END IF;
+
+  RETURN QUERY
+  WITH created AS (
+    INSERT INTO public.rosters (
+      profile_id, client_id, project_id, name, date, end_date, start_time, end_time,
+      break_minutes, total_hours, notes, status, expected_profiles, per_hour_rate,
+      series_id, series_occurrence_date
+    )
+    SELECT
+      r.profile_id, r.client_id, r.project_id, r.name, r.date, r.end_date, r.start_time, r.end_time,
+      r.break_minutes, r.total_hours, r.notes, r.status, r.expected_profiles, r.per_hour_rate,
+      new_series_id, CASE WHEN new_series_id IS NULL THEN NULL ELSE r.date END
+    FROM jsonb_populate_recordset(NULL::public.rosters, roster_fields) r
+    RETURNING id
+  ), team AS (
+    INSERT INTO public.roster_profiles (roster_id, profile_id)
+    SELECT created.id, member.profile_id
+    FROM created
+    CROSS JOIN unnest(team_profile_ids) AS member(profile_id)
+  )
+  SELECT created.id FROM created;
+END;
+$$;
+
+-- Applies an edit to existing rosters and gives them the team. With a series, its row is
+-- updated from series_changes; with split_fields too, a new series is created from the
+-- old one overridden by split_fields and the edited rosters move to it. Keys left out of
+-- the JSON keep their current values. Returns the series the rosters now belong to.
+CREATE OR REPLACE FUNCTION public.update_rosters(
+  roster_changes JSONB,
+  team_profile_ids UUID[],
+  target_series_id UUID DEFAULT NULL,
+  series_changes JSONB DEFAULT NULL,
+  split_fields JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  moved_to_series_id UUID := target_series_id;
+  roster_ids UUID[];
+BEGIN
+  IF target_series_id IS NOT NULL AND split_fields IS NOT NULL THEN
+    INSERT INTO public.roster_series (
+      name, client_id, project_id, start_time, end_time, break_minutes, duration_days,
+      expected_profiles, per_hour_rate, notes, profile_ids, frequency, interval, by_weekday,
+      start_date, until_date, occurrence_count, exception_dates, created_by
+    )
+    SELECT
+      n.name, n.client_id, n.project_id, n.start_time, n.end_time, n.break_minutes, n.duration_days,
+      n.expected_profiles, n.per_hour_rate, n.notes, n.profile_ids, n.frequency, n.interval, n.by_weekday,
+      n.start_date, n.until_date, n.occurrence_count, n.exception_dates, n.created_by
+    FROM public.roster_series s
+    CROSS JOIN LATERAL jsonb_populate_record(s, split_fields) n
+    WHERE s.id = target_series_id
+    RETURNING id INTO moved_to_series_id;
+
+    IF moved_to_series_id IS NULL THEN
+      RAISE EXCEPTION 'Roster series % not found', target_series_id;
+    END IF;
+  END IF;
+
+  IF target_series_id IS NOT NULL AND series_changes IS NOT NULL THEN
+    UPDATE public.roster_series s
+    SET (
+      name, client_id, project_id, start_time, end_time, break_minutes, duration_days,
+      expected_profiles, per_hour_rate, notes, profile_ids, start_date, until_date,
+      occurrence_count, exception_dates, updated_at
+    ) = (
+      SELECT
+        c.name, c.client_id, c.project_id, c.start_time, c.end_time, c.break_minutes, c.duration_days,
+        c.expected_profiles, c.per_hour_rate, c.notes, c.profile_ids, c.start_date, c.until_date,
+        c.occurrence_count, c.exception_dates, now()
+      FROM jsonb_populate_record(s, series_changes) c
+    )
+    WHERE s.id = target_series_id;
+  END IF;
+
+  WITH updated AS (
+    UPDATE public.rosters r
+    SET (
+      name, client_id, project_id, date, end_date, start_time, end_time, break_minutes,
+      total_hours, notes, status, expected_profiles, per_hour_rate, series_id,
+      series_occurrence_date, updated_at
+    ) = (
+      SELECT
+        c.name, c.client_id, c.project_id, c.date, c.end_date, c.start_time, c.end_time, c.break_minutes,
+        c.total_hours, c.notes, c.status, c.expected_profiles, c.per_hour_rate,
+        COALESCE(moved_to_series_id, r.series_id),
+        CASE WHEN moved_to_series_id IS NULL THEN r.series_occurrence_date ELSE c.date END,
+        now()
+      FROM jsonb_populate_record(r, change.fields) c
+    )
+    FROM jsonb_array_elements(roster_changes) AS change(fields)
+    WHERE r.id = (change.fields->>'id')::UUID
+    RETURNING r.id
+  )
+  SELECT array_agg(id) INTO roster_ids FROM updated;
+
+  IF COALESCE(array_length(roster_ids, 1), 0) <> jsonb_array_length(roster_changes) THEN
+    RAISE EXCEPTION 'Some of the rosters could not be updated';
+  END IF;
+
+  DELETE FROM public.roster_profiles WHERE roster_id = ANY (roster_ids);
+
+  INSERT INTO public.roster_profiles (roster_id, profile_id)
+  SELECT roster_id, member.profile_id
+  FROM unnest(roster_ids) AS roster_id
+  CROSS JOIN unnest(team_profile_ids) AS member(profile_id);
+
+  RETURN moved_to_series_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_rosters(JSONB, JSONB, UUID[]) FROM anon;
+REVOKE ALL ON FUNCTION public.update_rosters(JSONB, UUID[], UUID, JSONB, JSONB) FROM anon;
@@ -0,0 +1,81 @@
+-- Kiosk PINs are short, so a kiosk that keeps entering wrong PINs is locked for a while
+-- instead of being able to try every code. Failures are counted per kiosk account, as a
+-- wrong PIN doesn't say whose PIN was being guessed. Like kiosk_pins, the table has no
+-- policies and is only touched by identify_kiosk_pin.
+
+CREATE TABLE public.kiosk_pin_failures (
+  kiosk_profile_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_until TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.kiosk_pin_failures ENABLE ROW LEVEL SECURITY;
+
+-- Returns the active profile the PIN belongs to, or no row. Five wrong PINs within
+-- fifteen minutes lock the kiosk for fifteen minutes; a correct PIN clears the count.
+-- A wrong PIN returns no row rather than raising, so the failure is kept.
+CREATE OR REPLACE FUNCTION public.identify_kiosk_pin(pin TEXT)
+RETURNS TABLE (profile_id UUID, full_name TEXT)
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  max_failures CONSTANT INTEGER := 5;
+  failure_window CONSTANT INTERVAL := INTERVAL '15 minutes';
+  lockout CONSTANT INTERVAL := INTERVAL '15 minutes';
+  kiosk_id UUID := auth.uid();
+  kiosk_locked_until TIMESTAMP WITH TIME ZONE;
+  matched_profile_id UUID;
+  matched_name TEXT;
+BEGIN
+  IF NOT public.has_permission(kiosk_id, 'working_hours_manage') THEN
+    RAISE EXCEPTION 'This device is not set up as a clock-in kiosk';
+  END IF;
+
+  SELECT f.locked_until INTO kiosk_locked_until
+  FROM public.kiosk_pin_failures f
+  WHERE f.kiosk_profile_id = kiosk_id;
+
+  IF kiosk_locked_until > now() THEN
+    RAISE EXCEPTION 'Too many incorrect PINs, try again in % minute(s)',
+      ceil(extract(epoch FROM kiosk_locked_until - now()) / 60);
+  END IF;
+
+  SELECT p.id, p.full_name INTO matched_profile_id, matched_name
+  FROM public.kiosk_pins kp
+  JOIN public.profiles p ON p.id = kp.profile_id
+  WHERE p.is_active
+    AND kp.pin_hash = crypt(pin, kp.pin_hash)
+  LIMIT 1;
+
+  IF matched_profile_id IS NULL THEN
+    INSERT INTO public.kiosk_pin_failures AS f (kiosk_profile_id, failed_attempts, last_failed_at)
+    VALUES (kiosk_id, 1, now())
+    ON CONFLICT (kiosk_profile_id) DO UPDATE
+      SET failed_attempts = CASE
+            WHEN f.last_failed_at < now() - failure_window OR f.locked_until IS NOT NULL THEN 1
+            ELSE f.failed_attempts + 1
+          END,
+          last_failed_at = now(),
+          locked_until = NULL;
+
+    UPDATE public.kiosk_pin_failures f
+    SET locked_until = now() + lockout
+    WHERE f.kiosk_profile_id = kiosk_id
+      AND f.failed_attempts >= max_failures;
+
+    RETURN;
+  END IF;
+
+  DELETE FROM public.kiosk_pin_failures f WHERE f.kiosk_profile_id = kiosk_id;
+
+  profile_id := matched_profile_id;
+  full_name := matched_name;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.identify_kiosk_pin(TEXT) FROM anon;
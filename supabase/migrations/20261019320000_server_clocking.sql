@@ -0,0 +1,273 @@
+-- Clocking in and out happens on the server. Staff no longer write working_hours
+-- directly, as that let them set any column on their pending rows; instead these
+-- functions check the roster assignment, stamp the time from the database clock, work
+-- out the distance from the project site and write only the clocking columns. The
+-- instants are kept alongside the wall-clock times so hours worked are the real time
+-- elapsed, whatever time zone the device reports.
+
+ALTER TABLE public.working_hours
+  ADD COLUMN sign_in_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN sign_out_at TIMESTAMP WITH TIME ZONE;
+
+DROP POLICY "Staff can clock into their rostered shifts" ON public.working_hours;
+DROP POLICY "Staff can clock their own pending hours" ON public.working_hours;
+
+-- Great-circle (haversine) distance between two points in metres
+CREATE OR REPLACE FUNCTION public.distance_meters(lat1 NUMERIC, lng1 NUMERIC, lat2 NUMERIC, lng2 NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (2 * 6371000 * asin(sqrt(
+    sin(radians(lat2 - lat1) / 2) ^ 2 +
+    cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lng2 - lng1) / 2) ^ 2
+  )))::NUMERIC;
+$$;
+
+-- The rate card setting a pay or bill rate for someone on a project on a day: employee
+-- on the project, then their role on the project, then the client, and within a level
+-- the latest effective_from. Mirrors resolveRate in src/lib/rate-cards.ts.
+CREATE OR REPLACE FUNCTION public.resolve_rate_card(
+  subject_profile_id UUID,
+  subject_client_id UUID,
+  subject_project_id UUID,
+  subject_date DATE,
+  rate_field TEXT
+)
+RETURNS TABLE (rate NUMERIC, level TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT card.rate, card.level
+  FROM (
+    SELECT
+      CASE WHEN rate_field = 'bill_rate' THEN c.bill_rate ELSE c.pay_rate END AS rate,
+      CASE
+        WHEN c.profile_id IS NOT NULL THEN 'profile_project'
+        WHEN c.project_id IS NOT NULL THEN 'project_role'
+        ELSE 'client'
+      END AS level,
+      CASE WHEN c.profile_id IS NOT NULL THEN 1 WHEN c.project_id IS NOT NULL THEN 2 ELSE 3 END AS precedence,
+      c.effective_from
+    FROM public.rate_cards c
+    WHERE c.effective_from <= subject_date
+      AND (c.effective_to IS NULL OR c.effective_to >= subject_date)
+      AND (
+        (c.profile_id IS NOT NULL AND c.profile_id = subject_profile_id AND c.project_id = subject_project_id)
+        OR (c.profile_id IS NULL AND c.project_id IS NOT NULL AND c.project_id = subject_project_id
+            AND c.role = (SELECT p.role FROM public.profiles p WHERE p.id = subject_profile_id))
+        OR (c.project_id IS NULL AND c.client_id = subject_client_id)
+      )
+  ) card
+  WHERE card.rate IS NOT NULL
+  ORDER BY card.precedence, card.effective_from DESC
+  LIMIT 1;
+$$;
+
+-- Paid hours from one wall-clock time to another less breaks, as calculateShiftHours
+CREATE OR REPLACE FUNCTION public.shift_hours(start_time TIME, end_time TIME, break_minutes INTEGER)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT round(greatest(0,
+    (extract(epoch FROM end_time - start_time)::INTEGER / 60 + 1440) % 1440 - greatest(0, COALESCE(break_minutes, 0))
+  ) / 60.0, 2);
+$$;
+
+-- The wall-clock time now in the device's zone, rejecting names Postgres doesn't know
+CREATE OR REPLACE FUNCTION public.clock_local_time(time_zone TEXT)
+RETURNS TIMESTAMP
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_catalog.pg_timezone_names WHERE name = time_zone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', time_zone;
+  END IF;
+  RETURN date_trunc('minute', now() AT TIME ZONE time_zone);
+END;
+$$;
+
+-- Clocks someone into a roster they are on that runs today. Staff clock themselves in;
+-- kiosk and timesheet managers clock in whoever identified at the kiosk. The row
+-- generated for the shift is used when there is one, otherwise it is created at the
+-- roster's times and rate.
+CREATE OR REPLACE FUNCTION public.clock_in_shift(
+  target_roster_id UUID,
+  target_profile_id UUID,
+  time_zone TEXT,
+  latitude NUMERIC DEFAULT NULL,
+  longitude NUMERIC DEFAULT NULL,
+  accuracy_meters NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (working_hours_id UUID, clocked_time TIME, distance_meters NUMERIC, outside_geofence BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  local_now TIMESTAMP := public.clock_local_time(time_zone);
+  work_date DATE := local_now::DATE;
+  shift public.rosters%ROWTYPE;
+  site public.projects%ROWTYPE;
+  row_id UUID;
+  card_rate NUMERIC;
+  card_level TEXT;
+  shift_rate NUMERIC;
+  shift_total NUMERIC;
+BEGIN
+  IF target_profile_id <> auth.uid() AND NOT public.has_permission(auth.uid(), 'working_hours_manage') THEN
+    RAISE EXCEPTION 'Not allowed to clock this person in';
+  END IF;
+
+  SELECT * INTO shift FROM public.rosters WHERE id = target_roster_id AND status <> 'cancelled';
+
+  -- Rosters saved before roster_profiles existed only have a primary profile
+  IF shift.id IS NULL OR NOT (
+    EXISTS (SELECT 1 FROM public.roster_profiles rp WHERE rp.roster_id = shift.id AND rp.profile_id = target_profile_id)
+    OR (shift.profile_id = target_profile_id
+        AND NOT EXISTS (SELECT 1 FROM public.roster_profiles rp WHERE rp.roster_id = shift.id))
+  ) THEN
+    RAISE EXCEPTION 'This shift is not rostered to you';
+  END IF;
+
+  IF work_date < shift.date OR work_date > greatest(shift.date, COALESCE(shift.end_date, shift.date)) THEN
+    RAISE EXCEPTION 'This shift is not rostered for today';
+  END IF;
+
+  SELECT * INTO site FROM public.projects WHERE id = shift.project_id;
+
+  IF latitude IS NOT NULL AND longitude IS NOT NULL AND site.site_latitude IS NOT NULL AND site.site_longitude IS NOT NULL THEN
+    distance_meters := round(public.distance_meters(latitude, longitude, site.site_latitude, site.site_longitude), 2);
+    outside_geofence := distance_meters - COALESCE(accuracy_meters, 0) > site.site_radius_meters;
+  END IF;
+
+  SELECT wh.id INTO row_id
+  FROM public.working_hours wh
+  WHERE wh.roster_id = shift.id AND wh.profile_id = target_profile_id AND wh.date = work_date
+  FOR UPDATE;
+
+  IF row_id IS NULL THEN
+    SELECT c.rate, c.level INTO card_rate, card_level
+    FROM public.resolve_rate_card(target_profile_id, shift.client_id, shift.project_id, work_date, 'pay_rate') c;
+
+    shift_rate := CASE
+      WHEN card_level IS NOT NULL AND card_level <> 'client' THEN card_rate
+      ELSE COALESCE(NULLIF(shift.per_hour_rate, 0), card_rate, 0)
+    END;
+    shift_total := public.shift_hours(shift.start_time, shift.end_time, shift.break_minutes);
+
+    INSERT INTO public.working_hours (
+      roster_id, profile_id, client_id, project_id, date, start_time, end_time, break_minutes,
+      total_hours, hourly_rate, payable_amount, status
+    )
+    VALUES (
+      shift.id, target_profile_id, shift.client_id, shift.project_id, work_date, shift.start_time, shift.end_time,
+      COALESCE(shift.break_minutes, 0), shift_total, shift_rate, shift_total * shift_rate, 'pending'
+    )
+    ON CONFLICT (roster_id, profile_id, date) DO NOTHING
+    RETURNING id INTO row_id;
+
+    IF row_id IS NULL THEN
+      RAISE EXCEPTION 'This shift was clocked at the same time, try again';
+    END IF;
+  END IF;
+
+  UPDATE public.working_hours wh
+  SET sign_in_time = local_now::TIME,
+      sign_in_at = now(),
+      sign_in_latitude = latitude,
+      sign_in_longitude = longitude,
+      sign_in_accuracy_meters = round(accuracy_meters, 2),
+      sign_in_distance_meters = clock_in_shift.distance_meters,
+      sign_in_outside_geofence = COALESCE(clock_in_shift.outside_geofence, false),
+      updated_at = now()
+  WHERE wh.id = row_id
+    AND wh.status = 'pending'
+    AND wh.sign_in_time IS NULL
+    AND wh.timesheet_submission_id IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This shift has already been clocked in or approved';
+  END IF;
+
+  working_hours_id := row_id;
+  clocked_time := local_now::TIME;
+  RETURN NEXT;
+END;
+$$;
+
+-- Clocks someone out of a shift they clocked into. Hours worked are the time elapsed
+-- since clocking in less the rostered break, and are paid at the row's rate.
+CREATE OR REPLACE FUNCTION public.clock_out_shift(
+  target_working_hours_id UUID,
+  time_zone TEXT,
+  latitude NUMERIC DEFAULT NULL,
+  longitude NUMERIC DEFAULT NULL,
+  accuracy_meters NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (working_hours_id UUID, clocked_time TIME, actual_hours NUMERIC, distance_meters NUMERIC, outside_geofence BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  local_now TIMESTAMP := public.clock_local_time(time_zone);
+  entry public.working_hours%ROWTYPE;
+  site public.projects%ROWTYPE;
+  worked_minutes INTEGER;
+BEGIN
+  SELECT * INTO entry FROM public.working_hours WHERE id = target_working_hours_id FOR UPDATE;
+
+  IF entry.id IS NULL OR (entry.profile_id <> auth.uid() AND NOT public.has_permission(auth.uid(), 'working_hours_manage')) THEN
+    RAISE EXCEPTION 'Not allowed to clock this shift out';
+  END IF;
+
+  IF entry.sign_in_time IS NULL THEN
+    RAISE EXCEPTION 'Clock in before clocking out';
+  END IF;
+
+  IF entry.status <> 'pending' OR entry.sign_out_time IS NOT NULL OR entry.timesheet_submission_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This shift has already been clocked out or approved';
+  END IF;
+
+  SELECT * INTO site FROM public.projects WHERE id = entry.project_id;
+
+  IF latitude IS NOT NULL AND longitude IS NOT NULL AND site.site_latitude IS NOT NULL AND site.site_longitude IS NOT NULL THEN
+    distance_meters := round(public.distance_meters(latitude, longitude, site.site_latitude, site.site_longitude), 2);
+    outside_geofence := distance_meters - COALESCE(accuracy_meters, 0) > site.site_radius_meters;
+  END IF;
+
+  -- Rows clocked in before the instant was recorded fall back to the wall-clock times
+  worked_minutes := CASE
+    WHEN entry.sign_in_at IS NOT NULL
+      THEN (extract(epoch FROM date_trunc('minute', now()) - date_trunc('minute', entry.sign_in_at)) / 60)::INTEGER
+    ELSE (extract(epoch FROM local_now::TIME - entry.sign_in_time::TIME)::INTEGER / 60 + 1440) % 1440
+  END;
+  actual_hours := round(greatest(0, worked_minutes - COALESCE(entry.break_minutes, 0)) / 60.0, 2);
+
+  UPDATE public.working_hours wh
+  SET sign_out_time = local_now::TIME,
+      sign_out_at = now(),
+      actual_hours = clock_out_shift.actual_hours,
+      overtime_hours = greatest(0, round(clock_out_shift.actual_hours - entry.total_hours, 2)),
+      payable_amount = clock_out_shift.actual_hours * COALESCE(entry.hourly_rate, 0),
+      sign_out_latitude = latitude,
+      sign_out_longitude = longitude,
+      sign_out_accuracy_meters = round(accuracy_meters, 2),
+      sign_out_distance_meters = clock_out_shift.distance_meters,
+      sign_out_outside_geofence = COALESCE(clock_out_shift.outside_geofence, false),
+      updated_at = now()
+  WHERE wh.id = entry.id;
+
+  working_hours_id := entry.id;
+  clocked_time := local_now::TIME;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_rate_card(UUID, UUID, UUID, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.clock_in_shift(UUID, UUID, TEXT, NUMERIC, NUMERIC, NUMERIC) FROM anon;
+REVOKE ALL ON FUNCTION public.clock_out_shift(UUID, TEXT, NUMERIC, NUMERIC, NUMERIC) FROM anon;
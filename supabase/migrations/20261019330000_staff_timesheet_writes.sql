@@ -0,0 +1,171 @@
+-- Staff save and submit their weekly timesheets through these functions rather than
+-- writing working_hours directly, which let them set any column on their drafts,
+-- including the rate and the amount paid. Staff only choose the project, date, times
+-- and break; hours, rate and amount are worked out here, the rate from the rate card in
+-- effect or otherwise the employee's own hourly rate.
+
+DROP POLICY "Staff can add draft hours" ON public.working_hours;
+DROP POLICY "Staff can edit or submit draft hours" ON public.working_hours;
+DROP POLICY "Staff can submit their own weeks" ON public.timesheet_submissions;
+DROP POLICY "Staff can resubmit rejected weeks" ON public.timesheet_submissions;
+
+-- The pay rate for the caller's hand-entered hours on a project and day
+CREATE OR REPLACE FUNCTION public.staff_pay_rate(subject_profile_id UUID, subject_project_id UUID, subject_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT c.rate
+     FROM public.projects pr
+     CROSS JOIN LATERAL public.resolve_rate_card(subject_profile_id, pr.client_id, pr.id, subject_date, 'pay_rate') c
+     WHERE pr.id = subject_project_id),
+    (SELECT p.hourly_rate FROM public.profiles p WHERE p.id = subject_profile_id),
+    0
+  );
+$$;
+
+-- Applies the caller's changes to their own hand-entered drafts in one go. inserts are
+-- { project_id, date, start_time, end_time, break_minutes? }, updates the same with the
+-- draft's id, and deletes the ids of drafts to remove. Other keys are ignored.
+CREATE OR REPLACE FUNCTION public.save_timesheet_drafts(inserts JSONB, updates JSONB, deletes UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to save your timesheet';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_to_recordset(inserts) AS i(project_id UUID)
+    LEFT JOIN public.projects pr ON pr.id = i.project_id
+    WHERE pr.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Unknown project';
+  END IF;
+
+  INSERT INTO public.working_hours (
+    profile_id, client_id, project_id, date, start_time, end_time, break_minutes,
+    total_hours, hourly_rate, payable_amount, status
+  )
+  SELECT
+    auth.uid(), pr.client_id, pr.id, i.date, i.start_time, i.end_time, COALESCE(i.break_minutes, 0),
+    hours.total, rate.value, round(hours.total * rate.value, 2), 'draft'
+  FROM jsonb_to_recordset(inserts) AS i(project_id UUID, date DATE, start_time TIME, end_time TIME, break_minutes INTEGER)
+  JOIN public.projects pr ON pr.id = i.project_id
+  CROSS JOIN LATERAL (SELECT public.shift_hours(i.start_time, i.end_time, i.break_minutes) AS total) hours
+  CROSS JOIN LATERAL (SELECT public.staff_pay_rate(auth.uid(), pr.id, i.date) AS value) rate;
+
+  UPDATE public.working_hours wh
+  SET start_time = u.start_time,
+      end_time = u.end_time,
+      break_minutes = COALESCE(u.break_minutes, 0),
+      total_hours = hours.total,
+      hourly_rate = rate.value,
+      payable_amount = round(hours.total * rate.value, 2),
+      updated_at = now()
+  FROM jsonb_to_recordset(updates) AS u(id UUID, start_time TIME, end_time TIME, break_minutes INTEGER)
+  CROSS JOIN LATERAL (SELECT public.shift_hours(u.start_time, u.end_time, u.break_minutes) AS total) hours
+  CROSS JOIN LATERAL (SELECT public.staff_pay_rate(auth.uid(), wh_rate.project_id, wh_rate.date) AS value
+                      FROM public.working_hours wh_rate WHERE wh_rate.id = u.id) rate
+  WHERE wh.id = u.id
+    AND wh.profile_id = auth.uid()
+    AND wh.status = 'draft'
+    AND wh.roster_id IS NULL;
+
+  GET DIAGNOSTICS changed_count = ROW_COUNT;
+  IF changed_count <> jsonb_array_length(updates) THEN
+    RAISE EXCEPTION 'Some entries are no longer drafts, reload the week and try again';
+  END IF;
+
+  DELETE FROM public.working_hours wh
+  WHERE wh.id = ANY (deletes)
+    AND wh.profile_id = auth.uid()
+    AND wh.status = 'draft'
+    AND wh.roster_id IS NULL;
+
+  GET DIAGNOSTICS changed_count = ROW_COUNT;
+  IF changed_count <> COALESCE(array_length(deletes, 1), 0) THEN
+    RAISE EXCEPTION 'Some entries are no longer drafts, reload the week and try again';
+  END IF;
+END;
+$$;
+
+-- Submits the caller's week: every draft and every pending entry not yet part of a
+-- submission moves to pending under one submission. A rejected week is resubmitted on
+-- its existing row. Returns the submission with its totals.
+CREATE OR REPLACE FUNCTION public.submit_timesheet_week(target_week_start DATE)
+RETURNS TABLE (submission_id UUID, total_hours NUMERIC, entry_count INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing public.timesheet_submissions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to submit your timesheet';
+  END IF;
+
+  SELECT round(COALESCE(sum(wh.total_hours), 0), 2), count(*)
+  INTO total_hours, entry_count
+  FROM public.working_hours wh
+  WHERE wh.profile_id = auth.uid()
+    AND wh.date BETWEEN target_week_start AND target_week_start + 6
+    AND wh.status IN ('draft', 'pending')
+    AND wh.timesheet_submission_id IS NULL;
+
+  IF entry_count = 0 THEN
+    RAISE EXCEPTION 'There are no hours to submit for this week';
+  END IF;
+
+  SELECT * INTO existing
+  FROM public.timesheet_submissions s
+  WHERE s.profile_id = auth.uid() AND s.week_start = target_week_start
+  FOR UPDATE;
+
+  IF existing.id IS NOT NULL AND existing.status <> 'rejected' THEN
+    RAISE EXCEPTION 'This week has already been submitted';
+  END IF;
+
+  IF existing.id IS NULL THEN
+    INSERT INTO public.timesheet_submissions (profile_id, week_start, status, total_hours, entry_count, submitted_at)
+    VALUES (auth.uid(), target_week_start, 'submitted', submit_timesheet_week.total_hours,
+            submit_timesheet_week.entry_count, now())
+    RETURNING id INTO submission_id;
+  ELSE
+    UPDATE public.timesheet_submissions s
+    SET status = 'submitted',
+        total_hours = submit_timesheet_week.total_hours,
+        entry_count = submit_timesheet_week.entry_count,
+        submitted_at = now(),
+        reviewed_by = NULL,
+        reviewed_at = NULL,
+        updated_at = now()
+    WHERE s.id = existing.id;
+    submission_id := existing.id;
+  END IF;
+
+  UPDATE public.working_hours wh
+  SET status = 'pending',
+      timesheet_submission_id = submission_id,
+      updated_at = now()
+  WHERE wh.profile_id = auth.uid()
+    AND wh.date BETWEEN target_week_start AND target_week_start + 6
+    AND wh.status IN ('draft', 'pending')
+    AND wh.timesheet_submission_id IS NULL;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.staff_pay_rate(UUID, UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.save_timesheet_drafts(JSONB, JSONB, UUID[]) FROM anon;
+REVOKE ALL ON FUNCTION public.submit_timesheet_week(DATE) FROM anon;
@@ -0,0 +1,68 @@
+-- Only draft invoices can be deleted, and recording a payment is one transaction that
+-- first moves the invoice from sent to paid, so a second click or a second manager can't
+-- record its deposits twice.
+
+DROP POLICY "Invoice managers can manage invoices" ON public.invoices;
+
+CREATE POLICY "Invoice managers can read invoices"
+  ON public.invoices FOR SELECT
+  USING (public.has_permission(auth.uid(), 'invoices_manage'));
+
+CREATE POLICY "Invoice managers can create invoices"
+  ON public.invoices FOR INSERT
+  WITH CHECK (public.has_permission(auth.uid(), 'invoices_manage'));
+
+CREATE POLICY "Invoice managers can update invoices"
+  ON public.invoices FOR UPDATE
+  USING (public.has_permission(auth.uid(), 'invoices_manage'))
+  WITH CHECK (public.has_permission(auth.uid(), 'invoices_manage'));
+
+-- Sent and paid invoices stay on record; deleting a draft frees its hours
+CREATE POLICY "Invoice managers can delete draft invoices"
+  ON public.invoices FOR DELETE
+  USING (public.has_permission(auth.uid(), 'invoices_manage') AND status = 'draft');
+
+-- Marks a sent invoice paid into a bank account and records its deposits, given as
+-- [{ project_id, description, amount }] adding up to the invoice total. Runs as the
+-- caller, so the invoice and bank transaction policies still apply.
+CREATE OR REPLACE FUNCTION public.record_invoice_payment(
+  target_invoice_id UUID,
+  bank_account_id UUID,
+  payment_date DATE,
+  deposits JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  paid public.invoices%ROWTYPE;
+BEGIN
+  UPDATE public.invoices i
+  SET status = 'paid',
+      paid_at = now(),
+      paid_bank_account_id = record_invoice_payment.bank_account_id,
+      updated_at = now()
+  WHERE i.id = target_invoice_id
+    AND i.status = 'sent'
+  RETURNING i.* INTO paid;
+
+  IF paid.id IS NULL THEN
+    RAISE EXCEPTION 'This invoice has already been paid or has not been sent';
+  END IF;
+
+  IF (SELECT COALESCE(sum(d.amount), 0) FROM jsonb_to_recordset(deposits) AS d(amount NUMERIC)) <> paid.total THEN
+    RAISE EXCEPTION 'The deposits do not add up to the invoice total';
+  END IF;
+
+  INSERT INTO public.bank_transactions (
+    description, amount, type, category, date, client_id, project_id, bank_account_id, invoice_id
+  )
+  SELECT
+    d.description, d.amount, 'deposit'::public.bank_transaction_type, 'income'::public.transaction_category,
+    payment_date, paid.client_id, d.project_id, record_invoice_payment.bank_account_id, paid.id
+  FROM jsonb_to_recordset(deposits) AS d(project_id UUID, description TEXT, amount NUMERIC);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_invoice_payment(UUID, UUID, DATE, JSONB) FROM anon;
@@ -0,0 +1,93 @@
+-- A payroll's line items are replaced in one transaction rather than by a delete
+-- followed by a separate insert, which could leave a payroll with no items when the
+-- insert failed. Editing a payroll saves its amounts, its items and its super accrual
+-- together, so the three can't disagree.
+
+-- Replaces the payroll's line items with items, given as
+-- [{ type, description, amount, taxable, is_recurring }] in the order to keep them.
+-- Runs as the caller, so the line item policies still apply.
+CREATE OR REPLACE FUNCTION public.replace_payroll_line_items(target_payroll_id UUID, items JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.payroll_line_items li WHERE li.payroll_id = target_payroll_id;
+
+  INSERT INTO public.payroll_line_items (payroll_id, type, description, amount, taxable, is_recurring, sort_order)
+  SELECT
+    target_payroll_id, (e.item->>'type')::public.payroll_line_item_type, e.item->>'description',
+    (e.item->>'amount')::NUMERIC, COALESCE((e.item->>'taxable')::BOOLEAN, true),
+    COALESCE((e.item->>'is_recurring')::BOOLEAN, false), (e.position - 1)::INTEGER
+  FROM jsonb_array_elements(items) WITH ORDINALITY AS e(item, position);
+END;
+$$;
+
+-- Saves an edited payroll: changes holds the payroll's period, status and amounts as
+-- worked out by calculatePayroll, items its line items, and accrual the super accrued
+-- on it as { ordinary_time_earnings, guarantee_percentage, amount }, or null when no
+-- guarantee percentage applies. An accrual already matched to a super payment can't
+-- change amount.
+CREATE OR REPLACE FUNCTION public.update_payroll(target_payroll_id UUID, changes JSONB, items JSONB, accrual JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  edited public.payroll%ROWTYPE;
+  existing public.super_accruals%ROWTYPE;
+BEGIN
+  IF NOT (public.has_permission(auth.uid(), 'payroll_manage') OR public.has_permission(auth.uid(), 'payroll_process')) THEN
+    RAISE EXCEPTION 'Not allowed to edit payroll';
+  END IF;
+
+  UPDATE public.payroll p
+  SET pay_period_start = (changes->>'pay_period_start')::DATE,
+      pay_period_end = (changes->>'pay_period_end')::DATE,
+      total_hours = (changes->>'total_hours')::NUMERIC,
+      hourly_rate = (changes->>'hourly_rate')::NUMERIC,
+      gross_pay = (changes->>'gross_pay')::NUMERIC,
+      tax_withheld = (changes->>'tax_withheld')::NUMERIC,
+      deductions = (changes->>'deductions')::NUMERIC,
+      net_pay = (changes->>'net_pay')::NUMERIC,
+      salary_template_id = (changes->>'salary_template_id')::UUID,
+      tax_scale_id = (changes->>'tax_scale_id')::UUID,
+      status = (changes->>'status')::public.payroll_status,
+      updated_at = now()
+  WHERE p.id = target_payroll_id
+  RETURNING p.* INTO edited;
+
+  IF edited.id IS NULL THEN
+    RAISE EXCEPTION 'Payroll not found';
+  END IF;
+
+  PERFORM public.replace_payroll_line_items(target_payroll_id, items);
+
+  SELECT * INTO existing FROM public.super_accruals sa WHERE sa.payroll_id = target_payroll_id FOR UPDATE;
+
+  IF existing.bank_transaction_id IS NOT NULL
+     AND existing.amount IS DISTINCT FROM round((accrual->>'amount')::NUMERIC, 2) THEN
+    RAISE EXCEPTION 'The super on this payroll has been matched to a payment; unmatch it before changing the pay';
+  END IF;
+
+  IF accrual IS NULL OR jsonb_typeof(accrual) = 'null' THEN
+    DELETE FROM public.super_accruals sa WHERE sa.payroll_id = target_payroll_id;
+  ELSE
+    INSERT INTO public.super_accruals (payroll_id, profile_id, pay_period_end, ordinary_time_earnings, guarantee_percentage, amount)
+    VALUES (
+      edited.id, edited.profile_id, edited.pay_period_end, (accrual->>'ordinary_time_earnings')::NUMERIC,
+      (accrual->>'guarantee_percentage')::NUMERIC, (accrual->>'amount')::NUMERIC
+    )
+    ON CONFLICT (payroll_id) DO UPDATE
+      SET profile_id = EXCLUDED.profile_id,
+          pay_period_end = EXCLUDED.pay_period_end,
+          ordinary_time_earnings = EXCLUDED.ordinary_time_earnings,
+          guarantee_percentage = EXCLUDED.guarantee_percentage,
+          amount = EXCLUDED.amount;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.replace_payroll_line_items(UUID, JSONB) FROM anon;
+REVOKE ALL ON FUNCTION public.update_payroll(UUID, JSONB, JSONB, JSONB) FROM anon;
@@ -0,0 +1,458 @@
+-- Overtime is worked out in the database, so the stored breakdown, overtime hours and
+-- amounts stay right after any write, including the ones staff make through the clocking
+-- and timesheet functions, who can't read the rules or rates themselves. This is the
+-- only overtime calculation: the app stores it through recalculate_overtime and payroll
+-- pays the stored breakdowns. Clocking out no longer sets overtime and pay itself;
+-- clocking and submitting a week recalculate the week instead.
+
+-- "1.5×" for 1.50, as formatMultiplier
+CREATE OR REPLACE FUNCTION public.format_multiplier(multiplier NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT trim_scale(round(multiplier, 2))::TEXT || '×';
+$$;
+
+-- Lines with the same label added together, dropping any with no hours, ordinary first
+CREATE OR REPLACE FUNCTION public.merge_overtime_lines(lines JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('kind', l.kind, 'label', l.label, 'hours', trim_scale(l.hours), 'multiplier', trim_scale(l.multiplier))
+    ORDER BY array_position(ARRAY['ordinary', 'penalty', 'overtime'], l.kind), l.multiplier
+  ), '[]'::JSONB)
+  FROM (
+    SELECT x.label, min(x.kind) AS kind, min(x.multiplier) AS multiplier, round(sum(x.hours), 2) AS hours
+    FROM jsonb_to_recordset(lines) AS x(kind TEXT, label TEXT, hours NUMERIC, multiplier NUMERIC)
+    WHERE round(x.hours, 2) > 0
+    GROUP BY x.label
+  ) l;
+$$;
+
+CREATE OR REPLACE FUNCTION public.overtime_line(kind TEXT, label TEXT, hours NUMERIC, multiplier NUMERIC)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object('kind', kind, 'label', label, 'hours', round(hours, 2), 'multiplier', multiplier);
+$$;
+
+/*
+ * Works out and stores the breakdown, overtime hours and payable amount of every pending
+ * or approved entry in one person's Monday-Sunday week, along with the billable amount
+ * at the entry's bill rate (filled from the rate cards when it has none). Earlier
+ * entries in a day or week use up the ordinary hours first. Only rows whose figures
+ * changed are updated.
+ */
+CREATE OR REPLACE FUNCTION public.recalculate_overtime(target_profile_id UUID, week_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  week_start DATE := week_date - (extract(isodow FROM week_date)::INTEGER - 1);
+  employment public.employment_type;
+  entry public.working_hours%ROWTYPE;
+  applied_rule public.overtime_rules%ROWTYPE;
+  current_day DATE;
+  worked_today NUMERIC := 0;
+  overtime_today NUMERIC := 0;
+  ordinary_this_week NUMERIC := 0;
+  worked NUMERIC;
+  daily_overtime NUMERIC;
+  weekly_overtime NUMERIC;
+  ordinary NUMERIC;
+  overtime NUMERIC;
+  tier_one NUMERIC;
+  penalty_label TEXT;
+  penalty_multiplier NUMERIC;
+  breakdown JSONB;
+  new_overtime_hours NUMERIC;
+  new_payable_amount NUMERIC;
+  new_bill_rate NUMERIC;
+  new_billable_amount NUMERIC;
+BEGIN
+  IF target_profile_id <> auth.uid()
+    AND NOT public.has_permission(auth.uid(), 'working_hours_manage')
+    AND NOT public.has_permission(auth.uid(), 'working_hours_approve')
+    AND NOT public.has_permission(auth.uid(), 'payroll_manage')
+    AND NOT public.has_permission(auth.uid(), 'payroll_process') THEN
+    RAISE EXCEPTION 'Not allowed to recalculate these hours';
+  END IF;
+
+  SELECT p.employment_type INTO employment FROM public.profiles p WHERE p.id = target_profile_id;
+
+  FOR entry IN
+    SELECT wh.*
+    FROM public.working_hours wh
+    WHERE wh.profile_id = target_profile_id
+      AND wh.date BETWEEN week_start AND week_start + 6
+      AND wh.status IN ('pending', 'approved')
+    ORDER BY wh.date, wh.start_time, wh.created_at
+  LOOP
+    IF current_day IS DISTINCT FROM entry.date THEN
+      current_day := entry.date;
+      worked_today := 0;
+      overtime_today := 0;
+    END IF;
+
+    -- Hours actually worked, falling back to the rostered hours until the entry is clocked
+    worked := COALESCE(NULLIF(entry.actual_hours, 0), NULLIF(entry.total_hours, 0), 0);
+
+    -- Set for both the client and employment type, then the client, then the type, then neither
+    SELECT r.* INTO applied_rule
+    FROM public.overtime_rules r
+    WHERE r.is_active
+      AND (r.client_id IS NULL OR r.client_id = entry.client_id)
+      AND (r.employment_type IS NULL OR r.employment_type = employment)
+    ORDER BY (r.client_id IS NULL), (r.employment_type IS NULL), r.created_at
+    LIMIT 1;
+
+    IF applied_rule.id IS NULL THEN
+      -- Without a rule, hours beyond the rostered shift are overtime at time and a half
+      ordinary := least(worked, COALESCE(entry.total_hours, 0));
+      breakdown := jsonb_build_object(
+        'rule_id', NULL,
+        'rule_name', 'Rostered hours',
+        'lines', public.merge_overtime_lines(jsonb_build_array(
+          public.overtime_line('ordinary', 'Ordinary', ordinary, 1),
+          public.overtime_line('overtime', 'Overtime ' || public.format_multiplier(1.5), worked - ordinary, 1.5)
+        ))
+      );
+    ELSE
+      -- A threshold or penalty multiplier of zero counts as not set
+      daily_overtime := CASE WHEN NULLIF(applied_rule.daily_threshold, 0) IS NOT NULL
+        THEN greatest(0, least(worked, worked_today + worked - applied_rule.daily_threshold)) ELSE 0 END;
+      weekly_overtime := CASE WHEN NULLIF(applied_rule.weekly_threshold, 0) IS NOT NULL
+        THEN greatest(0, least(worked - daily_overtime, ordinary_this_week + worked - daily_overtime - applied_rule.weekly_threshold))
+        ELSE 0 END;
+      ordinary := worked - daily_overtime - weekly_overtime;
+      overtime := daily_overtime + weekly_overtime;
+
+      -- The first tier covers the first hours of overtime in a day, however they arose
+      tier_one := least(overtime, greatest(0, applied_rule.tier_one_hours - overtime_today));
+
+      worked_today := worked_today + worked;
+      overtime_today := overtime_today + overtime;
+      ordinary_this_week := ordinary_this_week + ordinary;
+
+      -- Public holidays in the client's region take precedence over weekends
+      penalty_label := NULL;
+      penalty_multiplier := NULL;
+      IF NULLIF(applied_rule.public_holiday_multiplier, 0) IS NOT NULL AND EXISTS (
+        SELECT 1
+        FROM public.public_holidays h
+        WHERE h.date = entry.date
+          AND (h.region IS NULL OR h.region = (SELECT c.holiday_region FROM public.clients c WHERE c.id = entry.client_id))
+      ) THEN
+        penalty_label := 'Public holiday';
+        penalty_multiplier := applied_rule.public_holiday_multiplier;
+      ELSIF extract(isodow FROM entry.date) = 6 AND NULLIF(applied_rule.saturday_multiplier, 0) IS NOT NULL THEN
+        penalty_label := 'Saturday';
+        penalty_multiplier := applied_rule.saturday_multiplier;
+      ELSIF extract(isodow FROM entry.date) = 7 AND NULLIF(applied_rule.sunday_multiplier, 0) IS NOT NULL THEN
+        penalty_label := 'Sunday';
+        penalty_multiplier := applied_rule.sunday_multiplier;
+      END IF;
+
+      -- Overtime on a penalty day is paid at whichever of the two rates is higher
+      breakdown := jsonb_build_object(
+        'rule_id', applied_rule.id,
+        'rule_name', applied_rule.name,
+        'lines', public.merge_overtime_lines(jsonb_build_array(
+          CASE WHEN penalty_label IS NOT NULL
+            THEN public.overtime_line('penalty', penalty_label || ' ' || public.format_multiplier(penalty_multiplier), ordinary, penalty_multiplier)
+            ELSE public.overtime_line('ordinary', 'Ordinary', ordinary, 1)
+          END,
+          public.overtime_line('overtime',
+            'Overtime ' || public.format_multiplier(greatest(applied_rule.tier_one_multiplier, COALESCE(penalty_multiplier, 0))),
+            tier_one, greatest(applied_rule.tier_one_multiplier, COALESCE(penalty_multiplier, 0))),
+          public.overtime_line('overtime',
+            'Overtime ' || public.format_multiplier(greatest(applied_rule.tier_two_multiplier, COALESCE(penalty_multiplier, 0))),
+            overtime - tier_one, greatest(applied_rule.tier_two_multiplier, COALESCE(penalty_multiplier, 0)))
+        ))
+      );
+    END IF;
+
+    SELECT
+      round(COALESCE(sum((l->>'hours')::NUMERIC) FILTER (WHERE l->>'kind' = 'overtime'), 0), 2),
+      round(COALESCE(sum((l->>'hours')::NUMERIC * (l->>'multiplier')::NUMERIC), 0) * COALESCE(entry.hourly_rate, 0), 2)
+    INTO new_overtime_hours, new_payable_amount
+    FROM jsonb_array_elements(breakdown->'lines') l;
+
+    new_bill_rate := COALESCE(entry.bill_rate, (
+      SELECT c.rate FROM public.resolve_rate_card(entry.profile_id, entry.client_id, entry.project_id, entry.date, 'bill_rate') c
+    ));
+    new_billable_amount := round(worked * new_bill_rate, 2);
+
+    UPDATE public.working_hours wh
+    SET overtime_breakdown = breakdown,
+        overtime_hours = new_overtime_hours,
+        payable_amount = new_payable_amount,
+        bill_rate = new_bill_rate,
+        billable_amount = new_billable_amount
+    WHERE wh.id = entry.id
+      AND (wh.overtime_breakdown, wh.overtime_hours, wh.payable_amount, wh.bill_rate, wh.billable_amount)
+        IS DISTINCT FROM (breakdown, new_overtime_hours, new_payable_amount, new_bill_rate, new_billable_amount);
+  END LOOP;
+END;
+$$;
+
+-- Clocks someone into a roster they are on that runs today. Staff clock themselves in;
+-- kiosk and timesheet managers clock in whoever identified at the kiosk. The row
+-- generated for the shift is used when there is one, otherwise it is created at the
+-- roster's times and rate.
+CREATE OR REPLACE FUNCTION public.clock_in_shift(
+  target_roster_id UUID,
+  target_profile_id UUID,
+  time_zone TEXT,
+  latitude NUMERIC DEFAULT NULL,
+  longitude NUMERIC DEFAULT NULL,
+  accuracy_meters NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (working_hours_id UUID, clocked_time TIME, distance_meters NUMERIC, outside_geofence BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  local_now TIMESTAMP := public.clock_local_time(time_zone);
+  work_date DATE := local_now::DATE;
+  shift public.rosters%ROWTYPE;
+  site public.projects%ROWTYPE;
+  row_id UUID;
+  card_rate NUMERIC;
+  card_level TEXT;
+  shift_rate NUMERIC;
+  shift_total NUMERIC;
+BEGIN
+  IF target_profile_id <> auth.uid() AND NOT public.has_permission(auth.uid(), 'working_hours_manage') THEN
+    RAISE EXCEPTION 'Not allowed to clock this person in';
+  END IF;
+
+  SELECT * INTO shift FROM public.rosters WHERE id = target_roster_id AND status <> 'cancelled';
+
+  -- Rosters saved before roster_profiles existed only have a primary profile
+  IF shift.id IS NULL OR NOT (
+    EXISTS (SELECT 1 FROM public.roster_profiles rp WHERE rp.roster_id = shift.id AND rp.profile_id = target_profile_id)
+    OR (shift.profile_id = target_profile_id
+        AND NOT EXISTS (SELECT 1 FROM public.roster_profiles rp WHERE rp.roster_id = shift.id))
+  ) THEN
+    RAISE EXCEPTION 'This shift is not rostered to you';
+  END IF;
+
+  IF work_date < shift.date OR work_date > greatest(shift.date, COALESCE(shift.end_date, shift.date)) THEN
+    RAISE EXCEPTION 'This shift is not rostered for today';
+  END IF;
+
+  SELECT * INTO site FROM public.projects WHERE id = shift.project_id;
+
+  IF latitude IS NOT NULL AND longitude IS NOT NULL AND site.site_latitude IS NOT NULL AND site.site_longitude IS NOT NULL THEN
+    distance_meters := round(public.distance_meters(latitude, longitude, site.site_latitude, site.site_longitude), 2);
+    outside_geofence := distance_meters - COALESCE(accuracy_meters, 0) > site.site_radius_meters;
+  END IF;
+
+  SELECT wh.id INTO row_id
+  FROM public.working_hours wh
+  WHERE wh.roster_id = shift.id AND wh.profile_id = target_profile_id AND wh.date = work_date
+  FOR UPDATE;
+
+  IF row_id IS NULL THEN
+    SELECT c.rate, c.level INTO card_rate, card_level
+    FROM public.resolve_rate_card(target_profile_id, shift.client_id, shift.project_id, work_date, 'pay_rate') c;
+
+    shift_rate := CASE
+      WHEN card_level IS NOT NULL AND card_level <> 'client' THEN card_rate
+      ELSE COALESCE(NULLIF(shift.per_hour_rate, 0), card_rate, 0)
+    END;
+    shift_total := public.shift_hours(shift.start_time, shift.end_time, shift.break_minutes);
+
+    INSERT INTO public.working_hours (
+      roster_id, profile_id, client_id, project_id, date, start_time, end_time, break_minutes,
+      total_hours, hourly_rate, payable_amount, status
+    )
+    VALUES (
+      shift.id, target_profile_id, shift.client_id, shift.project_id, work_date, shift.start_time, shift.end_time,
+      COALESCE(shift.break_minutes, 0), shift_total, shift_rate, shift_total * shift_rate, 'pending'
+    )
+    ON CONFLICT (roster_id, profile_id, date) DO NOTHING
+    RETURNING id INTO row_id;
+
+    IF row_id IS NULL THEN
+      RAISE EXCEPTION 'This shift was clocked at the same time, try again';
+    END IF;
+  END IF;
+
+  UPDATE public.working_hours wh
+  SET sign_in_time = local_now::TIME,
+      sign_in_at = now(),
+      sign_in_latitude = latitude,
+      sign_in_longitude = longitude,
+      sign_in_accuracy_meters = round(accuracy_meters, 2),
+      sign_in_distance_meters = clock_in_shift.distance_meters,
+      sign_in_outside_geofence = COALESCE(clock_in_shift.outside_geofence, false),
+      updated_at = now()
+  WHERE wh.id = row_id
+    AND wh.status = 'pending'
+    AND wh.sign_in_time IS NULL
+    AND wh.timesheet_submission_id IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This shift has already been clocked in or approved';
+  END IF;
+
+  -- A row created here counts towards the week's ordinary hours
+  PERFORM public.recalculate_overtime(target_profile_id, work_date);
+
+  working_hours_id := row_id;
+  clocked_time := local_now::TIME;
+  RETURN NEXT;
+END;
+$$;
+
+-- Clocks someone out of a shift they clocked into. Hours worked are the time elapsed
+-- since clocking in less the rostered break; the week's overtime and pay are then
+-- worked out again at the row's rate.
+CREATE OR REPLACE FUNCTION public.clock_out_shift(
+  target_working_hours_id UUID,
+  time_zone TEXT,
+  latitude NUMERIC DEFAULT NULL,
+  longitude NUMERIC DEFAULT NULL,
+  accuracy_meters NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (working_hours_id UUID, clocked_time TIME, actual_hours NUMERIC, distance_meters NUMERIC, outside_geofence BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  local_now TIMESTAMP := public.clock_local_time(time_zone);
+  entry public.working_hours%ROWTYPE;
+  site public.projects%ROWTYPE;
+  worked_minutes INTEGER;
+BEGIN
+  SELECT * INTO entry FROM public.working_hours WHERE id = target_working_hours_id FOR UPDATE;
+
+  IF entry.id IS NULL OR (entry.profile_id <> auth.uid() AND NOT public.has_permission(auth.uid(), 'working_hours_manage')) THEN
+    RAISE EXCEPTION 'Not allowed to clock this shift out';
+  END IF;
+
+  IF entry.sign_in_time IS NULL THEN
+    RAISE EXCEPTION 'Clock in before clocking out';
+  END IF;
+
+  IF entry.status <> 'pending' OR entry.sign_out_time IS NOT NULL OR entry.timesheet_submission_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This shift has already been clocked out or approved';
+  END IF;
+
+  SELECT * INTO site FROM public.projects WHERE id = entry.project_id;
+
+  IF latitude IS NOT NULL AND longitude IS NOT NULL AND site.site_latitude IS NOT NULL AND site.site_longitude IS NOT NULL THEN
+    distance_meters := round(public.distance_meters(latitude, longitude, site.site_latitude, site.site_longitude), 2);
+    outside_geofence := distance_meters - COALESCE(accuracy_meters, 0) > site.site_radius_meters;
+  END IF;
+
+  -- Rows clocked in before the instant was recorded fall back to the wall-clock times
+  worked_minutes := CASE
+    WHEN entry.sign_in_at IS NOT NULL
+      THEN (extract(epoch FROM date_trunc('minute', now()) - date_trunc('minute', entry.sign_in_at)) / 60)::INTEGER
+    ELSE (extract(epoch FROM local_now::TIME - entry.sign_in_time::TIME)::INTEGER / 60 + 1440) % 1440
+  END;
+  actual_hours := round(greatest(0, worked_minutes - COALESCE(entry.break_minutes, 0)) / 60.0, 2);
+
+  UPDATE public.working_hours wh
+  SET sign_out_time = local_now::TIME,
+      sign_out_at = now(),
+      actual_hours = clock_out_shift.actual_hours,
+      sign_out_latitude = latitude,
+      sign_out_longitude = longitude,
+      sign_out_accuracy_meters = round(accuracy_meters, 2),
+      sign_out_distance_meters = clock_out_shift.distance_meters,
+      sign_out_outside_geofence = COALESCE(clock_out_shift.outside_geofence, false),
+      updated_at = now()
+  WHERE wh.id = entry.id;
+
+  PERFORM public.recalculate_overtime(entry.profile_id, entry.date);
+
+  working_hours_id := entry.id;
+  clocked_time := local_now::TIME;
+  RETURN NEXT;
+END;
+$$;
+
+-- Submits the caller's week: every draft and every pending entry not yet part of a
+-- submission moves to pending under one submission. A rejected week is resubmitted on
+-- its existing row. Returns the submission with its totals.
+CREATE OR REPLACE FUNCTION public.submit_timesheet_week(target_week_start DATE)
+RETURNS TABLE (submission_id UUID, total_hours NUMERIC, entry_count INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  existing public.timesheet_submissions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to submit your timesheet';
+  END IF;
+
+  SELECT round(COALESCE(sum(wh.total_hours), 0), 2), count(*)
+  INTO total_hours, entry_count
+  FROM public.working_hours wh
+  WHERE wh.profile_id = auth.uid()
+    AND wh.date BETWEEN target_week_start AND target_week_start + 6
+    AND wh.status IN ('draft', 'pending')
+    AND wh.timesheet_submission_id IS NULL;
+
+  IF entry_count = 0 THEN
+    RAISE EXCEPTION 'There are no hours to submit for this week';
+  END IF;
+
+  SELECT * INTO existing
+  FROM public.timesheet_submissions s
+  WHERE s.profile_id = auth.uid() AND s.week_start = target_week_start
+  FOR UPDATE;
+
+  IF existing.id IS NOT NULL AND existing.status <> 'rejected' THEN
+    RAISE EXCEPTION 'This week has already been submitted';
+  END IF;
+
+  IF existing.id IS NULL THEN
+    INSERT INTO public.timesheet_submissions (profile_id, week_start, status, total_hours, entry_count, submitted_at)
+    VALUES (auth.uid(), target_week_start, 'submitted', submit_timesheet_week.total_hours,
+            submit_timesheet_week.entry_count, now())
+    RETURNING id INTO submission_id;
+  ELSE
+    UPDATE public.timesheet_submissions s
+    SET status = 'submitted',
+        total_hours = submit_timesheet_week.total_hours,
+        entry_count = submit_timesheet_week.entry_count,
+        submitted_at = now(),
+        reviewed_by = NULL,
+        reviewed_at = NULL,
+        updated_at = now()
+    WHERE s.id = existing.id;
+    submission_id := existing.id;
+  END IF;
+
+  UPDATE public.working_hours wh
+  SET status = 'pending',
+      timesheet_submission_id = submission_id,
+      updated_at = now()
+  WHERE wh.profile_id = auth.uid()
+    AND wh.date BETWEEN target_week_start AND target_week_start + 6
+    AND wh.status IN ('draft', 'pending')
+    AND wh.timesheet_submission_id IS NULL;
+
+  -- Drafts are left out of overtime until they are submitted
+  PERFORM public.recalculate_overtime(auth.uid(), target_week_start);
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.recalculate_overtime(UUID, DATE) FROM anon;
@@ -0,0 +1,33 @@
+-- Deleting an occurrence of a series also records its date as an exception on the
+-- series, so regenerating the series doesn't bring the shift back. Both happen in one
+-- transaction. Runs as the caller, so the roster policies still apply.
+CREATE OR REPLACE FUNCTION public.delete_roster(target_roster_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  deleted public.rosters%ROWTYPE;
+BEGIN
+  DELETE FROM public.rosters r
+  WHERE r.id = target_roster_id
+  RETURNING r.* INTO deleted;
+
+  IF deleted.id IS NULL THEN
+    RAISE EXCEPTION 'Roster % not found', target_roster_id;
+  END IF;
+
+  IF deleted.series_id IS NOT NULL THEN
+    UPDATE public.roster_series s
+    SET exception_dates = ARRAY(
+          SELECT DISTINCT d
+          FROM unnest(array_append(s.exception_dates, COALESCE(deleted.series_occurrence_date, deleted.date))) AS d
+          ORDER BY d
+        ),
+        updated_at = now()
+    WHERE s.id = deleted.series_id;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.delete_roster(UUID) FROM anon;
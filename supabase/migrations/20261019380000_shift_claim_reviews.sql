@@ -0,0 +1,234 @@
+-- Approving a shift claim or swap rewrites the roster's team. It used to be a run of
+-- separate client writes, so a failure part way could drop the outgoing person without
+-- adding the new one, and nothing rechecked whether the new person was free. Reviewing
+-- is now one transaction that re-validates the roster and the person before reassigning.
+
+-- One period per day a shift runs, from date to end_date; an end time before the start
+-- time finishes the next day, and identical times give an empty period
+CREATE OR REPLACE FUNCTION public.shift_periods(first_date DATE, last_date DATE, start_time TIME, end_time TIME)
+RETURNS TABLE (day DATE, period TSRANGE)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT d::DATE, tsrange(d::DATE + start_time, d::DATE + CASE WHEN end_time < start_time THEN 1 ELSE 0 END + end_time)
+  FROM generate_series(first_date, GREATEST(first_date, COALESCE(last_date, first_date)), INTERVAL '1 day') AS d;
+$$;
+
+-- Why the person can't be put on the roster, or null when they can: they are rostered on
+-- another shift or have hours logged at the same time, are on approved leave or marked
+-- unavailable, or the shift falls outside their weekly availability. The same checks the
+-- roster editor shows; pending leave is only a warning there and isn't checked here.
+CREATE OR REPLACE FUNCTION public.roster_assignment_issue(target_roster_id UUID, target_profile_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  target public.rosters%ROWTYPE;
+  first_day DATE;
+  last_day DATE;
+  shift_start INTEGER;
+  shift_minutes INTEGER;
+  issue TEXT;
+BEGIN
+  SELECT * INTO target FROM public.rosters r WHERE r.id = target_roster_id;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Roster % not found', target_roster_id;
+  END IF;
+
+  first_day := target.date;
+  last_day := GREATEST(target.date, COALESCE(target.end_date, target.date));
+
+  SELECT format('already rostered on %s (%s, %s-%s)', COALESCE(other.name, p.name, 'Roster'),
+                to_char(other.date, 'Mon DD'), to_char(other.start_time, 'HH24:MI'), to_char(other.end_time, 'HH24:MI'))
+  INTO issue
+  FROM public.rosters other
+  JOIN public.roster_profiles rp ON rp.roster_id = other.id AND rp.profile_id = target_profile_id
+  LEFT JOIN public.projects p ON p.id = other.project_id
+  WHERE other.id <> target.id
+    AND other.status <> 'cancelled'
+    AND other.date <= last_day + 1
+    AND GREATEST(other.date, COALESCE(other.end_date, other.date)) >= first_day - 1
+    AND EXISTS (
+      SELECT 1
+      FROM public.shift_periods(first_day, last_day, target.start_time, target.end_time) mine
+      JOIN public.shift_periods(other.date, other.end_date, other.start_time, other.end_time) theirs
+        ON mine.period && theirs.period
+    )
+  ORDER BY other.date, other.start_time
+  LIMIT 1;
+
+  IF issue IS NOT NULL THEN
+    RETURN issue;
+  END IF;
+
+  -- Logged hours are compared on the times actually worked when they were recorded
+  SELECT format('already has hours logged on %s, %s-%s', to_char(wh.date, 'Mon DD'),
+                to_char(COALESCE(wh.sign_in_time, wh.start_time), 'HH24:MI'), to_char(COALESCE(wh.sign_out_time, wh.end_time), 'HH24:MI'))
+  INTO issue
+  FROM public.working_hours wh
+  WHERE wh.profile_id = target_profile_id
+    AND wh.status <> 'rejected'
+    AND wh.roster_id IS DISTINCT FROM target.id
+    AND wh.date BETWEEN first_day - 1 AND last_day + 1
+    AND EXISTS (
+      SELECT 1
+      FROM public.shift_periods(first_day, last_day, target.start_time, target.end_time) mine
+      JOIN public.shift_periods(wh.date, NULL, COALESCE(wh.sign_in_time, wh.start_time), COALESCE(wh.sign_out_time, wh.end_time)) logged
+        ON mine.period && logged.period
+    )
+  ORDER BY wh.date
+  LIMIT 1;
+
+  IF issue IS NOT NULL THEN
+    RETURN issue;
+  END IF;
+
+  SELECT format('on approved leave on %s', to_char(s.day, 'Mon DD'))
+  INTO issue
+  FROM public.shift_periods(first_day, last_day, target.start_time, target.end_time) s
+  JOIN public.leave_requests lr
+    ON lr.profile_id = target_profile_id AND lr.status = 'approved' AND s.day BETWEEN lr.start_date AND lr.end_date
+  ORDER BY s.day
+  LIMIT 1;
+
+  IF issue IS NOT NULL THEN
+    RETURN issue;
+  END IF;
+
+  -- A block without times covers the whole day
+  SELECT format('unavailable on %s%s', to_char(s.day, 'Mon DD'), COALESCE(' - ' || u.reason, ''))
+  INTO issue
+  FROM public.shift_periods(first_day, last_day, target.start_time, target.end_time) s
+  JOIN public.profile_unavailability u
+    ON u.profile_id = target_profile_id AND s.day BETWEEN u.start_date AND u.end_date
+  WHERE u.start_time IS NULL
+     OR u.end_time IS NULL
+     OR EXISTS (
+       SELECT 1 FROM public.shift_periods(s.day, NULL, u.start_time, u.end_time) blocked
+       WHERE blocked.period && s.period
+     )
+  ORDER BY s.day
+  LIMIT 1;
+
+  IF issue IS NOT NULL THEN
+    RETURN issue;
+  END IF;
+
+  -- Without weekly availability recorded the person is available at any time. Windows
+  -- are compared in minutes from midnight of their start day, so overnight ones run past 1440.
+  IF NOT EXISTS (SELECT 1 FROM public.profile_availability a WHERE a.profile_id = target_profile_id) THEN
+    RETURN NULL;
+  END IF;
+
+  shift_start := extract(epoch FROM target.start_time)::INTEGER / 60;
+  shift_minutes := (extract(epoch FROM target.end_time - target.start_time)::INTEGER / 60 + 1440) % 1440;
+
+  SELECT format('not available %s %s-%s', to_char(s.day, 'FMDy'), to_char(target.start_time, 'HH24:MI'), to_char(target.end_time, 'HH24:MI'))
+  INTO issue
+  FROM public.shift_periods(first_day, last_day, target.start_time, target.end_time) s
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.profile_availability a
+    WHERE a.profile_id = target_profile_id
+      AND a.weekday = extract(dow FROM s.day)
+      AND extract(epoch FROM a.start_time)::INTEGER / 60 <= shift_start
+      AND shift_start + shift_minutes <= extract(epoch FROM a.start_time)::INTEGER / 60
+        + (extract(epoch FROM a.end_time - a.start_time)::INTEGER / 60 + 1440) % 1440
+  )
+  ORDER BY s.day
+  LIMIT 1;
+
+  RETURN issue;
+END;
+$$;
+
+-- Approves or rejects a pending claim or swap. Approval re-checks the roster as it stands
+-- and that the incoming person is free, then writes the team: a claim adds the claimant,
+-- a swap replaces the outgoing person, who also loses their placeholder hours and, if they
+-- were the roster's primary, that place. Runs as the definer so the checks see everyone's
+-- schedule, which is why it checks roster_manage itself.
+CREATE OR REPLACE FUNCTION public.review_shift_claim(target_claim_id UUID, decision public.shift_claim_status)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claim public.shift_claims%ROWTYPE;
+  target public.rosters%ROWTYPE;
+  assigned UUID[];
+  issue TEXT;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'roster_manage') THEN
+    RAISE EXCEPTION 'Not allowed to review shift requests';
+  END IF;
+
+  IF decision NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'A shift request can only be approved or rejected';
+  END IF;
+
+  SELECT * INTO claim FROM public.shift_claims sc WHERE sc.id = target_claim_id FOR UPDATE;
+
+  IF claim.id IS NULL OR claim.status <> 'pending' THEN
+    RAISE EXCEPTION 'This shift request has already been reviewed or withdrawn';
+  END IF;
+
+  IF decision = 'approved' THEN
+    SELECT * INTO target FROM public.rosters r WHERE r.id = claim.roster_id FOR UPDATE;
+
+    assigned := ARRAY(SELECT rp.profile_id FROM public.roster_profiles rp WHERE rp.roster_id = target.id);
+
+    IF COALESCE(target.is_locked, false) THEN
+      issue := 'the roster has been locked';
+    ELSIF target.status = 'cancelled' THEN
+      issue := 'the roster has been cancelled';
+    ELSIF claim.profile_id = ANY(assigned) THEN
+      issue := 'they are already on this roster';
+    ELSIF claim.claim_type = 'claim' AND cardinality(assigned) >= COALESCE(target.expected_profiles, 1) THEN
+      issue := 'the roster is already fully staffed';
+    ELSIF claim.claim_type = 'swap' AND NOT (claim.replaces_profile_id = ANY(assigned)) THEN
+      issue := 'the person swapping out is no longer on this roster';
+    ELSE
+      issue := public.roster_assignment_issue(target.id, claim.profile_id);
+    END IF;
+
+    IF issue IS NOT NULL THEN
+      RAISE EXCEPTION 'Cannot approve: %', issue;
+    END IF;
+
+    IF claim.claim_type = 'swap' THEN
+      DELETE FROM public.roster_profiles rp
+      WHERE rp.roster_id = target.id AND rp.profile_id = claim.replaces_profile_id;
+
+      DELETE FROM public.working_hours wh
+      WHERE wh.roster_id = target.id
+        AND wh.profile_id = claim.replaces_profile_id
+        AND wh.status = 'pending'
+        AND wh.sign_in_time IS NULL
+        AND wh.actual_hours IS NULL
+        AND wh.timesheet_submission_id IS NULL
+        AND wh.approval_chain_id IS NULL;
+
+      UPDATE public.rosters r
+      SET profile_id = claim.profile_id
+      WHERE r.id = target.id AND r.profile_id = claim.replaces_profile_id;
+    END IF;
+
+    INSERT INTO public.roster_profiles (roster_id, profile_id)
+    VALUES (target.id, claim.profile_id);
+  END IF;
+
+  UPDATE public.shift_claims sc
+  SET status = decision,
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      updated_at = now()
+  WHERE sc.id = claim.id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.roster_assignment_issue(UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.review_shift_claim(UUID, public.shift_claim_status) FROM anon;
@@ -0,0 +1,51 @@
+-- Rosters copied from another week or applied from a template are created together with
+-- each one's own team in a single transaction. A roster can now be left without a
+-- primary profile: when everyone on its team was left off for a conflict, nobody should
+-- be able to clock in to it through the primary-profile fallback for older rosters.
+ALTER TABLE public.rosters ALTER COLUMN profile_id DROP NOT NULL;
+
+-- Creates one roster per element of drafts, given as the roster's columns plus
+-- profile_ids, the team to assign to it. The primary profile is kept only while it is on
+-- that team; otherwise the first team member takes its place, or nobody when the team is
+-- empty. Runs as the caller, so the usual roster policies still apply. Returns the ids of
+-- the created rosters in the order of drafts.
+CREATE OR REPLACE FUNCTION public.create_roster_drafts(drafts JSONB)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  draft JSONB;
+  team UUID[];
+  new_roster_id UUID;
+BEGIN
+  FOR draft IN
+    SELECT e.item FROM jsonb_array_elements(drafts) WITH ORDINALITY AS e(item, position) ORDER BY e.position
+  LOOP
+    team := ARRAY(
+      SELECT m.profile_id::UUID
+      FROM jsonb_array_elements_text(COALESCE(draft->'profile_ids', '[]'::JSONB)) WITH ORDINALITY AS m(profile_id, position)
+      ORDER BY m.position
+    );
+
+    INSERT INTO public.rosters (
+      profile_id, client_id, project_id, name, date, end_date, start_time, end_time,
+      break_minutes, total_hours, notes, status, expected_profiles, per_hour_rate
+    )
+    SELECT
+      CASE WHEN r.profile_id = ANY(team) THEN r.profile_id ELSE team[1] END,
+      r.client_id, r.project_id, r.name, r.date, r.end_date, r.start_time, r.end_time,
+      r.break_minutes, r.total_hours, r.notes, r.status, r.expected_profiles, r.per_hour_rate
+    FROM jsonb_populate_record(NULL::public.rosters, draft) r
+    RETURNING id INTO new_roster_id;
+
+    INSERT INTO public.roster_profiles (roster_id, profile_id)
+    SELECT new_roster_id, member.profile_id
+    FROM unnest(team) AS member(profile_id);
+
+    RETURN NEXT new_roster_id;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_roster_drafts(JSONB) FROM anon;
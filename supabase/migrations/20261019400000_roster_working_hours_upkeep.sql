@@ -0,0 +1,228 @@
+-- Generating or releasing a roster's placeholder hours changes how many hours its team
+-- has in the week, so the week's overtime is worked out again afterwards. Roster
+-- managers do that without being able to manage timesheets, so recalculate_overtime now
+-- lets them. Deleting a roster releases its placeholder hours in the same transaction,
+-- rather than leaving pending rows for a shift that no longer exists.
+
+/*
+ * Works out and stores the breakdown, overtime hours and payable amount of every pending
+ * or approved entry in one person's Monday-Sunday week, along with the billable amount
+ * at the entry's bill rate (filled from the rate cards when it has none). Earlier
+ * entries in a day or week use up the ordinary hours first. Only rows whose figures
+ * changed are updated.
+ */
+CREATE OR REPLACE FUNCTION public.recalculate_overtime(target_profile_id UUID, week_date DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  week_start DATE := week_date - (extract(isodow FROM week_date)::INTEGER - 1);
+  employment public.employment_type;
+  entry public.working_hours%ROWTYPE;
+  applied_rule public.overtime_rules%ROWTYPE;
+  current_day DATE;
+  worked_today NUMERIC := 0;
+  overtime_today NUMERIC := 0;
+  ordinary_this_week NUMERIC := 0;
+  worked NUMERIC;
+  daily_overtime NUMERIC;
+  weekly_overtime NUMERIC;
+  ordinary NUMERIC;
+  overtime NUMERIC;
+  tier_one NUMERIC;
+  penalty_label TEXT;
+  penalty_multiplier NUMERIC;
+  breakdown JSONB;
+  new_overtime_hours NUMERIC;
+  new_payable_amount NUMERIC;
+  new_bill_rate NUMERIC;
+  new_billable_amount NUMERIC;
+BEGIN
+  IF target_profile_id <> auth.uid()
+    AND NOT public.has_permission(auth.uid(), 'working_hours_manage')
+    AND NOT public.has_permission(auth.uid(), 'working_hours_approve')
+    AND NOT public.has_permission(auth.uid(), 'payroll_manage')
+    AND NOT public.has_permission(auth.uid(), 'payroll_process')
+    AND NOT public.has_permission(auth.uid(), 'roster_manage') THEN
+    RAISE EXCEPTION 'Not allowed to recalculate these hours';
+  END IF;
+
+  SELECT p.employment_type INTO employment FROM public.profiles p WHERE p.id = target_profile_id;
+
+  FOR entry IN
+    SELECT wh.*
+    FROM public.working_hours wh
+    WHERE wh.profile_id = target_profile_id
+      AND wh.date BETWEEN week_start AND week_start + 6
+      AND wh.status IN ('pending', 'approved')
+    ORDER BY wh.date, wh.start_time, wh.created_at
+  LOOP
+    IF current_day IS DISTINCT FROM entry.date THEN
+      current_day := entry.date;
+      worked_today := 0;
+      overtime_today := 0;
+    END IF;
+
+    -- Hours actually worked, falling back to the rostered hours until the entry is clocked
+    worked := COALESCE(NULLIF(entry.actual_hours, 0), NULLIF(entry.total_hours, 0), 0);
+
+    -- Set for both the client and employment type, then the client, then the type, then neither
+    SELECT r.* INTO applied_rule
+    FROM public.overtime_rules r
+    WHERE r.is_active
+      AND (r.client_id IS NULL OR r.client_id = entry.client_id)
+      AND (r.employment_type IS NULL OR r.employment_type = employment)
+    ORDER BY (r.client_id IS NULL), (r.employment_type IS NULL), r.created_at
+    LIMIT 1;
+
+    IF applied_rule.id IS NULL THEN
+      -- Without a rule, hours beyond the rostered shift are overtime at time and a half
+      ordinary := least(worked, COALESCE(entry.total_hours, 0));
+      breakdown := jsonb_build_object(
+        'rule_id', NULL,
+        'rule_name', 'Rostered hours',
+        'lines', public.merge_overtime_lines(jsonb_build_array(
+          public.overtime_line('ordinary', 'Ordinary', ordinary, 1),
+          public.overtime_line('overtime', 'Overtime ' || public.format_multiplier(1.5), worked - ordinary, 1.5)
+        ))
+      );
+    ELSE
+      -- A threshold or penalty multiplier of zero counts as not set
+      daily_overtime := CASE WHEN NULLIF(applied_rule.daily_threshold, 0) IS NOT NULL
+        THEN greatest(0, least(worked, worked_today + worked - applied_rule.daily_threshold)) ELSE 0 END;
+      weekly_overtime := CASE WHEN NULLIF(applied_rule.weekly_threshold, 0) IS NOT NULL
+        THEN greatest(0, least(worked - daily_overtime, ordinary_this_week + worked - daily_overtime - applied_rule.weekly_threshold))
+        ELSE 0 END;
+      ordinary := worked - daily_overtime - weekly_overtime;
+      overtime := daily_overtime + weekly_overtime;
+
+      -- The first tier covers the first hours of overtime in a day, however they arose
+      tier_one := least(overtime, greatest(0, applied_rule.tier_one_hours - overtime_today));
+
+      worked_today := worked_today + worked;
+      overtime_today := overtime_today + overtime;
+      ordinary_this_week := ordinary_this_week + ordinary;
+
+      -- Public holidays in the client's region take precedence over weekends
+      penalty_label := NULL;
+      penalty_multiplier := NULL;
+      IF NULLIF(applied_rule.public_holiday_multiplier, 0) IS NOT NULL AND EXISTS (
+        SELECT 1
+        FROM public.public_holidays h
+        WHERE h.date = entry.date
+          AND (h.region IS NULL OR h.region = (SELECT c.holiday_region FROM public.clients c WHERE c.id = entry.client_id))
+      ) THEN
+        penalty_label := 'Public holiday';
+        penalty_multiplier := applied_rule.public_holiday_multiplier;
+      ELSIF extract(isodow FROM entry.date) = 6 AND NULLIF(applied_rule.saturday_multiplier, 0) IS NOT NULL THEN
+        penalty_label := 'Saturday';
+        penalty_multiplier := applied_rule.saturday_multiplier;
+      ELSIF extract(isodow FROM entry.date) = 7 AND NULLIF(applied_rule.sunday_multiplier, 0) IS NOT NULL THEN
+        penalty_label := 'Sunday';
+        penalty_multiplier := applied_rule.sunday_multiplier;
+      END IF;
+
+      -- Overtime on a penalty day is paid at whichever of the two rates is higher
+      breakdown := jsonb_build_object(
+        'rule_id', applied_rule.id,
+        'rule_name', applied_rule.name,
+        'lines', public.merge_overtime_lines(jsonb_build_array(
+          CASE WHEN penalty_label IS NOT NULL
+            THEN public.overtime_line('penalty', penalty_label || ' ' || public.format_multiplier(penalty_multiplier), ordinary, penalty_multiplier)
+            ELSE public.overtime_line('ordinary', 'Ordinary', ordinary, 1)
+          END,
+          public.overtime_line('overtime',
+            'Overtime ' || public.format_multiplier(greatest(applied_rule.tier_one_multiplier, COALESCE(penalty_multiplier, 0))),
+            tier_one, greatest(applied_rule.tier_one_multiplier, COALESCE(penalty_multiplier, 0))),
+          public.overtime_line('overtime',
+            'Overtime ' || public.format_multiplier(greatest(applied_rule.tier_two_multiplier, COALESCE(penalty_multiplier, 0))),
+            overtime - tier_one, greatest(applied_rule.tier_two_multiplier, COALESCE(penalty_multiplier, 0)))
+        ))
+      );
+    END IF;
+
+    SELECT
+      round(COALESCE(sum((l->>'hours')::NUMERIC) FILTER (WHERE l->>'kind' = 'overtime'), 0), 2),
+      round(COALESCE(sum((l->>'hours')::NUMERIC * (l->>'multiplier')::NUMERIC), 0) * COALESCE(entry.hourly_rate, 0), 2)
+    INTO new_overtime_hours, new_payable_amount
+    FROM jsonb_array_elements(breakdown->'lines') l;
+
+    new_bill_rate := COALESCE(entry.bill_rate, (
+      SELECT c.rate FROM public.resolve_rate_card(entry.profile_id, entry.client_id, entry.project_id, entry.date, 'bill_rate') c
+    ));
+    new_billable_amount := round(worked * new_bill_rate, 2);
+
+    UPDATE public.working_hours wh
+    SET overtime_breakdown = breakdown,
+        overtime_hours = new_overtime_hours,
+        payable_amount = new_payable_amount,
+        bill_rate = new_bill_rate,
+        billable_amount = new_billable_amount
+    WHERE wh.id = entry.id
+      AND (wh.overtime_breakdown, wh.overtime_hours, wh.payable_amount, wh.bill_rate, wh.billable_amount)
+        IS DISTINCT FROM (breakdown, new_overtime_hours, new_payable_amount, new_bill_rate, new_billable_amount);
+  END LOOP;
+END;
+$$;
+
+-- Deletes a roster together with its placeholder hours, the rows generated for it that
+-- nobody has clocked, submitted or started approving yet, and works the week's overtime
+-- out again for everyone who had one. Deleting an occurrence of a series also records
+-- its date as an exception on the series. Runs as the caller, so the roster policies
+-- still apply.
+CREATE OR REPLACE FUNCTION public.delete_roster(target_roster_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  deleted public.rosters%ROWTYPE;
+  released JSONB;
+  week RECORD;
+BEGIN
+  WITH removed AS (
+    DELETE FROM public.working_hours wh
+    WHERE wh.roster_id = target_roster_id
+      AND wh.status = 'pending'
+      AND wh.sign_in_time IS NULL
+      AND wh.actual_hours IS NULL
+      AND wh.timesheet_submission_id IS NULL
+      AND wh.approval_chain_id IS NULL
+    RETURNING wh.profile_id, wh.date
+  )
+  SELECT COALESCE(jsonb_agg(DISTINCT jsonb_build_object(
+           'profile_id', removed.profile_id,
+           'week_start', removed.date - (extract(isodow FROM removed.date)::INTEGER - 1)
+         )), '[]'::JSONB)
+  INTO released
+  FROM removed;
+
+  DELETE FROM public.rosters r
+  WHERE r.id = target_roster_id
+  RETURNING r.* INTO deleted;
+
+  IF deleted.id IS NULL THEN
+    RAISE EXCEPTION 'Roster % not found', target_roster_id;
+  END IF;
+
+  IF deleted.series_id IS NOT NULL THEN
+    UPDATE public.roster_series s
+    SET exception_dates = ARRAY(
+          SELECT DISTINCT d
+          FROM unnest(array_append(s.exception_dates, COALESCE(deleted.series_occurrence_date, deleted.date))) AS d
+          ORDER BY d
+        ),
+        updated_at = now()
+    WHERE s.id = deleted.series_id;
+  END IF;
+
+  FOR week IN SELECT * FROM jsonb_to_recordset(released) AS w(profile_id UUID, week_start DATE) LOOP
+    PERFORM public.recalculate_overtime(week.profile_id, week.week_start);
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.recalculate_overtime(UUID, DATE) FROM anon;
+REVOKE ALL ON FUNCTION public.delete_roster(UUID) FROM anon;
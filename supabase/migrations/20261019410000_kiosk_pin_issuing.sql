@@ -0,0 +1,49 @@
+-- Choosing your own PIN told you when it was already someone else's, which turned PIN
+-- setup into an unthrottled way to find colleagues' PINs. PINs are now issued by the
+-- database instead: a new random PIN that no other active profile has, shown once to
+-- the person it was issued for. Nobody can pick a PIN, so nothing reveals whether one
+-- is taken.
+DROP FUNCTION public.set_kiosk_pin(UUID, TEXT);
+
+-- Gives the profile a new six-digit PIN, replacing any they had, and returns it. Staff
+-- get their own; employee managers can issue anyone's.
+CREATE OR REPLACE FUNCTION public.issue_kiosk_pin(target_profile_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  max_tries CONSTANT INTEGER := 20;
+  candidate TEXT;
+BEGIN
+  IF target_profile_id <> auth.uid() AND NOT public.has_permission(auth.uid(), 'employees_manage') THEN
+    RAISE EXCEPTION 'Not allowed to issue this PIN';
+  END IF;
+
+  FOR attempt IN 1..max_tries LOOP
+    candidate := lpad((('x' || encode(gen_random_bytes(4), 'hex'))::BIT(32)::BIGINT % 1000000)::TEXT, 6, '0');
+
+    IF NOT EXISTS (
+      SELECT 1
+      FROM public.kiosk_pins kp
+      JOIN public.profiles p ON p.id = kp.profile_id
+      WHERE kp.profile_id <> target_profile_id
+        AND p.is_active
+        AND kp.pin_hash = crypt(candidate, kp.pin_hash)
+    ) THEN
+      INSERT INTO public.kiosk_pins (profile_id, pin_hash, updated_at)
+      VALUES (target_profile_id, crypt(candidate, gen_salt('bf')), now())
+      ON CONFLICT (profile_id) DO UPDATE
+        SET pin_hash = EXCLUDED.pin_hash, updated_at = EXCLUDED.updated_at;
+
+      RETURN candidate;
+    END IF;
+  END LOOP;
+
+  RAISE EXCEPTION 'Could not issue a PIN, try again';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_kiosk_pin(UUID) FROM anon;
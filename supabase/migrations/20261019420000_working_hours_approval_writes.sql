@@ -0,0 +1,250 @@
+-- Approving, rejecting and resubmitting hours move an entry along its approval chain and
+-- record the step in its history. Both used to be separate client writes, with the check
+-- of who may approve a step made only in the browser, and staff resubmitting through an
+-- update policy that let them change any column of their rejected entry. These functions
+-- check the actor against the entry's current step themselves and write the entry and
+-- its history in one transaction. History written directly is now limited to comments.
+
+DROP POLICY "Staff can resubmit their rejected hours" ON public.working_hours;
+
+DROP POLICY "Approvers and staff can record approval history" ON public.working_hours_approvals;
+
+CREATE POLICY "Approvers and staff can comment on hours"
+  ON public.working_hours_approvals FOR INSERT
+  WITH CHECK (
+    actor_profile_id = auth.uid()
+    AND action = 'commented'
+    AND (
+      public.has_permission(auth.uid(), 'working_hours_approve')
+      OR EXISTS (
+        SELECT 1 FROM public.working_hours wh
+        WHERE wh.id = working_hour_id AND wh.profile_id = auth.uid()
+      )
+    )
+  );
+
+-- The chain an entry goes through: the one it started on while that still exists,
+-- otherwise the most specific active chain (project, then client, then the default with
+-- neither set), or null when there is none
+CREATE OR REPLACE FUNCTION public.resolve_approval_chain(started_chain_id UUID, entry_client_id UUID, entry_project_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT c.id FROM public.approval_chains c WHERE c.id = started_chain_id),
+    (
+      SELECT c.id
+      FROM public.approval_chains c
+      WHERE c.is_active
+        AND (
+          (c.project_id IS NOT NULL AND c.project_id = entry_project_id)
+          OR (c.project_id IS NULL AND c.client_id IS NOT NULL AND c.client_id = entry_client_id)
+          OR (c.project_id IS NULL AND c.client_id IS NULL)
+        )
+      ORDER BY (c.project_id IS NULL), (c.client_id IS NULL), c.created_at
+      LIMIT 1
+    )
+  );
+$$;
+
+-- Approves the current step of each pending entry the caller may approve: a step names
+-- a person or a role, and a step with neither, or an entry with no chain, can be approved
+-- by anyone who approves hours. Entries on their last step become approved and have
+-- their week's overtime worked out again; the rest move on to the next step. Entries
+-- waiting on someone else are counted as blocked and left alone.
+CREATE OR REPLACE FUNCTION public.approve_working_hours(entry_ids UUID[], comment TEXT DEFAULT NULL)
+RETURNS TABLE (approved INTEGER, advanced INTEGER, blocked INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_id UUID := auth.uid();
+  actor_role public.user_role := public.get_user_role(auth.uid());
+  entry public.working_hours%ROWTYPE;
+  entry_chain_id UUID;
+  step_count INTEGER;
+  current_step public.approval_chain_steps%ROWTYPE;
+  approved_weeks JSONB := '[]'::JSONB;
+  week RECORD;
+BEGIN
+  IF NOT public.has_permission(actor_id, 'working_hours_approve') THEN
+    RAISE EXCEPTION 'Not allowed to approve working hours';
+  END IF;
+
+  approved := 0;
+  advanced := 0;
+  blocked := 0;
+
+  FOR entry IN
+    SELECT wh.* FROM public.working_hours wh
+    WHERE wh.id = ANY(entry_ids) AND wh.status = 'pending'
+    ORDER BY wh.id
+    FOR UPDATE
+  LOOP
+    entry_chain_id := public.resolve_approval_chain(entry.approval_chain_id, entry.client_id, entry.project_id);
+
+    SELECT count(*) INTO step_count FROM public.approval_chain_steps s WHERE s.chain_id = entry_chain_id;
+
+    SELECT s.* INTO current_step
+    FROM public.approval_chain_steps s
+    WHERE s.chain_id = entry_chain_id
+    ORDER BY s.step_order
+    OFFSET entry.approval_step
+    LIMIT 1;
+
+    IF current_step.id IS NOT NULL
+       AND ((current_step.approver_profile_id IS NOT NULL AND current_step.approver_profile_id <> actor_id)
+         OR (current_step.approver_profile_id IS NULL AND current_step.approver_role IS NOT NULL
+             AND current_step.approver_role IS DISTINCT FROM actor_role)) THEN
+      blocked := blocked + 1;
+      CONTINUE;
+    END IF;
+
+    IF current_step.id IS NULL OR entry.approval_step + 1 >= step_count THEN
+      UPDATE public.working_hours wh
+      SET status = 'approved', approval_step = step_count, approval_chain_id = entry_chain_id, rejection_reason = NULL
+      WHERE wh.id = entry.id;
+
+      approved := approved + 1;
+      approved_weeks := approved_weeks || jsonb_build_object('profile_id', entry.profile_id, 'date', entry.date);
+    ELSE
+      UPDATE public.working_hours wh
+      SET approval_step = entry.approval_step + 1, approval_chain_id = entry_chain_id
+      WHERE wh.id = entry.id;
+
+      advanced := advanced + 1;
+    END IF;
+
+    INSERT INTO public.working_hours_approvals (working_hour_id, action, step_order, step_name, comment, actor_profile_id)
+    VALUES (
+      entry.id, 'approved', CASE WHEN current_step.id IS NULL THEN NULL ELSE entry.approval_step + 1 END,
+      current_step.name, NULLIF(btrim(approve_working_hours.comment), ''), actor_id
+    );
+  END LOOP;
+
+  -- Approved hours are what payroll pays, so make sure their overtime is up to date
+  FOR week IN
+    SELECT DISTINCT w.profile_id, w.date - (extract(isodow FROM w.date)::INTEGER - 1) AS week_start
+    FROM jsonb_to_recordset(approved_weeks) AS w(profile_id UUID, date DATE)
+  LOOP
+    PERFORM public.recalculate_overtime(week.profile_id, week.week_start);
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Rejects pending entries at their current step, recording why. Only whoever may approve
+-- that step can reject it; the others are counted as blocked. Rejected hours no longer
+-- count towards the week, so its overtime is worked out again.
+CREATE OR REPLACE FUNCTION public.reject_working_hours(entry_ids UUID[], reason TEXT)
+RETURNS TABLE (rejected INTEGER, blocked INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_id UUID := auth.uid();
+  actor_role public.user_role := public.get_user_role(auth.uid());
+  entry public.working_hours%ROWTYPE;
+  entry_chain_id UUID;
+  current_step public.approval_chain_steps%ROWTYPE;
+  rejected_weeks JSONB := '[]'::JSONB;
+  week RECORD;
+BEGIN
+  IF NOT public.has_permission(actor_id, 'working_hours_approve') THEN
+    RAISE EXCEPTION 'Not allowed to reject working hours';
+  END IF;
+
+  IF COALESCE(btrim(reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is needed to reject hours';
+  END IF;
+
+  rejected := 0;
+  blocked := 0;
+
+  FOR entry IN
+    SELECT wh.* FROM public.working_hours wh
+    WHERE wh.id = ANY(entry_ids) AND wh.status = 'pending'
+    ORDER BY wh.id
+    FOR UPDATE
+  LOOP
+    entry_chain_id := public.resolve_approval_chain(entry.approval_chain_id, entry.client_id, entry.project_id);
+
+    SELECT s.* INTO current_step
+    FROM public.approval_chain_steps s
+    WHERE s.chain_id = entry_chain_id
+    ORDER BY s.step_order
+    OFFSET entry.approval_step
+    LIMIT 1;
+
+    IF current_step.id IS NOT NULL
+       AND ((current_step.approver_profile_id IS NOT NULL AND current_step.approver_profile_id <> actor_id)
+         OR (current_step.approver_profile_id IS NULL AND current_step.approver_role IS NOT NULL
+             AND current_step.approver_role IS DISTINCT FROM actor_role)) THEN
+      blocked := blocked + 1;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.working_hours wh
+    SET status = 'rejected', rejection_reason = reason, approval_step = 0
+    WHERE wh.id = entry.id;
+
+    INSERT INTO public.working_hours_approvals (working_hour_id, action, step_order, step_name, comment, actor_profile_id)
+    VALUES (
+      entry.id, 'rejected', CASE WHEN current_step.id IS NULL THEN NULL ELSE entry.approval_step + 1 END,
+      current_step.name, reason, actor_id
+    );
+
+    rejected := rejected + 1;
+    rejected_weeks := rejected_weeks || jsonb_build_object('profile_id', entry.profile_id, 'date', entry.date);
+  END LOOP;
+
+  FOR week IN
+    SELECT DISTINCT w.profile_id, w.date - (extract(isodow FROM w.date)::INTEGER - 1) AS week_start
+    FROM jsonb_to_recordset(rejected_weeks) AS w(profile_id UUID, date DATE)
+  LOOP
+    PERFORM public.recalculate_overtime(week.profile_id, week.week_start);
+  END LOOP;
+
+  RETURN NEXT;
+END;
+$$;
+
+-- Sends a rejected entry back to the start of the approval chain. Only the approval
+-- columns change; the hours themselves are edited before resubmitting. Staff resubmit
+-- their own entries and timesheet managers anyone's.
+CREATE OR REPLACE FUNCTION public.resubmit_working_hours(target_entry_id UUID, comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  resubmitted public.working_hours%ROWTYPE;
+BEGIN
+  UPDATE public.working_hours wh
+  SET status = 'pending', approval_step = 0, approval_chain_id = NULL, rejection_reason = NULL
+  WHERE wh.id = target_entry_id
+    AND wh.status = 'rejected'
+    AND (wh.profile_id = auth.uid() OR public.has_permission(auth.uid(), 'working_hours_manage'))
+  RETURNING wh.* INTO resubmitted;
+
+  IF resubmitted.id IS NULL THEN
+    RAISE EXCEPTION 'Only rejected hours can be resubmitted';
+  END IF;
+
+  INSERT INTO public.working_hours_approvals (working_hour_id, action, comment, actor_profile_id)
+  VALUES (resubmitted.id, 'resubmitted', NULLIF(btrim(resubmit_working_hours.comment), ''), auth.uid());
+
+  PERFORM public.recalculate_overtime(resubmitted.profile_id, resubmitted.date);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_approval_chain(UUID, UUID, UUID) FROM anon;
+REVOKE ALL ON FUNCTION public.approve_working_hours(UUID[], TEXT) FROM anon;
+REVOKE ALL ON FUNCTION public.reject_working_hours(UUID[], TEXT) FROM anon;
+REVOKE ALL ON FUNCTION public.resubmit_working_hours(UUID, TEXT) FROM anon;
@@ -0,0 +1,54 @@
+-- New payrolls are created together with their line items and super accrual. Each create
+-- path used to insert the payroll and then record the rest in separate writes, leaving a
+-- payroll without its accrual or recurring items when those failed.
+
+-- Creates one payroll per element of payrolls, given as the payroll's columns, with its
+-- period and amounts as worked out by calculatePayroll, plus items, its line items as
+-- replace_payroll_line_items takes them, and accrual, the super accrued on it as
+-- { ordinary_time_earnings, guarantee_percentage, amount } or null when no guarantee
+-- percentage applies. All of them are created or none are. Returns the created payrolls
+-- in the order of payrolls.
+CREATE OR REPLACE FUNCTION public.create_payroll(payrolls JSONB)
+RETURNS SETOF public.payroll
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  draft JSONB;
+  created public.payroll%ROWTYPE;
+BEGIN
+  IF NOT (public.has_permission(auth.uid(), 'payroll_manage') OR public.has_permission(auth.uid(), 'payroll_process')) THEN
+    RAISE EXCEPTION 'Not allowed to create payroll';
+  END IF;
+
+  FOR draft IN
+    SELECT e.item FROM jsonb_array_elements(payrolls) WITH ORDINALITY AS e(item, position) ORDER BY e.position
+  LOOP
+    INSERT INTO public.payroll (
+      profile_id, pay_period_start, pay_period_end, total_hours, hourly_rate, gross_pay,
+      tax_withheld, deductions, net_pay, salary_template_id, tax_scale_id, bank_account_id, status
+    )
+    SELECT
+      p.profile_id, p.pay_period_start, p.pay_period_end, p.total_hours, p.hourly_rate, p.gross_pay,
+      p.tax_withheld, p.deductions, p.net_pay, p.salary_template_id, p.tax_scale_id, p.bank_account_id,
+      COALESCE(p.status, 'pending'::public.payroll_status)
+    FROM jsonb_populate_record(NULL::public.payroll, draft) p
+    RETURNING * INTO created;
+
+    PERFORM public.replace_payroll_line_items(created.id, COALESCE(draft->'items', '[]'::JSONB));
+
+    IF jsonb_typeof(draft->'accrual') = 'object' THEN
+      INSERT INTO public.super_accruals (payroll_id, profile_id, pay_period_end, ordinary_time_earnings, guarantee_percentage, amount)
+      VALUES (
+        created.id, created.profile_id, created.pay_period_end, (draft->'accrual'->>'ordinary_time_earnings')::NUMERIC,
+        (draft->'accrual'->>'guarantee_percentage')::NUMERIC, (draft->'accrual'->>'amount')::NUMERIC
+      );
+    END IF;
+
+    RETURN NEXT created;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_payroll(JSONB) FROM anon;